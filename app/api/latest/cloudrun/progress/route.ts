@@ -12,7 +12,8 @@ import {
  * 
  * Since Netlify Functions are stateless, we check GCS directly to see if
  * the rendered video exists. Cloud Run renders write output to:
- * gs://{bucket}/renders/{renderId}/out.mp4
+ * gs://{bucket}/renders/{renderId}/out.{container} (mp4 unless another
+ * container was exported)
  *
  * @route POST /api/latest/cloudrun/progress
  * @returns {ProgressResponse} The current status of the render
@@ -28,7 +29,7 @@ export const POST = executeApi<ProgressResponse, typeof ProgressRequest>(
     const bucketName = body.bucketName || GCS_RENDERED_VIDEOS_BUCKET || "remotioncloudrun-buaw10zfzk";
     
     // Construct the expected output URL
-    const outputPath = `renders/${renderId}/out.mp4`;
+    const outputPath = `renders/${renderId}/out.${body.container ?? "mp4"}`;
     const publicUrl = `https://storage.googleapis.com/${bucketName}/${outputPath}`;
     
     try {
@@ -1,6 +1,7 @@
 import { renderMediaOnCloudrun } from "@remotion/cloudrun/client";
 import { RenderRequest } from "@/components/editor/version-7.0.0/types";
 import { executeApi } from "@/components/editor/version-7.0.0/cloudrun-helpers/api-response";
+import { getEncodingOptions } from "@/components/editor/version-7.0.0/utils/export-formats";
 import {
   GCP_REGION,
   GCS_RENDERED_VIDEOS_BUCKET,
@@ -21,11 +22,10 @@ import * as path from "path";
  * - scale: 0.8 - renderizar a 80% para mayor velocidad
  */
 const RENDER_CONFIG = {
-  CODEC: "h264" as const,
+  // h264 defaults, used unless the export asks otherwise
   CRF: 30, // Higher = faster & smaller file. Range 18-28. 30 = super rápido
   X264_PRESET: "ultrafast" as const, // Fastest possible!
   FRAMES_CONCURRENCY: 24, // Optimizado para 4 vCPUs
-  IMAGE_FORMAT: "jpeg" as const,
   JPEG_QUALITY: 75, // Reducir calidad para máxima velocidad
 } as const;
 
@@ -235,26 +235,41 @@ export const POST = executeApi(RenderRequest, async (req, body) => {
   // scale=1 (default) = original resolution, scale=1.5 = 1080p, scale=3 = 4K
   const renderScale = body.renderScale && body.renderScale > 0 ? body.renderScale : undefined;
 
+  // Codec, container and quality requested for the export. The output is
+  // named out.{container} so /progress can find it.
+  const encoding = getEncodingOptions(body, {
+    crf: RENDER_CONFIG.CRF,
+    x264Preset: RENDER_CONFIG.X264_PRESET,
+    durationInFrames: body.inputProps.durationInFrames,
+  });
+
   const renderPromise = renderMediaOnCloudrun({
     region: GCP_REGION as any,
     serviceName: process.env.REMOTION_GCP_SERVICE_NAME!,
     serveUrl: process.env.REMOTION_GCP_SERVE_URL!,
     composition: body.id,
     inputProps: body.inputProps,
-    codec: RENDER_CONFIG.CODEC,
-    crf: RENDER_CONFIG.CRF,
-    x264Preset: RENDER_CONFIG.X264_PRESET,
+    codec: encoding.codec,
+    crf: encoding.crf,
+    x264Preset: encoding.x264Preset,
     privacy: "public",
     downloadBehavior: {
       type: "download",
-      fileName: "video.mp4",
+      fileName: encoding.fileName,
     },
+    outName: `out.${encoding.container}`,
     forceBucketName: bucketName,
     renderIdOverride: renderId,
     // ⚡ SPEED SETTINGS - MÁXIMA VELOCIDAD
     concurrency: RENDER_CONFIG.FRAMES_CONCURRENCY,
-    imageFormat: RENDER_CONFIG.IMAGE_FORMAT, 
+    imageFormat: encoding.imageFormat,
     jpegQuality: RENDER_CONFIG.JPEG_QUALITY,
+    // Format specific settings
+    audioBitrate: encoding.audioBitrate,
+    proResProfile: encoding.proResProfile,
+    everyNthFrame: encoding.everyNthFrame,
+    numberOfGifLoops: encoding.numberOfGifLoops,
+    frameRange: encoding.frameRange,
     // Cache video frames in memory for faster rendering
     offthreadVideoCacheSizeInBytes: 3000000000, // 3GB cache (máximo)
     enforceAudioTrack: false, // No forzar audio si no hay
@@ -2,6 +2,7 @@ import { AwsRegion, RenderMediaOnLambdaOutput } from "@remotion/lambda/client";
 import { renderMediaOnLambda } from "@remotion/lambda/client";
 import { RenderRequest } from "@/components/editor/version-7.0.0/types";
 import { executeApi } from "@/components/editor/version-7.0.0/lambda-helpers/api-response";
+import { getEncodingOptions } from "@/components/editor/version-7.0.0/utils/export-formats";
 
 import {
   LAMBDA_FUNCTION_NAME,
@@ -21,11 +22,9 @@ const LAMBDA_CONFIG = {
   FUNCTION_NAME: LAMBDA_FUNCTION_NAME,
   FRAMES_PER_LAMBDA: 100,
   MAX_RETRIES: 2,
-  CODEC: "h264" as const,
-  // ⚡ MAXIMUM speed settings
+  // ⚡ MAXIMUM speed settings (h264 defaults unless the export asks otherwise)
   CRF: 28, // Fast (18-28 range, 28 is fastest)
   X264_PRESET: "ultrafast" as const, // Fastest possible
-  IMAGE_FORMAT: "jpeg" as const, // Faster than PNG
   JPEG_QUALITY: 80, // Good enough
 } as const;
 
@@ -69,8 +68,15 @@ export const POST = executeApi<RenderMediaOnLambdaOutput, typeof RenderRequest>(
       // Use Remotion's scale parameter for resolution upscaling
       const renderScale = body.renderScale && body.renderScale > 0 ? body.renderScale : undefined;
 
+      // Codec, container and quality requested for the export
+      const encoding = getEncodingOptions(body, {
+        crf: LAMBDA_CONFIG.CRF,
+        x264Preset: LAMBDA_CONFIG.X264_PRESET,
+        durationInFrames: body.inputProps.durationInFrames,
+      });
+
       const result = await renderMediaOnLambda({
-        codec: LAMBDA_CONFIG.CODEC,
+        codec: encoding.codec,
         functionName: LAMBDA_CONFIG.FUNCTION_NAME,
         region: REGION as AwsRegion,
         serveUrl: SITE_NAME,
@@ -79,15 +85,20 @@ export const POST = executeApi<RenderMediaOnLambdaOutput, typeof RenderRequest>(
         framesPerLambda: LAMBDA_CONFIG.FRAMES_PER_LAMBDA,
         downloadBehavior: {
           type: "download",
-          fileName: "video.mp4",
+          fileName: encoding.fileName,
         },
         maxRetries: LAMBDA_CONFIG.MAX_RETRIES,
-        everyNthFrame: 1,
+        everyNthFrame: encoding.everyNthFrame,
         // ⚡ SPEED OPTIMIZATIONS
-        crf: LAMBDA_CONFIG.CRF,
-        x264Preset: LAMBDA_CONFIG.X264_PRESET,
-        imageFormat: LAMBDA_CONFIG.IMAGE_FORMAT,
+        crf: encoding.crf,
+        x264Preset: encoding.x264Preset,
+        imageFormat: encoding.imageFormat,
         jpegQuality: LAMBDA_CONFIG.JPEG_QUALITY,
+        // Format specific settings
+        audioBitrate: encoding.audioBitrate,
+        proResProfile: encoding.proResProfile,
+        numberOfGifLoops: encoding.numberOfGifLoops,
+        frameRange: encoding.frameRange,
         // Resolution upscaling via Remotion's built-in scale
         ...(renderScale ? { scale: renderScale } : {}),
       });
@@ -0,0 +1,20 @@
+import { CancelRequest } from "@/components/editor/version-7.0.0/types";
+import { executeApi } from "@/components/editor/version-7.0.0/ssr-helpers/api-response";
+import {
+  cancelRendering,
+  recoverQueuedRenders,
+} from "@/components/editor/version-7.0.0/ssr-helpers/custom-renderer";
+
+/**
+ * POST endpoint handler for cancelling a queued or running SSR render
+ */
+export const POST = executeApi(CancelRequest, async (req, body) => {
+  recoverQueuedRenders();
+  const cancelled = cancelRendering(body.id);
+
+  if (!cancelled) {
+    throw new Error(`No queued or running render found with ID: ${body.id}`);
+  }
+
+  return { cancelled };
+});
@@ -1,34 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import path from "path";
 import fs from "fs";
+import { ExportContainer } from "@/components/editor/version-7.0.0/types";
+import { getExportMimeType } from "@/components/editor/version-7.0.0/utils/export-formats";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   const { id } = params;
+  const videosDir = path.join(process.cwd(), "public", "rendered-videos");
 
-  // Construct the path to the video file
-  const videoPath = path.join(
-    process.cwd(),
-    "public",
-    "rendered-videos",
-    `${id}.mp4`
+  // Renders are saved as {id}.{container}; the container depends on the export
+  const container = ExportContainer.options.find((extension) =>
+    fs.existsSync(path.join(videosDir, `${id}.${extension}`))
   );
 
   // Check if the file exists
-  if (!fs.existsSync(videoPath)) {
+  if (!container) {
     return new NextResponse("Video not found", { status: 404 });
   }
 
   // Read the file
-  const videoBuffer = fs.readFileSync(videoPath);
+  const videoBuffer = fs.readFileSync(path.join(videosDir, `${id}.${container}`));
 
   // Return the video with appropriate headers for download
   return new NextResponse(videoBuffer, {
     headers: {
-      "Content-Type": "video/mp4",
-      "Content-Disposition": `attachment; filename="rendered-video.mp4"`,
+      "Content-Type": getExportMimeType(container),
+      "Content-Disposition": `attachment; filename="rendered-video.${container}"`,
     },
   });
 }
@@ -2,11 +2,13 @@ import { ProgressRequest } from "@/components/editor/version-7.0.0/types";
 
 import { getRenderState } from "@/components/editor/version-7.0.0/ssr-helpers/render-state";
 import { executeApi } from "@/components/editor/version-7.0.0/ssr-helpers/api-response";
+import { recoverQueuedRenders } from "@/components/editor/version-7.0.0/ssr-helpers/custom-renderer";
 
 /**
  * POST endpoint handler for checking rendering progress
  */
 export const POST = executeApi(ProgressRequest, async (req, body) => {
+  recoverQueuedRenders();
   const { id } = body;
   const state = getRenderState(id);
 
@@ -23,6 +25,16 @@ export const POST = executeApi(ProgressRequest, async (req, body) => {
         type: "error",
         message: state.error || "Unknown error occurred",
       };
+    case "cancelled":
+      return {
+        type: "error",
+        message: "Render was cancelled",
+      };
+    case "queued":
+      return {
+        type: "queued",
+        position: state.queuePosition || 1,
+      };
     case "done":
       return {
         type: "done",
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { RenderStillRequest } from "@/components/editor/version-7.0.0/types";
+import { renderStillFrame } from "@/components/editor/version-7.0.0/ssr-helpers/custom-renderer";
+import { formatSchemaError } from "@/components/editor/version-7.0.0/utils/project-schema";
+
+/**
+ * POST endpoint handler for rendering a single frame as a PNG or JPEG.
+ *
+ * Unlike the other SSR endpoints this responds with the image itself rather
+ * than JSON. Errors use the usual `{ type: "error", message }` body.
+ */
+export async function POST(req: Request) {
+  try {
+    const request = RenderStillRequest.safeParse(await req.json());
+    if (!request.success) {
+      return NextResponse.json(
+        { type: "error", message: formatSchemaError(request.error) },
+        { status: 400 }
+      );
+    }
+    const body = request.data;
+
+    const image = await renderStillFrame({
+      compositionId: body.id,
+      inputProps: body.inputProps,
+      frame: body.frame,
+      imageFormat: body.imageFormat,
+      renderScale: body.renderScale,
+    });
+
+    const extension = body.imageFormat === "jpeg" ? "jpg" : "png";
+    return new NextResponse(image, {
+      headers: {
+        "Content-Type": `image/${body.imageFormat}`,
+        "Content-Disposition": `inline; filename="frame-${body.frame}.${extension}"`,
+      },
+    });
+  } catch (err) {
+    console.error("Error in renderStill:", err);
+    return NextResponse.json(
+      { type: "error", message: (err as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { RenderRequest } from "@/components/editor/version-7.0.0/types";
 import { executeApi } from "@/components/editor/version-7.0.0/ssr-helpers/api-response";
-import { startRendering, warmupBundle } from "@/components/editor/version-7.0.0/ssr-helpers/custom-renderer";
+import {
+  recoverQueuedRenders,
+  startRendering,
+  warmupBundle,
+} from "@/components/editor/version-7.0.0/ssr-helpers/custom-renderer";
 
 // ⚡ Pre-warm the bundle cache on module load
 // This happens when the server starts, so first render is fast
@@ -10,10 +14,12 @@ warmupBundle().catch(console.error);
  * POST endpoint handler for rendering media using Remotion SSR
  */
 export const POST = executeApi(RenderRequest, async (req, body) => {
+  recoverQueuedRenders();
 
   try {
     // Start the rendering process using our custom renderer
-    const renderId = await startRendering(body.id, body.inputProps, body.renderScale);
+    const { id, inputProps, renderScale, ...exportSettings } = body;
+    const renderId = await startRendering(id, inputProps, renderScale, exportSettings);
 
     return { renderId };
   } catch (error) {
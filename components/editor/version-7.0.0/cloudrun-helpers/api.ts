@@ -3,8 +3,10 @@ import {
   RenderRequest,
   ProgressRequest,
   ProgressResponse,
+  ExportContainer,
 } from "@/components/editor/version-7.0.0/types";
 import { CompositionProps } from "@/components/editor/version-7.0.0/types";
+import type { ExportSettings } from "@/components/editor/version-7.0.0/utils/export-formats";
 
 type ApiResponse<T> = {
   type: "success" | "error";
@@ -67,21 +69,25 @@ export type CloudRunRenderResponse =
  * Initiates a video render using Google Cloud Run
  * @param id Composition ID
  * @param inputProps Video composition properties
+ * @param exportSettings Codec, container, quality and frame range of the export
  * @returns Render ID and bucket name
  */
 export const renderVideo = async ({
   id,
   inputProps,
   renderScale,
+  exportSettings,
 }: {
   id: string;
   inputProps: z.infer<typeof CompositionProps>;
   renderScale?: number;
+  exportSettings?: ExportSettings;
 }) => {
   const body: z.infer<typeof RenderRequest> = {
     id,
     inputProps,
     renderScale,
+    ...exportSettings,
   };
 
   const response = await makeRequest<CloudRunRenderResponse>(
@@ -95,18 +101,22 @@ export const renderVideo = async ({
  * Gets the progress of a video render on Cloud Run
  * @param id Render ID
  * @param bucketName GCS bucket name
+ * @param container Exported container, which names the output file
  * @returns Current progress status
  */
 export const getProgress = async ({
   id,
   bucketName,
+  container,
 }: {
   id: string;
   bucketName: string;
+  container?: ExportContainer;
 }) => {
   const body: z.infer<typeof ProgressRequest> = {
     id,
     bucketName,
+    container,
   };
 
   const response = await makeRequest<ProgressResponse>(
@@ -5,6 +5,7 @@ import dynamic from "next/dynamic";
 import { ArrowLeft } from "lucide-react";
 
 import RenderControls from "../rendering/render-controls";
+import { VariantSwitcher } from "./variant-switcher";
 import { useEditorContext } from "../../contexts/editor-context";
 import { LanguageSelector } from "@/components/language-selector";
 import { useTranslation } from "@/lib/i18n";
@@ -36,6 +37,7 @@ const ThemeToggleClient = dynamic(
  * - A sidebar trigger button for showing/hiding the sidebar
  * - A visual separator
  * - A theme toggle switch for light/dark mode
+ * - A switcher between the aspect-ratio variants of the project
  * - Rendering controls for media export
  *
  * The header is sticky-positioned at the top of the viewport and includes
@@ -103,6 +105,9 @@ export function EditorHeader() {
       {/* Theme toggle component (client-side only) */}
       <ThemeToggleClient />
 
+      {/* Aspect-ratio variants sharing the timeline */}
+      <VariantSwitcher />
+
       {/* Spacer to push rendering controls to the right */}
       <div className="flex-grow" />
 
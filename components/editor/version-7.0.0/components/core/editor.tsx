@@ -5,9 +5,11 @@ import { EditorHeader } from "./editor-header";
 
 import { useEditorContext } from "../../contexts/editor-context";
 import { TimelineControls } from "../timeline/timeline-controls";
-import { DISABLE_MOBILE_LAYOUT, FPS } from "../../constants";
+import { DISABLE_MOBILE_LAYOUT } from "../../constants";
 import Timeline from "../timeline/timeline";
 import { VideoPlayer } from "./video-player";
+import { RelinkMediaDialog } from "./relink-media-dialog";
+import { ReplaceMediaDialog } from "./replace-media-dialog";
 import { useTranslation } from "@/lib/i18n";
 
 /**
@@ -184,7 +186,7 @@ export const Editor: React.FC = () => {
         setCurrentFrame={(frame) => {
           if (playerRef.current) {
             try {
-              playerRef.current.seekTo(frame / FPS);
+              playerRef.current.seekTo(frame);
             } catch (error) {
               console.error("Failed to seek player:", error);
             }
@@ -193,6 +195,11 @@ export const Editor: React.FC = () => {
         setOverlays={setOverlays}
         onTimelineClick={handleTimelineClick}
       />
+
+      {/* Replacement picker for media files that went missing */}
+      <RelinkMediaDialog />
+      {/* Picker for swapping the file of a video, image or sound */}
+      <ReplaceMediaDialog />
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React from "react";
-import { Overlay } from "../../types";
+import { Overlay, VolumePoint } from "../../types";
 import { TextLayerContent } from "../overlays/text/text-layer-content";
 import { OverlayType } from "../../types";
 import { CaptionLayerContent } from "../overlays/captions/caption-layer-content";
@@ -7,15 +7,21 @@ import { VideoLayerContent } from "../overlays/video/video-layer-content";
 import { ImageLayerContent } from "../overlays/images/image-layer-content";
 import { SoundLayerContent } from "../overlays/captions/sound-layer-content";
 import { StickerLayerContent } from "../overlays/stickers/sticker-layer-content";
+import { ShapeLayerContent } from "../overlays/shapes/shape-layer-content";
+import { VisualiserSource } from "../../utils/audio-visualiser";
 
 /**
  * Props for the LayerContent component
  * @interface LayerContentProps
  * @property {Overlay} overlay - The overlay object containing type and content information
+ * @property {VolumePoint[] | undefined} duckingEnvelope - Ducking applied to a sound overlay
+ * @property {VisualiserSource[] | undefined} visualiserSources - Audio followed by an audio visualiser sticker
  */
 interface LayerContentProps {
   overlay: Overlay;
   baseUrl?: string;
+  duckingEnvelope?: VolumePoint[];
+  visualiserSources?: VisualiserSource[];
 }
 
 /**
@@ -30,7 +36,7 @@ interface LayerContentProps {
  * Supported overlay types:
  * - VIDEO: Renders video content with VideoLayerContent
  * - TEXT: Renders text overlays with TextLayerContent
- * - SHAPE: Renders colored shapes
+ * - SHAPE: Renders SVG shapes with ShapeLayerContent
  * - IMAGE: Renders images with ImageLayerContent
  * - CAPTION: Renders captions with CaptionLayerContent
  * - SOUND: Renders audio elements using Remotion's Audio component
@@ -50,6 +56,8 @@ interface LayerContentProps {
 export const LayerContent: React.FC<LayerContentProps> = ({
   overlay,
   baseUrl,
+  duckingEnvelope,
+  visualiserSources,
 }) => {
   /**
    * Common styling applied to all layer types
@@ -82,6 +90,13 @@ export const LayerContent: React.FC<LayerContentProps> = ({
         </div>
       );
 
+    case OverlayType.SHAPE:
+      return (
+        <div style={{ ...commonStyle }}>
+          <ShapeLayerContent overlay={overlay} />
+        </div>
+      );
+
     case OverlayType.CAPTION:
       return (
         <div
@@ -99,12 +114,23 @@ export const LayerContent: React.FC<LayerContentProps> = ({
     case OverlayType.STICKER:
       return (
         <div style={{ ...commonStyle }}>
-          <StickerLayerContent overlay={overlay} isSelected={false} />
+          <StickerLayerContent
+            overlay={overlay}
+            isSelected={false}
+            baseUrl={baseUrl}
+            audioSources={visualiserSources}
+          />
         </div>
       );
 
     case OverlayType.SOUND:
-      return <SoundLayerContent overlay={overlay} baseUrl={baseUrl} />;
+      return (
+        <SoundLayerContent
+          overlay={overlay}
+          baseUrl={baseUrl}
+          duckingEnvelope={duckingEnvelope}
+        />
+      );
 
     default:
       return null;
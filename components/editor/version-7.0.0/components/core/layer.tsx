@@ -1,7 +1,19 @@
 import React, { useMemo } from "react";
-import { Sequence } from "remotion";
+import { Sequence, useCurrentFrame } from "remotion";
 import { LayerContent } from "./layer-content";
-import { Overlay, OverlayType } from "../../types";
+import { Overlay, OverlayType, VolumePoint } from "../../types";
+import {
+  getAnimatedValues,
+  hasKeyframes,
+  resolveAnimatedOverlay,
+} from "../../utils/animation-keyframes";
+import {
+  getTransitionStyleAtFrame,
+  TransitionWindow,
+} from "../../utils/clip-transitions";
+import { VisualiserSource } from "../../utils/audio-visualiser";
+import { getMediaName, getOverlaySource } from "../../utils/media-relink";
+import { hasMergeVariables } from "../../utils/data-merge";
 
 /**
  * Get the base z-index for an overlay type
@@ -32,18 +44,165 @@ const getTypeZIndex = (type: OverlayType | string): number => {
   }
 };
 
+/**
+ * Stand-in for a photo or video whose file is missing, so the overlay keeps
+ * its place on the canvas until it is relinked
+ */
+const OfflineMedia: React.FC<{ overlay: Overlay }> = ({ overlay }) => (
+  <div
+    style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+      background:
+        "repeating-linear-gradient(45deg, #2a2a2e, #2a2a2e 24px, #3a1f24 24px, #3a1f24 48px)",
+      border: "4px solid #ef4444",
+      color: "#fca5a5",
+      fontSize: 28,
+      fontFamily: "sans-serif",
+      textAlign: "center",
+      padding: 16,
+      boxSizing: "border-box",
+    }}
+  >
+    {getMediaName(getOverlaySource(overlay) ?? "")}
+  </div>
+);
+
+/**
+ * Stand-in for a photo or video whose file comes from a `{{variable}}` of
+ * the merge dataset; each row fills it in when previewed or rendered
+ */
+const MergeFieldMedia: React.FC<{ overlay: Overlay }> = ({ overlay }) => (
+  <div
+    style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+      background: "rgba(30, 41, 59, 0.85)",
+      border: "4px dashed #38bdf8",
+      color: "#7dd3fc",
+      fontSize: 32,
+      fontFamily: "monospace",
+      textAlign: "center",
+      padding: 16,
+      boxSizing: "border-box",
+    }}
+  >
+    {getOverlaySource(overlay)}
+  </div>
+);
+
+/**
+ * Positioned wrapper for a visual overlay.
+ * Must be rendered inside the overlay's Sequence so that `useCurrentFrame`
+ * returns the frame relative to the overlay start, which is the time base
+ * used by keyframes and transitions. Works the same in the Player and in
+ * SSR renders.
+ */
+const AnimatedLayer: React.FC<{
+  overlay: Overlay;
+  style: React.CSSProperties;
+  baseUrl?: string;
+  transitionWindows?: TransitionWindow[];
+  visualiserSources?: VisualiserSource[];
+  isOffline?: boolean;
+}> = ({ overlay, style, baseUrl, transitionWindows, visualiserSources, isOffline }) => {
+  const frame = useCurrentFrame();
+
+  // Content that sizes itself from the overlay box (e.g. text) sees the
+  // animated geometry rather than the static one
+  const animatedOverlay = useMemo(
+    () => resolveAnimatedOverlay(overlay, frame),
+    [overlay, frame]
+  );
+
+  const animatedStyle: React.CSSProperties = useMemo(() => {
+    let keyframedStyle = style;
+    if (hasKeyframes(overlay)) {
+      const values = getAnimatedValues(overlay, frame);
+      keyframedStyle = {
+        ...style,
+        left: values.left,
+        top: values.top,
+        width: values.width,
+        height: values.height,
+        opacity: values.opacity,
+        transform: `rotate(${values.rotation}deg) scale(${values.scale})`,
+      };
+    }
+
+    const transitionStyle = getTransitionStyleAtFrame(
+      transitionWindows,
+      frame,
+      Number(style.zIndex) || 0
+    );
+    if (!transitionStyle) return keyframedStyle;
+
+    // Transition effects stack on top of the keyframed values
+    return {
+      ...keyframedStyle,
+      ...transitionStyle,
+      opacity:
+        Number(keyframedStyle.opacity ?? 1) *
+        Number(transitionStyle.opacity ?? 1),
+      transform: [keyframedStyle.transform, transitionStyle.transform]
+        .filter(Boolean)
+        .join(" "),
+    };
+  }, [overlay, style, frame, transitionWindows]);
+
+  return (
+    <div style={animatedStyle}>
+      {isOffline ? (
+        <OfflineMedia overlay={overlay} />
+      ) : hasMergeVariables(getOverlaySource(overlay)) ? (
+        <MergeFieldMedia overlay={overlay} />
+      ) : (
+        <LayerContent
+          overlay={animatedOverlay}
+          baseUrl={baseUrl}
+          visualiserSources={visualiserSources}
+        />
+      )}
+    </div>
+  );
+};
+
 /**
  * Props for the Layer component
  * @interface LayerProps
  * @property {Overlay} overlay - The overlay object containing position, dimensions, and content information
  * @property {number | null} selectedOverlayId - ID of the currently selected overlay, used for interaction states
  * @property {string | undefined} baseUrl - The base URL for the video
+ * @property {TransitionWindow[] | undefined} transitionWindows - Cross-clip transitions this layer takes part in
+ * @property {VolumePoint[] | undefined} duckingEnvelope - Ducking under speech, for sound overlays
+ * @property {VisualiserSource[] | undefined} visualiserSources - Audio followed by an audio visualiser sticker
+ * @property {boolean | undefined} isOffline - Whether the media file is missing
  */
 export const Layer: React.FC<{
   overlay: Overlay;
   selectedOverlayId: number | null;
   baseUrl?: string;
-}> = ({ overlay, selectedOverlayId, baseUrl }) => {
+  transitionWindows?: TransitionWindow[];
+  duckingEnvelope?: VolumePoint[];
+  visualiserSources?: VisualiserSource[];
+  isOffline?: boolean;
+}> = ({
+  overlay,
+  selectedOverlayId,
+  baseUrl,
+  transitionWindows,
+  duckingEnvelope,
+  visualiserSources,
+  isOffline,
+}) => {
   /**
    * Memoized style calculations for the layer
    * Handles positioning, dimensions, rotation, and z-index based on:
@@ -90,13 +249,20 @@ export const Layer: React.FC<{
    * they just need to be sequenced correctly
    */
   if (overlay.type === "sound") {
+    // A missing sound, or one whose file comes from the merge dataset, is
+    // flagged on the timeline and stays silent
+    if (isOffline || hasMergeVariables(overlay.src)) return null;
     return (
       <Sequence
         key={overlay.id}
         from={overlay.from}
         durationInFrames={overlay.durationInFrames}
       >
-        <LayerContent overlay={overlay} baseUrl={baseUrl} />
+        <LayerContent
+          overlay={overlay}
+          baseUrl={baseUrl}
+          duckingEnvelope={duckingEnvelope}
+        />
       </Sequence>
     );
   }
@@ -104,7 +270,7 @@ export const Layer: React.FC<{
   /**
    * Standard layer rendering for visual elements
    * Wraps the content in a Sequence for timing control and
-   * a positioned div for layout management
+   * a positioned div for layout management and keyframe animation
    */
   return (
     <Sequence
@@ -113,9 +279,14 @@ export const Layer: React.FC<{
       durationInFrames={overlay.durationInFrames}
       layout="none"
     >
-      <div style={style}>
-        <LayerContent overlay={overlay} baseUrl={baseUrl} />
-      </div>
+      <AnimatedLayer
+        overlay={overlay}
+        style={style}
+        baseUrl={baseUrl}
+        transitionWindows={transitionWindows}
+        visualiserSources={visualiserSources}
+        isOffline={isOffline}
+      />
     </Sequence>
   );
 };
@@ -0,0 +1,252 @@
+import React, { useRef, useState } from "react";
+import Image from "next/image";
+import { Film, Image as ImageIcon, Loader2, Music, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+import { useLocalMedia } from "../../contexts/local-media-context";
+import { useReelmotionVideos } from "../../hooks/use-reelmotion-videos";
+import { LinkedMediaType } from "../../utils/media-relink";
+import { MediaChoice } from "../../utils/media-replace";
+
+const ACCEPT: Record<LinkedMediaType, string> = {
+  video: "video/*",
+  image: "image/*",
+  audio: "audio/*",
+};
+
+const MEDIA_ICONS: Record<LinkedMediaType, React.ElementType> = {
+  video: Film,
+  image: ImageIcon,
+  audio: Music,
+};
+
+/**
+ * Videos from the user's Reelmotion projects. Kept in its own component so
+ * they are only fetched when the tab is opened.
+ */
+const ReelmotionVideoChoices: React.FC<{
+  onSelect: (src: string) => void;
+  disabled: boolean;
+}> = ({ onSelect, disabled }) => {
+  const { t } = useTranslation();
+  const { videos, isLoading, hasMore, loadMore, searchQuery, setSearchQuery } =
+    useReelmotionVideos();
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder={t("mediaPicker.searchVideos")}
+        className="h-8 text-xs"
+      />
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : videos.length === 0 ? (
+        <p className="py-6 text-center text-xs text-muted-foreground">
+          {t("mediaPicker.noMedia")}
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {videos.map((video) => (
+            <button
+              key={video.id}
+              onClick={() => onSelect(video.video_url)}
+              disabled={disabled}
+              className="group text-left disabled:opacity-50"
+            >
+              <div className="relative aspect-video overflow-hidden rounded bg-gray-200 dark:bg-darkBoxSub">
+                {video.thumbnail_url ? (
+                  <Image
+                    src={video.thumbnail_url}
+                    alt=""
+                    fill
+                    sizes="160px"
+                    unoptimized
+                    className="object-cover group-hover:opacity-70"
+                  />
+                ) : (
+                  <video
+                    src={`${video.video_url}#t=0.1`}
+                    className="h-full w-full object-cover group-hover:opacity-70"
+                    muted
+                    preload="metadata"
+                  />
+                )}
+              </div>
+              <p className="mt-0.5 truncate text-[11px] text-gray-600 dark:text-zinc-400">
+                {video.name}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+      {hasMore && (
+        <Button variant="ghost" size="sm" className="w-full text-xs" onClick={loadMore}>
+          {t("mediaPicker.loadMore")}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface MediaSourcePickerProps {
+  /** Kind of media that can be picked */
+  type: LinkedMediaType;
+  /** Called with the picked file */
+  onPick: (media: MediaChoice) => void;
+  /** Whether picking is blocked, e.g. while a pick is being applied */
+  disabled?: boolean;
+}
+
+/**
+ * MediaSourcePicker Component
+ *
+ * Tabs for choosing a media file of one kind: the user's uploads, videos
+ * from their Reelmotion projects, or a new upload.
+ */
+export const MediaSourcePicker: React.FC<MediaSourcePickerProps> = ({
+  type,
+  onPick,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const { localMediaFiles, addMediaFile } = useLocalMedia();
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploads = localMediaFiles.filter((file) => file.type === type);
+  const MediaIcon = MEDIA_ICONS[type];
+  const isBusy = disabled || isUploading;
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith(`${type}/`)) {
+      toast({
+        title: t("mediaPicker.wrongType"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await addMediaFile(file);
+      if (uploaded) {
+        onPick({ type, src: uploaded.path, durationInSeconds: uploaded.duration });
+      }
+    } catch (error) {
+      console.error("Error uploading media:", error);
+      toast({
+        title: t("uploads.uploadFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Tabs defaultValue="uploads">
+      <TabsList className="w-full">
+        <TabsTrigger value="uploads" className="flex-1 text-xs">
+          {t("mediaPicker.tab.uploads")}
+        </TabsTrigger>
+        {type === "video" && (
+          <TabsTrigger value="reelmotion" className="flex-1 text-xs">
+            {t("mediaPicker.tab.reelmotion")}
+          </TabsTrigger>
+        )}
+        <TabsTrigger value="upload" className="flex-1 text-xs">
+          {t("mediaPicker.tab.upload")}
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="uploads" className="max-h-[320px] overflow-y-auto">
+        {uploads.length === 0 ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">
+            {t("mediaPicker.noMedia")}
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {uploads.map((file) => (
+              <button
+                key={file.id}
+                onClick={() =>
+                  onPick({
+                    type,
+                    src: file.path,
+                    durationInSeconds: file.duration,
+                  })
+                }
+                disabled={isBusy}
+                className="flex w-full items-center gap-2 rounded-md border border-gray-200 dark:border-gray-700 p-1.5 text-left hover:bg-gray-100/80 dark:hover:bg-gray-800/80 disabled:opacity-50"
+              >
+                {file.thumbnail ? (
+                  <Image
+                    src={file.thumbnail}
+                    alt=""
+                    width={48}
+                    height={32}
+                    unoptimized
+                    className="h-8 w-12 shrink-0 rounded object-cover"
+                  />
+                ) : (
+                  <span className="flex h-8 w-12 shrink-0 items-center justify-center rounded bg-gray-200 dark:bg-darkBoxSub">
+                    <MediaIcon className="h-3.5 w-3.5 text-gray-500" />
+                  </span>
+                )}
+                <span className="truncate text-xs">{file.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </TabsContent>
+
+      {type === "video" && (
+        <TabsContent value="reelmotion" className="max-h-[320px] overflow-y-auto">
+          <ReelmotionVideoChoices
+            onSelect={(src) => onPick({ type, src })}
+            disabled={isBusy}
+          />
+        </TabsContent>
+      )}
+
+      <TabsContent value="upload">
+        <div className="flex flex-col items-center gap-3 py-6">
+          <p className="text-xs text-muted-foreground">
+            {t("mediaPicker.uploadHint")}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            {isBusy ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            {t("uploads.uploadButton")}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept={ACCEPT[type]}
+            onChange={handleUpload}
+          />
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+};
@@ -0,0 +1,56 @@
+import React from "react";
+import { ChevronLeft, ChevronRight, Table2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+
+/**
+ * Floating bar shown over the canvas while a row of the merge dataset is
+ * previewed. Steps to the previous or next row, or goes back to the project.
+ */
+export const MergePreviewBar: React.FC = () => {
+  const { t } = useTranslation();
+  const { mergePreview, previewMergeRow } = useEditorContext();
+
+  if (!mergePreview) return null;
+  const { rowIndex, rowCount } = mergePreview;
+
+  return (
+    <div className="flex items-center gap-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white/95 dark:bg-darkBox px-2 py-1 shadow-lg backdrop-blur-sm">
+      <span className="flex items-center gap-1.5 px-1 text-xs text-gray-600 dark:text-zinc-400">
+        <Table2 className="h-3.5 w-3.5" />
+        {t("dataMerge.previewRow", { row: rowIndex + 1, count: rowCount })}
+      </span>
+      <div className="h-4 w-px bg-gray-200 dark:bg-gray-700" />
+      <Button
+        onClick={() => previewMergeRow(rowIndex - 1)}
+        disabled={rowIndex === 0}
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7 text-gray-700 dark:text-zinc-200"
+        title={t("dataMerge.previousRow")}
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        onClick={() => previewMergeRow(rowIndex + 1)}
+        disabled={rowIndex >= rowCount - 1}
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7 text-gray-700 dark:text-zinc-200"
+        title={t("dataMerge.nextRow")}
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        onClick={() => previewMergeRow(null)}
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7 text-gray-700 dark:text-zinc-200"
+        title={t("dataMerge.closePreview")}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { Film } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/lib/i18n";
+import { FRAME_RATES, MAX_RESOLUTION } from "../../constants";
+import { useEditorContext } from "../../contexts/editor-context";
+import { getPresetDimensions } from "../../hooks/use-aspect-ratio";
+import { formatFrameRate } from "../../utils/frame-rate";
+
+const MIN_RESOLUTION = 16;
+
+interface ProjectSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Reads a typed size, or null when it is outside what can be rendered.
+ * Sizes are rounded to even numbers, which H.264 needs.
+ */
+const parseSize = (value: string): number | null => {
+  const size = Math.round(Number(value) / 2) * 2;
+  return Number.isFinite(size) && size >= MIN_RESOLUTION && size <= MAX_RESOLUTION
+    ? size
+    : null;
+};
+
+/**
+ * ProjectSettingsDialog Component
+ *
+ * Frame rate and resolution of the project. Changing the frame rate re-times
+ * every item so it stays at the same time; the resolution is either the
+ * preset of the aspect ratio or a width and height typed by hand.
+ */
+export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({
+  open,
+  onOpenChange,
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-[425px]">
+      {/* Mounted on every open, so the form starts from the current settings */}
+      <ProjectSettingsForm onClose={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
+
+const ProjectSettingsForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const { fps, aspectRatio, customDimensions, updateProjectSettings } =
+    useEditorContext();
+  const preset = getPresetDimensions(aspectRatio);
+  const initial = customDimensions ?? preset;
+
+  const [frameRate, setFrameRate] = useState(fps);
+  const [isCustom, setIsCustom] = useState(customDimensions !== null);
+  const [width, setWidth] = useState(String(initial.width));
+  const [height, setHeight] = useState(String(initial.height));
+
+  const parsedWidth = parseSize(width);
+  const parsedHeight = parseSize(height);
+  const isValid = !isCustom || (parsedWidth !== null && parsedHeight !== null);
+
+  const handleUsePreset = () => {
+    setIsCustom(false);
+    setWidth(String(preset.width));
+    setHeight(String(preset.height));
+  };
+
+  const handleApply = () => {
+    if (!isValid) return;
+    updateProjectSettings({
+      fps: frameRate,
+      resolution:
+        isCustom && parsedWidth !== null && parsedHeight !== null
+          ? { width: parsedWidth, height: parsedHeight }
+          : null,
+    });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Film className="w-5 h-5" />
+          {t("projectSettings.title")}
+        </DialogTitle>
+        <DialogDescription>{t("projectSettings.description")}</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div className="grid gap-2">
+          <Label className="text-xs">{t("projectSettings.frameRate")}</Label>
+          <Select
+            value={String(frameRate)}
+            onValueChange={(value) => setFrameRate(Number(value))}
+          >
+            <SelectTrigger className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FRAME_RATES.map((rate) => (
+                <SelectItem key={rate} value={String(rate)} className="text-xs">
+                  {t("projectSettings.fps", { fps: formatFrameRate(rate) })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {frameRate !== fps && (
+            <span className="text-[11px] text-muted-foreground">
+              {t("projectSettings.retimeHint")}
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">{t("projectSettings.resolution")}</Label>
+            {isCustom && (
+              <button
+                type="button"
+                onClick={handleUsePreset}
+                className="text-[11px] text-primarioLogo hover:underline"
+              >
+                {t("projectSettings.usePreset", { ratio: aspectRatio })}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={MIN_RESOLUTION}
+              max={MAX_RESOLUTION}
+              step={2}
+              value={width}
+              onChange={(e) => {
+                setWidth(e.target.value);
+                setIsCustom(true);
+              }}
+              aria-label={t("projectSettings.width")}
+              className="text-xs"
+            />
+            <span className="text-xs text-muted-foreground">×</span>
+            <Input
+              type="number"
+              min={MIN_RESOLUTION}
+              max={MAX_RESOLUTION}
+              step={2}
+              value={height}
+              onChange={(e) => {
+                setHeight(e.target.value);
+                setIsCustom(true);
+              }}
+              aria-label={t("projectSettings.height")}
+              className="text-xs"
+            />
+          </div>
+          <span
+            className={`text-[11px] ${
+              isValid ? "text-muted-foreground" : "text-red-500"
+            }`}
+          >
+            {isValid
+              ? isCustom
+                ? t("projectSettings.customHint")
+                : t("projectSettings.presetHint", { ratio: aspectRatio })
+              : t("projectSettings.invalidSize", {
+                  min: MIN_RESOLUTION,
+                  max: MAX_RESOLUTION,
+                })}
+          </span>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          {t("common.cancel")}
+        </Button>
+        <Button type="button" onClick={handleApply} disabled={!isValid}>
+          {t("projectSettings.apply")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
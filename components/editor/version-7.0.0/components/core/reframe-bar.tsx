@@ -0,0 +1,73 @@
+import React from "react";
+import { Check, Crop, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { ReframeMediaFit } from "../../utils/reframe";
+
+const MEDIA_FITS: ReframeMediaFit[] = ["cover", "contain"];
+
+/**
+ * Floating bar shown over the canvas while an aspect ratio change is
+ * previewed. Picks how full-frame media is fitted, then applies the ratio
+ * with the new layout, applies it keeping the old positions, or cancels.
+ */
+export const ReframeBar: React.FC = () => {
+  const { t } = useTranslation();
+  const { reframePreview, setReframeOptions, acceptReframe, cancelReframe } =
+    useEditorContext();
+
+  if (!reframePreview) return null;
+  const { aspectRatio, options } = reframePreview;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-gray-200 dark:border-gray-700 bg-white/95 dark:bg-darkBox px-2 py-1 shadow-lg backdrop-blur-sm">
+      <span className="flex items-center gap-1.5 px-1 text-xs text-gray-600 dark:text-zinc-400">
+        <Crop className="h-3.5 w-3.5" />
+        {t("reframe.title", { ratio: aspectRatio })}
+      </span>
+      <div className="h-4 w-px bg-gray-200 dark:bg-gray-700" />
+      <div className="flex items-center gap-0.5">
+        {MEDIA_FITS.map((fit) => (
+          <button
+            key={fit}
+            onClick={() => setReframeOptions({ mediaFit: fit })}
+            className={`text-xs px-2 py-1 rounded-md transition-colors ${
+              options.mediaFit === fit
+                ? "bg-primarioLogo text-white"
+                : "text-gray-600 dark:text-zinc-400 hover:bg-gray-100/80 dark:hover:bg-gray-800/80"
+            }`}
+          >
+            {t(`reframe.fit.${fit}`)}
+          </button>
+        ))}
+      </div>
+      <div className="h-4 w-px bg-gray-200 dark:bg-gray-700" />
+      <Button
+        onClick={() => acceptReframe(true)}
+        size="sm"
+        variant="ghost"
+        className="h-7 px-2 text-xs text-gray-700 dark:text-zinc-200"
+      >
+        {t("reframe.keepLayout")}
+      </Button>
+      <Button
+        onClick={cancelReframe}
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7 text-gray-700 dark:text-zinc-200"
+        title={t("common.cancel")}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        onClick={() => acceptReframe()}
+        size="sm"
+        className="h-7 px-2 text-xs bg-primarioLogo hover:bg-primarioLogo/90 text-white"
+      >
+        <Check className="h-3.5 w-3.5 mr-1" />
+        {t("reframe.apply")}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from "react";
+import { CloudOff } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { probeMediaDuration } from "../../utils/media-duration";
+import { getMediaName, getMissingMedia } from "../../utils/media-relink";
+import { MediaChoice } from "../../utils/media-replace";
+import { MediaSourcePicker } from "./media-source-picker";
+
+/**
+ * RelinkMediaDialog Component
+ *
+ * Picks a replacement for a media file that went missing: one of the user's
+ * uploads, a video from their Reelmotion projects, or a new upload. Every
+ * overlay using the missing file is relinked at once and keeps its timing
+ * and styles.
+ */
+export const RelinkMediaDialog: React.FC = () => {
+  const { t } = useTranslation();
+  const { overlays, offlineSources, relinkSource, setRelinkSource, relinkMedia, fps } =
+    useEditorContext();
+  const [isRelinking, setIsRelinking] = useState(false);
+
+  const missing = useMemo(
+    () =>
+      getMissingMedia(overlays, offlineSources).find(
+        (media) => media.src === relinkSource
+      ) ?? null,
+    [overlays, offlineSources, relinkSource]
+  );
+
+  const handlePick = async (media: MediaChoice) => {
+    if (!missing) return;
+    setIsRelinking(true);
+    try {
+      // Videos and sounds carry the length of their file, so trims stay valid
+      const duration =
+        media.type === "image"
+          ? undefined
+          : media.durationInSeconds ?? (await probeMediaDuration(media.src, media.type));
+      relinkMedia(missing.src, {
+        src: media.src,
+        mediaDurationInFrames: duration ? Math.round(duration * fps) : undefined,
+      });
+      toast({
+        title: t("relink.done", { count: missing.count }),
+      });
+    } finally {
+      setIsRelinking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!missing}
+      onOpenChange={(open) => !open && setRelinkSource(null)}
+    >
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudOff className="h-4 w-4 text-red-500" />
+            {t("relink.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {missing &&
+              t("relink.description", {
+                name: getMediaName(missing.src),
+                count: missing.count,
+              })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {missing && (
+          <MediaSourcePicker
+            type={missing.type}
+            onPick={handlePick}
+            disabled={isRelinking}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from "react";
+import { Replace } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { getLinkedMediaType } from "../../utils/media-relink";
+import { MediaChoice } from "../../utils/media-replace";
+import { MediaSourcePicker } from "./media-source-picker";
+
+/**
+ * ReplaceMediaDialog Component
+ *
+ * Swaps the file of a video, image or sound overlay for another of the same
+ * kind. The overlay keeps its place, crop, filters, animation and speed; its
+ * length follows the new file unless the current one is kept, in which case
+ * only its start in the new file moves.
+ */
+export const ReplaceMediaDialog: React.FC = () => {
+  const { t } = useTranslation();
+  const { overlays, replaceTargetId, setReplaceTargetId, replaceMedia } =
+    useEditorContext();
+  const [keepDuration, setKeepDuration] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  const target = overlays.find((overlay) => overlay.id === replaceTargetId);
+  const mediaType = target ? getLinkedMediaType(target) : null;
+
+  const handlePick = async (media: MediaChoice) => {
+    if (!target) return;
+    setIsReplacing(true);
+    try {
+      await replaceMedia(target.id, media, keepDuration);
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={!!mediaType}
+      onOpenChange={(open) => !open && setReplaceTargetId(null)}
+    >
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Replace className="h-4 w-4" />
+            {t("replaceMedia.title")}
+          </DialogTitle>
+          <DialogDescription>{t("replaceMedia.description")}</DialogDescription>
+        </DialogHeader>
+
+        {mediaType && (
+          <>
+            {mediaType !== "image" && (
+              <label className="flex items-center gap-2 text-xs text-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-primarioLogo"
+                  checked={keepDuration}
+                  onChange={(e) => setKeepDuration(e.target.checked)}
+                />
+                {t("replaceMedia.keepDurationOption")}
+              </label>
+            )}
+            <MediaSourcePicker
+              type={mediaType}
+              onPick={handlePick}
+              disabled={isReplacing}
+            />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,116 @@
+import React from "react";
+import { Layers, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { AspectRatio } from "../../types";
+
+const VARIANT_RATIOS: AspectRatio[] = ["16:9", "9:16", "1:1", "4:5", "4:3", "2:1", "3:4"];
+
+/**
+ * VariantSwitcher Component
+ *
+ * Tabs for the aspect-ratio variants of the project, shown in the editor
+ * header. Opening a variant lays the canvas out for its ratio; timing edits
+ * made in any variant apply to all of them.
+ */
+export const VariantSwitcher: React.FC = () => {
+  const { t } = useTranslation();
+  const { variants, aspectRatio, addVariant, removeVariant, switchVariant } =
+    useEditorContext();
+
+  // The open variant always shows the current ratio of the canvas
+  const items = variants
+    ? variants.variants.map((variant) => ({
+        id: variant.id,
+        aspectRatio: variant.id === variants.activeId ? aspectRatio : variant.aspectRatio,
+        isActive: variant.id === variants.activeId,
+      }))
+    : [];
+  const available = VARIANT_RATIOS.filter(
+    (ratio) => ratio !== aspectRatio && !items.some((item) => item.aspectRatio === ratio)
+  );
+
+  const addMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {variants ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={available.length === 0}
+            title={t("variants.add")}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-7 text-xs">
+            <Layers className="h-3.5 w-3.5 mr-1.5" />
+            {t("variants.title")}
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-[220px]">
+        <DropdownMenuLabel className="text-xs">{t("variants.add")}</DropdownMenuLabel>
+        {!variants && (
+          <p className="px-2 pb-1.5 text-[11px] text-muted-foreground">
+            {t("variants.description")}
+          </p>
+        )}
+        <DropdownMenuSeparator />
+        {available.map((ratio) => (
+          <DropdownMenuItem
+            key={ratio}
+            onClick={() => addVariant(ratio)}
+            className="cursor-pointer text-xs"
+          >
+            {t("variants.addRatio", { ratio })}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  if (!variants) {
+    return <div className="hidden md:flex items-center">{addMenu}</div>;
+  }
+
+  return (
+    <div className="hidden md:flex items-center gap-0.5 rounded-md border border-gray-200 dark:border-gray-700 p-0.5">
+      {items.map((item) => (
+        <div key={item.id} className="group relative">
+          <button
+            onClick={() => switchVariant(item.id)}
+            className={`text-xs px-2.5 py-1 rounded transition-colors ${
+              item.isActive
+                ? "bg-primarioLogo text-white"
+                : "text-gray-600 dark:text-zinc-400 hover:bg-gray-100/80 dark:hover:bg-gray-800/80"
+            }`}
+            title={item.isActive ? undefined : t("variants.open", { ratio: item.aspectRatio })}
+          >
+            {item.aspectRatio}
+          </button>
+          {!item.isActive && (
+            <button
+              onClick={() => removeVariant(item.id)}
+              className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-3.5 w-3.5 items-center justify-center rounded-full bg-gray-700 text-white"
+              title={t("variants.remove", { ratio: item.aspectRatio })}
+            >
+              <X className="h-2.5 w-2.5" />
+            </button>
+          )}
+        </div>
+      ))}
+      {addMenu}
+    </div>
+  );
+};
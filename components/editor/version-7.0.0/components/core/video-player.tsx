@@ -2,10 +2,13 @@ import React, { useEffect, useMemo, useRef, useState, useCallback } from "react"
 import { Player, PlayerRef } from "@remotion/player";
 import { Main } from "../../remotion/main";
 import { useEditorContext } from "../../contexts/editor-context";
-import { FPS } from "../../constants";
 import { toast } from "@/hooks/use-toast";
 import { HexColorPicker } from "react-colorful";
 import { Popover, PopoverContent, PopoverTrigger, PopoverAnchor } from "@/components/ui/popover";
+import { SelectionToolbar } from "../selection/selection-toolbar";
+import { getPlayableOverlays } from "../../utils/timeline-tracks";
+import { ReframeBar } from "./reframe-bar";
+import { MergePreviewBar } from "./merge-preview-bar";
 
 /**
  * Props for the VideoPlayer component
@@ -51,6 +54,9 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
     setSelectedOverlayId,
     changeOverlay,
     selectedOverlayId,
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
     aspectRatio,
     playerDimensions,
     updatePlayerDimensions,
@@ -60,8 +66,26 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
     isPlaying,
     backgroundColor,
     setBackgroundColor,
+    tracks,
+    fps,
+    reframePreview,
+    mergePreview,
+    offlineSources,
+    replaceMedia,
   } = useEditorContext();
 
+  // While a new aspect ratio is previewed the player shows the reframed
+  // layout; while a dataset row is previewed, the project filled from it
+  const shownOverlays = reframePreview?.overlays ?? mergePreview?.overlays ?? overlays;
+  const isPreviewing = !!reframePreview || !!mergePreview;
+
+  // Hidden and silenced tracks are left out exactly as in the render
+  const playableOverlays = useMemo(
+    () => getPlayableOverlays(shownOverlays, tracks),
+    [shownOverlays, tracks]
+  );
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+
   // Color picker popover state for double-click
   const [colorPickerOpen, setColorPickerOpen] = useState(false);
   const [colorPickerPos, setColorPickerPos] = useState({ x: 0, y: 0 });
@@ -131,6 +155,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
 
       const { width, height } = videoContainer.getBoundingClientRect();
       updatePlayerDimensions(width, height);
+      setContainerSize({ width, height });
     };
 
     handleDimensionUpdate(); // Initial update
@@ -142,7 +167,17 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
   }, [aspectRatio, updatePlayerDimensions]);
 
   const { width: compositionWidth, height: compositionHeight } =
-    getAspectRatioDimensions();
+    reframePreview?.dimensions ?? getAspectRatioDimensions();
+
+  // The player box fits the container at the previewed ratio, like
+  // updatePlayerDimensions does for the current one
+  const playerBox = useMemo(() => {
+    if (!reframePreview || containerSize.height === 0) return playerDimensions;
+    const ratio = compositionWidth / compositionHeight;
+    return containerSize.width / containerSize.height > ratio
+      ? { width: containerSize.height * ratio, height: containerSize.height }
+      : { width: containerSize.width, height: containerSize.width / ratio };
+  }, [reframePreview, containerSize, playerDimensions, compositionWidth, compositionHeight]);
 
   // Player composition length should match the actual content end so playback
   // stops where the last overlay ends. The wider `durationInFrames` (1-min
@@ -155,21 +190,26 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
   // Constants for player configuration
   const PLAYER_CONFIG = {
     durationInFrames: playerDurationInFrames,
-    fps: FPS,
+    fps,
   };
 
   // Memoize inputProps to prevent unnecessary re-renders
   const inputProps = useMemo(() => ({
-    overlays,
+    overlays: playableOverlays,
     setSelectedOverlayId,
     changeOverlay,
     selectedOverlayId,
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
     durationInFrames,
-    fps: FPS,
+    fps,
     width: compositionWidth,
     height: compositionHeight,
     backgroundColor,
-  }), [overlays, setSelectedOverlayId, changeOverlay, selectedOverlayId, durationInFrames, compositionWidth, compositionHeight, backgroundColor]);
+    offlineSources,
+    replaceMedia,
+  }), [playableOverlays, setSelectedOverlayId, changeOverlay, selectedOverlayId, selectedOverlayIds, selectOverlays, toggleOverlaySelection, durationInFrames, fps, compositionWidth, compositionHeight, backgroundColor, offlineSources, replaceMedia]);
 
   return (
     <div className="w-full h-full overflow-hidden">
@@ -221,13 +261,40 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
             </div>
           </PopoverContent>
         </Popover>
+        {/* Accept or cancel a previewed aspect ratio change */}
+        {reframePreview && (
+          <div
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-20"
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <ReframeBar />
+          </div>
+        )}
+        {/* Step through the rows of a dataset */}
+        {!reframePreview && mergePreview && (
+          <div
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-20"
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <MergePreviewBar />
+          </div>
+        )}
+        {/* Actions for multi-selections */}
+        {!isPreviewing && selectedOverlayIds.length > 1 && (
+          <div
+            className="absolute top-2 left-1/2 -translate-x-1/2 z-20"
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <SelectionToolbar />
+          </div>
+        )}
         {/* Player wrapper with centering */}
         <div className="z-10 absolute inset-2 sm:inset-4 flex items-center justify-center">
           <div
             className="relative mx-2 sm:mx-0"
             style={{
-              width: Math.min(playerDimensions.width, compositionWidth),
-              height: Math.min(playerDimensions.height, compositionHeight),
+              width: Math.min(playerBox.width, compositionWidth),
+              height: Math.min(playerBox.height, compositionHeight),
               maxWidth: "100%",
               maxHeight: "100%",
             }}
@@ -249,6 +316,13 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef }) => {
               overflowVisible
               numberOfSharedAudioTags={20}
             />
+            {/* Previews can't be edited; edits land once a reframe is accepted */}
+            {isPreviewing && (
+              <div
+                className="absolute inset-0 z-10"
+                onDoubleClick={(e) => e.stopPropagation()}
+              />
+            )}
           </div>
         </div>
       </div>
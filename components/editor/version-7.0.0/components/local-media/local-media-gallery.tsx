@@ -416,6 +416,20 @@ export function LocalMediaGallery({
     }
   };
 
+  // Dragging an upload onto an overlay of the same kind replaces its media
+  const handleMediaDragStart = (e: React.DragEvent, file: any) => {
+    e.dataTransfer.effectAllowed = "copy";
+    e.dataTransfer.setData(
+      `application/reelmotion-local-${file.type}`,
+      JSON.stringify({
+        type: file.type,
+        path: file.path,
+        duration: file.duration,
+        name: file.name,
+      })
+    );
+  };
+
   // Render media item
   const renderMediaItem = (file: any) => {
     const isDeleting = deletingId === file.id;
@@ -425,6 +439,8 @@ export function LocalMediaGallery({
         key={file.id}
         className="relative group/item rounded-sm overflow-hidden cursor-pointer"
         onClick={() => !isDeleting && handleMediaSelect(file)}
+        draggable={!isDeleting}
+        onDragStart={(e) => handleMediaDragStart(e, file)}
       >
         <div className="relative aspect-video bg-gray-200 dark:bg-darkBoxSub">
           {/* Deleting Overlay */}
@@ -13,6 +13,8 @@ import {
   X,
   Library,
   ChevronLeft,
+  Blend,
+  Shapes,
 } from "lucide-react";
 import { useSidebar } from "../../contexts/sidebar-context";
 import { useEditorContext } from "../../contexts/editor-context";
@@ -38,6 +40,8 @@ const StickersPanel = React.lazy(() => import("../overlays/stickers/stickers-pan
 const LocalMediaPanel = React.lazy(() => import("../overlays/local-media/local-media-panel").then(m => ({ default: m.LocalMediaPanel })));
 const TemplateOverlayPanel = React.lazy(() => import("../overlays/templates/template-overlay-panel").then(m => ({ default: m.TemplateOverlayPanel })));
 const LibraryPanel = React.lazy(() => import("../overlays/library/library-panel").then(m => ({ default: m.LibraryPanel })));
+const ShapesPanel = React.lazy(() => import("../overlays/shapes/shapes-panel").then(m => ({ default: m.ShapesPanel })));
+const TransitionsPanel = React.lazy(() => import("../overlays/transitions/transitions-panel").then(m => ({ default: m.TransitionsPanel })));
 
 // Panel title mapping — translation keys, resolved at render time.
 const PANEL_TITLE_KEYS: Record<string, string> = {
@@ -48,6 +52,8 @@ const PANEL_TITLE_KEYS: Record<string, string> = {
   [OverlayType.IMAGE]: "sidebar.image",
   [OverlayType.LIBRARY]: "sidebar.library",
   [OverlayType.LOCAL_DIR]: "sidebar.uploads",
+  [OverlayType.TRANSITION]: "sidebar.transitions",
+  [OverlayType.SHAPE]: "sidebar.shapes",
   [OverlayType.STICKER]: "sidebar.stickers",
   [OverlayType.TEMPLATE]: "sidebar.template",
 };
@@ -58,6 +64,8 @@ const NAVIGATION_ITEMS = [
   { tKey: "sidebar.audio", icon: Music, panel: OverlayType.SOUND },
   { tKey: "sidebar.caption", icon: Subtitles, panel: OverlayType.CAPTION },
   { tKey: "sidebar.library", icon: Library, panel: OverlayType.LIBRARY },
+  { tKey: "sidebar.transitions", icon: Blend, panel: OverlayType.TRANSITION },
+  { tKey: "sidebar.shapes", icon: Shapes, panel: OverlayType.SHAPE },
   { tKey: "sidebar.stickers", icon: Sticker, panel: OverlayType.STICKER },
   { tKey: "sidebar.uploads", icon: FolderOpen, panel: OverlayType.LOCAL_DIR },
   // { tKey: "sidebar.template", icon: Layout, panel: OverlayType.TEMPLATE },
@@ -141,6 +149,10 @@ export function MobileNavBar() {
         return <ImageOverlayPanel />;
       case OverlayType.LIBRARY:
         return <LibraryPanel />;
+      case OverlayType.TRANSITION:
+        return <TransitionsPanel />;
+      case OverlayType.SHAPE:
+        return <ShapesPanel />;
       case OverlayType.STICKER:
         return <StickersPanel />;
       case OverlayType.LOCAL_DIR:
@@ -1,6 +1,7 @@
 import React, { useMemo } from "react";
-import { useCurrentFrame, interpolate, Easing } from "remotion";
-import { Caption, CaptionOverlay, CaptionWord } from "../../../types";
+import { useCurrentFrame, useVideoConfig, interpolate, Easing } from "remotion";
+import { CaptionOverlay, CaptionWord } from "../../../types";
+import { buildStretchedCaptions } from "../../../utils/caption-export";
 import { defaultCaptionStyles } from "./caption-settings";
 
 /**
@@ -12,13 +13,13 @@ interface CaptionLayerContentProps {
   overlay: CaptionOverlay;
 }
 
-const FPS = 30;
-// Frame-based fade durations so animations are deterministic in Remotion's
-// frame-by-frame renderer (CSS transitions don't animate through seeks).
-const CAPTION_FADE_FRAMES = 6; // ~200ms at 30fps
-const WORD_HIGHLIGHT_FRAMES = 6; // ~200ms ramp on word activation
+// Fades are converted to frames of the project so animations are
+// deterministic in Remotion's frame-by-frame renderer (CSS transitions don't
+// animate through seeks).
+const CAPTION_FADE_MS = 200;
+const WORD_HIGHLIGHT_MS = 200; // Ramp on word activation
 
-const msToFrames = (ms: number) => (ms / 1000) * FPS;
+const msToFrames = (ms: number, fps: number) => (ms / 1000) * fps;
 
 /**
  * Build a fade-in/out opacity ramp for a window [start, end] using `fadeFrames`
@@ -55,54 +56,6 @@ const fadeOpacity = (
   return interpolate(frame, [start, mid, end], [0, 1, 0], opts);
 };
 
-/**
- * Stretch caption + word timings so they span the entire overlay duration with
- * no gaps. Preserves relative pacing where possible, but guarantees that some
- * caption (and word) is always on-screen as long as the overlay is visible.
- */
-const buildStretchedCaptions = (
-  captions: Caption[],
-  overlayDurationMs: number
-): Caption[] => {
-  if (captions.length === 0 || overlayDurationMs <= 0) return [];
-
-  const naturalStart = captions[0].startMs;
-  const naturalEnd = captions[captions.length - 1].endMs;
-  const naturalDuration = Math.max(naturalEnd - naturalStart, 1);
-  const stretch = overlayDurationMs / naturalDuration;
-  const remap = (ms: number) => (ms - naturalStart) * stretch;
-
-  const remapped: Caption[] = captions.map((c) => ({
-    ...c,
-    startMs: remap(c.startMs),
-    endMs: remap(c.endMs),
-    words:
-      c.words?.map((w) => ({
-        ...w,
-        startMs: remap(w.startMs),
-        endMs: remap(w.endMs),
-      })) ?? [],
-  }));
-
-  // Close gaps so a caption (and a word inside it) is always visible.
-  for (let i = 0; i < remapped.length; i++) {
-    const c = remapped[i];
-    const next = remapped[i + 1];
-    if (i === 0) c.startMs = 0;
-    c.endMs = next ? next.startMs : overlayDurationMs;
-
-    if (c.words.length > 0) {
-      c.words[0].startMs = c.startMs;
-      c.words[c.words.length - 1].endMs = c.endMs;
-      for (let j = 0; j < c.words.length - 1; j++) {
-        c.words[j].endMs = c.words[j + 1].startMs;
-      }
-    }
-  }
-
-  return remapped;
-};
-
 /**
  * CaptionLayerContent Component
  *
@@ -114,11 +67,12 @@ export const CaptionLayerContent: React.FC<CaptionLayerContentProps> = ({
   overlay,
 }) => {
   const frame = useCurrentFrame();
-  const frameMs = (frame / FPS) * 1000;
+  const { fps } = useVideoConfig();
+  const frameMs = (frame / fps) * 1000;
   const styles = overlay.styles || defaultCaptionStyles;
   const displayMode = overlay.displayMode ?? "all";
 
-  const overlayDurationMs = (overlay.durationInFrames / FPS) * 1000;
+  const overlayDurationMs = (overlay.durationInFrames / fps) * 1000;
 
   const stretchedCaptions = useMemo(
     () => buildStretchedCaptions(overlay.captions, overlayDurationMs),
@@ -134,8 +88,8 @@ export const CaptionLayerContent: React.FC<CaptionLayerContentProps> = ({
       (caption) => frameMs >= caption.startMs && frameMs < caption.endMs
     ) ?? stretchedCaptions[stretchedCaptions.length - 1];
 
-  const captionStartFrame = msToFrames(currentCaption.startMs);
-  const captionEndFrame = msToFrames(currentCaption.endMs);
+  const captionStartFrame = msToFrames(currentCaption.startMs, fps);
+  const captionEndFrame = msToFrames(currentCaption.endMs, fps);
 
   // Fade the caption container in at the start and out at the end of its
   // window so it doesn't pop in/out abruptly.
@@ -143,7 +97,7 @@ export const CaptionLayerContent: React.FC<CaptionLayerContentProps> = ({
     frame,
     captionStartFrame,
     captionEndFrame,
-    CAPTION_FADE_FRAMES
+    msToFrames(CAPTION_FADE_MS, fps)
   );
 
   const highlightStyle =
@@ -154,15 +108,15 @@ export const CaptionLayerContent: React.FC<CaptionLayerContentProps> = ({
     index: number,
     options: { highlightedOnly?: boolean } = {}
   ) => {
-    const wordStartFrame = msToFrames(word.startMs);
-    const wordEndFrame = msToFrames(word.endMs);
+    const wordStartFrame = msToFrames(word.startMs, fps);
+    const wordEndFrame = msToFrames(word.endMs, fps);
     const isActive = frame >= wordStartFrame && frame < wordEndFrame;
 
     const highlightProgress = fadeOpacity(
       frame,
       wordStartFrame,
       wordEndFrame,
-      WORD_HIGHLIGHT_FRAMES
+      msToFrames(WORD_HIGHLIGHT_MS, fps)
     );
 
     const targetScale = highlightStyle?.scale ?? 1.08;
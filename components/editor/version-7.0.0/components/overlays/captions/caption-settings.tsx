@@ -6,7 +6,7 @@ import {
   CaptionDisplayMode,
 } from "../../../types";
 
-import { AlignLeft, PaintBucket } from "lucide-react";
+import { AlignLeft, Download, PaintBucket } from "lucide-react";
 
 import { CaptionStylePanel } from "./caption-style-panel";
 import { CaptionTimeline } from "./caption-timeline";
@@ -17,6 +17,13 @@ import {
   TabsTrigger,
 } from "../../../../../ui/tabs";
 import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../../contexts/editor-context";
+import {
+  CAPTION_EXPORT_FORMATS,
+  CaptionExportFormat,
+  downloadCaptions,
+  getTimelineCaptions,
+} from "../../../utils/caption-export";
 
 /**
  * Props for the CaptionSettings component
@@ -63,6 +70,7 @@ export const defaultCaptionStyles: CaptionStyles = {
  * Provides a tabbed interface for managing caption settings including:
  * - Caption text and timing management
  * - Visual style customization
+ * - Export as SRT, WebVTT or word-level JSON sidecar files
  * - Voice settings (planned feature)
  *
  * The component uses a tab-based layout to organize different aspects of caption
@@ -85,7 +93,8 @@ export const CaptionSettings: React.FC<CaptionSettingsProps> = ({
   currentFrame,
 }) => {
   const { t } = useTranslation();
-  const currentMs = (currentFrame / 30) * 1000;
+  const { fps } = useEditorContext();
+  const currentMs = (currentFrame / fps) * 1000;
   const displayMode: CaptionDisplayMode = localOverlay.displayMode ?? "all";
 
   const displayModeOptions: {
@@ -101,6 +110,11 @@ export const CaptionSettings: React.FC<CaptionSettingsProps> = ({
     setLocalOverlay({ ...localOverlay, displayMode: mode });
   };
 
+  // Exported timings match playback: stretched over the overlay and offset by its start
+  const handleExport = (format: CaptionExportFormat) => {
+    downloadCaptions(getTimelineCaptions(localOverlay, fps), format);
+  };
+
   return (
     <Tabs defaultValue="captions" className="w-full">
       {/* Display mode selector */}
@@ -129,6 +143,28 @@ export const CaptionSettings: React.FC<CaptionSettingsProps> = ({
         </div>
       </div>
 
+      {/* Sidecar export */}
+      <div className="mb-3">
+        <p className="text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-1.5">
+          {t("captionSettings.export")}
+        </p>
+        <div className="grid grid-cols-3 gap-1">
+          {CAPTION_EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              disabled={localOverlay.captions.length === 0}
+              title={t(`captionSettings.export.${format}`)}
+              className="flex items-center justify-center gap-1.5 text-[11px] py-1.5 rounded-sm border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-zinc-400 hover:bg-gray-200/50 dark:hover:bg-gray-700/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3 h-3" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Tab Navigation */}
       <TabsList className="w-full grid grid-cols-2 bg-gray-100/50 dark:bg-darkBoxSub /50 backdrop-blur-sm rounded-sm border border-gray-200 dark:border-gray-700 gap-1">
         {/* Captions Tab */}
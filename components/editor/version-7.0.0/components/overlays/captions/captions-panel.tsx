@@ -8,6 +8,8 @@ import { CaptionOverlay, OverlayType, Caption } from "../../../types";
 import { CaptionSettings } from "./caption-settings";
 import { Upload, X } from "lucide-react";
 import { useTranslation } from "@/lib/i18n";
+import { toast } from "@/hooks/use-toast";
+import { parseSubtitles } from "../../../utils/subtitle-parser";
 
 /**
  * Interface for word timing data from uploaded files
@@ -35,7 +37,7 @@ interface WordsFileData {
  * @description
  * Main interface for managing captions in the video editor.
  * Provides functionality for:
- * - Uploading caption files (.json)
+ * - Uploading caption files (.srt, .vtt, .json)
  * - Manual script entry
  * - Caption generation from text
  * - Caption editing and styling
@@ -45,7 +47,7 @@ interface WordsFileData {
  * and interfaces.
  *
  * Features:
- * - File upload support
+ * - File upload support, including SRT/WebVTT subtitles from transcription vendors
  * - Text-to-caption conversion
  * - Automatic timing calculation
  * - Position management in the timeline
@@ -67,6 +69,8 @@ export const CaptionsPanel: React.FC = () => {
     durationInFrames,
     changeOverlay,
     currentFrame,
+    fps,
+    tracks,
   } = useEditorContext();
 
   const { findNextAvailablePosition } = useTimelinePositioning();
@@ -126,13 +130,14 @@ export const CaptionsPanel: React.FC = () => {
 
     // Calculate total duration in frames
     const totalDurationMs = currentStartTime;
-    const calculatedDurationInFrames = Math.ceil((totalDurationMs / 1000) * 30);
+    const calculatedDurationInFrames = Math.ceil((totalDurationMs / 1000) * fps);
 
     const position = findNextAvailablePosition(
       overlays,
       visibleRows,
       durationInFrames,
-      currentFrame
+      currentFrame,
+      tracks
     );
 
     const newCaptionOverlay: CaptionOverlay = {
@@ -160,12 +165,84 @@ export const CaptionsPanel: React.FC = () => {
     changeOverlay(updatedOverlay.id, updatedOverlay);
   };
 
+  /**
+   * Imports SRT/WebVTT subtitles as a caption overlay at the playhead.
+   * Cue times are kept relative to the overlay start, so a subtitle file
+   * made for a clip lines up when the playhead is at the start of that clip.
+   */
+  const importSubtitles = (content: string, fileName: string) => {
+    const { captions, issues } = parseSubtitles(content, fileName);
+
+    if (issues.length > 0) {
+      const details = issues
+        .slice(0, 3)
+        .map((issue) =>
+          t("captionPanel.subtitleIssueLine", {
+            line: issue.line,
+            reason: t(`captionPanel.subtitleIssue.${issue.code}`),
+          })
+        )
+        .join("\n");
+      const more =
+        issues.length > 3
+          ? `\n${t("captionPanel.subtitleIssueMore", { count: issues.length - 3 })}`
+          : "";
+
+      toast({
+        title: t("captionPanel.subtitleImportFailed", { file: fileName }),
+        description: (
+          <span className="whitespace-pre-line">{details + more}</span>
+        ),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const totalDurationMs = captions[captions.length - 1].endMs;
+    const position = findNextAvailablePosition(
+      overlays,
+      visibleRows,
+      durationInFrames,
+      currentFrame,
+      tracks
+    );
+
+    const newCaptionOverlay: CaptionOverlay = {
+      id: Date.now(),
+      type: OverlayType.CAPTION,
+      from: position.from,
+      durationInFrames: Math.ceil((totalDurationMs / 1000) * fps),
+      captions,
+      left: 230,
+      top: 414,
+      width: 833,
+      height: 269,
+      rotation: 0,
+      isDragging: false,
+      row: position.row,
+      displayMode: "all",
+    };
+
+    addOverlay(newCaptionOverlay);
+    toast({
+      title: t("captionPanel.subtitleImported", { count: captions.length }),
+    });
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Allow picking the same file again after fixing it
+    event.target.value = "";
 
     const reader = new FileReader();
     reader.onload = (e) => {
+      const extension = file.name.split(".").pop()?.toLowerCase();
+      if (extension === "srt" || extension === "vtt") {
+        importSubtitles(e.target?.result as string, file.name);
+        return;
+      }
+
       try {
         const jsonData = JSON.parse(
           e.target?.result as string
@@ -201,13 +278,15 @@ export const CaptionsPanel: React.FC = () => {
         const totalDurationMs =
           processedCaptions[processedCaptions.length - 1].endMs;
         const calculatedDurationInFrames = Math.ceil(
-          (totalDurationMs / 1000) * 30
+          (totalDurationMs / 1000) * fps
         );
 
         const position = findNextAvailablePosition(
           overlays,
           visibleRows,
-          durationInFrames
+          durationInFrames,
+          0,
+          tracks
         );
 
         const newCaptionOverlay: CaptionOverlay = {
@@ -1,15 +1,19 @@
 import { Audio } from "remotion";
-import { SoundOverlay } from "../../../types";
+import { SoundOverlay, VolumePoint } from "../../../types";
 import { toAbsoluteUrl } from "../../../utils/url-helper";
+import { getVolumeProp } from "../../../utils/volume-envelope";
 
 interface SoundLayerContentProps {
   overlay: SoundOverlay;
   baseUrl?: string;
+  /** Lowers the sound under speech, resolved from its ducking settings */
+  duckingEnvelope?: VolumePoint[];
 }
 
 export const SoundLayerContent: React.FC<SoundLayerContentProps> = ({
   overlay,
   baseUrl,
+  duckingEnvelope,
 }) => {
   // Validate that src exists
   if (!overlay.src) {
@@ -33,7 +37,7 @@ export const SoundLayerContent: React.FC<SoundLayerContentProps> = ({
     <Audio
       src={audioSrc}
       startFrom={overlay.startFromSound || 0}
-      volume={overlay.styles?.volume ?? 1}
+      volume={getVolumeProp(overlay, duckingEnvelope)}
       pauseWhenBuffering
     />
   );
@@ -0,0 +1,110 @@
+import React, { useRef } from "react";
+import Image from "next/image";
+import { Crosshair } from "lucide-react";
+import { FocalPoint } from "../../../types";
+import { useTranslation } from "@/lib/i18n";
+
+/**
+ * Props for the MediaFocalPoint component
+ * @interface MediaFocalPointProps
+ * @property {string} src - URL of the photo or video shown to pick from
+ * @property {boolean} isVideo - Whether `src` is a video
+ * @property {FocalPoint} focalPoint - Current focal point, if one was picked
+ * @property {Function} onChange - Called with the picked point, or undefined to clear it
+ */
+interface MediaFocalPointProps {
+  src: string;
+  isVideo?: boolean;
+  focalPoint?: FocalPoint;
+  onChange: (focalPoint: FocalPoint | undefined) => void;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * MediaFocalPoint Component
+ *
+ * Shows the whole photo or video and lets the user click the part that must
+ * stay in view when it is cropped, by the "cover" fit or by reframing for
+ * another aspect ratio.
+ *
+ * @component
+ * @param {MediaFocalPointProps} props - Component props
+ * @returns {JSX.Element} The media with a draggable focal point marker
+ */
+export const MediaFocalPoint: React.FC<MediaFocalPointProps> = ({
+  src,
+  isVideo = false,
+  focalPoint,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const point = focalPoint ?? { x: 0.5, y: 0.5 };
+
+  const pick = (e: React.PointerEvent) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+    onChange({
+      x: Math.round(clamp((e.clientX - rect.left) / rect.width) * 100) / 100,
+      y: Math.round(clamp((e.clientY - rect.top) / rect.height) * 100) / 100,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-xs text-muted-foreground">
+          {t("mediaStyle.focalPoint")}
+        </label>
+        {focalPoint && (
+          <button
+            onClick={() => onChange(undefined)}
+            className="text-[11px] text-primarioLogo hover:underline"
+          >
+            {t("mediaStyle.focalPointReset")}
+          </button>
+        )}
+      </div>
+      <div
+        ref={frameRef}
+        className="relative w-full overflow-hidden rounded-sm border border-border cursor-crosshair select-none touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          pick(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) pick(e);
+        }}
+      >
+        {isVideo ? (
+          <video src={src} muted playsInline className="block w-full h-auto" />
+        ) : (
+          <Image
+            src={src}
+            alt=""
+            width={0}
+            height={0}
+            sizes="100vw"
+            unoptimized
+            draggable={false}
+            className="block w-full h-auto"
+          />
+        )}
+        <div
+          className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+        >
+          <Crosshair
+            className={`w-6 h-6 drop-shadow ${
+              focalPoint ? "text-primarioLogo" : "text-white/70"
+            }`}
+          />
+        </div>
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        {t("mediaStyle.focalPointHint")}
+      </p>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import {
 } from "../../../../../ui/tabs";
 import { ImageStylePanel } from "./image-style-panel";
 import { ImageSettingsPanel } from "./image-settings-panel";
+import { MediaFocalPoint } from "../common/media-focal-point";
 
 /**
  * Props for the ImageDetails component
@@ -99,6 +100,11 @@ export const ImageDetails: React.FC<ImageDetailsProps> = ({
             localOverlay={localOverlay}
             handleStyleChange={handleStyleChange}
           />
+          <MediaFocalPoint
+            src={localOverlay.src}
+            focalPoint={localOverlay.focalPoint}
+            onChange={(focalPoint) => setLocalOverlay({ ...localOverlay, focalPoint })}
+          />
         </TabsContent>
 
         <TabsContent value="settings" className="space-y-4 mt-4">
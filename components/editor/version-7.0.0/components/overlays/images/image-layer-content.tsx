@@ -4,6 +4,7 @@ import { ImageOverlay } from "../../../types";
 import { animationTemplates } from "../../../templates/animation-templates";
 import { Img } from "remotion";
 import { toAbsoluteUrl } from "../../../utils/url-helper";
+import { getFocalObjectPosition } from "../../../utils/reframe";
 
 /**
  * Props for the ImageLayerContent component
@@ -87,7 +88,8 @@ export const ImageLayerContent: React.FC<ImageLayerContentProps> = ({
     width: "100%",
     height: "100%",
     objectFit: overlay.styles.objectFit || "cover",
-    objectPosition: overlay.styles.objectPosition,
+    objectPosition:
+      getFocalObjectPosition(overlay.focalPoint) ?? overlay.styles.objectPosition,
     opacity: overlay.styles.opacity,
     transform: overlay.styles.transform || "none",
     filter: overlay.styles.filter || "none",
@@ -46,6 +46,7 @@ export const ImageOverlayPanel: React.FC = () => {
     selectedOverlayId,
     changeOverlay,
     currentFrame,
+    tracks,
   } = useEditorContext();
   const { findNextAvailablePosition } = useTimelinePositioning();
   const { getAspectRatioDimensions } = useAspectRatio();
@@ -89,7 +90,8 @@ export const ImageOverlayPanel: React.FC = () => {
       overlays,
       visibleRows,
       durationInFrames,
-      currentFrame
+      currentFrame,
+      tracks
     );
 
     const newOverlay: Overlay = {
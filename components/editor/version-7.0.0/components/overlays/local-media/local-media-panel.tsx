@@ -5,7 +5,7 @@ import { useTimelinePositioning } from "../../../hooks/use-timeline-positioning"
 import { useAspectRatio } from "../../../hooks/use-aspect-ratio";
 import { useTimeline } from "../../../contexts/timeline-context";
 import { Overlay, OverlayType } from "../../../types";
-import { FPS } from "../../../constants";
+import { probeMediaDuration } from "../../../utils/media-duration";
 import { LocalMediaGallery } from "../../local-media/local-media-gallery";
 
 /**
@@ -17,37 +17,11 @@ import { LocalMediaGallery } from "../../local-media/local-media-gallery";
  * 3. Add uploaded media to the timeline
  */
 export const LocalMediaPanel: React.FC = () => {
-  const { addOverlay, overlays, durationInFrames, currentFrame } = useEditorContext();
+  const { addOverlay, overlays, durationInFrames, currentFrame, fps, tracks } = useEditorContext();
   const { findNextAvailablePosition } = useTimelinePositioning();
   const { getAspectRatioDimensions } = useAspectRatio();
   const { visibleRows } = useTimeline();
 
-  /**
-   * Probe media duration from a URL when it's not available in file metadata.
-   */
-  const probeDurationFromUrl = (url: string, mediaType: "video" | "audio"): Promise<number | undefined> => {
-    return new Promise((resolve) => {
-      const el = document.createElement(mediaType === "video" ? "video" : "audio");
-      el.preload = "metadata";
-
-      const timeout = setTimeout(() => {
-        resolve(undefined);
-      }, 5000);
-
-      el.onloadedmetadata = () => {
-        clearTimeout(timeout);
-        const dur = isFinite(el.duration) ? el.duration : undefined;
-        resolve(dur);
-      };
-      el.onerror = () => {
-        clearTimeout(timeout);
-        resolve(undefined);
-      };
-
-      el.src = url;
-    });
-  };
-
   /**
    * Add a media file to the timeline
    */
@@ -57,13 +31,14 @@ export const LocalMediaPanel: React.FC = () => {
       overlays,
       visibleRows,
       durationInFrames,
-      currentFrame
+      currentFrame,
+      tracks
     );
 
     // Resolve duration: use stored value, or probe from URL as fallback
     let fileDuration: number | undefined = file.duration;
     if (!fileDuration && (file.type === "video" || file.type === "audio")) {
-      fileDuration = await probeDurationFromUrl(file.path, file.type);
+      fileDuration = await probeMediaDuration(file.path, file.type);
     }
 
     let newOverlay: Overlay;
@@ -74,7 +49,7 @@ export const LocalMediaPanel: React.FC = () => {
         top: 0,
         width,
         height,
-        durationInFrames: fileDuration ? Math.round(fileDuration * FPS) : 200,
+        durationInFrames: fileDuration ? Math.round(fileDuration * fps) : 200,
         from,
         id: Date.now(),
         rotation: 0,
@@ -84,6 +59,7 @@ export const LocalMediaPanel: React.FC = () => {
         content: file.path,
         src: file.path,
         videoStartTime: 0,
+        mediaDurationInFrames: fileDuration ? Math.round(fileDuration * fps) : undefined,
         styles: {
           opacity: 1,
           zIndex: 100,
@@ -120,7 +96,7 @@ export const LocalMediaPanel: React.FC = () => {
         top: 0,
         width: 0,
         height: 0,
-        durationInFrames: fileDuration ? Math.round(fileDuration * FPS) : 200,
+        durationInFrames: fileDuration ? Math.round(fileDuration * fps) : 200,
         from,
         id: Date.now(),
         rotation: 0,
@@ -129,6 +105,7 @@ export const LocalMediaPanel: React.FC = () => {
         type: OverlayType.SOUND,
         content: file.name,
         src: file.path,
+        mediaDurationInFrames: fileDuration ? Math.round(fileDuration * fps) : undefined,
         styles: {
           volume: 1,
         },
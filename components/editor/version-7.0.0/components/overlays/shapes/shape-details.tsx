@@ -0,0 +1,105 @@
+import React from "react";
+import { ShapeKind, ShapeOverlay } from "../../../types";
+import { PaintBucket, Settings } from "lucide-react";
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "../../../../../ui/tabs";
+import { ShapeStylePanel } from "./shape-style-panel";
+import { ShapeSettingsPanel } from "./shape-settings-panel";
+import { useTranslation } from "@/lib/i18n";
+
+/**
+ * Props for the ShapeDetails component
+ * @interface ShapeDetailsProps
+ * @property {ShapeOverlay} localOverlay - Current shape overlay being edited
+ * @property {Function} setLocalOverlay - Function to update the shape overlay
+ */
+interface ShapeDetailsProps {
+  localOverlay: ShapeOverlay;
+  setLocalOverlay: (overlay: ShapeOverlay) => void;
+}
+
+/**
+ * ShapeDetails Component
+ *
+ * @component
+ * @description
+ * Provides a tabbed interface for managing shape styles and animations.
+ * It mirrors the image and video details panels: a style tab for fill,
+ * stroke and geometry, and a settings tab for enter/exit animations.
+ *
+ * @example
+ * ```tsx
+ * <ShapeDetails
+ *   localOverlay={shapeOverlay}
+ *   setLocalOverlay={handleOverlayUpdate}
+ * />
+ * ```
+ */
+export const ShapeDetails: React.FC<ShapeDetailsProps> = ({
+  localOverlay,
+  setLocalOverlay,
+}) => {
+  const { t } = useTranslation();
+
+  const handleStyleChange = (updates: Partial<ShapeOverlay["styles"]>) => {
+    setLocalOverlay({
+      ...localOverlay,
+      styles: {
+        ...localOverlay.styles,
+        ...updates,
+      },
+    });
+  };
+
+  const handleShapeChange = (kind: ShapeKind) => {
+    setLocalOverlay({ ...localOverlay, content: kind });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="style" className="w-full">
+        <TabsList className="w-full grid grid-cols-2 bg-gray-100/50 dark:bg-darkBoxSub /50 backdrop-blur-sm rounded-sm border border-gray-200 dark:border-gray-700 gap-1">
+          <TabsTrigger
+            value="settings"
+            className="data-[state=active]:bg-primarioLogo data-[state=active]:text-gray-900 dark:data-[state=active]:text-white
+            rounded-sm transition-all duration-200 text-gray-600 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50"
+          >
+            <span className="flex items-center gap-2 text-xs">
+              <Settings className="w-3 h-3" />
+              {t("shapes.settings")}
+            </span>
+          </TabsTrigger>
+          <TabsTrigger
+            value="style"
+            className="data-[state=active]:bg-primarioLogo data-[state=active]:text-gray-900 dark:data-[state=active]:text-white
+            rounded-sm transition-all duration-200 text-gray-600 dark:text-zinc-400 hover:text-gray-900 dark:hover:text-zinc-200 hover:bg-gray-200/50 dark:hover:bg-gray-700/50"
+          >
+            <span className="flex items-center gap-2 text-xs">
+              <PaintBucket className="w-3 h-3" />
+              {t("shapes.style")}
+            </span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="style" className="space-y-4 mt-4">
+          <ShapeStylePanel
+            localOverlay={localOverlay}
+            handleStyleChange={handleStyleChange}
+            handleShapeChange={handleShapeChange}
+          />
+        </TabsContent>
+
+        <TabsContent value="settings" className="space-y-4 mt-4">
+          <ShapeSettingsPanel
+            localOverlay={localOverlay}
+            handleStyleChange={handleStyleChange}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
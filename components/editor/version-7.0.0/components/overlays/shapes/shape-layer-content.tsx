@@ -0,0 +1,254 @@
+import React from "react";
+import { useCurrentFrame } from "remotion";
+import { ShapeOverlay } from "../../../types";
+import { animationTemplates } from "../../../templates/animation-templates";
+import {
+  boxShadowToDropShadow,
+  DEFAULT_SHAPE_SIDES,
+  getArrowPoints,
+  getPolygonPoints,
+  getShapeKind,
+  getStarPoints,
+  parseGradient,
+} from "../../../utils/shape-geometry";
+
+/**
+ * Props for the ShapeSvg component
+ * @interface ShapeSvgProps
+ * @property {ShapeOverlay["content"]} content - Shape kind to draw
+ * @property {ShapeOverlay["styles"]} styles - Fill, stroke and gradient settings
+ * @property {number} width - Width of the drawing area in pixels
+ * @property {number} height - Height of the drawing area in pixels
+ * @property {string} gradientId - Unique id for the SVG gradient definition
+ */
+interface ShapeSvgProps {
+  content: ShapeOverlay["content"];
+  styles: ShapeOverlay["styles"];
+  width: number;
+  height: number;
+  gradientId: string;
+}
+
+/**
+ * ShapeSvg Component
+ *
+ * Draws a shape as SVG in the given box. It doesn't depend on the Remotion
+ * timeline, so the shapes panel can reuse it for its previews.
+ */
+export const ShapeSvg: React.FC<ShapeSvgProps> = ({
+  content,
+  styles,
+  width,
+  height,
+  gradientId,
+}) => {
+  const kind = getShapeKind(content);
+  const gradient = parseGradient(styles.gradient);
+  const strokeWidth = Math.max(0, styles.strokeWidth ?? 0);
+  const paint = gradient ? `url(#${gradientId})` : styles.fill || "#DC569D";
+
+  // Keep the stroke inside the overlay box
+  const inset = strokeWidth / 2;
+  const stroke = strokeWidth > 0 ? styles.stroke || "#000000" : "none";
+  const shapeProps = {
+    fill: paint,
+    stroke,
+    strokeWidth,
+    strokeLinejoin: "round" as const,
+  };
+
+  const renderShape = () => {
+    switch (kind) {
+      case "ellipse":
+        return (
+          <ellipse
+            cx={width / 2}
+            cy={height / 2}
+            rx={Math.max(0, width / 2 - inset)}
+            ry={Math.max(0, height / 2 - inset)}
+            {...shapeProps}
+          />
+        );
+      case "line": {
+        // A line has no fill; it's drawn with the fill paint at the stroke width
+        const thickness = Math.max(1, strokeWidth || height / 8);
+        return (
+          <line
+            x1={thickness / 2}
+            y1={height / 2}
+            x2={Math.max(thickness / 2, width - thickness / 2)}
+            y2={height / 2}
+            stroke={paint}
+            strokeWidth={thickness}
+            strokeLinecap="round"
+          />
+        );
+      }
+      case "arrow":
+        return (
+          <polygon points={getArrowPoints(width, height, inset)} {...shapeProps} />
+        );
+      case "polygon":
+        return (
+          <polygon
+            points={getPolygonPoints(
+              width,
+              height,
+              styles.sides ?? DEFAULT_SHAPE_SIDES.polygon,
+              inset
+            )}
+            {...shapeProps}
+          />
+        );
+      case "star":
+        return (
+          <polygon
+            points={getStarPoints(
+              width,
+              height,
+              styles.sides ?? DEFAULT_SHAPE_SIDES.star,
+              styles.innerRadius,
+              inset
+            )}
+            {...shapeProps}
+          />
+        );
+      case "rectangle":
+      default: {
+        const radius = parseFloat(styles.borderRadius ?? "0") || 0;
+        return (
+          <rect
+            x={inset}
+            y={inset}
+            width={Math.max(0, width - strokeWidth)}
+            height={Math.max(0, height - strokeWidth)}
+            rx={radius}
+            ry={radius}
+            {...shapeProps}
+          />
+        );
+      }
+    }
+  };
+
+  return (
+    <svg
+      width="100%"
+      height="100%"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      style={{ display: "block", overflow: "visible" }}
+    >
+      {/* Gradients use canvas units so they also paint lines, whose bounding box has no height */}
+      {gradient && (
+        <defs>
+          {gradient.kind === "linear" ? (
+            <linearGradient
+              id={gradientId}
+              gradientUnits="userSpaceOnUse"
+              x1={gradient.x1 * width}
+              y1={gradient.y1 * height}
+              x2={gradient.x2 * width}
+              y2={gradient.y2 * height}
+            >
+              {gradient.stops.map((stop, index) => (
+                <stop key={index} offset={stop.offset} stopColor={stop.color} />
+              ))}
+            </linearGradient>
+          ) : (
+            <radialGradient
+              id={gradientId}
+              gradientUnits="userSpaceOnUse"
+              cx={width / 2}
+              cy={height / 2}
+              r={Math.max(width, height) / 2}
+            >
+              {gradient.stops.map((stop, index) => (
+                <stop key={index} offset={stop.offset} stopColor={stop.color} />
+              ))}
+            </radialGradient>
+          )}
+        </defs>
+      )}
+      {renderShape()}
+    </svg>
+  );
+};
+
+/**
+ * Props for the ShapeLayerContent component
+ * @interface ShapeLayerContentProps
+ * @property {ShapeOverlay} overlay - The shape overlay to render
+ */
+interface ShapeLayerContentProps {
+  overlay: ShapeOverlay;
+}
+
+/**
+ * ShapeLayerContent Component
+ *
+ * @component
+ * @description
+ * Renders a shape overlay (rectangle, ellipse, line, arrow, polygon or star)
+ * as SVG with enter/exit animation support. Features include:
+ * - Solid fill or CSS linear/radial gradient fill
+ * - Stroke color and width
+ * - Rounded corners for rectangles
+ * - Box shadows drawn along the shape outline
+ *
+ * @example
+ * ```tsx
+ * <ShapeLayerContent
+ *   overlay={{
+ *     content: "star",
+ *     styles: {
+ *       gradient: "linear-gradient(90deg, #DC569D, #6366F1)",
+ *       sides: 5,
+ *     }
+ *   }}
+ * />
+ * ```
+ */
+export const ShapeLayerContent: React.FC<ShapeLayerContentProps> = ({
+  overlay,
+}) => {
+  const frame = useCurrentFrame();
+  const isExitPhase = frame >= overlay.durationInFrames - 30;
+
+  const enterAnimation =
+    !isExitPhase && overlay.styles.animation?.enter
+      ? animationTemplates[overlay.styles.animation.enter]?.enter(
+          frame,
+          overlay.durationInFrames
+        )
+      : {};
+
+  const exitAnimation =
+    isExitPhase && overlay.styles.animation?.exit
+      ? animationTemplates[overlay.styles.animation.exit]?.exit(
+          frame,
+          overlay.durationInFrames
+        )
+      : {};
+
+  const containerStyle: React.CSSProperties = {
+    width: "100%",
+    height: "100%",
+    opacity: overlay.styles.opacity,
+    transform: overlay.styles.transform || "none",
+    filter: boxShadowToDropShadow(overlay.styles.boxShadow),
+    ...(isExitPhase ? exitAnimation : enterAnimation),
+  };
+
+  return (
+    <div style={containerStyle}>
+      <ShapeSvg
+        content={overlay.content}
+        styles={overlay.styles}
+        width={overlay.width}
+        height={overlay.height}
+        gradientId={`shape-gradient-${overlay.id}`}
+      />
+    </div>
+  );
+};
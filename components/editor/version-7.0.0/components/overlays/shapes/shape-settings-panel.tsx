@@ -0,0 +1,55 @@
+import React from "react";
+import { ShapeOverlay } from "../../../types";
+import { AnimationSettings } from "../../shared/animation-preview";
+import { animationTemplates } from "../../../templates/animation-templates";
+
+/**
+ * Props for the ShapeSettingsPanel component
+ */
+interface ShapeSettingsPanelProps {
+  /** The current state of the shape overlay being edited */
+  localOverlay: ShapeOverlay;
+  /** Callback to update the overlay's style properties */
+  handleStyleChange: (updates: Partial<ShapeOverlay["styles"]>) => void;
+}
+
+/**
+ * ShapeSettingsPanel Component
+ *
+ * A panel that allows users to configure enter and exit animations for a
+ * shape overlay, with "None" removing the animation.
+ */
+export const ShapeSettingsPanel: React.FC<ShapeSettingsPanelProps> = ({
+  localOverlay,
+  handleStyleChange,
+}) => {
+  const handleEnterAnimationSelect = (animationKey: string) => {
+    handleStyleChange({
+      animation: {
+        ...localOverlay.styles.animation,
+        enter: animationKey === "none" ? undefined : animationKey,
+      },
+    });
+  };
+
+  const handleExitAnimationSelect = (animationKey: string) => {
+    handleStyleChange({
+      animation: {
+        ...localOverlay.styles.animation,
+        exit: animationKey === "none" ? undefined : animationKey,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <AnimationSettings
+        animations={animationTemplates}
+        selectedEnterAnimation={localOverlay.styles.animation?.enter}
+        selectedExitAnimation={localOverlay.styles.animation?.exit}
+        onEnterAnimationSelect={handleEnterAnimationSelect}
+        onExitAnimationSelect={handleExitAnimationSelect}
+      />
+    </div>
+  );
+};
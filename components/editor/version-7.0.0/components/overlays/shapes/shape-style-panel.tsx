@@ -0,0 +1,338 @@
+import React from "react";
+import { ShapeKind, ShapeOverlay } from "../../../types";
+import {
+  buildLinearGradient,
+  DEFAULT_SHAPE_SIDES,
+  DEFAULT_STAR_INNER_RADIUS,
+  getGradientAngle,
+  getShapeKind,
+  parseGradient,
+  SHAPE_KINDS,
+} from "../../../utils/shape-geometry";
+import { useTranslation } from "@/lib/i18n";
+
+/**
+ * Props for the ShapeStylePanel component
+ */
+interface ShapeStylePanelProps {
+  /** The current state of the shape overlay being edited */
+  localOverlay: ShapeOverlay;
+  /** Callback to update the overlay's style properties */
+  handleStyleChange: (updates: Partial<ShapeOverlay["styles"]>) => void;
+  /** Callback to change the drawn shape */
+  handleShapeChange: (kind: ShapeKind) => void;
+}
+
+const inputClassName =
+  "w-full dark:bg-darkBox border border-input rounded-md text-xs p-2 hover:border-accent-foreground transition-colors";
+const rangeClassName = "flex-1 accent-primarioLogo h-1.5 rounded-full bg-muted";
+
+/**
+ * A color swatch with a text field for typing any CSS color
+ */
+const ColorField: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <input
+      type="color"
+      value={/^#[0-9a-f]{6}$/i.test(value) ? value : "#ffffff"}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-8 h-8 border border-gray-200 dark:border-gray-700 rounded-md p-0.5 cursor-pointer"
+    />
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`flex-1 ${inputClassName}`}
+    />
+  </div>
+);
+
+/**
+ * ShapeStylePanel Component
+ *
+ * A panel that allows users to adjust the appearance of a shape overlay.
+ *
+ * Features:
+ * - Shape selection (rectangle, ellipse, line, arrow, polygon, star)
+ * - Solid or two-color linear gradient fill
+ * - Stroke color and width
+ * - Corner radius for rectangles, sides for polygons, points and inner radius for stars
+ * - Opacity
+ *
+ * Gradients are stored as CSS linear-gradient() strings, so gradients set
+ * by templates keep working and can be edited here as well.
+ */
+export const ShapeStylePanel: React.FC<ShapeStylePanelProps> = ({
+  localOverlay,
+  handleStyleChange,
+  handleShapeChange,
+}) => {
+  const { t } = useTranslation();
+  const { styles } = localOverlay;
+  const kind = getShapeKind(localOverlay.content);
+  const gradient = parseGradient(styles.gradient);
+  const fill = styles.fill || "#DC569D";
+  const gradientFrom = gradient?.stops[0].color ?? fill;
+  const gradientTo = gradient?.stops[gradient.stops.length - 1].color ?? "#6366F1";
+  const gradientAngle = gradient ? getGradientAngle(gradient) : 90;
+
+  const setGradient = (changes: {
+    angle?: number;
+    from?: string;
+    to?: string;
+  }) =>
+    handleStyleChange({
+      gradient: buildLinearGradient(
+        changes.angle ?? gradientAngle,
+        changes.from ?? gradientFrom,
+        changes.to ?? gradientTo
+      ),
+    });
+
+  const sides =
+    styles.sides ?? (kind === "star" ? DEFAULT_SHAPE_SIDES.star : DEFAULT_SHAPE_SIDES.polygon);
+  const innerRadius = styles.innerRadius ?? DEFAULT_STAR_INNER_RADIUS;
+  const strokeWidth = styles.strokeWidth ?? 0;
+  // Lines without a stroke width are drawn an eighth of their height thick
+  const lineThickness =
+    strokeWidth || Math.max(1, Math.round(localOverlay.height / 8));
+  const opacity = styles.opacity ?? 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-md bg-darkBoxSub p-4 border border-border">
+        <h3 className="text-sm font-medium text-foreground">
+          {t("mediaStyle.appearance")}
+        </h3>
+
+        {/* Shape */}
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">
+            {t("shapes.shape")}
+          </label>
+          <select
+            value={kind}
+            onChange={(e) => handleShapeChange(e.target.value as ShapeKind)}
+            className={inputClassName}
+          >
+            {SHAPE_KINDS.map((shapeKind) => (
+              <option key={shapeKind} value={shapeKind}>
+                {t(`shapes.${shapeKind}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Fill */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-muted-foreground">
+              {t("shapes.fill")}
+            </label>
+            <select
+              value={gradient ? "gradient" : "solid"}
+              onChange={(e) =>
+                e.target.value === "gradient"
+                  ? setGradient({})
+                  : handleStyleChange({ gradient: undefined })
+              }
+              className="dark:bg-darkBox border border-input rounded-md text-xs px-2 py-1"
+            >
+              <option value="solid">{t("shapes.solid")}</option>
+              <option value="gradient">{t("shapes.gradient")}</option>
+            </select>
+          </div>
+          {gradient ? (
+            <div className="space-y-2">
+              <ColorField
+                value={gradientFrom}
+                onChange={(from) => setGradient({ from })}
+              />
+              <ColorField
+                value={gradientTo}
+                onChange={(to) => setGradient({ to })}
+              />
+              <div className="flex items-center justify-between">
+                <label className="text-xs text-muted-foreground">
+                  {t("shapes.gradientAngle")}
+                </label>
+                <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                  {gradientAngle}°
+                </span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="359"
+                step="1"
+                value={gradientAngle}
+                onChange={(e) => setGradient({ angle: Number(e.target.value) })}
+                className={`w-full ${rangeClassName}`}
+              />
+            </div>
+          ) : (
+            <ColorField
+              value={fill}
+              onChange={(value) => handleStyleChange({ fill: value })}
+            />
+          )}
+        </div>
+
+        {/* Stroke */}
+        {kind !== "line" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">
+                {t("shapes.stroke")}
+              </label>
+              <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                {strokeWidth}px
+              </span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="40"
+              step="1"
+              value={strokeWidth}
+              onChange={(e) =>
+                handleStyleChange({ strokeWidth: Number(e.target.value) })
+              }
+              className={`w-full ${rangeClassName}`}
+            />
+            {strokeWidth > 0 && (
+              <ColorField
+                value={styles.stroke || "#000000"}
+                onChange={(value) => handleStyleChange({ stroke: value })}
+              />
+            )}
+          </div>
+        )}
+
+        {/* Line thickness */}
+        {kind === "line" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">
+                {t("shapes.thickness")}
+              </label>
+              <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                {lineThickness}px
+              </span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="60"
+              step="1"
+              value={lineThickness}
+              onChange={(e) =>
+                handleStyleChange({ strokeWidth: Number(e.target.value) })
+              }
+              className={`w-full ${rangeClassName}`}
+            />
+          </div>
+        )}
+
+        {/* Border Radius */}
+        {kind === "rectangle" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">
+                {t("mediaStyle.borderRadius")}
+              </label>
+              <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                {styles.borderRadius ?? "0px"}
+              </span>
+            </div>
+            <input
+              type="number"
+              value={parseInt(styles.borderRadius ?? "0")}
+              onChange={(e) =>
+                handleStyleChange({ borderRadius: `${e.target.value}px` })
+              }
+              min="0"
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        {/* Sides / points */}
+        {(kind === "polygon" || kind === "star") && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">
+                {kind === "star" ? t("shapes.points") : t("shapes.sides")}
+              </label>
+              <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                {sides}
+              </span>
+            </div>
+            <input
+              type="range"
+              min="3"
+              max="12"
+              step="1"
+              value={sides}
+              onChange={(e) =>
+                handleStyleChange({ sides: Number(e.target.value) })
+              }
+              className={`w-full ${rangeClassName}`}
+            />
+          </div>
+        )}
+
+        {/* Star inner radius */}
+        {kind === "star" && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs text-muted-foreground">
+                {t("shapes.innerRadius")}
+              </label>
+              <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+                {Math.round(innerRadius * 100)}%
+              </span>
+            </div>
+            <input
+              type="range"
+              min="10"
+              max="90"
+              step="5"
+              value={Math.round(innerRadius * 100)}
+              onChange={(e) =>
+                handleStyleChange({ innerRadius: Number(e.target.value) / 100 })
+              }
+              className={`w-full ${rangeClassName}`}
+            />
+          </div>
+        )}
+
+        {/* Opacity */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-muted-foreground">
+              {t("shapes.opacity")}
+            </label>
+            <span className="text-xs text-muted-foreground min-w-[40px] text-right">
+              {Math.round(opacity * 100)}%
+            </span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={Math.round(opacity * 100)}
+            onChange={(e) =>
+              handleStyleChange({ opacity: Number(e.target.value) / 100 })
+            }
+            className={`w-full ${rangeClassName}`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { useEditorContext } from "../../../contexts/editor-context";
+import { useTimelinePositioning } from "../../../hooks/use-timeline-positioning";
+import { useAspectRatio } from "../../../hooks/use-aspect-ratio";
+import { useTimeline } from "../../../contexts/timeline-context";
+import { Overlay, OverlayType, ShapeKind, ShapeOverlay } from "../../../types";
+import { SHAPE_KINDS } from "../../../utils/shape-geometry";
+import { ShapeSvg } from "./shape-layer-content";
+import { ShapeDetails } from "./shape-details";
+import { useTranslation } from "@/lib/i18n";
+
+/**
+ * Default size of a new shape, in composition pixels
+ */
+const getDefaultShapeSize = (kind: ShapeKind) => {
+  switch (kind) {
+    case "line":
+      return { width: 400, height: 40 };
+    case "arrow":
+      return { width: 400, height: 160 };
+    default:
+      return { width: 300, height: 300 };
+  }
+};
+
+// Largest box a preview is fitted in, in pixels
+const PREVIEW_BOX = { width: 72, height: 48 };
+
+const DEFAULT_SHAPE_STYLES: ShapeOverlay["styles"] = {
+  opacity: 1,
+  zIndex: 1,
+  fill: "#DC569D",
+  stroke: "#FFFFFF",
+  strokeWidth: 0,
+  animation: {
+    enter: "fadeIn",
+    exit: "fadeOut",
+  },
+};
+
+/**
+ * ShapesPanel Component
+ *
+ * A panel that provides functionality to:
+ * 1. Add rectangles, ellipses, lines, arrows, polygons and stars to the editor
+ * 2. Drag shapes onto a timeline row
+ * 3. Modify existing shape overlay properties
+ *
+ * Like the image panel, it shows the shape details editor instead of the
+ * shape list while a shape overlay is selected.
+ */
+export const ShapesPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const {
+    addOverlay,
+    overlays,
+    durationInFrames,
+    selectedOverlayId,
+    changeOverlay,
+    currentFrame,
+    tracks,
+  } = useEditorContext();
+  const { findNextAvailablePosition } = useTimelinePositioning();
+  const { getAspectRatioDimensions } = useAspectRatio();
+  const { visibleRows } = useTimeline();
+  const [localOverlay, setLocalOverlay] = useState<ShapeOverlay | null>(null);
+
+  useEffect(() => {
+    if (selectedOverlayId === null) {
+      setLocalOverlay(null);
+      return;
+    }
+
+    const selectedOverlay = overlays.find(
+      (overlay) => overlay.id === selectedOverlayId
+    );
+
+    if (selectedOverlay?.type === OverlayType.SHAPE) {
+      setLocalOverlay(selectedOverlay);
+    } else {
+      setLocalOverlay(null);
+    }
+  }, [selectedOverlayId, overlays]);
+
+  /**
+   * Adds a new shape overlay centered on the canvas
+   * @param kind - The shape to draw
+   */
+  const handleAddShape = (kind: ShapeKind) => {
+    const canvas = getAspectRatioDimensions();
+    const { width, height } = getDefaultShapeSize(kind);
+    const { from, row } = findNextAvailablePosition(
+      overlays,
+      visibleRows,
+      durationInFrames,
+      currentFrame,
+      tracks
+    );
+
+    const newOverlay: Overlay = {
+      id: Date.now(),
+      type: OverlayType.SHAPE,
+      content: kind,
+      left: Math.round((canvas.width - width) / 2),
+      top: Math.round((canvas.height - height) / 2),
+      width,
+      height,
+      durationInFrames: 90,
+      from,
+      rotation: 0,
+      row,
+      isDragging: false,
+      styles: { ...DEFAULT_SHAPE_STYLES },
+    };
+
+    addOverlay(newOverlay);
+  };
+
+  const handleDragStart = (e: React.DragEvent, kind: ShapeKind) => {
+    e.dataTransfer.effectAllowed = "copy";
+    e.dataTransfer.setData(
+      "application/reelmotion-shape",
+      JSON.stringify({
+        type: "shape",
+        content: kind,
+        ...getDefaultShapeSize(kind),
+        styles: DEFAULT_SHAPE_STYLES,
+      })
+    );
+  };
+
+  /**
+   * Updates an existing shape overlay's properties
+   * @param updatedOverlay - The modified overlay object
+   */
+  const handleUpdateOverlay = (updatedOverlay: ShapeOverlay) => {
+    setLocalOverlay(updatedOverlay);
+    changeOverlay(updatedOverlay.id, updatedOverlay);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4 bg-white dark:bg-darkBox h-full">
+      {!localOverlay ? (
+        <div className="grid grid-cols-3 gap-3">
+          {SHAPE_KINDS.map((kind) => {
+            const { width, height } = getDefaultShapeSize(kind);
+            const previewScale = Math.min(
+              PREVIEW_BOX.width / width,
+              PREVIEW_BOX.height / height
+            );
+            return (
+              <button
+                key={kind}
+                draggable
+                onDragStart={(e) => handleDragStart(e, kind)}
+                onClick={() => handleAddShape(kind)}
+                className="group flex flex-col items-center gap-1.5 p-2 rounded-md border border-border bg-gray-100/40 dark:bg-darkBoxSub hover:border-primarioLogo/60 transition-colors duration-200"
+              >
+                <div className="flex h-12 w-full items-center justify-center">
+                  <div
+                    style={{
+                      width: width * previewScale,
+                      height: height * previewScale,
+                    }}
+                  >
+                    <ShapeSvg
+                      content={kind}
+                      styles={DEFAULT_SHAPE_STYLES}
+                      width={width}
+                      height={height}
+                      gradientId={`shape-preview-${kind}`}
+                    />
+                  </div>
+                </div>
+                <span className="text-[11px] font-medium text-black/95 dark:text-white/95">
+                  {t(`shapes.${kind}`)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <ShapeDetails
+          localOverlay={localOverlay}
+          setLocalOverlay={handleUpdateOverlay}
+        />
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { SoundOverlay } from "../../../types";
 import { Play, Pause } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useTranslation } from "@/lib/i18n";
+import { SoundDucking } from "./sound-ducking";
 
 /**
  * Interface for the props passed to the SoundDetails component
@@ -22,6 +23,7 @@ interface SoundDetailsProps {
  * Features include:
  * - Play/pause functionality
  * - Volume control with mute/unmute option
+ * - Ducking under voiceover and dialogue
  * - Visual feedback for playback state
  *
  * @component
@@ -147,6 +149,11 @@ export const SoundDetails: React.FC<SoundDetailsProps> = ({
               </span>
             </div>
           </div>
+
+          <SoundDucking
+            localOverlay={localOverlay}
+            setLocalOverlay={setLocalOverlay}
+          />
         </div>
       </div>
     </div>
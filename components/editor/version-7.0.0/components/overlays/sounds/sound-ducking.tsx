@@ -0,0 +1,267 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Loader2, Mic, Music } from "lucide-react";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../../contexts/editor-context";
+import { useEditorAuth } from "../../../hooks/use-editor-auth";
+import {
+  decodeAudio,
+  getAudioLevels,
+} from "../../../hooks/use-waveform-processor";
+import { DuckingSource, OverlayType, SoundOverlay } from "../../../types";
+import { DEFAULT_DUCKING, detectSpeechSpans } from "../../../utils/auto-ducking";
+import { getOptimizedMediaUrl } from "../../../utils/url-helper";
+
+interface SoundDuckingProps {
+  localOverlay: SoundOverlay;
+  setLocalOverlay: (overlay: SoundOverlay) => void;
+}
+
+/**
+ * Reads a whole voice track and finds where it has speech, in frames of the
+ * track
+ */
+const analyseSpeech = async (src: string, fps: number): Promise<DuckingSource> => {
+  const audioBuffer = await decodeAudio(src);
+  const frames = Math.round(audioBuffer.duration * fps);
+  const levels = getAudioLevels(audioBuffer, 0, frames, frames, fps);
+  return { src, speech: detectSpeechSpans(levels) };
+};
+
+/**
+ * SoundDucking Component
+ *
+ * "Duck under" settings for a sound: picks the voice tracks it should sit
+ * under and how far, and how quickly, it is lowered while they speak. Each
+ * voice is analysed once when it is picked; the ducking itself is worked out
+ * by the composition, so it follows the voices as they are edited.
+ */
+export const SoundDucking: React.FC<SoundDuckingProps> = ({
+  localOverlay,
+  setLocalOverlay,
+}) => {
+  const { t } = useTranslation();
+  const { overlays, fps } = useEditorContext();
+  const { editorData } = useEditorAuth();
+  const [analysing, setAnalysing] = useState<string[]>([]);
+  const [failed, setFailed] = useState<string[]>([]);
+
+  // Analysis is async; changes land on the overlay as it is by then
+  const latestOverlay = useRef(localOverlay);
+  latestOverlay.current = localOverlay;
+
+  const ducking = localOverlay.ducking;
+  const settings = { ...DEFAULT_DUCKING, ...ducking };
+  const selectedSources = useMemo(
+    () => new Set(ducking?.sources.map((source) => source.src)),
+    [ducking?.sources]
+  );
+
+  // Every other sound on the timeline, once per file, project voices first
+  const candidates = useMemo(() => {
+    const voiceUrls = new Set(
+      (editorData?.project_voices ?? []).map((voice) =>
+        getOptimizedMediaUrl(voice.audio_url)
+      )
+    );
+    const bySrc = new Map<string, { src: string; label: string; isVoice: boolean }>();
+    overlays.forEach((overlay) => {
+      if (overlay.type !== OverlayType.SOUND) return;
+      if (overlay.id === localOverlay.id || overlay.src === localOverlay.src) return;
+      if (bySrc.has(overlay.src)) return;
+      bySrc.set(overlay.src, {
+        src: overlay.src,
+        label: overlay.content,
+        isVoice: voiceUrls.has(overlay.src),
+      });
+    });
+    return Array.from(bySrc.values()).sort(
+      (a, b) => Number(b.isVoice) - Number(a.isVoice)
+    );
+  }, [overlays, localOverlay.id, localOverlay.src, editorData?.project_voices]);
+
+  const updateDucking = (
+    update: (current: NonNullable<SoundOverlay["ducking"]>) => SoundOverlay["ducking"]
+  ) => {
+    const current = latestOverlay.current;
+    const next = update({ ...DEFAULT_DUCKING, sources: [], ...current.ducking });
+    setLocalOverlay({
+      ...current,
+      ducking: next && next.sources.length > 0 ? next : undefined,
+    });
+  };
+
+  const addSources = async (srcs: string[]) => {
+    const pending = srcs.filter((src) => !selectedSources.has(src));
+    if (pending.length === 0) return;
+
+    setAnalysing((current) => [...current, ...pending]);
+    setFailed((current) => current.filter((src) => !pending.includes(src)));
+    const results = await Promise.all(
+      pending.map((src) =>
+        analyseSpeech(src, fps).catch((error) => {
+          console.error("Error analysing speech:", error);
+          setFailed((current) => [...current, src]);
+          return null;
+        })
+      )
+    );
+    setAnalysing((current) => current.filter((src) => !pending.includes(src)));
+
+    const analysed = results.filter(
+      (result): result is DuckingSource => result !== null
+    );
+    if (analysed.length === 0) return;
+    updateDucking((current) => ({
+      ...current,
+      sources: [
+        ...current.sources.filter(
+          (source) => !analysed.some((result) => result.src === source.src)
+        ),
+        ...analysed,
+      ],
+    }));
+  };
+
+  const removeSource = (src: string) =>
+    updateDucking((current) => ({
+      ...current,
+      sources: current.sources.filter((source) => source.src !== src),
+    }));
+
+  const voiceSrcs = candidates
+    .filter((candidate) => candidate.isVoice)
+    .map((candidate) => candidate.src);
+  const speechCount = (ducking?.sources ?? []).reduce(
+    (count, source) => count + source.speech.length,
+    0
+  );
+
+  const sliders: {
+    key: "depth" | "attackFrames" | "releaseFrames";
+    label: string;
+    max: number;
+    step: number;
+    display: string;
+  }[] = [
+    {
+      key: "depth",
+      label: t("soundPanel.ducking.depth"),
+      max: 1,
+      step: 0.05,
+      display: `${Math.round(settings.depth * 100)}%`,
+    },
+    {
+      key: "attackFrames",
+      label: t("soundPanel.ducking.attack"),
+      max: Math.round(fps * 2),
+      step: 1,
+      display: `${(settings.attackFrames / fps).toFixed(2)}s`,
+    },
+    {
+      key: "releaseFrames",
+      label: t("soundPanel.ducking.release"),
+      max: Math.round(fps * 2),
+      step: 1,
+      display: `${(settings.releaseFrames / fps).toFixed(2)}s`,
+    },
+  ];
+
+  return (
+    <div className="space-y-4 rounded-md dark:bg-darkBox/50 p-4 border">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-medium text-foreground">
+            {t("soundPanel.ducking.title")}
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            {t("soundPanel.ducking.description")}
+          </p>
+        </div>
+        {voiceSrcs.length > 0 && (
+          <button
+            onClick={() => addSources(voiceSrcs)}
+            className="text-xs px-2.5 py-1.5 rounded-md transition-colors bg-muted text-muted-foreground hover:bg-muted/70 whitespace-nowrap"
+          >
+            {t("soundPanel.ducking.allVoices")}
+          </button>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {t("soundPanel.ducking.noSources")}
+        </p>
+      ) : (
+        <div className="space-y-1.5">
+          {candidates.map((candidate) => {
+            const isAnalysing = analysing.includes(candidate.src);
+            const Icon = candidate.isVoice ? Mic : Music;
+            return (
+              <label
+                key={candidate.src}
+                className="flex items-center gap-2 text-xs text-foreground cursor-pointer min-w-0"
+              >
+                <input
+                  type="checkbox"
+                  className="accent-primarioLogo"
+                  checked={selectedSources.has(candidate.src)}
+                  disabled={isAnalysing}
+                  onChange={(e) =>
+                    e.target.checked
+                      ? addSources([candidate.src])
+                      : removeSource(candidate.src)
+                  }
+                />
+                <Icon className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate flex-1" title={candidate.label}>
+                  {candidate.label}
+                </span>
+                {isAnalysing && (
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {t("soundPanel.ducking.analysing")}
+                  </span>
+                )}
+                {failed.includes(candidate.src) && (
+                  <span className="text-red-500">{t("soundPanel.ducking.failed")}</span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {ducking && (
+        <p className="text-xs text-muted-foreground">
+          {speechCount > 0
+            ? t("soundPanel.ducking.speechFound", { count: speechCount })
+            : t("soundPanel.ducking.noSpeech")}
+        </p>
+      )}
+
+      {sliders.map((slider) => (
+        <div key={slider.key} className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">{slider.label}</span>
+            <span className="text-muted-foreground">{slider.display}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={slider.max}
+            step={slider.step}
+            disabled={!ducking}
+            value={settings[slider.key]}
+            onChange={(e) =>
+              updateDucking((current) => ({
+                ...current,
+                [slider.key]: parseFloat(e.target.value),
+              }))
+            }
+            className="w-full accent-primarioLogo h-1.5 rounded-full bg-muted disabled:opacity-50"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
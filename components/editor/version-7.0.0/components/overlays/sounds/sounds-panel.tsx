@@ -49,6 +49,8 @@ const SoundsPanel: React.FC = () => {
     selectedOverlayId,
     changeOverlay,
     currentFrame,
+    fps,
+    tracks,
   } = useEditorContext();
   const { findNextAvailablePosition } = useTimelinePositioning();
   const { visibleRows } = useTimeline();
@@ -276,7 +278,8 @@ const SoundsPanel: React.FC = () => {
         overlays,
         visibleRows,
         durationInFrames,
-        currentFrame
+        currentFrame,
+        tracks
       );
 
       // Create the sound overlay configuration with real duration
@@ -294,7 +297,8 @@ const SoundsPanel: React.FC = () => {
         height: 100,
         rotation: 0,
         isDragging: false,
-        durationInFrames: Math.ceil(audioDuration * 30), // 30fps with real duration
+        durationInFrames: Math.ceil(audioDuration * fps),
+        mediaDurationInFrames: Math.ceil(audioDuration * fps),
         styles: {
           opacity: 1,
         },
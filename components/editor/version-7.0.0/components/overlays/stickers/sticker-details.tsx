@@ -7,6 +7,7 @@
  * Features:
  * - Sticker preview display
  * - Animation settings (enter/exit animations)
+ * - Source, style and colors of the audio visualiser sticker
  *
  * @component
  */
@@ -17,6 +18,8 @@ import { Sparkles } from "lucide-react";
 import { AnimationSettings } from "../../shared/animation-preview";
 import { animationTemplates } from "../../../templates/animation-templates";
 import { useTranslation } from "@/lib/i18n";
+import { VisualiserSettings } from "./visualiser-settings";
+import { AUDIO_VISUALISER_ID } from "../../../utils/audio-visualiser";
 
 interface StickerDetailsProps {
   /** The current state of the sticker overlay */
@@ -73,6 +76,13 @@ export const StickerDetails: React.FC<StickerDetailsProps> = ({
 
   return (
     <div className="space-y-4 p-4">
+      {localOverlay.content === AUDIO_VISUALISER_ID && (
+        <VisualiserSettings
+          localOverlay={localOverlay}
+          setLocalOverlay={setLocalOverlay}
+        />
+      )}
+
       {/* Preview Section */}
       <div className="space-y-3">
         <div className="flex items-center gap-2">
@@ -1,21 +1,30 @@
-import React, { memo } from "react";
+import React, { memo, useMemo } from "react";
 import { useCurrentFrame } from "remotion";
 import { StickerOverlay } from "../../../types";
 import { templateMap } from "../../../templates/sticker-templates/sticker-helpers";
 import { animationTemplates } from "../../../templates/animation-templates";
+import { VisualiserSource } from "../../../utils/audio-visualiser";
 
 interface StickerLayerContentProps {
   overlay: StickerOverlay;
   isSelected: boolean;
   onUpdate?: (updates: Partial<StickerOverlay>) => void;
+  baseUrl?: string;
+  /** Audio followed by an audio visualiser sticker */
+  audioSources?: VisualiserSource[];
 }
 
 export const StickerLayerContent: React.FC<StickerLayerContentProps> = memo(
-  ({ overlay, isSelected, onUpdate }) => {
+  ({ overlay, isSelected, onUpdate, baseUrl, audioSources }) => {
     const frame = useCurrentFrame();
     const template = templateMap[overlay.content];
+    // Memoised once per template, so the template keeps its state between frames
+    const MemoizedComponent = useMemo(
+      () => (template ? memo(template.Component) : null),
+      [template]
+    );
 
-    if (!template) {
+    if (!template || !MemoizedComponent) {
       console.warn(`No sticker template found for id: ${overlay.content}`);
       return null;
     }
@@ -41,9 +50,6 @@ export const StickerLayerContent: React.FC<StickerLayerContentProps> = memo(
           )
         : {};
 
-    const { Component } = template;
-    const MemoizedComponent = memo(Component);
-    
     // Merge animation styles with overlay styles
     const animationStyle = isExitPhase ? exitAnimation : enterAnimation;
     
@@ -60,6 +66,8 @@ export const StickerLayerContent: React.FC<StickerLayerContentProps> = memo(
       },
       isSelected,
       onUpdate,
+      baseUrl,
+      audioSources,
       animationStyle, // Pass animation styles separately if needed
     };
 
@@ -79,7 +87,10 @@ export const StickerLayerContent: React.FC<StickerLayerContentProps> = memo(
       prevProps.overlay.styles?.animation?.exit === nextProps.overlay.styles?.animation?.exit &&
       prevProps.overlay.rotation === nextProps.overlay.rotation &&
       prevProps.overlay.width === nextProps.overlay.width &&
-      prevProps.overlay.height === nextProps.overlay.height
+      prevProps.overlay.height === nextProps.overlay.height &&
+      prevProps.overlay.visualiser === nextProps.overlay.visualiser &&
+      prevProps.audioSources === nextProps.audioSources &&
+      prevProps.baseUrl === nextProps.baseUrl
     );
   }
 );
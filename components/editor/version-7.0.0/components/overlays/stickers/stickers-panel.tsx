@@ -137,7 +137,7 @@ const StickerPreview = memo(
 StickerPreview.displayName = "StickerPreview";
 
 export function StickersPanel() {
-  const { addOverlay, overlays, durationInFrames, selectedOverlayId, changeOverlay, currentFrame } = useEditorContext();
+  const { addOverlay, overlays, durationInFrames, selectedOverlayId, changeOverlay, currentFrame, tracks } = useEditorContext();
   const { findNextAvailablePosition } = useTimelinePositioning();
   const { visibleRows } = useTimeline();
   const stickerCategories = getStickerCategories();
@@ -174,7 +174,8 @@ export function StickersPanel() {
         overlays,
         visibleRows,
         durationInFrames,
-        currentFrame
+        currentFrame,
+        tracks
       );
 
       const newOverlay: Overlay = {
@@ -206,6 +207,7 @@ export function StickersPanel() {
       visibleRows,
       durationInFrames,
       currentFrame,
+      tracks,
       findNextAvailablePosition,
     ]
   );
@@ -0,0 +1,147 @@
+import React from "react";
+import { AudioLines } from "lucide-react";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../../contexts/editor-context";
+import {
+  AudioVisualiserSettings,
+  OverlayType,
+  StickerOverlay,
+  VisualiserStyle,
+} from "../../../types";
+import { DEFAULT_VISUALISER } from "../../../utils/audio-visualiser";
+
+interface VisualiserSettingsProps {
+  localOverlay: StickerOverlay;
+  setLocalOverlay: (overlay: StickerOverlay) => void;
+}
+
+const VISUALISER_STYLES: VisualiserStyle[] = ["bars", "wave", "circular", "spectrum"];
+
+const inputClassName =
+  "w-full dark:bg-darkBox border border-input rounded-md text-xs p-2 hover:border-accent-foreground transition-colors";
+
+/**
+ * A color swatch with a text field for typing any CSS color
+ */
+const ColorField: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <input
+      type="color"
+      value={/^#[0-9a-f]{6}$/i.test(value) ? value : "#ffffff"}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-8 h-8 border border-gray-200 dark:border-gray-700 rounded-md p-0.5 cursor-pointer"
+    />
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`flex-1 ${inputClassName}`}
+    />
+  </div>
+);
+
+/**
+ * VisualiserSettings Component
+ *
+ * Settings of the audio visualiser sticker: the audio it follows (the whole
+ * mix or one sound), how it is drawn and its two gradient colors.
+ */
+export const VisualiserSettings: React.FC<VisualiserSettingsProps> = ({
+  localOverlay,
+  setLocalOverlay,
+}) => {
+  const { t } = useTranslation();
+  const { overlays } = useEditorContext();
+  const settings = { ...DEFAULT_VISUALISER, ...localOverlay.visualiser };
+
+  const sounds = overlays.filter((overlay) => overlay.type === OverlayType.SOUND);
+  // A sound that was deleted falls back to following the mix
+  const source =
+    settings.source !== "mix" && sounds.some((sound) => sound.id === settings.source)
+      ? String(settings.source)
+      : "mix";
+
+  const updateSettings = (updates: Partial<AudioVisualiserSettings>) =>
+    setLocalOverlay({
+      ...localOverlay,
+      visualiser: { ...settings, ...updates },
+    });
+
+  return (
+    <div className="space-y-4 rounded-md dark:bg-darkBox/50 p-4 border">
+      <div className="flex items-center gap-2">
+        <AudioLines className="w-4 h-4 text-gray-700 dark:text-gray-300" />
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t("stickerDetails.visualiser.title")}
+        </h3>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground">
+          {t("stickerDetails.visualiser.source")}
+        </label>
+        <select
+          value={source}
+          onChange={(e) =>
+            updateSettings({
+              source: e.target.value === "mix" ? "mix" : Number(e.target.value),
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="mix">{t("stickerDetails.visualiser.mix")}</option>
+          {sounds.map((sound) => (
+            <option key={sound.id} value={sound.id}>
+              {sound.content}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs text-muted-foreground">
+          {t("stickerDetails.visualiser.style")}
+        </label>
+        <div className="grid grid-cols-4 gap-1.5">
+          {VISUALISER_STYLES.map((style) => (
+            <button
+              key={style}
+              onClick={() => updateSettings({ style })}
+              className={`text-xs px-2 py-1.5 rounded-md transition-colors ${
+                settings.style === style
+                  ? "bg-primarioLogo text-white"
+                  : "bg-muted text-muted-foreground hover:bg-muted/70"
+              }`}
+            >
+              {t(`stickerDetails.visualiser.styles.${style}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">
+            {t("stickerDetails.visualiser.primaryColor")}
+          </label>
+          <ColorField
+            value={settings.primaryColor}
+            onChange={(primaryColor) => updateSettings({ primaryColor })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">
+            {t("stickerDetails.visualiser.secondaryColor")}
+          </label>
+          <ColorField
+            value={settings.secondaryColor}
+            onChange={(secondaryColor) => updateSettings({ secondaryColor })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
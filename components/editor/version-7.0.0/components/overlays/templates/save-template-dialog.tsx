@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { LayoutTemplate, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../../contexts/editor-context";
+import { TemplateOverlay, TemplatePlaceholder } from "../../../types";
+import { getUserId } from "../../../utils/user-id";
+import {
+  blobToDataUrl,
+  buildUserTemplate,
+  getPlaceholderCandidates,
+  saveUserTemplate,
+  TEMPLATE_THUMBNAIL_WIDTH,
+} from "../../../utils/user-templates";
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** User template to edit; without one the current project is saved as a new template */
+  template?: TemplateOverlay | null;
+}
+
+/**
+ * Dialog for saving the current project as a reusable template, or editing
+ * the details of a saved one. Text and media overlays can be marked as
+ * placeholders, which are filled in when the template is applied. New
+ * templates get a thumbnail of the frame under the playhead.
+ */
+export const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({
+  open,
+  onOpenChange,
+  template,
+}) => {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const { overlays, aspectRatio, renderStill, currentFrame, getRenderDimensions } =
+    useEditorContext();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("");
+  const [tags, setTags] = useState("");
+  const [placeholders, setPlaceholders] = useState<TemplatePlaceholder[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const templateOverlays = template ? template.overlays : overlays;
+  const candidates = useMemo(
+    () => getPlaceholderCandidates(templateOverlays),
+    [templateOverlays]
+  );
+
+  // Start from the template being edited, or from a blank form
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setCategory(template?.category ?? "");
+    setTags(template?.tags.join(", ") ?? "");
+    setPlaceholders(template?.placeholders ?? []);
+  }, [open, template]);
+
+  const togglePlaceholder = (candidate: TemplatePlaceholder, checked: boolean) => {
+    setPlaceholders((prev) =>
+      checked
+        ? [...prev, candidate]
+        : prev.filter((item) => item.overlayId !== candidate.overlayId)
+    );
+  };
+
+  const renamePlaceholder = (overlayId: number, label: string) => {
+    setPlaceholders((prev) =>
+      prev.map((item) => (item.overlayId === overlayId ? { ...item, label } : item))
+    );
+  };
+
+  /**
+   * Small render of the frame under the playhead. Without an SSR server the
+   * template falls back to the first video or image it uses.
+   */
+  const captureThumbnail = async () => {
+    try {
+      const { width } = getRenderDimensions();
+      const image = await renderStill(currentFrame, "jpeg", TEMPLATE_THUMBNAIL_WIDTH / width);
+      return await blobToDataUrl(image);
+    } catch (error) {
+      console.error("Error rendering template thumbnail:", error);
+      return undefined;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({
+        variant: "destructive",
+        title: t("common.error"),
+        description: t("renderDialog.nameRequired"),
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = buildUserTemplate({
+        id: `user-${crypto.randomUUID()}`,
+        name,
+        description,
+        category,
+        tags: tags.split(","),
+        overlays: templateOverlays,
+        placeholders: placeholders.map((item) => ({
+          ...item,
+          label: item.label.trim() || t("templates.placeholderUntitled"),
+        })),
+        aspectRatio: template ? undefined : aspectRatio,
+        thumbnail: template ? undefined : await captureThumbnail(),
+        createdBy: { id: getUserId(), name: "User" },
+        existing: template,
+      });
+      const { storedLocally } = await saveUserTemplate(saved);
+
+      toast({
+        title: t("common.success"),
+        description: storedLocally
+          ? t("templates.savedLocally", { name: saved.name })
+          : t("templates.saved", { name: saved.name }),
+        className: "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving template:", error);
+      toast({
+        variant: "destructive",
+        title: t("common.error"),
+        description: t("templates.saveFailed"),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            {template ? t("templates.editTitle") : t("templates.saveTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {template ? t("templates.editDescription") : t("templates.saveDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="grid gap-1.5">
+            <Label htmlFor="template-name">{t("templates.nameLabel")}</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              autoFocus
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="template-description">{t("templates.descriptionLabel")}</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isSaving}
+              rows={2}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="template-category">{t("templates.categoryLabel")}</Label>
+              <Input
+                id="template-category"
+                value={category}
+                placeholder="Custom"
+                onChange={(e) => setCategory(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="template-tags">{t("templates.tagsLabel")}</Label>
+              <Input
+                id="template-tags"
+                value={tags}
+                placeholder={t("templates.tagsPlaceholder")}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {candidates.length > 0 && (
+            <div className="grid gap-1.5">
+              <Label>{t("templates.placeholdersLabel")}</Label>
+              <p className="text-xs text-muted-foreground">
+                {t("templates.placeholdersHint")}
+              </p>
+              {candidates.map((candidate) => {
+                const placeholder = placeholders.find(
+                  (item) => item.overlayId === candidate.overlayId
+                );
+                return (
+                  <div key={candidate.overlayId} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="accent-primarioLogo"
+                      checked={!!placeholder}
+                      onChange={(e) => togglePlaceholder(candidate, e.target.checked)}
+                      disabled={isSaving}
+                      aria-label={candidate.label}
+                    />
+                    <span className="w-12 shrink-0 text-[10px] uppercase text-muted-foreground">
+                      {t(`templates.placeholderKind.${candidate.kind}`)}
+                    </span>
+                    {placeholder ? (
+                      <Input
+                        value={placeholder.label}
+                        onChange={(e) => renamePlaceholder(candidate.overlayId, e.target.value)}
+                        disabled={isSaving}
+                        className="h-7 text-xs"
+                      />
+                    ) : (
+                      <span className="truncate text-xs">{candidate.label}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+            )}
+            {template ? t("templates.update") : t("templates.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
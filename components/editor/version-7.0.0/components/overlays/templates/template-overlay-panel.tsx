@@ -1,11 +1,19 @@
 import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import { useEditorContext } from "../../../contexts/editor-context";
 import { TemplateOverlay } from "../../../types";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardHeader, CardTitle } from "@/components/ui/card";
 import { useTemplates } from "../../../hooks/use-templates";
 import { TemplateThumbnail } from "./template-thumbnail";
+import { SaveTemplateDialog } from "./save-template-dialog";
+import {
+  deleteUserTemplate,
+  instantiateTemplate,
+} from "../../../utils/user-templates";
+import { toast } from "@/hooks/use-toast";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,7 +31,11 @@ export const TemplateOverlayPanel: React.FC = () => {
   const [selectedTemplate, setSelectedTemplate] =
     useState<TemplateOverlay | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
-  const { setOverlays, setAspectRatio } = useEditorContext();
+  // Text entered for the text placeholders of the selected template
+  const [placeholderTexts, setPlaceholderTexts] = useState<Record<number, string>>({});
+  const [editingTemplate, setEditingTemplate] = useState<TemplateOverlay | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TemplateOverlay | null>(null);
+  const { setOverlays, setAspectRatio, setReplaceTargetId } = useEditorContext();
   const { t } = useTranslation();
 
   const { templates, isLoading, error } = useTemplates({
@@ -37,11 +49,10 @@ export const TemplateOverlayPanel: React.FC = () => {
 
   const handleApplyTemplate = (template: TemplateOverlay) => {
     // Replace all existing overlays with the template overlays
-    const newOverlays = template.overlays.map((overlayTemplate, index) => ({
-      ...overlayTemplate,
-      // Generate new IDs for each overlay to avoid conflicts
-      id: Math.floor(Math.random() * 1000000) + index,
-    }));
+    const { overlays: newOverlays, mediaSlots } = instantiateTemplate(
+      template,
+      placeholderTexts
+    );
 
     // Update the editor's timeline with the new overlays
     setOverlays(newOverlays);
@@ -49,13 +60,44 @@ export const TemplateOverlayPanel: React.FC = () => {
     if (template.aspectRatio) {
       setAspectRatio(template.aspectRatio);
     }
+
+    // Media placeholders are filled one by one, starting with the first
+    if (mediaSlots.length > 0) {
+      setReplaceTargetId(mediaSlots[0]);
+      toast({
+        title: t("templates.mediaSlots", { count: mediaSlots.length }),
+      });
+    }
   };
 
   const handleSelectTemplate = (template: TemplateOverlay) => {
     setSelectedTemplate(template);
+    setPlaceholderTexts({});
     setConfirmDialogOpen(true);
   };
 
+  const handleDeleteTemplate = async () => {
+    if (!templateToDelete) return;
+    try {
+      await deleteUserTemplate(templateToDelete.id);
+      toast({
+        title: t("templates.deleted", { name: templateToDelete.name }),
+      });
+    } catch (err) {
+      console.error("Failed to delete template:", err);
+      toast({
+        title: t("templates.deleteFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setTemplateToDelete(null);
+    }
+  };
+
+  const textPlaceholders = (selectedTemplate?.placeholders ?? []).filter(
+    (placeholder) => placeholder.kind === "text"
+  );
+
   const handleImportTemplate = async (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -66,6 +108,7 @@ export const TemplateOverlayPanel: React.FC = () => {
       const content = await file.text();
       const template = JSON.parse(content) as TemplateOverlay;
       setSelectedTemplate(template);
+      setPlaceholderTexts({});
       setConfirmDialogOpen(true);
     } catch (err) {
       console.error("Failed to import template:", err);
@@ -129,15 +172,52 @@ export const TemplateOverlayPanel: React.FC = () => {
                       />
                     </div>
                     <div className="space-y-1 sm:space-y-2">
-                      <CardTitle className="text-xs sm:text-sm font-light">
-                        {template.name}
-                      </CardTitle>
+                      <div className="flex items-start justify-between gap-1">
+                        <CardTitle className="text-xs sm:text-sm font-light">
+                          {template.name}
+                        </CardTitle>
+                        {template.isUserTemplate && (
+                          <div className="flex shrink-0 gap-0.5">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingTemplate(template);
+                              }}
+                              title={t("templates.edit")}
+                              aria-label={t("templates.edit")}
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 hover:text-red-500"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTemplateToDelete(template);
+                              }}
+                              title={t("templates.delete")}
+                              aria-label={t("templates.delete")}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
                       <p className="text-[10px] sm:text-xs text-muted-foreground line-clamp-2">
                         {template.description}
                       </p>
                     </div>
                     <div className="pt-1 sm:pt-2 border-t border-border">
                       <div className="flex flex-wrap float-left gap-1 sm:gap-2">
+                        {template.isUserTemplate && (
+                          <span className="px-1.5 py-0.5 bg-primarioLogo/20 rounded-sm text-[8px] sm:text-[9px] text-gray-800/70 dark:text-white">
+                            {t("templates.mine")}
+                          </span>
+                        )}
                         {template.tags.slice(0, 3).map((tag, index) => (
                           <span
                             key={index}
@@ -182,6 +262,27 @@ export const TemplateOverlayPanel: React.FC = () => {
                 {t("templates.applyConfirm")}
               </AlertDialogDescription>
             </AlertDialogHeader>
+            {textPlaceholders.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {t("templates.fillPlaceholders")}
+                </p>
+                {textPlaceholders.map((placeholder) => (
+                  <Input
+                    key={placeholder.overlayId}
+                    placeholder={placeholder.label}
+                    value={placeholderTexts[placeholder.overlayId] ?? ""}
+                    onChange={(e) =>
+                      setPlaceholderTexts((prev) => ({
+                        ...prev,
+                        [placeholder.overlayId]: e.target.value,
+                      }))
+                    }
+                    className="h-8 text-xs"
+                  />
+                ))}
+              </div>
+            )}
             <AlertDialogFooter className="gap-2 sm:gap-3">
               <AlertDialogCancel className="h-8 sm:h-10 text-xs sm:text-sm">
                 {t("common.cancel")}
@@ -197,6 +298,40 @@ export const TemplateOverlayPanel: React.FC = () => {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        <AlertDialog
+          open={!!templateToDelete}
+          onOpenChange={(open) => !open && setTemplateToDelete(null)}
+        >
+          <AlertDialogContent className="w-[90%] max-w-md mx-auto rounded-md p-3 sm:p-6">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-sm sm:text-base">
+                {t("templates.delete")}
+              </AlertDialogTitle>
+              <AlertDialogDescription className="text-xs sm:text-sm">
+                {templateToDelete &&
+                  t("templates.deleteConfirm", { name: templateToDelete.name })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter className="gap-2 sm:gap-3">
+              <AlertDialogCancel className="h-8 sm:h-10 text-xs sm:text-sm">
+                {t("common.cancel")}
+              </AlertDialogCancel>
+              <AlertDialogAction
+                className="h-8 sm:h-10 text-xs sm:text-sm bg-red-600 hover:bg-red-700"
+                onClick={handleDeleteTemplate}
+              >
+                {t("templates.delete")}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <SaveTemplateDialog
+          open={!!editingTemplate}
+          onOpenChange={(open) => !open && setEditingTemplate(null)}
+          template={editingTemplate}
+        />
       </>
     </div>
   );
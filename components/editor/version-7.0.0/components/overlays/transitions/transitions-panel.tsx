@@ -0,0 +1,113 @@
+"use client";
+
+import React from "react";
+import { useEditorContext } from "../../../contexts/editor-context";
+import { ClipTransitionType } from "../../../types";
+import { TRANSITION_CONFIG } from "../../../constants";
+import {
+  applyTransition,
+  CLIP_TRANSITION_TYPES,
+  findNextAdjacentClip,
+  getMaxTransitionDuration,
+} from "../../../utils/clip-transitions";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+
+/**
+ * Small animated thumbnail illustrating each transition with two colour blocks
+ */
+const TransitionPreview: React.FC<{ type: ClipTransitionType }> = ({
+  type,
+}) => {
+  const incomingClass: Record<ClipTransitionType, string> = {
+    crossfade: "opacity-0 group-hover:opacity-100",
+    "dip-to-black": "opacity-0 group-hover:opacity-100 delay-150",
+    wipe: "[clip-path:inset(0_100%_0_0)] group-hover:[clip-path:inset(0_0_0_0)]",
+    slide: "translate-x-full group-hover:translate-x-0",
+    zoom: "opacity-0 scale-125 group-hover:opacity-100 group-hover:scale-100",
+  };
+
+  return (
+    <div className="relative aspect-video w-full overflow-hidden rounded-sm bg-black">
+      <div
+        className={`absolute inset-0 bg-slate-400 transition-all duration-500 ${
+          type === "dip-to-black" ? "group-hover:opacity-0" : ""
+        } ${type === "slide" ? "group-hover:-translate-x-full" : ""}`}
+      />
+      <div
+        className={`absolute inset-0 bg-primarioLogo transition-all duration-500 ${incomingClass[type]}`}
+      />
+    </div>
+  );
+};
+
+/**
+ * Panel listing cross-clip transitions.
+ * Transitions are dragged onto the cut between two adjacent clips in the
+ * timeline, or clicked to apply them to the cut after the selected clip.
+ */
+export const TransitionsPanel: React.FC = () => {
+  const { overlays, setOverlays, selectedOverlayId } = useEditorContext();
+  const { t } = useTranslation();
+
+  const handleDragStart = (e: React.DragEvent, type: ClipTransitionType) => {
+    e.dataTransfer.effectAllowed = "copy";
+    e.dataTransfer.setData(
+      "application/reelmotion-transition",
+      JSON.stringify({
+        type,
+        durationInFrames: TRANSITION_CONFIG.defaultDurationInFrames,
+      })
+    );
+  };
+
+  const handleApply = (type: ClipTransitionType) => {
+    const selected = overlays.find((o) => o.id === selectedOverlayId);
+    const incoming = selected && findNextAdjacentClip(overlays, selected);
+    if (!selected || !incoming) {
+      toast({
+        title: t("transitions.title"),
+        description: t("transitions.noCutAfterSelection"),
+      });
+      return;
+    }
+    if (getMaxTransitionDuration(selected, incoming) === 0) {
+      toast({
+        title: t("transitions.title"),
+        description: t("transitions.noSpareMedia"),
+      });
+      return;
+    }
+
+    setOverlays(
+      applyTransition(overlays, selected.id, {
+        type,
+        durationInFrames: TRANSITION_CONFIG.defaultDurationInFrames,
+      })
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-white dark:bg-darkBox h-full">
+      <p className="text-xs text-muted-foreground">
+        {t("transitions.panelHint")}
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        {CLIP_TRANSITION_TYPES.map((type) => (
+          <div
+            key={type}
+            draggable
+            onDragStart={(e) => handleDragStart(e, type)}
+            onClick={() => handleApply(type)}
+            className="group flex flex-col gap-1.5 p-1.5 rounded-md border-2 border-white/10 bg-gray-200 dark:bg-darkBox cursor-pointer transition-all duration-200 hover:border-blue-500/80 dark:hover:border-white/20"
+          >
+            <TransitionPreview type={type} />
+            <span className="text-[11px] font-medium text-black/95 dark:text-white/95">
+              {t(`transitions.${type}`)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
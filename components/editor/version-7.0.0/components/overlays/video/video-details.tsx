@@ -23,6 +23,7 @@ import {
 } from "../../../../../ui/tabs";
 import { VideoStylePanel } from "./video-style-panel";
 import { VideoSettingsPanel } from "./video-settings-panel";
+import { MediaFocalPoint } from "../common/media-focal-point";
 import { useOverlayOverlapCheck } from "../../../hooks/use-overlay-overlap-check";
 import { useEditorContext } from "../../../contexts/editor-context";
 import { useTranslation } from "@/lib/i18n";
@@ -140,6 +141,12 @@ export const VideoDetails: React.FC<VideoDetailsProps> = ({
             localOverlay={localOverlay}
             handleStyleChange={handleStyleChange}
           />
+          <MediaFocalPoint
+            src={localOverlay.content}
+            isVideo
+            focalPoint={localOverlay.focalPoint}
+            onChange={(focalPoint) => setLocalOverlay({ ...localOverlay, focalPoint })}
+          />
         </TabsContent>
 
         <TabsContent value="settings" className="space-y-4 mt-4">
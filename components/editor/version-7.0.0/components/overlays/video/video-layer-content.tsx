@@ -6,6 +6,8 @@ import {
 import { ClipOverlay } from "../../../types";
 import { animationTemplates } from "../../../templates/animation-templates";
 import { resolveVideoUrl } from "../../../utils/url-helper";
+import { getVolumeProp } from "../../../utils/volume-envelope";
+import { getFocalObjectPosition } from "../../../utils/reframe";
 import { useEffect, useState } from "react";
 
 /**
@@ -25,7 +27,7 @@ interface VideoLayerContentProps {
  * - Video playback using Remotion's OffthreadVideo
  * - Enter/exit animations based on the current frame
  * - Styling including transform, opacity, border radius, etc.
- * - Video timing and volume controls
+ * - Video timing and volume, including fades and the volume envelope
  *
  * @param props.overlay - Configuration object for the video overlay including:
  *   - src: Video source URL
@@ -71,6 +73,7 @@ export const VideoLayerContent: React.FC<VideoLayerContentProps> = ({
     width: "100%",
     height: "100%",
     objectFit: overlay.styles.objectFit || "cover",
+    objectPosition: getFocalObjectPosition(overlay.focalPoint),
     opacity: overlay.styles.opacity,
     transform: overlay.styles.transform || "none",
     borderRadius: overlay.styles.borderRadius || "0px",
@@ -97,7 +100,7 @@ export const VideoLayerContent: React.FC<VideoLayerContentProps> = ({
         src={videoSrc}
         startFrom={overlay.videoStartTime || 0}
         style={videoStyle}
-        volume={overlay.styles.volume ?? 1}
+        volume={getVolumeProp(overlay)}
         playbackRate={overlay.speed ?? 1}
         pauseWhenBuffering
         crossOrigin="anonymous"
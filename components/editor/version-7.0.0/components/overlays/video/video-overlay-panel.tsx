@@ -143,6 +143,8 @@ export const VideoOverlayPanel: React.FC = () => {
     selectedOverlayId,
     changeOverlay,
     currentFrame,
+    fps,
+    tracks,
   } = useEditorContext();
   const { findNextAvailablePosition } = useTimelinePositioning();
   const { getAspectRatioDimensions } = useAspectRatio();
@@ -251,12 +253,12 @@ export const VideoOverlayPanel: React.FC = () => {
       overlays,
       visibleRows,
       durationInFrames,
-      currentFrame
+      currentFrame,
+      tracks
     );
 
     // Get video duration
     const videoDuration = await getVideoDuration(video.video_url);
-    const fps = 30; // Default FPS
     const videoDurationInFrames = Math.floor(videoDuration * fps);
 
     const newOverlay: Overlay = {
@@ -274,6 +276,7 @@ export const VideoOverlayPanel: React.FC = () => {
       content: video.video_url,
       src: video.video_url,
       videoStartTime: 0,
+      mediaDurationInFrames: videoDurationInFrames || undefined,
       styles: {
         opacity: 1,
         zIndex: 100,
@@ -312,7 +315,7 @@ export const VideoOverlayPanel: React.FC = () => {
       
       video.onerror = () => {
         console.error("Error loading video metadata");
-        resolve(200 / 30); // Fallback: 200 frames at 30fps
+        resolve(200 / fps); // Fallback: 200 frames
       };
     });
   };
@@ -0,0 +1,436 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  Braces,
+  CheckCircle2,
+  Eye,
+  FileDown,
+  FileSpreadsheet,
+  ListChecks,
+  Loader2,
+  Upload,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { Overlay } from "../../types";
+import {
+  buildMergeManifest,
+  getMergeVariables,
+  getVariablesInText,
+  MergeRenderResult,
+  MergeRowIssue,
+  parseMergeDataset,
+  validateMergeRows,
+} from "../../utils/data-merge";
+import {
+  checkMediaUrl,
+  getLinkedMediaType,
+  getMediaName,
+  getOverlaySource,
+} from "../../utils/media-relink";
+
+/** Long side of the batch renders, the 720p export available to every plan */
+const BATCH_LONG_SIDE = 1280;
+
+/** Dataset columns shown in the row list; the rest are in the manifest */
+const VISIBLE_COLUMNS = 3;
+
+interface DataMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * DataMergeDialog Component
+ *
+ * Batch rendering of personalised videos. Texts of the project can hold
+ * `{{column}}` variables and media overlays can be bound to a column of
+ * URLs; a CSV or JSON dataset then fills them in, one video per row.
+ * Any row can be previewed in the player, the media of every row is
+ * checked before rendering, and rows whose media can't be fetched are
+ * skipped. Once done, a manifest lists the video of each row.
+ */
+export const DataMergeDialog: React.FC<DataMergeDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { t } = useTranslation();
+  const {
+    overlays,
+    changeOverlay,
+    mergeDataset,
+    setMergeDataset,
+    previewMergeRow,
+    getMergeRenderJobs,
+    renderQueue,
+    getRenderDimensions,
+  } = useEditorContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Media checks of the current dataset; null until they have run
+  const [issues, setIssues] = useState<MergeRowIssue[] | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+  const [results, setResults] = useState<MergeRenderResult[] | null>(null);
+
+  const variables = useMemo(() => getMergeVariables(overlays), [overlays]);
+  const mediaOverlays = overlays.filter((overlay) => getLinkedMediaType(overlay));
+  const columns = mergeDataset?.columns ?? [];
+  const missingColumns = variables.filter((variable) => !columns.includes(variable));
+  const invalidRows = new Set((issues ?? []).map((issue) => issue.rowIndex));
+
+  const resetChecks = () => {
+    setIssues(null);
+    setResults(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setMergeDataset(parseMergeDataset(await file.text(), file.name));
+      resetChecks();
+    } catch (error) {
+      console.error("Error reading dataset:", error);
+      toast({
+        title: t("dataMerge.parseFailed"),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Binding a media overlay points its file at a column of URLs
+  const bindMedia = (overlay: Overlay, column: string) => {
+    changeOverlay(overlay.id, (current) => ({
+      ...current,
+      src: `{{${column}}}`,
+      content: `{{${column}}}`,
+    }) as Overlay);
+    resetChecks();
+  };
+
+  const handleValidate = async () => {
+    if (!mergeDataset) return null;
+    setIsValidating(true);
+    try {
+      const found = await validateMergeRows(overlays, mergeDataset.rows, checkMediaUrl);
+      setIssues(found);
+      return found;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleRender = async () => {
+    if (!mergeDataset) return;
+    const found = issues ?? (await handleValidate());
+    if (!found) return;
+
+    const skipped = new Set(found.map((issue) => issue.rowIndex));
+    const rowIndexes = mergeDataset.rows
+      .map((_, rowIndex) => rowIndex)
+      .filter((rowIndex) => !skipped.has(rowIndex));
+    if (rowIndexes.length === 0) return;
+
+    const { width, height } = getRenderDimensions();
+    setIsRendering(true);
+    setResults(null);
+    previewMergeRow(null);
+    try {
+      const outcomes = await renderQueue(getMergeRenderJobs(rowIndexes), () => ({
+        scale: BATCH_LONG_SIDE / Math.max(width, height),
+      }));
+      setResults(
+        rowIndexes.map((rowIndex, index): MergeRenderResult => {
+          const outcome = outcomes[index];
+          if (!outcome) return { rowIndex, status: "skipped" };
+          if ("error" in outcome) return { rowIndex, status: "error", error: outcome.error };
+          return {
+            rowIndex,
+            status: "done",
+            url: new URL(outcome.url, window.location.origin).toString(),
+          };
+        })
+      );
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const downloadManifest = (format: "csv" | "json") => {
+    if (!mergeDataset || !results) return;
+    const manifest = buildMergeManifest(mergeDataset, results, format);
+    const url = URL.createObjectURL(
+      new Blob([manifest], { type: format === "csv" ? "text/csv" : "application/json" })
+    );
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${mergeDataset.name.replace(/\.[^.]+$/, "")}-manifest.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderableCount = mergeDataset ? mergeDataset.rows.length - invalidRows.size : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            {t("dataMerge.title")}
+          </DialogTitle>
+          <DialogDescription>{t("dataMerge.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 max-h-[60vh] overflow-y-auto pr-1">
+          {/* Dataset */}
+          <div className="flex items-center gap-2">
+            {mergeDataset ? (
+              <>
+                <span className="flex-1 truncate text-xs">
+                  {t("dataMerge.datasetSummary", {
+                    name: mergeDataset.name,
+                    rows: mergeDataset.rows.length,
+                    columns: mergeDataset.columns.length,
+                  })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => {
+                    setMergeDataset(null);
+                    resetChecks();
+                  }}
+                  disabled={isRendering}
+                  title={t("dataMerge.removeDataset")}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            ) : (
+              <span className="flex-1 text-xs text-muted-foreground">
+                {t("dataMerge.noDataset")}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRendering}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {t("dataMerge.loadDataset")}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleFile}
+            />
+          </div>
+
+          {/* Variables used by the project */}
+          <div className="grid gap-1.5">
+            <h4 className="text-xs font-medium">{t("dataMerge.variables")}</h4>
+            {variables.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t("dataMerge.noVariables")}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {variables.map((variable) => {
+                  const isMissing = !!mergeDataset && missingColumns.includes(variable);
+                  return (
+                    <span
+                      key={variable}
+                      className={`flex items-center gap-1 rounded-sm px-1.5 py-0.5 font-mono text-[10px] ${
+                        isMissing
+                          ? "bg-red-500/15 text-red-500"
+                          : "bg-sky-200 dark:bg-sky-400/30 text-gray-800/70 dark:text-white"
+                      }`}
+                      title={isMissing ? t("dataMerge.missingColumn") : undefined}
+                    >
+                      <Braces className="h-2.5 w-2.5" />
+                      {variable}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+            {mergeDataset && missingColumns.length > 0 && (
+              <p className="text-xs text-red-500">
+                {t("dataMerge.missingColumns", { columns: missingColumns.join(", ") })}
+              </p>
+            )}
+          </div>
+
+          {/* Media bound to a column of URLs */}
+          {mergeDataset && mediaOverlays.length > 0 && (
+            <div className="grid gap-1.5">
+              <h4 className="text-xs font-medium">{t("dataMerge.mediaBindings")}</h4>
+              {mediaOverlays.map((overlay) => {
+                const source = getOverlaySource(overlay) ?? "";
+                const [boundColumn] = getVariablesInText(source);
+                return (
+                  <div key={overlay.id} className="flex items-center gap-2">
+                    <span className="flex-1 truncate text-xs">
+                      {boundColumn ? `{{${boundColumn}}}` : getMediaName(source)}
+                    </span>
+                    <Select
+                      value={boundColumn && columns.includes(boundColumn) ? boundColumn : undefined}
+                      onValueChange={(column) => bindMedia(overlay, column)}
+                      disabled={isRendering}
+                    >
+                      <SelectTrigger className="h-7 w-[180px] text-xs">
+                        <SelectValue placeholder={t("dataMerge.bindToColumn")} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.map((column) => (
+                          <SelectItem key={column} value={column} className="text-xs">
+                            {column}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Rows */}
+          {mergeDataset && (
+            <div className="grid gap-1">
+              <h4 className="text-xs font-medium">{t("dataMerge.rows")}</h4>
+              {mergeDataset.rows.map((row, rowIndex) => {
+                const result = results?.find((item) => item.rowIndex === rowIndex);
+                return (
+                  <div
+                    key={rowIndex}
+                    className="flex items-center gap-2 rounded-md border border-gray-200 dark:border-gray-700 px-2 py-1"
+                  >
+                    <span className="w-8 shrink-0 text-[10px] text-muted-foreground">
+                      #{rowIndex + 1}
+                    </span>
+                    <span className="flex-1 truncate text-xs">
+                      {mergeDataset.columns
+                        .slice(0, VISIBLE_COLUMNS)
+                        .map((column) => row[column])
+                        .join(" · ")}
+                    </span>
+                    {invalidRows.has(rowIndex) && (
+                      <AlertTriangle
+                        className="h-3.5 w-3.5 shrink-0 text-red-500"
+                        aria-label={t("dataMerge.rowInvalid")}
+                      />
+                    )}
+                    {result?.status === "done" && (
+                      <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-green-500" />
+                    )}
+                    {result?.status === "error" && (
+                      <span
+                        className="shrink-0 text-[10px] text-red-500"
+                        title={result.error}
+                      >
+                        {t("header.renderFailed")}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      onClick={() => {
+                        previewMergeRow(rowIndex);
+                        onOpenChange(false);
+                      }}
+                      title={t("dataMerge.preview")}
+                    >
+                      <Eye className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {issues && (
+            <p className={`text-xs ${issues.length > 0 ? "text-red-500" : "text-green-600"}`}>
+              {issues.length > 0
+                ? t("dataMerge.issues", { rows: invalidRows.size, media: issues.length })
+                : t("dataMerge.allValid")}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {results && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => downloadManifest("csv")}>
+                <FileDown className="w-4 h-4 mr-2" />
+                {t("dataMerge.manifestCsv")}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadManifest("json")}>
+                <FileDown className="w-4 h-4 mr-2" />
+                {t("dataMerge.manifestJson")}
+              </Button>
+            </>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleValidate}
+            disabled={!mergeDataset || isValidating || isRendering}
+          >
+            {isValidating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ListChecks className="w-4 h-4 mr-2" />
+            )}
+            {t("dataMerge.validate")}
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleRender}
+            disabled={
+              !mergeDataset ||
+              missingColumns.length > 0 ||
+              renderableCount === 0 ||
+              isValidating ||
+              isRendering
+            }
+            className="bg-primarioLogo hover:bg-primarioLogo/90 text-white"
+          >
+            {isRendering && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isRendering
+              ? t("dataMerge.rendering")
+              : t("dataMerge.render", { count: renderableCount })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,358 @@
+import React, { useState } from "react";
+import { Crown, Film } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/lib/i18n";
+import { ExportContainer } from "../../types";
+import { useEditorContext } from "../../contexts/editor-context";
+import {
+  CODEC_CONTAINERS,
+  CODEC_CRF_RANGES,
+  EXPORT_PRESETS,
+  ExportPresetId,
+  ExportSettings,
+  FrameRange,
+  codecSupportsAudioBitrate,
+  getExportPreset,
+  getInOutFrameRange,
+  getSelectionFrameRange,
+  isAudioOnlyCodec,
+} from "../../utils/export-formats";
+
+export type ExportResolution = "720p" | "1080p" | "4k";
+
+/** Part of the timeline to export */
+type ExportRange = "all" | "inOut" | "selection";
+
+const AUDIO_BITRATES = ["96k", "128k", "192k", "256k", "320k"];
+const DEFAULT_VALUE = "default";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (resolution: ExportResolution, exportSettings: ExportSettings) => void;
+  can1080p: boolean;
+  can4k: boolean;
+  /** Whether a part of the timeline can be exported instead of all of it */
+  canExportRange: boolean;
+  /** Called when a resolution or range above the current plan is picked */
+  onUpgrade: () => void;
+}
+
+/**
+ * Dialog for exporting in a specific format: a preset (MP4, ProRes, WebM,
+ * GIF, MP3, WAV) that can be fine-tuned with the container, quality and
+ * audio bitrate. The export can be limited to the in/out points or to the
+ * selected overlays.
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  ...props
+}) => {
+  // The resolution is kept from one export to the next
+  const [resolution, setResolution] = useState<ExportResolution>("720p");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        {/* Mounted on every open, so the other settings start from the defaults */}
+        <ExportForm
+          {...props}
+          resolution={resolution}
+          onResolutionChange={setResolution}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+type ExportFormProps = Omit<ExportDialogProps, "open" | "onOpenChange"> & {
+  resolution: ExportResolution;
+  onResolutionChange: (resolution: ExportResolution) => void;
+  onClose: () => void;
+};
+
+const ExportForm: React.FC<ExportFormProps> = ({
+  onExport,
+  can1080p,
+  can4k,
+  canExportRange,
+  onUpgrade,
+  resolution,
+  onResolutionChange,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const {
+    overlays,
+    selectedOverlayIds,
+    inPoint,
+    outPoint,
+    contentDurationInFrames,
+    formatTime,
+  } = useEditorContext();
+  const inOutRange = getInOutFrameRange(inPoint, outPoint, contentDurationInFrames);
+  const selectionRange = getSelectionFrameRange(overlays, selectedOverlayIds);
+
+  const [presetId, setPresetId] = useState<ExportPresetId>("mp4");
+  const [settings, setSettings] = useState<ExportSettings>(
+    getExportPreset("mp4").settings
+  );
+  // Prefers the marked range when there is one
+  const [range, setRange] = useState<ExportRange>(
+    canExportRange && inOutRange ? "inOut" : "all"
+  );
+
+  const rangeOptions: Record<ExportRange, FrameRange | null> = {
+    all: null,
+    inOut: inOutRange,
+    selection: selectionRange,
+  };
+  const frameRange = rangeOptions[range];
+
+  const codec = settings.codec ?? "h264";
+  const containers = CODEC_CONTAINERS[codec];
+  const crfRange = CODEC_CRF_RANGES[codec];
+  const audioOnly = isAudioOnlyCodec(codec);
+
+  const selectPreset = (id: ExportPresetId) => {
+    setPresetId(id);
+    setSettings(getExportPreset(id).settings);
+  };
+
+  const updateSettings = (changes: Partial<ExportSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleResolutionChange = (value: string) => {
+    const next = value as ExportResolution;
+    if ((next === "1080p" && !can1080p) || (next === "4k" && !can4k)) {
+      onUpgrade();
+      return;
+    }
+    onResolutionChange(next);
+  };
+
+  const handleRangeChange = (value: string) => {
+    const next = value as ExportRange;
+    if (next !== "all" && !canExportRange) {
+      onUpgrade();
+      return;
+    }
+    setRange(next);
+  };
+
+  const handleCrfChange = (value: string) => {
+    const crf = parseInt(value, 10);
+    updateSettings({ crf: Number.isNaN(crf) ? undefined : crf });
+  };
+
+  const isCrfValid =
+    settings.crf === undefined ||
+    (!!crfRange && settings.crf >= crfRange[0] && settings.crf <= crfRange[1]);
+
+  const handleExport = () => {
+    onExport(resolution, { ...settings, frameRange: frameRange ?? undefined });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Film className="w-5 h-5" />
+          {t("export.title")}
+        </DialogTitle>
+        <DialogDescription>{t("export.description")}</DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-2">
+        <div className="grid grid-cols-2 gap-2">
+          {EXPORT_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => selectPreset(preset.id)}
+              className={`flex flex-col items-start rounded-md border px-3 py-2 text-left transition-colors ${
+                presetId === preset.id
+                  ? "border-primarioLogo bg-primarioLogo/10"
+                  : "border-gray-200 dark:border-white/10 hover:bg-gray-50 dark:hover:bg-white/5"
+              }`}
+            >
+              <span className="text-sm font-medium">{t(preset.labelKey)}</span>
+              <span className="text-xs text-muted-foreground">
+                {t(preset.descriptionKey)}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid gap-2">
+          <Label>{t("export.range")}</Label>
+          <Select value={range} onValueChange={handleRangeChange}>
+            <SelectTrigger className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all" className="text-xs">
+                {t("export.rangeAll")}
+              </SelectItem>
+              <SelectItem value="inOut" disabled={!inOutRange} className="text-xs">
+                <span className="flex items-center gap-2">
+                  {t("export.rangeInOut")}
+                  {!canExportRange && <Crown className="w-3 h-3 text-yellow-500" />}
+                </span>
+              </SelectItem>
+              <SelectItem value="selection" disabled={!selectionRange} className="text-xs">
+                <span className="flex items-center gap-2">
+                  {t("export.rangeSelection")}
+                  {!canExportRange && <Crown className="w-3 h-3 text-yellow-500" />}
+                </span>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <span className="text-[11px] text-muted-foreground">
+            {frameRange
+              ? t("export.rangeReadout", {
+                  start: formatTime(frameRange[0]),
+                  end: formatTime(frameRange[1] + 1),
+                })
+              : t("export.rangeHint")}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {!audioOnly && (
+            <div className="grid gap-2">
+              <Label>{t("export.resolution")}</Label>
+              <Select value={resolution} onValueChange={handleResolutionChange}>
+                <SelectTrigger className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="720p" className="text-xs">
+                    {t("header.standard720p")}
+                  </SelectItem>
+                  <SelectItem value="1080p" className="text-xs">
+                    <span className="flex items-center gap-2">
+                      {t("header.hd1080p")}
+                      {!can1080p && <Crown className="w-3 h-3 text-yellow-500" />}
+                    </span>
+                  </SelectItem>
+                  <SelectItem value="4k" className="text-xs">
+                    <span className="flex items-center gap-2">
+                      {t("header.ultraHd4k")}
+                      {!can4k && <Crown className="w-3 h-3 text-purple-500" />}
+                    </span>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {containers.length > 1 && (
+            <div className="grid gap-2">
+              <Label>{t("export.container")}</Label>
+              <Select
+                value={settings.container ?? containers[0]}
+                onValueChange={(value) =>
+                  updateSettings({ container: value as ExportContainer })
+                }
+              >
+                <SelectTrigger className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {containers.map((container) => (
+                    <SelectItem key={container} value={container} className="text-xs">
+                      .{container}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {crfRange && (
+            <div className="grid gap-2">
+              <Label htmlFor="export-crf">{t("export.quality")}</Label>
+              <Input
+                id="export-crf"
+                type="number"
+                min={crfRange[0]}
+                max={crfRange[1]}
+                placeholder={t("export.default")}
+                value={settings.crf ?? ""}
+                onChange={(e) => handleCrfChange(e.target.value)}
+                className="text-xs"
+              />
+              <span className="text-[11px] text-muted-foreground">
+                {t("export.qualityHint", { min: crfRange[0], max: crfRange[1] })}
+              </span>
+            </div>
+          )}
+
+          {codecSupportsAudioBitrate(codec) && (
+            <div className="grid gap-2">
+              <Label>{t("export.audioBitrate")}</Label>
+              <Select
+                value={settings.audioBitrate ?? DEFAULT_VALUE}
+                onValueChange={(value) =>
+                  updateSettings({
+                    audioBitrate: value === DEFAULT_VALUE ? undefined : value,
+                  })
+                }
+              >
+                <SelectTrigger className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE} className="text-xs">
+                    {t("export.default")}
+                  </SelectItem>
+                  {AUDIO_BITRATES.map((bitrate) => (
+                    <SelectItem key={bitrate} value={bitrate} className="text-xs">
+                      {bitrate}bps
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onClose}>
+          {t("common.cancel")}
+        </Button>
+        <Button
+          type="button"
+          onClick={handleExport}
+          disabled={!isCrfValid}
+          className="bg-primarioLogo hover:bg-primarioLogo/90 text-white"
+        >
+          {t("header.export")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
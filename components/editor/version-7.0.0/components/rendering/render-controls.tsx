@@ -1,6 +1,6 @@
 import React from "react";
 import Cookies from "js-cookie";
-import { Download, Loader2, Bell, Save, FolderOpen, ChevronDown, Lock, Crown, MoreVertical } from "lucide-react";
+import { Download, Loader2, Bell, Save, FolderOpen, ChevronDown, Lock, Crown, MoreVertical, Captions, X, SlidersHorizontal, Image as ImageIcon, LayoutTemplate, FileSpreadsheet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Popover,
@@ -11,6 +11,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuCheckboxItem,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
   DropdownMenuLabel,
@@ -19,10 +20,23 @@ import { formatDistanceToNow } from "date-fns";
 import { SaveEditDialog } from "./save-edit-dialog";
 import { LoadEditDialog } from "./load-edit-dialog";
 import { SaveRenderDialog } from "./save-render-dialog";
+import { SaveTemplateDialog } from "../overlays/templates/save-template-dialog";
+import { DataMergeDialog } from "./data-merge-dialog";
+import { ExportDialog, ExportResolution } from "./export-dialog";
 import { useEditorContext } from "../../contexts/editor-context";
 import { SubscriptionModal } from "../shared/subscription-modal";
 import { useTranslation } from "@/lib/i18n";
+import { toast } from "@/hooks/use-toast";
 import { LanguageSelector } from "@/components/language-selector";
+import {
+  CAPTION_EXPORT_FORMATS,
+  CaptionExportFormat,
+  collectTimelineCaptions,
+  downloadCaptions,
+} from "../../utils/caption-export";
+import { ExportSettings } from "../../utils/export-formats";
+import { getMissingMedia } from "../../utils/media-relink";
+import { ToastAction } from "@/components/ui/toast";
 
 /**
  * Interface representing a single video render attempt
@@ -31,6 +45,7 @@ import { LanguageSelector } from "@/components/language-selector";
  * @property {string} id - Unique identifier for the render
  * @property {'success' | 'error'} status - Result of the render attempt
  * @property {string} error - Error message if render failed
+ * @property {string} label - Which variant was rendered, for queued renders
  */
 interface RenderItem {
   url?: string;
@@ -38,6 +53,7 @@ interface RenderItem {
   id: string;
   status: "success" | "error";
   error?: string;
+  label?: string;
 }
 
 /**
@@ -69,6 +85,11 @@ interface RenderControlsProps {
  * - Notification bell showing render history
  * - Download buttons for completed renders
  * - Error display for failed renders
+ * - Caption sidecar export (SRT, WebVTT, word-level JSON) for every caption overlay
+ * - Export dialog for other formats (ProRes, WebM, GIF, MP3, WAV)
+ * - One render per selected aspect-ratio variant, queued one after another
+ * - Saving the project as a reusable template
+ * - Data-merge batch rendering, one personalised video per row of a dataset
  *
  * The component maintains a history of render attempts, both successful and failed,
  * and provides visual feedback about the current render status.
@@ -88,11 +109,34 @@ const RenderControls: React.FC<RenderControlsProps> = ({
   const { t } = useTranslation();
 
   // Use EditorContext to get subscription info, dimensions, overlays and export count
-  const { subscriptionPlan, isPro, getAspectRatioDimensions, getRenderDimensions, overlays, exportNumber } = useEditorContext();
+  const { subscriptionPlan, isPro, getAspectRatioDimensions, getRenderDimensions, overlays, exportNumber, cancelRender, renderStill, currentFrame, fps, aspectRatio, variants, getVariantRenderJobs, renderQueue, offlineSources, setRelinkSource } = useEditorContext();
+
+  // Variants left out of the next export; every variant is exported by default
+  const [excludedVariants, setExcludedVariants] = React.useState<string[]>([]);
+  const hasVariants = !!variants && variants.variants.length > 1;
+  const selectedVariantIds = hasVariants
+    ? variants.variants
+        .map((variant) => variant.id)
+        .filter((variantId) => !excludedVariants.includes(variantId))
+    : [];
+
+  const noVariantSelected = hasVariants && selectedVariantIds.length === 0;
+
+  const toggleVariant = (variantId: string, selected: boolean) => {
+    setExcludedVariants((prev) =>
+      selected ? prev.filter((item) => item !== variantId) : [...prev, variantId]
+    );
+  };
 
   // Check if timeline has elements
   const isTimelineEmpty = !overlays || overlays.length === 0;
 
+  // Captions of all caption overlays, with the timings viewers see
+  const timelineCaptions = React.useMemo(
+    () => collectTimelineCaptions(overlays || [], fps),
+    [overlays, fps]
+  );
+
   // Check if free user has exhausted export limit (3 or more)
   const isFreeExportBlocked = (subscriptionPlan || 'free').toLowerCase() === 'free' && exportNumber >= 3;
 
@@ -100,17 +144,25 @@ const RenderControls: React.FC<RenderControlsProps> = ({
   const [isSaveDialogOpen, setIsSaveDialogOpen] = React.useState(false);
   // Track load dialog state
   const [isLoadDialogOpen, setIsLoadDialogOpen] = React.useState(false);
+  // Track save template dialog state
+  const [isSaveTemplateDialogOpen, setIsSaveTemplateDialogOpen] = React.useState(false);
   // Track save render dialog state
   const [isSaveRenderDialogOpen, setIsSaveRenderDialogOpen] = React.useState(false);
   // Track selected video URL for saving
   const [selectedVideoUrl, setSelectedVideoUrl] = React.useState<string>("");
   // Track subscription modal state
   const [showSubscriptionModal, setShowSubscriptionModal] = React.useState(false);
+  // Track export format dialog state
+  const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
+  // Track data merge dialog state
+  const [isDataMergeDialogOpen, setIsDataMergeDialogOpen] = React.useState(false);
+  // Track still frame render state
+  const [isRenderingStill, setIsRenderingStill] = React.useState(false);
 
   // Check if rendering is disabled via environment variable
   const isRenderDisabled = process.env.NEXT_PUBLIC_DISABLE_RENDER === "true";
 
-  const handleExport = (resolution: '720p' | '1080p' | '4k') => {
+  const handleExport = (resolution: ExportResolution, exportSettings?: ExportSettings) => {
     // Use the ACTUAL render dimensions (after free-tier downscale) so the
     // scale factor produces clean integer output dimensions. Using the raw
     // aspect-ratio dimensions here would double-scale and yield fractional
@@ -121,11 +173,43 @@ const RenderControls: React.FC<RenderControlsProps> = ({
     // 720p = 1280, 1080p = 1920, 4K = 3840
     const targetLongSide = resolution === '4k' ? 3840 : resolution === '1080p' ? 1920 : 1280;
 
+    // Offline overlays are left out of the render; say so before it starts
+    const missingMedia = getMissingMedia(overlays, offlineSources);
+    if (missingMedia.length > 0) {
+      toast({
+        title: t("toast.offlineMedia.title"),
+        description: t("toast.offlineMedia.leftOut", {
+          count: missingMedia.reduce((total, media) => total + media.count, 0),
+        }),
+        variant: "destructive",
+        action: (
+          <ToastAction
+            altText={t("relink.action")}
+            onClick={() => setRelinkSource(missingMedia[0].src)}
+          >
+            {t("relink.action")}
+          </ToastAction>
+        ),
+      });
+    }
+
+    if (hasVariants) {
+      // Each variant has its own canvas, so each gets its own scale factor
+      renderQueue(getVariantRenderJobs(selectedVariantIds), (job) => ({
+        scale: targetLongSide / Math.max(job.inputProps.width, job.inputProps.height),
+        exportSettings,
+      }));
+      if ((subscriptionPlan || 'free').toLowerCase() === 'free') {
+        notifyFreeRender();
+      }
+      return;
+    }
+
     const currentLongSide = Math.max(renderW, renderH);
     const renderScale = targetLongSide / currentLongSide;
 
     // Call render with scale factor — Remotion handles the uniform upscaling
-    (handleRender as any)({ scale: renderScale });
+    (handleRender as any)({ scale: renderScale, exportSettings });
 
     // Notify backend if subscription is free
     if ((subscriptionPlan || 'free').toLowerCase() === 'free') {
@@ -133,6 +217,42 @@ const RenderControls: React.FC<RenderControlsProps> = ({
     }
   };
 
+  /**
+   * Renders the frame under the playhead at full composition resolution and
+   * downloads it
+   */
+  const handleSaveFrame = async (imageFormat: "png" | "jpeg") => {
+    const { width: compositionW } = getAspectRatioDimensions();
+    const { width: renderW } = getRenderDimensions();
+    const frame = currentFrame;
+
+    setIsRenderingStill(true);
+    try {
+      const image = await renderStill(frame, imageFormat, compositionW / renderW);
+      const url = URL.createObjectURL(image);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `frame-${frame}.${imageFormat === "jpeg" ? "jpg" : "png"}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error rendering still frame:", error);
+      toast({
+        title: t("header.saveFrameFailed"),
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRenderingStill(false);
+    }
+  };
+
+  const handleCaptionExport = (format: CaptionExportFormat) => {
+    downloadCaptions(timelineCaptions, format);
+  };
+
   /**
    * Sends a POST to editor/free-render-sum to track free user renders
    */
@@ -189,6 +309,7 @@ const RenderControls: React.FC<RenderControlsProps> = ({
           timestamp: new Date(),
           id: crypto.randomUUID(),
           status: "success",
+          label: state.label,
         },
         ...prev,
       ]);
@@ -201,12 +322,13 @@ const RenderControls: React.FC<RenderControlsProps> = ({
           status: "error",
           error:
             state.error?.message || t("header.renderFailedDefault"),
+          label: state.label,
         },
         ...prev,
       ]);
       setHasNewRender(true);
     }
-  }, [state.status, state.url, state.error]);
+  }, [state.status, state.url, state.error, state.label]);
 
   const handleDownload = (url: string) => {
     let downloadUrl = url;
@@ -264,6 +386,12 @@ const RenderControls: React.FC<RenderControlsProps> = ({
         />
       )}
 
+      {/* Save Template Dialog */}
+      <SaveTemplateDialog
+        open={isSaveTemplateDialogOpen}
+        onOpenChange={setIsSaveTemplateDialogOpen}
+      />
+
       {/* Save Render Dialog */}
       <SaveRenderDialog
         open={isSaveRenderDialogOpen}
@@ -277,6 +405,23 @@ const RenderControls: React.FC<RenderControlsProps> = ({
         onOpenChange={setShowSubscriptionModal} 
       />
 
+      {/* Data merge batch render dialog */}
+      <DataMergeDialog
+        open={isDataMergeDialogOpen}
+        onOpenChange={setIsDataMergeDialogOpen}
+      />
+
+      {/* Export format dialog */}
+      <ExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        onExport={handleExport}
+        can1080p={can1080p}
+        can4k={can4k}
+        canExportRange={isPro}
+        onUpgrade={() => setShowSubscriptionModal(true)}
+      />
+
       <Button
         variant="ghost"
         size="sm"
@@ -298,6 +443,17 @@ const RenderControls: React.FC<RenderControlsProps> = ({
       >
         <Save className="w-3.5 h-3.5" />&nbsp;{t("header.save")}
       </Button>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="relative hover:bg-accent hidden md:inline-flex"
+        onClick={() => setIsSaveTemplateDialogOpen(true)}
+        disabled={isTimelineEmpty}
+        title={isTimelineEmpty ? t("header.timelineEmptyTitle") : t("templates.saveTitle")}
+      >
+        <LayoutTemplate className="w-3.5 h-3.5" />
+      </Button>
       <Popover onOpenChange={() => setHasNewRender(false)}>
         <PopoverTrigger asChild>
           <Button
@@ -337,6 +493,7 @@ const RenderControls: React.FC<RenderControlsProps> = ({
                       )}
                     </div>
                     <div className="text-[11px] text-muted-foreground">
+                      {render.label && `${render.label} · `}
                       {formatDistanceToNow(render.timestamp, {
                         addSuffix: true,
                       })}
@@ -381,16 +538,41 @@ const RenderControls: React.FC<RenderControlsProps> = ({
 
       {/* New Export Button with Dropdown */}
       {state.status === "invoking" || state.status === "rendering" ? (
-        <Button disabled variant="secondary" size="sm">
-          <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
-          {renderType === "cloudrun" ? (
-            state.status === "invoking" ? t("header.starting") : t("header.rendering")
-          ) : (
-            `${t("header.renderingProgress")} ${
-              state.progress > 0 ? `(${Math.round(state.progress * 100)}%)` : ""
-            }`
+        <div className="flex items-center gap-1">
+          <Button disabled variant="secondary" size="sm">
+            <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+            {state.batch && (
+              <span className="mr-1">
+                {t("header.renderBatch", {
+                  index: state.batch.index,
+                  total: state.batch.total,
+                  label: state.label,
+                })}
+              </span>
+            )}
+            {state.queuePosition ? (
+              t("header.renderQueued", { position: state.queuePosition })
+            ) : renderType === "cloudrun" ? (
+              state.status === "invoking" ? t("header.starting") : t("header.rendering")
+            ) : (
+              `${t("header.renderingProgress")} ${
+                state.progress > 0 ? `(${Math.round(state.progress * 100)}%)` : ""
+              }`
+            )}
+          </Button>
+          {state.status === "rendering" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={cancelRender}
+              title={t("header.cancelRender")}
+              aria-label={t("header.cancelRender")}
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
           )}
-        </Button>
+        </div>
       ) : (
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -406,11 +588,32 @@ const RenderControls: React.FC<RenderControlsProps> = ({
               </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="w-[220px]">
+             {/* Variants to export, each rendered at the resolution picked below */}
+             {hasVariants && (
+               <>
+                 <DropdownMenuLabel>{t("variants.export")}</DropdownMenuLabel>
+                 {variants.variants.map((variant) => {
+                   const ratio = variant.id === variants.activeId ? aspectRatio : variant.aspectRatio;
+                   return (
+                     <DropdownMenuCheckboxItem
+                       key={variant.id}
+                       checked={selectedVariantIds.includes(variant.id)}
+                       onCheckedChange={(checked) => toggleVariant(variant.id, checked)}
+                       onSelect={(e) => e.preventDefault()}
+                       className="cursor-pointer"
+                     >
+                       {ratio}
+                     </DropdownMenuCheckboxItem>
+                   );
+                 })}
+                 <DropdownMenuSeparator />
+               </>
+             )}
              <DropdownMenuLabel>{t("header.selectResolution")}</DropdownMenuLabel>
              <DropdownMenuSeparator />
 
              {/* 720p - Always Available */}
-             <DropdownMenuItem onClick={() => handleExport('720p')} className="cursor-pointer">
+             <DropdownMenuItem onClick={() => handleExport('720p')} disabled={noVariantSelected} className="cursor-pointer">
                  <div className="flex flex-col">
                    <span className="font-medium">{t("header.standard720p")}</span>
                    <span className="text-xs text-muted-foreground">{t("header.basicQuality")}</span>
@@ -420,6 +623,7 @@ const RenderControls: React.FC<RenderControlsProps> = ({
              {/* 1080p - Pro+ */}
              <DropdownMenuItem
                onClick={() => can1080p ? handleExport('1080p') : setShowSubscriptionModal(true)}
+               disabled={noVariantSelected}
                className={`cursor-pointer ${!can1080p ? "bg-gray-50 dark:bg-gray-900" : ""}`}
              >
                  <div className="flex items-center justify-between w-full">
@@ -434,6 +638,7 @@ const RenderControls: React.FC<RenderControlsProps> = ({
              {/* 4K - Elite Only */}
              <DropdownMenuItem
                onClick={() => can4k ? handleExport('4k') : setShowSubscriptionModal(true)}
+               disabled={noVariantSelected}
                className={`cursor-pointer ${!can4k ? "bg-gray-50 dark:bg-gray-900" : ""}`}
              >
                  <div className="flex items-center justify-between w-full">
@@ -445,6 +650,63 @@ const RenderControls: React.FC<RenderControlsProps> = ({
                  </div>
              </DropdownMenuItem>
 
+             <DropdownMenuSeparator />
+             <DropdownMenuItem onClick={() => setIsExportDialogOpen(true)} disabled={noVariantSelected} className="cursor-pointer">
+               <SlidersHorizontal className="w-4 h-4 mr-2" />
+               {t("header.moreFormats")}
+             </DropdownMenuItem>
+
+             {/* Batches of personalised videos - Pro+ */}
+             <DropdownMenuItem
+               onClick={() => isPro ? setIsDataMergeDialogOpen(true) : setShowSubscriptionModal(true)}
+               className={`cursor-pointer ${!isPro ? "bg-gray-50 dark:bg-gray-900" : ""}`}
+             >
+               <FileSpreadsheet className="w-4 h-4 mr-2" />
+               {t("dataMerge.menuItem")}
+               {!isPro && <Crown className="w-4 h-4 text-yellow-500 ml-auto" />}
+             </DropdownMenuItem>
+
+             {/* Still frames are rendered by the SSR server */}
+             {renderType === "ssr" && (
+               <>
+                 <DropdownMenuSeparator />
+                 <DropdownMenuLabel>{t("header.stillFrame")}</DropdownMenuLabel>
+                 {(["png", "jpeg"] as const).map((imageFormat) => (
+                   <DropdownMenuItem
+                     key={imageFormat}
+                     onClick={() => handleSaveFrame(imageFormat)}
+                     disabled={isRenderingStill}
+                     className="cursor-pointer"
+                   >
+                     {isRenderingStill ? (
+                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                     ) : (
+                       <ImageIcon className="w-4 h-4 mr-2" />
+                     )}
+                     {t(imageFormat === "png" ? "header.saveFramePng" : "header.saveFrameJpeg")}
+                   </DropdownMenuItem>
+                 ))}
+               </>
+             )}
+
+             {/* Caption sidecar files - only when the timeline has captions */}
+             {timelineCaptions.length > 0 && (
+               <>
+                 <DropdownMenuSeparator />
+                 <DropdownMenuLabel>{t("header.captionFiles")}</DropdownMenuLabel>
+                 {CAPTION_EXPORT_FORMATS.map((format) => (
+                   <DropdownMenuItem
+                     key={format}
+                     onClick={() => handleCaptionExport(format)}
+                     className="cursor-pointer"
+                   >
+                     <Captions className="w-4 h-4 mr-2" />
+                     {t(`captionSettings.export.${format}`)}
+                   </DropdownMenuItem>
+                 ))}
+               </>
+             )}
+
           </DropdownMenuContent>
         </DropdownMenu>
       )}
@@ -494,6 +756,15 @@ const RenderControls: React.FC<RenderControlsProps> = ({
             {t("header.save")}
           </DropdownMenuItem>
 
+          <DropdownMenuItem
+            onClick={() => setIsSaveTemplateDialogOpen(true)}
+            disabled={isTimelineEmpty}
+            className="cursor-pointer"
+          >
+            <LayoutTemplate className="w-4 h-4 mr-2" />
+            {t("templates.saveTitle")}
+          </DropdownMenuItem>
+
           <DropdownMenuSeparator />
           <DropdownMenuLabel className="flex items-center gap-2">
             <Bell className="w-3.5 h-3.5" />
@@ -533,6 +804,7 @@ const RenderControls: React.FC<RenderControlsProps> = ({
                       )}
                     </div>
                     <div className="text-[11px] text-muted-foreground">
+                      {render.label && `${render.label} · `}
                       {formatDistanceToNow(render.timestamp, {
                         addSuffix: true,
                       })}
@@ -14,14 +14,20 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import Cookies from "js-cookie";
 import { useTranslation } from "@/lib/i18n";
+import { ProjectVariants, TimelineTrack } from "../../types";
 
 interface SaveEditDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   editionData: {
+    schemaVersion?: number;
     id: string;
     inputProps: any;
     aspectRatio?: string;
+    fps?: number;
+    resolution?: { width: number; height: number } | null;
+    variants?: ProjectVariants | null;
+    tracks?: TimelineTrack[];
     editId?: string | null;
     editName?: string | null;
   };
@@ -68,9 +74,14 @@ export const SaveEditDialog: React.FC<SaveEditDialogProps> = ({
       const requestBody: any = {
         name: name.trim(),
         edition_array: JSON.stringify({
+          schemaVersion: editionData.schemaVersion,
           id: editionData.id,
           inputProps: editionData.inputProps,
           aspectRatio: editionData.aspectRatio,
+          fps: editionData.fps,
+          resolution: editionData.resolution,
+          variants: editionData.variants,
+          tracks: editionData.tracks,
         }),
       };
 
@@ -1,8 +1,19 @@
-import React, { useCallback, useMemo } from "react";
-import { useCurrentScale, useVideoConfig } from "remotion";
+import React, { useCallback, useMemo, useRef } from "react";
+import { useCurrentFrame, useCurrentScale, useVideoConfig } from "remotion";
 import { ResizeHandle } from "./resize-handle";
 import { Overlay, OverlayType } from "../../types";
+import {
+  commitAnimatedChange,
+  resolveAnimatedOverlay,
+} from "../../utils/animation-keyframes";
+import { CanvasRect, mapRect } from "../../utils/overlay-selection";
 import { RotateHandle } from "./rotate-handle";
+import { getLinkedMediaType } from "../../utils/media-relink";
+import {
+  getDraggedMediaType,
+  MediaChoice,
+  readDraggedMedia,
+} from "../../utils/media-replace";
 
 const SNAP_THRESHOLD = 5;
 
@@ -92,6 +103,19 @@ function snapPosition(
   return { left: Math.round(snappedLeft), top: Math.round(snappedTop) };
 }
 
+/** Geometry of the selection captured when a drag or resize starts */
+type GroupGestureSnapshot = {
+  primary: CanvasRect;
+  others: { id: number; from: number; rect: CanvasRect }[];
+};
+
+const toRect = ({ left, top, width, height }: Overlay): CanvasRect => ({
+  left,
+  top,
+  width,
+  height,
+});
+
 /**
  * SelectionOutline is a component that renders a draggable, resizable outline around selected overlays.
  * It provides visual feedback and interaction handles for manipulating overlay elements.
@@ -102,7 +126,11 @@ function snapPosition(
  * @param {Function} props.changeOverlay - Callback to update overlay properties
  * @param {Function} props.setSelectedOverlayId - Function to update the currently selected overlay
  * @param {number|null} props.selectedOverlayId - ID of the currently selected overlay
+ * @param {number[]} props.selectedOverlayIds - IDs of every selected overlay
+ * @param {Function} props.selectOverlays - Replaces the selection with several overlays
+ * @param {Function} props.toggleOverlaySelection - Adds or removes an overlay from the selection
  * @param {boolean} props.isDragging - Whether the overlay is currently being dragged
+ * @param {Function} props.replaceMedia - Swaps the file of the overlay for media dropped on it
  */
 export const SelectionOutline: React.FC<{
   overlay: Overlay;
@@ -112,16 +140,98 @@ export const SelectionOutline: React.FC<{
   ) => void;
   setSelectedOverlayId: React.Dispatch<React.SetStateAction<number | null>>;
   selectedOverlayId: number | null;
+  selectedOverlayIds?: number[];
+  selectOverlays?: (ids: number[], primaryId?: number | null) => void;
+  toggleOverlaySelection?: (id: number) => void;
   isDragging: boolean;
   allOverlays: Overlay[];
+  replaceMedia?: (overlayId: number, media: MediaChoice, keepDuration?: boolean) => void;
 }> = ({
-  overlay,
-  changeOverlay,
+  overlay: staticOverlay,
+  changeOverlay: changeStaticOverlay,
   setSelectedOverlayId,
   selectedOverlayId,
+  selectedOverlayIds = [],
+  selectOverlays,
+  toggleOverlaySelection,
   isDragging,
   allOverlays,
+  replaceMedia,
 }) => {
+  const frame = useCurrentFrame();
+
+  // Outline and handles work on the geometry at the current frame. Edits to
+  // animated properties become keyframes instead of changing the base values.
+  const overlay = useMemo(
+    () => resolveAnimatedOverlay(staticOverlay, frame),
+    [staticOverlay, frame]
+  );
+  const groupGesture = useRef<GroupGestureSnapshot | null>(null);
+  const isInSelection = selectedOverlayIds.includes(staticOverlay.id);
+
+  // Drag handlers keep the callback from the pointerdown that started them,
+  // which can run before the selection it makes has rendered
+  const latest = useRef({ selectedOverlayIds, allOverlays });
+  latest.current = { selectedOverlayIds, allOverlays };
+
+  // With several overlays selected, the other ones follow every move and
+  // resize of this one, scaled around the geometry the selection had when
+  // the gesture started. Rotation stays individual.
+  const changeOverlay = useCallback(
+    (overlayId: number, updater: (overlay: Overlay) => Overlay) => {
+      const { selectedOverlayIds: selection, allOverlays: current } =
+        latest.current;
+      const primary = current.find((o) => o.id === overlayId);
+      const others =
+        primary && selection.includes(overlayId)
+          ? current.filter(
+              (o) =>
+                o.id !== overlayId &&
+                selection.includes(o.id) &&
+                o.type !== OverlayType.SOUND
+            )
+          : [];
+
+      changeStaticOverlay(overlayId, (o) =>
+        commitAnimatedChange(o, frame, updater(resolveAnimatedOverlay(o, frame)))
+      );
+      if (!primary || others.length === 0) {
+        groupGesture.current = null;
+        return;
+      }
+
+      const absoluteFrame = primary.from + frame;
+      if (!groupGesture.current) {
+        groupGesture.current = {
+          primary: toRect(resolveAnimatedOverlay(primary, frame)),
+          others: others.map((o) => ({
+            id: o.id,
+            from: o.from,
+            rect: toRect(resolveAnimatedOverlay(o, absoluteFrame - o.from)),
+          })),
+        };
+      }
+      const snapshot = groupGesture.current;
+      const next = updater(resolveAnimatedOverlay(primary, frame));
+
+      snapshot.others.forEach(({ id, from, rect }) => {
+        const relativeFrame = absoluteFrame - from;
+        changeStaticOverlay(id, (o) =>
+          commitAnimatedChange(o, relativeFrame, {
+            ...resolveAnimatedOverlay(o, relativeFrame),
+            ...mapRect(rect, snapshot.primary, toRect(next)),
+            isDragging: next.isDragging,
+          })
+        );
+      });
+
+      if (!next.isDragging) {
+        groupGesture.current = null;
+      }
+    },
+    [changeStaticOverlay, frame]
+  );
+
   const scale = useCurrentScale();
   const { width: canvasW, height: canvasH } = useVideoConfig();
   const scaledBorder = Math.ceil(1 / scale);
@@ -137,6 +247,35 @@ export const SelectionOutline: React.FC<{
   }, []);
 
   const isSelected = overlay.id === selectedOverlayId;
+  const isHighlighted = isSelected || isInSelection;
+
+  // Media of the overlay's kind dragged from a panel replaces its file
+  const [isDropTarget, setIsDropTarget] = React.useState(false);
+
+  const onDragOver = useCallback(
+    (e: React.DragEvent) => {
+      const draggedType = getDraggedMediaType(Array.from(e.dataTransfer.types));
+      if (!replaceMedia || !draggedType || draggedType !== getLinkedMediaType(staticOverlay)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = "copy";
+      setIsDropTarget(true);
+    },
+    [replaceMedia, staticOverlay]
+  );
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      setIsDropTarget(false);
+      const media = readDraggedMedia(e.dataTransfer);
+      if (!replaceMedia || !media) return;
+      e.preventDefault();
+      e.stopPropagation();
+      // Holding alt keeps the current length
+      replaceMedia(staticOverlay.id, media, e.altKey);
+    },
+    [replaceMedia, staticOverlay.id]
+  );
 
   const style: React.CSSProperties = useMemo(() => {
     // Selection outlines should match layer stacking
@@ -154,8 +293,9 @@ export const SelectionOutline: React.FC<{
       left: overlay.left,
       top: overlay.top,
       position: "absolute",
-      outline:
-        (hovered && !isDragging) || isSelected
+      outline: isDropTarget
+        ? `${scaledBorder * 3}px dashed #22C55E`
+        : (hovered && !isDragging) || isHighlighted
           ? `${scaledBorder}px solid #3B8BF2`
           : undefined,
       transform: `rotate(${overlay.rotation || 0}deg)`,
@@ -167,7 +307,7 @@ export const SelectionOutline: React.FC<{
       // hovered || isDragging ? "all" : isSelected ? "none" : "all",
       cursor: "pointer",
     };
-  }, [overlay, hovered, isDragging, isSelected, scaledBorder]);
+  }, [overlay, hovered, isDragging, isSelected, isHighlighted, scaledBorder, isDropTarget]);
 
   const startDragging = useCallback(
     (e: PointerEvent | React.MouseEvent) => {
@@ -180,7 +320,9 @@ export const SelectionOutline: React.FC<{
         const rawLeft = overlay.left + offsetX;
         const rawTop = overlay.top + offsetY;
 
-        const others = allOverlays.filter((o) => o.id !== overlay.id);
+        const others = allOverlays.filter(
+          (o) => o.id !== overlay.id && !selectedOverlayIds.includes(o.id)
+        );
         const snapped = snapPosition(
           rawLeft,
           rawTop,
@@ -217,7 +359,7 @@ export const SelectionOutline: React.FC<{
         once: true,
       });
     },
-    [overlay, scale, changeOverlay, allOverlays, canvasW, canvasH]
+    [overlay, scale, changeOverlay, allOverlays, selectedOverlayIds, canvasW, canvasH]
   );
 
   const onPointerDown = useCallback(
@@ -227,10 +369,27 @@ export const SelectionOutline: React.FC<{
         return;
       }
 
-      setSelectedOverlayId(overlay.id);
+      if ((e.shiftKey || e.metaKey || e.ctrlKey) && toggleOverlaySelection) {
+        toggleOverlaySelection(overlay.id);
+        return;
+      }
+
+      if (isInSelection && selectedOverlayIds.length > 1 && selectOverlays) {
+        selectOverlays(selectedOverlayIds, overlay.id);
+      } else {
+        setSelectedOverlayId(overlay.id);
+      }
       startDragging(e);
     },
-    [overlay.id, setSelectedOverlayId, startDragging]
+    [
+      overlay.id,
+      isInSelection,
+      selectedOverlayIds,
+      selectOverlays,
+      toggleOverlaySelection,
+      setSelectedOverlayId,
+      startDragging,
+    ]
   );
 
   if (overlay.type === OverlayType.SOUND) {
@@ -243,6 +402,9 @@ export const SelectionOutline: React.FC<{
         onPointerDown={onPointerDown}
         onPointerEnter={onMouseEnter}
         onPointerLeave={onMouseLeave}
+        onDragOver={onDragOver}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={onDrop}
         style={style}
       >
         {isSelected ? (
@@ -0,0 +1,159 @@
+import React from "react";
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  Copy,
+  Group,
+  Trash2,
+  Ungroup,
+  LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { OverlayAlignment } from "../../types";
+import { OVERLAY_ALIGNMENTS } from "../../utils/overlay-selection";
+
+const ALIGNMENT_ICONS: Record<OverlayAlignment, LucideIcon> = {
+  left: AlignStartVertical,
+  center: AlignCenterVertical,
+  right: AlignEndVertical,
+  top: AlignStartHorizontal,
+  middle: AlignCenterHorizontal,
+  bottom: AlignEndHorizontal,
+};
+
+const buttonClassName =
+  "h-7 w-7 text-gray-700 dark:text-zinc-200 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100/80 dark:hover:bg-gray-800/80";
+
+const ToolbarButton: React.FC<{
+  label: string;
+  shortcut?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ label, shortcut, onClick, children }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <Button
+        onClick={onClick}
+        size="icon"
+        variant="ghost"
+        className={buttonClassName}
+      >
+        {children}
+      </Button>
+    </TooltipTrigger>
+    <TooltipContent
+      side="bottom"
+      sideOffset={5}
+      className="bg-white dark:bg-darkBox text-xs px-2 py-1 rounded-md z-[9999] border border-gray-200 dark:border-gray-700"
+    >
+      <div className="flex items-center gap-1">
+        <span className="text-gray-700 dark:text-zinc-200">{label}</span>
+        {shortcut && (
+          <kbd className="px-1 py-0.5 text-[10px] font-mono bg-gray-800 dark:bg-darkBoxSub  text-white rounded-md border border-gray-700">
+            {shortcut}
+          </kbd>
+        )}
+      </div>
+    </TooltipContent>
+  </Tooltip>
+);
+
+/**
+ * Floating toolbar shown over the canvas while several overlays are
+ * selected. Aligns, groups, duplicates or deletes the whole selection.
+ */
+export const SelectionToolbar: React.FC = () => {
+  const { t } = useTranslation();
+  const {
+    overlays,
+    selectedOverlayIds,
+    currentFrame,
+    getAspectRatioDimensions,
+    alignOverlays,
+    groupOverlays,
+    ungroupOverlays,
+    duplicateOverlays,
+    deleteOverlays,
+  } = useEditorContext();
+
+  const selected = overlays.filter((overlay) =>
+    selectedOverlayIds.includes(overlay.id)
+  );
+  const groupId = selected[0]?.groupId;
+  const isSingleGroup =
+    !!groupId && selected.every((overlay) => overlay.groupId === groupId);
+
+  return (
+    <div className="flex items-center gap-1 rounded-md border border-gray-200 dark:border-gray-700 bg-white/95 dark:bg-darkBox px-2 py-1 shadow-lg backdrop-blur-sm">
+      <span className="px-1 text-xs text-gray-600 dark:text-zinc-400">
+        {t("selection.count", { count: selected.length })}
+      </span>
+      <div className="mx-1 h-4 w-px bg-gray-200 dark:bg-gray-700" />
+      <TooltipProvider delayDuration={50}>
+        {OVERLAY_ALIGNMENTS.map((alignment) => {
+          const Icon = ALIGNMENT_ICONS[alignment];
+          return (
+            <ToolbarButton
+              key={alignment}
+              label={t(`selection.align.${alignment}`)}
+              onClick={() =>
+                alignOverlays(
+                  selectedOverlayIds,
+                  alignment,
+                  getAspectRatioDimensions(),
+                  currentFrame
+                )
+              }
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </ToolbarButton>
+          );
+        })}
+        <div className="mx-1 h-4 w-px bg-gray-200 dark:bg-gray-700" />
+        {isSingleGroup ? (
+          <ToolbarButton
+            label={t("selection.ungroup")}
+            shortcut="⌘⇧G"
+            onClick={() => ungroupOverlays(selectedOverlayIds)}
+          >
+            <Ungroup className="h-3.5 w-3.5" />
+          </ToolbarButton>
+        ) : (
+          <ToolbarButton
+            label={t("selection.group")}
+            shortcut="⌘G"
+            onClick={() => groupOverlays(selectedOverlayIds)}
+          >
+            <Group className="h-3.5 w-3.5" />
+          </ToolbarButton>
+        )}
+        <ToolbarButton
+          label={t("selection.duplicate")}
+          shortcut="⌘D"
+          onClick={() => duplicateOverlays(selectedOverlayIds)}
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </ToolbarButton>
+        <ToolbarButton
+          label={t("selection.delete")}
+          shortcut="⌫"
+          onClick={() => deleteOverlays(selectedOverlayIds)}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </ToolbarButton>
+      </TooltipProvider>
+    </div>
+  );
+};
@@ -1,7 +1,20 @@
 import React from "react";
-import { Sequence } from "remotion";
+import {
+  AbsoluteFill,
+  Sequence,
+  useCurrentFrame,
+  useCurrentScale,
+} from "remotion";
 import { SelectionOutline } from "./selected-outline";
 import { Overlay } from "../../types";
+import { MediaChoice } from "../../utils/media-replace";
+import {
+  CanvasRect,
+  getOverlaysInRect,
+} from "../../utils/overlay-selection";
+
+/** Pointer travel (in screen pixels) below which a press counts as a click */
+const MARQUEE_CLICK_TOLERANCE = 3;
 
 /**
  * Sorts overlays by their row number to maintain proper stacking order
@@ -17,21 +30,53 @@ const sortOverlaysByRow = (overlays: Overlay[]): Overlay[] => {
  * Maintains natural stacking order based on row numbers
  * Each outline is wrapped in a Remotion Sequence component for timeline positioning
  *
+ * Pressing on an empty part of the canvas clears the selection; dragging
+ * there draws a marquee that selects every overlay it touches at the current
+ * frame. Holding shift or cmd/ctrl adds to the selection instead.
+ *
  * @param props
  * @param props.overlays - Array of overlay objects to render
  * @param props.selectedOverlayId - ID of currently selected overlay
+ * @param props.selectedOverlayIds - IDs of all selected overlays
  * @param props.changeOverlay - Callback to modify an overlay's properties
  * @param props.setSelectedOverlayId - State setter for selected overlay ID
+ * @param props.selectOverlays - Replaces the selection with several overlays
+ * @param props.toggleOverlaySelection - Adds or removes an overlay from the selection
+ * @param props.replaceMedia - Swaps the file of an overlay for media dropped on it
  */
 export const SortedOutlines: React.FC<{
   overlays: Overlay[];
   selectedOverlayId: number | null;
+  selectedOverlayIds?: number[];
   changeOverlay: (
     overlayId: number,
     updater: (overlay: Overlay) => Overlay
   ) => void;
   setSelectedOverlayId: React.Dispatch<React.SetStateAction<number | null>>;
-}> = ({ overlays, selectedOverlayId, changeOverlay, setSelectedOverlayId }) => {
+  selectOverlays?: (ids: number[], primaryId?: number | null) => void;
+  toggleOverlaySelection?: (id: number) => void;
+  replaceMedia?: (overlayId: number, media: MediaChoice, keepDuration?: boolean) => void;
+}> = ({
+  overlays,
+  selectedOverlayId,
+  selectedOverlayIds,
+  changeOverlay,
+  setSelectedOverlayId,
+  selectOverlays,
+  toggleOverlaySelection,
+  replaceMedia,
+}) => {
+  const frame = useCurrentFrame();
+  const scale = useCurrentScale();
+  const [marquee, setMarquee] = React.useState<CanvasRect | null>(null);
+
+  const selectedIds = React.useMemo(
+    () =>
+      selectedOverlayIds ??
+      (selectedOverlayId !== null ? [selectedOverlayId] : []),
+    [selectedOverlayIds, selectedOverlayId]
+  );
+
   const overlaysToDisplay = React.useMemo(
     () => sortOverlaysByRow(overlays),
     [overlays]
@@ -42,23 +87,108 @@ export const SortedOutlines: React.FC<{
     [overlays]
   );
 
-  return overlaysToDisplay.map((overlay) => {
-    return (
-      <Sequence
-        key={overlay.id}
-        from={overlay.from}
-        durationInFrames={overlay.durationInFrames}
-        layout="none"
-      >
-        <SelectionOutline
-          changeOverlay={changeOverlay}
-          overlay={overlay}
-          setSelectedOverlayId={setSelectedOverlayId}
-          selectedOverlayId={selectedOverlayId}
-          isDragging={isDragging}
-          allOverlays={overlays}
-        />
-      </Sequence>
-    );
-  });
+  const onBackgroundPointerDown = React.useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.button !== 0) {
+        return;
+      }
+
+      const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+      const bounds = e.currentTarget.getBoundingClientRect();
+      const toCanvas = (clientX: number, clientY: number) => ({
+        x: (clientX - bounds.left) / scale,
+        y: (clientY - bounds.top) / scale,
+      });
+      const start = toCanvas(e.clientX, e.clientY);
+      const startClient = { x: e.clientX, y: e.clientY };
+
+      const rectTo = (clientX: number, clientY: number): CanvasRect => {
+        const end = toCanvas(clientX, clientY);
+        return {
+          left: Math.min(start.x, end.x),
+          top: Math.min(start.y, end.y),
+          width: Math.abs(end.x - start.x),
+          height: Math.abs(end.y - start.y),
+        };
+      };
+      const isClick = (clientX: number, clientY: number) =>
+        Math.abs(clientX - startClient.x) < MARQUEE_CLICK_TOLERANCE &&
+        Math.abs(clientY - startClient.y) < MARQUEE_CLICK_TOLERANCE;
+
+      const onPointerMove = (moveEvent: PointerEvent) => {
+        if (isClick(moveEvent.clientX, moveEvent.clientY)) return;
+        setMarquee(rectTo(moveEvent.clientX, moveEvent.clientY));
+      };
+
+      const onPointerUp = (upEvent: PointerEvent) => {
+        window.removeEventListener("pointermove", onPointerMove);
+        setMarquee(null);
+
+        if (isClick(upEvent.clientX, upEvent.clientY) || !selectOverlays) {
+          if (!additive) setSelectedOverlayId(null);
+          return;
+        }
+
+        const hits = getOverlaysInRect(
+          overlays,
+          rectTo(upEvent.clientX, upEvent.clientY),
+          frame
+        );
+        if (additive) {
+          selectOverlays(Array.from(new Set([...selectedIds, ...hits])));
+        } else {
+          selectOverlays(hits);
+        }
+      };
+
+      window.addEventListener("pointermove", onPointerMove, { passive: true });
+      window.addEventListener("pointerup", onPointerUp, { once: true });
+    },
+    [scale, overlays, frame, selectedIds, selectOverlays, setSelectedOverlayId]
+  );
+
+  return (
+    <>
+      <AbsoluteFill onPointerDown={onBackgroundPointerDown}>
+        {marquee && (
+          <div
+            style={{
+              position: "absolute",
+              left: marquee.left,
+              top: marquee.top,
+              width: marquee.width,
+              height: marquee.height,
+              border: `${Math.ceil(1 / scale)}px dashed #3B8BF2`,
+              backgroundColor: "rgba(59, 139, 242, 0.12)",
+              pointerEvents: "none",
+              zIndex: 3000,
+            }}
+          />
+        )}
+      </AbsoluteFill>
+      {overlaysToDisplay.map((overlay) => {
+        return (
+          <Sequence
+            key={overlay.id}
+            from={overlay.from}
+            durationInFrames={overlay.durationInFrames}
+            layout="none"
+          >
+            <SelectionOutline
+              changeOverlay={changeOverlay}
+              overlay={overlay}
+              setSelectedOverlayId={setSelectedOverlayId}
+              selectedOverlayId={selectedOverlayId}
+              selectedOverlayIds={selectedIds}
+              selectOverlays={selectOverlays}
+              toggleOverlaySelection={toggleOverlaySelection}
+              isDragging={isDragging}
+              allOverlays={overlays}
+              replaceMedia={replaceMedia}
+            />
+          </Sequence>
+        );
+      })}
+    </>
+  );
 };
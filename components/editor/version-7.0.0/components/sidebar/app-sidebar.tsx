@@ -16,6 +16,8 @@ import {
   ArrowDownLeft,
   ArrowLeft,
   Library,
+  Blend,
+  Shapes,
 } from "lucide-react";
 import Image from "next/image";
 import {
@@ -46,6 +48,8 @@ import { LibraryPanel } from "../overlays/library/library-panel";
 import { LocalMediaPanel } from "../overlays/local-media/local-media-panel";
 import { StickersPanel } from "../overlays/stickers/stickers-panel";
 import { TemplateOverlayPanel } from "../overlays/templates/template-overlay-panel";
+import { TransitionsPanel } from "../overlays/transitions/transitions-panel";
+import { ShapesPanel } from "../overlays/shapes/shapes-panel";
 import { useEditorContext } from "../../contexts/editor-context";
 import { Button } from "@/components/ui/button";
 import { useTranslation } from "@/lib/i18n";
@@ -103,6 +107,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         return t("sidebar.stickers");
       case OverlayType.TEMPLATE:
         return t("sidebar.template");
+      case OverlayType.TRANSITION:
+        return t("sidebar.transitions");
+      case OverlayType.SHAPE:
+        return t("sidebar.shapes");
       default:
         return t("sidebar.unknown");
     }
@@ -147,6 +155,20 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       type: OverlayType.IMAGE,
     },
     */
+    {
+      title: getPanelTitle(OverlayType.TRANSITION),
+      url: "#",
+      icon: Blend,
+      panel: OverlayType.TRANSITION,
+      type: OverlayType.TRANSITION,
+    },
+    {
+      title: getPanelTitle(OverlayType.SHAPE),
+      url: "#",
+      icon: Shapes,
+      panel: OverlayType.SHAPE,
+      type: OverlayType.SHAPE,
+    },
     {
       title: getPanelTitle(OverlayType.STICKER),
       url: "#",
@@ -202,6 +224,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         return <LocalMediaPanel />;
       case OverlayType.TEMPLATE:
         return <TemplateOverlayPanel />;
+      case OverlayType.TRANSITION:
+        return <TransitionsPanel />;
+      case OverlayType.SHAPE:
+        return <ShapesPanel />;
       default:
         return null;
     }
@@ -1,4 +1,5 @@
 import { useTimeline } from "../../contexts/timeline-context";
+import { useEditorContext } from "../../contexts/editor-context";
 import { Caption } from "../../types";
 import { Type } from "lucide-react";
 
@@ -41,11 +42,12 @@ const TimelineCaptionBlocks: React.FC<TimelineCaptionBlocksProps> = ({
   totalDuration,
 }) => {
   const { zoomScale } = useTimeline();
+  const { fps } = useEditorContext();
 
   const relativeFrame = currentFrame - startFrame;
-  const currentMs = (relativeFrame / 30) * 1000; // Assuming 30fps
+  const currentMs = (relativeFrame / fps) * 1000;
 
-  const totalDurationSeconds = totalDuration / 30;
+  const totalDurationSeconds = totalDuration / fps;
   const shouldShowLabel = zoomScale <= 1 && totalDurationSeconds > 20;
 
   if (shouldShowLabel) {
@@ -90,7 +92,7 @@ const TimelineCaptionBlocks: React.FC<TimelineCaptionBlocksProps> = ({
       {captions?.map((caption, index) => {
         const captionWidth =
           ((caption.endMs - caption.startMs) /
-            ((durationInFrames / 30) * 1000)) *
+            ((durationInFrames / fps) * 1000)) *
           100;
 
         return (
@@ -100,7 +102,7 @@ const TimelineCaptionBlocks: React.FC<TimelineCaptionBlocksProps> = ({
             style={{
               width: `${captionWidth}%`,
               left: `${
-                (caption.startMs / ((durationInFrames / 30) * 1000)) * 100
+                (caption.startMs / ((durationInFrames / fps) * 1000)) * 100
               }%`,
               position: "absolute",
             }}
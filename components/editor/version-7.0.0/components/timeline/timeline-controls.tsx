@@ -15,6 +15,7 @@ import {
   SquareSquare,
   Scissors,
   SkipBack,
+  Film,
 } from "lucide-react";
 import { useEditorContext } from "../../contexts/editor-context";
 import { useTimeline } from "../../contexts/timeline-context";
@@ -41,9 +42,14 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useTimelineShortcuts } from "../../hooks/use-timeline-shortcuts";
+import { TimelineHistoryPanel } from "./timeline-history-panel";
+import { TimelineEditModeMenu } from "./timeline-edit-mode-menu";
+import { TimelineTrimTools } from "./timeline-trim-tools";
 import { useAssetLoading } from "../../contexts/asset-loading-context";
 import { useKeyframeContext } from "../../contexts/keyframe-context";
 import { Separator } from "@/components/ui/separator";
+import { ProjectSettingsDialog } from "../core/project-settings-dialog";
+import { formatFrameRate } from "../../utils/frame-rate";
 import { useTranslation } from "@/lib/i18n";
 
 // Types
@@ -98,8 +104,10 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
   // Context
   const {
     aspectRatio,
-    setAspectRatio,
-    deleteOverlaysByRow,
+    previewReframe,
+    addTrack,
+    removeTrack,
+    tracks,
     undo,
     redo,
     canUndo,
@@ -114,9 +122,12 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
     contentDurationInFrames, // Get content duration from context
     backgroundColor,
     setBackgroundColor,
+    fps,
+    customDimensions,
+    getAspectRatioDimensions,
   } = useEditorContext();
 
-  const { visibleRows, addRow, removeRow, zoomScale, setZoomScale } =
+  const { visibleRows, zoomScale, setZoomScale } =
     useTimeline();
 
   // Add this hook to enable shortcuts
@@ -166,8 +177,10 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
     togglePlayPause();
   };
 
+  // The new ratio is previewed with the overlays reframed before it applies
   const handleAspectRatioChange = (value: string) => {
-    setAspectRatio(value as AspectRatioOption);
+    previewReframe(value as AspectRatioOption);
+    setDropdownOpen(false);
   };
 
   const handleGoToStart = () => {
@@ -179,9 +192,8 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
   };
 
   const handleRemoveRow = () => {
-    // Delete overlays on the last row before removing it
-    deleteOverlaysByRow(visibleRows - 1);
-    removeRow();
+    // Removes the last track together with its overlays
+    removeTrack(visibleRows - 1);
   };
 
   const handleSliderChange = useCallback(
@@ -193,6 +205,8 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
 
   // Add state for dropdown
   const [dropdownOpen, setDropdownOpen] = React.useState(false);
+  const [projectSettingsOpen, setProjectSettingsOpen] = React.useState(false);
+  const projectDimensions = getAspectRatioDimensions();
 
   const handleReset = () => {
     resetOverlays();
@@ -308,6 +322,8 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
             </TooltipContent>
           </Tooltip>
 
+          <TimelineHistoryPanel />
+
           {/* Scissors Button */}
           <Tooltip>
             <TooltipTrigger asChild>
@@ -334,6 +350,9 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
           </Tooltip>
         </TooltipProvider>
 
+        <TimelineEditModeMenu />
+        <TimelineTrimTools />
+
         {/* Loading Indicator - Moved here and simplified */}
         {!SHOW_LOADING_PROJECT_ALERT && isLoadingAssets && (
           <div className="flex items-center gap-2 px-2 py-1 bg-blue-50/90 dark:bg-blue-900/20 rounded-md ml-2">
@@ -572,7 +591,9 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
               <div className="flex gap-1 pt-1">
                 <Button
                   onClick={handleRemoveRow}
-                  disabled={visibleRows <= INITIAL_ROWS}
+                  disabled={
+                    visibleRows <= INITIAL_ROWS || !!tracks[visibleRows - 1]?.locked
+                  }
                   size="sm"
                   variant="outline"
                   className="flex-1 h-8 bg-gray-100 dark:bg-darkBoxSub /50 border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700"
@@ -583,7 +604,7 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
                   {visibleRows}/{MAX_ROWS}
                 </span>
                 <Button
-                  onClick={addRow}
+                  onClick={addTrack}
                   disabled={visibleRows >= MAX_ROWS}
                   size="sm"
                   variant="outline"
@@ -602,6 +623,8 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
               </Label>
               <div className="grid grid-cols-2 gap-1 pt-1">
                 {["16:9", "9:16", "1:1", "4:5", "4:3", "2:1", "3:4"].map((ratio) => {
+                  // A custom resolution is not any of the presets
+                  const isActive = !customDimensions && aspectRatio === ratio;
                   return (
                     <Button
                       key={ratio}
@@ -609,9 +632,9 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
                         handleAspectRatioChange(ratio);
                       }}
                       size="sm"
-                      variant={aspectRatio === ratio ? "default" : "outline"}
+                      variant={isActive ? "default" : "outline"}
                       className={`h-8 transition-colors relative ${
-                        aspectRatio === ratio
+                        isActive
                           ? "bg-primarioLogo hover:bg-primarioLogo text-white border-0"
                           : "bg-gray-100 dark:bg-darkBox  border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-800 text-gray-700 dark:text-zinc-300"
                       }`}
@@ -625,6 +648,32 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
 
             <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
 
+            {/* Project Settings */}
+            <div className="px-2 py-2 space-y-1">
+              <Label className="text-xs text-gray-400 dark:text-zinc-500">
+                {t("projectSettings.title")}
+              </Label>
+              <Button
+                onClick={() => {
+                  setDropdownOpen(false);
+                  setProjectSettingsOpen(true);
+                }}
+                variant="outline"
+                size="sm"
+                className="w-full h-8 justify-between bg-gray-100 dark:bg-darkBox border-gray-200 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-800 text-gray-700 dark:text-zinc-300"
+              >
+                <span className="flex items-center gap-1.5">
+                  <Film className="h-3.5 w-3.5" />
+                  {t("projectSettings.fps", { fps: formatFrameRate(fps) })}
+                </span>
+                <span className="text-[11px] text-gray-400 dark:text-zinc-500">
+                  {projectDimensions.width}×{projectDimensions.height}
+                </span>
+              </Button>
+            </div>
+
+            <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+
             {/* Background Color */}
             <div className="px-2 py-2 space-y-2">
               <div className="flex items-center justify-between">
@@ -695,6 +744,11 @@ export const TimelineControls: React.FC<TimelineControlsProps> = ({
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      <ProjectSettingsDialog
+        open={projectSettingsOpen}
+        onOpenChange={setProjectSettingsOpen}
+      />
     </div>
   );
 };
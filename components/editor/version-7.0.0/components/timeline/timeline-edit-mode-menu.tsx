@@ -0,0 +1,97 @@
+import React from "react";
+import { Layers, Magnet, MoveHorizontal, Waves } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { DEFAULT_EDIT_MODE } from "../../constants";
+import { TimelineEditMode } from "../../types";
+
+const MODE_ICONS: Record<TimelineEditMode, React.ElementType> = {
+  push: MoveHorizontal,
+  overwrite: Layers,
+  ripple: Waves,
+  magnetic: Magnet,
+};
+
+/**
+ * Menu for the timeline editing mode: push, overwrite, ripple (insert) or a
+ * magnetic main track. Also sets whether ripple edits move every row and
+ * closes all gaps in the project.
+ */
+export const TimelineEditModeMenu: React.FC = () => {
+  const { t } = useTranslation();
+  const { editMode, setEditMode, rippleScope, setRippleScope, closeGaps } =
+    useEditorContext();
+
+  const ModeIcon = MODE_ICONS[editMode];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          title={t(`timeline.editMode.${editMode}`)}
+          className={`h-7 w-7 hover:bg-gray-100/80 dark:hover:bg-gray-800/80 ${
+            editMode === DEFAULT_EDIT_MODE
+              ? "text-gray-700 dark:text-zinc-200 hover:text-gray-900 dark:hover:text-white"
+              : "text-primarioLogo"
+          }`}
+        >
+          <ModeIcon className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        side="top"
+        align="start"
+        className="w-64 bg-white dark:bg-darkBox border border-gray-200 dark:border-gray-700"
+      >
+        <DropdownMenuLabel className="text-xs text-gray-900 dark:text-zinc-200">
+          {t("timeline.editMode.title")}
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={editMode}
+          onValueChange={(value) => setEditMode(value as TimelineEditMode)}
+        >
+          {(Object.keys(MODE_ICONS) as TimelineEditMode[]).map((mode) => {
+            const Icon = MODE_ICONS[mode];
+            return (
+              <DropdownMenuRadioItem key={mode} value={mode} className="text-xs">
+                <Icon className="h-3.5 w-3.5 mr-2 flex-shrink-0" />
+                <div>
+                  <div>{t(`timeline.editMode.${mode}`)}</div>
+                  <div className="text-[10px] text-gray-500 dark:text-zinc-400">
+                    {t(`timeline.editMode.${mode}Description`)}
+                  </div>
+                </div>
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator className="bg-gray-200 dark:bg-gray-700" />
+        <DropdownMenuCheckboxItem
+          className="text-xs"
+          checked={rippleScope === "all"}
+          disabled={editMode === "push" || editMode === "overwrite"}
+          onCheckedChange={(checked) => setRippleScope(checked ? "all" : "row")}
+        >
+          {t("timeline.editMode.rippleAllRows")}
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuItem className="text-xs" onClick={() => closeGaps("all")}>
+          {t("timeline.editMode.closeAllGaps")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
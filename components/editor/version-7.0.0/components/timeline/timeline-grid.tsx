@@ -4,12 +4,15 @@
  * Supports drag and drop, resizing, and various item management operations.
  */
 
-import React, { useMemo } from "react";
-import { ROW_HEIGHT } from "../../constants";
+import React, { useCallback, useMemo } from "react";
 import { useTimeline } from "../../contexts/timeline-context";
-import { Overlay } from "../../types";
+import { ClipTransition, Overlay, TimelineTrack } from "../../types";
 import GapIndicator from "./timeline-gap-indicator";
 import TimelineItem from "./timeline-item";
+import TimelineTransitionMarker from "./timeline-transition-marker";
+import { getClipBoundaries } from "../../utils/clip-transitions";
+import { getTrackHeights } from "../../utils/timeline-tracks";
+import { canDetachAudio } from "../../utils/timeline-edit-modes";
 import { SNAPPING_CONFIG } from "../../constants";
 
 /**
@@ -27,6 +30,22 @@ interface TimelineGridProps {
   selectedOverlayId: number | null;
   /** Callback to update the selected overlay ID */
   setSelectedOverlayId: (id: number | null) => void;
+  /** IDs of every selected overlay, including grouped ones */
+  selectedOverlayIds?: number[];
+  /** Replaces the selection with several overlays */
+  selectOverlays?: (ids: number[], primaryId?: number | null) => void;
+  /** Adds or removes an overlay from the selection */
+  onToggleSelection?: (id: number) => void;
+  /** Groups the current selection */
+  onGroupSelection?: () => void;
+  /** Removes an overlay from its group */
+  onUngroupItem?: (id: number) => void;
+  /** Links the selected captions and sounds to the selected clip, omitted when it cannot */
+  onLinkSelection?: () => void;
+  /** Unlinks an overlay, or the items linked to it */
+  onUnlinkItem?: (id: number) => void;
+  /** Moves a clip's audio into a linked sound overlay */
+  onDetachAudio?: (id: number) => void;
   /** Callback triggered when dragging starts */
   handleDragStart: (
     overlay: Overlay,
@@ -70,6 +89,15 @@ interface TimelineGridProps {
   onAssetLoadingChange?: (overlayId: number, isLoading: boolean) => void;
   /** Array of calculated frame positions for alignment lines */
   alignmentLines: number[];
+  /** Callback when an item is edited in place (e.g. its keyframes) */
+  onItemChange?: (updatedItem: Overlay) => void;
+  /** Tracks in row order; sets row heights and marks locked and hidden rows */
+  tracks?: TimelineTrack[];
+  /** Callback to set or remove the transition on the cut after a clip */
+  onTransitionChange?: (
+    outgoingId: number,
+    transition: ClipTransition | undefined
+  ) => void;
 }
 
 /**
@@ -81,6 +109,14 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
   draggedItem,
   selectedOverlayId,
   setSelectedOverlayId,
+  selectedOverlayIds = [],
+  selectOverlays,
+  onToggleSelection,
+  onGroupSelection,
+  onUngroupItem,
+  onLinkSelection,
+  onUnlinkItem,
+  onDetachAudio,
   handleDragStart,
   totalDuration,
   ghostElement,
@@ -97,8 +133,15 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
   dragOverRowIndex,
   onAssetLoadingChange,
   alignmentLines,
+  onItemChange,
+  onTransitionChange,
+  tracks = [],
 }) => {
   const { visibleRows } = useTimeline();
+  const rowHeights = getTrackHeights(tracks, visibleRows);
+
+  // Cuts between adjacent clips, where transitions can be placed
+  const boundaries = useMemo(() => getClipBoundaries(overlays), [overlays]);
 
   // Create a memoized selectedItem object
   const selectedItem = useMemo(
@@ -106,6 +149,32 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
     [selectedOverlayId]
   );
 
+  const isMultiSelection = selectedOverlayIds.length > 1;
+
+  // Clips that captions or sounds are linked to
+  const linkedClipIds = useMemo(
+    () =>
+      new Set(
+        overlays.flatMap((overlay) =>
+          overlay.linkedTo === undefined ? [] : [overlay.linkedTo]
+        )
+      ),
+    [overlays]
+  );
+
+  // Clicking a member of a multi-selection keeps the selection and only
+  // changes which item is primary
+  const selectItem = useCallback(
+    (id: number) => {
+      if (isMultiSelection && selectedOverlayIds.includes(id) && selectOverlays) {
+        selectOverlays(selectedOverlayIds, id);
+      } else {
+        setSelectedOverlayId(id);
+      }
+    },
+    [isMultiSelection, selectedOverlayIds, selectOverlays, setSelectedOverlayId]
+  );
+
   /**
    * Finds gaps between overlay items in a single timeline row
    * @param rowItems - Array of Overlay items in the current row
@@ -162,7 +231,7 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
   return (
     <div
       className="relative overflow-x-auto overflow-y-hidden bg-white dark:bg-darkBox h-full"
-      style={{ height: `${visibleRows * ROW_HEIGHT}px` }}
+      style={{ height: `${rowHeights.reduce((sum, height) => sum + height, 0)}px` }}
     >
       {/* Container for Rows and Alignment Lines */}
       <div className="absolute inset-0 flex flex-col gap-2 pt-2 pb-2">
@@ -187,10 +256,12 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
             (overlay) => overlay.row === rowIndex
           );
           const gaps = findGapsInRow(rowItems);
+          const track = tracks[rowIndex];
 
           return (
             <div
               key={rowIndex}
+              style={{ flexGrow: rowHeights[rowIndex] }}
               className={`flex-1 bg-slate-100/90 dark:bg-darkBoxSub  relative
                 transition-all duration-200 ease-in-out
                 hover:bg-slate-200/90 dark:hover:bg-gray-700/90
@@ -200,6 +271,12 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                     : ""
                 }
                 ${draggedRowIndex === rowIndex ? "opacity-50" : ""}
+                ${track?.hidden ? "opacity-40" : ""}
+                ${
+                  track?.locked
+                    ? "bg-[repeating-linear-gradient(135deg,transparent,transparent_6px,rgba(148,163,184,0.15)_6px,rgba(148,163,184,0.15)_12px)]"
+                    : ""
+                }
                 ${
                   selectedOverlayId && overlays.some((o) => o.row === rowIndex)
                     ? "shadow-sm"
@@ -221,7 +298,24 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                     isDragging={isDragging}
                     draggedItem={draggedItem}
                     selectedItem={selectedItem}
-                    setSelectedItem={(item) => setSelectedOverlayId(item.id)}
+                    setSelectedItem={(item) => selectItem(item.id)}
+                    isInSelection={selectedOverlayIds.includes(overlay.id)}
+                    onToggleSelection={onToggleSelection}
+                    onGroupSelection={
+                      isMultiSelection ? onGroupSelection : undefined
+                    }
+                    onUngroupItem={onUngroupItem}
+                    isLinked={
+                      overlay.linkedTo !== undefined ||
+                      linkedClipIds.has(overlay.id)
+                    }
+                    onLinkSelection={onLinkSelection}
+                    onUnlinkItem={onUnlinkItem}
+                    onDetachAudio={
+                      onDetachAudio && canDetachAudio(overlays, overlay)
+                        ? onDetachAudio
+                        : undefined
+                    }
                     handleMouseDown={(action, e) =>
                       handleDragStart(overlay, e.clientX, e.clientY, action)
                     }
@@ -241,6 +335,7 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                     onHover={onHover}
                     onContextMenuChange={onContextMenuChange}
                     currentFrame={currentFrame}
+                    onItemChange={onItemChange}
                     zoomScale={zoomScale}
                     onAssetLoadingChange={onAssetLoadingChange}
                     livePushOffsetPercent={livePushOffsetPercent}
@@ -248,6 +343,20 @@ const TimelineGrid: React.FC<TimelineGridProps> = ({
                 );
               })}
 
+              {/* Transition markers on cuts between adjacent clips */}
+              {!isDragging &&
+                onTransitionChange &&
+                boundaries
+                  .filter((boundary) => boundary.row === rowIndex)
+                  .map((boundary) => (
+                    <TimelineTransitionMarker
+                      key={`transition-${boundary.outgoing.id}`}
+                      boundary={boundary}
+                      totalDuration={totalDuration}
+                      onTransitionChange={onTransitionChange}
+                    />
+                  ))}
+
               {/* Gap indicators */}
               {!isDragging &&
                 gaps.map((gap, gapIndex) => (
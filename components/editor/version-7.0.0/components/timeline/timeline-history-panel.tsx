@@ -0,0 +1,96 @@
+import React from "react";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { HistoryLabel } from "../../utils/history-commands";
+
+/**
+ * Turns a history label into text such as "Move Title" or "Delete 3 items"
+ */
+export const formatHistoryLabel = (
+  label: HistoryLabel,
+  t: (key: string, values?: Record<string, string | number>) => string
+): string => {
+  const subject =
+    label.count !== undefined && label.count > 1
+      ? t("history.subject.items", { count: label.count })
+      : label.name ??
+        (label.overlayType
+          ? t(`history.subject.${label.overlayType}`)
+          : t("history.subject.item"));
+
+  return t(`history.action.${label.action}`, { subject });
+};
+
+/**
+ * Popover listing the undo history. Clicking an entry undoes or redoes
+ * everything up to it; undone entries stay listed until a new edit is made.
+ */
+export const TimelineHistoryPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const { historyEntries, historyIndex, jumpToHistory } = useEditorContext();
+
+  const entryClassName = (isCurrent: boolean, isUndone: boolean) =>
+    `w-full text-left text-xs px-2 py-1.5 rounded-md transition-colors
+    ${
+      isCurrent
+        ? "bg-primarioLogo/20 text-gray-900 dark:text-white"
+        : "hover:bg-gray-100 dark:hover:bg-gray-800"
+    }
+    ${isUndone ? "text-gray-400 dark:text-zinc-500" : "text-gray-700 dark:text-zinc-200"}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          title={t("history.title")}
+          className="h-7 w-7 text-gray-700 dark:text-zinc-200 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100/80 dark:hover:bg-gray-800/80"
+        >
+          <History className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align="start"
+        className="w-64 p-2 dark:bg-slate-900 dark:border-slate-800"
+      >
+        <div className="px-2 pb-2 text-xs font-medium text-gray-900 dark:text-zinc-100">
+          {t("history.title")}
+        </div>
+        <div className="max-h-64 overflow-y-auto space-y-0.5">
+          <button
+            className={entryClassName(historyIndex === -1, false)}
+            onClick={() => jumpToHistory(-1)}
+          >
+            {t("history.start")}
+          </button>
+          {historyEntries.map((entry, index) => (
+            <button
+              key={entry.id}
+              className={entryClassName(
+                index === historyIndex,
+                index > historyIndex
+              )}
+              onClick={() => jumpToHistory(index)}
+            >
+              {formatHistoryLabel(entry.label, t)}
+            </button>
+          ))}
+          {historyEntries.length === 0 && (
+            <p className="px-2 py-1.5 text-xs text-gray-500 dark:text-zinc-400">
+              {t("history.empty")}
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
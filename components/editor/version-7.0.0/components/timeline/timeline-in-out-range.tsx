@@ -0,0 +1,63 @@
+import React from "react";
+
+/**
+ * Props for the TimelineInOutRange component.
+ * @property {number | null} inPoint - First frame of the export range, null when unset.
+ * @property {number | null} outPoint - Last frame of the export range, null when unset.
+ * @property {number} totalDuration - The total duration of the timeline.
+ */
+interface TimelineInOutRangeProps {
+  inPoint: number | null;
+  outPoint: number | null;
+  totalDuration: number;
+}
+
+const toPercent = (frame: number, totalDuration: number) =>
+  `${Math.round((frame / totalDuration) * 100 * 10000) / 10000}%`;
+
+/**
+ * Shades the part of the timeline between the in and out points and draws a
+ * bracket at each point that is set.
+ */
+const TimelineInOutRange: React.FC<TimelineInOutRangeProps> = React.memo(
+  ({ inPoint, outPoint, totalDuration }) => {
+    if ((inPoint === null && outPoint === null) || totalDuration <= 0) {
+      return null;
+    }
+
+    const start = inPoint ?? 0;
+    // The out point is inclusive, so the range ends after that frame
+    const end = outPoint !== null ? outPoint + 1 : totalDuration;
+
+    return (
+      <>
+        <div
+          className="absolute top-0 h-full bg-primarioLogo/10 border-t-2 border-primarioLogo pointer-events-none z-40"
+          style={{
+            left: toPercent(start, totalDuration),
+            width: toPercent(Math.max(0, end - start), totalDuration),
+          }}
+        />
+        {inPoint !== null && (
+          <div
+            className="absolute top-0 h-3 w-1.5 border-l-2 border-t-2 border-b-2 border-primarioLogo pointer-events-none z-40"
+            style={{ left: toPercent(inPoint, totalDuration) }}
+          />
+        )}
+        {outPoint !== null && (
+          <div
+            className="absolute top-0 h-3 w-1.5 border-r-2 border-t-2 border-b-2 border-primarioLogo pointer-events-none z-40"
+            style={{
+              left: toPercent(outPoint + 1, totalDuration),
+              transform: "translateX(-100%)",
+            }}
+          />
+        )}
+      </>
+    );
+  }
+);
+
+TimelineInOutRange.displayName = "TimelineInOutRange";
+
+export default TimelineInOutRange;
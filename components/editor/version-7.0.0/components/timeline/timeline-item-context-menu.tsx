@@ -5,7 +5,20 @@ import {
   ContextMenuItem,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
-import { Trash2, Copy, Scissors } from "lucide-react";
+import {
+  Trash2,
+  Copy,
+  Scissors,
+  Diamond,
+  Eraser,
+  Group,
+  Ungroup,
+  Link2,
+  Unlink2,
+  AudioLines,
+  FileSearch,
+  Replace,
+} from "lucide-react";
 import { useTranslation } from "@/lib/i18n";
 
 /**
@@ -22,6 +35,24 @@ interface TimelineItemContextMenuProps {
   onDuplicateItem: (id: number) => void;
   /** Callback to split the timeline item */
   onSplitItem: (id: number) => void;
+  /** Callback to add a keyframe at the playhead, omitted when not available */
+  onAddKeyframe?: () => void;
+  /** Callback to remove all keyframes, omitted when the item has none */
+  onClearKeyframes?: () => void;
+  /** Callback to group the current selection, omitted when fewer than two items are selected */
+  onGroup?: () => void;
+  /** Callback to ungroup the item, omitted when it is not in a group */
+  onUngroup?: () => void;
+  /** Callback to link the selected captions and sounds to the selected clip, omitted when the selection cannot be linked */
+  onLink?: () => void;
+  /** Callback to unlink the item, omitted when it is not linked */
+  onUnlink?: () => void;
+  /** Callback to move a clip's audio into its own sound overlay, omitted when it cannot */
+  onDetachAudio?: () => void;
+  /** Callback to pick a replacement for a missing media file, omitted when the file is not missing */
+  onRelinkMedia?: () => void;
+  /** Callback to swap the item's media file, omitted for items without one */
+  onReplaceMedia?: () => void;
   /** ID of the timeline item this menu belongs to */
   itemId: number;
 }
@@ -51,6 +82,15 @@ export const TimelineItemContextMenu: React.FC<
   onDeleteItem,
   onDuplicateItem,
   onSplitItem,
+  onAddKeyframe,
+  onClearKeyframes,
+  onGroup,
+  onUngroup,
+  onLink,
+  onUnlink,
+  onDetachAudio,
+  onRelinkMedia,
+  onReplaceMedia,
   itemId,
 }) => {
   const { t } = useTranslation();
@@ -58,6 +98,15 @@ export const TimelineItemContextMenu: React.FC<
     <ContextMenu onOpenChange={onOpenChange}>
       <ContextMenuTrigger className="z-[100]">{children}</ContextMenuTrigger>
       <ContextMenuContent className="dark:bg-slate-900 dark:border-slate-800">
+        {onRelinkMedia && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onRelinkMedia}
+          >
+            <FileSearch className="mr-4 h-4 w-4" />
+            {t("relink.menuItem")}
+          </ContextMenuItem>
+        )}
         <ContextMenuItem
           className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
           onClick={() => onDeleteItem(itemId)}
@@ -79,6 +128,78 @@ export const TimelineItemContextMenu: React.FC<
           <Scissors className="mr-4 h-4 w-4" />
           {t("common.split")}
         </ContextMenuItem>
+        {onReplaceMedia && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onReplaceMedia}
+          >
+            <Replace className="mr-4 h-4 w-4" />
+            {t("replaceMedia.menuItem")}
+          </ContextMenuItem>
+        )}
+        {onAddKeyframe && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onAddKeyframe}
+          >
+            <Diamond className="mr-4 h-4 w-4" />
+            {t("timeline.addKeyframe")}
+          </ContextMenuItem>
+        )}
+        {onClearKeyframes && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onClearKeyframes}
+          >
+            <Eraser className="mr-4 h-4 w-4" />
+            {t("timeline.clearKeyframes")}
+          </ContextMenuItem>
+        )}
+        {onGroup && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onGroup}
+          >
+            <Group className="mr-4 h-4 w-4" />
+            {t("selection.group")}
+          </ContextMenuItem>
+        )}
+        {onUngroup && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onUngroup}
+          >
+            <Ungroup className="mr-4 h-4 w-4" />
+            {t("selection.ungroup")}
+          </ContextMenuItem>
+        )}
+        {onLink && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onLink}
+          >
+            <Link2 className="mr-4 h-4 w-4" />
+            {t("timeline.link")}
+          </ContextMenuItem>
+        )}
+        {onUnlink && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onUnlink}
+          >
+            <Unlink2 className="mr-4 h-4 w-4" />
+            {t("timeline.unlink")}
+          </ContextMenuItem>
+        )}
+        {onDetachAudio && (
+          <ContextMenuItem
+            className="dark:hover:bg-slate-800 dark:focus:bg-slate-800 dark:text-slate-200"
+            onClick={onDetachAudio}
+          >
+            <AudioLines className="mr-4 h-4 w-4" />
+            {t("timeline.detachAudio")}
+          </ContextMenuItem>
+        )}
       </ContextMenuContent>
     </ContextMenu>
   );
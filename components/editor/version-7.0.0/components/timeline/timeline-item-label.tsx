@@ -1,5 +1,5 @@
 import React from "react";
-import { Type, Film, Image, Volume2, Sticker } from "lucide-react";
+import { Type, Film, Image, Volume2, Sticker, Shapes } from "lucide-react";
 import { OverlayType, Overlay } from "../../types";
 import { DISABLE_VIDEO_KEYFRAMES } from "../../constants";
 
@@ -43,6 +43,8 @@ export const TimelineItemLabel: React.FC<TimelineItemLabelProps> = ({
         return <Volume2 className="w-2 h-2 mr-0.5" />;
       case OverlayType.STICKER:
         return <Sticker className="w-2 h-2 mr-0.5" />;
+      case OverlayType.SHAPE:
+        return <Shapes className="w-2 h-2 mr-0.5" />;
       case OverlayType.CAPTION:
         return <></>;
       default:
@@ -54,6 +56,7 @@ export const TimelineItemLabel: React.FC<TimelineItemLabelProps> = ({
    * Determines the label content to display based on the item type and properties
    * - For captions: returns empty string
    * - For text: returns the content string
+   * - For shapes: returns the shape kind
    * - For media (image/video/sound): returns filename from src or name property
    * - Fallback: returns the item type
    *
@@ -63,7 +66,10 @@ export const TimelineItemLabel: React.FC<TimelineItemLabelProps> = ({
     if (item.type === OverlayType.CAPTION) {
       return "";
     }
-    if (item.type === OverlayType.TEXT && typeof item.content === "string") {
+    if (
+      (item.type === OverlayType.TEXT || item.type === OverlayType.SHAPE) &&
+      typeof item.content === "string"
+    ) {
       return item.content;
     }
     if ("src" in item && item.src) {
@@ -88,6 +94,8 @@ export const TimelineItemLabel: React.FC<TimelineItemLabelProps> = ({
         ${
           item.type === OverlayType.TEXT
             ? "bg-purple-200/30 text-white dark:bg-purple-200/30 dark:text-white"
+            : item.type === OverlayType.SHAPE
+            ? "bg-sky-200/30 text-white dark:bg-sky-200/30 dark:text-white"
             : item.type === OverlayType.STICKER
             ? "bg-pink-200/30 text-white dark:bg-pink-200/30 dark:text-white"
             : item.type === OverlayType.SOUND
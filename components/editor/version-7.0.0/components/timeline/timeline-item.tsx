@@ -16,6 +16,17 @@ import { TimelineItemContextMenu } from "./timeline-item-context-menu";
 import { TimelineItemLabel } from "./timeline-item-label";
 import TimelineCaptionBlocks from "./timeline-caption-blocks";
 import { useKeyframeContext } from "../../contexts/keyframe-context";
+import { TimelineKeyframeLane } from "./timeline-keyframe-lane";
+import { TimelineVolumeEnvelope } from "./timeline-volume-envelope";
+import { isAudioOverlay } from "../../utils/volume-envelope";
+import { addKeyframesAtFrame } from "../../utils/animation-keyframes";
+import { Braces, CloudOff, Link2 } from "lucide-react";
+import { useTranslation } from "@/lib/i18n";
+import { useTimeline } from "../../contexts/timeline-context";
+import { useEditorContext } from "../../contexts/editor-context";
+import { getLinkedMediaType, getOverlaySource } from "../../utils/media-relink";
+import { getDraggedMediaType, readDraggedMedia } from "../../utils/media-replace";
+import { hasMergeVariables } from "../../utils/data-merge";
 
 /**
  * TimelineItem Component
@@ -51,6 +62,22 @@ export interface TimelineItemProps {
   selectedItem: { id: number } | null;
   /** Callback to update the selected item */
   setSelectedItem: (item: { id: number }) => void;
+  /** Whether the item is part of the current (multi-)selection */
+  isInSelection?: boolean;
+  /** Adds or removes the item from the selection (shift/cmd-click) */
+  onToggleSelection?: (id: number) => void;
+  /** Groups the current selection, omitted when it cannot be grouped */
+  onGroupSelection?: () => void;
+  /** Removes the item from its group */
+  onUngroupItem?: (id: number) => void;
+  /** Whether the item is linked to a clip, or is a clip with linked items */
+  isLinked?: boolean;
+  /** Links the selected captions and sounds to the selected clip, omitted when it cannot */
+  onLinkSelection?: () => void;
+  /** Unlinks the item, or the items linked to it */
+  onUnlinkItem?: (id: number) => void;
+  /** Moves the clip's audio into a linked sound overlay, omitted when it cannot */
+  onDetachAudio?: (id: number) => void;
   /** Handler for mouse-based drag and resize operations */
   handleMouseDown: (
     action: "move" | "resize-start" | "resize-end",
@@ -83,6 +110,8 @@ export interface TimelineItemProps {
   onAssetLoadingChange?: (overlayId: number, isLoading: boolean) => void;
   /** Live push offset percentage during drag */
   livePushOffsetPercent?: number;
+  /** Callback with the updated item after an in-place edit (e.g. keyframes) */
+  onItemChange?: (updatedItem: Overlay) => void;
 }
 
 /** Height of each timeline item in pixels */
@@ -94,6 +123,14 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
   draggedItem,
   selectedItem,
   setSelectedItem,
+  isInSelection = false,
+  onToggleSelection,
+  onGroupSelection,
+  onUngroupItem,
+  isLinked = false,
+  onLinkSelection,
+  onUnlinkItem,
+  onDetachAudio,
   handleMouseDown,
   handleTouchStart,
   totalDuration,
@@ -106,17 +143,51 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
   zoomScale,
   onAssetLoadingChange,
   livePushOffsetPercent = 0, // Default to 0 if not provided
+  onItemChange,
 }) => {
+  const { t } = useTranslation();
+  const { fps, offlineSources, setRelinkSource, replaceMedia, setReplaceTargetId } =
+    useEditorContext();
+  // Media whose file went missing is kept, flagged and offered for relinking
+  const source = getOverlaySource(item);
+  const isOffline = !!source && offlineSources.includes(source);
+  // Media whose file comes from a {{variable}} of the merge dataset
+  const isMergeField = hasMergeVariables(source);
+  // Media of the item's kind dragged from a panel replaces its file
+  const mediaType = getLinkedMediaType(item);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const handleMediaDragOver = (e: React.DragEvent) => {
+    const draggedType = getDraggedMediaType(Array.from(e.dataTransfer.types));
+    if (!draggedType || draggedType !== mediaType) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDropTarget(true);
+  };
+
+  const handleMediaDrop = (e: React.DragEvent) => {
+    setIsDropTarget(false);
+    const media = readDraggedMedia(e.dataTransfer);
+    if (!media || media.type !== mediaType) return;
+    e.preventDefault();
+    e.stopPropagation();
+    // Holding alt keeps the current length
+    replaceMedia(item.id, media, e.altKey);
+  };
   const waveformData = useWaveformProcessor(
-    item.type === OverlayType.SOUND ? item.src : undefined,
+    item.type === OverlayType.SOUND && !isOffline && !isMergeField ? item.src : undefined,
     item.type === OverlayType.SOUND ? item.startFromSound : undefined,
-    item.durationInFrames
+    item.durationInFrames,
+    { fps }
   );
 
   const isSelected = selectedItem?.id === item.id;
+  const isHighlighted = isSelected || isInSelection;
   const itemRef = useRef<HTMLDivElement>(null);
   const { setActivePanel, setIsOpen } = useSidebar();
   const keyframeContext = useKeyframeContext();
+  const { trimTool } = useTimeline();
 
   // New state variables for touch interactions
   const [touchStartTime, setTouchStartTime] = useState<number | null>(null);
@@ -143,6 +214,16 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
     if (action === "click") {
       setSelectedItem({ id: item.id });
     } else if (action === "mousedown") {
+      // Shift/cmd-click adds or removes the item without dragging
+      const mouseEvent = e as React.MouseEvent<HTMLDivElement>;
+      if (
+        onToggleSelection &&
+        (mouseEvent.shiftKey || mouseEvent.metaKey || mouseEvent.ctrlKey)
+      ) {
+        onToggleSelection(item.id);
+        return;
+      }
+
       // Always select the item first before starting a drag operation
       if (!isSelected) {
         setSelectedItem({ id: item.id });
@@ -315,6 +396,10 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
         return isHandle
           ? "bg-emerald-500 dark:bg-emerald-500"
           : "bg-emerald-500 hover:bg-emerald-500 dark:bg-emerald-500 dark:hover:bg-emerald-500 border-emerald-500 dark:border-emerald-500 text-emerald-500 dark:text-white";
+      case OverlayType.SHAPE:
+        return isHandle
+          ? "bg-sky-500 dark:bg-sky-500"
+          : "bg-sky-500 hover:bg-sky-500 dark:bg-sky-500 dark:hover:bg-sky-500 border-sky-500 dark:border-sky-500 text-sky-500 dark:text-white";
       case OverlayType.STICKER:
         return isHandle
           ? "bg-red-500 dark:bg-red-500"
@@ -329,8 +414,32 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
 
   const itemClasses = useMemo(() => getItemClasses(item.type), [item.type]);
 
+  // Slip, slide and roll apply to video and sound clips
+  const usesTrimTool =
+    trimTool !== "select" &&
+    (item.type === OverlayType.VIDEO || item.type === OverlayType.SOUND);
+
+  // Keyframes only make sense for items that are drawn on the canvas
+  const canAddKeyframe =
+    !!onItemChange &&
+    item.type !== OverlayType.SOUND &&
+    currentFrame !== undefined &&
+    currentFrame >= item.from &&
+    currentFrame < item.from + item.durationInFrames;
+
+  const handleAddKeyframe = useCallback(() => {
+    if (!canAddKeyframe || !onItemChange) return;
+    onItemChange(addKeyframesAtFrame(item, (currentFrame ?? 0) - item.from));
+  }, [canAddKeyframe, onItemChange, item, currentFrame]);
+
+  const handleClearKeyframes = useCallback(() => {
+    onItemChange?.({ ...item, keyframes: undefined });
+  }, [onItemChange, item]);
+
   const handleSelect = (e: React.MouseEvent) => {
     e.stopPropagation();
+    // Modifier clicks were already handled on mousedown
+    if (onToggleSelection && (e.shiftKey || e.metaKey || e.ctrlKey)) return;
     setSelectedItem({ id: item.id });
 
     if (
@@ -346,6 +455,37 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
   };
 
   const renderContent = () => {
+    if (isOffline) {
+      return (
+        <div className="h-full w-full flex items-center gap-1.5 px-2 bg-[repeating-linear-gradient(45deg,#3f3f46,#3f3f46_6px,#52525b_6px,#52525b_12px)] text-red-300">
+          <CloudOff className="h-3.5 w-3.5 shrink-0" />
+          <span className="text-[11px] font-medium truncate">
+            {t("relink.offline")}
+          </span>
+          <button
+            className="ml-1 shrink-0 rounded bg-red-500/90 px-1.5 py-0.5 text-[10px] font-medium text-white hover:bg-red-500"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              setRelinkSource(source);
+            }}
+          >
+            {t("relink.action")}
+          </button>
+        </div>
+      );
+    }
+
+    if (isMergeField) {
+      return (
+        <div className="h-full w-full flex items-center gap-1.5 px-2 border border-dashed border-sky-400/80 text-sky-200">
+          <Braces className="h-3.5 w-3.5 shrink-0" />
+          <span className="text-[11px] font-mono truncate">{source}</span>
+        </div>
+      );
+    }
+
     return (
       <>
         {item.type === OverlayType.IMAGE ? (
@@ -360,6 +500,9 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
           </div>
         ) : (
           <div className="flex-1 flex items-center px-2">
+            {item.groupId && (
+              <Link2 className="h-3 w-3 mr-1 shrink-0 opacity-80" />
+            )}
             <TimelineItemLabel item={item} isSelected={isSelected} />
           </div>
         )}
@@ -393,6 +536,20 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
             }
           />
         )}
+        {onItemChange && isAudioOverlay(item) && (
+          <TimelineVolumeEnvelope
+            overlay={item}
+            isSelected={isSelected}
+            onChange={onItemChange}
+          />
+        )}
+        {onItemChange && (
+          <TimelineKeyframeLane
+            overlay={item}
+            isSelected={isSelected}
+            onChange={onItemChange}
+          />
+        )}
       </>
     );
   };
@@ -413,16 +570,30 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
       }}
       onDuplicateItem={onDuplicateItem}
       onSplitItem={onSplitItem}
+      onAddKeyframe={canAddKeyframe ? handleAddKeyframe : undefined}
+      onClearKeyframes={item.keyframes ? handleClearKeyframes : undefined}
+      onGroup={isInSelection ? onGroupSelection : undefined}
+      onUngroup={
+        item.groupId && onUngroupItem ? () => onUngroupItem(item.id) : undefined
+      }
+      onLink={isInSelection ? onLinkSelection : undefined}
+      onUnlink={
+        isLinked && onUnlinkItem ? () => onUnlinkItem(item.id) : undefined
+      }
+      onDetachAudio={onDetachAudio ? () => onDetachAudio(item.id) : undefined}
+      onRelinkMedia={isOffline ? () => setRelinkSource(source) : undefined}
+      onReplaceMedia={mediaType ? () => setReplaceTargetId(item.id) : undefined}
       itemId={item.id}
     >
       <div
         ref={itemRef}
-        className={`absolute inset-y-[0.9px] rounded-md shadow-md cursor-grab group 
+        className={`absolute inset-y-[0.9px] rounded-md shadow-md ${usesTrimTool ? "cursor-ew-resize" : "cursor-grab"} group 
         ${itemClasses} 
         ${isDragging && draggedItem?.id === item.id ? "opacity-50" : ""} 
         ${isTouching ? "scale-[0.98] opacity-80" : ""} 
+        ${isDropTarget ? "ring-2 ring-inset ring-green-500" : ""} 
         ${
-          isSelected
+          isHighlighted
             ? "border-2 border-black dark:border-white"
             : "border-[0px]"
         } 
@@ -430,7 +601,7 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
         style={{
           left: `${(item.from / totalDuration) * 100}%`,
           width: `${(item.durationInFrames / totalDuration) * 100}%`,
-          zIndex: isDragging ? 1 : isSelected ? 35 : 30, // Increase z-index when selected
+          zIndex: isDragging ? 1 : isHighlighted ? 35 : 30, // Increase z-index when selected
           // Apply transform immediately if pushed, otherwise use standard transition
           transition: `opacity 0.2s ${
             livePushOffsetPercent !== 0
@@ -457,6 +628,9 @@ const TimelineItem: React.FC<TimelineItemProps> = ({
           handleSelect(e);
         }}
         onMouseMove={handleMouseMove}
+        onDragOver={handleMediaDragOver}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleMediaDrop}
       >
         {renderContent()}
         <TimelineItemHandle
@@ -0,0 +1,266 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/lib/i18n";
+import { KeyframeEasing, KeyframeProperty, Overlay } from "../../types";
+import {
+  KEYFRAME_EASINGS,
+  KEYFRAME_PROPERTIES,
+  removeKeyframe,
+  updateKeyframe,
+} from "../../utils/animation-keyframes";
+
+interface TimelineKeyframeLaneProps {
+  /** The overlay whose keyframes are displayed */
+  overlay: Overlay;
+  /** Whether the owning timeline item is selected */
+  isSelected: boolean;
+  /** Callback with the updated overlay after a keyframe edit */
+  onChange: (overlay: Overlay) => void;
+}
+
+/**
+ * Applies an operation to every keyframe sitting on `frame`, whatever its property.
+ */
+const mapKeyframesAtFrame = (
+  overlay: Overlay,
+  frame: number,
+  apply: (
+    overlay: Overlay,
+    property: KeyframeProperty,
+    keyframeId: string
+  ) => Overlay
+): Overlay =>
+  KEYFRAME_PROPERTIES.reduce((result, property) => {
+    const keyframe = overlay.keyframes?.[property]?.find(
+      (k) => k.frame === frame
+    );
+    return keyframe ? apply(result, property, keyframe.id) : result;
+  }, overlay);
+
+/**
+ * TimelineKeyframeLane Component
+ *
+ * Thin strip along the bottom of a timeline item showing one diamond per
+ * keyframed frame. Diamonds can be dragged to retime every keyframe on that
+ * frame, double-clicked to delete them, or clicked to edit values and easing.
+ */
+export const TimelineKeyframeLane: React.FC<TimelineKeyframeLaneProps> = ({
+  overlay,
+  isSelected,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+  const laneRef = useRef<HTMLDivElement>(null);
+  const [activeFrame, setActiveFrame] = useState<number | null>(null);
+  const [dragPreview, setDragPreview] = useState<{
+    from: number;
+    to: number;
+  } | null>(null);
+
+  // Unique keyframed frames that fall inside the overlay
+  const frames = useMemo(() => {
+    const set = new Set<number>();
+    for (const property of KEYFRAME_PROPERTIES) {
+      overlay.keyframes?.[property]?.forEach((keyframe) => {
+        if (keyframe.frame >= 0 && keyframe.frame < overlay.durationInFrames) {
+          set.add(keyframe.frame);
+        }
+      });
+    }
+    return Array.from(set).sort((a, b) => a - b);
+  }, [overlay.keyframes, overlay.durationInFrames]);
+
+  const frameFromClientX = useCallback(
+    (clientX: number) => {
+      const rect = laneRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return 0;
+      const ratio = (clientX - rect.left) / rect.width;
+      return Math.max(
+        0,
+        Math.min(
+          overlay.durationInFrames - 1,
+          Math.round(ratio * overlay.durationInFrames)
+        )
+      );
+    },
+    [overlay.durationInFrames]
+  );
+
+  const handleDiamondMouseDown = useCallback(
+    (frame: number, e: React.MouseEvent<HTMLDivElement>) => {
+      // Keep the timeline item from starting its own drag
+      e.stopPropagation();
+      if (e.button !== 0) return;
+
+      const startX = e.clientX;
+      let target = frame;
+      let moved = false;
+
+      const onMouseMove = (moveEvent: MouseEvent) => {
+        if (!moved && Math.abs(moveEvent.clientX - startX) < 3) return;
+        moved = true;
+        target = frameFromClientX(moveEvent.clientX);
+        setDragPreview({ from: frame, to: target });
+      };
+
+      const onMouseUp = () => {
+        window.removeEventListener("mousemove", onMouseMove);
+        setDragPreview(null);
+        if (moved && target !== frame) {
+          onChange(
+            mapKeyframesAtFrame(overlay, frame, (result, property, id) =>
+              updateKeyframe(result, property, id, { frame: target })
+            )
+          );
+          setActiveFrame(null);
+        } else if (!moved) {
+          setActiveFrame(frame);
+        }
+      };
+
+      window.addEventListener("mousemove", onMouseMove);
+      window.addEventListener("mouseup", onMouseUp, { once: true });
+    },
+    [frameFromClientX, onChange, overlay]
+  );
+
+  const handleDeleteFrame = useCallback(
+    (frame: number) => {
+      onChange(mapKeyframesAtFrame(overlay, frame, removeKeyframe));
+      setActiveFrame(null);
+    },
+    [onChange, overlay]
+  );
+
+  const activeKeyframes = useMemo(() => {
+    if (activeFrame === null) return [];
+    return KEYFRAME_PROPERTIES.flatMap((property) => {
+      const keyframe = overlay.keyframes?.[property]?.find(
+        (k) => k.frame === activeFrame
+      );
+      return keyframe ? [{ property, keyframe }] : [];
+    });
+  }, [activeFrame, overlay.keyframes]);
+
+  if (frames.length === 0) return null;
+
+  const positionOf = (frame: number) => {
+    const displayed =
+      dragPreview && dragPreview.from === frame ? dragPreview.to : frame;
+    return `${(displayed / overlay.durationInFrames) * 100}%`;
+  };
+
+  return (
+    <Popover
+      open={activeFrame !== null && activeKeyframes.length > 0}
+      onOpenChange={(open) => !open && setActiveFrame(null)}
+    >
+      <PopoverAnchor asChild>
+        <div
+          ref={laneRef}
+          className={`absolute left-0 right-0 bottom-0 h-3 z-40 ${
+            isSelected ? "bg-black/10 dark:bg-white/10" : ""
+          }`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {frames.map((frame) => (
+            <div
+              key={frame}
+              title={`${t("timeline.keyframe")} ${frame}`}
+              className={`absolute top-1/2 w-2 h-2 cursor-ew-resize border border-black/60 dark:border-white/70 ${
+                activeFrame === frame
+                  ? "bg-yellow-300"
+                  : "bg-white dark:bg-slate-900"
+              }`}
+              style={{
+                left: positionOf(frame),
+                transform: "translate(-50%, -50%) rotate(45deg)",
+              }}
+              onMouseDown={(e) => handleDiamondMouseDown(frame, e)}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                handleDeleteFrame(frame);
+              }}
+            />
+          ))}
+        </div>
+      </PopoverAnchor>
+      <PopoverContent
+        className="w-60 p-3 space-y-2 dark:bg-slate-900 dark:border-slate-800"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium">
+            {t("timeline.keyframe")} {activeFrame}
+          </span>
+          <button
+            type="button"
+            title={t("timeline.deleteKeyframe")}
+            className="text-muted-foreground hover:text-red-500"
+            onClick={() => activeFrame !== null && handleDeleteFrame(activeFrame)}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        {activeKeyframes.map(({ property, keyframe }) => (
+          <div key={property} className="grid grid-cols-[64px_1fr_1fr] gap-1.5 items-center">
+            <span className="text-xs text-muted-foreground">
+              {t(`keyframes.${property}`)}
+            </span>
+            <Input
+              type="number"
+              step={property === "opacity" || property === "scale" ? 0.05 : 1}
+              className="h-7 px-2 text-xs"
+              value={Number(keyframe.value.toFixed(2))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isNaN(value)) return;
+                onChange(
+                  updateKeyframe(overlay, property, keyframe.id, { value })
+                );
+              }}
+            />
+            <Select
+              value={keyframe.easing}
+              onValueChange={(easing) =>
+                onChange(
+                  updateKeyframe(overlay, property, keyframe.id, {
+                    easing: easing as KeyframeEasing,
+                  })
+                )
+              }
+            >
+              <SelectTrigger
+                className="h-7 px-2 text-xs"
+                title={t("timeline.keyframeEasing")}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {KEYFRAME_EASINGS.map((easing) => (
+                  <SelectItem key={easing} value={easing} className="text-xs">
+                    {t(`keyframes.easing.${easing}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,6 +1,6 @@
 import React from "react";
 import { ClipOverlay, ImageOverlay } from "../../types";
-import { FPS } from "../../constants";
+import { useEditorContext } from "../../contexts/editor-context";
 import { useKeyframes } from "../../hooks/use-keyframes";
 import Image from "next/image";
 import { DISABLE_VIDEO_KEYFRAMES } from "../../constants";
@@ -45,11 +45,13 @@ export const TimelineKeyframes: React.FC<TimelineKeyframesProps> = ({
   onLoadingChange,
 }) => {
   const containerRef = React.useRef<HTMLDivElement>(null);
+  const { fps } = useEditorContext();
   const { frames, previewFrames, isLoading } = useKeyframes({
     overlay,
     containerRef,
     currentFrame,
     zoomScale,
+    fps,
   });
 
   React.useEffect(() => {
@@ -87,7 +89,7 @@ export const TimelineKeyframes: React.FC<TimelineKeyframesProps> = ({
           const previewFrame =
             previewFrames[Math.min(index, previewFrames.length - 1)];
           const isLast = index === TOTAL_SLOTS - 1;
-          const timestamp = previewFrame ? Math.floor(previewFrame / FPS) : 0;
+          const timestamp = previewFrame ? Math.floor(previewFrame / fps) : 0;
 
           return (
             <div
@@ -1,5 +1,4 @@
 import React, { useCallback } from "react";
-import { FPS } from "../../constants";
 
 /**
  * Props for the TimeMarkers component
@@ -7,11 +6,13 @@ import { FPS } from "../../constants";
  * @property {number} durationInFrames - Total number of frames in the timeline
  * @property {function} handleTimelineClick - Callback function when timeline is clicked
  * @property {number} zoomScale - Current zoom level of the timeline
+ * @property {number} fps - Frame rate of the project
  */
 type TimeMarkersProps = {
   durationInFrames: number;
   handleTimelineClick: (clickPosition: number) => void;
   zoomScale: number;
+  fps: number;
 };
 
 /**
@@ -22,11 +23,12 @@ const TimeMarkers = ({
   durationInFrames,
   handleTimelineClick,
   zoomScale,
+  fps,
 }: TimeMarkersProps): JSX.Element => {
   const generateMarkers = (): JSX.Element[] => {
     const markers: JSX.Element[] = [];
     // Calculate total seconds more precisely using frames
-    const totalSeconds = durationInFrames / FPS;
+    const totalSeconds = durationInFrames / fps;
 
     // Dynamic interval calculation based on zoom level
     // Goal: keep ~6-12 visible labels so they never overlap
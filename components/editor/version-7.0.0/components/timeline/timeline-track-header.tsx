@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Eye,
+  EyeOff,
+  Grip,
+  Headphones,
+  Lock,
+  Unlock,
+  Volume2,
+  VolumeX,
+} from "lucide-react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { useTranslation } from "@/lib/i18n";
+import { TimelineTrack } from "../../types";
+import { TRACK_COLORS, TRACK_HEIGHTS } from "../../constants";
+
+/**
+ * Props for the TimelineTrackHeader component.
+ * @property {TimelineTrack} track - The track shown in this header.
+ * @property {number} index - Row of the track.
+ * @property {boolean} canRemove - Whether the track may be removed.
+ * @property {boolean} isDragged - Whether this track is being dragged to a new position.
+ * @property {boolean} isDragOver - Whether a dragged track is over this one.
+ * @property {boolean} isDraggingRow - Whether any track is being dragged.
+ */
+interface TimelineTrackHeaderProps {
+  track: TimelineTrack;
+  index: number;
+  canRemove: boolean;
+  isDragged: boolean;
+  isDragOver: boolean;
+  isDraggingRow: boolean;
+  onChange: (changes: Partial<Omit<TimelineTrack, "id">>) => void;
+  onRemove: () => void;
+  onCloseGaps: () => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+interface ToggleButtonProps {
+  active: boolean;
+  label: string;
+  activeClassName: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const ToggleButton: React.FC<ToggleButtonProps> = ({
+  active,
+  label,
+  activeClassName,
+  onClick,
+  children,
+}) => (
+  <button
+    type="button"
+    title={label}
+    aria-label={label}
+    aria-pressed={active}
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    className={`w-[18px] h-[18px] flex items-center justify-center rounded transition-colors ${
+      active
+        ? activeClassName
+        : "text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700"
+    }`}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Header of one timeline track: a drag handle to reorder tracks, the track's
+ * color and name (double-click to rename) and its mute, solo, lock and hide
+ * toggles. Color, height, closing gaps and removal are in the context
+ * menu.
+ */
+const TimelineTrackHeader: React.FC<TimelineTrackHeaderProps> = ({
+  track,
+  index,
+  canRemove,
+  isDragged,
+  isDragOver,
+  isDraggingRow,
+  onChange,
+  onRemove,
+  onCloseGaps,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}) => {
+  const { t } = useTranslation();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(track.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const displayName = track.name || t("timeline.track.defaultName", { number: index + 1 });
+
+  useEffect(() => {
+    if (isRenaming) inputRef.current?.select();
+  }, [isRenaming]);
+
+  const startRename = () => {
+    setDraftName(track.name || displayName);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const name = draftName.trim();
+    if (name !== track.name) onChange({ name });
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className={`flex-1 min-h-0 flex items-center gap-1 pr-1 transition-all duration-200
+            ${
+              isDragOver
+                ? "bg-blue-50 dark:bg-blue-900/20 border-2 border-dashed border-blue-300 dark:border-blue-500"
+                : ""
+            }
+            ${isDragged ? "opacity-50 bg-gray-100/50 dark:bg-darkBoxSub /50" : ""}
+            ${
+              isDraggingRow
+                ? "cursor-grabbing"
+                : "hover:bg-gray-100 dark:hover:bg-gray-800/30"
+            }
+            ${track.hidden ? "opacity-60" : ""}`}
+          style={{ flexGrow: track.height }}
+          onDragOver={onDragOver}
+          onDrop={onDrop}
+        >
+          <div
+            className={`w-5 h-5 flex-shrink-0 flex items-center justify-center rounded-md
+              transition-all duration-150
+              hover:bg-gray-200 dark:hover:bg-gray-700
+              active:scale-95
+              ${isDraggingRow ? "cursor-grabbing" : "cursor-grab"}
+              active:cursor-grabbing
+              group`}
+            draggable
+            onDragStart={onDragStart}
+            onDragEnd={onDragEnd}
+          >
+            <Grip
+              className="w-3 h-3 text-gray-400 dark:text-gray-500
+                group-hover:text-gray-600 dark:group-hover:text-gray-300
+                transition-colors duration-150"
+            />
+          </div>
+
+          <span
+            className="w-1 self-stretch my-1.5 rounded-full flex-shrink-0"
+            style={{ backgroundColor: track.color }}
+          />
+
+          {isRenaming ? (
+            <input
+              ref={inputRef}
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setIsRenaming(false);
+              }}
+              className="flex-1 min-w-0 h-5 px-1 text-[11px] rounded bg-white dark:bg-darkBoxSub border border-gray-300 dark:border-gray-600 outline-none"
+            />
+          ) : (
+            <span
+              className="flex-1 min-w-0 truncate text-[11px] text-gray-600 dark:text-gray-300 select-none"
+              title={displayName}
+              onDoubleClick={startRename}
+            >
+              {displayName}
+            </span>
+          )}
+
+          <ToggleButton
+            active={track.muted}
+            label={t(track.muted ? "timeline.unmute" : "timeline.mute")}
+            activeClassName="text-red-500 bg-red-500/10"
+            onClick={() => onChange({ muted: !track.muted })}
+          >
+            {track.muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+          </ToggleButton>
+          <ToggleButton
+            active={track.solo}
+            label={t("timeline.track.solo")}
+            activeClassName="text-yellow-500 bg-yellow-500/10"
+            onClick={() => onChange({ solo: !track.solo })}
+          >
+            <Headphones className="w-3 h-3" />
+          </ToggleButton>
+          <ToggleButton
+            active={track.locked}
+            label={t(track.locked ? "timeline.unlock" : "timeline.lock")}
+            activeClassName="text-primarioLogo bg-primarioLogo/10"
+            onClick={() => onChange({ locked: !track.locked })}
+          >
+            {track.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+          </ToggleButton>
+          <ToggleButton
+            active={track.hidden}
+            label={t(track.hidden ? "timeline.track.show" : "timeline.track.hide")}
+            activeClassName="text-gray-700 dark:text-gray-200 bg-gray-500/20"
+            onClick={() => onChange({ hidden: !track.hidden })}
+          >
+            {track.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+          </ToggleButton>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="dark:bg-slate-900 dark:border-slate-800">
+        <ContextMenuItem onClick={startRename}>
+          {t("timeline.track.rename")}
+        </ContextMenuItem>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>{t("timeline.track.color")}</ContextMenuSubTrigger>
+          <ContextMenuSubContent className="dark:bg-slate-900 dark:border-slate-800">
+            <div className="grid grid-cols-4 gap-1.5 p-1.5">
+              {TRACK_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={color}
+                  onClick={() => onChange({ color })}
+                  className={`w-5 h-5 rounded-full border-2 ${
+                    track.color === color ? "border-white" : "border-transparent"
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger>{t("timeline.track.height")}</ContextMenuSubTrigger>
+          <ContextMenuSubContent className="dark:bg-slate-900 dark:border-slate-800">
+            <ContextMenuRadioGroup
+              value={String(track.height)}
+              onValueChange={(value) => onChange({ height: Number(value) })}
+            >
+              {(Object.keys(TRACK_HEIGHTS) as (keyof typeof TRACK_HEIGHTS)[]).map((size) => (
+                <ContextMenuRadioItem key={size} value={String(TRACK_HEIGHTS[size])}>
+                  {t(`timeline.track.height.${size}`)}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuItem onClick={onCloseGaps} disabled={track.locked}>
+          {t("timeline.track.closeGaps")}
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          onClick={onRemove}
+          disabled={!canRemove}
+          className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400 focus:bg-red-50 dark:focus:bg-red-900/20"
+        >
+          {t("timeline.track.delete")}
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+export default TimelineTrackHeader;
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useTranslation } from "@/lib/i18n";
+import { ClipTransition, ClipTransitionType } from "../../types";
+import { TRANSITION_CONFIG } from "../../constants";
+import { useEditorContext } from "../../contexts/editor-context";
+import {
+  ClipBoundary,
+  CLIP_TRANSITION_TYPES,
+  getMaxTransitionDuration,
+  splitTransition,
+} from "../../utils/clip-transitions";
+
+/**
+ * Props for the TimelineTransitionMarker component
+ */
+interface TimelineTransitionMarkerProps {
+  /** The cut between two adjacent clips */
+  boundary: ClipBoundary;
+  /** Total duration of the timeline in frames */
+  totalDuration: number;
+  /** Callback to set or remove (undefined) the transition on the cut */
+  onTransitionChange: (
+    outgoingId: number,
+    transition: ClipTransition | undefined
+  ) => void;
+}
+
+/**
+ * Marker drawn on the cut between two adjacent clips.
+ * Without a transition it shows a small button that adds a crossfade; with
+ * one it shows the overlap area, and clicking it opens the transition settings.
+ */
+export default function TimelineTransitionMarker({
+  boundary,
+  totalDuration,
+  onTransitionChange,
+}: TimelineTransitionMarkerProps) {
+  const { t } = useTranslation();
+  const { fps } = useEditorContext();
+  const [open, setOpen] = useState(false);
+  const transition = boundary.outgoing.transition;
+  const maxDuration = getMaxTransitionDuration(
+    boundary.outgoing,
+    boundary.incoming
+  );
+
+  const before = transition
+    ? splitTransition(
+        transition.durationInFrames,
+        boundary.outgoing,
+        boundary.incoming
+      ).before
+    : 0;
+  const width = transition ? transition.durationInFrames : 0;
+
+  const update = (changes: Partial<ClipTransition>) => {
+    if (!transition) return;
+    onTransitionChange(boundary.outgoing.id, { ...transition, ...changes });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <div
+          className={`absolute top-1 bottom-1 z-40 cursor-pointer flex items-center justify-center ${
+            transition
+              ? "rounded-sm bg-black/30 dark:bg-white/25 border border-white/60"
+              : "opacity-0 hover:opacity-100 transition-opacity duration-200"
+          }`}
+          style={{
+            left: `${((boundary.frame - before) / totalDuration) * 100}%`,
+            width: transition
+              ? `${(width / totalDuration) * 100}%`
+              : "12px",
+            minWidth: "12px",
+            transform: transition ? undefined : "translateX(-50%)",
+          }}
+          title={
+            transition
+              ? t(`transitions.${transition.type}`)
+              : maxDuration > 0
+                ? t("transitions.add")
+                : t("transitions.noSpareMedia")
+          }
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (!transition && maxDuration > 0) {
+              onTransitionChange(boundary.outgoing.id, {
+                type: "crossfade",
+                durationInFrames: Math.min(
+                  TRANSITION_CONFIG.defaultDurationInFrames,
+                  maxDuration
+                ),
+              });
+            }
+          }}
+        >
+          <div className="w-2 h-2 rotate-45 bg-white border border-slate-900/60" />
+        </div>
+      </PopoverTrigger>
+      {transition && (
+        <PopoverContent
+          className="w-60 p-3 space-y-3 dark:bg-slate-900 dark:border-slate-800"
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">
+              {t("transitions.title")}
+            </span>
+            <button
+              type="button"
+              title={t("transitions.remove")}
+              className="text-muted-foreground hover:text-red-500"
+              onClick={() => {
+                onTransitionChange(boundary.outgoing.id, undefined);
+                setOpen(false);
+              }}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <Select
+            value={transition.type}
+            onValueChange={(type) =>
+              update({ type: type as ClipTransitionType })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CLIP_TRANSITION_TYPES.map((type) => (
+                <SelectItem key={type} value={type} className="text-xs">
+                  {t(`transitions.${type}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{t("transitions.duration")}</span>
+              <span>{(transition.durationInFrames / fps).toFixed(2)}s</span>
+            </div>
+            <Slider
+              min={TRANSITION_CONFIG.minDurationInFrames}
+              max={maxDuration}
+              step={1}
+              value={[transition.durationInFrames]}
+              onValueChange={([durationInFrames]) =>
+                update({ durationInFrames })
+              }
+            />
+          </div>
+        </PopoverContent>
+      )}
+    </Popover>
+  );
+}
@@ -0,0 +1,39 @@
+import React from "react";
+import { useTranslation } from "@/lib/i18n";
+import { useEditorContext } from "../../contexts/editor-context";
+import { TrimReadout } from "../../hooks/use-timeline-trim-tools";
+import { formatTimecode } from "../../utils/format-utils";
+
+interface TimelineTrimReadoutProps {
+  readout: TrimReadout;
+  /** Offset in pixels from the top of the timeline to the top of the row */
+  top: number;
+}
+
+/**
+ * Source timecodes shown above a clip while it is slipped, slid or rolled
+ */
+export const TimelineTrimReadout: React.FC<TimelineTrimReadoutProps> = ({
+  readout,
+  top,
+}) => {
+  const { t } = useTranslation();
+  const { fps } = useEditorContext();
+
+  return (
+    <div
+      className="absolute z-50 pointer-events-none -translate-y-full whitespace-nowrap flex items-center gap-2 px-2 py-0.5 rounded-md text-[10px] font-mono bg-gray-900/90 text-white shadow-md"
+      style={{ left: `${readout.left}%`, top }}
+    >
+      <span className="font-sans font-medium text-primarioLogo">
+        {t(`timeline.trimTool.${readout.tool}`)}
+      </span>
+      {readout.entries.map((entry, index) => (
+        <span key={index}>
+          <span className="text-gray-400">{t(`timeline.trimTool.${entry.label}`)}</span>{" "}
+          {formatTimecode(entry.frames, fps)}
+        </span>
+      ))}
+    </div>
+  );
+};
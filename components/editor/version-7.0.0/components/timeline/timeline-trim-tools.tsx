@@ -0,0 +1,67 @@
+import React from "react";
+import { Columns2, MousePointer2, MoveHorizontal, SquareSplitHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useTranslation } from "@/lib/i18n";
+import { useTimeline } from "../../contexts/timeline-context";
+import { TrimTool } from "../../types";
+
+const TOOLS: { tool: TrimTool; icon: React.ElementType }[] = [
+  { tool: "select", icon: MousePointer2 },
+  { tool: "slip", icon: MoveHorizontal },
+  { tool: "slide", icon: SquareSplitHorizontal },
+  { tool: "roll", icon: Columns2 },
+];
+
+/**
+ * Buttons to pick the tool used when dragging video and sound clips: the
+ * normal select tool, or slip, slide and roll
+ */
+export const TimelineTrimTools: React.FC = () => {
+  const { t } = useTranslation();
+  const { trimTool, setTrimTool } = useTimeline();
+
+  return (
+    <TooltipProvider delayDuration={50}>
+      <div className="flex items-center gap-0.5">
+        {TOOLS.map(({ tool, icon: Icon }) => (
+          <Tooltip key={tool}>
+            <TooltipTrigger asChild>
+              <Button
+                onClick={() => setTrimTool(tool)}
+                size="icon"
+                variant="ghost"
+                aria-pressed={trimTool === tool}
+                className={`h-7 w-7 hover:bg-gray-100/80 dark:hover:bg-gray-800/80 ${
+                  trimTool === tool
+                    ? "text-primarioLogo bg-primarioLogo/10"
+                    : "text-gray-700 dark:text-zinc-200 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                <Icon className="h-3.5 w-3.5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent
+              side="top"
+              sideOffset={5}
+              className="bg-white dark:bg-darkBox text-xs px-2 py-1 rounded-md z-[9999] border border-gray-200 dark:border-gray-700"
+              align="start"
+            >
+              <div className="text-gray-700 dark:text-zinc-200">
+                {t(`timeline.trimTool.${tool}`)}
+              </div>
+              <div className="text-[10px] text-gray-500 dark:text-zinc-400">
+                {t(`timeline.trimTool.${tool}Description`)}
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </TooltipProvider>
+  );
+};
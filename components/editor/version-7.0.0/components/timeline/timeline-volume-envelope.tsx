@@ -0,0 +1,239 @@
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { useTranslation } from "@/lib/i18n";
+import { Overlay } from "../../types";
+import {
+  AudioOverlay,
+  getEnvelopeGain,
+  getFadeFrames,
+  getFadeGain,
+  hasVolumeShaping,
+  moveVolumePoint,
+  removeVolumePoint,
+  upsertVolumePoint,
+} from "../../utils/volume-envelope";
+
+interface TimelineVolumeEnvelopeProps {
+  /** The video or sound overlay whose levels are displayed */
+  overlay: AudioOverlay;
+  /** Whether the owning timeline item is selected */
+  isSelected: boolean;
+  /** Callback with the updated overlay after a fade or envelope edit */
+  onChange: (overlay: Overlay) => void;
+}
+
+/** Samples along the item used to draw the curve between its points */
+const CURVE_SAMPLES = 48;
+
+type AudioStyles = AudioOverlay["styles"];
+
+/**
+ * TimelineVolumeEnvelope Component
+ *
+ * Rubber-band line over a video or sound item showing its level over time:
+ * the volume envelope shaped by the fades. Once the item is selected, the
+ * fade handles in the top corners drag in and out, envelope points drag
+ * around or are removed with a double-click, and double-clicking the line
+ * adds a point.
+ */
+export const TimelineVolumeEnvelope: React.FC<TimelineVolumeEnvelopeProps> = ({
+  overlay,
+  isSelected,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+  const laneRef = useRef<HTMLDivElement>(null);
+  // Styles being dragged; committed once on mouseup
+  const [draft, setDraft] = useState<AudioStyles | null>(null);
+
+  const styles = draft ?? overlay.styles;
+  const duration = overlay.durationInFrames;
+  const points = useMemo(
+    () => [...(styles.volumeEnvelope ?? [])].sort((a, b) => a.frame - b.frame),
+    [styles.volumeEnvelope]
+  );
+  const fades = getFadeFrames(styles, duration);
+
+  const curve = useMemo(() => {
+    const frames = new Set<number>([0, duration, fades.fadeIn, duration - fades.fadeOut]);
+    points.forEach((point) => frames.add(point.frame));
+    for (let i = 1; i < CURVE_SAMPLES; i++) frames.add((i / CURVE_SAMPLES) * duration);
+
+    return Array.from(frames)
+      .filter((frame) => frame >= 0 && frame <= duration)
+      .sort((a, b) => a - b)
+      .map((frame) => {
+        const gain =
+          getEnvelopeGain(points, frame) * getFadeGain(styles, duration, frame);
+        return `${(frame / duration) * 100},${(1 - gain) * 100}`;
+      })
+      .join(" ");
+  }, [points, styles, duration, fades.fadeIn, fades.fadeOut]);
+
+  const getPointerPosition = useCallback(
+    (clientX: number, clientY: number) => {
+      const rect = laneRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0 || rect.height === 0) {
+        return { frame: 0, gain: 1 };
+      }
+      const x = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+      const y = Math.min(1, Math.max(0, (clientY - rect.top) / rect.height));
+      return { frame: Math.round(x * duration), gain: 1 - y };
+    },
+    [duration]
+  );
+
+  /**
+   * Shared drag handling: `update` maps the pointer to new styles, previewed
+   * locally and committed as a single change on release
+   */
+  const startDrag = useCallback(
+    (
+      e: React.MouseEvent,
+      update: (position: { frame: number; gain: number }) => AudioStyles
+    ) => {
+      // Keep the timeline item from starting its own drag
+      e.stopPropagation();
+      if (e.button !== 0) return;
+
+      const startX = e.clientX;
+      const startY = e.clientY;
+      let latest: AudioStyles | null = null;
+
+      const onMouseMove = (moveEvent: MouseEvent) => {
+        if (
+          !latest &&
+          Math.abs(moveEvent.clientX - startX) < 3 &&
+          Math.abs(moveEvent.clientY - startY) < 3
+        ) {
+          return;
+        }
+        latest = update(getPointerPosition(moveEvent.clientX, moveEvent.clientY));
+        setDraft(latest);
+      };
+
+      const onMouseUp = () => {
+        window.removeEventListener("mousemove", onMouseMove);
+        setDraft(null);
+        if (latest) onChange({ ...overlay, styles: latest } as Overlay);
+      };
+
+      window.addEventListener("mousemove", onMouseMove);
+      window.addEventListener("mouseup", onMouseUp, { once: true });
+    },
+    [getPointerPosition, onChange, overlay]
+  );
+
+  const handleFadeMouseDown = (edge: "in" | "out", e: React.MouseEvent) =>
+    startDrag(e, ({ frame }) =>
+      edge === "in"
+        ? { ...overlay.styles, fadeInFrames: frame }
+        : { ...overlay.styles, fadeOutFrames: duration - frame }
+    );
+
+  const handlePointMouseDown = (index: number, e: React.MouseEvent) =>
+    startDrag(e, (position) => ({
+      ...overlay.styles,
+      volumeEnvelope: moveVolumePoint(points, index, position),
+    }));
+
+  const handleRemovePoint = (index: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onChange({
+      ...overlay,
+      styles: {
+        ...overlay.styles,
+        volumeEnvelope: removeVolumePoint(points, index),
+      },
+    } as Overlay);
+  };
+
+  const handleAddPoint = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onChange({
+      ...overlay,
+      styles: {
+        ...overlay.styles,
+        volumeEnvelope: upsertVolumePoint(
+          points,
+          getPointerPosition(e.clientX, e.clientY)
+        ),
+      },
+    } as Overlay);
+  };
+
+  // Unselected items only show the line when the level changes over time
+  if (!isSelected && !hasVolumeShaping(overlay)) return null;
+
+  const left = (frame: number) => `${(frame / duration) * 100}%`;
+  const handleClass =
+    "absolute w-2 h-2 pointer-events-auto cursor-ew-resize bg-white border border-black/60";
+
+  return (
+    <div
+      ref={laneRef}
+      className="absolute inset-x-0 top-1 bottom-1 z-30 pointer-events-none"
+    >
+      <svg
+        className="absolute inset-0 w-full h-full overflow-visible"
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+      >
+        <polyline
+          points={curve}
+          fill="none"
+          stroke="currentColor"
+          strokeOpacity={isSelected ? 0.9 : 0.5}
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+        {isSelected && (
+          <polyline
+            points={curve}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={8}
+            vectorEffect="non-scaling-stroke"
+            className="cursor-copy"
+            style={{ pointerEvents: "stroke" }}
+            onDoubleClick={handleAddPoint}
+          >
+            <title>{t("timeline.volume.line")}</title>
+          </polyline>
+        )}
+      </svg>
+      {isSelected && (
+        <>
+          <div
+            title={t("timeline.volume.fadeIn")}
+            className={`${handleClass} top-0 rounded-br-sm`}
+            style={{ left: left(fades.fadeIn), transform: "translate(-50%, -50%)" }}
+            onMouseDown={(e) => handleFadeMouseDown("in", e)}
+          />
+          <div
+            title={t("timeline.volume.fadeOut")}
+            className={`${handleClass} top-0 rounded-bl-sm`}
+            style={{
+              left: left(duration - fades.fadeOut),
+              transform: "translate(-50%, -50%)",
+            }}
+            onMouseDown={(e) => handleFadeMouseDown("out", e)}
+          />
+          {points.map((point, index) => (
+            <div
+              key={`${index}-${point.frame}`}
+              title={t("timeline.volume.point")}
+              className="absolute w-2 h-2 rounded-full pointer-events-auto cursor-move bg-yellow-300 border border-black/60"
+              style={{
+                left: left(point.frame),
+                top: `${(1 - point.gain) * 100}%`,
+                transform: "translate(-50%, -50%)",
+              }}
+              onMouseDown={(e) => handlePointMouseDown(index, e)}
+              onDoubleClick={(e) => handleRemovePoint(index, e)}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -8,23 +8,27 @@
 
 "use client";
 
-import React, { useState, useCallback, useEffect } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import { useTimeline } from "../../contexts/timeline-context";
 import { useTimelineDragAndDrop } from "../../hooks/use-timeline-drag-and-drop";
 import { useTimelineEventHandlers } from "../../hooks/use-timeline-event-handlers";
+import { useTimelineMarquee } from "../../hooks/use-timeline-marquee";
 import { useTimelineState } from "../../hooks/use-timeline-state";
-import { Overlay, OverlayType } from "../../types";
+import { useTimelineTrimTools } from "../../hooks/use-timeline-trim-tools";
+import { ClipTransition, Overlay, OverlayType } from "../../types";
 import GhostMarker from "./ghost-marker";
 import TimelineGrid from "./timeline-grid";
 import TimelineMarker from "./timeline-marker";
+import TimelineInOutRange from "./timeline-in-out-range";
+import TimelineTrackHeader from "./timeline-track-header";
+import { TimelineTrimReadout } from "./timeline-trim-readout";
 import TimeMarkers from "./timeline-markers";
-import { Grip, Loader2, Plus } from "lucide-react";
+import { Loader2, Plus } from "lucide-react";
 import {
-  ROW_HEIGHT,
   SHOW_LOADING_PROJECT_ALERT,
   SNAPPING_CONFIG,
   MAX_ROWS,
-  FPS,
+  TRANSITION_CONFIG,
 } from "../../constants";
 import { useAssetLoading } from "../../contexts/asset-loading-context";
 import { useLocalMedia } from "../../contexts/local-media-context";
@@ -34,11 +38,17 @@ import { useTimelinePositioning } from "../../hooks/use-timeline-positioning";
 import { MobileNavBar } from "../mobile/mobile-nav-bar";
 import { useTimelineSnapping } from "../../hooks/use-timeline-snapping";
 import {
-  ContextMenu,
-  ContextMenuContent,
-  ContextMenuItem,
-  ContextMenuTrigger,
-} from "@/components/ui/context-menu";
+  applyTransition,
+  findBoundaryNear,
+} from "../../utils/clip-transitions";
+import { expandSelectionToGroups } from "../../utils/overlay-selection";
+import { canBeLinked, ripplesRow } from "../../utils/timeline-edit-modes";
+import {
+  getRowAtOffset,
+  getRowTop,
+  getTrackHeights,
+  isRowLocked,
+} from "../../utils/timeline-tracks";
 
 interface TimelineProps {
   /** Array of overlay objects to be displayed on the timeline */
@@ -92,10 +102,44 @@ const Timeline: React.FC<TimelineProps> = ({
     timelineRef,
     zoomScale,
     handleWheelZoom,
-    addRow,
-    removeRow,
+    trimTool,
   } = useTimeline();
 
+  // Multi-selection and group operations
+  const {
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
+    deleteOverlays,
+    duplicateOverlays,
+    groupOverlays,
+    ungroupOverlays,
+    inPoint,
+    outPoint,
+    tracks,
+    updateTrack,
+    moveTrack,
+    removeTrack,
+    addTrack,
+    editMode,
+    rippleScope,
+    closeGaps,
+    removeGap,
+    placeOverlay,
+    linkOverlays,
+    unlinkOverlays,
+    detachAudio,
+    offerLinkedClipMove,
+    fps,
+  } = useEditorContext();
+
+  // Height of each row; tracks can be resized from their header
+  const trackHeights = useMemo(
+    () => getTrackHeights(tracks, visibleRows),
+    [tracks, visibleRows]
+  );
+  const rowsHeight = trackHeights.reduce((sum, height) => sum + height, 0);
+
   // State for context menu visibility
   const [isContextMenuOpen, setIsContextMenuOpen] = useState(false);
 
@@ -113,8 +157,8 @@ const Timeline: React.FC<TimelineProps> = ({
     setGhostMarkerPosition,
   } = useTimelineState(durationInFrames, visibleRows, timelineRef);
 
-  const { handleDragStart, handleDrag, handleDragEnd } = useTimelineDragAndDrop(
-    {
+  const { handleDragStart, handleDrag, handleDragEnd, canDragOverlay } =
+    useTimelineDragAndDrop({
       overlays,
       durationInFrames,
       onOverlayChange,
@@ -123,8 +167,25 @@ const Timeline: React.FC<TimelineProps> = ({
       timelineRef,
       dragInfo,
       maxRows: visibleRows,
-    }
-  );
+      selectedOverlayIds,
+      tracks,
+      onOverlaysChange: setOverlays,
+      editMode,
+      rippleScope,
+      onLinkedItemMoved: offerLinkedClipMove,
+      fps,
+    });
+
+  const { marquee, handleMarqueeMouseDown, withMarqueeClickGuard } =
+    useTimelineMarquee({
+      timelineRef,
+      overlays,
+      durationInFrames,
+      visibleRows,
+      rowHeights: trackHeights,
+      selectedOverlayIds,
+      selectOverlays,
+    });
 
   const { handleMouseMove, handleTouchMove, handleTimelineMouseLeave } =
     useTimelineEventHandlers({
@@ -147,6 +208,15 @@ const Timeline: React.FC<TimelineProps> = ({
     snapThreshold: SNAPPING_CONFIG.thresholdFrames,
   });
 
+  const { startTrimTool, trimReadout } = useTimelineTrimTools({
+    overlays,
+    durationInFrames,
+    timelineRef,
+    trimTool,
+    onOverlaysChange: setOverlays,
+    fps,
+  });
+
   // Event Handlers
   const combinedHandleDragStart = useCallback(
     (
@@ -155,22 +225,56 @@ const Timeline: React.FC<TimelineProps> = ({
       clientY: number,
       action: "move" | "resize-start" | "resize-end"
     ) => {
+      // Items on locked tracks stay where they are
+      if (!canDragOverlay(overlay)) return;
+      // Slip, slide and roll take over presses on video and sound clips
+      if (startTrimTool(overlay, clientX, action)) return;
       timelineStateHandleDragStart(overlay, clientX, clientY, action);
       handleDragStart(overlay, clientX, clientY, action);
     },
-    [timelineStateHandleDragStart, handleDragStart]
+    [timelineStateHandleDragStart, handleDragStart, canDragOverlay, startTrimTool]
+  );
+
+  // Items that are part of a multi-selection act for the whole selection
+  const isInMultiSelection = useCallback(
+    (id: number) =>
+      selectedOverlayIds.length > 1 && selectedOverlayIds.includes(id),
+    [selectedOverlayIds]
   );
 
   const handleDeleteItem = useCallback(
-    (id: number) => onOverlayDelete(id),
-    [onOverlayDelete]
+    (id: number) =>
+      isInMultiSelection(id)
+        ? deleteOverlays(selectedOverlayIds)
+        : onOverlayDelete(id),
+    [isInMultiSelection, deleteOverlays, selectedOverlayIds, onOverlayDelete]
   );
 
   const handleDuplicateItem = useCallback(
-    (id: number) => onOverlayDuplicate(id),
-    [onOverlayDuplicate]
+    (id: number) =>
+      isInMultiSelection(id)
+        ? duplicateOverlays(selectedOverlayIds)
+        : onOverlayDuplicate(id),
+    [isInMultiSelection, duplicateOverlays, selectedOverlayIds, onOverlayDuplicate]
+  );
+
+  const handleGroupSelection = useCallback(
+    () => groupOverlays(selectedOverlayIds),
+    [groupOverlays, selectedOverlayIds]
+  );
+
+  const handleUngroupItem = useCallback(
+    (id: number) => ungroupOverlays(expandSelectionToGroups([id], overlays)),
+    [ungroupOverlays, overlays]
   );
 
+  // A selection of one clip with captions or sounds can be linked
+  const canLinkSelection = useMemo(() => {
+    const selected = overlays.filter((o) => selectedOverlayIds.includes(o.id));
+    const clips = selected.filter((o) => o.type === OverlayType.VIDEO);
+    return clips.length === 1 && selected.some(canBeLinked);
+  }, [overlays, selectedOverlayIds]);
+
   const handleItemHover = useCallback(
     (itemId: number, hoverPosition: number) => {
       setLastKnownHoverInfo({
@@ -195,64 +299,26 @@ const Timeline: React.FC<TimelineProps> = ({
     []
   );
 
-  const handleRemoveGap = useCallback(
-    (rowIndex: number, gapStart: number, gapEnd: number) => {
-      const overlaysToShift = overlays
-        .filter((overlay) => overlay.row === rowIndex && overlay.from >= gapEnd)
-        .sort((a, b) => a.from - b.from);
-
-      if (overlaysToShift.length === 0) return;
-
-      const firstOverlayAfterGap = overlaysToShift[0];
-      const gapSize = firstOverlayAfterGap.from - gapStart;
-
-      if (gapSize <= 0) return;
+  const handleLinkSelection = useCallback(
+    () => linkOverlays(selectedOverlayIds),
+    [linkOverlays, selectedOverlayIds]
+  );
 
-      const updates = overlaysToShift.map((overlay) => ({
-        ...overlay,
-        from: overlay.from - gapSize,
-      }));
+  const handleUnlinkItem = useCallback(
+    (id: number) => unlinkOverlays([id]),
+    [unlinkOverlays]
+  );
 
-      updates.forEach((update) => onOverlayChange(update));
+  const handleTransitionChange = useCallback(
+    (outgoingId: number, transition: ClipTransition | undefined) => {
+      setOverlays(applyTransition(overlays, outgoingId, transition));
     },
-    [overlays, onOverlayChange]
+    [overlays, setOverlays]
   );
 
+  // Tracks move with their overlays; the tracks in between shift over
   const handleReorderRows = (fromIndex: number, toIndex: number) => {
-    const updatedOverlays = overlays.map((overlay) => {
-      if (overlay.row === fromIndex) {
-        return { ...overlay, row: toIndex };
-      }
-      if (overlay.row === toIndex) {
-        return { ...overlay, row: fromIndex };
-      }
-      return overlay;
-    });
-
-    // Update your overlays state here
-    setOverlays(updatedOverlays);
-  };
-
-  // Handle deleting a specific row
-  const handleDeleteRow = (rowIndex: number) => {
-    // First, delete all overlays in that row
-    const overlaysInRow = overlays.filter((overlay) => overlay.row === rowIndex);
-    overlaysInRow.forEach((overlay) => onOverlayDelete(overlay.id));
-
-    // Then adjust row indices for rows below the deleted one
-    const updatedOverlays = overlays
-      .filter((overlay) => overlay.row !== rowIndex)
-      .map((overlay) => {
-        if (overlay.row > rowIndex) {
-          return { ...overlay, row: overlay.row - 1 };
-        }
-        return overlay;
-      });
-
-    setOverlays(updatedOverlays);
-
-    // Remove the row from the timeline
-    removeRow();
+    moveTrack(fromIndex, toIndex);
   };
 
   // Add state for row dragging
@@ -301,6 +367,7 @@ const Timeline: React.FC<TimelineProps> = ({
         e.dataTransfer.getData("application/reelmotion-sound") ||
         e.dataTransfer.getData("application/reelmotion-text") ||
         e.dataTransfer.getData("application/reelmotion-sticker") ||
+        e.dataTransfer.getData("application/reelmotion-shape") ||
         e.dataTransfer.getData("application/reelmotion-library-image") ||
         e.dataTransfer.getData("application/reelmotion-library-video");
 
@@ -313,7 +380,8 @@ const Timeline: React.FC<TimelineProps> = ({
         const dropY = e.clientY - timelineRect.top;
         const headerHeight = 21;
         const rowY = dropY - headerHeight;
-        const targetRow = Math.max(0, Math.min(visibleRows - 1, Math.floor(rowY / ROW_HEIGHT)));
+        const targetRow = getRowAtOffset(trackHeights, rowY);
+        if (isRowLocked(tracks, targetRow)) return;
         const { width: compWidth, height: compHeight } = getAspectRatioDimensions();
 
         for (let i = 0; i < files.length; i++) {
@@ -349,7 +417,7 @@ const Timeline: React.FC<TimelineProps> = ({
                 top: 0,
                 width: compWidth,
                 height: compHeight,
-                durationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * FPS) : 200,
+                durationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * fps) : 200,
                 from: startFrame,
                 rotation: 0,
                 row: targetRow,
@@ -358,6 +426,7 @@ const Timeline: React.FC<TimelineProps> = ({
                 content: mediaFile.path,
                 src: mediaFile.path,
                 videoStartTime: 0,
+                mediaDurationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * fps) : undefined,
                 styles: {
                   opacity: 1,
                   zIndex: 100,
@@ -393,7 +462,7 @@ const Timeline: React.FC<TimelineProps> = ({
                 top: 0,
                 width: 0,
                 height: 0,
-                durationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * FPS) : 200,
+                durationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * fps) : 200,
                 from: startFrame,
                 rotation: 0,
                 row: targetRow,
@@ -401,6 +470,7 @@ const Timeline: React.FC<TimelineProps> = ({
                 type: OverlayType.SOUND,
                 content: mediaFile.name,
                 src: mediaFile.path,
+                mediaDurationInFrames: mediaFile.duration ? Math.round(mediaFile.duration * fps) : undefined,
                 styles: {
                   volume: 1,
                 },
@@ -416,10 +486,58 @@ const Timeline: React.FC<TimelineProps> = ({
       }
     }
 
+    // Transitions are dropped on the cut between two adjacent clips
+    const transitionData = e.dataTransfer.getData(
+      "application/reelmotion-transition"
+    );
+    if (transitionData) {
+      const timelineRect = timelineRef.current?.getBoundingClientRect();
+      if (!timelineRect) return;
+
+      const dropFrame =
+        ((e.clientX - timelineRect.left) / timelineRect.width) *
+        durationInFrames;
+      const headerHeight = 21;
+      const targetRow = getRowAtOffset(
+        trackHeights,
+        e.clientY - timelineRect.top - headerHeight
+      );
+      if (isRowLocked(tracks, targetRow)) return;
+      // Allow a few pixels of slack at high zoom levels as well
+      const threshold = Math.max(
+        SNAPPING_CONFIG.thresholdFrames,
+        TRANSITION_CONFIG.dropThresholdFrames / zoomScale
+      );
+
+      const boundary = findBoundaryNear(
+        overlays,
+        targetRow,
+        dropFrame,
+        threshold
+      );
+      if (!boundary) return;
+
+      try {
+        const data = JSON.parse(transitionData);
+        setOverlays(
+          applyTransition(overlays, boundary.outgoing.id, {
+            type: data.type,
+            durationInFrames:
+              data.durationInFrames ??
+              TRANSITION_CONFIG.defaultDurationInFrames,
+          })
+        );
+      } catch (error) {
+        console.error("Error dropping transition:", error);
+      }
+      return;
+    }
+
     const videoData = e.dataTransfer.getData("application/reelmotion-video");
     const soundData = e.dataTransfer.getData("application/reelmotion-sound");
     const textData = e.dataTransfer.getData("application/reelmotion-text");
     const stickerData = e.dataTransfer.getData("application/reelmotion-sticker");
+    const shapeData = e.dataTransfer.getData("application/reelmotion-shape");
     const libraryImageData = e.dataTransfer.getData("application/reelmotion-library-image");
     const libraryVideoData = e.dataTransfer.getData("application/reelmotion-library-video");
     
@@ -438,8 +556,19 @@ const Timeline: React.FC<TimelineProps> = ({
       // Calculate row from Y coordinate (accounting for header)
       const headerHeight = 21;
       const rowY = dropY - headerHeight;
-      const targetRow = Math.max(0, Math.min(visibleRows - 1, Math.floor(rowY / ROW_HEIGHT)));
+      const targetRow = getRowAtOffset(trackHeights, rowY);
+      // Nothing can be dropped onto a locked track
+      if (isRowLocked(tracks, targetRow)) return null;
       
+      // Rows that ripple insert at the pointer; other rows append after
+      // their last item
+      if (ripplesRow(editMode, targetRow)) {
+        return {
+          targetRow,
+          newOverlayStartFrame: Math.max(framePosition, 0),
+        };
+      }
+
       // Find the last occupied frame in the target row
       const overlaysInRow = overlays.filter(o => o.row === targetRow);
       const lastFrameInRow = overlaysInRow.length > 0
@@ -472,13 +601,12 @@ const Timeline: React.FC<TimelineProps> = ({
             };
             
             video.onerror = () => {
-              resolve(200 / 30); // Fallback
+              resolve(200 / fps); // Fallback: 200 frames
             };
           });
         };
         
         const videoDuration = await getVideoDuration(data.video_url);
-        const fps = 30;
         const videoDurationInFrames = Math.floor(videoDuration * fps);
         
         const newOverlay: Overlay = {
@@ -496,6 +624,7 @@ const Timeline: React.FC<TimelineProps> = ({
           content: data.video_url,
           src: data.video_url,
           videoStartTime: 0,
+          mediaDurationInFrames: videoDurationInFrames || undefined,
           styles: {
             opacity: 1,
             zIndex: 100,
@@ -504,8 +633,7 @@ const Timeline: React.FC<TimelineProps> = ({
           },
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping video:", error);
       }
@@ -528,14 +656,14 @@ const Timeline: React.FC<TimelineProps> = ({
           height: 100,
           rotation: 0,
           isDragging: false,
-          durationInFrames: data.duration * 30,
+          durationInFrames: Math.round(data.duration * fps),
+          mediaDurationInFrames: data.duration ? Math.round(data.duration * fps) : undefined,
           styles: {
             opacity: 1,
           },
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping sound:", error);
       }
@@ -561,8 +689,7 @@ const Timeline: React.FC<TimelineProps> = ({
           styles: data.styles,
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping text:", error);
       }
@@ -593,11 +720,38 @@ const Timeline: React.FC<TimelineProps> = ({
           },
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping sticker:", error);
       }
+    } else if (shapeData) {
+      try {
+        const data = JSON.parse(shapeData);
+        const position = getDropPosition();
+        if (!position) return;
+
+        const { width: compWidth, height: compHeight } = getAspectRatioDimensions();
+
+        const newOverlay: Overlay = {
+          id: Date.now(),
+          type: OverlayType.SHAPE,
+          content: data.content,
+          from: position.newOverlayStartFrame,
+          row: position.targetRow,
+          left: Math.round((compWidth - data.width) / 2),
+          top: Math.round((compHeight - data.height) / 2),
+          width: data.width,
+          height: data.height,
+          rotation: 0,
+          isDragging: false,
+          durationInFrames: 90,
+          styles: data.styles,
+        };
+
+        placeOverlay(newOverlay);
+      } catch (error) {
+        console.error("Error dropping shape:", error);
+      }
     } else if (libraryImageData) {
       try {
         const data = JSON.parse(libraryImageData);
@@ -629,8 +783,7 @@ const Timeline: React.FC<TimelineProps> = ({
           },
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping library image:", error);
       }
@@ -665,8 +818,7 @@ const Timeline: React.FC<TimelineProps> = ({
           },
         };
         
-        setOverlays([...overlays, newOverlay]);
-        setSelectedOverlayId(newOverlay.id);
+        placeOverlay(newOverlay);
       } catch (error) {
         console.error("Error dropping library video:", error);
       }
@@ -752,68 +904,33 @@ const Timeline: React.FC<TimelineProps> = ({
   return (
     <div className="flex flex-col max-h-60 overflow-scroll">
       <div className="flex ">
-        {/* Row Drag Handles Column */}
-        <div className="hidden md:block w-7 flex-shrink-0 border-l border-r border-gray-200 dark:border-gray-100/10 bg-gray-50 dark:bg-darkBox ">
+        {/* Track Headers Column */}
+        <div className="hidden md:block w-48 flex-shrink-0 border-l border-r border-gray-200 dark:border-gray-100/10 bg-gray-50 dark:bg-darkBox ">
           {/* Match TimeMarkers height */}
           <div className="h-[1.3rem] bg-gray-100 dark:bg-darkBoxSub /50" />
 
           {/* Match the grid layout exactly */}
           <div
             className="flex flex-col gap-2 pt-2 pb-2"
-            style={{ height: `${visibleRows * ROW_HEIGHT}px` }}
+            style={{ height: `${rowsHeight}px` }}
           >
-            {Array.from({ length: visibleRows }).map((_, rowIndex) => (
-              <ContextMenu key={`drag-${rowIndex}`}>
-                <ContextMenuTrigger asChild>
-                  <div
-                    className={`flex-1 flex items-center justify-center transition-all duration-200 
-                  ${
-                    dragOverRowIndex === rowIndex
-                      ? "bg-blue-50 dark:bg-blue-900/20 border-2 border-dashed border-blue-300 dark:border-blue-500"
-                      : ""
-                  }
-                  ${
-                    draggedRowIndex === rowIndex
-                      ? "opacity-50 bg-gray-100/50 dark:bg-darkBoxSub /50"
-                      : ""
-                  }
-                  ${
-                    isDraggingRow
-                      ? "cursor-grabbing"
-                      : "hover:bg-gray-100 dark:hover:bg-gray-800/30"
-                  }`}
-                    onDragOver={(e) => handleRowDragOver(e, rowIndex)}
-                    onDrop={() => handleRowDrop(rowIndex)}
-                  >
-                    <div
-                      className={`w-5 h-5 flex items-center justify-center rounded-md 
-                    transition-all duration-150 
-                    hover:bg-gray-200 dark:hover:bg-gray-700
-                    active:scale-95
-                    ${isDraggingRow ? "cursor-grabbing" : "cursor-grab"} 
-                    active:cursor-grabbing
-                    group`}
-                      draggable
-                      onDragStart={(e) => handleRowDragStart(e, rowIndex)}
-                      onDragEnd={handleRowDragEnd}
-                    >
-                      <Grip
-                        className="w-3 h-3 text-gray-400 dark:text-gray-500 
-                    group-hover:text-gray-600 dark:group-hover:text-gray-300
-                    transition-colors duration-150"
-                      />
-                    </div>
-                  </div>
-                </ContextMenuTrigger>
-                <ContextMenuContent className="dark:bg-slate-900 dark:border-slate-800">
-                  <ContextMenuItem
-                    onClick={() => handleDeleteRow(rowIndex)}
-                    className="text-red-600 dark:text-red-400 focus:text-red-600 dark:focus:text-red-400 focus:bg-red-50 dark:focus:bg-red-900/20"
-                  >
-                    Delete Row
-                  </ContextMenuItem>
-                </ContextMenuContent>
-              </ContextMenu>
+            {tracks.slice(0, visibleRows).map((track, rowIndex) => (
+              <TimelineTrackHeader
+                key={track.id}
+                track={track}
+                index={rowIndex}
+                canRemove={!track.locked}
+                isDragged={draggedRowIndex === rowIndex}
+                isDragOver={dragOverRowIndex === rowIndex}
+                isDraggingRow={isDraggingRow}
+                onChange={(changes) => updateTrack(rowIndex, changes)}
+                onRemove={() => removeTrack(rowIndex)}
+                onCloseGaps={() => closeGaps(rowIndex)}
+                onDragStart={(e) => handleRowDragStart(e, rowIndex)}
+                onDragOver={(e) => handleRowDragOver(e, rowIndex)}
+                onDrop={() => handleRowDrop(rowIndex)}
+                onDragEnd={handleRowDragEnd}
+              />
             ))}
           </div>
         </div>
@@ -840,7 +957,8 @@ const Timeline: React.FC<TimelineProps> = ({
             onMouseUp={handleDragEnd}
             onTouchEnd={handleDragEnd}
             onMouseLeave={handleTimelineMouseLeave}
-            onClick={onTimelineClick}
+            onMouseDown={handleMarqueeMouseDown}
+            onClick={withMarqueeClickGuard(onTimelineClick)}
             onDrop={handleTimelineDrop}
             onDragOver={handleTimelineDragOver}
             onDragLeave={handleTimelineDragLeave}
@@ -852,9 +970,17 @@ const Timeline: React.FC<TimelineProps> = ({
                   durationInFrames={durationInFrames}
                   handleTimelineClick={setCurrentFrame}
                   zoomScale={zoomScale}
+                  fps={fps}
                 />
               </div>
 
+              {/* Export range marked with the I / O keys */}
+              <TimelineInOutRange
+                inPoint={inPoint}
+                outPoint={outPoint}
+                totalDuration={durationInFrames}
+              />
+
               {/* Current frame indicator */}
               <TimelineMarker
                 currentFrame={currentFrame}
@@ -876,6 +1002,11 @@ const Timeline: React.FC<TimelineProps> = ({
                 draggedItem={draggedItem}
                 selectedOverlayId={selectedOverlayId}
                 setSelectedOverlayId={setSelectedOverlayId}
+                selectedOverlayIds={selectedOverlayIds}
+                selectOverlays={selectOverlays}
+                onToggleSelection={toggleOverlaySelection}
+                onGroupSelection={handleGroupSelection}
+                onUngroupItem={handleUngroupItem}
                 handleDragStart={combinedHandleDragStart}
                 totalDuration={durationInFrames}
                 ghostElement={snappedGhostElement}
@@ -885,14 +1016,41 @@ const Timeline: React.FC<TimelineProps> = ({
                 onSplitItem={handleSplitItem}
                 onHover={handleItemHover}
                 onContextMenuChange={handleContextMenuChange}
-                onRemoveGap={handleRemoveGap}
+                onRemoveGap={removeGap}
+                onLinkSelection={canLinkSelection ? handleLinkSelection : undefined}
+                onUnlinkItem={handleUnlinkItem}
+                onDetachAudio={detachAudio}
                 zoomScale={zoomScale}
                 draggedRowIndex={draggedRowIndex}
                 dragOverRowIndex={dragOverRowIndex}
                 onAssetLoadingChange={handleAssetLoadingChange}
                 alignmentLines={alignmentLines}
+                onItemChange={onOverlayChange}
+                onTransitionChange={handleTransitionChange}
+                tracks={tracks}
               />
 
+              {/* Source timecodes while slipping, sliding or rolling, above the row (below the 21px header) */}
+              {trimReadout && (
+                <TimelineTrimReadout
+                  readout={trimReadout}
+                  top={21 + getRowTop(trackHeights, trimReadout.row)}
+                />
+              )}
+
+              {/* Marquee selection box */}
+              {marquee && (
+                <div
+                  className="absolute border border-dashed border-primarioLogo bg-primarioLogo/10 pointer-events-none z-50"
+                  style={{
+                    left: `${marquee.left}%`,
+                    width: `${marquee.width}%`,
+                    top: marquee.top,
+                    height: marquee.height,
+                  }}
+                />
+              )}
+
               {/* File drop zone indicator */}
               {isFileDropping && (
                 <div className="absolute inset-0 bg-primarioLogo/10 border-2 border-dashed border-primarioLogo rounded-md flex items-center justify-center z-50 pointer-events-none">
@@ -940,7 +1098,7 @@ const Timeline: React.FC<TimelineProps> = ({
       {visibleRows < MAX_ROWS && (
         <div className="flex justify-center py-1 dark:bg-darkBox border dark:border-gray-100/10">
           <button
-            onClick={addRow}
+            onClick={addTrack}
             className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-darkBoxSub rounded-lg transition-colors"
             title="Add new row"
           >
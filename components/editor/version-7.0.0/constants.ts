@@ -1,10 +1,14 @@
-import { Overlay, OverlayType } from "./types";
+import { Overlay, OverlayType, TimelineEditMode } from "./types";
 
 // Default and maximum number of rows to display in the editor
 export const INITIAL_ROWS = 3;
 export const MAX_ROWS = 8;
-// Frames per second for video rendering
+// Frame rate of new projects, and of edits saved before projects had one
 export const FPS = 30;
+// Frame rates a project can use; 24000/1001 is the 23.976 of film on NTSC video
+export const FRAME_RATES = [24000 / 1001, 24, 25, 30, 50, 60];
+// Largest width or height of a custom resolution
+export const MAX_RESOLUTION = 4096;
 
 // Name of the component being tested/rendered
 export const COMP_NAME = "TestComponent";
@@ -16,6 +20,25 @@ export const VIDEO_HEIGHT = 720;
 
 // UI configuration
 export const ROW_HEIGHT = 44; // Slightly increased from 48
+
+// Track heights offered in the track menu, in pixels
+export const TRACK_HEIGHTS = {
+  small: 32,
+  medium: ROW_HEIGHT,
+  large: 64,
+} as const;
+
+// Colors assigned to new tracks in turn
+export const TRACK_COLORS = [
+  "#3b82f6",
+  "#22c55e",
+  "#f59e0b",
+  "#ec4899",
+  "#8b5cf6",
+  "#14b8a6",
+  "#ef4444",
+  "#64748b",
+];
 export const SHOW_LOADING_PROJECT_ALERT = true; // Controls visibility of asset loading indicator
 export const DISABLE_MOBILE_LAYOUT = false;
 
@@ -29,7 +52,7 @@ export const DISABLE_VIDEO_KEYFRAMES = false;
 
 // Watermark/Outro video configuration
 export const WATERMARK_VIDEO_SRC = "/wathermark/wathermark.mp4";
-export const WATERMARK_DURATION_FRAMES = 150; // Approximated 5 seconds at 30fps
+export const WATERMARK_DURATION_SECONDS = 5;
 
 // AWS deployment configuration (Legacy - keeping for reference)
 export const SITE_NAME = "https://remotionlambda-useast1-1xn6aj83c1.s3.us-east-1.amazonaws.com/sites/reelmotion-editor/index.html";
@@ -74,8 +97,22 @@ export const SNAPPING_CONFIG = {
   enableVerticalSnapping: true, // Enable snapping to items in adjacent rows
 };
 
-// Add new constant for push behavior
-export const ENABLE_PUSH_ON_DRAG = false; // Set to false to disable pushing items on drag
+// Cross-clip transition configuration
+export const TRANSITION_CONFIG = {
+  defaultDurationInFrames: 15, // Half a second at 30fps
+  minDurationInFrames: 2,
+  dropThresholdFrames: 10, // How close to a cut a dropped transition must land
+};
+
+// Undo history configuration
+export const HISTORY_CONFIG = {
+  maxDepth: 100, // Oldest entries are dropped beyond this many undo steps
+  coalesceWindowMs: 600, // Repeated edits of the same kind within this window become one step
+};
+
+// Timeline editing modes
+export const DEFAULT_EDIT_MODE: TimelineEditMode = "push"; // Never cuts or removes clips
+export const MAIN_TRACK_ROW = 0; // Row that magnetic mode keeps free of gaps
 
 // Render configuration
 // NOTE: TO CHANGE RENDER TYPE, UPDATE THE RENDER_TYPE CONSTANT
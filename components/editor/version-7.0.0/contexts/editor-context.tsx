@@ -1,5 +1,24 @@
 import React, { createContext, useContext, ReactNode } from "react";
-import { Overlay, AspectRatio, CaptionStyles } from "../types";
+import {
+  Overlay,
+  AspectRatio,
+  CaptionStyles,
+  OverlayAlignment,
+  ProjectVariants,
+  Resolution,
+  RippleScope,
+  TimelineEditMode,
+  TimelineTrack,
+} from "../types";
+import { HistoryEntry } from "../hooks/use-history";
+import { ReframePreview } from "../hooks/use-reframe";
+import { RenderJob, RenderOutcome } from "../hooks/use-rendering";
+import { MergePreview } from "../hooks/use-data-merge";
+import { ExportSettings } from "../utils/export-formats";
+import { MergeDataset } from "../utils/data-merge";
+import { MediaReplacement } from "../utils/media-relink";
+import { MediaChoice } from "../utils/media-replace";
+import { ReframeOptions } from "../utils/reframe";
 
 // Define the shape of the context
 interface EditorContextProps {
@@ -14,6 +33,42 @@ interface EditorContextProps {
   ) => void;
   setOverlays: (overlays: Overlay[]) => void;
 
+  // Multi-selection and groups
+  selectedOverlayIds: number[]; // All selected overlays, groups expanded
+  selectOverlays: (ids: number[], primaryId?: number | null) => void; // Replace the selection
+  toggleOverlaySelection: (id: number) => void; // Shift/cmd-click an overlay
+  deleteOverlays: (ids: number[]) => void; // Remove several overlays
+  duplicateOverlays: (ids: number[]) => void; // Copy several overlays as a block
+  nudgeOverlays: (ids: number[], dx: number, dy: number, frame: number) => void; // Move on the canvas
+  alignOverlays: (
+    ids: number[],
+    alignment: OverlayAlignment,
+    canvas: { width: number; height: number },
+    frame: number
+  ) => void; // Align to each other, or to the canvas
+  groupOverlays: (ids: number[]) => void; // Lock overlays together
+  ungroupOverlays: (ids: number[]) => void; // Release overlays from their groups
+  linkOverlays: (ids: number[]) => void; // Link captions and sounds to the selected clip
+  unlinkOverlays: (ids: number[]) => void; // Release overlays, or the items linked to them, from their clip
+  detachAudio: (id: number) => void; // Move a clip's audio into a linked sound overlay
+  offerLinkedClipMove: (id: number, deltaFrames: number) => void; // Offer to move a clip after its linked item moved alone
+
+  // Tracks
+  tracks: TimelineTrack[]; // One per timeline row, in row order
+  updateTrack: (index: number, changes: Partial<Omit<TimelineTrack, "id">>) => void; // Rename, recolor, resize or toggle a track
+  addTrack: () => void; // Append an empty track
+  removeTrack: (index: number) => void; // Remove a track and its overlays
+  moveTrack: (fromIndex: number, toIndex: number) => void; // Reorder tracks, moving their overlays along
+
+  // Editing modes
+  editMode: TimelineEditMode; // How moves, trims and deletes treat the items around them
+  setEditMode: (mode: TimelineEditMode) => void;
+  rippleScope: RippleScope; // Whether ripple edits move the edited row or every row
+  setRippleScope: (scope: RippleScope) => void;
+  closeGaps: (row: number | "all") => void; // Pack a row, or every unlocked row, from frame 0
+  removeGap: (row: number, gapStart: number, gapEnd: number) => void; // Close one gap on a row
+  placeOverlay: (overlay: Overlay) => void; // Add a dropped overlay according to the editing mode
+
   // Player State
   isPlaying: boolean; // Current playback state
   currentFrame: number; // Current frame position in the video
@@ -40,14 +95,62 @@ interface EditorContextProps {
   updatePlayerDimensions: (width: number, height: number) => void; // Update player size
   getAspectRatioDimensions: () => { width: number; height: number }; // Calculate dimensions based on ratio
   getRenderDimensions: () => { width: number; height: number }; // Actual dimensions used for rendering (after free-tier downscale)
+  customDimensions: Resolution | null; // Resolution set by hand instead of the preset of the ratio
+  reframePreview: ReframePreview | null; // Aspect ratio change shown in the player before it is accepted
+  previewReframe: (ratio: AspectRatio) => void; // Preview the overlays reframed for another ratio
+  setReframeOptions: (options: Partial<ReframeOptions>) => void; // Change how the preview is reframed
+  acceptReframe: (keepLayout?: boolean) => void; // Apply the previewed ratio, with or without the new layout
+  cancelReframe: () => void; // Drop the preview and keep the current ratio
+  variants: ProjectVariants | null; // Aspect-ratio variants sharing the timeline, null when there are none
+  addVariant: (ratio: AspectRatio) => void; // Add a variant at another ratio and open it
+  removeVariant: (id: string) => void; // Remove a variant other than the open one
+  switchVariant: (id: string) => void; // Open another variant
+  getVariantRenderJobs: (ids: string[]) => RenderJob[]; // Render props of each variant, laid out for its ratio
+
+  // Data merge
+  mergeDataset: MergeDataset | null; // Rows that fill the project's {{variables}}, one video per row
+  setMergeDataset: (dataset: MergeDataset | null) => void; // Load or drop the dataset
+  mergePreview: MergePreview | null; // Row shown in the player with its values filled in
+  previewMergeRow: (rowIndex: number | null) => void; // Show a row in the player, or go back to the project
+  getMergeRenderJobs: (rowIndexes: number[]) => RenderJob[]; // Render props of each row
+
+  // Missing media
+  offlineSources: string[]; // Remote files found missing; overlays using them are flagged offline
+  relinkSource: string | null; // Missing file whose relink dialog is open
+  setRelinkSource: (src: string | null) => void; // Open or close the relink dialog for a missing file
+  relinkMedia: (missingSrc: string, replacement: MediaReplacement) => void; // Point every overlay using a missing file at another one
+  replaceMedia: (overlayId: number, media: MediaChoice, keepDuration?: boolean) => Promise<void>; // Swap the file of a video, image or sound overlay
+  replaceTargetId: number | null; // Overlay whose replace media dialog is open
+  setReplaceTargetId: (id: number | null) => void; // Open or close the replace media dialog
+
+  // Project settings
+  fps: number; // Frame rate of the project
+  updateProjectSettings: (settings: { fps: number; resolution: Resolution | null }) => void; // Change the frame rate (re-timing every overlay) and resolution
 
   // Video Properties
   durationInFrames: number; // Total number of frames
   contentDurationInFrames: number; // Actual content duration in frames
   durationInSeconds: number; // Total duration in seconds
   renderMedia: () => void; // Trigger media rendering
+  renderQueue: (
+    jobs: RenderJob[],
+    renderOptions?: (job: RenderJob) => { scale?: number; exportSettings?: ExportSettings }
+  ) => Promise<RenderOutcome[]>; // Render several compositions one after another
+  cancelRender: () => void; // Cancel the render in progress
+  renderStill: (
+    frame: number,
+    imageFormat?: "png" | "jpeg",
+    scale?: number
+  ) => Promise<Blob>; // Render one frame as an image (SSR only)
   state: any; // General state object with proper typing
 
+  // Export range
+  inPoint: number | null; // First frame to export, null for the start
+  outPoint: number | null; // Last frame to export, null for the end
+  setInPoint: (frame: number | null) => void;
+  setOutPoint: (frame: number | null) => void;
+  clearInOutPoints: () => void;
+
   // Timeline
   deleteOverlaysByRow: (row: number) => void; // Delete overlays by row
 
@@ -56,6 +159,9 @@ interface EditorContextProps {
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  historyEntries: HistoryEntry[]; // Undo steps, oldest first, including undone ones
+  historyIndex: number; // Index of the last applied entry, -1 when none is
+  jumpToHistory: (index: number) => void; // Undo or redo up to an entry
 
   // New style management prop
   updateOverlayStyles: (
@@ -74,6 +180,7 @@ interface EditorContextProps {
 
   // Edition data for backend save
   editionData?: {
+    schemaVersion: number; // Format version, see PROJECT_SCHEMA_VERSION
     id: string;
     inputProps: any;
     editId?: string | null;
@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useRef, useMemo } from "react";
+import React, { createContext, useContext, useRef, useMemo, useState } from "react";
 import { useTimelineZoom } from "../hooks/use-timeline-zoom";
 import { useVisibleRows } from "../hooks/use-visible-rows";
 import { useOverlays } from "../hooks/use-overlays";
+import { TrimTool } from "../types";
 
 /**
  * Context interface for managing timeline state and interactions.
@@ -32,6 +33,10 @@ interface TimelineContextType {
   handleWheelZoom: (event: WheelEvent) => void;
   /** Reset all timeline overlays to their default state */
   resetOverlays: () => void;
+  /** Tool used when dragging video and sound clips */
+  trimTool: TrimTool;
+  /** Switch the tool used on video and sound clips */
+  setTrimTool: (tool: TrimTool) => void;
 }
 
 /**
@@ -54,6 +59,7 @@ export const TimelineProvider: React.FC<{ children: React.ReactNode }> = ({
   const { resetOverlays } = useOverlays();
 
   const timelineRef = useRef<HTMLDivElement>(null);
+  const [trimTool, setTrimTool] = useState<TrimTool>("select");
 
   const {
     zoomScale,
@@ -78,6 +84,8 @@ export const TimelineProvider: React.FC<{ children: React.ReactNode }> = ({
       handleZoom,
       handleWheelZoom,
       resetOverlays,
+      trimTool,
+      setTrimTool,
     }),
     [
       visibleRows,
@@ -89,6 +97,7 @@ export const TimelineProvider: React.FC<{ children: React.ReactNode }> = ({
       handleZoom,
       handleWheelZoom,
       resetOverlays,
+      trimTool,
     ]
   );
 
@@ -1,5 +1,29 @@
 import { useState, useCallback } from "react";
-import { AspectRatio } from "../types";
+import { AspectRatio, Resolution } from "../types";
+
+/**
+ * Composition size of a preset aspect ratio
+ */
+export const getPresetDimensions = (aspectRatio: AspectRatio): Resolution => {
+  switch (aspectRatio) {
+    case "9:16":
+      return { width: 1080, height: 1920 }; // TikTok/Story
+    case "4:5":
+      return { width: 1080, height: 1350 }; // Instagram Post
+    case "1:1":
+      return { width: 1080, height: 1080 }; // Square Post
+    case "16:9":
+      return { width: 1280, height: 720 }; // HD Video
+    case "4:3":
+      return { width: 1024, height: 768 }; // Classic TV
+    case "2:1":
+      return { width: 2048, height: 1024 }; // Panoramic
+    case "3:4":
+      return { width: 1080, height: 1440 }; // Vertical Portrait
+    default:
+      return { width: 1920, height: 1080 }; // Full HD (16:9)
+  }
+};
 
 /**
  * Custom hook for managing aspect ratio and player dimensions.
@@ -14,10 +38,14 @@ export const useAspectRatio = (
 ) => {
   // Single source of truth for aspect ratio
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(initialRatio);
+  // Width and height set by hand, used instead of the preset of the ratio
+  const [customDimensions, setCustomDimensions] = useState<Resolution | null>(null);
 
+  // Picking a preset ratio drops any custom resolution
   const handleAspectRatioChange = useCallback(
     (newRatio: AspectRatio) => {
       setAspectRatio(newRatio);
+      setCustomDimensions(null);
       onRatioChange?.(newRatio);
     },
     [onRatioChange]
@@ -38,8 +66,9 @@ export const useAspectRatio = (
       let width, height;
 
       // Calculate target aspect ratio
-      const targetRatio =
-        aspectRatio === "16:9"
+      const targetRatio = customDimensions
+        ? customDimensions.width / customDimensions.height
+        : aspectRatio === "16:9"
           ? 16 / 9
           : aspectRatio === "9:16"
           ? 9 / 16
@@ -70,37 +99,23 @@ export const useAspectRatio = (
 
       setPlayerDimensions({ width, height });
     },
-    [aspectRatio]
+    [aspectRatio, customDimensions]
   );
 
   /**
-   * Returns the standard dimensions for the current aspect ratio.
+   * Returns the custom resolution, or the standard dimensions for the current aspect ratio.
    * @returns An object containing the width and height for the current aspect ratio
    */
-  const getAspectRatioDimensions = useCallback(() => {
-    switch (aspectRatio) {
-      case "9:16":
-        return { width: 1080, height: 1920 }; // TikTok/Story
-      case "4:5":
-        return { width: 1080, height: 1350 }; // Instagram Post
-      case "1:1":
-        return { width: 1080, height: 1080 }; // Square Post
-      case "16:9":
-        return { width: 1280, height: 720 }; // HD Video
-      case "4:3":
-        return { width: 1024, height: 768 }; // Classic TV
-      case "2:1":
-        return { width: 2048, height: 1024 }; // Panoramic
-      case "3:4":
-        return { width: 1080, height: 1440 }; // Vertical Portrait
-      default:
-        return { width: 1920, height: 1080 }; // Full HD (16:9)
-    }
-  }, [aspectRatio]);
+  const getAspectRatioDimensions = useCallback(
+    (): Resolution => customDimensions ?? getPresetDimensions(aspectRatio),
+    [aspectRatio, customDimensions]
+  );
 
   return {
     aspectRatio,
     setAspectRatio: handleAspectRatioChange,
+    customDimensions,
+    setCustomDimensions,
     playerDimensions,
     updatePlayerDimensions,
     getAspectRatioDimensions,
@@ -4,6 +4,7 @@ import {
   loadEditorState,
   hasAutosave,
 } from "../utils/indexdb-helper";
+import { AutosaveState } from "../utils/project-schema";
 
 interface AutosaveOptions {
   /**
@@ -15,7 +16,7 @@ interface AutosaveOptions {
   /**
    * Function to call when an autosave is loaded
    */
-  onLoad?: (data: any) => void;
+  onLoad?: (data: AutosaveState) => void;
 
   /**
    * Function to call when an autosave is saved
@@ -38,7 +39,7 @@ interface AutosaveOptions {
  */
 export const useAutosave = (
   projectId: string,
-  state: any,
+  state: AutosaveState,
   options: AutosaveOptions = {}
 ) => {
   const { interval = 5000, onLoad, onSave, onAutosaveDetected } = options;
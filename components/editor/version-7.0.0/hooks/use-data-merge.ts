@@ -0,0 +1,51 @@
+import { useCallback, useMemo, useState } from "react";
+import { Overlay } from "../types";
+import { MergeDataset, mergeOverlays } from "../utils/data-merge";
+
+/** A row of the dataset shown in the player with its values filled in */
+export type MergePreview = {
+  rowIndex: number;
+  rowCount: number;
+  overlays: Overlay[];
+};
+
+/**
+ * Data merge for personalised videos
+ *
+ * Texts and media files of the project can refer to `{{variables}}`, which
+ * are filled from the rows of a CSV or JSON dataset, one video per row.
+ * Previewing a row shows it in the player without changing the project;
+ * the preview follows edits made on the timeline meanwhile.
+ */
+export const useDataMerge = ({ overlays }: { overlays: Overlay[] }) => {
+  const [mergeDataset, setDataset] = useState<MergeDataset | null>(null);
+  const [previewRowIndex, setPreviewRowIndex] = useState<number | null>(null);
+
+  const mergePreview: MergePreview | null = useMemo(() => {
+    const row = previewRowIndex !== null ? mergeDataset?.rows[previewRowIndex] : undefined;
+    if (!mergeDataset || !row) return null;
+    return {
+      rowIndex: previewRowIndex!,
+      rowCount: mergeDataset.rows.length,
+      overlays: mergeOverlays(overlays, row),
+    };
+  }, [mergeDataset, previewRowIndex, overlays]);
+
+  /** Shows a row in the player, or goes back to the project with null */
+  const previewMergeRow = useCallback((rowIndex: number | null) => {
+    setPreviewRowIndex(rowIndex);
+  }, []);
+
+  // A new dataset ends the preview of the old one
+  const setMergeDataset = useCallback((dataset: MergeDataset | null) => {
+    setDataset(dataset);
+    setPreviewRowIndex(null);
+  }, []);
+
+  return {
+    mergeDataset,
+    setMergeDataset,
+    mergePreview,
+    previewMergeRow,
+  };
+};
@@ -1,75 +1,199 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Overlay } from "../types";
+import { HISTORY_CONFIG } from "../constants";
+import {
+  HistoryCommand,
+  HistoryLabel,
+  HistorySettings,
+  applyOverlayChanges,
+  createHistoryCommandId,
+  describeChanges,
+  diffOverlays,
+  diffSettings,
+  isDragFlagOnly,
+  mergeCommands,
+  shouldCoalesce,
+} from "../utils/history-commands";
 
 interface HistoryState {
-  past: Overlay[][];
-  present: Overlay[];
-  future: Overlay[][];
+  past: HistoryCommand[];
+  future: HistoryCommand[];
 }
 
+interface UseHistoryOptions {
+  /** Editor settings restored together with the overlays */
+  settings?: HistorySettings;
+  /** Applies settings restored by undo/redo */
+  setSettings?: (settings: HistorySettings) => void;
+  /** Maximum number of undo steps kept */
+  maxDepth?: number;
+}
+
+/** Entry shown in the history panel */
+export interface HistoryEntry {
+  id: string;
+  label: HistoryLabel;
+  timestamp: number;
+}
+
+type Snapshot = {
+  overlays: Overlay[];
+  settings?: HistorySettings;
+};
+
+/**
+ * Undo/redo for the editor.
+ *
+ * Every change to the overlays (and to the optional settings such as the
+ * aspect ratio and background color) is recorded as a command holding only
+ * the overlays it touched. Continuous gestures - a drag on the canvas, a
+ * slider being scrubbed - are merged into one command, and the oldest
+ * commands are dropped beyond `maxDepth`.
+ */
 export function useHistory(
   overlays: Overlay[],
-  setOverlays: (overlays: Overlay[]) => void
+  setOverlays: (overlays: Overlay[]) => void,
+  {
+    settings,
+    setSettings,
+    maxDepth = HISTORY_CONFIG.maxDepth,
+  }: UseHistoryOptions = {}
 ) {
   const [history, setHistory] = useState<HistoryState>({
     past: [],
-    present: overlays,
     future: [],
   });
 
+  // State the commands are relative to. Updated before undo/redo hand their
+  // result to the editor, so the change they cause is not recorded again.
+  const present = useRef<Snapshot>({ overlays, settings });
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
   useEffect(() => {
+    const previous = present.current;
+    const overlaysChanged = previous.overlays !== overlays;
+    const settingsDiff =
+      previous.settings && settings
+        ? diffSettings(previous.settings, settings)
+        : { before: {}, after: {} };
+    const settingsChanged = Object.keys(settingsDiff.after).length > 0;
+
+    present.current = { overlays, settings };
+    if (!overlaysChanged && !settingsChanged) return;
+
+    const overlayChanges = overlaysChanged
+      ? diffOverlays(previous.overlays, overlays)
+      : [];
+    const { label, coalesceKey } = describeChanges(
+      overlayChanges,
+      settingsDiff.after
+    );
+    const command: HistoryCommand = {
+      id: createHistoryCommandId(),
+      label,
+      coalesceKey,
+      timestamp: Date.now(),
+      overlayChanges,
+      settingsBefore: settingsDiff.before,
+      settingsAfter: settingsDiff.after,
+    };
+
     setHistory((prev) => {
-      // Don't record history if this change was from undo/redo
-      if (prev.present === overlays) return prev;
+      const last = prev.past[prev.past.length - 1];
+      if (
+        prev.future.length === 0 &&
+        shouldCoalesce(last, command, HISTORY_CONFIG.coalesceWindowMs)
+      ) {
+        return {
+          past: [...prev.past.slice(0, -1), mergeCommands(last, command)],
+          future: [],
+        };
+      }
+
+      // Picking up or dropping an item without moving it is not a step
+      if (!settingsChanged && overlayChanges.every(isDragFlagOnly)) {
+        return prev;
+      }
 
       return {
-        past: [...prev.past, prev.present],
-        present: overlays,
+        past: [...prev.past, command].slice(-maxDepth),
         future: [],
       };
     });
-  }, [overlays]);
+  }, [overlays, settings, maxDepth]);
 
-  const undo = useCallback(() => {
-    setHistory((prev) => {
-      if (prev.past.length === 0) return prev;
+  /**
+   * Undoes `undoCount` commands or redoes `redoCount` commands in one go and
+   * applies the resulting state once
+   */
+  const travel = useCallback(
+    (undoCount: number, redoCount: number) => {
+      const { past, future } = historyRef.current;
+      if (undoCount > past.length || redoCount > future.length) return;
+      if (undoCount === 0 && redoCount === 0) return;
 
-      const newPast = prev.past.slice(0, -1);
-      const newPresent = prev.past[prev.past.length - 1];
+      let nextOverlays = present.current.overlays;
+      let nextSettings = present.current.settings;
 
-      // Update overlays directly
-      setOverlays(newPresent);
+      const undone = past.slice(past.length - undoCount).reverse();
+      undone.forEach((command) => {
+        nextOverlays = applyOverlayChanges(nextOverlays, command.overlayChanges, "undo");
+        if (nextSettings) nextSettings = { ...nextSettings, ...command.settingsBefore };
+      });
 
-      return {
-        past: newPast,
-        present: newPresent,
-        future: [prev.present, ...prev.future],
+      const redone = future.slice(0, redoCount);
+      redone.forEach((command) => {
+        nextOverlays = applyOverlayChanges(nextOverlays, command.overlayChanges, "redo");
+        if (nextSettings) nextSettings = { ...nextSettings, ...command.settingsAfter };
+      });
+
+      const nextHistory: HistoryState = {
+        past: [...past.slice(0, past.length - undoCount), ...redone],
+        future: [...undone.reverse(), ...future.slice(redoCount)],
       };
-    });
-  }, [setOverlays]);
+      historyRef.current = nextHistory;
+      setHistory(nextHistory);
 
-  const redo = useCallback(() => {
-    setHistory((prev) => {
-      if (prev.future.length === 0) return prev;
+      present.current = { overlays: nextOverlays, settings: nextSettings };
+      setOverlays(nextOverlays);
+      if (nextSettings && setSettings) setSettings(nextSettings);
+    },
+    [setOverlays, setSettings]
+  );
 
-      const newFuture = prev.future.slice(1);
-      const newPresent = prev.future[0];
+  const undo = useCallback(() => travel(1, 0), [travel]);
+  const redo = useCallback(() => travel(0, 1), [travel]);
 
-      // Update overlays directly
-      setOverlays(newPresent);
+  /**
+   * Moves to the state right after the entry at `index` in `entries`, or to
+   * the state before any entry when `index` is -1
+   */
+  const jumpTo = useCallback(
+    (index: number) => {
+      const applied = historyRef.current.past.length;
+      const target = index + 1;
+      if (target < applied) travel(applied - target, 0);
+      else if (target > applied) travel(0, target - applied);
+    },
+    [travel]
+  );
 
-      return {
-        past: [...prev.past, prev.present],
-        present: newPresent,
-        future: newFuture,
-      };
-    });
-  }, [setOverlays]);
+  const toEntry = ({ id, label, timestamp }: HistoryCommand): HistoryEntry => ({
+    id,
+    label,
+    timestamp,
+  });
 
   return {
     undo,
     redo,
     canUndo: history.past.length > 0,
     canRedo: history.future.length > 0,
+    /** Applied entries followed by undone ones, oldest first */
+    entries: [...history.past, ...history.future].map(toEntry),
+    /** Index in `entries` of the last applied entry, -1 when none is */
+    currentIndex: history.past.length - 1,
+    jumpTo,
   };
 }
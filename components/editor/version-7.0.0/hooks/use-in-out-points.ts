@@ -0,0 +1,66 @@
+import { useCallback, useState } from "react";
+import { useHotkeys } from "react-hotkeys-hook";
+
+interface UseInOutPointsProps {
+  currentFrame: number;
+  durationInFrames: number;
+}
+
+/**
+ * In and out points marking the part of the timeline to export
+ *
+ * Keyboard shortcuts:
+ * - I: Set the in point at the playhead
+ * - O: Set the out point at the playhead
+ * - Alt + X: Clear both points
+ *
+ * Setting an in point after the out point (or the reverse) clears the other
+ * point, so the marked range is never empty.
+ */
+export const useInOutPoints = ({
+  currentFrame,
+  durationInFrames,
+}: UseInOutPointsProps) => {
+  const [inPoint, setInPointState] = useState<number | null>(null);
+  const [outPoint, setOutPointState] = useState<number | null>(null);
+
+  const lastFrame = Math.max(0, durationInFrames - 1);
+
+  const setInPoint = useCallback(
+    (frame: number | null) => {
+      const next = frame === null ? null : Math.min(Math.max(0, frame), lastFrame);
+      setInPointState(next);
+      setOutPointState((out) => (next !== null && out !== null && out < next ? null : out));
+    },
+    [lastFrame]
+  );
+
+  const setOutPoint = useCallback(
+    (frame: number | null) => {
+      const next = frame === null ? null : Math.min(Math.max(0, frame), lastFrame);
+      setOutPointState(next);
+      setInPointState((start) =>
+        next !== null && start !== null && start > next ? null : start
+      );
+    },
+    [lastFrame]
+  );
+
+  const clearInOutPoints = useCallback(() => {
+    setInPointState(null);
+    setOutPointState(null);
+  }, []);
+
+  useHotkeys("i", () => setInPoint(currentFrame), [currentFrame, setInPoint]);
+  useHotkeys("o", () => setOutPoint(currentFrame), [currentFrame, setOutPoint]);
+  useHotkeys(
+    "alt+x",
+    (e) => {
+      e.preventDefault();
+      clearInOutPoints();
+    },
+    [clearInOutPoints]
+  );
+
+  return { inPoint, outPoint, setInPoint, setOutPoint, clearInOutPoints };
+};
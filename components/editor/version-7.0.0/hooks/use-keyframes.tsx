@@ -10,6 +10,8 @@ interface UseKeyframesProps {
   currentFrame: number;
   zoomScale: number;
   baseUrl?: string;
+  /** Frame rate of the project, to find each frame in the video */
+  fps?: number;
 }
 
 interface FrameInfo {
@@ -45,6 +47,7 @@ export const useKeyframes = ({
   containerRef,
   zoomScale,
   baseUrl,
+  fps = FPS,
 }: UseKeyframesProps) => {
   const { getKeyframes, updateKeyframes } = useKeyframeContext();
   const [isLoading, setIsLoading] = React.useState(false);
@@ -358,7 +361,7 @@ export const useKeyframes = ({
 
           while (retryCount < MAX_RETRIES && !frameExtracted) {
             try {
-              const timeInSeconds = frameNumber / FPS;
+              const timeInSeconds = frameNumber / fps;
 
               // Seek with timeout and better error handling
               const seekPromise = new Promise<void>((resolve, reject) => {
@@ -510,6 +513,7 @@ export const useKeyframes = ({
     cleanup,
     createVideoAndCanvas,
     baseUrl,
+    fps,
   ]);
 
   React.useEffect(() => {
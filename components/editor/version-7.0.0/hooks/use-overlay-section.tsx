@@ -40,6 +40,9 @@ export const useOverlaySelection = () => {
         case OverlayType.IMAGE:
           setActivePanel(OverlayType.IMAGE);
           break;
+        case OverlayType.SHAPE:
+          setActivePanel(OverlayType.SHAPE);
+          break;
         case OverlayType.CAPTION:
           setActivePanel(OverlayType.CAPTION);
           break;
@@ -1,19 +1,105 @@
-import { useState, useCallback } from "react";
-import { Overlay, OverlayType, CaptionStyles, CaptionOverlay } from "../types";
+import { useState, useCallback, useMemo, SetStateAction } from "react";
+import {
+  Overlay,
+  OverlayType,
+  CaptionStyles,
+  CaptionOverlay,
+  OverlayAlignment,
+} from "../types";
 import { defaultCaptionStyles } from "../components/overlays/captions/caption-settings";
+import { splitKeyframes } from "../utils/animation-keyframes";
+import { isAudioOverlay, splitVolumeEnvelope } from "../utils/volume-envelope";
+import { sanitizeTransitions } from "../utils/clip-transitions";
+import { FPS } from "../constants";
+import {
+  alignOverlays as alignOverlaysOnCanvas,
+  duplicateOverlays as duplicateOverlaysAsBlock,
+  expandSelectionToGroups,
+  groupOverlays as groupOverlaysTogether,
+  nudgeOverlays as nudgeOverlaysOnCanvas,
+  toggleOverlayInSelection,
+  ungroupOverlays as ungroupOverlaysApart,
+} from "../utils/overlay-selection";
+import {
+  EditModeOptions,
+  deleteOverlaysInMode,
+  linkOverlays as linkOverlaysToClip,
+  unlinkOverlays as unlinkOverlaysFromClip,
+} from "../utils/timeline-edit-modes";
+
+const OVERWRITE: EditModeOptions = { mode: "overwrite", scope: "row" };
 
 /**
  * Hook to manage overlay elements in the editor
  * Overlays can be text, videos, or sounds that are positioned on the timeline
+ * @param initialOverlays - Overlays the editor starts with
+ * @param fps - Frame rate of the project, used to cut caption timings on a split
  * @returns Object containing overlay state and management functions
  */
-export const useOverlays = (initialOverlays?: Overlay[]) => {
+export const useOverlays = (initialOverlays?: Overlay[], fps: number = FPS) => {
   // Initialize with provided overlays or default overlays
   const [overlays, setOverlays] = useState<Overlay[]>(initialOverlays || []);
 
-  // Tracks which overlay is currently selected for editing
-  const [selectedOverlayId, setSelectedOverlayId] = useState<number | null>(
-    null
+  // Tracks the selection: the overlay being edited in the sidebar (primary)
+  // and every overlay that group operations apply to
+  const [selection, setSelection] = useState<{
+    primaryId: number | null;
+    ids: number[];
+  }>({ primaryId: null, ids: [] });
+
+  const selectedOverlayId = selection.primaryId;
+
+  // Selecting one member of a group selects the whole group
+  const selectedOverlayIds = useMemo(
+    () => expandSelectionToGroups(selection.ids, overlays),
+    [selection.ids, overlays]
+  );
+
+  /**
+   * Selects a single overlay (and its group), or clears the selection with null
+   */
+  const setSelectedOverlayId = useCallback(
+    (action: SetStateAction<number | null>) => {
+      setSelection((prev) => {
+        const id = typeof action === "function" ? action(prev.primaryId) : action;
+        return { primaryId: id, ids: id === null ? [] : [id] };
+      });
+    },
+    []
+  );
+
+  /**
+   * Replaces the selection, e.g. with the result of a marquee
+   * @param ids - Overlays to select
+   * @param primaryId - Overlay to edit in the sidebar, defaults to the last one
+   */
+  const selectOverlays = useCallback(
+    (ids: number[], primaryId?: number | null) => {
+      setSelection({
+        primaryId:
+          primaryId !== undefined ? primaryId : ids[ids.length - 1] ?? null,
+        ids,
+      });
+    },
+    []
+  );
+
+  /**
+   * Adds an overlay to the selection or removes it (shift/cmd-click)
+   */
+  const toggleOverlaySelection = useCallback(
+    (id: number) => {
+      setSelection((prev) => {
+        const ids = toggleOverlayInSelection(prev.ids, id, overlays);
+        const primaryId = ids.includes(id)
+          ? id
+          : ids.includes(prev.primaryId ?? -1)
+          ? prev.primaryId
+          : ids[ids.length - 1] ?? null;
+        return { primaryId, ids };
+      });
+    },
+    [overlays]
   );
 
   /**
@@ -58,17 +144,22 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
       return [...prevOverlays, overlayWithNewId];
     });
     setSelectedOverlayId(newId!);
-  }, []);
+  }, [setSelectedOverlayId]);
 
   /**
    * Removes an overlay by its ID and clears the selection
+   * Transitions into the removed clip are dropped with it, and in ripple
+   * modes the items after it close up the space
    */
-  const deleteOverlay = useCallback((id: number) => {
-    setOverlays((prevOverlays) =>
-      prevOverlays.filter((overlay) => overlay.id !== id)
-    );
-    setSelectedOverlayId(null);
-  }, []);
+  const deleteOverlay = useCallback(
+    (id: number, editing: EditModeOptions = OVERWRITE) => {
+      setOverlays((prevOverlays) =>
+        sanitizeTransitions(deleteOverlaysInMode(prevOverlays, [id], editing))
+      );
+      setSelectedOverlayId(null);
+    },
+    [setSelectedOverlayId]
+  );
 
   /**
    * Removes all overlays on a specified row
@@ -79,7 +170,7 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
       prevOverlays.filter((overlay) => overlay.row !== row)
     );
     setSelectedOverlayId(null);
-  }, []);
+  }, [setSelectedOverlayId]);
 
   /**
    * Creates a copy of an existing overlay
@@ -138,7 +229,7 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
         from: newFrom,
       };
 
-      return [...prevOverlays, duplicatedOverlay];
+      return sanitizeTransitions([...prevOverlays, duplicatedOverlay]);
     });
   }, []);
 
@@ -150,9 +241,6 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
    * splitOverlay(1, 100)
    */
   const splitOverlay = useCallback((id: number, splitFrame: number) => {
-    const fps = 30; // Make this configurable
-    const msPerFrame = 1000 / fps;
-
     setOverlays((prevOverlays) => {
       const overlayToSplit = prevOverlays.find((overlay) => overlay.id === id);
       if (!overlayToSplit) {
@@ -186,14 +274,47 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
         splitFrame,
         firstPartDuration,
         secondPartDuration,
-        secondHalfStartTime
+        secondHalfStartTime,
+        fps
       );
 
+      // The original cut (and its transition) now belongs to the second half
+      if (firstHalf.type === OverlayType.VIDEO) {
+        firstHalf.transition = undefined;
+      }
+
+      // Keep the motion continuous across the cut
+      if (overlayToSplit.keyframes) {
+        [firstHalf.keyframes, secondHalf.keyframes] = splitKeyframes(
+          overlayToSplit.keyframes,
+          firstPartDuration
+        );
+      }
+
+      // The fade-in stays on the first half, the fade-out on the second, and
+      // the volume envelope is cut so both halves keep their levels
+      if (isAudioOverlay(firstHalf) && isAudioOverlay(secondHalf)) {
+        const [firstEnvelope, secondEnvelope] = splitVolumeEnvelope(
+          firstHalf.styles.volumeEnvelope,
+          firstPartDuration
+        );
+        firstHalf.styles = {
+          ...firstHalf.styles,
+          fadeOutFrames: undefined,
+          volumeEnvelope: firstEnvelope,
+        };
+        secondHalf.styles = {
+          ...secondHalf.styles,
+          fadeInFrames: undefined,
+          volumeEnvelope: secondEnvelope,
+        };
+      }
+
       return prevOverlays
         .map((overlay) => (overlay.id === id ? firstHalf : overlay))
         .concat(secondHalf);
     });
-  }, []);
+  }, [fps]);
 
   const updateOverlayStyles = useCallback(
     (overlayId: number, styles: Partial<CaptionStyles>) => {
@@ -211,15 +332,102 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
     [changeOverlay]
   );
 
+  /**
+   * Removes several overlays at once and clears the selection
+   */
+  const deleteOverlays = useCallback(
+    (ids: number[], editing: EditModeOptions = OVERWRITE) => {
+      setOverlays((prevOverlays) =>
+        sanitizeTransitions(deleteOverlaysInMode(prevOverlays, ids, editing))
+      );
+      setSelectedOverlayId(null);
+    },
+    [setSelectedOverlayId]
+  );
+
+  /**
+   * Copies several overlays as a block and selects the copies
+   */
+  const duplicateOverlays = useCallback(
+    (ids: number[]) => {
+      const result = duplicateOverlaysAsBlock(overlays, ids);
+      if (result.duplicatedIds.length === 0) return;
+      setOverlays(result.overlays);
+      selectOverlays(result.duplicatedIds);
+    },
+    [overlays, selectOverlays]
+  );
+
+  /**
+   * Moves overlays on the canvas by a number of pixels at the given frame
+   */
+  const nudgeOverlays = useCallback(
+    (ids: number[], dx: number, dy: number, frame: number) => {
+      setOverlays((prevOverlays) =>
+        nudgeOverlaysOnCanvas(prevOverlays, ids, dx, dy, frame)
+      );
+    },
+    []
+  );
+
+  /**
+   * Aligns overlays to each other, or a single overlay to the canvas
+   */
+  const alignOverlays = useCallback(
+    (
+      ids: number[],
+      alignment: OverlayAlignment,
+      canvas: { width: number; height: number },
+      frame: number
+    ) => {
+      setOverlays((prevOverlays) =>
+        alignOverlaysOnCanvas(prevOverlays, ids, alignment, canvas, frame)
+      );
+    },
+    []
+  );
+
+  /**
+   * Locks overlays together so they are selected and edited as one unit
+   */
+  const groupOverlays = useCallback((ids: number[]) => {
+    setOverlays((prevOverlays) => groupOverlaysTogether(prevOverlays, ids));
+  }, []);
+
+  /**
+   * Releases overlays from their groups
+   */
+  const ungroupOverlays = useCallback((ids: number[]) => {
+    setOverlays((prevOverlays) => ungroupOverlaysApart(prevOverlays, ids));
+  }, []);
+
+  /**
+   * Links the selected captions and sounds to the selected clip, so they
+   * move along with it
+   */
+  const linkOverlays = useCallback((ids: number[]) => {
+    setOverlays((prevOverlays) => linkOverlaysToClip(prevOverlays, ids));
+  }, []);
+
+  /**
+   * Releases overlays, or the items linked to them, from their clip
+   */
+  const unlinkOverlays = useCallback((ids: number[]) => {
+    setOverlays((prevOverlays) => unlinkOverlaysFromClip(prevOverlays, ids));
+  }, []);
+
   const resetOverlays = useCallback(() => {
     setOverlays([]);
     setSelectedOverlayId(null);
-  }, []);
+  }, [setSelectedOverlayId]);
 
   return {
     overlays,
     selectedOverlayId,
     setSelectedOverlayId,
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
     setOverlays,
     changeOverlay,
     addOverlay,
@@ -229,6 +437,14 @@ export const useOverlays = (initialOverlays?: Overlay[]) => {
     splitOverlay,
     updateOverlayStyles,
     resetOverlays,
+    deleteOverlays,
+    duplicateOverlays,
+    nudgeOverlays,
+    alignOverlays,
+    groupOverlays,
+    ungroupOverlays,
+    linkOverlays,
+    unlinkOverlays,
   };
 };
 
@@ -262,9 +478,9 @@ const createSplitOverlays = (
   splitFrame: number,
   firstPartDuration: number,
   secondPartDuration: number,
-  secondHalfStartTime: number
+  secondHalfStartTime: number,
+  fps: number
 ): [Overlay, Overlay] => {
-  const fps = 30;
   const msPerFrame = 1000 / fps;
   const splitTimeMs = splitFrame * msPerFrame;
 
@@ -0,0 +1,106 @@
+import { useCallback, useMemo, useState } from "react";
+import { AspectRatio, Overlay, OverlayType, Resolution } from "../types";
+import { getPresetDimensions } from "./use-aspect-ratio";
+import {
+  DEFAULT_REFRAME_OPTIONS,
+  ReframeOptions,
+  reframeOverlays,
+} from "../utils/reframe";
+
+interface UseReframeProps {
+  overlays: Overlay[];
+  setOverlays: (overlays: Overlay[]) => void;
+  aspectRatio: AspectRatio;
+  setAspectRatio: (ratio: AspectRatio) => void;
+  getAspectRatioDimensions: () => Resolution;
+}
+
+/** An aspect ratio change being previewed, with the overlays laid out for it */
+export type ReframePreview = {
+  aspectRatio: AspectRatio;
+  dimensions: Resolution;
+  options: ReframeOptions;
+  overlays: Overlay[];
+};
+
+/**
+ * Reframing when the aspect ratio changes
+ *
+ * Picking another ratio first shows the reframed overlays in the player
+ * without changing the project. Accepting applies the ratio and the new
+ * layout together, as a single undo step; keeping the layout applies only
+ * the ratio. The preview follows edits made on the timeline meanwhile.
+ */
+export const useReframe = ({
+  overlays,
+  setOverlays,
+  aspectRatio,
+  setAspectRatio,
+  getAspectRatioDimensions,
+}: UseReframeProps) => {
+  const [pending, setPending] = useState<{
+    aspectRatio: AspectRatio;
+    options: ReframeOptions;
+  } | null>(null);
+
+  const reframePreview: ReframePreview | null = useMemo(() => {
+    if (!pending) return null;
+    const dimensions = getPresetDimensions(pending.aspectRatio);
+    return {
+      ...pending,
+      dimensions,
+      overlays: reframeOverlays(
+        overlays,
+        getAspectRatioDimensions(),
+        dimensions,
+        pending.options
+      ),
+    };
+  }, [pending, overlays, getAspectRatioDimensions]);
+
+  /**
+   * Previews a new aspect ratio. Projects with nothing on the canvas have
+   * nothing to reframe, so the ratio is applied at once.
+   */
+  const previewReframe = useCallback(
+    (ratio: AspectRatio) => {
+      const hasVisuals = overlays.some((overlay) => overlay.type !== OverlayType.SOUND);
+      if (!hasVisuals || ratio === aspectRatio) {
+        setPending(null);
+        setAspectRatio(ratio);
+        return;
+      }
+      setPending((current) => ({
+        aspectRatio: ratio,
+        options: current?.options ?? DEFAULT_REFRAME_OPTIONS,
+      }));
+    },
+    [overlays, aspectRatio, setAspectRatio]
+  );
+
+  const setReframeOptions = useCallback((options: Partial<ReframeOptions>) => {
+    setPending((current) =>
+      current ? { ...current, options: { ...current.options, ...options } } : current
+    );
+  }, []);
+
+  const acceptReframe = useCallback(
+    (keepLayout = false) => {
+      if (!reframePreview) return;
+      if (!keepLayout) setOverlays(reframePreview.overlays);
+      setAspectRatio(reframePreview.aspectRatio);
+      setPending(null);
+    },
+    [reframePreview, setOverlays, setAspectRatio]
+  );
+
+  const cancelReframe = useCallback(() => setPending(null), []);
+
+  return {
+    reframePreview,
+    previewReframe,
+    setReframeOptions,
+    acceptReframe,
+    cancelReframe,
+  };
+};
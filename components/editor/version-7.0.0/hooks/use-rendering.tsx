@@ -1,9 +1,11 @@
 import { z } from "zod";
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
 import { CompositionProps } from "../types";
 import {
+  cancelRender as ssrCancelRender,
   getProgress as ssrGetProgress,
   renderVideo as ssrRenderVideo,
+  renderStill as ssrRenderStill,
 } from "../ssr-helpers/api";
 import {
   getProgress as lambdaGetProgress,
@@ -13,6 +15,7 @@ import {
   getProgress as cloudrunGetProgress,
   renderVideo as cloudrunRenderVideo,
 } from "../cloudrun-helpers/api";
+import { ExportSettings, getExportContainer } from "../utils/export-formats";
 
 // Define possible states for the rendering process
 export type State =
@@ -24,20 +27,39 @@ export type State =
       progress: number;
       status: "rendering";
       bucketName?: string; // Make bucketName optional
+      queuePosition?: number; // Set while the render waits in the SSR queue
+      label?: string; // Which of several queued renders this is, e.g. a variant
+      batch?: { index: number; total: number }; // Place in a queue of renders
     }
   | {
       // Error occurred during rendering
       renderId: string | null;
       status: "error";
       error: Error;
+      label?: string;
     }
   | {
       // Rendering completed successfully
       url: string;
       size: number;
       status: "done";
+      label?: string;
     };
 
+/** One render of a queue, with its own composition */
+export type RenderJob = {
+  label: string;
+  inputProps: z.infer<typeof CompositionProps>;
+};
+
+/** How a render ended: its file, or why it failed. Null when it was cancelled. */
+export type RenderOutcome = { url: string; size: number } | { error: string } | null;
+
+type RenderOptions = {
+  scale?: number;
+  exportSettings?: ExportSettings;
+};
+
 // Utility function to create a delay
 const wait = async (milliSeconds: number) => {
   await new Promise<void>((resolve) => {
@@ -70,9 +92,19 @@ export const useRendering = (
   const [state, setState] = useState<State>({
     status: "init",
   });
+  // Render whose progress is being polled; cleared to stop polling on cancel
+  const activeRenderId = useRef<string | null>(null);
+  // Set on cancel so a queue stops before starting its next render
+  const queueCancelled = useRef(false);
 
-  // Main function to handle the rendering process
-  const renderMedia = useCallback(async (renderOptions?: { scale?: number }) => {
+  // Main function to handle the rendering process. Jobs of a queue bring
+  // their own composition; a plain render uses the editor's.
+  const renderMedia = useCallback(async (
+    renderOptions?: RenderOptions,
+    job?: RenderJob & { batch: { index: number; total: number } }
+  ): Promise<RenderOutcome> => {
+    const label = job?.label;
+    const batch = job?.batch;
     setState({
       status: "invoking",
     });
@@ -96,19 +128,27 @@ export const useRendering = (
       // overlay positions or composition dimensions — guaranteed correct
       const renderScale = renderOptions?.scale;
 
+      // Codec, container, quality and frame range chosen in the export dialog
+      const exportSettings = renderOptions?.exportSettings;
       
       // Start the render (all render types now return a renderId for polling)
-      const response = await renderVideo({ id, inputProps, renderScale });
+      const response = await renderVideo({
+        id,
+        inputProps: job?.inputProps ?? inputProps,
+        renderScale,
+        exportSettings,
+      });
       
       // Check if immediate error
       if ('type' in response && response.type === "error") {
         const errorResponse = response as { type: "error"; message: string; renderId?: string };
         setState({
           status: "error",
+          label,
           renderId: errorResponse.renderId || null,
           error: new Error(errorResponse.message),
         });
-        return;
+        return { error: errorResponse.message };
       }
       
       // Check if immediate completion (unlikely but possible for cached renders)
@@ -118,8 +158,9 @@ export const useRendering = (
           size: doneResponse.size,
           url: doneResponse.url,
           status: "done",
+          label,
         });
-        return;
+        return { url: doneResponse.url, size: doneResponse.size };
       }
 
       // Extract renderId for polling
@@ -135,14 +176,18 @@ export const useRendering = (
         await wait(1000);
       }
 
+      activeRenderId.current = renderId;
       setState({
         status: "rendering",
+        label,
+        batch,
         progress: -1, // -1 indicates indeterminate progress (Cloud Run doesn't report progress)
         renderId,
         bucketName: typeof bucketName === "string" ? bucketName : undefined,
       });
 
       let pending = true;
+      let outcome: RenderOutcome = null;
 
       // Configure polling based on render type
       // OPTIMIZED: Cloud Run uses faster polling since renders are now quicker
@@ -157,13 +202,14 @@ export const useRendering = (
       let throttleBackoffMs = initialThrottleBackoffMs;
       const maxThrottleBackoffMs = 10000; // Reduced from 15s for faster recovery
 
-      while (pending) {
+      while (pending && activeRenderId.current === renderId) {
         let result: Awaited<ReturnType<typeof getProgress>>;
 
         try {
           result = await getProgress({
             id: renderId,
             bucketName: typeof bucketName === "string" ? bucketName : "",
+            container: exportSettings ? getExportContainer(exportSettings) : undefined,
           });
           throttleBackoffMs = initialThrottleBackoffMs;
         } catch (err) {
@@ -182,14 +228,18 @@ export const useRendering = (
 
           throw err;
         }
+        // Cancelled while the request was in flight
+        if (activeRenderId.current !== renderId) break;
         switch (result.type) {
           case "error": {
             console.error(`Render error: ${result.message}`);
             setState({
               status: "error",
+              label,
               renderId: renderId,
               error: new Error(result.message),
             });
+            outcome = { error: result.message };
             pending = false;
             break;
           }
@@ -198,13 +248,29 @@ export const useRendering = (
               size: result.size,
               url: result.url,
               status: "done",
+              label,
             });
+            outcome = { url: result.url, size: result.size };
             pending = false;
             break;
           }
+          case "queued": {
+            setState({
+              status: "rendering",
+              label,
+              batch,
+              progress: 0,
+              renderId: renderId,
+              queuePosition: result.position,
+            });
+            await wait(basePollingIntervalMs);
+            break;
+          }
           case "progress": {
             setState({
               status: "rendering",
+              label,
+              batch,
               progress: result.progress,
               renderId: renderId,
             });
@@ -212,28 +278,99 @@ export const useRendering = (
           }
         }
       }
+      if (activeRenderId.current === renderId) {
+        activeRenderId.current = null;
+      }
+      return outcome;
     } catch (err) {
       console.error("Unexpected error during rendering:", err);
       setState({
         status: "error",
+        label,
         error: err as Error,
         renderId: null,
       });
+      return { error: err instanceof Error ? err.message : String(err) };
     }
   }, [id, inputProps, renderType]);
 
+  // Render several compositions one after another, such as every variant of
+  // a project. Each finished render goes through the usual "done" or "error"
+  // state, labelled with its job; cancelling stops the rest of the queue.
+  // Resolves with how each job ended, in order; jobs never started are left out.
+  const renderQueue = useCallback(
+    async (jobs: RenderJob[], renderOptions?: (job: RenderJob) => RenderOptions) => {
+      queueCancelled.current = false;
+      const outcomes: RenderOutcome[] = [];
+      for (let index = 0; index < jobs.length; index++) {
+        if (queueCancelled.current) break;
+        outcomes.push(
+          await renderMedia(renderOptions?.(jobs[index]), {
+            ...jobs[index],
+            batch: { index: index + 1, total: jobs.length },
+          })
+        );
+      }
+      return outcomes;
+    },
+    [renderMedia]
+  );
+
   // Reset the rendering state back to initial
   const undo = useCallback(() => {
     setState({ status: "init" });
   }, []);
 
+  // Cancel the current render. SSR renders are removed from the queue or
+  // aborted on the server; other render types only stop being tracked.
+  const cancelRender = useCallback(async () => {
+    const renderId = activeRenderId.current;
+    queueCancelled.current = true;
+    if (!renderId) return;
+
+    activeRenderId.current = null;
+    setState({ status: "init" });
+
+    if (renderType === "ssr") {
+      try {
+        await ssrCancelRender({ id: renderId });
+      } catch (err) {
+        console.error("Failed to cancel render:", err);
+      }
+    }
+  }, [renderType]);
+
+  // Render the given frame as an image. Stills are only available with SSR.
+  const renderStill = useCallback(
+    async (
+      frame: number,
+      imageFormat: "png" | "jpeg" = "png",
+      scale?: number
+    ): Promise<Blob> => {
+      if (renderType !== "ssr") {
+        throw new Error("Still frames can only be rendered with SSR");
+      }
+      return ssrRenderStill({
+        id,
+        inputProps,
+        frame,
+        imageFormat,
+        renderScale: scale,
+      });
+    },
+    [id, inputProps, renderType]
+  );
+
   // Return memoized values to prevent unnecessary re-renders
   return useMemo(
     () => ({
       renderMedia, // Function to start rendering
+      renderQueue, // Function to render several compositions in turn
       state, // Current state of the render
       undo, // Function to reset the state
+      cancelRender, // Function to cancel the current render
+      renderStill, // Function to render a single frame as an image
     }),
-    [renderMedia, state, undo]
+    [renderMedia, renderQueue, state, undo, cancelRender, renderStill]
   );
 };
@@ -0,0 +1,104 @@
+import { useHotkeys } from "react-hotkeys-hook";
+import { Overlay } from "../types";
+
+/** Nudge distance in pixels, and with Shift held */
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+interface UseSelectionShortcutsProps {
+  overlays: Overlay[];
+  selectedOverlayIds: number[];
+  currentFrame: number;
+  selectOverlays: (ids: number[], primaryId?: number | null) => void;
+  nudgeOverlays: (ids: number[], dx: number, dy: number, frame: number) => void;
+  duplicateOverlays: (ids: number[]) => void;
+  groupOverlays: (ids: number[]) => void;
+  ungroupOverlays: (ids: number[]) => void;
+}
+
+/**
+ * A custom hook that sets up keyboard shortcuts for the overlay selection
+ *
+ * Keyboard shortcuts:
+ * - Arrow keys: Move the selection by 1px (10px with Shift)
+ * - Cmd/Ctrl + A: Select all overlays
+ * - Cmd/Ctrl + D: Duplicate the selection
+ * - Cmd/Ctrl + G: Group the selection
+ * - Cmd/Ctrl + Shift + G: Ungroup the selection
+ * - Escape: Clear the selection
+ *
+ * Shortcuts are ignored while typing in form fields.
+ */
+export const useSelectionShortcuts = ({
+  overlays,
+  selectedOverlayIds,
+  currentFrame,
+  selectOverlays,
+  nudgeOverlays,
+  duplicateOverlays,
+  groupOverlays,
+  ungroupOverlays,
+}: UseSelectionShortcutsProps) => {
+  const hasSelection = selectedOverlayIds.length > 0;
+
+  useHotkeys(
+    "up, down, left, right, shift+up, shift+down, shift+left, shift+right",
+    (e) => {
+      e.preventDefault();
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const dx = e.key === "ArrowLeft" ? -step : e.key === "ArrowRight" ? step : 0;
+      const dy = e.key === "ArrowUp" ? -step : e.key === "ArrowDown" ? step : 0;
+      nudgeOverlays(selectedOverlayIds, dx, dy, currentFrame);
+    },
+    { enabled: hasSelection },
+    [selectedOverlayIds, currentFrame, nudgeOverlays]
+  );
+
+  useHotkeys(
+    "meta+a, ctrl+a",
+    (e) => {
+      e.preventDefault();
+      selectOverlays(overlays.map((overlay) => overlay.id));
+    },
+    [overlays, selectOverlays]
+  );
+
+  useHotkeys(
+    "meta+d, ctrl+d",
+    (e) => {
+      e.preventDefault();
+      duplicateOverlays(selectedOverlayIds);
+    },
+    { enabled: hasSelection },
+    [selectedOverlayIds, duplicateOverlays]
+  );
+
+  useHotkeys(
+    "meta+g, ctrl+g",
+    (e) => {
+      e.preventDefault();
+      groupOverlays(selectedOverlayIds);
+    },
+    { enabled: selectedOverlayIds.length > 1 },
+    [selectedOverlayIds, groupOverlays]
+  );
+
+  useHotkeys(
+    "meta+shift+g, ctrl+shift+g",
+    (e) => {
+      e.preventDefault();
+      ungroupOverlays(selectedOverlayIds);
+    },
+    { enabled: hasSelection },
+    [selectedOverlayIds, ungroupOverlays]
+  );
+
+  useHotkeys(
+    "escape",
+    () => {
+      selectOverlays([]);
+    },
+    { enabled: hasSelection },
+    [selectOverlays]
+  );
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { TemplateOverlay, Overlay, OverlayType } from "../types";
 import { templateFiles } from "../templates/full-templates/index";
+import { fetchUserTemplates, onUserTemplatesChange } from "../utils/user-templates";
 
 interface UseTemplatesOptions {
   /** Optional search query to filter templates by name, description, or tags */
@@ -12,6 +13,7 @@ interface UseTemplatesOptions {
  *
  * This hook handles:
  * - Loading templates from the full-templates directory
+ * - Loading the user's own templates, listed before the built-in ones
  * - Filtering templates based on a search query
  * - Managing loading and error states
  * - Finding thumbnails from template overlays
@@ -57,7 +59,7 @@ export const useTemplates = ({
     return undefined;
   };
 
-  // Load templates from the full-templates directory
+  // Load templates from the full-templates directory and the user's own
   const loadTemplates = async () => {
     try {
       setIsLoading(true);
@@ -113,7 +115,14 @@ export const useTemplates = ({
         return finalTemplate;
       });
 
-      setTemplates(loadedTemplates);
+      // User templates fall back to their media for a thumbnail too
+      const userTemplates = (await fetchUserTemplates()).map((template) => {
+        const thumbnail =
+          template.thumbnail || findThumbnailFromOverlays(template.overlays);
+        return thumbnail ? { ...template, thumbnail } : template;
+      });
+
+      setTemplates([...userTemplates, ...loadedTemplates]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load templates");
       console.error("Error loading templates:", err);
@@ -136,6 +145,8 @@ export const useTemplates = ({
 
   useEffect(() => {
     loadTemplates();
+    // Reload when a user template is saved or deleted anywhere in the editor
+    return onUserTemplatesChange(loadTemplates);
   }, []);
 
   return {
@@ -1,12 +1,25 @@
-import { useCallback } from "react";
-import { Overlay, OverlayType } from "../types";
-import { ENABLE_PUSH_ON_DRAG } from "../constants";
-
-// Add PushCalculationResult interface back
-interface PushCalculationResult {
-  canPush: boolean;
-  pushedItems: Map<number, number>; // <itemId, pushDistance>
-}
+import { useCallback, useMemo } from "react";
+import { Overlay, RippleScope, TimelineEditMode, TimelineTrack } from "../types";
+import { DEFAULT_EDIT_MODE } from "../constants";
+import { sanitizeTransitions } from "../utils/clip-transitions";
+import {
+  getStartTrimUpdates,
+  moveOverlaysInTime,
+  resizeOverlaysInTime,
+} from "../utils/timeline-edits";
+import {
+  getRowAtOffset,
+  getRowTop,
+  getTrackHeights,
+  isRowLocked,
+} from "../utils/timeline-tracks";
+import {
+  EditModeOptions,
+  applyOverlayEdit,
+  compactMainTrack,
+  followLinkedOverlays,
+  ripplesRow,
+} from "../utils/timeline-edit-modes";
 
 // Revert DragInfo type
 interface DragInfo {
@@ -28,6 +41,8 @@ interface UseTimelineDragAndDropProps {
   overlays: Overlay[];
   durationInFrames: number;
   onOverlayChange: (updatedOverlay: Overlay) => void;
+  /** Replaces all overlays, for edits that add or remove items */
+  onOverlaysChange: (overlays: Overlay[]) => void;
   // Revert updateGhostElement signature to expect pushedItems
   updateGhostElement: (
     newLeft: number,
@@ -39,6 +54,18 @@ interface UseTimelineDragAndDropProps {
   timelineRef: React.RefObject<HTMLDivElement>;
   dragInfo: React.MutableRefObject<DragInfo | null>;
   maxRows: number;
+  /** Ids of all selected overlays; dragging one of them edits them all */
+  selectedOverlayIds?: number[];
+  /** Tracks in row order, for row heights and locks */
+  tracks?: TimelineTrack[];
+  /** How moves and trims treat the items around them */
+  editMode?: TimelineEditMode;
+  /** Rows that ripple edits move */
+  rippleScope?: RippleScope;
+  /** Called when an item linked to a clip was moved without it */
+  onLinkedItemMoved?: (id: number, deltaFrames: number) => void;
+  /** Frame rate of the project, for trimming captions timed in ms */
+  fps?: number;
 }
 
 /**
@@ -48,147 +75,100 @@ interface UseTimelineDragAndDropProps {
  * @param props.overlays - Array of overlay items to manage
  * @param props.durationInFrames - Total duration of the timeline in frames
  * @param props.onOverlayChange - Callback when an overlay is modified
+ * @param props.onOverlaysChange - Callback replacing all overlays when an edit removes or splits items
  * @param props.updateGhostElement - Function to update the ghost element's position during drag
  * @param props.resetDragState - Function to reset the drag state
  * @param props.timelineRef - Reference to the timeline DOM element
  * @param props.dragInfo - Mutable reference holding the current drag state
  * @param props.maxRows - Maximum number of rows in the timeline
+ * @param props.selectedOverlayIds - Multi-selection moved or resized together with the dragged item
+ * @param props.onLinkedItemMoved - Offers to move the clip along when a linked item moves alone
+ * @param props.tracks - Tracks in row order; items on locked tracks cannot be dragged, resized or dropped onto them
+ * @param props.editMode - Overwrite, ripple or magnetic editing of single items
+ * @param props.rippleScope - Whether ripple edits move the items on the edited row or on every row
  * @returns Object containing drag handler functions
  */
 export const useTimelineDragAndDrop = ({
   overlays,
   durationInFrames,
   onOverlayChange,
+  onOverlaysChange,
   updateGhostElement,
   resetDragState,
   timelineRef,
   dragInfo,
   maxRows,
+  selectedOverlayIds = [],
+  tracks = [],
+  editMode = DEFAULT_EDIT_MODE,
+  rippleScope = "row",
+  onLinkedItemMoved,
+  fps,
 }: UseTimelineDragAndDropProps) => {
+  /** The selection to edit with the dragged item, or null for a single-item drag */
+  const getDraggedSelection = useCallback(
+    (draggedId: number) =>
+      selectedOverlayIds.length > 1 && selectedOverlayIds.includes(draggedId)
+        ? selectedOverlayIds
+        : null,
+    [selectedOverlayIds]
+  );
+
+  /**
+   * Whether an item can be dragged or resized: neither it nor the selection
+   * it belongs to may sit on a locked track
+   */
+  const canDragOverlay = useCallback(
+    (overlay: Overlay) => {
+      const ids = getDraggedSelection(overlay.id) ?? [overlay.id];
+      return !overlays.some(
+        (o) => ids.includes(o.id) && isRowLocked(tracks, o.row)
+      );
+    },
+    [getDraggedSelection, overlays, tracks]
+  );
+
   const snapToGrid = useCallback((value: number) => {
     const GRID_SIZE = 1; // Assuming frame-level snapping
     return Math.round(value / GRID_SIZE) * GRID_SIZE;
   }, []);
 
-  // --- Move calculatePush logic back inside ---
-  const calculatePush = useCallback(
-    (
-      draggedItemId: number,
-      intendedNewFrom: number,
-      intendedNewDuration: number,
-      intendedNewRow: number
-    ): PushCalculationResult => {
-      const intendedNewEnd = intendedNewFrom + intendedNewDuration;
-      let canPush = true;
-      const pushedItems = new Map<number, number>();
-
-      const otherItemsInTargetRow = overlays
-        .filter((o) => o.id !== draggedItemId && o.row === intendedNewRow)
-        .sort((a, b) => a.from - b.from);
-
-      const findOverlay = (id: number) => overlays.find((o) => o.id === id);
-
-      const checkAndCalculatePush = (
-        itemToCheckId: number,
-        requiredPush: number
-      ): boolean => {
-        const itemToCheck = findOverlay(itemToCheckId);
-        if (!itemToCheck) return false;
-
-        const existingPush = pushedItems.get(itemToCheckId) || 0;
-        if (
-          existingPush !== 0 &&
-          Math.sign(existingPush) !== Math.sign(requiredPush)
-        ) {
-          return false;
-        }
-        const finalPush =
-          Math.abs(requiredPush) > Math.abs(existingPush)
-            ? requiredPush
-            : existingPush;
-
-        if (finalPush === existingPush && existingPush !== 0) {
-          return true;
-        }
-
-        const newPushedFrom = itemToCheck.from + finalPush;
-        if (newPushedFrom < 0) {
-          return false;
-        }
-
-        pushedItems.set(itemToCheckId, finalPush);
-
-        for (const other of otherItemsInTargetRow) {
-          if (other.id === itemToCheckId) continue;
-
-          const otherExistingPush = pushedItems.get(other.id) || 0;
-          const otherCurrentFrom = other.from + otherExistingPush;
-          const otherCurrentEnd = otherCurrentFrom + other.durationInFrames;
-          const itemToCheckPushedFrom = itemToCheck.from + finalPush;
-          const itemToCheckPushedEnd =
-            itemToCheckPushedFrom + itemToCheck.durationInFrames;
-
-          let subsequentPushAmount = 0;
-          if (
-            finalPush > 0 &&
-            itemToCheckPushedEnd > otherCurrentFrom &&
-            itemToCheckPushedFrom < otherCurrentEnd
-          ) {
-            subsequentPushAmount = itemToCheckPushedEnd - otherCurrentFrom;
-          } else if (
-            finalPush < 0 &&
-            itemToCheckPushedFrom < otherCurrentEnd &&
-            itemToCheckPushedEnd > otherCurrentFrom
-          ) {
-            subsequentPushAmount = itemToCheckPushedFrom - otherCurrentEnd;
-          }
-
-          if (subsequentPushAmount !== 0) {
-            if (!checkAndCalculatePush(other.id, subsequentPushAmount)) {
-              if (existingPush === 0) {
-                pushedItems.delete(itemToCheckId);
-              } else {
-                pushedItems.set(itemToCheckId, existingPush);
-              }
-              return false;
-            }
-          }
-        }
-        return true;
-      };
-
-      for (const other of otherItemsInTargetRow) {
-        const otherOriginalFrom = other.from;
-        const otherOriginalEnd = other.from + other.durationInFrames;
-        const overlaps =
-          intendedNewEnd > otherOriginalFrom &&
-          intendedNewFrom < otherOriginalEnd;
-        if (!overlaps) continue;
-
-        const movingItemCenter = intendedNewFrom + intendedNewDuration / 2;
-        const otherItemCenter = otherOriginalFrom + other.durationInFrames / 2;
-        let initialPushAmount = 0;
-        if (movingItemCenter < otherItemCenter) {
-          initialPushAmount = intendedNewEnd - otherOriginalFrom;
-        } else {
-          initialPushAmount = intendedNewFrom - otherOriginalEnd;
-        }
+  // Items on locked tracks never make room or close up
+  const editOptions: EditModeOptions = useMemo(
+    () => ({
+      mode: editMode,
+      scope: rippleScope,
+      fixedIds: overlays
+        .filter((overlay) => isRowLocked(tracks, overlay.row))
+        .map((overlay) => overlay.id),
+      fps,
+    }),
+    [editMode, rippleScope, overlays, tracks, fps]
+  );
 
-        if (initialPushAmount !== 0) {
-          if (!pushedItems.has(other.id)) {
-            if (!checkAndCalculatePush(other.id, initialPushAmount)) {
-              canPush = false;
-              pushedItems.clear();
-              break;
-            }
-          }
-        }
+  /**
+   * Applies the result of an edit. Changes to existing items go through
+   * onOverlayChange one by one; edits that remove or split items replace the
+   * whole list.
+   */
+  const commitOverlays = useCallback(
+    (next: Overlay[]) => {
+      const sanitized = sanitizeTransitions(next);
+      const previousById = new Map(overlays.map((o) => [o.id, o]));
+      const sameItems =
+        sanitized.length === overlays.length &&
+        sanitized.every((o) => previousById.has(o.id));
+
+      if (!sameItems) {
+        onOverlaysChange(sanitized);
+        return;
       }
-      return { canPush, pushedItems };
+      sanitized
+        .filter((o) => previousById.get(o.id) !== o)
+        .forEach(onOverlayChange);
     },
-    [overlays]
+    [overlays, onOverlayChange, onOverlaysChange]
   );
-  // -------------------------------------------
 
   const handleDragStart = useCallback(
     (
@@ -197,7 +177,7 @@ export const useTimelineDragAndDrop = ({
       clientY: number,
       action: "move" | "resize-start" | "resize-end"
     ) => {
-      if (timelineRef.current) {
+      if (timelineRef.current && canDragOverlay(overlay)) {
         dragInfo.current = {
           id: overlay.id,
           action,
@@ -217,7 +197,7 @@ export const useTimelineDragAndDrop = ({
         );
       }
     },
-    [durationInFrames, maxRows, updateGhostElement]
+    [durationInFrames, maxRows, updateGhostElement, canDragOverlay]
   );
 
   const handleDrag = useCallback(
@@ -229,14 +209,25 @@ export const useTimelineDragAndDrop = ({
       const deltaY = clientY - dragInfo.current.startY;
 
       const rawDeltaTime = (deltaX / timelineRect.width) * durationInFrames;
-      const rowHeight = timelineRect.height / maxRows;
-      const deltaRow = Math.round(deltaY / rowHeight);
+
+      // Rows can have different heights, so follow the pointer from the
+      // middle of the row the drag started on. Heights are scaled to the
+      // rendered height of the rows.
+      const heights = getTrackHeights(tracks, maxRows);
+      const totalHeight = heights.reduce((sum, height) => sum + height, 0);
+      const scale = timelineRect.height ? totalHeight / timelineRect.height : 1;
+      const startRow = Math.min(dragInfo.current.startRow, maxRows - 1);
+      const pointerOffset =
+        getRowTop(heights, startRow) + heights[startRow] / 2 + deltaY * scale;
 
       let newStartFrame: number;
       let newEndFrame: number;
       let newDurationFrames: number;
-      let newRow = dragInfo.current.startRow + deltaRow;
-      newRow = Math.max(0, Math.min(maxRows - 1, newRow));
+      let newRow = getRowAtOffset(heights, pointerOffset);
+      // Items cannot be moved onto a locked track
+      if (isRowLocked(tracks, newRow)) {
+        newRow = dragInfo.current.currentRow ?? dragInfo.current.startRow;
+      }
       dragInfo.current.currentRow = newRow;
 
       switch (dragInfo.current.action) {
@@ -290,35 +281,41 @@ export const useTimelineDragAndDrop = ({
       finalEndFrame = Math.max(finalStartFrame + 1, finalEndFrame);
       newDurationFrames = finalEndFrame - finalStartFrame;
 
-      let canPush = true;
-      let pushedItems = new Map<number, number>();
-
-      // Conditionally calculate push
-      if (ENABLE_PUSH_ON_DRAG) {
-        const potentialEndFrom = Math.max(
-          0,
-          snapToGrid(
-            ((finalStartFrame / durationInFrames) * 100 * durationInFrames) /
-              100
-          ) // More direct frame calculation
-        );
-        const potentialEndDuration = Math.max(
-          1,
-          snapToGrid(
-            ((newDurationFrames / durationInFrames) * 100 * durationInFrames) /
-              100
-          ) // More direct frame calculation
-        );
-        const potentialEndRow = newRow;
+      // Ripple trims keep the clip's start in place and pull in what follows
+      if (
+        dragInfo.current.action === "resize-start" &&
+        ripplesRow(editMode, newRow)
+      ) {
+        finalStartFrame = dragInfo.current.startPosition;
+      }
 
-        const result = calculatePush(
-          dragInfo.current.id,
-          potentialEndFrom,
-          potentialEndDuration,
-          potentialEndRow
+      // Preview how the other items make room. Selections move as a block and
+      // never push, and overwrites leave the other items where they are.
+      const pushedItems = new Map<number, number>();
+      const draggedOverlay = overlays.find((o) => o.id === dragInfo.current?.id);
+      if (
+        draggedOverlay &&
+        editMode !== "overwrite" &&
+        !getDraggedSelection(draggedOverlay.id)
+      ) {
+        const preview = applyOverlayEdit(
+          overlays,
+          {
+            ...draggedOverlay,
+            from: finalStartFrame,
+            durationInFrames: newDurationFrames,
+            row: newRow,
+          } as Overlay,
+          dragInfo.current.action,
+          editOptions
         );
-        canPush = result.canPush;
-        pushedItems = result.pushedItems;
+        const previousById = new Map(overlays.map((o) => [o.id, o]));
+        preview?.forEach((o) => {
+          const previous = previousById.get(o.id);
+          if (previous && o.id !== draggedOverlay.id && o.from !== previous.from) {
+            pushedItems.set(o.id, o.from - previous.from);
+          }
+        });
       }
 
       // Calculate ghost percentages
@@ -329,27 +326,24 @@ export const useTimelineDragAndDrop = ({
       const finalLeft = Math.max(0, newLeftPercent);
       const finalWidth = Math.max(0.0001, newWidthPercent);
 
-      // Pass potentially empty map if push is disabled or not possible
-      updateGhostElement(
-        finalLeft,
-        finalWidth,
-        finalTop,
-        canPush ? pushedItems : new Map()
-      );
+      updateGhostElement(finalLeft, finalWidth, finalTop, pushedItems);
 
       // Update dragInfo with the calculated percentage values
       dragInfo.current.ghostLeft = finalLeft;
       dragInfo.current.ghostWidth = finalWidth;
       dragInfo.current.ghostTop = finalTop;
     },
-    // Re-add calculatePush to dependencies
     [
+      overlays,
       durationInFrames,
       maxRows,
       snapToGrid,
       updateGhostElement,
       dragInfo,
-      calculatePush,
+      getDraggedSelection,
+      tracks,
+      editMode,
+      editOptions,
     ]
   );
 
@@ -386,95 +380,108 @@ export const useTimelineDragAndDrop = ({
     const intendedNewRow =
       currentDragInfo.currentRow ?? currentDragInfo.startRow;
 
-    // --- Always calculate final push possibility ---
-    const { canPush, pushedItems } = calculatePush(
-      currentDragInfo.id,
-      intendedNewFrom,
-      intendedNewDuration,
-      intendedNewRow
-    );
-    // -----------------------------------------------
-
-    const itemsToUpdate: Overlay[] = [];
-
-    // If the final position is valid (no collision or resolvable collision)
-    if (canPush) {
-      let additionalUpdates = {};
-      if (currentDragInfo.action === "resize-start") {
-        // ... (resize logic remains same)
-        const trimmedFrames = Math.max(
-          0,
-          intendedNewFrom - currentDragInfo.startPosition
+    // Multi-selection: apply the same move or trim to every selected item,
+    // or leave them all in place when that is not possible
+    const selection = getDraggedSelection(currentDragInfo.id);
+    if (selection) {
+      let edited: Overlay[] | null;
+      if (currentDragInfo.action === "move") {
+        edited = moveOverlaysInTime(
+          overlays,
+          selection,
+          intendedNewFrom - currentDragInfo.startPosition,
+          intendedNewRow - currentDragInfo.startRow,
+          maxRows
+        );
+      } else if (currentDragInfo.action === "resize-start") {
+        edited = resizeOverlaysInTime(
+          overlays,
+          selection,
+          "start",
+          intendedNewFrom - currentDragInfo.startPosition,
+          fps
         );
-        const trimmedMs = (trimmedFrames / 30) * 1000;
-
-        if (originalOverlay.type === OverlayType.VIDEO) {
-          additionalUpdates = {
-            videoStartTime: Math.max(
-              0,
-              (originalOverlay.videoStartTime || 0) + trimmedFrames
-            ),
-          };
-        } else if (originalOverlay.type === OverlayType.SOUND) {
-          additionalUpdates = {
-            startFromSound: Math.max(
-              0,
-              (originalOverlay.startFromSound || 0) + trimmedFrames
-            ),
-          };
-        } else if (originalOverlay.type === OverlayType.CAPTION) {
-          const adjustTiming = (time: number) => Math.max(0, time - trimmedMs);
-          additionalUpdates = {
-            captions: originalOverlay.captions.map((caption) => ({
-              ...caption,
-              startMs: adjustTiming(caption.startMs),
-              endMs: adjustTiming(caption.endMs),
-              words: caption.words.map((word) => ({
-                ...word,
-                startMs: adjustTiming(word.startMs),
-                endMs: adjustTiming(word.endMs),
-              })),
-            })),
-          };
+      } else {
+        edited = resizeOverlaysInTime(
+          overlays,
+          selection,
+          "end",
+          intendedNewDuration - currentDragInfo.startDuration
+        );
+      }
+
+      // Moving the block must not put any item onto a locked track
+      if (edited?.some((o) => isRowLocked(tracks, o.row))) {
+        edited = null;
+      }
+
+      if (edited) {
+        const editedById = new Map(edited.map((o) => [o.id, o]));
+        let nextOverlays = followLinkedOverlays(
+          overlays,
+          overlays.map((o) => editedById.get(o.id) ?? o),
+          editOptions.fixedIds
+        );
+        if (editMode === "magnetic") {
+          nextOverlays = compactMainTrack(nextOverlays, editOptions);
         }
+        commitOverlays(nextOverlays);
       }
 
-      // Always add the dragged item update if the position is valid
-      itemsToUpdate.push({
+      resetDragState();
+      return;
+    }
+
+    // Trimming the start skips into media and captions and keeps
+    // keyframes anchored to the same timeline position
+    const additionalUpdates =
+      currentDragInfo.action === "resize-start"
+        ? getStartTrimUpdates(
+            originalOverlay,
+            currentDragInfo.startPosition,
+            intendedNewFrom,
+            fps
+          )
+        : {};
+
+    // The edit mode decides what happens to the items around the new place:
+    // they are cut away (overwrite) or moved to make room (ripple)
+    const nextOverlays = applyOverlayEdit(
+      overlays,
+      {
         ...originalOverlay,
         ...additionalUpdates,
         from: intendedNewFrom,
         durationInFrames: intendedNewDuration,
         row: intendedNewRow,
-      });
+      } as Overlay,
+      currentDragInfo.action,
+      editOptions
+    );
 
-      // Always add pushed items update if canPush is true
-      // Remove conditional check for ENABLE_PUSH_ON_DRAG here
-      pushedItems.forEach((pushDist, itemId) => {
-        const pushedOverlay = overlays.find((o) => o.id === itemId);
-        if (pushedOverlay) {
-          itemsToUpdate.push({
-            ...pushedOverlay,
-            from: snapToGrid(pushedOverlay.from + pushDist),
-          });
-        }
-      });
+    if (nextOverlays) {
+      commitOverlays(nextOverlays);
 
-      itemsToUpdate.forEach(onOverlayChange);
-    } else {
-      // If canPush is false (final position is invalid/causes unresolvable collision),
-      // always revert the dragged item.
-      const startOverlay = overlays.find(
-        (overlay) => overlay.id === currentDragInfo.id
-      );
-      if (startOverlay) {
-        onOverlayChange({
-          ...startOverlay,
-          from: currentDragInfo.startPosition,
-          durationInFrames: currentDragInfo.startDuration,
-          row: currentDragInfo.startRow,
-        });
+      const moved = nextOverlays.find((o) => o.id === originalOverlay.id);
+      if (
+        currentDragInfo.action === "move" &&
+        originalOverlay.linkedTo !== undefined &&
+        moved &&
+        moved.from !== currentDragInfo.startPosition
+      ) {
+        onLinkedItemMoved?.(
+          originalOverlay.id,
+          moved.from - currentDragInfo.startPosition
+        );
       }
+    } else {
+      // The edit does not fit, so the dragged item goes back
+      onOverlayChange({
+        ...originalOverlay,
+        from: currentDragInfo.startPosition,
+        durationInFrames: currentDragInfo.startDuration,
+        row: currentDragInfo.startRow,
+      });
     }
 
     resetDragState();
@@ -486,7 +493,13 @@ export const useTimelineDragAndDrop = ({
     snapToGrid,
     onOverlayChange,
     resetDragState,
-    calculatePush,
+    commitOverlays,
+    getDraggedSelection,
+    tracks,
+    editMode,
+    editOptions,
+    onLinkedItemMoved,
+    fps,
   ]);
 
   return {
@@ -511,5 +524,12 @@ export const useTimelineDragAndDrop = ({
      * Handles collision detection and adjusts position if needed
      */
     handleDragEnd,
+
+    /**
+     * Whether an overlay can be dragged or resized, which it cannot while it
+     * (or the selection it is part of) is on a locked track
+     * @param overlay - The overlay about to be dragged
+     */
+    canDragOverlay,
   };
 };
@@ -0,0 +1,154 @@
+import { useCallback, useRef, useState } from "react";
+import { ROW_HEIGHT } from "../constants";
+import { Overlay } from "../types";
+import { getOverlaysInRange } from "../utils/overlay-selection";
+import { getRowAtOffset } from "../utils/timeline-tracks";
+
+/** Height of the time markers above the rows, in pixels */
+const TIMELINE_HEADER_HEIGHT = 21;
+
+/** Pointer travel (in pixels) below which a press is treated as a click */
+const MARQUEE_THRESHOLD = 4;
+
+interface UseTimelineMarqueeProps {
+  // Reference to the timeline DOM element
+  timelineRef: React.RefObject<HTMLDivElement>;
+  // Overlays that can be picked by the marquee
+  overlays: Overlay[];
+  // Total duration of the timeline in frames
+  durationInFrames: number;
+  // Number of rows currently shown
+  visibleRows: number;
+  // Height of each row in pixels, when the rows differ in height
+  rowHeights?: number[];
+  // Currently selected overlay IDs, kept when the marquee adds to them
+  selectedOverlayIds: number[];
+  // Replaces the selection
+  selectOverlays: (ids: number[], primaryId?: number | null) => void;
+}
+
+/** Marquee box in timeline coordinates: percentages horizontally, pixels vertically */
+export interface TimelineMarqueeBox {
+  left: number;
+  width: number;
+  top: number;
+  height: number;
+}
+
+/**
+ * Rubber-band selection on the empty parts of the timeline. Dragging selects
+ * every item the box touches; holding shift or cmd/ctrl adds them to the
+ * current selection. A drag swallows the click that follows it so the
+ * playhead does not jump.
+ */
+export const useTimelineMarquee = ({
+  timelineRef,
+  overlays,
+  durationInFrames,
+  visibleRows,
+  rowHeights,
+  selectedOverlayIds,
+  selectOverlays,
+}: UseTimelineMarqueeProps) => {
+  const [marquee, setMarquee] = useState<TimelineMarqueeBox | null>(null);
+  const suppressClick = useRef(false);
+
+  const handleMarqueeMouseDown = useCallback(
+    (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = timelineRef.current?.getBoundingClientRect();
+      if (e.button !== 0 || !rect || durationInFrames <= 0) return;
+
+      const startX = e.clientX - rect.left;
+      const startY = e.clientY - rect.top;
+      if (startY < TIMELINE_HEADER_HEIGHT) return;
+
+      const additive = e.shiftKey || e.metaKey || e.ctrlKey;
+      suppressClick.current = false;
+
+      const boxTo = (clientX: number, clientY: number) => {
+        const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
+        const y = clientY - rect.top;
+        return {
+          x1: Math.min(startX, x),
+          x2: Math.max(startX, x),
+          y1: Math.min(startY, y),
+          y2: Math.max(startY, y),
+        };
+      };
+
+      const onMouseMove = (moveEvent: MouseEvent) => {
+        const dx = Math.abs(moveEvent.clientX - e.clientX);
+        const dy = Math.abs(moveEvent.clientY - e.clientY);
+        if (!suppressClick.current && dx < MARQUEE_THRESHOLD && dy < MARQUEE_THRESHOLD) {
+          return;
+        }
+        suppressClick.current = true;
+
+        const { x1, x2, y1, y2 } = boxTo(moveEvent.clientX, moveEvent.clientY);
+        setMarquee({
+          left: (x1 / rect.width) * 100,
+          width: ((x2 - x1) / rect.width) * 100,
+          top: y1,
+          height: y2 - y1,
+        });
+      };
+
+      const onMouseUp = (upEvent: MouseEvent) => {
+        window.removeEventListener("mousemove", onMouseMove);
+        setMarquee(null);
+        if (!suppressClick.current) return;
+
+        const { x1, x2, y1, y2 } = boxTo(upEvent.clientX, upEvent.clientY);
+        const heights =
+          rowHeights ?? Array.from({ length: visibleRows }, () => ROW_HEIGHT);
+        const toRow = (y: number) =>
+          getRowAtOffset(heights, y - TIMELINE_HEADER_HEIGHT);
+        const hits = getOverlaysInRange(overlays, {
+          fromFrame: (x1 / rect.width) * durationInFrames,
+          toFrame: (x2 / rect.width) * durationInFrames,
+          fromRow: toRow(y1),
+          toRow: toRow(y2),
+        });
+
+        selectOverlays(
+          additive
+            ? Array.from(new Set([...selectedOverlayIds, ...hits]))
+            : hits
+        );
+      };
+
+      window.addEventListener("mousemove", onMouseMove);
+      window.addEventListener("mouseup", onMouseUp, { once: true });
+    },
+    [
+      timelineRef,
+      overlays,
+      durationInFrames,
+      visibleRows,
+      rowHeights,
+      selectedOverlayIds,
+      selectOverlays,
+    ]
+  );
+
+  /**
+   * Wraps a click handler so the click ending a marquee drag is ignored
+   */
+  const withMarqueeClickGuard = useCallback(
+    <E extends React.MouseEvent>(handler: (e: E) => void) =>
+      (e: E) => {
+        if (suppressClick.current) {
+          suppressClick.current = false;
+          return;
+        }
+        handler(e);
+      },
+    []
+  );
+
+  return {
+    marquee,
+    handleMarqueeMouseDown,
+    withMarqueeClickGuard,
+  };
+};
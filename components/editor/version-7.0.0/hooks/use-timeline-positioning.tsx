@@ -1,26 +1,31 @@
-import { Overlay } from "../types";
+import { Overlay, TimelineTrack } from "../types";
+import { isRowLocked } from "../utils/timeline-tracks";
 
 export const useTimelinePositioning = () => {
   /**
    * Finds the next available position for a new overlay in a multi-row timeline.
    * Places at the current playhead position and finds the first row without conflicts.
+   * Rows whose track is locked are never picked.
    * @param existingOverlays - Array of current overlays in the timeline
    * @param visibleRows - Number of rows currently visible in the timeline
    * @param totalDuration - Total duration of the timeline in frames
    * @param currentFrame - Current playhead position (frame number)
+   * @param tracks - Timeline tracks, one per row, used to skip locked rows
    * @returns Object containing the starting position (from) and row number
    */
   const findNextAvailablePosition = (
     existingOverlays: Overlay[],
     visibleRows: number,
     totalDuration: number,
-    currentFrame: number = 0
+    currentFrame: number = 0,
+    tracks: TimelineTrack[] = []
   ): { from: number; row: number } => {
     // Always start at the playhead position
     const from = currentFrame;
 
-    // Find the first row where no existing overlay occupies the current frame
+    // Find the first unlocked row where no existing overlay occupies the current frame
     for (let row = 0; row < visibleRows; row++) {
+      if (isRowLocked(tracks, row)) continue;
       const hasConflict = existingOverlays.some(
         (overlay) =>
           overlay.row === row &&
@@ -32,8 +37,14 @@ export const useTimelinePositioning = () => {
       }
     }
 
-    // All visible rows occupied at this frame — use the last visible row
-    return { from, row: visibleRows - 1 };
+    // All visible rows occupied at this frame — use the last unlocked visible
+    // row, or a new row below them when every one of them is locked
+    for (let row = visibleRows - 1; row >= 0; row--) {
+      if (!isRowLocked(tracks, row)) {
+        return { from, row };
+      }
+    }
+    return { from, row: visibleRows };
   };
 
   return { findNextAvailablePosition };
@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Overlay, OverlayType, TrimTool } from "../types";
+import { sanitizeTransitions } from "../utils/clip-transitions";
+import { probeMediaDuration } from "../utils/media-duration";
+import { followLinkedOverlays } from "../utils/timeline-edit-modes";
+import {
+  findCut,
+  getSourceRange,
+  hasSourceMedia,
+  rollCut,
+  slideClip,
+  slipClip,
+} from "../utils/trim-tools";
+
+/** Pointer travel (in pixels) before a press starts trimming */
+const TRIM_THRESHOLD = 2;
+
+interface UseTimelineTrimToolsProps {
+  // Overlays on the timeline
+  overlays: Overlay[];
+  // Total duration of the timeline in frames
+  durationInFrames: number;
+  // Reference to the timeline DOM element
+  timelineRef: React.RefObject<HTMLDivElement>;
+  // Active tool; nothing happens with "select"
+  trimTool: TrimTool;
+  // Replaces the overlays, live while dragging and once more on release
+  onOverlaysChange: (overlays: Overlay[]) => void;
+  // Frame rate of the project
+  fps: number;
+}
+
+/** Source timecodes shown next to the edit while a trim tool is dragged */
+export interface TrimReadout {
+  tool: Exclude<TrimTool, "select">;
+  row: number;
+  /** Horizontal position as a percentage of the timeline width */
+  left: number;
+  /** Source frames at the edit: a clip's in and out, or the out and in at a cut */
+  entries: { label: "in" | "out"; frames: number }[];
+}
+
+const getReadout = (
+  tool: Exclude<TrimTool, "select">,
+  overlays: Overlay[],
+  overlay: Overlay,
+  edge: "start" | "end",
+  durationInFrames: number
+): TrimReadout | null => {
+  const clip = overlays.find((o) => o.id === overlay.id);
+  if (!clip) return null;
+
+  const percent = (frame: number) => (frame / durationInFrames) * 100;
+  const cutEntries = (outgoing?: Overlay, incoming?: Overlay) => [
+    ...(outgoing && hasSourceMedia(outgoing)
+      ? [{ label: "out" as const, frames: getSourceRange(outgoing).end }]
+      : []),
+    ...(incoming && hasSourceMedia(incoming)
+      ? [{ label: "in" as const, frames: getSourceRange(incoming).start }]
+      : []),
+  ];
+
+  if (tool === "roll") {
+    const cut = findCut(overlays, clip.id, edge);
+    if (!cut) return null;
+    return {
+      tool,
+      row: clip.row,
+      left: percent(cut.incoming.from),
+      entries: cutEntries(cut.outgoing, cut.incoming),
+    };
+  }
+
+  const range = getSourceRange(clip);
+  const ownEntries = [
+    { label: "in" as const, frames: range.start },
+    { label: "out" as const, frames: range.end },
+  ];
+  if (tool === "slide") {
+    // The neighbours' edges change; the clip's own source does not
+    const entries = [
+      ...cutEntries(findCut(overlays, clip.id, "start")?.outgoing),
+      ...cutEntries(undefined, findCut(overlays, clip.id, "end")?.incoming),
+    ];
+    return {
+      tool,
+      row: clip.row,
+      left: percent(clip.from),
+      entries: entries.length > 0 ? entries : ownEntries,
+    };
+  }
+
+  return { tool, row: clip.row, left: percent(clip.from), entries: ownEntries };
+};
+
+/**
+ * Slip, slide and roll on video and sound clips. A press on a clip with one
+ * of these tools starts the edit instead of a move; the timeline and the
+ * player update live and the whole drag is a single undo step.
+ *
+ * Trims never run past the source: clips that don't record the length of
+ * their media have it read from the file when a tool is picked.
+ */
+export const useTimelineTrimTools = ({
+  overlays,
+  durationInFrames,
+  timelineRef,
+  trimTool,
+  onOverlaysChange,
+  fps,
+}: UseTimelineTrimToolsProps) => {
+  const [trimReadout, setTrimReadout] = useState<TrimReadout | null>(null);
+  // Lengths read from the files, in seconds so they hold across frame rates
+  const [probedDurations, setProbedDurations] = useState<Record<string, number>>({});
+  const probedSources = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (trimTool === "select") return;
+    overlays.forEach((overlay) => {
+      if (overlay.type !== OverlayType.VIDEO && overlay.type !== OverlayType.SOUND) return;
+      if (overlay.mediaDurationInFrames !== undefined || !overlay.src) return;
+      if (probedSources.current.has(overlay.src)) return;
+
+      const src = overlay.src;
+      probedSources.current.add(src);
+      probeMediaDuration(src, overlay.type === OverlayType.VIDEO ? "video" : "audio").then(
+        (seconds) => {
+          if (seconds === undefined) return;
+          setProbedDurations((durations) => ({
+            ...durations,
+            [src]: seconds,
+          }));
+        }
+      );
+    });
+  }, [trimTool, overlays]);
+
+  const getSourceDuration = useCallback(
+    (overlay: Overlay) => {
+      if (overlay.type !== OverlayType.VIDEO && overlay.type !== OverlayType.SOUND) {
+        return undefined;
+      }
+      const seconds = probedDurations[overlay.src];
+      return (
+        overlay.mediaDurationInFrames ??
+        (seconds === undefined ? undefined : Math.round(seconds * fps))
+      );
+    },
+    [probedDurations, fps]
+  );
+
+  /**
+   * Starts a trim tool edit on a clip. Returns false when the active tool
+   * doesn't apply, so the press can be handled as a normal move or trim.
+   */
+  const startTrimTool = useCallback(
+    (
+      overlay: Overlay,
+      clientX: number,
+      action: "move" | "resize-start" | "resize-end"
+    ): boolean => {
+      const rect = timelineRef.current?.getBoundingClientRect();
+      if (trimTool === "select" || !hasSourceMedia(overlay) || !rect?.width) {
+        return false;
+      }
+      const tool = trimTool;
+      const framesPerPixel = durationInFrames / rect.width;
+
+      // Roll works on the cut nearest to where the clip was grabbed
+      let edge: "start" | "end" = action === "resize-start" ? "start" : "end";
+      if (action === "move") {
+        const frame = (clientX - rect.left) * framesPerPixel;
+        edge = frame - overlay.from < overlay.durationInFrames / 2 ? "start" : "end";
+      }
+
+      const base = overlays;
+      const edit = (deltaFrames: number) => {
+        if (tool === "slip") {
+          return slipClip(base, overlay.id, deltaFrames, getSourceDuration);
+        }
+        const edited =
+          tool === "slide"
+            ? slideClip(base, overlay.id, deltaFrames, getSourceDuration, fps)
+            : rollCut(base, overlay.id, edge, deltaFrames, getSourceDuration, fps);
+        return edited && followLinkedOverlays(base, edited);
+      };
+
+      let latest: Overlay[] | null = null;
+      const onMove = (moveX: number) => {
+        if (!latest && Math.abs(moveX - clientX) < TRIM_THRESHOLD) return;
+        const edited = edit(Math.round((moveX - clientX) * framesPerPixel));
+        if (!edited) return;
+
+        latest = edited;
+        onOverlaysChange(
+          edited.map((o, index) => (o === base[index] ? o : { ...o, isDragging: true }))
+        );
+        setTrimReadout(getReadout(tool, edited, overlay, edge, durationInFrames));
+      };
+
+      const onMouseMove = (e: MouseEvent) => onMove(e.clientX);
+      const onTouchMove = (e: TouchEvent) => onMove(e.touches[0].clientX);
+      const onEnd = () => {
+        window.removeEventListener("mousemove", onMouseMove);
+        window.removeEventListener("touchmove", onTouchMove);
+        window.removeEventListener("mouseup", onEnd);
+        window.removeEventListener("touchend", onEnd);
+        setTrimReadout(null);
+        if (latest) onOverlaysChange(sanitizeTransitions(latest));
+      };
+
+      window.addEventListener("mousemove", onMouseMove);
+      window.addEventListener("touchmove", onTouchMove);
+      window.addEventListener("mouseup", onEnd);
+      window.addEventListener("touchend", onEnd);
+      setTrimReadout(getReadout(tool, base, overlay, edge, durationInFrames));
+      return true;
+    },
+    [
+      timelineRef,
+      trimTool,
+      durationInFrames,
+      overlays,
+      getSourceDuration,
+      onOverlaysChange,
+      fps,
+    ]
+  );
+
+  return { startTrimTool, trimReadout };
+};
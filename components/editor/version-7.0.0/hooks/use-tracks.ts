@@ -0,0 +1,82 @@
+import { useCallback, useMemo, useState } from "react";
+import { Overlay, TimelineTrack } from "../types";
+import { INITIAL_ROWS, MAX_ROWS } from "../constants";
+import {
+  createTrack,
+  getRowCount,
+  moveTrack as moveTrackInList,
+  removeTrack as removeTrackFromList,
+  resolveTracks,
+} from "../utils/timeline-tracks";
+
+interface UseTracksProps {
+  overlays: Overlay[];
+  setOverlays: React.Dispatch<React.SetStateAction<Overlay[]>>;
+}
+
+/**
+ * Timeline tracks with their name, color, height and mute/solo/lock/hide
+ * state.
+ *
+ * `tracks` always has one entry per timeline row: rows that only exist
+ * because an overlay sits on them get a default track, which is stored as
+ * soon as it is edited. Moving or removing a track moves or removes its
+ * overlays too.
+ */
+export const useTracks = ({ overlays, setOverlays }: UseTracksProps) => {
+  const [storedTracks, setTracks] = useState<TimelineTrack[]>([]);
+
+  const rowCount = getRowCount(storedTracks, overlays, INITIAL_ROWS);
+  const tracks = useMemo(
+    () => resolveTracks(storedTracks, rowCount),
+    [storedTracks, rowCount]
+  );
+
+  const updateTrack = useCallback(
+    (index: number, changes: Partial<Omit<TimelineTrack, "id">>) => {
+      setTracks(
+        resolveTracks(tracks, index + 1).map((track, row) =>
+          row === index ? { ...track, ...changes } : track
+        )
+      );
+    },
+    [tracks]
+  );
+
+  const addTrack = useCallback(() => {
+    if (tracks.length >= MAX_ROWS) return;
+    setTracks([...tracks, createTrack(tracks.length, tracks)]);
+  }, [tracks]);
+
+  /** Removes a track and its overlays. Locked tracks are kept. */
+  const removeTrack = useCallback(
+    (index: number) => {
+      if (!tracks[index] || tracks[index].locked) return;
+      const result = removeTrackFromList(tracks, overlays, index);
+      setTracks(result.tracks);
+      setOverlays(result.overlays);
+    },
+    [tracks, overlays, setOverlays]
+  );
+
+  const moveTrack = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      const result = moveTrackInList(tracks, overlays, fromIndex, toIndex);
+      if (result.tracks === tracks) return;
+      setTracks(result.tracks);
+      setOverlays(result.overlays);
+    },
+    [tracks, overlays, setOverlays]
+  );
+
+  return {
+    tracks,
+    /** Tracks that were created or edited; what gets saved and undone */
+    storedTracks,
+    setTracks,
+    updateTrack,
+    addTrack,
+    removeTrack,
+    moveTrack,
+  };
+};
@@ -0,0 +1,137 @@
+import { useCallback, useState } from "react";
+import { AspectRatio, Overlay, ProjectVariants, Resolution } from "../types";
+import { getPresetDimensions } from "./use-aspect-ratio";
+import {
+  createVariant,
+  getVariantDimensions,
+  layoutOverlaysForVariant,
+  switchVariant as switchToVariant,
+} from "../utils/variants";
+
+interface UseVariantsProps {
+  overlays: Overlay[];
+  setOverlays: (overlays: Overlay[]) => void;
+  aspectRatio: AspectRatio;
+  setAspectRatio: (ratio: AspectRatio) => void;
+  customDimensions: Resolution | null;
+  setCustomDimensions: (dimensions: Resolution | null) => void;
+  getAspectRatioDimensions: () => Resolution;
+}
+
+/**
+ * Aspect-ratio variants of one project
+ *
+ * Variants share the timeline, so timing edits apply to all of them; each
+ * keeps its own resolution and its own position, size and crop for every
+ * overlay. The overlays in
+ * the editor are laid out for the open variant. A project without variants
+ * has `variants` set to null and behaves as before.
+ */
+export const useVariants = ({
+  overlays,
+  setOverlays,
+  aspectRatio,
+  setAspectRatio,
+  customDimensions,
+  setCustomDimensions,
+  getAspectRatioDimensions,
+}: UseVariantsProps) => {
+  const [variants, setVariants] = useState<ProjectVariants | null>(null);
+
+  const switchVariant = useCallback(
+    (id: string, state: ProjectVariants | null = variants) => {
+      if (!state) return;
+      const result = switchToVariant(
+        state,
+        overlays,
+        { aspectRatio, dimensions: getAspectRatioDimensions(), resolution: customDimensions },
+        id,
+        getPresetDimensions
+      );
+      if (!result) return;
+
+      const target = result.variants.variants.find((variant) => variant.id === id)!;
+      setVariants(result.variants);
+      setOverlays(result.overlays);
+      // Setting the ratio drops the custom resolution, so it is restored after
+      setAspectRatio(target.aspectRatio);
+      setCustomDimensions(target.resolution ?? null);
+    },
+    [
+      variants,
+      overlays,
+      aspectRatio,
+      customDimensions,
+      getAspectRatioDimensions,
+      setOverlays,
+      setAspectRatio,
+      setCustomDimensions,
+    ]
+  );
+
+  /**
+   * Adds a variant at another aspect ratio and opens it. The first one added
+   * also turns the project as it is into a variant.
+   */
+  const addVariant = useCallback(
+    (ratio: AspectRatio) => {
+      const current = variants ?? (() => {
+        const variant = createVariant(aspectRatio, customDimensions);
+        return { activeId: variant.id, variants: [variant] };
+      })();
+      const added = createVariant(ratio);
+      switchVariant(added.id, {
+        ...current,
+        variants: [...current.variants, added],
+      });
+    },
+    [variants, aspectRatio, customDimensions, switchVariant]
+  );
+
+  /**
+   * Removes a variant other than the open one. With a single variant left
+   * the project goes back to having none.
+   */
+  const removeVariant = useCallback(
+    (id: string) => {
+      if (!variants || id === variants.activeId) return;
+      const remaining = variants.variants.filter((variant) => variant.id !== id);
+      setVariants(remaining.length > 1 ? { ...variants, variants: remaining } : null);
+    },
+    [variants]
+  );
+
+  /**
+   * Overlays and canvas size of a variant, for rendering it without opening it
+   */
+  const getVariantComposition = useCallback(
+    (id: string): { aspectRatio: AspectRatio; dimensions: Resolution; overlays: Overlay[] } | null => {
+      const variant = variants?.variants.find((item) => item.id === id);
+      if (!variants || !variant) return null;
+      if (id === variants.activeId) {
+        return { aspectRatio, dimensions: getAspectRatioDimensions(), overlays };
+      }
+      const dimensions = getVariantDimensions(variant, getPresetDimensions);
+      return {
+        aspectRatio: variant.aspectRatio,
+        dimensions,
+        overlays: layoutOverlaysForVariant(
+          overlays,
+          getAspectRatioDimensions(),
+          variant,
+          dimensions
+        ),
+      };
+    },
+    [variants, overlays, aspectRatio, getAspectRatioDimensions]
+  );
+
+  return {
+    variants,
+    setVariants,
+    addVariant,
+    removeVariant,
+    switchVariant,
+    getVariantComposition,
+  };
+};
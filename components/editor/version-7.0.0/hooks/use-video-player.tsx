@@ -4,9 +4,10 @@ import { FPS } from "../constants";
 
 /**
  * Custom hook for managing video player functionality
+ * @param fps - Frame rate of the project
  * @returns An object containing video player controls and state
  */
-export const useVideoPlayer = () => {
+export const useVideoPlayer = (fps: number = FPS) => {
   // State management
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentFrame, setCurrentFrame] = useState(0);
@@ -16,7 +17,7 @@ export const useVideoPlayer = () => {
   useEffect(() => {
     let animationFrameId: number;
     let lastUpdateTime = 0;
-    const frameInterval = 1000 / FPS;
+    const frameInterval = 1000 / fps;
 
     const updateCurrentFrame = () => {
       const now = performance.now();
@@ -40,7 +41,7 @@ export const useVideoPlayer = () => {
         cancelAnimationFrame(animationFrameId);
       }
     };
-  }, [isPlaying, FPS]);
+  }, [isPlaying, fps]);
 
   /**
    * Starts playing the video
@@ -71,17 +72,18 @@ export const useVideoPlayer = () => {
    * @returns Formatted time string in MM:SS format
    */
   const formatTime = useCallback((frames: number) => {
-    const totalSeconds = frames / FPS;
+    const totalSeconds = frames / fps;
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = Math.floor(totalSeconds % 60);
-    const frames2Digits = Math.floor(frames % FPS)
+    // Frames into the current second; rates like 23.976 don't divide evenly
+    const frames2Digits = Math.floor(frames - Math.floor(totalSeconds) * fps)
       .toString()
       .padStart(2, "0");
 
     return `${minutes.toString().padStart(2, "0")}:${seconds
       .toString()
       .padStart(2, "0")}.${frames2Digits}`;
-  }, []);
+  }, [fps]);
 
   /**
    * Seeks to a specific frame in the video
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { continueRender, delayRender } from "remotion";
+import { AudioData, getAudioData } from "@remotion/media-utils";
+import { OverlayType } from "../types";
+import { VisualiserSource } from "../utils/audio-visualiser";
+import { resolveMediaUrl, resolveVideoUrl } from "../utils/url-helper";
+
+/**
+ * URL the audio of a source is fetched from. Videos go through the same
+ * resolution as the video layer, so they are read from a CORS-enabled URL.
+ */
+export const getVisualiserSourceUrl = (source: VisualiserSource, baseUrl?: string) =>
+  source.overlay.type === OverlayType.VIDEO
+    ? resolveVideoUrl(source.overlay.src, baseUrl)
+    : resolveMediaUrl(source.overlay.src, baseUrl);
+
+/**
+ * Decoded audio of every source a visualiser follows, keyed by URL.
+ *
+ * Rendering is held with `delayRender` until the audio is decoded, so a
+ * render never draws frames from missing data. Files that fail to load are
+ * left out and the visualiser stays flat for them.
+ */
+export const useVisualiserAudio = (urls: string[]): Record<string, AudioData> => {
+  const [audioData, setAudioData] = useState<Record<string, AudioData>>({});
+  const key = Array.from(new Set(urls)).sort().join("\n");
+
+  useEffect(() => {
+    const pending = key ? key.split("\n") : [];
+    if (pending.length === 0) {
+      setAudioData({});
+      return;
+    }
+
+    let active = true;
+    const handle = delayRender("Loading audio for the visualiser");
+    // getAudioData caches by URL, so files already decoded resolve at once
+    Promise.all(
+      pending.map((url) =>
+        getAudioData(url)
+          .then((data) => [url, data] as const)
+          .catch((error) => {
+            console.error("Error loading visualiser audio:", error);
+            return null;
+          })
+      )
+    ).then((results) => {
+      if (active) {
+        setAudioData(
+          Object.fromEntries(
+            results.filter(
+              (result): result is readonly [string, AudioData] => result !== null
+            )
+          )
+        );
+      }
+      continueRender(handle);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  return audioData;
+};
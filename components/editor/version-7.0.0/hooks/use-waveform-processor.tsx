@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { FPS } from "../constants";
 
 interface WaveformData {
   peaks: number[];
@@ -10,6 +11,67 @@ interface WaveformOptions {
   fps?: number;
 }
 
+/**
+ * Fetches and decodes an audio (or video) file into raw samples
+ */
+export const decodeAudio = async (src: string): Promise<AudioBuffer> => {
+  const response = await fetch(src);
+  const arrayBuffer = await response.arrayBuffer();
+  const audioContext = new AudioContext();
+  return audioContext.decodeAudioData(arrayBuffer);
+};
+
+/**
+ * Levels of a decoded track from `startFromSound` over `durationInFrames`,
+ * split into `numPoints` buckets. Each level mixes the peak and RMS of its
+ * bucket and is normalised against the 95th percentile, so values run from
+ * 0 to 1.
+ */
+export const getAudioLevels = (
+  audioBuffer: AudioBuffer,
+  startFromSound: number,
+  durationInFrames: number,
+  numPoints: number,
+  fps: number
+): number[] => {
+  const sampleRate = audioBuffer.sampleRate;
+  const channelData = audioBuffer.getChannelData(0);
+  const startTime = startFromSound / fps;
+  const duration = durationInFrames / fps;
+
+  const startSample = Math.floor(startTime * sampleRate);
+  const samplesForDuration = Math.floor(duration * sampleRate);
+  const samplesPerPeak = Math.floor(samplesForDuration / numPoints);
+
+  const peaks = Array.from({ length: numPoints }, (_, i) => {
+    const start = startSample + i * samplesPerPeak;
+    const end = Math.min(start + samplesPerPeak, channelData.length);
+
+    let peakMax = 0;
+    let sumSquares = 0;
+    let validSamples = 0;
+
+    for (let j = start; j < end; j++) {
+      if (j >= channelData.length) break;
+      const value = Math.abs(channelData[j]);
+      peakMax = Math.max(peakMax, value);
+      sumSquares += value * value;
+      validSamples++;
+    }
+
+    if (validSamples === 0) return 0;
+    const rms = Math.sqrt(sumSquares / validSamples);
+    return (peakMax + rms) / 2;
+  });
+
+  // Normalize using 95th percentile
+  const sortedPeaks = [...peaks].sort((a, b) => a - b);
+  const normalizeValue = sortedPeaks[Math.floor(peaks.length * 0.95)];
+  return peaks.map((peak) =>
+    normalizeValue ? Math.min(peak / normalizeValue, 1) : 0
+  );
+};
+
 /**
  * A React hook that processes audio files to generate waveform visualization data.
  * The hook fetches an audio file, analyzes it, and generates an array of normalized amplitude values
@@ -20,7 +82,7 @@ interface WaveformOptions {
  * @param durationInFrames - Duration to process in frames
  * @param options - Configuration options
  * @param options.numPoints - Number of data points to generate for the waveform (default: 400)
- * @param options.fps - Frames per second for time calculations (default: 30)
+ * @param options.fps - Frame rate of the project (default: FPS)
  *
  * @returns {WaveformData | null} Object containing:
  *   - peaks: Array of normalized amplitude values between 0 and 1
@@ -43,7 +105,7 @@ export function useWaveformProcessor(
   options: WaveformOptions = {}
 ) {
   const [waveformData, setWaveformData] = useState<WaveformData | null>(null);
-  const { numPoints = 400, fps = 30 } = options;
+  const { numPoints = 400, fps = FPS } = options;
 
   useEffect(() => {
     if (!src) return;
@@ -52,48 +114,19 @@ export function useWaveformProcessor(
 
     const processAudio = async () => {
       try {
-        const response = await fetch(src);
-        const arrayBuffer = await response.arrayBuffer();
-        const audioContext = new AudioContext();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        const audioBuffer = await decodeAudio(src);
 
         if (!isActive) return;
 
-        const sampleRate = audioBuffer.sampleRate;
-        const channelData = audioBuffer.getChannelData(0);
-        const startTime = startFromSound / fps;
-        const duration = durationInFrames / fps;
-
-        const startSample = Math.floor(startTime * sampleRate);
-        const samplesForDuration = Math.floor(duration * sampleRate);
-        const samplesPerPeak = Math.floor(samplesForDuration / numPoints);
-
-        const peaks = Array.from({ length: numPoints }, (_, i) => {
-          const start = startSample + i * samplesPerPeak;
-          const end = Math.min(start + samplesPerPeak, channelData.length);
-
-          let peakMax = 0;
-          let sumSquares = 0;
-          let validSamples = 0;
-
-          for (let j = start; j < end; j++) {
-            if (j >= channelData.length) break;
-            const value = Math.abs(channelData[j]);
-            peakMax = Math.max(peakMax, value);
-            sumSquares += value * value;
-            validSamples++;
-          }
-
-          if (validSamples === 0) return 0;
-          const rms = Math.sqrt(sumSquares / validSamples);
-          return (peakMax + rms) / 2;
-        });
-
-        // Normalize using 95th percentile
-        const sortedPeaks = [...peaks].sort((a, b) => a - b);
-        const normalizeValue = sortedPeaks[Math.floor(peaks.length * 0.95)];
-        const normalizedPeaks = peaks.map((peak) =>
-          Math.min(peak / normalizeValue, 1)
+        const samplesForDuration = Math.floor(
+          (durationInFrames / fps) * audioBuffer.sampleRate
+        );
+        const normalizedPeaks = getAudioLevels(
+          audioBuffer,
+          startFromSound,
+          durationInFrames,
+          numPoints,
+          fps
         );
 
         setWaveformData({
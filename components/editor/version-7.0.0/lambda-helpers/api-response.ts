@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { z, ZodType } from "zod";
+import { formatSchemaError } from "../utils/project-schema";
 
 export type ApiResponse<Res> =
   | {
@@ -19,8 +20,17 @@ export const executeApi =
   async (req: Request) => {
     try {
       const payload = await req.json();
-      const parsed = schema.parse(payload);
-      const data = await handler(req, parsed);
+      // Malformed requests are turned away before anything is rendered
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        return NextResponse.json(
+          { type: "error", message: formatSchemaError(result.error) },
+          {
+            status: 400,
+          }
+        );
+      }
+      const data = await handler(req, result.data);
       return NextResponse.json({
         type: "success",
         data: data,
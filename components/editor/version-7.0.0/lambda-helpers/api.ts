@@ -7,6 +7,7 @@ import {
   ProgressResponse,
 } from "@/components/editor/version-7.0.0/types";
 import { CompositionProps } from "@/components/editor/version-7.0.0/types";
+import type { ExportSettings } from "@/components/editor/version-7.0.0/utils/export-formats";
 
 type ApiResponse<T> = {
   type: "success" | "error";
@@ -42,15 +43,18 @@ export const renderVideo = async ({
   id,
   inputProps,
   renderScale,
+  exportSettings,
 }: {
   id: string;
   inputProps: z.infer<typeof CompositionProps>;
   renderScale?: number;
+  exportSettings?: ExportSettings;
 }) => {
   const body: z.infer<typeof RenderRequest> = {
     id,
     inputProps,
     renderScale,
+    ...exportSettings,
   };
 
   const response = await makeRequest<RenderMediaOnLambdaOutput>(
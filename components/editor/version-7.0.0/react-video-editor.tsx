@@ -16,40 +16,88 @@ import { useVideoPlayer } from "./hooks/use-video-player";
 import { useTimelineClick } from "./hooks/use-timeline-click";
 import { TimelineRowAdjuster } from "./components/core/timeline-row-adjuster";
 import { useAspectRatio } from "./hooks/use-aspect-ratio";
+import { useReframe } from "./hooks/use-reframe";
+import { useVariants } from "./hooks/use-variants";
+import { useDataMerge } from "./hooks/use-data-merge";
 import { useCompositionDuration } from "./hooks/use-composition-duration";
 import { useHistory } from "./hooks/use-history";
 import { useEditorAuth } from "./hooks/use-editor-auth";
 import { useVideoPrefetch } from "./hooks/use-video-prefetch";
 
 // Types
-import { Overlay, OverlayType } from "./types";
+import {
+  Overlay,
+  OverlayType,
+  Resolution,
+  RippleScope,
+  TimelineEditMode,
+} from "./types";
 
 // Utils
 import { prepareUrlForRender } from "./utils/url-helper";
 import { useRendering } from "./hooks/use-rendering";
 import {
   AUTO_SAVE_INTERVAL,
+  DEFAULT_EDIT_MODE,
   DEFAULT_OVERLAYS,
   FPS,
   RENDER_TYPE,
   WATERMARK_VIDEO_SRC,
-  WATERMARK_DURATION_FRAMES,
+  WATERMARK_DURATION_SECONDS,
 } from "./constants";
 import { TimelineProvider } from "./contexts/timeline-context";
 
 // Autosave Components
 import { AutosaveRecoveryDialog } from "./components/autosave/autosave-recovery-dialog";
 import { AutosaveStatus } from "./components/autosave/autosave-status";
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useAutosave } from "./hooks/use-autosave";
 import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useTranslation } from "@/lib/i18n";
 import { LocalMediaProvider } from "./contexts/local-media-context";
 import { KeyframeProvider } from "./contexts/keyframe-context";
 import { AssetLoadingProvider } from "./contexts/asset-loading-context";
 import { useTimeline } from "./contexts/timeline-context";
+import { useSelectionShortcuts } from "./hooks/use-selection-shortcuts";
+import { useInOutPoints } from "./hooks/use-in-out-points";
+import { useTracks } from "./hooks/use-tracks";
+import { getPlayableOverlays, isRowLocked } from "./utils/timeline-tracks";
+import { HistorySettings } from "./utils/history-commands";
+import {
+  EditModeOptions,
+  applyOverlayEdit,
+  closeGaps as closeGapsOnRows,
+  detachAudio as detachAudioFromClip,
+  getLinkedPartners,
+  moveLinkedClip,
+  relinkAfterSplit,
+  removeGap as removeGapOnRow,
+} from "./utils/timeline-edit-modes";
+import { sanitizeTransitions } from "./utils/clip-transitions";
 import { ZOOM_CONSTRAINTS } from "./constants";
-import { inferAspectRatioFromDimensions } from "./utils/aspect-ratio-utils";
+import { retimeOverlays } from "./utils/frame-rate";
+import {
+  AutosaveState,
+  PROJECT_SCHEMA_VERSION,
+  ProjectState,
+  readSavedEdit,
+} from "./utils/project-schema";
+import {
+  checkMediaUrl,
+  getLinkedMediaType,
+  getMissingMedia,
+  getOverlaySource,
+  MediaReplacement,
+  relinkOverlays,
+} from "./utils/media-relink";
+import {
+  applyMediaReplacement,
+  MediaChoice,
+  replaceOverlayMedia,
+} from "./utils/media-replace";
+import { probeMediaDuration } from "./utils/media-duration";
+import { mergeOverlays } from "./utils/data-merge";
 
 // Component to handle zoom keyboard shortcuts
 // Must be inside TimelineProvider to access zoom context
@@ -121,81 +169,387 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
   // Background color for the composition canvas
   const [backgroundColor, setBackgroundColor] = useState("#222225");
 
+  // Frame rate of the project; every frame count in the overlays uses it
+  const [fps, setFps] = useState(FPS);
+
   // Overlay management hooks
   const {
     overlays,
     setOverlays,
     selectedOverlayId,
     setSelectedOverlayId,
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
     changeOverlay,
     addOverlay,
     deleteOverlay,
+    deleteOverlays,
     duplicateOverlay,
+    duplicateOverlays,
+    nudgeOverlays,
+    alignOverlays,
+    groupOverlays,
+    ungroupOverlays,
+    linkOverlays,
+    unlinkOverlays,
     splitOverlay,
     deleteOverlaysByRow,
     updateOverlayStyles,
     resetOverlays,
-  } = useOverlays(DEFAULT_OVERLAYS);
+  } = useOverlays(DEFAULT_OVERLAYS, fps);
+
+  // Named tracks with mute, solo, lock and hide
+  const {
+    tracks,
+    storedTracks,
+    setTracks,
+    updateTrack,
+    addTrack,
+    removeTrack,
+    moveTrack,
+  } = useTracks({ overlays, setOverlays });
+
+  // Timeline editing mode: push, overwrite, ripple or magnetic main track
+  const [editMode, setEditMode] = useState<TimelineEditMode>(DEFAULT_EDIT_MODE);
+  const [rippleScope, setRippleScope] = useState<RippleScope>("row");
+
+  // Items on locked tracks never move to make room or close up
+  const editOptions: EditModeOptions = useMemo(
+    () => ({
+      mode: editMode,
+      scope: rippleScope,
+      fixedIds: overlays
+        .filter((overlay) => isRowLocked(tracks, overlay.row))
+        .map((overlay) => overlay.id),
+      fps,
+    }),
+    [editMode, rippleScope, overlays, tracks, fps]
+  );
+
+  /**
+   * Leaves out the overlays that sit on locked tracks, telling the user when
+   * some were left out
+   */
+  const withoutLockedOverlays = useCallback(
+    (ids: number[]) => {
+      const unlocked = ids.filter((id) => {
+        const overlay = overlays.find((o) => o.id === id);
+        return !overlay || !isRowLocked(tracks, overlay.row);
+      });
+      if (unlocked.length < ids.length) {
+        toast({
+          title: t("timeline.track.lockedTitle"),
+          description: t("timeline.track.lockedBody"),
+        });
+      }
+      return unlocked;
+    },
+    [overlays, tracks, t]
+  );
+
+  const deleteUnlockedOverlay = useCallback(
+    (id: number) => {
+      if (withoutLockedOverlays([id]).length > 0) deleteOverlay(id, editOptions);
+    },
+    [withoutLockedOverlays, deleteOverlay, editOptions]
+  );
+
+  const deleteUnlockedOverlays = useCallback(
+    (ids: number[]) => {
+      const unlocked = withoutLockedOverlays(ids);
+      if (unlocked.length > 0) deleteOverlays(unlocked, editOptions);
+    },
+    [withoutLockedOverlays, deleteOverlays, editOptions]
+  );
+
+  const deleteUnlockedOverlaysByRow = useCallback(
+    (row: number) => {
+      if (!isRowLocked(tracks, row)) deleteOverlaysByRow(row);
+    },
+    [tracks, deleteOverlaysByRow]
+  );
+
+  /**
+   * Closes the gaps on one row, or on every unlocked row with "all"
+   */
+  const closeGaps = useCallback(
+    (row: number | "all") => {
+      const rows = (row === "all" ? tracks.map((_, index) => index) : [row]).filter(
+        (r) => !isRowLocked(tracks, r)
+      );
+      setOverlays(
+        sanitizeTransitions(closeGapsOnRows(overlays, rows, editOptions.fixedIds))
+      );
+    },
+    [overlays, tracks, setOverlays, editOptions]
+  );
+
+  /**
+   * Closes one gap on a row by moving the items after it back
+   */
+  const removeGap = useCallback(
+    (row: number, gapStart: number, gapEnd: number) => {
+      if (isRowLocked(tracks, row)) return;
+      setOverlays(
+        sanitizeTransitions(
+          removeGapOnRow(overlays, row, gapStart, gapEnd, editOptions.fixedIds)
+        )
+      );
+    },
+    [overlays, tracks, setOverlays, editOptions]
+  );
+
+  /**
+   * Adds an overlay dropped onto the timeline at its `from` and `row`. Rows
+   * that ripple make room for it, other rows are overwritten; when it cannot
+   * fit there it goes to the end of its row instead.
+   */
+  const placeOverlay = useCallback(
+    (overlay: Overlay) => {
+      const next = applyOverlayEdit(overlays, overlay, "move", editOptions);
+      if (next) {
+        setOverlays(sanitizeTransitions(next));
+      } else {
+        const rowEnd = overlays
+          .filter((o) => o.row === overlay.row)
+          .reduce((end, o) => Math.max(end, o.from + o.durationInFrames), 0);
+        setOverlays([...overlays, { ...overlay, from: rowEnd }]);
+      }
+      setSelectedOverlayId(overlay.id);
+    },
+    [overlays, setOverlays, editOptions, setSelectedOverlayId]
+  );
+
+  /**
+   * Moves the audio of a clip into a sound overlay linked to it, on a free
+   * row, and selects the new sound
+   */
+  const detachAudio = useCallback(
+    (id: number) => {
+      const newId = Math.max(0, ...overlays.map((o) => o.id)) + 1;
+      const lockedRows = tracks
+        .map((_, row) => row)
+        .filter((row) => isRowLocked(tracks, row));
+      const next = detachAudioFromClip(overlays, id, newId, lockedRows);
+      if (!next) return;
+      setOverlays(next);
+      setSelectedOverlayId(newId);
+    },
+    [overlays, tracks, setOverlays, setSelectedOverlayId]
+  );
+
+  /**
+   * Splits an overlay, then offers to split its linked items, or the clip it
+   * is linked to, at the same frame
+   */
+  const splitLinkedOverlay = useCallback(
+    (id: number, splitPosition: number) => {
+      const partners = getLinkedPartners(overlays, id, splitPosition).filter(
+        (partner) => !isRowLocked(tracks, partner.row)
+      );
+      splitOverlay(id, splitPosition);
+      setOverlays((prev) => relinkAfterSplit(prev, splitPosition));
+      if (partners.length === 0) return;
+
+      toast({
+        title: t("timeline.linkedSplit.title"),
+        description: t("timeline.linkedSplit.body"),
+        action: (
+          <ToastAction
+            altText={t("timeline.linkedSplit.action")}
+            onClick={() => {
+              partners.forEach((partner) => splitOverlay(partner.id, splitPosition));
+              setOverlays((prev) => relinkAfterSplit(prev, splitPosition));
+            }}
+          >
+            {t("timeline.linkedSplit.action")}
+          </ToastAction>
+        ),
+      });
+    },
+    [overlays, tracks, splitOverlay, setOverlays, t]
+  );
+
+  /**
+   * Offers to move the clip along after an item linked to it was moved alone
+   */
+  const offerLinkedClipMove = useCallback(
+    (id: number, deltaFrames: number) => {
+      toast({
+        title: t("timeline.linkedMove.title"),
+        description: t("timeline.linkedMove.body"),
+        action: (
+          <ToastAction
+            altText={t("timeline.linkedMove.action")}
+            onClick={() =>
+              setOverlays((prev) => moveLinkedClip(prev, id, deltaFrames) ?? prev)
+            }
+          >
+            {t("timeline.linkedMove.action")}
+          </ToastAction>
+        ),
+      });
+    },
+    [setOverlays, t]
+  );
 
   // Track which URLs have already been validated to avoid re-checking
   const validatedUrlsRef = useRef<Set<string>>(new Set());
   const isValidatingRef = useRef(false);
+  // Remote files found missing. Overlays using them stay in the project,
+  // flagged offline until they are relinked.
+  const [offlineSources, setOfflineSources] = useState<string[]>([]);
+  // Missing file whose relink dialog is open
+  const [relinkSource, setRelinkSource] = useState<string | null>(null);
 
   /**
-   * Validate overlay URLs and remove overlays whose media no longer exists (404).
-   * Runs once when overlays are loaded from autosave/backend.
+   * Validate overlay URLs and flag overlays whose media no longer exists
+   * (404/403 or unreachable) as offline. Runs once per URL.
    */
   const validateOverlayUrls = useCallback(async (currentOverlays: Overlay[]) => {
     if (isValidatingRef.current || currentOverlays.length === 0) return;
 
     // Find overlays with remote src URLs that haven't been validated yet
-    const overlaysToCheck = currentOverlays.filter((o) => {
-      if (!('src' in o) || typeof (o as any).src !== 'string') return false;
-      const src = (o as any).src as string;
-      if (!src.startsWith('http')) return false;
-      return !validatedUrlsRef.current.has(src);
-    });
+    const sourcesToCheck = Array.from(
+      new Set(
+        currentOverlays
+          .map(getOverlaySource)
+          .filter(
+            (src): src is string =>
+              !!src && src.startsWith('http') && !validatedUrlsRef.current.has(src)
+          )
+      )
+    );
 
-    if (overlaysToCheck.length === 0) return;
+    if (sourcesToCheck.length === 0) return;
 
     isValidatingRef.current = true;
-    const brokenIds: number[] = [];
+    const brokenSources: string[] = [];
 
     await Promise.all(
-      overlaysToCheck.map(async (overlay) => {
-        const src = (overlay as any).src as string;
-        try {
-          const res = await fetch(src, { method: 'HEAD', mode: 'cors' });
-          if (res.status === 404 || res.status === 403) {
-            brokenIds.push(overlay.id);
-          } else {
-            validatedUrlsRef.current.add(src);
-          }
-        } catch {
-          // Network error or CORS — try GET with no-cors as fallback
-          try {
-            const res = await fetch(src, { method: 'HEAD', mode: 'no-cors' });
-            // no-cors returns opaque response (status 0) — can't determine 404
-            // Mark as valid to avoid false positives
-            validatedUrlsRef.current.add(src);
-          } catch {
-            // Complete network failure — mark as broken
-            brokenIds.push(overlay.id);
-          }
+      sourcesToCheck.map(async (src) => {
+        // Checked once, whatever the outcome
+        validatedUrlsRef.current.add(src);
+        if (!(await checkMediaUrl(src))) {
+          brokenSources.push(src);
         }
       })
     );
 
     isValidatingRef.current = false;
 
-    if (brokenIds.length > 0) {
-      setOverlays((prev) => prev.filter((o) => !brokenIds.includes(o.id)));
+    if (brokenSources.length > 0) {
+      setOfflineSources((prev) => Array.from(new Set([...prev, ...brokenSources])));
       toast({
-        title: t("toast.removedMissingMedia.title"),
-        description: t("toast.removedMissingMedia.body", { count: brokenIds.length }),
+        title: t("toast.offlineMedia.title"),
+        description: t("toast.offlineMedia.body", {
+          count: getMissingMedia(currentOverlays, brokenSources).reduce(
+            (total, media) => total + media.count,
+            0
+          ),
+        }),
+        variant: "destructive",
+        action: (
+          <ToastAction
+            altText={t("relink.action")}
+            onClick={() => setRelinkSource(brokenSources[0])}
+          >
+            {t("relink.action")}
+          </ToastAction>
+        ),
       });
     }
-  }, [setOverlays, t]);
+  }, [t]);
+
+  /**
+   * Points every overlay using a missing file at a replacement. The missing
+   * file stays listed, so undoing the relink flags the overlays again.
+   */
+  const relinkMedia = useCallback(
+    (missingSrc: string, replacement: MediaReplacement) => {
+      setOverlays((prev) => relinkOverlays(prev, missingSrc, replacement));
+      setRelinkSource(null);
+    },
+    [setOverlays]
+  );
+
+  // Overlay whose replace media dialog is open
+  const [replaceTargetId, setReplaceTargetId] = useState<number | null>(null);
+
+  /**
+   * Swaps the file of a video, image or sound overlay, keeping everything
+   * else about it. The overlay takes the length of the new file, with an
+   * offer to keep its current length instead, unless `keepDuration` is set.
+   */
+  const replaceMedia = useCallback(
+    async (overlayId: number, media: MediaChoice, keepDuration = false) => {
+      const overlay = overlays.find((o) => o.id === overlayId);
+      if (!overlay) return;
+      if (isRowLocked(tracks, overlay.row)) {
+        toast({
+          title: t("timeline.track.lockedTitle"),
+          description: t("replaceMedia.locked"),
+        });
+        return;
+      }
+      if (getLinkedMediaType(overlay) !== media.type) {
+        toast({
+          title: t("replaceMedia.wrongType"),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Panels that don't know the length of their files leave it to be read
+      const choice =
+        media.type === "image" || media.durationInSeconds
+          ? media
+          : {
+              ...media,
+              durationInSeconds: await probeMediaDuration(media.src, media.type),
+            };
+      const keepOptions = { ...editOptions, fps, durationInFrames: overlay.durationInFrames };
+
+      // Kept so that keeping the length redoes the replacement from scratch
+      // instead of trimming what it moved or pushed aside
+      let beforeReplacement = overlays;
+      setOverlays((prev) => {
+        beforeReplacement = prev;
+        return (
+          applyMediaReplacement(
+            prev,
+            overlayId,
+            choice,
+            keepDuration ? keepOptions : { ...editOptions, fps }
+          ) ?? prev
+        );
+      });
+      setSelectedOverlayId(overlayId);
+      setReplaceTargetId(null);
+
+      const adapted = replaceOverlayMedia(overlay, choice, { fps });
+      if (keepDuration || adapted?.durationInFrames === overlay.durationInFrames) return;
+      toast({
+        title: t("replaceMedia.done"),
+        description: t("replaceMedia.adapted"),
+        action: (
+          <ToastAction
+            altText={t("replaceMedia.keepDuration")}
+            onClick={() =>
+              setOverlays(
+                applyMediaReplacement(beforeReplacement, overlayId, choice, keepOptions) ??
+                  beforeReplacement
+              )
+            }
+          >
+            {t("replaceMedia.keepDuration")}
+          </ToastAction>
+        ),
+      });
+    },
+    [overlays, tracks, editOptions, fps, setOverlays, setSelectedOverlayId, t]
+  );
 
   // Run URL validation when overlays change (debounced, only for new overlays)
   useEffect(() => {
@@ -207,24 +561,63 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
 
   // Video player controls and state
   const { isPlaying, currentFrame, playerRef, togglePlayPause, formatTime } =
-    useVideoPlayer();
+    useVideoPlayer(fps);
 
   // Prefetch all videos in the timeline to prevent black flashes during transitions
   useVideoPrefetch(overlays);
 
   // Composition duration calculations
   const { durationInFrames, contentDurationInFrames, durationInSeconds } =
-    useCompositionDuration(overlays);
+    useCompositionDuration(overlays, fps);
 
   // Aspect ratio and player dimension management
   const {
     aspectRatio,
     setAspectRatio,
+    customDimensions,
+    setCustomDimensions,
     playerDimensions,
     updatePlayerDimensions,
     getAspectRatioDimensions,
   } = useAspectRatio();
 
+  // Reframing previewed before a new aspect ratio is applied
+  const {
+    reframePreview,
+    previewReframe,
+    setReframeOptions,
+    acceptReframe,
+    cancelReframe,
+  } = useReframe({
+    overlays,
+    setOverlays,
+    aspectRatio,
+    setAspectRatio,
+    getAspectRatioDimensions,
+  });
+
+  // Aspect-ratio variants sharing the timeline
+  const {
+    variants,
+    setVariants,
+    addVariant,
+    removeVariant,
+    switchVariant,
+    getVariantComposition,
+  } = useVariants({
+    overlays,
+    setOverlays,
+    aspectRatio,
+    setAspectRatio,
+    customDimensions,
+    setCustomDimensions,
+    getAspectRatioDimensions,
+  });
+
+  // Rows of a dataset filling the project's {{variables}}
+  const { mergeDataset, setMergeDataset, mergePreview, previewMergeRow } =
+    useDataMerge({ overlays });
+
   // Event handlers
   const handleOverlayChange = (updatedOverlay: Overlay) => {
     changeOverlay(updatedOverlay.id, () => updatedOverlay);
@@ -234,56 +627,77 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     getAspectRatioDimensions();
 
   // Calculate render dimensions based on subscription plan
-  let renderWidth = compositionWidth;
-  let renderHeight = compositionHeight;
-
-  if (!isPro) {
-    const MAX_RES = 720;
-    if (compositionWidth > compositionHeight) {
-      // Landscape
-      if (compositionHeight > MAX_RES) {
-        const ratio = compositionWidth / compositionHeight;
-        renderHeight = MAX_RES;
-        renderWidth = Math.round(renderHeight * ratio);
-      }
-    } else {
-      // Portrait or Square
-      if (compositionWidth > MAX_RES) {
-        const ratio = compositionHeight / compositionWidth;
-        renderWidth = MAX_RES;
-        renderHeight = Math.round(renderWidth * ratio);
+  const getRenderSize = ({ width, height }: Resolution): Resolution => {
+    let renderWidth = width;
+    let renderHeight = height;
+
+    if (!isPro) {
+      const MAX_RES = 720;
+      if (width > height) {
+        // Landscape
+        if (height > MAX_RES) {
+          const ratio = width / height;
+          renderHeight = MAX_RES;
+          renderWidth = Math.round(renderHeight * ratio);
+        }
+      } else {
+        // Portrait or Square
+        if (width > MAX_RES) {
+          const ratio = height / width;
+          renderWidth = MAX_RES;
+          renderHeight = Math.round(renderWidth * ratio);
+        }
       }
+      // Ensure even dimensions
+      renderWidth = Math.round(renderWidth / 2) * 2;
+      renderHeight = Math.round(renderHeight / 2) * 2;
     }
-    // Ensure even dimensions
-    renderWidth = Math.round(renderWidth / 2) * 2;
-    renderHeight = Math.round(renderHeight / 2) * 2;
-  }
+    return { width: renderWidth, height: renderHeight };
+  };
+
+  const { width: renderWidth, height: renderHeight } = getRenderSize({
+    width: compositionWidth,
+    height: compositionHeight,
+  });
 
   const handleTimelineClick = useTimelineClick(playerRef, durationInFrames);
 
+  const watermarkDurationInFrames = Math.round(WATERMARK_DURATION_SECONDS * fps);
+
+  // Export range marked on the timeline (I / O keys)
+  const { inPoint, outPoint, setInPoint, setOutPoint, clearInOutPoints } =
+    useInOutPoints({ currentFrame, durationInFrames });
+
   /**
    * Prepare overlays for rendering by converting all media URLs to absolute URLs
    * that don't use the local proxy (which only works on Next.js server)
-   * And adding watermark if needed relative to render context
+   * And adding watermark if needed relative to render context.
+   * Overlays on hidden or silenced tracks are left out the same way as in the preview,
+   * and so are offline overlays, whose files would fail the render.
    */
-  const prepareOverlaysForRender = (overlays: Overlay[]): Overlay[] => {
-    const processedOverlays = overlays.map((overlay) => {
-      // Handle overlays with src property (video, image, sound)
-      if ('src' in overlay && typeof overlay.src === 'string') {
-        return {
-          ...overlay,
-          src: prepareUrlForRender(overlay.src),
-        };
-      }
-      return overlay;
-    });
+  const prepareOverlaysForRender = (
+    overlays: Overlay[],
+    dimensions: Resolution = { width: compositionWidth, height: compositionHeight }
+  ): Overlay[] => {
+    const processedOverlays = getPlayableOverlays(overlays, tracks)
+      .filter((overlay) => !offlineSources.includes(getOverlaySource(overlay) ?? ""))
+      .map((overlay) => {
+        // Handle overlays with src property (video, image, sound)
+        if ('src' in overlay && typeof overlay.src === 'string') {
+          return {
+            ...overlay,
+            src: prepareUrlForRender(overlay.src),
+          };
+        }
+        return overlay;
+      });
 
     // Add watermark for free users
     if (!isPro) {
-      // Calculate the end time of the composition
+      // Calculate the end time of the composition, hidden tracks included
       const maxDuration =
-        processedOverlays.length > 0
-          ? Math.max(...processedOverlays.map((o) => o.from + o.durationInFrames))
+        overlays.length > 0
+          ? Math.max(...overlays.map((o) => o.from + o.durationInFrames))
           : 0;
       
       // Create new video overlay
@@ -291,12 +705,12 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
         id: -999, // Special ID for watermark
         type: OverlayType.VIDEO,
         from: maxDuration,
-        durationInFrames: WATERMARK_DURATION_FRAMES,
+        durationInFrames: watermarkDurationInFrames,
         row: 0,
         src: prepareUrlForRender(WATERMARK_VIDEO_SRC),
         content: "Watermark",
-        height: compositionHeight, 
-        width: compositionWidth,
+        height: dimensions.height,
+        width: dimensions.width,
         left: 0,
         top: 0,
         isDragging: false,
@@ -314,31 +728,145 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     return processedOverlays;
   };
 
-  const inputProps = {
-    overlays: prepareOverlaysForRender(overlays),
-    durationInFrames: contentDurationInFrames + (!isPro ? WATERMARK_DURATION_FRAMES : 0), // Add watermark duration for free users
-    fps: FPS,
-    width: renderWidth, // Use calculated render dimensions
-    height: renderHeight,
-    src: "",
-    backgroundColor,
+  const buildInputProps = (overlays: Overlay[], dimensions: Resolution) => {
+    const renderSize = getRenderSize(dimensions);
+    return {
+      overlays: prepareOverlaysForRender(overlays, dimensions),
+      durationInFrames: contentDurationInFrames + (!isPro ? watermarkDurationInFrames : 0), // Add watermark duration for free users
+      fps,
+      width: renderSize.width, // Use calculated render dimensions
+      height: renderSize.height,
+      src: "",
+      backgroundColor,
+    };
   };
 
-  const { renderMedia, state } = useRendering(
+  const inputProps = buildInputProps(overlays, {
+    width: compositionWidth,
+    height: compositionHeight,
+  });
+
+  /**
+   * Render jobs for the given variants, each laid out for its own ratio
+   */
+  const getVariantRenderJobs = (ids: string[]) =>
+    ids.flatMap((id) => {
+      const composition = getVariantComposition(id);
+      if (!composition) return [];
+      return [
+        {
+          label: composition.aspectRatio,
+          inputProps: buildInputProps(composition.overlays, composition.dimensions),
+        },
+      ];
+    });
+
+  /**
+   * Render jobs for the given rows of the dataset, labelled by row number
+   */
+  const getMergeRenderJobs = (rowIndexes: number[]) =>
+    rowIndexes.flatMap((rowIndex) => {
+      const row = mergeDataset?.rows[rowIndex];
+      if (!row) return [];
+      return [
+        {
+          label: `#${rowIndex + 1}`,
+          inputProps: buildInputProps(mergeOverlays(overlays, row), {
+            width: compositionWidth,
+            height: compositionHeight,
+          }),
+        },
+      ];
+    });
+
+  const { renderMedia, renderQueue, cancelRender, renderStill, state } = useRendering(
     "TestComponent",
     inputProps,
     RENDER_TYPE
   );
 
-  // Replace history management code with hook
-  const { undo, redo, canUndo, canRedo } = useHistory(overlays, setOverlays);
+  // Undo history covers the overlays, the canvas and project settings and the tracks
+  const historySettings = useMemo<HistorySettings>(
+    () => ({
+      aspectRatio,
+      backgroundColor,
+      tracks: storedTracks,
+      fps,
+      resolution: customDimensions,
+      variants,
+    }),
+    [aspectRatio, backgroundColor, storedTracks, fps, customDimensions, variants]
+  );
+  const applyHistorySettings = useCallback(
+    (settings: HistorySettings) => {
+      setAspectRatio(settings.aspectRatio);
+      setCustomDimensions(settings.resolution ?? null);
+      setBackgroundColor(settings.backgroundColor);
+      setTracks(settings.tracks ?? []);
+      if (settings.fps) setFps(settings.fps);
+      setVariants(settings.variants ?? null);
+    },
+    [setAspectRatio, setCustomDimensions, setTracks, setVariants]
+  );
+
+  /**
+   * Changes the frame rate and resolution of the project. A new frame rate
+   * re-times every overlay so it keeps its place in time, and keeps the
+   * playhead on the same moment.
+   */
+  const updateProjectSettings = useCallback(
+    (settings: { fps: number; resolution: Resolution | null }) => {
+      if (settings.fps !== fps) {
+        setOverlays((current) => retimeOverlays(current, fps, settings.fps));
+        setFps(settings.fps);
+        clearInOutPoints();
+        playerRef.current?.seekTo(Math.round((currentFrame * settings.fps) / fps));
+      }
+      setCustomDimensions(settings.resolution);
+    },
+    [fps, currentFrame, playerRef, setOverlays, setCustomDimensions, clearInOutPoints]
+  );
+  const {
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    entries: historyEntries,
+    currentIndex: historyIndex,
+    jumpTo: jumpToHistory,
+  } = useHistory(overlays, setOverlays, {
+    settings: historySettings,
+    setSettings: applyHistorySettings,
+  });
 
   // Create the editor state object to be saved
-  const editorState = {
+  const editorState: AutosaveState = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
     overlays,
     aspectRatio,
+    fps,
+    resolution: customDimensions,
     playerDimensions,
     backgroundColor,
+    tracks: storedTracks,
+    variants,
+  };
+
+  // Restore a project read from an autosave or a saved edit
+  const applyProjectState = (
+    project: ProjectState & Pick<AutosaveState, "playerDimensions">
+  ) => {
+    setOverlays(project.overlays);
+    if (project.aspectRatio) setAspectRatio(project.aspectRatio);
+    setCustomDimensions(project.resolution);
+    // The overlays were saved in this frame rate
+    setFps(project.fps);
+    if (project.playerDimensions) {
+      updatePlayerDimensions(project.playerDimensions.width, project.playerDimensions.height);
+    }
+    if (project.backgroundColor) setBackgroundColor(project.backgroundColor);
+    setTracks(project.tracks);
+    setVariants(project.variants);
   };
 
   // Implment load state
@@ -348,20 +876,7 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
       setIsSaving(false);
       setLastSaveTime(Date.now());
     },
-    onLoad: (loadedState) => {
-      if (loadedState) {
-        // Apply loaded state to editor
-        setOverlays(loadedState.overlays || []);
-        if (loadedState.aspectRatio) setAspectRatio(loadedState.aspectRatio);
-        if (loadedState.playerDimensions)
-          updatePlayerDimensions(
-            loadedState.playerDimensions.width,
-            loadedState.playerDimensions.height
-          );
-        if (loadedState.backgroundColor)
-          setBackgroundColor(loadedState.backgroundColor);
-      }
-    },
+    onLoad: applyProjectState,
     onAutosaveDetected: (timestamp) => {
       // Only show recovery dialog on initial load, not during an active session
       if (!initialLoadComplete) {
@@ -378,33 +893,8 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
 
   // Handle recovery dialog actions
   const handleRecoverAutosave = async () => {
-    const loadedState = await loadState();
-    
-    if (loadedState) {
-      // Restore overlays
-      if (loadedState.overlays) {
-        setOverlays(loadedState.overlays);
-      }
-      
-      // Restore aspect ratio
-      if (loadedState.aspectRatio) {
-        setAspectRatio(loadedState.aspectRatio);
-      }
-      
-      // Restore player dimensions
-      if (loadedState.playerDimensions) {
-        updatePlayerDimensions(
-          loadedState.playerDimensions.width,
-          loadedState.playerDimensions.height
-        );
-      }
-
-      // Restore background color
-      if (loadedState.backgroundColor) {
-        setBackgroundColor(loadedState.backgroundColor);
-      }
-    }
-
+    // The autosave is applied through onLoad
+    await loadState();
     setShowRecoveryDialog(false);
   };
 
@@ -412,9 +902,16 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     setShowRecoveryDialog(false);
   };
 
-  // Handle loading an edit from the backend
+  // Handle loading an edit from the backend. Edits saved by earlier
+  // versions of the editor are migrated; a malformed one throws before
+  // anything in the editor changes.
   const handleLoadEdit = (loadedEdit: any) => {
-    
+    // Parse edition data if it's still a string
+    const editionData = typeof loadedEdit.editionData === 'string' 
+      ? JSON.parse(loadedEdit.editionData) 
+      : loadedEdit.editionData;
+    const project = readSavedEdit(editionData);
+
     // Store the edit ID and name for future saves
     if (loadedEdit.id) {
       setCurrentEditId(loadedEdit.id);
@@ -422,37 +919,8 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     if (loadedEdit.name) {
       setCurrentEditName(loadedEdit.name);
     }
-    
-    // Parse edition data if it's still a string
-    const editionData = typeof loadedEdit.editionData === 'string' 
-      ? JSON.parse(loadedEdit.editionData) 
-      : loadedEdit.editionData;
-    
-    if (editionData && editionData.inputProps) {
-      // Restore overlays
-      if (editionData.inputProps.overlays) {
-        setOverlays(editionData.inputProps.overlays);
-      }
-
-      // Restore aspect ratio if present (new schema) or infer from width/height (old schema)
-      const savedAspectRatio =
-        editionData.aspectRatio ?? editionData.inputProps?.aspectRatio;
 
-      if (savedAspectRatio) {
-        setAspectRatio(savedAspectRatio);
-      } else {
-        const inferred = inferAspectRatioFromDimensions(
-          editionData.inputProps?.width,
-          editionData.inputProps?.height
-        );
-        if (inferred) setAspectRatio(inferred);
-      }
-
-      // Restore background color
-      const savedBgColor =
-        editionData.backgroundColor ?? editionData.inputProps?.backgroundColor;
-      if (savedBgColor) setBackgroundColor(savedBgColor);
-    }
+    applyProjectState(project);
   };
 
   // Manual save function for use in keyboard shortcuts or save button
@@ -474,7 +942,7 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [editorState]);
 
-  // Set up keyboard shortcut for deleting selected overlay (Backspace / Delete)
+  // Set up keyboard shortcut for deleting the selected overlays (Backspace / Delete)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Check if Backspace or Delete key is pressed
@@ -486,25 +954,38 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
           target.tagName === "TEXTAREA" || 
           target.isContentEditable;
         
-        // Only delete overlay if not in an input field and an overlay is selected
-        if (!isInputField && selectedOverlayId !== null) {
+        // Only delete overlays if not in an input field and something is selected
+        if (!isInputField && selectedOverlayIds.length > 0) {
           e.preventDefault();
-          deleteOverlay(selectedOverlayId);
+          deleteUnlockedOverlays(selectedOverlayIds);
         }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [selectedOverlayId, deleteOverlay]);
+  }, [selectedOverlayIds, deleteUnlockedOverlays]);
+
+  // Arrow-key nudging, select all, duplicate and group shortcuts
+  useSelectionShortcuts({
+    overlays,
+    selectedOverlayIds,
+    currentFrame,
+    selectOverlays,
+    nudgeOverlays,
+    duplicateOverlays,
+    groupOverlays,
+    ungroupOverlays,
+  });
 
   // Create edition data for backend save
   const editionData = {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
     id: "TestComponent",
     inputProps: {
       overlays,
       durationInFrames,
-      fps: FPS,
+      fps,
       width: compositionWidth,
       height: compositionHeight,
       aspectRatio,
@@ -512,7 +993,11 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
       src: "",
     },
     aspectRatio,
+    fps,
+    resolution: customDimensions,
+    variants,
     backgroundColor,
+    tracks: storedTracks,
     // Include current edit info if available
     editId: currentEditId,
     editName: currentEditName,
@@ -528,11 +1013,42 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     changeOverlay,
     handleOverlayChange,
     addOverlay,
-    deleteOverlay,
+    deleteOverlay: deleteUnlockedOverlay,
     duplicateOverlay,
-    splitOverlay,
+    splitOverlay: splitLinkedOverlay,
     resetOverlays,
 
+    // Multi-selection and groups
+    selectedOverlayIds,
+    selectOverlays,
+    toggleOverlaySelection,
+    deleteOverlays: deleteUnlockedOverlays,
+    duplicateOverlays,
+    nudgeOverlays,
+    alignOverlays,
+    groupOverlays,
+    ungroupOverlays,
+    linkOverlays,
+    unlinkOverlays,
+    detachAudio,
+    offerLinkedClipMove,
+
+    // Tracks
+    tracks,
+    updateTrack,
+    addTrack,
+    removeTrack,
+    moveTrack,
+
+    // Editing modes
+    editMode,
+    setEditMode,
+    rippleScope,
+    setRippleScope,
+    closeGaps,
+    removeGap,
+    placeOverlay,
+
     // Player controls
     isPlaying,
     currentFrame,
@@ -550,6 +1066,32 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     updatePlayerDimensions,
     getAspectRatioDimensions,
     getRenderDimensions: () => ({ width: renderWidth, height: renderHeight }),
+    customDimensions,
+    reframePreview,
+    previewReframe,
+    setReframeOptions,
+    acceptReframe,
+    cancelReframe,
+    variants,
+    addVariant,
+    removeVariant,
+    switchVariant,
+    getVariantRenderJobs,
+    mergeDataset,
+    setMergeDataset,
+    mergePreview,
+    previewMergeRow,
+    getMergeRenderJobs,
+    renderQueue,
+    offlineSources,
+    relinkSource,
+    setRelinkSource,
+    relinkMedia,
+    replaceMedia,
+    replaceTargetId,
+    setReplaceTargetId,
+    fps,
+    updateProjectSettings,
     durationInFrames,
     contentDurationInFrames, // Added contentDurationInFrames
     durationInSeconds,
@@ -557,15 +1099,27 @@ export default function ReactVideoEditor({ projectId }: { projectId: string }) {
     // Add renderType to the context
     renderType: RENDER_TYPE,
     renderMedia,
+    cancelRender,
+    renderStill,
     state,
 
-    deleteOverlaysByRow,
+    // Export range
+    inPoint,
+    outPoint,
+    setInPoint,
+    setOutPoint,
+    clearInOutPoints,
+
+    deleteOverlaysByRow: deleteUnlockedOverlaysByRow,
 
     // History management
     undo,
     redo,
     canUndo,
     canRedo,
+    historyEntries,
+    historyIndex,
+    jumpToHistory,
 
     // New style management
     updateOverlayStyles,
@@ -41,6 +41,7 @@ const Root: React.FC = () => {
         calculateMetadata={async ({ props }) => {
           return {
             durationInFrames: props.durationInFrames,
+            fps: props.fps,
             width: props.width,
             height: props.height,
           };
@@ -1,10 +1,15 @@
-import React, { useCallback } from "react";
+import React, { useMemo } from "react";
 import { AbsoluteFill } from "remotion";
 
 import { Overlay } from "../types";
 import { SortedOutlines } from "../components/selection/sorted-outlines";
 import { CanvasGuides } from "../components/selection/canvas-guides";
 import { Layer } from "../components/core/layer";
+import { buildTransitionLayers } from "../utils/clip-transitions";
+import { resolveDucking } from "../utils/auto-ducking";
+import { resolveVisualiserSources } from "../utils/audio-visualiser";
+import { getOverlaySource } from "../utils/media-relink";
+import { MediaChoice } from "../utils/media-replace";
 
 /**
  * Props for the Main component
@@ -18,6 +23,12 @@ export type MainProps = {
   >;
   /** Currently selected overlay ID, or null if none selected */
   readonly selectedOverlayId: number | null;
+  /** IDs of every selected overlay, including grouped ones */
+  readonly selectedOverlayIds?: number[];
+  /** Replaces the selection with several overlays */
+  readonly selectOverlays?: (ids: number[], primaryId?: number | null) => void;
+  /** Adds or removes an overlay from the selection */
+  readonly toggleOverlaySelection?: (id: number) => void;
   /**
    * Function to update an overlay
    * @param overlayId - The ID of the overlay to update
@@ -39,6 +50,14 @@ export type MainProps = {
   readonly baseUrl?: string;
   /** Background color for the composition canvas */
   readonly backgroundColor?: string;
+  /** Missing media files, drawn as offline placeholders in the editor */
+  readonly offlineSources?: string[];
+  /** Swaps the file of an overlay for media dropped on it in the editor */
+  readonly replaceMedia?: (
+    overlayId: number,
+    media: MediaChoice,
+    keepDuration?: boolean
+  ) => void;
 };
 
 const DEFAULT_BG_COLOR = "#222225";
@@ -50,7 +69,7 @@ const layerContainer: React.CSSProperties = {
 
 /**
  * Main component that renders a canvas-like area with overlays and their outlines.
- * Handles selection of overlays and provides a container for editing them.
+ * Selection, including the canvas marquee, is handled by SortedOutlines.
  *
  * @param props - Component props of type MainProps
  * @returns React component that displays overlays and their interactive outlines
@@ -59,19 +78,28 @@ export const Main: React.FC<MainProps> = ({
   overlays,
   setSelectedOverlayId,
   selectedOverlayId,
+  selectedOverlayIds,
+  selectOverlays,
+  toggleOverlaySelection,
   changeOverlay,
   baseUrl,
   backgroundColor = DEFAULT_BG_COLOR,
+  offlineSources,
+  replaceMedia,
 }) => {
-  const onPointerDown = useCallback(
-    (e: React.PointerEvent) => {
-      if (e.button !== 0) {
-        return;
-      }
+  // Clips joined by a transition are rendered overlapping around the cut
+  const transitionLayers = useMemo(
+    () => buildTransitionLayers(overlays),
+    [overlays]
+  );
+
+  // Music lowered under speech follows the voices wherever they are placed
+  const duckingEnvelopes = useMemo(() => resolveDucking(overlays), [overlays]);
 
-      setSelectedOverlayId(null);
-    },
-    [setSelectedOverlayId]
+  // Audio visualisers read the clips and sounds they follow at their positions
+  const visualiserSources = useMemo(
+    () => resolveVisualiserSources(overlays),
+    [overlays]
   );
 
   return (
@@ -79,25 +107,32 @@ export const Main: React.FC<MainProps> = ({
       style={{
         backgroundColor,
       }}
-      onPointerDown={onPointerDown}
     >
       <AbsoluteFill style={layerContainer}>
-        {overlays.map((overlay) => {
+        {transitionLayers.overlays.map((overlay) => {
           return (
             <Layer
               key={overlay.id}
               overlay={overlay}
               selectedOverlayId={selectedOverlayId}
               baseUrl={baseUrl}
+              transitionWindows={transitionLayers.windows.get(overlay.id)}
+              duckingEnvelope={duckingEnvelopes.get(overlay.id)}
+              visualiserSources={visualiserSources.get(overlay.id)}
+              isOffline={offlineSources?.includes(getOverlaySource(overlay) ?? "")}
             />
           );
         })}
       </AbsoluteFill>
       <SortedOutlines
         selectedOverlayId={selectedOverlayId}
+        selectedOverlayIds={selectedOverlayIds}
         overlays={overlays}
         setSelectedOverlayId={setSelectedOverlayId}
+        selectOverlays={selectOverlays}
+        toggleOverlaySelection={toggleOverlaySelection}
         changeOverlay={changeOverlay}
+        replaceMedia={replaceMedia}
       />
       <CanvasGuides
         overlays={overlays}
@@ -40,6 +40,7 @@ export const RemotionRoot: React.FC = () => {
         calculateMetadata={async ({ props }) => {
           return {
             durationInFrames: props.durationInFrames,
+            fps: props.fps,
             width: props.width,
             height: props.height,
           };
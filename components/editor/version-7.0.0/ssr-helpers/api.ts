@@ -3,8 +3,11 @@ import {
   RenderRequest,
   ProgressRequest,
   ProgressResponse,
+  CancelRequest,
+  RenderStillRequest,
 } from "@/components/editor/version-7.0.0/types";
 import { CompositionProps } from "@/components/editor/version-7.0.0/types";
+import type { ExportSettings } from "@/components/editor/version-7.0.0/utils/export-formats";
 
 type ApiResponse<T> = {
   type: "success" | "error";
@@ -44,15 +47,18 @@ export const renderVideo = async ({
   id,
   inputProps,
   renderScale,
+  exportSettings,
 }: {
   id: string;
   inputProps: z.infer<typeof CompositionProps>;
   renderScale?: number;
+  exportSettings?: ExportSettings;
 }) => {
   const body: z.infer<typeof RenderRequest> = {
     id,
     inputProps,
     renderScale,
+    ...exportSettings,
   };
 
   const response = await makeRequest<RenderResponse>(
@@ -80,3 +86,56 @@ export const getProgress = async ({
   );
   return response;
 };
+
+/**
+ * Renders one frame on the server. The endpoint answers with the image
+ * itself, so this does not go through makeRequest.
+ */
+export const renderStill = async ({
+  id,
+  inputProps,
+  frame,
+  imageFormat,
+  renderScale,
+}: {
+  id: string;
+  inputProps: z.infer<typeof CompositionProps>;
+  frame: number;
+  imageFormat: "png" | "jpeg";
+  renderScale?: number;
+}): Promise<Blob> => {
+  const body: z.infer<typeof RenderStillRequest> = {
+    id,
+    inputProps,
+    frame,
+    imageFormat,
+    renderScale,
+  };
+
+  const result = await fetch("/api/latest/ssr/render-still", {
+    method: "post",
+    body: JSON.stringify(body),
+    headers: {
+      "content-type": "application/json",
+    },
+  });
+
+  if (!result.ok) {
+    const json = (await result.json().catch(() => null)) as ApiResponse<never> | null;
+    const message = json?.message ?? `Still render failed with status ${result.status}`;
+    console.error("Error in response from /api/latest/ssr/render-still:", message);
+    throw new Error(message);
+  }
+
+  return result.blob();
+};
+
+export const cancelRender = async ({ id }: { id: string }) => {
+  const body: z.infer<typeof CancelRequest> = { id };
+
+  const response = await makeRequest<{ cancelled: boolean }>(
+    "/api/latest/ssr/cancel",
+    body
+  );
+  return response;
+};
@@ -25,6 +25,10 @@ if (!fs.existsSync(ASSETS_CACHE_DIR)) {
   fs.mkdirSync(ASSETS_CACHE_DIR, { recursive: true });
 }
 
+// Download retries for transient failures (timeouts, resets, 5xx, 429)
+const DOWNLOAD_MAX_ATTEMPTS = 3;
+const DOWNLOAD_RETRY_DELAY_MS = 1000;
+
 /**
  * Overlay types that contain media URLs
  */
@@ -63,7 +67,12 @@ async function downloadFile(url: string, destPath: string): Promise<void> {
       if (response.statusCode !== 200) {
         file.close();
         fs.unlinkSync(destPath);
-        reject(new Error(`Failed to download ${url}: HTTP ${response.statusCode}`));
+        reject(
+          Object.assign(
+            new Error(`Failed to download ${url}: HTTP ${response.statusCode}`),
+            { statusCode: response.statusCode }
+          )
+        );
         return;
       }
 
@@ -99,6 +108,58 @@ async function downloadFile(url: string, destPath: string): Promise<void> {
   });
 }
 
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+];
+
+/**
+ * Whether a failed download is worth retrying: network errors, timeouts,
+ * rate limiting and server errors. Missing files (404) and other client
+ * errors are not.
+ */
+export function isTransientDownloadError(error: unknown): boolean {
+  const { code, statusCode, message } = (error ?? {}) as {
+    code?: string;
+    statusCode?: number;
+    message?: string;
+  };
+
+  if (typeof statusCode === "number") {
+    return statusCode >= 500 || statusCode === 408 || statusCode === 429;
+  }
+  if (code && TRANSIENT_ERROR_CODES.includes(code)) return true;
+
+  const lower = (message || "").toLowerCase();
+  return lower.includes("timeout") || lower.includes("socket hang up");
+}
+
+/**
+ * Downloads a file, retrying transient failures with an increasing delay
+ */
+async function downloadWithRetry(url: string, destPath: string): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await downloadFile(url, destPath);
+      return;
+    } catch (error) {
+      if (attempt >= DOWNLOAD_MAX_ATTEMPTS || !isTransientDownloadError(error)) {
+        throw error;
+      }
+      console.warn(
+        `[AssetPreloader] Retrying ${url} (attempt ${attempt + 1}/${DOWNLOAD_MAX_ATTEMPTS})`
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, DOWNLOAD_RETRY_DELAY_MS * attempt)
+      );
+    }
+  }
+}
+
 /**
  * Gets a file extension from URL or content-type
  */
@@ -196,7 +257,7 @@ export async function preloadAssets(
 
       const startTime = Date.now();
 
-      await downloadFile(url, localPath);
+      await downloadWithRetry(url, localPath);
 
       const stats = fs.statSync(localPath);
       const duration = Date.now() - startTime;
@@ -1,7 +1,9 @@
 import { bundle } from "@remotion/bundler";
 import {
   renderMedia,
+  renderStill,
   selectComposition,
+  makeCancelSignal,
   RenderMediaOnProgress,
 } from "@remotion/renderer";
 import path from "path";
@@ -11,10 +13,20 @@ import { v4 as uuidv4 } from "uuid";
 import { getBaseUrl } from "../utils/url-helper";
 import {
   saveRenderState,
+  getRenderState,
+  listRenderStates,
   updateRenderProgress,
+  updateQueuePosition,
   completeRender,
   failRender,
+  cancelRender,
 } from "./render-state";
+import { createRenderQueue, RenderJob, RenderQueue } from "./render-queue";
+import {
+  ExportSettings,
+  getEncodingOptions,
+  validateExportSettings,
+} from "../utils/export-formats";
 import {
   preloadAssets,
   replaceUrlsWithLocalPaths,
@@ -115,16 +127,19 @@ export const renderSizes = new Map<string, number>();
 // RENDER CONFIGURATION - OPTIMIZED FOR SPEED
 // ============================================================================
 const RENDER_CONFIG = {
-  // Encoding settings
-  CODEC: "h264" as const,
+  // Default encoding settings (h264), used unless the export asks otherwise
   CRF: 28, // Higher = faster & smaller (range 18-28, 28 is fastest acceptable)
   X264_PRESET: "ultrafast" as const, // Fastest possible encoding
-  IMAGE_FORMAT: "jpeg" as const,
   JPEG_QUALITY: 80, // Good enough for most uses
   
-  // Concurrency - use ALL CPU cores
+  // Renders running at the same time; the rest wait in the queue
+  get MAX_PARALLEL_RENDERS() {
+    return Math.max(1, Number(process.env.MAX_PARALLEL_RENDERS) || 2);
+  },
+
+  // Concurrency - CPU cores shared between the parallel renders
   get CONCURRENCY() {
-    return Math.max(2, os.cpus().length);
+    return Math.max(1, Math.floor(os.cpus().length / this.MAX_PARALLEL_RENDERS));
   },
   
   // Timeouts
@@ -150,146 +165,326 @@ function hasRemoteAssets(overlays: any[]): boolean {
   return false;
 }
 
+/**
+ * Stops a job between render steps once it has been cancelled
+ */
+function throwIfCancelled(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw new Error("Render cancelled");
+  }
+}
+
 /**
  * ⚡ OPTIMIZED RENDERER
  * 
  * Key optimizations:
  * 1. Bundle is cached and reused (saves 2-5 minutes per render!)
  * 2. ultrafast x264 preset
- * 3. Maximum CPU concurrency
+ * 3. CPU cores shared between the renders running in parallel
  * 4. JPEG frames (faster than PNG)
  * 5. Optional asset pre-download only when needed
  */
-export async function startRendering(
-  compositionId: string,
-  inputProps: Record<string, unknown>,
-  renderScale?: number
-) {
-  const renderId = uuidv4();
+async function runRenderJob(job: RenderJob, signal: AbortSignal) {
+  const { id: renderId, compositionId, inputProps, renderScale, exportSettings } = job;
   const startTime = Date.now();
+  let outputPath: string | null = null;
 
-  // Initialize render state
-  saveRenderState(renderId, {
-    status: "rendering",
-    progress: 0,
-    timestamp: startTime,
-  });
+  // Cancelled while waiting (possibly before a restart)
+  if (getRenderState(renderId)?.status === "cancelled") return;
+
+  // Bridge the queue's abort signal to Remotion's cancel signal
+  const { cancelSignal, cancel } = makeCancelSignal();
+  signal.addEventListener("abort", () => cancel(), { once: true });
 
-  // Start rendering asynchronously
-  (async () => {
-    try {
+  try {
+    updateRenderProgress(renderId, 0);
       
-      // Cleanup old cached assets periodically (non-blocking)
-      cleanupOldAssets();
+    // Cleanup old cached assets periodically (non-blocking)
+    cleanupOldAssets();
 
-      const baseUrl = getBaseUrl();
-      let optimizedInputProps = { ...inputProps };
-      const overlays = (inputProps.overlays as any[]) || [];
+    const baseUrl = getBaseUrl();
+    let optimizedInputProps = { ...inputProps };
+    const overlays = (inputProps.overlays as any[]) || [];
 
-      // ⚡ STEP 1: Pre-download assets ONLY if there are remote URLs
-      if (hasRemoteAssets(overlays)) {
-        updateRenderProgress(renderId, 0.05);
-        
-        const assetMap = await preloadAssets(overlays, renderId);
-        const optimizedOverlays = replaceUrlsWithLocalPaths(overlays, assetMap);
-        optimizedInputProps = { ...inputProps, overlays: optimizedOverlays };
+    // ⚡ STEP 1: Pre-download assets ONLY if there are remote URLs
+    if (hasRemoteAssets(overlays)) {
+      updateRenderProgress(renderId, 0.05);
         
-      } else {
-      }
+      const assetMap = await preloadAssets(overlays, renderId);
+      const optimizedOverlays = replaceUrlsWithLocalPaths(overlays, assetMap);
+      optimizedInputProps = { ...inputProps, overlays: optimizedOverlays };
+    }
 
-      // ⚡ STEP 2: Get cached bundle (this is INSTANT after first render)
-      updateRenderProgress(renderId, 0.1);
-      const bundleLocation = await getCachedBundle();
+    // ⚡ STEP 2: Get cached bundle (this is INSTANT after first render)
+    throwIfCancelled(signal);
+    updateRenderProgress(renderId, 0.1);
+    const bundleLocation = await getCachedBundle();
 
-      // ⚡ STEP 3: Select composition
-      updateRenderProgress(renderId, 0.15);
+    // ⚡ STEP 3: Select composition
+    throwIfCancelled(signal);
+    updateRenderProgress(renderId, 0.15);
       
-      const composition = await selectComposition({
-        serveUrl: bundleLocation,
-        id: compositionId,
-        inputProps: { ...optimizedInputProps, baseUrl },
-        timeoutInMilliseconds: RENDER_CONFIG.DELAY_RENDER_TIMEOUT_MS,
-      });
-
-      const actualDurationInFrames =
-        (inputProps.durationInFrames as number) || composition.durationInFrames;
-      const durationSecs = (actualDurationInFrames / composition.fps).toFixed(1);
-      
-
-      // ⚡ STEP 4: Render with maximum speed settings
-      updateRenderProgress(renderId, 0.2);
-
-      const outputPath = path.join(VIDEOS_DIR, `${renderId}.mp4`);
-
-      // Use Remotion's scale parameter for resolution upscaling
-      const effectiveScale = renderScale && renderScale > 0 ? renderScale : undefined;
-      if (effectiveScale) {
-      }
-
-      await renderMedia({
-        codec: RENDER_CONFIG.CODEC,
-        composition: {
-          ...composition,
-          durationInFrames: actualDurationInFrames,
-        },
-        serveUrl: bundleLocation,
-        outputLocation: outputPath,
-        inputProps: { ...optimizedInputProps, baseUrl },
+    const composition = await selectComposition({
+      serveUrl: bundleLocation,
+      id: compositionId,
+      inputProps: { ...optimizedInputProps, baseUrl },
+      timeoutInMilliseconds: RENDER_CONFIG.DELAY_RENDER_TIMEOUT_MS,
+    });
+
+    const actualDurationInFrames =
+      (inputProps.durationInFrames as number) || composition.durationInFrames;
+
+    // Codec, container and quality requested for the export
+    const encoding = getEncodingOptions(exportSettings ?? {}, {
+      crf: RENDER_CONFIG.CRF,
+      x264Preset: RENDER_CONFIG.X264_PRESET,
+      durationInFrames: actualDurationInFrames,
+    });
+
+    // ⚡ STEP 4: Render with maximum speed settings
+    throwIfCancelled(signal);
+    updateRenderProgress(renderId, 0.2);
+
+    const fileName = `${renderId}.${encoding.container}`;
+    outputPath = path.join(VIDEOS_DIR, fileName);
+
+    // Use Remotion's scale parameter for resolution upscaling
+    const effectiveScale = renderScale && renderScale > 0 ? renderScale : undefined;
+
+    await renderMedia({
+      codec: encoding.codec,
+      composition: {
+        ...composition,
+        durationInFrames: actualDurationInFrames,
+      },
+      serveUrl: bundleLocation,
+      outputLocation: outputPath,
+      inputProps: { ...optimizedInputProps, baseUrl },
         
-        // ⚡ SPEED SETTINGS
-        crf: RENDER_CONFIG.CRF,
-        x264Preset: RENDER_CONFIG.X264_PRESET,
-        imageFormat: RENDER_CONFIG.IMAGE_FORMAT,
-        jpegQuality: RENDER_CONFIG.JPEG_QUALITY,
-        concurrency: RENDER_CONFIG.CONCURRENCY,
-
-        // Resolution upscaling via Remotion's built-in scale
-        ...(effectiveScale ? { scale: effectiveScale } : {}),
+      // ⚡ SPEED SETTINGS (h264 defaults unless the export asks otherwise)
+      crf: encoding.crf,
+      x264Preset: encoding.x264Preset,
+      imageFormat: encoding.imageFormat,
+      jpegQuality: RENDER_CONFIG.JPEG_QUALITY,
+      concurrency: RENDER_CONFIG.CONCURRENCY,
+
+      // Format specific settings
+      audioBitrate: encoding.audioBitrate,
+      proResProfile: encoding.proResProfile,
+      everyNthFrame: encoding.everyNthFrame,
+      numberOfGifLoops: encoding.numberOfGifLoops,
+      frameRange: encoding.frameRange,
+
+      // Resolution upscaling via Remotion's built-in scale
+      ...(effectiveScale ? { scale: effectiveScale } : {}),
         
-        // Chromium settings
-        chromiumOptions: {
-          headless: true,
-          disableWebSecurity: true, // Faster, allows cross-origin
-          ignoreCertificateErrors: true,
-        },
+      // Chromium settings
+      chromiumOptions: {
+        headless: true,
+        disableWebSecurity: true, // Faster, allows cross-origin
+        ignoreCertificateErrors: true,
+      },
         
-        // Timeouts
-        timeoutInMilliseconds: RENDER_CONFIG.TIMEOUT_MS,
+      // Timeouts
+      timeoutInMilliseconds: RENDER_CONFIG.TIMEOUT_MS,
+
+      // Aborts the render when the job is cancelled
+      cancelSignal,
         
-        // Progress callback
-        onProgress: ((progress) => {
-          // Map render progress to 20%-95% range
-          const mappedProgress = 0.2 + (progress.progress * 0.75);
-          updateRenderProgress(renderId, mappedProgress);
-          
-          // Log every 25%
-          const percent = Math.floor(progress.progress * 100);
-          if (percent % 25 === 0 && percent > 0) {
-          }
-        }) as RenderMediaOnProgress,
-      });
-
-      // ⚡ STEP 5: Complete
-      const stats = fs.statSync(outputPath);
-      const publicPath = `/rendered-videos/${renderId}.mp4`;
-      const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
-      const fileSizeMB = (stats.size / 1024 / 1024).toFixed(2);
-      
-      completeRender(renderId, publicPath, stats.size);
+      // Progress callback
+      onProgress: ((progress) => {
+        if (signal.aborted) return;
+        // Map render progress to 20%-95% range
+        const mappedProgress = 0.2 + (progress.progress * 0.75);
+        updateRenderProgress(renderId, mappedProgress);
+      }) as RenderMediaOnProgress,
+    });
+
+    // ⚡ STEP 5: Complete
+    const stats = fs.statSync(outputPath);
+    const publicPath = `/rendered-videos/${fileName}`;
       
+    completeRender(renderId, publicPath, stats.size);
 
-      // Cleanup downloaded assets
-      cleanupAssets(renderId);
+    // Cleanup downloaded assets
+    cleanupAssets(renderId);
       
-    } catch (error: any) {
+  } catch (error: any) {
+    if (signal.aborted) {
+      cancelRender(renderId);
+      if (outputPath) fs.rmSync(outputPath, { force: true });
+    } else {
       const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
       console.error(`[Render ${renderId}] ✗ FAILED after ${totalTime}s:`, error.message);
       failRender(renderId, error.message);
-      cleanupAssets(renderId);
     }
-  })();
+    cleanupAssets(renderId);
+  }
+}
 
-  return renderId;
+// The queue is kept on globalThis so that every route (and hot reloads in
+// development) share one queue instead of each module copy starting its own
+const globalForRenders = globalThis as typeof globalThis & {
+  renderQueue?: RenderQueue;
+  renderQueueRecovered?: boolean;
+};
+
+function getRenderQueue(): RenderQueue {
+  if (!globalForRenders.renderQueue) {
+    globalForRenders.renderQueue = createRenderQueue({
+      maxParallel: RENDER_CONFIG.MAX_PARALLEL_RENDERS,
+      run: runRenderJob,
+      onQueueChange: (waitingIds) =>
+        waitingIds.forEach((id, index) => updateQueuePosition(id, index + 1)),
+    });
+  }
+  return globalForRenders.renderQueue;
+}
+
+/**
+ * Queues a render and returns its ID straight away. Progress, including the
+ * position in the queue, is read from the render state.
+ */
+export async function startRendering(
+  compositionId: string,
+  inputProps: Record<string, unknown>,
+  renderScale?: number,
+  exportSettings?: ExportSettings
+) {
+  // Reject impossible codec/container combinations before queueing
+  const settingsError = exportSettings && validateExportSettings(exportSettings);
+  if (settingsError) {
+    throw new Error(settingsError);
+  }
+
+  const job: RenderJob = {
+    id: uuidv4(),
+    compositionId,
+    inputProps,
+    renderScale,
+    exportSettings,
+    enqueuedAt: Date.now(),
+  };
+
+  // The job is saved with the state so it can be restarted after a restart
+  saveRenderState(job.id, {
+    status: "queued",
+    progress: 0,
+    queuePosition: getRenderQueue().waitingCount + 1,
+    timestamp: job.enqueuedAt,
+    job,
+  });
+
+  getRenderQueue().enqueue(job);
+
+  return job.id;
+}
+
+/**
+ * Cancels a queued or running render.
+ * Returns false when the render has already finished or does not exist.
+ */
+export function cancelRendering(renderId: string): boolean {
+  const state = getRenderState(renderId);
+  if (!state || !["queued", "rendering"].includes(state.status)) {
+    return false;
+  }
+
+  // Renders the queue does not know (e.g. left over from a crash) are only
+  // marked as cancelled
+  if (!getRenderQueue().cancel(renderId) || state.status === "queued") {
+    cancelRender(renderId);
+  }
+  return true;
+}
+
+/**
+ * Puts renders that were queued or running when the server stopped back in
+ * the queue, oldest first. The render, progress and cancel routes call it
+ * before anything else, so it runs once per server process, on the first
+ * request that needs the queue, and never while the app is being built.
+ */
+export function recoverQueuedRenders(): void {
+  if (globalForRenders.renderQueueRecovered) return;
+  globalForRenders.renderQueueRecovered = true;
+
+  const interrupted = listRenderStates().filter(({ state }) =>
+    ["queued", "rendering"].includes(state?.status)
+  );
+
+  interrupted
+    .filter(({ state }) => state.job)
+    .sort((a, b) => a.state.job.enqueuedAt - b.state.job.enqueuedAt)
+    .forEach(({ renderId, state }) => {
+      saveRenderState(renderId, { ...state, status: "queued", progress: 0 });
+      getRenderQueue().enqueue(state.job as RenderJob);
+    });
+
+  // Renders started before jobs were saved cannot be restarted
+  interrupted
+    .filter(({ state }) => !state.job)
+    .forEach(({ renderId }) =>
+      failRender(renderId, "Render was interrupted by a server restart")
+    );
+}
+
+/**
+ * Renders a single frame to a PNG or JPEG image.
+ * Stills take a second or two, so they do not wait in the render queue.
+ */
+export async function renderStillFrame({
+  compositionId,
+  inputProps,
+  frame,
+  imageFormat,
+  renderScale,
+}: {
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  frame: number;
+  imageFormat: "png" | "jpeg";
+  renderScale?: number;
+}): Promise<Buffer> {
+  const baseUrl = getBaseUrl();
+  const bundleLocation = await getCachedBundle();
+  const props = { ...inputProps, baseUrl };
+
+  const composition = await selectComposition({
+    serveUrl: bundleLocation,
+    id: compositionId,
+    inputProps: props,
+    timeoutInMilliseconds: RENDER_CONFIG.DELAY_RENDER_TIMEOUT_MS,
+  });
+
+  const durationInFrames =
+    (inputProps.durationInFrames as number) || composition.durationInFrames;
+  if (frame >= durationInFrames) {
+    throw new Error(
+      `Frame ${frame} is outside the composition (${durationInFrames} frames)`
+    );
+  }
+
+  const { buffer } = await renderStill({
+    composition: { ...composition, durationInFrames },
+    serveUrl: bundleLocation,
+    inputProps: props,
+    frame,
+    imageFormat,
+    jpegQuality: imageFormat === "jpeg" ? 90 : undefined,
+    scale: renderScale && renderScale > 0 ? renderScale : 1,
+    output: null,
+    chromiumOptions: {
+      headless: true,
+      disableWebSecurity: true,
+      ignoreCertificateErrors: true,
+    },
+    timeoutInMilliseconds: RENDER_CONFIG.DELAY_RENDER_TIMEOUT_MS,
+  });
+
+  if (!buffer) {
+    throw new Error("Still render returned no image");
+  }
+  return buffer;
 }
 
 /**
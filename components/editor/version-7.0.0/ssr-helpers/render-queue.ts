@@ -0,0 +1,118 @@
+/**
+ * Render Job Queue for Server-Side Rendering
+ *
+ * Renders are CPU bound, so running every request at once makes them all
+ * slow. The queue runs at most `maxParallel` jobs and starts the next waiting
+ * job (first in, first out) as soon as one finishes, fails or is cancelled.
+ */
+
+import type { ExportSettings } from "../utils/export-formats";
+
+/**
+ * Everything needed to start (or restart) a render
+ */
+export type RenderJob = {
+  id: string;
+  compositionId: string;
+  inputProps: Record<string, unknown>;
+  renderScale?: number;
+  exportSettings?: ExportSettings;
+  enqueuedAt: number;
+};
+
+type RenderQueueOptions = {
+  /** Maximum number of renders running at the same time */
+  maxParallel: number;
+  /** Runs a job. The signal is aborted when the job is cancelled. */
+  run: (job: RenderJob, signal: AbortSignal) => Promise<void>;
+  /** Called with the ids of the waiting jobs, in order, whenever they change */
+  onQueueChange?: (waitingIds: string[]) => void;
+};
+
+export type RenderQueue = ReturnType<typeof createRenderQueue>;
+
+export const createRenderQueue = ({
+  maxParallel,
+  run,
+  onQueueChange,
+}: RenderQueueOptions) => {
+  const waiting: RenderJob[] = [];
+  const active = new Map<string, AbortController>();
+  const limit = Math.max(1, Math.floor(maxParallel));
+
+  const notify = () => onQueueChange?.(waiting.map((job) => job.id));
+
+  const startNext = () => {
+    let started = false;
+    while (active.size < limit && waiting.length > 0) {
+      const job = waiting.shift()!;
+      const controller = new AbortController();
+      active.set(job.id, controller);
+      started = true;
+
+      run(job, controller.signal)
+        .catch((error) => {
+          console.error(`[RenderQueue] Job ${job.id} failed:`, error);
+        })
+        .finally(() => {
+          active.delete(job.id);
+          startNext();
+        });
+    }
+    if (started) notify();
+  };
+
+  /**
+   * Adds a job to the end of the queue. Jobs already known are ignored.
+   */
+  const enqueue = (job: RenderJob) => {
+    if (active.has(job.id) || waiting.some((queued) => queued.id === job.id)) {
+      return;
+    }
+    waiting.push(job);
+    notify();
+    startNext();
+  };
+
+  /**
+   * Removes a waiting job or aborts a running one.
+   * Returns false when the queue does not know the job.
+   */
+  const cancel = (id: string): boolean => {
+    const index = waiting.findIndex((job) => job.id === id);
+    if (index !== -1) {
+      waiting.splice(index, 1);
+      notify();
+      return true;
+    }
+
+    const controller = active.get(id);
+    if (controller) {
+      controller.abort();
+      return true;
+    }
+    return false;
+  };
+
+  /**
+   * 1-based position among the waiting jobs, 0 when the job is running and
+   * null when the queue does not know it
+   */
+  const getPosition = (id: string): number | null => {
+    if (active.has(id)) return 0;
+    const index = waiting.findIndex((job) => job.id === id);
+    return index === -1 ? null : index + 1;
+  };
+
+  return {
+    enqueue,
+    cancel,
+    getPosition,
+    get activeCount() {
+      return active.size;
+    },
+    get waitingCount() {
+      return waiting.length;
+    },
+  };
+};
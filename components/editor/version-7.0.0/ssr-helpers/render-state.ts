@@ -25,6 +25,7 @@ export const updateRenderProgress = (renderId: string, progress: number) => {
   const state = getRenderState(renderId) || {};
   state.progress = progress;
   state.status = "rendering";
+  delete state.queuePosition;
   saveRenderState(renderId, state);
 };
 
@@ -33,6 +34,7 @@ export const completeRender = (renderId: string, url: string, size: number) => {
   state.status = "done";
   state.url = url;
   state.size = size;
+  delete state.job;
   saveRenderState(renderId, state);
 };
 
@@ -40,5 +42,43 @@ export const failRender = (renderId: string, error: string) => {
   const state = getRenderState(renderId) || {};
   state.status = "error";
   state.error = error;
+  delete state.job;
   saveRenderState(renderId, state);
 };
+
+/**
+ * Marks a render as waiting in the queue at the given 1-based position
+ */
+export const updateQueuePosition = (renderId: string, position: number) => {
+  const state = getRenderState(renderId);
+  if (!state || state.status !== "queued") return;
+  state.queuePosition = position;
+  saveRenderState(renderId, state);
+};
+
+export const cancelRender = (renderId: string) => {
+  const state = getRenderState(renderId) || {};
+  state.status = "cancelled";
+  delete state.queuePosition;
+  delete state.job;
+  saveRenderState(renderId, state);
+};
+
+/**
+ * Reads every saved render state, e.g. to pick up queued renders after a
+ * server restart. Unreadable files are skipped.
+ */
+export const listRenderStates = (): { renderId: string; state: any }[] => {
+  return fs
+    .readdirSync(RENDER_STATE_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => {
+      const renderId = path.basename(file, ".json");
+      try {
+        return [{ renderId, state: getRenderState(renderId) }];
+      } catch (error) {
+        console.error(`[RenderState] Could not read ${file}:`, error);
+        return [];
+      }
+    });
+};
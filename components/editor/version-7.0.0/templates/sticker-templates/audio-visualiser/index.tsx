@@ -1,78 +1,202 @@
 import React from "react";
-import { random, useCurrentFrame } from "remotion";
+import { useCurrentFrame, useVideoConfig } from "remotion";
+import {
+  createSmoothSvgPath,
+  visualizeAudio,
+  visualizeAudioWaveform,
+} from "@remotion/media-utils";
 import { StickerTemplate, StickerTemplateProps } from "../base-template";
+import { VisualiserStyle } from "../../../types";
+import {
+  AUDIO_VISUALISER_ID,
+  DEFAULT_VISUALISER,
+  getSourceFrame,
+  getSourceGain,
+  mixLevels,
+  scaleLevel,
+} from "../../../utils/audio-visualiser";
+import {
+  getVisualiserSourceUrl,
+  useVisualiserAudio,
+} from "../../../hooks/use-visualiser-audio";
 
-interface AudioVisualiserProps extends StickerTemplateProps {
-  barColor?: string;
-  glowColor?: string;
-  barCount?: number;
-  barWidth?: number;
-  barGap?: number;
-}
+// visualizeAudio needs a power of two; only the lower bands carry much energy
+const FREQUENCY_SAMPLES = 128;
+const BAND_COUNT: Record<VisualiserStyle, number> = {
+  bars: 32,
+  wave: 64,
+  circular: 48,
+  spectrum: 64,
+};
 
-const AudioVisualiserComponent: React.FC<AudioVisualiserProps> = ({
+const AudioVisualiserComponent: React.FC<StickerTemplateProps> = ({
   overlay,
-  barColor = "#3B82F6",
-  glowColor = "rgba(59, 130, 246, 0.6)",
-  barCount = 40,
-  barWidth = 12,
-  barGap = 4,
+  audioSources = [],
+  baseUrl,
 }) => {
   const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const settings = { ...DEFAULT_VISUALISER, ...overlay.visualiser };
+  const { style, primaryColor, secondaryColor } = settings;
+  const count = BAND_COUNT[style];
+
+  const urls = audioSources.map((source) => getVisualiserSourceUrl(source, baseUrl));
+  const audioData = useVisualiserAudio(urls);
+
+  // Each source is read at its own position in the file and weighted by how
+  // loud it is at this frame, then the sources are added together
+  const levels = mixLevels(
+    audioSources.flatMap((source, i) => {
+      const data = audioData[urls[i]];
+      const sourceFrame = getSourceFrame(source, frame);
+      if (!data || sourceFrame === null) return [];
+
+      const values =
+        style === "wave"
+          ? visualizeAudioWaveform({
+              fps,
+              frame: sourceFrame,
+              audioData: data,
+              numberOfSamples: count,
+              windowInSeconds: 1 / fps,
+            })
+          : visualizeAudio({
+              fps,
+              frame: sourceFrame,
+              audioData: data,
+              numberOfSamples: FREQUENCY_SAMPLES,
+              smoothing: true,
+            })
+              .slice(0, count)
+              .map(scaleLevel);
+      return [{ values, gain: getSourceGain(source, frame) }];
+    }),
+    count
+  );
 
-  const bars = Array.from({ length: barCount }).map((_, i) => {
-    const seed = i * 1000;
-    const height =
-      Math.abs(Math.sin(frame / 10 + i / 2)) * 60 + random(seed) * 30;
+  const width = overlay.width;
+  const height = overlay.height;
+  const gradientId = `audio-visualiser-${overlay.id}`;
+  const fill = `url(#${gradientId})`;
 
-    return {
-      height,
-      hue: (i / barCount) * 180 + frame,
-    };
-  });
+  const renderStyle = () => {
+    switch (style) {
+      case "wave": {
+        const points = levels.map((level, i) => ({
+          x: (i / (count - 1)) * width,
+          y: height / 2 + level * (height / 2) * 0.9,
+        }));
+        return (
+          <path
+            d={createSmoothSvgPath({ points })}
+            fill="none"
+            stroke={fill}
+            strokeWidth={Math.max(2, height / 40)}
+            strokeLinecap="round"
+          />
+        );
+      }
+
+      case "circular": {
+        const cx = width / 2;
+        const cy = height / 2;
+        const inner = Math.min(width, height) * 0.25;
+        const outer = Math.min(width, height) / 2;
+        const strokeWidth = Math.max(2, ((2 * Math.PI * inner) / count) * 0.6);
+        return (
+          <>
+            <circle cx={cx} cy={cy} r={inner} fill="none" stroke={fill} strokeWidth={2} />
+            {levels.map((level, i) => {
+              const angle = (i / count) * Math.PI * 2 - Math.PI / 2;
+              const length = inner + Math.max(0.04, level) * (outer - inner);
+              return (
+                <line
+                  key={i}
+                  x1={cx + Math.cos(angle) * inner}
+                  y1={cy + Math.sin(angle) * inner}
+                  x2={cx + Math.cos(angle) * length}
+                  y2={cy + Math.sin(angle) * length}
+                  stroke={fill}
+                  strokeWidth={strokeWidth}
+                  strokeLinecap="round"
+                />
+              );
+            })}
+          </>
+        );
+      }
+
+      case "spectrum": {
+        const slot = width / count;
+        return levels.map((level, i) => {
+          const barHeight = Math.max(0.02, level) * height;
+          return (
+            <rect
+              key={i}
+              x={i * slot + slot * 0.1}
+              y={height - barHeight}
+              width={slot * 0.8}
+              height={barHeight}
+              fill={fill}
+            />
+          );
+        });
+      }
+
+      case "bars":
+      default: {
+        const slot = width / count;
+        const barWidth = slot * 0.6;
+        return levels.map((level, i) => {
+          const barHeight = Math.max(barWidth, level * height * 0.9);
+          return (
+            <rect
+              key={i}
+              x={i * slot + (slot - barWidth) / 2}
+              y={(height - barHeight) / 2}
+              width={barWidth}
+              height={barHeight}
+              rx={barWidth / 2}
+              fill={fill}
+            />
+          );
+        });
+      }
+    }
+  };
 
   return (
-    <div
-      style={{
-        width: "100%",
-        height: "100%",
-        display: "flex",
-        alignItems: "center",
-        justifyContent: "center",
-        gap: `${barGap}px`,
-        padding: "32px",
-      }}
+    <svg
+      width="100%"
+      height="100%"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
     >
-      {bars.map((bar, i) => (
-        <div
-          key={i}
-          style={{
-            width: `${barWidth}px`,
-            height: `${bar.height}px`,
-            background: barColor,
-            borderRadius: `${barWidth / 2}px`,
-            transition: "height 0.1s ease",
-            boxShadow: `0 0 10px ${glowColor}`,
-          }}
-        />
-      ))}
-    </div>
+      <defs>
+        {/* The spectrum rises from the primary colour, the rest run across it */}
+        <linearGradient
+          id={gradientId}
+          gradientUnits="userSpaceOnUse"
+          x1={0}
+          y1={style === "spectrum" ? height : 0}
+          x2={style === "spectrum" ? 0 : width}
+          y2={0}
+        >
+          <stop offset="0%" stopColor={primaryColor} />
+          <stop offset="100%" stopColor={secondaryColor} />
+        </linearGradient>
+      </defs>
+      {renderStyle()}
+    </svg>
   );
 };
 
 export const audioVisualiser: StickerTemplate = {
   config: {
-    id: "audio-visualiser",
+    id: AUDIO_VISUALISER_ID,
     name: "Audio Visualiser",
     category: "Default",
     layout: "double",
-    defaultProps: {
-      barColor: "#3B82F6",
-
-      barCount: 40,
-      barWidth: 12,
-      barGap: 4,
-    },
     isPro: true,
   },
   Component: AudioVisualiserComponent,
@@ -1,10 +1,14 @@
 import React from "react";
 import { StickerOverlay } from "../../types";
+import { VisualiserSource } from "../../utils/audio-visualiser";
 
 export interface StickerTemplateProps {
   overlay: StickerOverlay;
   isSelected: boolean;
   onUpdate?: (updates: Partial<StickerOverlay>) => void;
+  /** Audio followed by the audio visualiser, resolved by the composition */
+  audioSources?: VisualiserSource[];
+  baseUrl?: string;
 }
 
 export interface StickerTemplateConfig {
@@ -10,6 +10,7 @@ export enum OverlayType {
   LOCAL_DIR = "local-dir",
   STICKER = "sticker",
   TEMPLATE = "template",
+  TRANSITION = "transition",
 }
 // Base overlay properties
 type BaseOverlay = {
@@ -24,6 +25,85 @@ type BaseOverlay = {
   isDragging: boolean;
   rotation: number;
   type: OverlayType;
+  keyframes?: OverlayKeyframes;
+  // Overlays sharing a group id are selected, moved and edited as one unit
+  groupId?: string;
+  // Id of the clip a caption or sound is linked to; it moves with that clip
+  linkedTo?: number;
+};
+
+// Edges and centers a selection can be aligned to on the canvas
+export type OverlayAlignment =
+  | "left"
+  | "center"
+  | "right"
+  | "top"
+  | "middle"
+  | "bottom";
+
+// Properties that can be animated with keyframes
+export type KeyframeProperty =
+  | "left"
+  | "top"
+  | "width"
+  | "height"
+  | "rotation"
+  | "opacity"
+  | "scale";
+
+// Easing applied between a keyframe and the next one
+export type KeyframeEasing =
+  | "linear"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | "hold";
+
+// A single animation keyframe. `frame` is relative to the overlay start.
+export type AnimationKeyframe = {
+  id: string;
+  frame: number;
+  value: number;
+  easing: KeyframeEasing;
+};
+
+export type OverlayKeyframes = Partial<
+  Record<KeyframeProperty, AnimationKeyframe[]>
+>;
+
+// A point on a volume envelope: gain (0-1) at a frame relative to the overlay start
+export type VolumePoint = {
+  frame: number;
+  gain: number;
+};
+
+// Volume shaping for clips and sounds, applied on top of their volume
+type AudioStyles = {
+  volume?: number;
+  fadeInFrames?: number; // Frames to fade in from silence at the start
+  fadeInDelayFrames?: number; // Silent frames before the fade-in, for clips extended ahead of their start
+  fadeOutFrames?: number; // Frames to fade out to silence at the end
+  volumeEnvelope?: VolumePoint[]; // Gain between points is interpolated linearly
+};
+
+// A run of frames, from `start` up to (not including) `end`
+export type FrameSpan = {
+  start: number;
+  end: number;
+};
+
+// A voice a sound ducks under, with the speech found in it (in source frames)
+export type DuckingSource = {
+  src: string;
+  speech: FrameSpan[];
+};
+
+// Lowers a sound wherever one of its sources plays speech
+export type DuckingSettings = {
+  sources: DuckingSource[];
+  depth: number; // How much the volume is lowered, from 0 (not at all) to 1 (silence)
+  attackFrames: number; // Frames to ramp down, ending where speech starts
+  releaseFrames: number; // Frames to ramp back up once speech ends
 };
 
 // Base style properties
@@ -68,31 +148,66 @@ export type TextOverlay = BaseOverlay & {
   };
 };
 
+// Shapes that can be drawn by a shape overlay
+export type ShapeKind =
+  | "rectangle"
+  | "ellipse"
+  | "line"
+  | "arrow"
+  | "polygon"
+  | "star";
+
 // Shape overlay specific
 export type ShapeOverlay = BaseOverlay & {
   type: OverlayType.SHAPE;
-  content: string;
+  content: string; // Shape kind, see ShapeKind
   styles: BaseStyles & {
     fill?: string;
     stroke?: string;
     strokeWidth?: number;
     borderRadius?: string;
     boxShadow?: string;
-    gradient?: string;
+    gradient?: string; // CSS linear-gradient() or radial-gradient(), overrides fill
+    sides?: number; // Polygon sides or star points
+    innerRadius?: number; // Star inner radius as a fraction of the outer one
+    animation?: AnimationConfig;
   };
 };
 
+// Transition styles available between two adjacent clips
+export type ClipTransitionType =
+  | "crossfade"
+  | "dip-to-black"
+  | "wipe"
+  | "slide"
+  | "zoom";
+
+// Transition played on the cut between a clip and the next one on its row
+export type ClipTransition = {
+  type: ClipTransitionType;
+  durationInFrames: number;
+};
+
+// Point of a photo or video, as fractions of its width and height, that is
+// kept in view when it is cropped
+export type FocalPoint = {
+  x: number;
+  y: number;
+};
+
 // Clip overlay specific
 export type ClipOverlay = BaseOverlay & {
   type: OverlayType.VIDEO;
   content: string;
   src: string;
   videoStartTime?: number;
+  mediaDurationInFrames?: number; // Length of the source video; trims can't run past it
   speed?: number;
-  styles: BaseStyles & {
+  transition?: ClipTransition; // Into the clip that starts where this one ends
+  focalPoint?: FocalPoint; // Kept in view when the clip is cropped to fit
+  styles: BaseStyles & AudioStyles & {
     objectFit?: "contain" | "cover" | "fill" | "none" | "scale-down";
     objectPosition?: string;
-    volume?: number;
     borderRadius?: string;
     filter?: string;
     boxShadow?: string;
@@ -109,9 +224,9 @@ export type SoundOverlay = BaseOverlay & {
   content: string;
   src: string;
   startFromSound?: number;
-  styles: BaseStyles & {
-    volume?: number;
-  };
+  mediaDurationInFrames?: number; // Length of the source audio; trims can't run past it
+  ducking?: DuckingSettings; // Lowers the sound under voiceover and dialogue
+  styles: BaseStyles & AudioStyles;
 };
 
 export type CaptionWord = {
@@ -182,11 +297,23 @@ export type StickerCategory =
   | "Reviews"
   | "Default";
 
+// How the audio visualiser sticker draws the sound
+export type VisualiserStyle = "bars" | "wave" | "circular" | "spectrum";
+
+// Settings of the audio visualiser sticker
+export type AudioVisualiserSettings = {
+  source: "mix" | number; // Every audible clip and sound, or the id of one sound overlay
+  style: VisualiserStyle;
+  primaryColor: string;
+  secondaryColor: string; // End of the gradient across the bars or along the wave
+};
+
 // Sticker overlay specific
 export type StickerOverlay = BaseOverlay & {
   type: OverlayType.STICKER;
   content: string;
   category: StickerCategory;
+  visualiser?: AudioVisualiserSettings; // Only used by the audio visualiser sticker
   styles: BaseStyles & {
     fill?: string;
     stroke?: string;
@@ -202,6 +329,13 @@ export interface TemplateCreator {
   name: string;
 }
 
+// An overlay of a template meant to be swapped for the user's own text or media
+export interface TemplatePlaceholder {
+  overlayId: number;
+  kind: "text" | "media";
+  label: string; // Shown when the template is applied, e.g. "Headline" or "Product shot"
+}
+
 export interface TemplateOverlay {
   id: string;
   name: string;
@@ -215,6 +349,8 @@ export interface TemplateOverlay {
   duration: number;
   aspectRatio?: AspectRatio;
   overlays: Overlay[];
+  placeholders?: TemplatePlaceholder[];
+  isUserTemplate?: boolean; // Saved by the user rather than shipped with the editor
 }
 
 export type Overlay =
@@ -302,10 +438,211 @@ export type TimelineItemUnion = Video | Sound | LayerItem;
 // Type for the selected item in the editor
 export type SelectedItem = TimelineItemUnion | null;
 
+// Zod schemas for overlays. They mirror the overlay types above so saved
+// projects and render requests can be checked before anything is drawn;
+// style objects also accept CSS properties that are not listed.
+
+const AnimationKeyframeSchema = z.object({
+  id: z.string(),
+  frame: z.number(),
+  value: z.number(),
+  easing: z.enum(["linear", "ease-in", "ease-out", "ease-in-out", "hold"]),
+});
+
+const FocalPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+const BaseOverlaySchema = z.looseObject({
+  id: z.number(),
+  durationInFrames: z.number().positive(),
+  from: z.number().min(0),
+  height: z.number(),
+  row: z.number().int().min(0),
+  left: z.number(),
+  top: z.number(),
+  width: z.number(),
+  isDragging: z.boolean().default(false),
+  rotation: z.number().default(0),
+  keyframes: z
+    .partialRecord(
+      z.enum(["left", "top", "width", "height", "rotation", "opacity", "scale"]),
+      z.array(AnimationKeyframeSchema)
+    )
+    .optional(),
+  groupId: z.string().optional(),
+  linkedTo: z.number().optional(),
+});
+
+const BaseStylesSchema = z.looseObject({
+  opacity: z.number().optional(),
+  zIndex: z.number().optional(),
+  transform: z.string().optional(),
+  // `animation` is left unchecked: some text presets use a CSS animation
+  // string rather than enter/exit names
+});
+
+const AudioStylesSchema = BaseStylesSchema.extend({
+  volume: z.number().min(0).optional(),
+  fadeInFrames: z.number().min(0).optional(),
+  fadeInDelayFrames: z.number().min(0).optional(),
+  fadeOutFrames: z.number().min(0).optional(),
+  volumeEnvelope: z
+    .array(z.object({ frame: z.number(), gain: z.number().min(0).max(1) }))
+    .optional(),
+});
+
+const ObjectFitSchema = z.enum(["contain", "cover", "fill", "none", "scale-down"]);
+
+export const TextOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.TEXT),
+  content: z.string(),
+  styles: BaseStylesSchema.extend({
+    fontSize: z.string(),
+    fontWeight: z.string(),
+    // Gradient and outlined text presets leave these out
+    color: z.string().default(""),
+    backgroundColor: z.string().default(""),
+    fontFamily: z.string(),
+    fontStyle: z.string(),
+    textDecoration: z.string(),
+    textAlign: z.enum(["left", "center", "right"]).optional(),
+  }),
+});
+
+export const ShapeOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.SHAPE),
+  content: z.string(),
+  styles: BaseStylesSchema.extend({
+    fill: z.string().optional(),
+    stroke: z.string().optional(),
+    strokeWidth: z.number().min(0).optional(),
+    sides: z.number().int().min(3).optional(),
+    innerRadius: z.number().min(0).max(1).optional(),
+  }),
+});
+
+export const ClipOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.VIDEO),
+  content: z.string(),
+  src: z.string(),
+  videoStartTime: z.number().min(0).optional(),
+  mediaDurationInFrames: z.number().positive().optional(),
+  speed: z.number().positive().optional(),
+  transition: z
+    .object({
+      type: z.enum(["crossfade", "dip-to-black", "wipe", "slide", "zoom"]),
+      durationInFrames: z.number().positive(),
+    })
+    .optional(),
+  focalPoint: FocalPointSchema.optional(),
+  styles: AudioStylesSchema.extend({
+    objectFit: ObjectFitSchema.optional(),
+  }),
+});
+
+export const ImageOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.IMAGE),
+  src: z.string(),
+  content: z.string().optional(),
+  focalPoint: FocalPointSchema.optional(),
+  styles: BaseStylesSchema.extend({
+    objectFit: ObjectFitSchema.optional(),
+  }),
+});
+
+export const SoundOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.SOUND),
+  content: z.string(),
+  src: z.string(),
+  startFromSound: z.number().min(0).optional(),
+  mediaDurationInFrames: z.number().positive().optional(),
+  ducking: z
+    .object({
+      sources: z.array(
+        z.object({
+          src: z.string(),
+          speech: z.array(z.object({ start: z.number(), end: z.number() })),
+        })
+      ),
+      depth: z.number().min(0).max(1),
+      attackFrames: z.number().min(0),
+      releaseFrames: z.number().min(0),
+    })
+    .optional(),
+  styles: AudioStylesSchema,
+});
+
+const CaptionWordSchema = z.object({
+  word: z.string(),
+  startMs: z.number(),
+  endMs: z.number(),
+  confidence: z.number(),
+});
+
+export const CaptionOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.CAPTION),
+  captions: z.array(
+    z.object({
+      text: z.string(),
+      startMs: z.number(),
+      endMs: z.number(),
+      timestampMs: z.number().nullable(),
+      confidence: z.number().nullable(),
+      words: z.array(CaptionWordSchema),
+    })
+  ),
+  styles: z
+    .looseObject({
+      fontFamily: z.string(),
+      fontSize: z.string(),
+      lineHeight: z.number(),
+      textAlign: z.enum(["left", "center", "right"]),
+      color: z.string(),
+      fontWeight: z.union([z.number(), z.string()]).optional(),
+      highlightStyle: z.looseObject({}).optional(),
+    })
+    .optional(),
+  template: z.string().optional(),
+  displayMode: z.enum(["all", "word", "sentence"]).optional(),
+});
+
+export const StickerOverlaySchema = BaseOverlaySchema.extend({
+  type: z.literal(OverlayType.STICKER),
+  content: z.string(),
+  category: z.enum(["Shapes", "Discounts", "Emojis", "Reviews", "Default"]),
+  visualiser: z
+    .object({
+      source: z.union([z.literal("mix"), z.number()]),
+      style: z.enum(["bars", "wave", "circular", "spectrum"]),
+      primaryColor: z.string(),
+      secondaryColor: z.string(),
+    })
+    .optional(),
+  styles: BaseStylesSchema.extend({
+    fill: z.string().optional(),
+    stroke: z.string().optional(),
+    strokeWidth: z.number().min(0).optional(),
+    scale: z.number().optional(),
+  }),
+});
+
+// Any overlay, told apart by its `type`
+export const OverlaySchema: z.ZodType<Overlay> = z.discriminatedUnion("type", [
+  TextOverlaySchema,
+  ImageOverlaySchema,
+  ShapeOverlaySchema,
+  ClipOverlaySchema,
+  SoundOverlaySchema,
+  CaptionOverlaySchema,
+  StickerOverlaySchema,
+]);
+
 // Zod schema for composition props
 
 export const CompositionProps = z.object({
-  overlays: z.array(z.any()), // Replace with your actual Overlay type
+  overlays: z.array(OverlaySchema),
   durationInFrames: z.number(),
   width: z.number(),
   height: z.number(),
@@ -314,20 +651,70 @@ export const CompositionProps = z.object({
   backgroundColor: z.string().optional(),
 });
 
+// Codecs and containers offered for export (supported by SSR, Lambda and Cloud Run)
+export const ExportCodec = z.enum([
+  "h264",
+  "vp8",
+  "vp9",
+  "prores",
+  "gif",
+  "mp3",
+  "aac",
+  "wav",
+]);
+export type ExportCodec = z.infer<typeof ExportCodec>;
+
+export const ExportContainer = z.enum([
+  "mp4",
+  "mov",
+  "mkv",
+  "webm",
+  "gif",
+  "mp3",
+  "aac",
+  "wav",
+]);
+export type ExportContainer = z.infer<typeof ExportContainer>;
+
 // Other types remain the same
 export const RenderRequest = z.object({
   id: z.string(),
   inputProps: CompositionProps,
   renderScale: z.number().optional(),
+  codec: ExportCodec.optional(),
+  container: ExportContainer.optional(),
+  crf: z.number().int().min(1).max(63).optional(),
+  audioBitrate: z
+    .string()
+    .regex(/^\d+k$/, 'Audio bitrate must look like "320k"')
+    .optional(),
+  frameRange: z
+    .tuple([z.number().int().min(0), z.number().int().min(0)])
+    .refine(([start, end]) => end >= start, "Frame range must end after it starts")
+    .optional(),
+});
+
+export const RenderStillRequest = z.object({
+  id: z.string(),
+  inputProps: CompositionProps,
+  frame: z.number().int().min(0),
+  imageFormat: z.enum(["png", "jpeg"]).default("png"),
+  renderScale: z.number().optional(),
 });
 
 export const ProgressRequest = z.object({
   bucketName: z.string(),
   id: z.string(),
+  container: ExportContainer.optional(), // Output file extension (Cloud Run)
+});
+
+export const CancelRequest = z.object({
+  id: z.string(),
 });
 
 export type ProgressResponse =
   | { type: "error"; message: string }
+  | { type: "queued"; position: number } // Waiting for a free render slot (SSR)
   | { type: "progress"; progress: number }
   | { type: "done"; url: string; size: number };
 
@@ -365,11 +752,87 @@ export type LocalClip = {
 
 export type AspectRatio = "16:9" | "1:1" | "4:5" | "9:16" | "4:3" | "2:1" | "3:4";
 
+// Width and height of the composition, in pixels
+export type Resolution = {
+  width: number;
+  height: number;
+};
+
+// Where an overlay sits in one aspect-ratio variant of the project
+export type VariantLayout = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  rotation: number;
+  keyframes?: OverlayKeyframes; // Only keyframes of the properties above
+  objectFit?: ImageStyles["objectFit"]; // Crop of photos and videos
+  focalPoint?: FocalPoint;
+};
+
+// A version of the project at another aspect ratio. Variants share the
+// timeline; only where each overlay sits on the canvas differs.
+export type ProjectVariant = {
+  id: string;
+  aspectRatio: AspectRatio;
+  resolution?: Resolution | null; // Custom resolution; the ratio's preset size when unset
+  layouts: Record<number, VariantLayout>; // By overlay id; overlays without one are reframed
+};
+
+// The variants of a project and the one being edited. The overlays in the
+// editor hold the layout of the active variant, so its `layouts` are only
+// brought up to date when another variant is opened.
+export type ProjectVariants = {
+  activeId: string;
+  variants: ProjectVariant[];
+};
+
 export interface TimelineRow {
   id: number;
   index: number;
 }
 
+/**
+ * A timeline track. Tracks are kept in row order: the track at index n holds
+ * the overlays whose `row` is n.
+ *
+ * @property muted - Audio of the track's overlays is left out of preview and render
+ * @property solo - When any track is soloed, only soloed tracks are heard
+ * @property locked - Overlays on the track cannot be moved, trimmed or deleted
+ * @property hidden - Overlays on the track are left out of preview and render
+ */
+export interface TimelineTrack {
+  id: string;
+  name: string;
+  color: string;
+  height: number;
+  muted: boolean;
+  solo: boolean;
+  locked: boolean;
+  hidden: boolean;
+}
+
+/**
+ * How timeline edits treat the items around them
+ * - push: nothing is cut; items a moved or trimmed clip runs into move
+ *   aside on its row just far enough to make room
+ * - overwrite: items stay put; a moved or trimmed clip covers what is under it
+ * - ripple: inserting, trimming or deleting a clip moves the items after it
+ * - magnetic: edits ripple on the main track, which never has gaps, and
+ *   overwrite on the other rows
+ */
+export type TimelineEditMode = "push" | "overwrite" | "ripple" | "magnetic";
+
+/** Rows that ripple edits move: the edited row only, or every row */
+export type RippleScope = "row" | "all";
+
+/**
+ * Timeline tool for video and sound clips. "select" moves and trims as
+ * usual; slip shifts the source inside the clip, slide moves the clip
+ * between its neighbours and roll moves the cut between two adjacent clips.
+ */
+export type TrimTool = "select" | "slip" | "slide" | "roll";
+
 export interface WaveformData {
   peaks: number[];
   length: number;
@@ -411,6 +874,7 @@ export interface ImageOverlay extends BaseOverlay {
   type: OverlayType.IMAGE;
   src: string;
   content?: string; // Optional thumbnail/preview
+  focalPoint?: FocalPoint; // Kept in view when the image is cropped to fit
   styles: ImageStyles;
 }
 
@@ -0,0 +1,392 @@
+import { Easing, interpolate } from "remotion";
+import {
+  AnimationKeyframe,
+  KeyframeEasing,
+  KeyframeProperty,
+  Overlay,
+  OverlayKeyframes,
+} from "../types";
+
+/** All properties that support keyframe animation, in display order */
+export const KEYFRAME_PROPERTIES: KeyframeProperty[] = [
+  "left",
+  "top",
+  "width",
+  "height",
+  "rotation",
+  "opacity",
+  "scale",
+];
+
+export const KEYFRAME_EASINGS: KeyframeEasing[] = [
+  "linear",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+  "hold",
+];
+
+/** Values of every animatable property at a given frame */
+export type AnimatedValues = Record<KeyframeProperty, number>;
+
+const EASING_FUNCTIONS: Record<
+  Exclude<KeyframeEasing, "hold">,
+  (t: number) => number
+> = {
+  linear: Easing.linear,
+  "ease-in": Easing.in(Easing.ease),
+  "ease-out": Easing.out(Easing.ease),
+  "ease-in-out": Easing.inOut(Easing.ease),
+};
+
+export const createKeyframeId = (): string =>
+  `kf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Returns the static value of a property when it has no keyframes.
+ * Opacity and scale are multipliers applied on top of the overlay's own
+ * styles, so their neutral value is 1.
+ */
+export const getBaseValue = (
+  overlay: Overlay,
+  property: KeyframeProperty
+): number => {
+  switch (property) {
+    case "opacity":
+    case "scale":
+      return 1;
+    case "rotation":
+      return overlay.rotation || 0;
+    default:
+      return overlay[property];
+  }
+};
+
+const sortKeyframes = (keyframes: AnimationKeyframe[]) =>
+  [...keyframes].sort((a, b) => a.frame - b.frame);
+
+/**
+ * Evaluates a keyframe track at the given frame.
+ * Values are held before the first and after the last keyframe, and each
+ * segment uses the easing of the keyframe it starts from.
+ */
+export const interpolateKeyframes = (
+  keyframes: AnimationKeyframe[] | undefined,
+  frame: number,
+  fallback: number
+): number => {
+  if (!keyframes || keyframes.length === 0) return fallback;
+
+  const sorted = sortKeyframes(keyframes);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  if (frame <= first.frame) return first.value;
+  if (frame >= last.frame) return last.value;
+
+  const nextIndex = sorted.findIndex((keyframe) => keyframe.frame > frame);
+  const from = sorted[nextIndex - 1];
+  const to = sorted[nextIndex];
+
+  if (from.easing === "hold" || to.frame === from.frame) {
+    return from.value;
+  }
+
+  return interpolate(frame, [from.frame, to.frame], [from.value, to.value], {
+    easing: EASING_FUNCTIONS[from.easing] ?? Easing.linear,
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+};
+
+export const hasKeyframes = (overlay: Overlay): boolean =>
+  !!overlay.keyframes &&
+  KEYFRAME_PROPERTIES.some(
+    (property) => (overlay.keyframes?.[property]?.length ?? 0) > 0
+  );
+
+/**
+ * Computes every animatable property of an overlay at a frame relative to
+ * the overlay start (i.e. the value of `useCurrentFrame()` inside its Sequence).
+ */
+export const getAnimatedValues = (
+  overlay: Overlay,
+  frame: number
+): AnimatedValues => {
+  const values = {} as AnimatedValues;
+  for (const property of KEYFRAME_PROPERTIES) {
+    values[property] = interpolateKeyframes(
+      overlay.keyframes?.[property],
+      frame,
+      getBaseValue(overlay, property)
+    );
+  }
+  return values;
+};
+
+/**
+ * Returns a copy of the overlay with its geometry resolved at the given frame.
+ * Overlays without keyframes are returned untouched.
+ */
+export const resolveAnimatedOverlay = <T extends Overlay>(
+  overlay: T,
+  frame: number
+): T => {
+  if (!hasKeyframes(overlay)) return overlay;
+  const values = getAnimatedValues(overlay, frame);
+  return {
+    ...overlay,
+    left: values.left,
+    top: values.top,
+    width: values.width,
+    height: values.height,
+    rotation: values.rotation,
+  };
+};
+
+const withTrack = (
+  overlay: Overlay,
+  property: KeyframeProperty,
+  track: AnimationKeyframe[]
+): Overlay => {
+  const keyframes: OverlayKeyframes = { ...overlay.keyframes };
+  if (track.length > 0) {
+    keyframes[property] = sortKeyframes(track);
+  } else {
+    delete keyframes[property];
+  }
+  return {
+    ...overlay,
+    keyframes: Object.keys(keyframes).length > 0 ? keyframes : undefined,
+  };
+};
+
+/**
+ * Adds a keyframe at the given frame, or updates the value of the keyframe
+ * already sitting on that frame.
+ */
+export const upsertKeyframe = (
+  overlay: Overlay,
+  property: KeyframeProperty,
+  frame: number,
+  value: number,
+  easing?: KeyframeEasing
+): Overlay => {
+  const track = overlay.keyframes?.[property] ?? [];
+  const existing = track.find((keyframe) => keyframe.frame === frame);
+
+  if (existing) {
+    return withTrack(
+      overlay,
+      property,
+      track.map((keyframe) =>
+        keyframe.id === existing.id
+          ? { ...keyframe, value, easing: easing ?? keyframe.easing }
+          : keyframe
+      )
+    );
+  }
+
+  return withTrack(overlay, property, [
+    ...track,
+    { id: createKeyframeId(), frame, value, easing: easing ?? "linear" },
+  ]);
+};
+
+/**
+ * Adds a keyframe for every animatable property at the given frame, using the
+ * values the overlay currently has at that frame.
+ */
+export const addKeyframesAtFrame = (
+  overlay: Overlay,
+  frame: number,
+  properties: KeyframeProperty[] = KEYFRAME_PROPERTIES
+): Overlay => {
+  const values = getAnimatedValues(overlay, frame);
+  return properties.reduce(
+    (result, property) =>
+      upsertKeyframe(result, property, frame, values[property]),
+    overlay
+  );
+};
+
+export const updateKeyframe = (
+  overlay: Overlay,
+  property: KeyframeProperty,
+  keyframeId: string,
+  changes: Partial<Omit<AnimationKeyframe, "id">>
+): Overlay => {
+  const track = overlay.keyframes?.[property] ?? [];
+  const frame =
+    changes.frame !== undefined
+      ? Math.max(0, Math.min(overlay.durationInFrames - 1, changes.frame))
+      : undefined;
+
+  // Moving onto an occupied frame replaces the keyframe that was there
+  const remaining =
+    frame !== undefined
+      ? track.filter(
+          (keyframe) => keyframe.id === keyframeId || keyframe.frame !== frame
+        )
+      : track;
+
+  return withTrack(
+    overlay,
+    property,
+    remaining.map((keyframe) =>
+      keyframe.id === keyframeId
+        ? { ...keyframe, ...changes, ...(frame !== undefined && { frame }) }
+        : keyframe
+    )
+  );
+};
+
+export const removeKeyframe = (
+  overlay: Overlay,
+  property: KeyframeProperty,
+  keyframeId: string
+): Overlay =>
+  withTrack(
+    overlay,
+    property,
+    (overlay.keyframes?.[property] ?? []).filter(
+      (keyframe) => keyframe.id !== keyframeId
+    )
+  );
+
+/**
+ * Writes geometry changes made on the canvas back to an overlay.
+ * Properties that are animated get a keyframe at the current frame; static
+ * properties are written directly to the overlay.
+ */
+export const commitAnimatedChange = (
+  original: Overlay,
+  frame: number,
+  updated: Overlay
+): Overlay => {
+  if (!hasKeyframes(original)) return updated;
+
+  let result: Overlay = {
+    ...updated,
+    left: original.left,
+    top: original.top,
+    width: original.width,
+    height: original.height,
+    rotation: original.rotation,
+    keyframes: original.keyframes,
+  };
+  const current = getAnimatedValues(original, frame);
+
+  for (const property of [
+    "left",
+    "top",
+    "width",
+    "height",
+    "rotation",
+  ] as const) {
+    const value = updated[property];
+    if (value === current[property]) continue;
+
+    if (original.keyframes?.[property]?.length) {
+      result = upsertKeyframe(result, property, frame, value);
+    } else {
+      result = { ...result, [property]: value };
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Moves every keyframe by `delta` frames. Keyframes that end up outside the
+ * overlay are kept so that trimming and extending an overlay again restores
+ * the original motion.
+ */
+export const shiftKeyframes = (
+  keyframes: OverlayKeyframes | undefined,
+  delta: number
+): OverlayKeyframes | undefined => {
+  if (!keyframes || delta === 0) return keyframes;
+
+  const shifted: OverlayKeyframes = {};
+  for (const property of KEYFRAME_PROPERTIES) {
+    const track = keyframes[property];
+    if (track && track.length > 0) {
+      shifted[property] = track.map((keyframe) => ({
+        ...keyframe,
+        frame: keyframe.frame + delta,
+      }));
+    }
+  }
+  return shifted;
+};
+
+/**
+ * Splits keyframe tracks at `splitOffset` (relative to the overlay start).
+ * A keyframe holding the interpolated value is inserted on each side of the
+ * cut so that both halves keep the exact motion of the original overlay.
+ */
+export const splitKeyframes = (
+  keyframes: OverlayKeyframes | undefined,
+  splitOffset: number
+): [OverlayKeyframes | undefined, OverlayKeyframes | undefined] => {
+  if (!keyframes) return [undefined, undefined];
+
+  const first: OverlayKeyframes = {};
+  const second: OverlayKeyframes = {};
+
+  for (const property of KEYFRAME_PROPERTIES) {
+    const track = keyframes[property];
+    if (!track || track.length === 0) continue;
+
+    const sorted = sortKeyframes(track);
+    const before = sorted.filter((keyframe) => keyframe.frame < splitOffset);
+    const after = sorted.filter((keyframe) => keyframe.frame >= splitOffset);
+    const endValue = interpolateKeyframes(sorted, splitOffset - 1, 0);
+    const startValue = interpolateKeyframes(sorted, splitOffset, 0);
+    const boundaryEasing = before[before.length - 1]?.easing ?? "linear";
+
+    first[property] =
+      after.length > 0
+        ? [
+            ...before,
+            {
+              id: createKeyframeId(),
+              frame: splitOffset - 1,
+              value: endValue,
+              easing: boundaryEasing,
+            },
+          ].filter(
+            (keyframe, index, all) =>
+              all.findIndex((k) => k.frame === keyframe.frame) === index
+          )
+        : before;
+
+    second[property] = [
+      ...(before.length > 0 && after[0]?.frame !== splitOffset
+        ? [
+            {
+              id: createKeyframeId(),
+              frame: 0,
+              value: startValue,
+              easing: boundaryEasing,
+            },
+          ]
+        : []),
+      ...after.map((keyframe) => ({
+        ...keyframe,
+        id: createKeyframeId(),
+        frame: keyframe.frame - splitOffset,
+      })),
+    ];
+  }
+
+  const clean = (tracks: OverlayKeyframes) => {
+    for (const property of KEYFRAME_PROPERTIES) {
+      if (tracks[property]?.length === 0) delete tracks[property];
+    }
+    return Object.keys(tracks).length > 0 ? tracks : undefined;
+  };
+
+  return [clean(first), clean(second)];
+};
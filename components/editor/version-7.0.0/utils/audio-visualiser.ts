@@ -0,0 +1,114 @@
+import { AudioVisualiserSettings, Overlay, OverlayType, StickerOverlay } from "../types";
+import { AudioOverlay, getVolumeAtFrame } from "./volume-envelope";
+
+/** Template id of the audio visualiser sticker */
+export const AUDIO_VISUALISER_ID = "audio-visualiser";
+
+export const DEFAULT_VISUALISER: AudioVisualiserSettings = {
+  source: "mix",
+  style: "bars",
+  primaryColor: "#3B82F6",
+  secondaryColor: "#A855F7",
+};
+
+/**
+ * A clip or sound a visualiser follows, with `offset` the frames from the
+ * start of the sticker to the start of the audio
+ */
+export type VisualiserSource = {
+  overlay: AudioOverlay;
+  offset: number;
+};
+
+/**
+ * The audio a visualiser sticker follows: the sound it was pointed at, or
+ * every clip and sound that can be heard when it follows the mix. A sound
+ * is followed with every other sound of the same file, so the visualiser
+ * keeps following it after it is split.
+ */
+export const getVisualiserSources = (
+  sticker: StickerOverlay,
+  overlays: Overlay[]
+): VisualiserSource[] => {
+  const source = sticker.visualiser?.source ?? DEFAULT_VISUALISER.source;
+  const picked =
+    source === "mix" ? undefined : overlays.find((overlay) => overlay.id === source);
+
+  return overlays.flatMap((overlay) => {
+    if (overlay.type !== OverlayType.SOUND && overlay.type !== OverlayType.VIDEO) {
+      return [];
+    }
+    const isFollowed =
+      source === "mix"
+        ? (overlay.styles.volume ?? 1) !== 0
+        : overlay.id === source ||
+          (overlay.type === OverlayType.SOUND &&
+            picked?.type === OverlayType.SOUND &&
+            overlay.src === picked.src);
+    return isFollowed ? [{ overlay, offset: overlay.from - sticker.from }] : [];
+  });
+};
+
+/**
+ * Sources of every audio visualiser sticker, keyed by overlay id. Worked out
+ * from the overlays alone, so the player and the renders draw the same
+ * levels.
+ */
+export const resolveVisualiserSources = (
+  overlays: Overlay[]
+): Map<number, VisualiserSource[]> => {
+  const sources = new Map<number, VisualiserSource[]>();
+  overlays.forEach((overlay) => {
+    if (overlay.type !== OverlayType.STICKER || overlay.content !== AUDIO_VISUALISER_ID) {
+      return;
+    }
+    sources.set(overlay.id, getVisualiserSources(overlay, overlays));
+  });
+  return sources;
+};
+
+/**
+ * Frame of the source file heard at `frame` of the sticker, or null when the
+ * source isn't playing then
+ */
+export const getSourceFrame = (source: VisualiserSource, frame: number): number | null => {
+  const local = frame - source.offset;
+  if (local < 0 || local >= source.overlay.durationInFrames) return null;
+
+  const { overlay } = source;
+  return overlay.type === OverlayType.VIDEO
+    ? (overlay.videoStartTime ?? 0) + local * (overlay.speed ?? 1)
+    : (overlay.startFromSound ?? 0) + local;
+};
+
+/**
+ * How loud a source is at `frame` of the sticker, with its fades and
+ * envelope, so the visualiser settles when the sound fades out
+ */
+export const getSourceGain = (source: VisualiserSource, frame: number): number =>
+  getVolumeAtFrame(source.overlay, frame - source.offset);
+
+/**
+ * Adds up the levels of several sources, each scaled by its gain, keeping
+ * the result within `-1` and `1`
+ */
+export const mixLevels = (
+  levels: { values: number[]; gain: number }[],
+  count: number
+): number[] =>
+  Array.from({ length: count }, (_, i) =>
+    Math.max(
+      -1,
+      Math.min(
+        1,
+        levels.reduce((sum, { values, gain }) => sum + (values[i] ?? 0) * gain, 0)
+      )
+    )
+  );
+
+/**
+ * Lifts quiet frequency bands so the higher ones still move visibly; the
+ * lowest bands of speech and music are much louder than the rest
+ */
+export const scaleLevel = (level: number): number =>
+  Math.min(1, Math.sqrt(Math.max(0, level)) * 1.2);
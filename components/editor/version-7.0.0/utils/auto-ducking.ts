@@ -0,0 +1,135 @@
+import {
+  DuckingSettings,
+  FrameSpan,
+  Overlay,
+  OverlayType,
+  SoundOverlay,
+  VolumePoint,
+} from "../types";
+import { getSourceRange } from "./trim-tools";
+
+export const DEFAULT_DUCKING: Omit<DuckingSettings, "sources"> = {
+  depth: 0.7,
+  attackFrames: 8,
+  releaseFrames: 15,
+};
+
+interface SpeechDetectionOptions {
+  /** Level (0-1, normalised) above which a frame counts as speech */
+  threshold?: number;
+  /** Pauses shorter than this are bridged, so a sentence stays one span */
+  minSilenceFrames?: number;
+  /** Spans shorter than this are dropped as clicks and breaths */
+  minSpeechFrames?: number;
+}
+
+/**
+ * Finds the speech in an audio track from its level at every frame, as
+ * produced by `getAudioLevels`. Returns the spans, in frames of the track.
+ */
+export const detectSpeechSpans = (
+  levels: number[],
+  {
+    threshold = 0.15,
+    minSilenceFrames = 12,
+    minSpeechFrames = 4,
+  }: SpeechDetectionOptions = {}
+): FrameSpan[] => {
+  const spans: FrameSpan[] = [];
+  levels.forEach((level, frame) => {
+    if (level < threshold) return;
+    const last = spans[spans.length - 1];
+    if (last && frame - last.end < minSilenceFrames) {
+      last.end = frame + 1;
+    } else {
+      spans.push({ start: frame, end: frame + 1 });
+    }
+  });
+  return spans.filter((span) => span.end - span.start >= minSpeechFrames);
+};
+
+/**
+ * Speech heard from every overlay playing one of the ducking sources, in
+ * frames relative to the start of `sound`. Follows the voices as they are
+ * moved, trimmed or split, since speech is stored in source frames. Voices
+ * that can't be heard, such as those on muted tracks, duck nothing.
+ */
+export const getDuckedSpans = (sound: SoundOverlay, overlays: Overlay[]): FrameSpan[] => {
+  const speechBySrc = new Map(
+    (sound.ducking?.sources ?? []).map((source) => [source.src, source.speech])
+  );
+
+  const spans: FrameSpan[] = [];
+  overlays.forEach((voice) => {
+    if (voice.id === sound.id) return;
+    if (voice.type !== OverlayType.SOUND && voice.type !== OverlayType.VIDEO) return;
+    if ((voice.styles.volume ?? 1) === 0) return;
+    const speech = speechBySrc.get(voice.src);
+    if (!speech) return;
+
+    const range = getSourceRange(voice);
+    const speed = (range.end - range.start) / voice.durationInFrames || 1;
+    speech.forEach((span) => {
+      const start = Math.max(span.start, range.start);
+      const end = Math.min(span.end, range.end);
+      if (end <= start) return;
+      const offset = voice.from - sound.from;
+      spans.push({
+        start: offset + (start - range.start) / speed,
+        end: offset + (end - range.start) / speed,
+      });
+    });
+  });
+  return spans.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Volume envelope that lowers a sound by `depth` over each span: it ramps
+ * down over the attack so the level is already low when speech starts, and
+ * back up over the release once it ends. Spans whose ramps would overlap are
+ * merged so the sound doesn't pump between close phrases.
+ */
+export const buildDuckingEnvelope = (
+  spans: FrameSpan[],
+  { depth, attackFrames, releaseFrames }: Omit<DuckingSettings, "sources">
+): VolumePoint[] => {
+  const ducked = Math.min(1, Math.max(0, 1 - depth));
+  if (spans.length === 0 || ducked === 1) return [];
+
+  const merged: FrameSpan[] = [];
+  [...spans]
+    .sort((a, b) => a.start - b.start)
+    .forEach((span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start - attackFrames <= last.end + releaseFrames) {
+        last.end = Math.max(last.end, span.end);
+      } else {
+        merged.push({ ...span });
+      }
+    });
+
+  return merged.flatMap((span) => [
+    { frame: span.start - attackFrames, gain: 1 },
+    { frame: span.start, gain: ducked },
+    { frame: span.end, gain: ducked },
+    { frame: span.end + releaseFrames, gain: 1 },
+  ]);
+};
+
+/**
+ * Ducking envelopes for every sound with ducking set, keyed by overlay id.
+ * Worked out from the overlays alone, so the player and the renders lower
+ * the music at exactly the same frames.
+ */
+export const resolveDucking = (overlays: Overlay[]): Map<number, VolumePoint[]> => {
+  const envelopes = new Map<number, VolumePoint[]>();
+  overlays.forEach((overlay) => {
+    if (overlay.type !== OverlayType.SOUND || !overlay.ducking?.sources.length) return;
+    const envelope = buildDuckingEnvelope(
+      getDuckedSpans(overlay, overlays),
+      overlay.ducking
+    );
+    if (envelope.length > 0) envelopes.set(overlay.id, envelope);
+  });
+  return envelopes;
+};
@@ -0,0 +1,225 @@
+import { Caption, CaptionOverlay, Overlay, OverlayType } from "../types";
+import { FPS } from "../constants";
+
+export type CaptionExportFormat = "srt" | "vtt" | "json";
+
+export const CAPTION_EXPORT_FORMATS: CaptionExportFormat[] = ["srt", "vtt", "json"];
+
+const MIME_TYPES: Record<CaptionExportFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  json: "application/json",
+};
+
+/**
+ * Stretch caption + word timings so they span the entire overlay duration with
+ * no gaps. Preserves relative pacing where possible, but guarantees that some
+ * caption (and word) is always on-screen as long as the overlay is visible.
+ */
+export const buildStretchedCaptions = (
+  captions: Caption[],
+  overlayDurationMs: number
+): Caption[] => {
+  if (captions.length === 0 || overlayDurationMs <= 0) return [];
+
+  const naturalStart = captions[0].startMs;
+  const naturalEnd = captions[captions.length - 1].endMs;
+  const naturalDuration = Math.max(naturalEnd - naturalStart, 1);
+  const stretch = overlayDurationMs / naturalDuration;
+  const remap = (ms: number) => (ms - naturalStart) * stretch;
+
+  const remapped: Caption[] = captions.map((c) => ({
+    ...c,
+    startMs: remap(c.startMs),
+    endMs: remap(c.endMs),
+    words:
+      c.words?.map((w) => ({
+        ...w,
+        startMs: remap(w.startMs),
+        endMs: remap(w.endMs),
+      })) ?? [],
+  }));
+
+  // Close gaps so a caption (and a word inside it) is always visible.
+  for (let i = 0; i < remapped.length; i++) {
+    const c = remapped[i];
+    const next = remapped[i + 1];
+    if (i === 0) c.startMs = 0;
+    c.endMs = next ? next.startMs : overlayDurationMs;
+
+    if (c.words.length > 0) {
+      c.words[0].startMs = c.startMs;
+      c.words[c.words.length - 1].endMs = c.endMs;
+      for (let j = 0; j < c.words.length - 1; j++) {
+        c.words[j].endMs = c.words[j + 1].startMs;
+      }
+    }
+  }
+
+  return remapped;
+};
+
+/**
+ * Returns the captions of an overlay as viewers see them: stretched over the
+ * overlay duration and shifted to the overlay's position on the timeline.
+ * Times are rounded to whole milliseconds.
+ */
+export const getTimelineCaptions = (
+  overlay: CaptionOverlay,
+  fps: number = FPS
+): Caption[] => {
+  const offsetMs = (overlay.from / fps) * 1000;
+  const durationMs = (overlay.durationInFrames / fps) * 1000;
+  const shift = (ms: number) => Math.round(ms + offsetMs);
+
+  return buildStretchedCaptions(overlay.captions, durationMs).map((caption) => ({
+    ...caption,
+    startMs: shift(caption.startMs),
+    endMs: shift(caption.endMs),
+    words: caption.words.map((word) => ({
+      ...word,
+      startMs: shift(word.startMs),
+      endMs: shift(word.endMs),
+    })),
+  }));
+};
+
+/**
+ * Collects the captions of every caption overlay on the timeline, in
+ * playback order
+ */
+export const collectTimelineCaptions = (
+  overlays: Overlay[],
+  fps: number = FPS
+): Caption[] =>
+  overlays
+    .filter((overlay): overlay is CaptionOverlay => overlay.type === OverlayType.CAPTION)
+    .flatMap((overlay) => getTimelineCaptions(overlay, fps))
+    .filter((caption) => caption.endMs > caption.startMs)
+    .sort((a, b) => a.startMs - b.startMs);
+
+/**
+ * Formats milliseconds as hh:mm:ss,mmm (SRT) or hh:mm:ss.mmm (WebVTT)
+ */
+export const formatTimestamp = (ms: number, format: "srt" | "vtt"): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${
+    format === "srt" ? "," : "."
+  }${pad(millis, 3)}`;
+};
+
+/**
+ * Writes captions as SubRip cues
+ */
+export const toSrt = (captions: Caption[]): string =>
+  captions
+    .map(
+      (caption, index) =>
+        `${index + 1}\n${formatTimestamp(caption.startMs, "srt")} --> ${formatTimestamp(
+          caption.endMs,
+          "srt"
+        )}\n${caption.text}\n`
+    )
+    .join("\n");
+
+/**
+ * Writes captions as WebVTT cues. Word timings are kept as inline
+ * timestamps, which players use for karaoke-style highlighting and which the
+ * subtitle importer reads back as word timings.
+ */
+export const toVtt = (captions: Caption[]): string => {
+  const cues = captions.map((caption) => {
+    const text =
+      caption.words.length > 1
+        ? caption.words
+            .map((word, index) =>
+              index === 0
+                ? word.word
+                : `<${formatTimestamp(word.startMs, "vtt")}>${word.word}`
+            )
+            .join(" ")
+        : caption.text;
+
+    return `${formatTimestamp(caption.startMs, "vtt")} --> ${formatTimestamp(
+      caption.endMs,
+      "vtt"
+    )}\n${text}\n`;
+  });
+
+  return ["WEBVTT\n", ...cues].join("\n");
+};
+
+/**
+ * Writes a word-level JSON sidecar. `words` uses seconds, the same shape the
+ * captions panel imports; `captions` keeps the grouping in milliseconds.
+ */
+export const toWordJson = (captions: Caption[]): string =>
+  JSON.stringify(
+    {
+      words: captions.flatMap((caption) =>
+        caption.words.map((word) => ({
+          word: word.word,
+          start: word.startMs / 1000,
+          end: word.endMs / 1000,
+          confidence: word.confidence,
+        }))
+      ),
+      captions: captions.map((caption) => ({
+        text: caption.text,
+        startMs: caption.startMs,
+        endMs: caption.endMs,
+        words: caption.words.map(({ word, startMs, endMs }) => ({
+          word,
+          startMs,
+          endMs,
+        })),
+      })),
+    },
+    null,
+    2
+  );
+
+/**
+ * Serializes captions in the requested format
+ */
+export const serializeCaptions = (
+  captions: Caption[],
+  format: CaptionExportFormat
+): string => {
+  switch (format) {
+    case "srt":
+      return toSrt(captions);
+    case "vtt":
+      return toVtt(captions);
+    case "json":
+      return toWordJson(captions);
+  }
+};
+
+/**
+ * Saves serialized captions through a temporary download link
+ */
+export const downloadCaptions = (
+  captions: Caption[],
+  format: CaptionExportFormat,
+  baseName = "captions"
+) => {
+  const blob = new Blob([serializeCaptions(captions, format)], {
+    type: `${MIME_TYPES[format]};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${baseName}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
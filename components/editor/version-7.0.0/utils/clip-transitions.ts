@@ -0,0 +1,387 @@
+import React from "react";
+import { interpolate } from "remotion";
+import {
+  ClipOverlay,
+  ClipTransition,
+  ClipTransitionType,
+  Overlay,
+  OverlayType,
+} from "../types";
+import { TRANSITION_CONFIG } from "../constants";
+import { shiftKeyframes } from "./animation-keyframes";
+import { shiftVolumeEnvelope } from "./volume-envelope";
+
+export const CLIP_TRANSITION_TYPES: ClipTransitionType[] = [
+  "crossfade",
+  "dip-to-black",
+  "wipe",
+  "slide",
+  "zoom",
+];
+
+/** A cut between two clips that touch on the same row */
+export type ClipBoundary = {
+  row: number;
+  frame: number;
+  outgoing: ClipOverlay;
+  incoming: ClipOverlay;
+};
+
+/** Part of a transition seen from one of the two clips, in frames relative to the clip */
+export type TransitionWindow = {
+  type: ClipTransitionType;
+  role: "in" | "out";
+  startFrame: number;
+  durationInFrames: number;
+};
+
+const isClip = (overlay: Overlay): overlay is ClipOverlay =>
+  overlay.type === OverlayType.VIDEO;
+
+/**
+ * Finds the clip that starts exactly where `clip` ends on the same row
+ */
+export const findNextAdjacentClip = (
+  overlays: Overlay[],
+  clip: Overlay
+): ClipOverlay | undefined =>
+  overlays.find(
+    (overlay): overlay is ClipOverlay =>
+      isClip(overlay) &&
+      overlay.id !== clip.id &&
+      overlay.row === clip.row &&
+      overlay.from === clip.from + clip.durationInFrames
+  );
+
+/**
+ * Lists every cut between two adjacent clips, sorted by row then frame
+ */
+export const getClipBoundaries = (overlays: Overlay[]): ClipBoundary[] => {
+  const boundaries: ClipBoundary[] = [];
+
+  for (const overlay of overlays) {
+    if (!isClip(overlay)) continue;
+    const incoming = findNextAdjacentClip(overlays, overlay);
+    if (incoming) {
+      boundaries.push({
+        row: overlay.row,
+        frame: incoming.from,
+        outgoing: overlay,
+        incoming,
+      });
+    }
+  }
+
+  return boundaries.sort((a, b) => a.row - b.row || a.frame - b.frame);
+};
+
+/** Frames of media a clip has before its start, at its playback speed */
+const getHeadHandle = (clip: Overlay): number =>
+  isClip(clip) ? Math.floor((clip.videoStartTime || 0) / (clip.speed ?? 1)) : 0;
+
+/**
+ * Frames of media a clip has after its end, at its playback speed. Unlimited
+ * when the length of the source is unknown.
+ */
+const getTailHandle = (clip: Overlay): number => {
+  if (!isClip(clip)) return 0;
+  if (clip.mediaDurationInFrames === undefined) return Infinity;
+  const remaining =
+    (clip.mediaDurationInFrames - (clip.videoStartTime || 0)) / (clip.speed ?? 1);
+  return Math.max(0, Math.floor(remaining) - clip.durationInFrames);
+};
+
+/**
+ * Longest transition that fits on a cut. It is no longer than either clip,
+ * and as both clips play during it, it uses no more frames than the outgoing
+ * clip has after its end plus the incoming clip has before its start.
+ * Returns 0 when that is too short for any transition.
+ */
+export const getMaxTransitionDuration = (
+  outgoing: Overlay,
+  incoming: Overlay
+): number => {
+  const max = Math.min(
+    outgoing.durationInFrames,
+    incoming.durationInFrames,
+    getTailHandle(outgoing) + getHeadHandle(incoming)
+  );
+  return max < TRANSITION_CONFIG.minDurationInFrames ? 0 : max;
+};
+
+/** Clamps a transition to fit its cut, or returns 0 when none fits */
+export const clampTransitionDuration = (
+  durationInFrames: number,
+  outgoing: Overlay,
+  incoming: Overlay
+): number => {
+  const max = getMaxTransitionDuration(outgoing, incoming);
+  return max === 0
+    ? 0
+    : Math.round(
+        Math.max(TRANSITION_CONFIG.minDurationInFrames, Math.min(durationInFrames, max))
+      );
+};
+
+/**
+ * How a transition sits around its cut: `before` frames of the incoming clip
+ * play before the cut and `after` frames of the outgoing clip after it. The
+ * cut is in the middle unless one clip is short of media on that side.
+ */
+export const splitTransition = (
+  durationInFrames: number,
+  outgoing: Overlay,
+  incoming: Overlay
+): { before: number; after: number } => {
+  const before = Math.max(
+    durationInFrames - getTailHandle(outgoing),
+    Math.min(Math.floor(durationInFrames / 2), getHeadHandle(incoming))
+  );
+  return { before, after: durationInFrames - before };
+};
+
+/**
+ * Finds the cut on `row` closest to `frame`, within the drop threshold
+ */
+export const findBoundaryNear = (
+  overlays: Overlay[],
+  row: number,
+  frame: number,
+  threshold: number = TRANSITION_CONFIG.dropThresholdFrames
+): ClipBoundary | undefined => {
+  let best: ClipBoundary | undefined;
+  for (const boundary of getClipBoundaries(overlays)) {
+    if (boundary.row !== row) continue;
+    const distance = Math.abs(boundary.frame - frame);
+    if (distance <= threshold && (!best || distance < Math.abs(best.frame - frame))) {
+      best = boundary;
+    }
+  }
+  return best;
+};
+
+/**
+ * Removes transitions whose cut no longer exists or no longer has room for
+ * them, and clamps the others to fit their cut. Returns the same array when nothing changed.
+ */
+export const sanitizeTransitions = (overlays: Overlay[]): Overlay[] => {
+  let changed = false;
+
+  const result = overlays.map((overlay) => {
+    if (!isClip(overlay) || !overlay.transition) return overlay;
+
+    const incoming = findNextAdjacentClip(overlays, overlay);
+    const durationInFrames = incoming
+      ? clampTransitionDuration(overlay.transition.durationInFrames, overlay, incoming)
+      : 0;
+    if (durationInFrames === 0) {
+      changed = true;
+      return { ...overlay, transition: undefined };
+    }
+    if (durationInFrames !== overlay.transition.durationInFrames) {
+      changed = true;
+      return {
+        ...overlay,
+        transition: { ...overlay.transition, durationInFrames },
+      };
+    }
+
+    return overlay;
+  });
+
+  return changed ? result : overlays;
+};
+
+/**
+ * Prepares overlays for rendering transitions as overlaps.
+ *
+ * Timeline clips only touch at the cut, so for each transition the outgoing
+ * clip is extended past the cut and the incoming clip starts before it, as
+ * `splitTransition` lays out, never past the media they have. Source offsets and keyframes are adjusted so
+ * that the content outside the transition stays where it was.
+ */
+export const buildTransitionLayers = (
+  overlays: Overlay[]
+): { overlays: Overlay[]; windows: Map<number, TransitionWindow[]> } => {
+  const windows = new Map<number, TransitionWindow[]>();
+  const adjustments = new Map<number, { head: number; tail: number }>();
+
+  const addWindow = (id: number, window: TransitionWindow) => {
+    windows.set(id, [...(windows.get(id) ?? []), window]);
+  };
+  const adjust = (id: number, change: { head?: number; tail?: number }) => {
+    const current = adjustments.get(id) ?? { head: 0, tail: 0 };
+    adjustments.set(id, {
+      head: current.head + (change.head ?? 0),
+      tail: current.tail + (change.tail ?? 0),
+    });
+  };
+
+  for (const { outgoing, incoming } of getClipBoundaries(overlays)) {
+    if (!outgoing.transition) continue;
+
+    const duration = clampTransitionDuration(
+      outgoing.transition.durationInFrames,
+      outgoing,
+      incoming
+    );
+    if (duration === 0) continue;
+    const { before, after } = splitTransition(duration, outgoing, incoming);
+
+    adjust(outgoing.id, { tail: after });
+    adjust(incoming.id, { head: before });
+    addWindow(outgoing.id, {
+      type: outgoing.transition.type,
+      role: "out",
+      startFrame: outgoing.durationInFrames - before,
+      durationInFrames: duration,
+    });
+    addWindow(incoming.id, {
+      type: outgoing.transition.type,
+      role: "in",
+      startFrame: 0,
+      durationInFrames: duration,
+    });
+  }
+
+  if (adjustments.size === 0) {
+    return { overlays, windows };
+  }
+
+  const adjusted = overlays.map((overlay) => {
+    const change = adjustments.get(overlay.id);
+    if (!change || !isClip(overlay)) return overlay;
+
+    // Out windows were computed from the original start; move them by the
+    // frames added at the head for a transition on the clip's other cut
+    windows.set(
+      overlay.id,
+      (windows.get(overlay.id) ?? []).map((window) =>
+        window.role === "out"
+          ? { ...window, startFrame: window.startFrame + change.head }
+          : window
+      )
+    );
+
+    return {
+      ...overlay,
+      from: overlay.from - change.head,
+      durationInFrames: overlay.durationInFrames + change.head + change.tail,
+      videoStartTime: Math.max(
+        0,
+        (overlay.videoStartTime || 0) - change.head * (overlay.speed ?? 1)
+      ),
+      keyframes: shiftKeyframes(overlay.keyframes, change.head),
+      // The volume envelope and the fade-in stay on the same source frames
+      styles:
+        change.head > 0
+          ? {
+              ...overlay.styles,
+              volumeEnvelope: shiftVolumeEnvelope(
+                overlay.styles.volumeEnvelope,
+                change.head
+              ),
+              fadeInDelayFrames: (overlay.styles.fadeInDelayFrames ?? 0) + change.head,
+            }
+          : overlay.styles,
+    };
+  });
+
+  return { overlays: adjusted, windows };
+};
+
+/**
+ * Style applied to one side of a transition.
+ * `progress` goes from 0 to 1 over the transition.
+ */
+export const getTransitionStyle = (
+  type: ClipTransitionType,
+  role: "in" | "out",
+  progress: number
+): React.CSSProperties => {
+  const p = Math.max(0, Math.min(1, progress));
+  const isIn = role === "in";
+
+  switch (type) {
+    case "crossfade":
+      return isIn ? { opacity: p } : {};
+    case "dip-to-black": {
+      // First half darkens the outgoing clip, second half brightens the incoming one
+      const brightness = isIn
+        ? interpolate(p, [0.5, 1], [0, 1], { extrapolateLeft: "clamp" })
+        : interpolate(p, [0, 0.5], [1, 0], { extrapolateRight: "clamp" });
+      return {
+        filter: `brightness(${brightness})`,
+        opacity: isIn ? (p >= 0.5 ? 1 : 0) : p < 0.5 ? 1 : 0,
+      };
+    }
+    case "wipe":
+      return isIn ? { clipPath: `inset(0 ${(1 - p) * 100}% 0 0)` } : {};
+    case "slide":
+      return {
+        transform: isIn
+          ? `translateX(${(1 - p) * 100}%)`
+          : `translateX(${-p * 100}%)`,
+      };
+    case "zoom":
+      return isIn
+        ? { opacity: p, transform: `scale(${1.2 - 0.2 * p})` }
+        : { transform: `scale(${1 + 0.2 * p})` };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Combines the transition windows of a layer into a style for the given frame
+ * (relative to the layer start). Returns null outside of any transition.
+ * The incoming side is raised one step above `zIndex` so it covers the
+ * outgoing clip on the same row.
+ */
+export const getTransitionStyleAtFrame = (
+  windows: TransitionWindow[] | undefined,
+  frame: number,
+  zIndex: number
+): React.CSSProperties | null => {
+  if (!windows) return null;
+
+  const active = windows.find(
+    (window) =>
+      frame >= window.startFrame &&
+      frame < window.startFrame + window.durationInFrames
+  );
+  if (!active) return null;
+
+  const progress =
+    (frame - active.startFrame + 1) / (active.durationInFrames + 1);
+  return {
+    ...getTransitionStyle(active.type, active.role, progress),
+    ...(active.role === "in" && { zIndex: zIndex + 1 }),
+  };
+};
+
+/**
+ * Attaches a transition to the cut after `outgoingId`, clamped to fit both
+ * clips. Leaves the clip as it is when no transition fits the cut.
+ */
+export const applyTransition = (
+  overlays: Overlay[],
+  outgoingId: number,
+  transition: ClipTransition | undefined
+): Overlay[] =>
+  overlays.map((overlay) => {
+    if (overlay.id !== outgoingId || !isClip(overlay)) return overlay;
+    if (!transition) return { ...overlay, transition: undefined };
+
+    const incoming = findNextAdjacentClip(overlays, overlay);
+    if (!incoming) return overlay;
+
+    const durationInFrames = clampTransitionDuration(
+      transition.durationInFrames,
+      overlay,
+      incoming
+    );
+    if (durationInFrames === 0) return overlay;
+
+    return { ...overlay, transition: { ...transition, durationInFrames } };
+  });
@@ -0,0 +1,265 @@
+import { Overlay, OverlayType } from "../types";
+import { getOverlaySource } from "./media-relink";
+
+/** One record of a dataset, keyed by column name */
+export type MergeRow = Record<string, string>;
+
+/** Rows loaded from a CSV or JSON file, one video per row */
+export type MergeDataset = {
+  name: string;
+  columns: string[];
+  rows: MergeRow[];
+};
+
+/** A media URL of a row that cannot be used */
+export type MergeRowIssue = {
+  rowIndex: number;
+  overlayId: number;
+  url: string;
+  reason: "empty" | "unreachable";
+};
+
+/** Outcome of one row of a batch render */
+export type MergeRenderResult = {
+  rowIndex: number;
+  status: "done" | "error" | "skipped";
+  url?: string;
+  error?: string;
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Whether a text or URL refers to any `{{variable}}` */
+export const hasMergeVariables = (value?: string | null): boolean =>
+  !!value && /\{\{\s*[^{}]+?\s*\}\}/.test(value);
+
+/** Variables referred to by a text or URL, in order of appearance */
+export const getVariablesInText = (value: string): string[] =>
+  Array.from(value.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+
+/** Fills every `{{variable}}` of a text from a row; unknown ones become empty */
+export const fillVariables = (value: string, row: MergeRow): string =>
+  value.replace(VARIABLE_PATTERN, (_, name: string) => row[name] ?? "");
+
+/**
+ * The fields of an overlay that can hold variables: the text of text
+ * overlays, and the file of videos, images and sounds
+ */
+const getMergeFields = (overlay: Overlay): string[] => {
+  switch (overlay.type) {
+    case OverlayType.TEXT:
+      return [overlay.content];
+    case OverlayType.VIDEO:
+    case OverlayType.IMAGE:
+    case OverlayType.SOUND:
+      return [overlay.src, overlay.content ?? ""];
+    default:
+      return [];
+  }
+};
+
+/** Every variable the project refers to, each listed once */
+export const getMergeVariables = (overlays: Overlay[]): string[] =>
+  Array.from(
+    new Set(overlays.flatMap((overlay) => getMergeFields(overlay).flatMap(getVariablesInText)))
+  );
+
+/**
+ * The project as it looks for one row: texts and media files have their
+ * variables filled in, everything else is left as it is
+ */
+export const mergeOverlays = (overlays: Overlay[], row: MergeRow): Overlay[] =>
+  overlays.map((overlay) => {
+    switch (overlay.type) {
+      case OverlayType.TEXT:
+        return hasMergeVariables(overlay.content)
+          ? { ...overlay, content: fillVariables(overlay.content, row) }
+          : overlay;
+      case OverlayType.VIDEO:
+      case OverlayType.IMAGE:
+      case OverlayType.SOUND: {
+        if (!hasMergeVariables(overlay.src) && !hasMergeVariables(overlay.content)) {
+          return overlay;
+        }
+        const src = fillVariables(overlay.src, row);
+        // A thumbnail bound to the same variable as the file follows it
+        const content =
+          overlay.content === overlay.src
+            ? src
+            : overlay.content && fillVariables(overlay.content, row);
+        return { ...overlay, src, content } as Overlay;
+      }
+      default:
+        return overlay;
+    }
+  });
+
+/**
+ * Media files of one row, for the overlays whose file comes from a variable
+ */
+export const getRowMediaUrls = (
+  overlays: Overlay[],
+  row: MergeRow
+): { overlayId: number; url: string }[] =>
+  overlays.flatMap((overlay) => {
+    const src = getOverlaySource(overlay);
+    if (!src || !hasMergeVariables(src)) return [];
+    return [{ overlayId: overlay.id, url: fillVariables(src, row).trim() }];
+  });
+
+/**
+ * Checks the media of every row. Each distinct URL is checked once, a few
+ * at a time.
+ */
+export const validateMergeRows = async (
+  overlays: Overlay[],
+  rows: MergeRow[],
+  checkUrl: (url: string) => Promise<boolean>,
+  concurrency = 6
+): Promise<MergeRowIssue[]> => {
+  const media = rows.flatMap((row, rowIndex) =>
+    getRowMediaUrls(overlays, row).map((item) => ({ ...item, rowIndex }))
+  );
+
+  const urls = Array.from(new Set(media.map((item) => item.url).filter(Boolean)));
+  const reachable = new Map<string, boolean>();
+  for (let start = 0; start < urls.length; start += concurrency) {
+    await Promise.all(
+      urls.slice(start, start + concurrency).map(async (url) => {
+        reachable.set(url, await checkUrl(url).catch(() => false));
+      })
+    );
+  }
+
+  return media.flatMap((item): MergeRowIssue[] => {
+    if (!item.url) return [{ ...item, reason: "empty" }];
+    return reachable.get(item.url) ? [] : [{ ...item, reason: "unreachable" }];
+  });
+};
+
+/**
+ * Splits CSV text into records. Handles quoted fields with commas, line
+ * breaks and doubled quotes; the delimiter is a comma, semicolon or tab,
+ * whichever the header uses most.
+ */
+const parseCsv = (text: string): string[][] => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+
+  // Blank lines carry no row
+  return records.filter((item) => item.some((value) => value.trim() !== ""));
+};
+
+/**
+ * Reads a dataset from the text of a CSV file, or of a JSON file holding an
+ * array of flat objects. Throws when the file has no usable rows.
+ */
+export const parseMergeDataset = (text: string, name: string): MergeDataset => {
+  const content = text.replace(/^\uFEFF/, "").trim();
+
+  if (name.toLowerCase().endsWith(".json") || content.startsWith("[")) {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data) || data.some((item) => !item || typeof item !== "object")) {
+      throw new Error("The JSON file must hold an array of objects");
+    }
+    const columns = Array.from(new Set(data.flatMap((item) => Object.keys(item))));
+    const rows = data.map((item) =>
+      Object.fromEntries(
+        columns.map((column) => [
+          column,
+          item[column] === undefined || item[column] === null ? "" : String(item[column]),
+        ])
+      )
+    );
+    if (rows.length === 0) throw new Error("The file has no rows");
+    return { name, columns, rows };
+  }
+
+  const [header, ...records] = parseCsv(content);
+  if (!header || records.length === 0) {
+    throw new Error("The file needs a header line and at least one row");
+  }
+  const columns = header.map((column) => column.trim());
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column, index) => [column, record[index]?.trim() ?? ""]))
+  );
+  return { name, columns, rows };
+};
+
+const toCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Manifest of a batch render: every row of the dataset with the status and
+ * URL of its video
+ */
+export const buildMergeManifest = (
+  dataset: MergeDataset,
+  results: MergeRenderResult[],
+  format: "csv" | "json"
+): string => {
+  const entries = dataset.rows.map((row, rowIndex) => {
+    const result = results.find((item) => item.rowIndex === rowIndex);
+    return {
+      row: rowIndex + 1,
+      status: result?.status ?? "skipped",
+      url: result?.url ?? "",
+      error: result?.error ?? "",
+      data: row,
+    };
+  });
+
+  if (format === "json") {
+    return JSON.stringify(entries, null, 2);
+  }
+
+  const header = ["row", "status", "url", "error", ...dataset.columns];
+  const lines = entries.map((entry) =>
+    [
+      String(entry.row),
+      entry.status,
+      entry.url,
+      entry.error,
+      ...dataset.columns.map((column) => entry.data[column] ?? ""),
+    ]
+      .map(toCsvField)
+      .join(",")
+  );
+  return [header.map(toCsvField).join(","), ...lines].join("\n");
+};
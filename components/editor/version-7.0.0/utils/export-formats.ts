@@ -0,0 +1,253 @@
+import { z } from "zod";
+import { ExportCodec, ExportContainer, Overlay, RenderRequest } from "../types";
+
+/**
+ * Containers each codec can be written to. The first one is the default.
+ */
+export const CODEC_CONTAINERS: Record<ExportCodec, ExportContainer[]> = {
+  h264: ["mp4", "mov", "mkv"],
+  vp8: ["webm", "mkv"],
+  vp9: ["webm", "mkv"],
+  prores: ["mov", "mkv"],
+  gif: ["gif"],
+  mp3: ["mp3"],
+  aac: ["aac"],
+  wav: ["wav"],
+};
+
+/** Valid CRF range per codec; codecs without one ignore the setting */
+export const CODEC_CRF_RANGES: Partial<Record<ExportCodec, [number, number]>> = {
+  h264: [1, 51],
+  vp8: [4, 63],
+  vp9: [1, 63],
+};
+
+const AUDIO_ONLY_CODECS: ExportCodec[] = ["mp3", "aac", "wav"];
+
+export const isAudioOnlyCodec = (codec: ExportCodec) =>
+  AUDIO_ONLY_CODECS.includes(codec);
+
+/** Codecs whose audio track has a configurable bitrate */
+export const codecSupportsAudioBitrate = (codec: ExportCodec) =>
+  codec !== "gif" && codec !== "wav";
+
+/** GIFs keep every second frame, which halves their size */
+const GIF_EVERY_NTH_FRAME = 2;
+
+/**
+ * Export options of a render request
+ */
+export type ExportSettings = Pick<
+  z.infer<typeof RenderRequest>,
+  "codec" | "container" | "crf" | "audioBitrate" | "frameRange"
+>;
+
+/** First and last frame (inclusive) of an export, as Remotion's `frameRange` */
+export type FrameRange = [number, number];
+
+export type ExportPresetId =
+  | "mp4"
+  | "mp4-high"
+  | "prores"
+  | "webm"
+  | "gif"
+  | "mp3"
+  | "wav";
+
+/**
+ * A ready-made combination of export settings. `labelKey` and
+ * `descriptionKey` are translation keys.
+ */
+export type ExportPreset = {
+  id: ExportPresetId;
+  labelKey: string;
+  descriptionKey: string;
+  settings: ExportSettings;
+};
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: "mp4",
+    labelKey: "export.preset.mp4",
+    descriptionKey: "export.preset.mp4Description",
+    settings: { codec: "h264", container: "mp4" },
+  },
+  {
+    id: "mp4-high",
+    labelKey: "export.preset.mp4High",
+    descriptionKey: "export.preset.mp4HighDescription",
+    settings: { codec: "h264", container: "mp4", crf: 18, audioBitrate: "320k" },
+  },
+  {
+    id: "prores",
+    labelKey: "export.preset.prores",
+    descriptionKey: "export.preset.proresDescription",
+    settings: { codec: "prores", container: "mov" },
+  },
+  {
+    id: "webm",
+    labelKey: "export.preset.webm",
+    descriptionKey: "export.preset.webmDescription",
+    settings: { codec: "vp9", container: "webm", crf: 32, audioBitrate: "128k" },
+  },
+  {
+    id: "gif",
+    labelKey: "export.preset.gif",
+    descriptionKey: "export.preset.gifDescription",
+    settings: { codec: "gif", container: "gif" },
+  },
+  {
+    id: "mp3",
+    labelKey: "export.preset.mp3",
+    descriptionKey: "export.preset.mp3Description",
+    settings: { codec: "mp3", container: "mp3", audioBitrate: "320k" },
+  },
+  {
+    id: "wav",
+    labelKey: "export.preset.wav",
+    descriptionKey: "export.preset.wavDescription",
+    settings: { codec: "wav", container: "wav" },
+  },
+];
+
+export const getExportPreset = (id: ExportPresetId): ExportPreset =>
+  EXPORT_PRESETS.find((preset) => preset.id === id) ?? EXPORT_PRESETS[0];
+
+/**
+ * Container the settings are written to: the requested one, or the default
+ * container of the codec
+ */
+export const getExportContainer = (settings: ExportSettings): ExportContainer =>
+  settings.container ?? CODEC_CONTAINERS[settings.codec ?? "h264"][0];
+
+/**
+ * Checks that the settings fit together, returning an error message when
+ * they do not
+ */
+export const validateExportSettings = (settings: ExportSettings): string | null => {
+  const codec = settings.codec ?? "h264";
+
+  if (settings.container && !CODEC_CONTAINERS[codec].includes(settings.container)) {
+    return `The ${codec} codec cannot be written to a .${settings.container} file`;
+  }
+
+  const crfRange = CODEC_CRF_RANGES[codec];
+  if (settings.crf !== undefined && !crfRange) {
+    return `The ${codec} codec does not support CRF`;
+  }
+  if (
+    settings.crf !== undefined &&
+    crfRange &&
+    (settings.crf < crfRange[0] || settings.crf > crfRange[1])
+  ) {
+    return `CRF for ${codec} must be between ${crfRange[0]} and ${crfRange[1]}`;
+  }
+
+  if (settings.audioBitrate && !codecSupportsAudioBitrate(codec)) {
+    return `The ${codec} codec does not support an audio bitrate`;
+  }
+
+  return null;
+};
+
+/**
+ * Turns export settings into the encoding options shared by `renderMedia`,
+ * `renderMediaOnLambda` and `renderMediaOnCloudrun`. Each render path passes
+ * its own defaults, used when the settings leave the quality open. Frame
+ * ranges running past the end are cut at the last frame.
+ *
+ * @throws Error if the settings do not fit together
+ */
+export const getEncodingOptions = (
+  settings: ExportSettings,
+  defaults: {
+    crf: number;
+    x264Preset: "ultrafast" | "veryfast" | "medium";
+    durationInFrames: number;
+  }
+) => {
+  const error = validateExportSettings(settings);
+  if (error) throw new Error(error);
+
+  const lastFrame = defaults.durationInFrames - 1;
+  if (settings.frameRange && settings.frameRange[0] > lastFrame) {
+    throw new Error(
+      `Frame range starts at ${settings.frameRange[0]}, after the last frame (${lastFrame})`
+    );
+  }
+
+  const codec = settings.codec ?? "h264";
+  const container = getExportContainer(settings);
+  const isGif = codec === "gif";
+
+  return {
+    codec,
+    container,
+    fileName: `video.${container}`,
+    crf: CODEC_CRF_RANGES[codec]
+      ? settings.crf ?? (codec === "h264" ? defaults.crf : undefined)
+      : undefined,
+    x264Preset: codec === "h264" ? defaults.x264Preset : undefined,
+    audioBitrate: settings.audioBitrate,
+    proResProfile: codec === "prores" ? ("hq" as const) : undefined,
+    // Masters are captured lossless; everything else uses the faster JPEG
+    imageFormat: codec === "prores" ? ("png" as const) : ("jpeg" as const),
+    everyNthFrame: isGif ? GIF_EVERY_NTH_FRAME : 1,
+    numberOfGifLoops: isGif ? 0 : undefined, // 0 = loop forever
+    frameRange: settings.frameRange
+      ? ([
+          settings.frameRange[0],
+          Math.min(settings.frameRange[1], lastFrame),
+        ] as FrameRange)
+      : undefined,
+  };
+};
+
+/**
+ * Range between the timeline's in and out points. A missing in point starts
+ * at the first frame and a missing out point ends at the last one; without
+ * either point there is no range.
+ */
+export const getInOutFrameRange = (
+  inPoint: number | null,
+  outPoint: number | null,
+  durationInFrames: number
+): FrameRange | null => {
+  if (inPoint === null && outPoint === null) return null;
+  const lastFrame = Math.max(0, durationInFrames - 1);
+  const start = Math.min(inPoint ?? 0, lastFrame);
+  const end = Math.min(outPoint ?? lastFrame, lastFrame);
+  return end >= start ? [start, end] : null;
+};
+
+/**
+ * Range covering the selected overlays, from the first one's start to the
+ * last one's end
+ */
+export const getSelectionFrameRange = (
+  overlays: Overlay[],
+  selectedIds: number[]
+): FrameRange | null => {
+  const selected = overlays.filter((overlay) => selectedIds.includes(overlay.id));
+  if (selected.length === 0) return null;
+
+  const start = Math.min(...selected.map((overlay) => overlay.from));
+  const end = Math.max(
+    ...selected.map((overlay) => overlay.from + overlay.durationInFrames - 1)
+  );
+  return [start, Math.max(start, end)];
+};
+
+const MIME_TYPES: Record<ExportContainer, string> = {
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  gif: "image/gif",
+  mp3: "audio/mpeg",
+  aac: "audio/aac",
+  wav: "audio/wav",
+};
+
+export const getExportMimeType = (container: ExportContainer) =>
+  MIME_TYPES[container];
@@ -27,6 +27,23 @@ export function formatDuration(seconds?: number): string {
   return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Formats a frame count as an HH:MM:SS:FF timecode
+ */
+export function formatTimecode(frames: number, fps: number): string {
+  const totalFrames = Math.max(0, Math.round(frames));
+  const wholeFps = Math.round(fps);
+  const totalSeconds = Math.floor(totalFrames / wholeFps);
+  const parts = [
+    Math.floor(totalSeconds / 3600),
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+    totalFrames % wholeFps,
+  ];
+  
+  return parts.map((part) => part.toString().padStart(2, '0')).join(':');
+}
+
 /**
  * Formats a date timestamp to a human-readable string
  */
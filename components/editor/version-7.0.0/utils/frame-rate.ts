@@ -0,0 +1,139 @@
+import { FRAME_RATES } from "../constants";
+import { AnimationKeyframe, Overlay, OverlayKeyframes, OverlayType, VolumePoint } from "../types";
+
+/**
+ * Label of a frame rate, e.g. "25" or "23.976"
+ */
+export const formatFrameRate = (fps: number): string =>
+  Number.isInteger(fps) ? String(fps) : fps.toFixed(3);
+
+/**
+ * The supported frame rate closest to `value`, so a rounded rate saved as
+ * 23.976 is read back as the exact 24000/1001. Anything unusable falls back
+ * to `fallback`.
+ */
+export const normaliseFrameRate = (value: unknown, fallback: number): number => {
+  const fps = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(fps) || fps <= 0) return fallback;
+
+  const closest = FRAME_RATES.reduce((best, rate) =>
+    Math.abs(rate - fps) < Math.abs(best - fps) ? rate : best
+  );
+  return Math.abs(closest - fps) < 0.01 ? closest : fallback;
+};
+
+/**
+ * Converts a frame count from one frame rate to another, keeping it at the
+ * same time
+ */
+export const convertFrames = (frames: number, fromFps: number, toFps: number): number =>
+  Math.round((frames * toFps) / fromFps);
+
+const retimeKeyframes = (
+  keyframes: OverlayKeyframes,
+  convert: (frames: number) => number
+): OverlayKeyframes =>
+  Object.fromEntries(
+    Object.entries(keyframes).map(([property, frames]) => [
+      property,
+      (frames as AnimationKeyframe[]).map((keyframe) => ({
+        ...keyframe,
+        frame: convert(keyframe.frame),
+      })),
+    ])
+  );
+
+const retimeEnvelope = (points: VolumePoint[], convert: (frames: number) => number) =>
+  points.map((point) => ({ ...point, frame: convert(point.frame) }));
+
+/**
+ * Moves an overlay to another frame rate. The end is converted on its own
+ * rather than the duration, so clips that touched still touch afterwards.
+ * Captions are timed in milliseconds and stay as they are.
+ */
+export const retimeOverlay = (overlay: Overlay, fromFps: number, toFps: number): Overlay => {
+  const convert = (frames: number) => convertFrames(frames, fromFps, toFps);
+  const from = convert(overlay.from);
+  const end = convert(overlay.from + overlay.durationInFrames);
+
+  const retimed = {
+    ...overlay,
+    from,
+    durationInFrames: Math.max(1, end - from),
+    ...(overlay.keyframes && { keyframes: retimeKeyframes(overlay.keyframes, convert) }),
+  } as Overlay;
+
+  switch (retimed.type) {
+    case OverlayType.VIDEO:
+    case OverlayType.SOUND: {
+      const { styles } = retimed;
+      const audio = {
+        styles: {
+          ...styles,
+          ...(styles.fadeInFrames !== undefined && { fadeInFrames: convert(styles.fadeInFrames) }),
+          ...(styles.fadeOutFrames !== undefined && {
+            fadeOutFrames: convert(styles.fadeOutFrames),
+          }),
+          ...(styles.volumeEnvelope && {
+            volumeEnvelope: retimeEnvelope(styles.volumeEnvelope, convert),
+          }),
+        },
+        ...(retimed.mediaDurationInFrames !== undefined && {
+          mediaDurationInFrames: convert(retimed.mediaDurationInFrames),
+        }),
+      };
+
+      if (retimed.type === OverlayType.VIDEO) {
+        return {
+          ...retimed,
+          ...audio,
+          ...(retimed.videoStartTime !== undefined && {
+            videoStartTime: convert(retimed.videoStartTime),
+          }),
+          ...(retimed.transition && {
+            transition: {
+              ...retimed.transition,
+              durationInFrames: Math.max(1, convert(retimed.transition.durationInFrames)),
+            },
+          }),
+        };
+      }
+      return {
+        ...retimed,
+        ...audio,
+        ...(retimed.startFromSound !== undefined && {
+          startFromSound: convert(retimed.startFromSound),
+        }),
+        ...(retimed.ducking && {
+          ducking: {
+            ...retimed.ducking,
+            attackFrames: convert(retimed.ducking.attackFrames),
+            releaseFrames: convert(retimed.ducking.releaseFrames),
+            sources: retimed.ducking.sources.map((source) => ({
+              ...source,
+              speech: source.speech.map((span) => ({
+                start: convert(span.start),
+                end: convert(span.end),
+              })),
+            })),
+          },
+        }),
+      };
+    }
+
+    default:
+      return retimed;
+  }
+};
+
+/**
+ * Moves every overlay of a project to another frame rate
+ */
+export const retimeOverlays = (
+  overlays: Overlay[],
+  fromFps: number,
+  toFps: number
+): Overlay[] =>
+  fromFps === toFps
+    ? overlays
+    : overlays.map((overlay) => retimeOverlay(overlay, fromFps, toFps));
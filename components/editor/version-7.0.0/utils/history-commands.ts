@@ -0,0 +1,377 @@
+import {
+  AspectRatio,
+  Overlay,
+  OverlayType,
+  ProjectVariants,
+  Resolution,
+  TimelineTrack,
+} from "../types";
+
+/** Editor state outside the overlays that undo/redo also restores */
+export type HistorySettings = {
+  aspectRatio: AspectRatio;
+  backgroundColor: string;
+  tracks?: TimelineTrack[];
+  fps?: number;
+  resolution?: Resolution | null; // Custom resolution, null for the preset of the ratio
+  variants?: ProjectVariants | null; // Aspect-ratio variants, null when the project has none
+};
+
+/** What a history entry did, used to build its label */
+export type HistoryAction =
+  | "add"
+  | "delete"
+  | "move"
+  | "resize"
+  | "rotate"
+  | "trim"
+  | "slip"
+  | "split"
+  | "keyframes"
+  | "group"
+  | "ungroup"
+  | "edit"
+  | "aspectRatio"
+  | "projectSettings"
+  | "variants"
+  | "backgroundColor"
+  | "tracks";
+
+/**
+ * Translatable description of an entry, e.g. `{ action: "move", name: "Title" }`
+ * is shown as "Move Title"
+ */
+export type HistoryLabel = {
+  action: HistoryAction;
+  /** Type of the affected overlay when only one was changed */
+  overlayType?: OverlayType;
+  /** Display name of the affected overlay, when it has one */
+  name?: string;
+  /** Number of affected overlays */
+  count?: number;
+};
+
+/**
+ * State of one overlay before and after a command. `index` is the position
+ * in the overlays array, so deleted overlays come back where they were.
+ */
+export type OverlayChange = {
+  id: number;
+  index: number;
+  before: Overlay | null;
+  after: Overlay | null;
+};
+
+/**
+ * An undoable step. Only the overlays and settings it changed are stored,
+ * which keeps memory proportional to the edit rather than to the project.
+ */
+export type HistoryCommand = {
+  id: string;
+  label: HistoryLabel;
+  timestamp: number;
+  /** Commands with the same key in a row can be merged into one */
+  coalesceKey: string;
+  overlayChanges: OverlayChange[];
+  settingsBefore: Partial<HistorySettings>;
+  settingsAfter: Partial<HistorySettings>;
+};
+
+const NAME_MAX_LENGTH = 24;
+
+export const createHistoryCommandId = (): string =>
+  `cmd-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Compares two overlay arrays by reference and returns the overlays that
+ * were added, removed or replaced
+ */
+export const diffOverlays = (prev: Overlay[], next: Overlay[]): OverlayChange[] => {
+  const prevById = new Map(prev.map((overlay, index) => [overlay.id, { overlay, index }]));
+  const nextIds = new Set(next.map((overlay) => overlay.id));
+  const changes: OverlayChange[] = [];
+
+  next.forEach((overlay, index) => {
+    const previous = prevById.get(overlay.id);
+    if (!previous) {
+      changes.push({ id: overlay.id, index, before: null, after: overlay });
+    } else if (previous.overlay !== overlay) {
+      changes.push({ id: overlay.id, index, before: previous.overlay, after: overlay });
+    }
+  });
+
+  prev.forEach((overlay, index) => {
+    if (!nextIds.has(overlay.id)) {
+      changes.push({ id: overlay.id, index, before: overlay, after: null });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Settings that differ between two states, as before/after pairs
+ */
+export const diffSettings = (
+  prev: HistorySettings,
+  next: HistorySettings
+): { before: Partial<HistorySettings>; after: Partial<HistorySettings> } => {
+  const before: Partial<HistorySettings> = {};
+  const after: Partial<HistorySettings> = {};
+
+  (Object.keys(next) as (keyof HistorySettings)[]).forEach((key) => {
+    if (prev[key] !== next[key]) {
+      Object.assign(before, { [key]: prev[key] });
+      Object.assign(after, { [key]: next[key] });
+    }
+  });
+
+  return { before, after };
+};
+
+/**
+ * Replays the overlay changes of a command forwards (redo) or backwards (undo)
+ */
+export const applyOverlayChanges = (
+  overlays: Overlay[],
+  changes: OverlayChange[],
+  direction: "undo" | "redo"
+): Overlay[] => {
+  const target = (change: OverlayChange) =>
+    direction === "undo" ? change.before : change.after;
+  const byId = new Map(changes.map((change) => [change.id, change]));
+
+  const result = overlays
+    .filter((overlay) => !byId.has(overlay.id) || target(byId.get(overlay.id)!))
+    .map((overlay) => (byId.has(overlay.id) ? target(byId.get(overlay.id)!)! : overlay));
+
+  // Put back overlays that the command removed (or that the undo re-adds)
+  const existing = new Set(result.map((overlay) => overlay.id));
+  changes
+    .filter((change) => target(change) && !existing.has(change.id))
+    .sort((a, b) => a.index - b.index)
+    .forEach((change) => {
+      result.splice(Math.min(change.index, result.length), 0, target(change)!);
+    });
+
+  return result;
+};
+
+/**
+ * Short name for an overlay in history labels: the text of text overlays,
+ * the file name of media, nothing otherwise
+ */
+export const getOverlayDisplayName = (overlay: Overlay): string | undefined => {
+  let name: string | undefined;
+  if (overlay.type === OverlayType.TEXT) {
+    name = overlay.content;
+  } else if (
+    overlay.type === OverlayType.VIDEO ||
+    overlay.type === OverlayType.SOUND
+  ) {
+    name = overlay.content?.split("/").pop();
+  }
+
+  name = name?.trim();
+  if (!name) return undefined;
+  return name.length > NAME_MAX_LENGTH
+    ? `${name.slice(0, NAME_MAX_LENGTH - 1)}…`
+    : name;
+};
+
+const GEOMETRY_KEYS = ["left", "top", "width", "height"] as const;
+
+/**
+ * Which single kind of edit turned `before` into `after`
+ */
+const classifyEdit = (before: Overlay, after: Overlay): HistoryAction => {
+  const changed = (Object.keys(after) as (keyof Overlay)[]).filter(
+    (key) => key !== "isDragging" && before[key] !== after[key]
+  );
+  const only = (...keys: string[]) =>
+    changed.length > 0 && changed.every((key) => keys.includes(key));
+
+  if (only("keyframes")) return "keyframes";
+  if (only("groupId")) return after.groupId ? "group" : "ungroup";
+  if (only("rotation")) return "rotate";
+  if (only("videoStartTime") || only("startFromSound")) return "slip";
+  if (only("from", "row")) return "move";
+  if (only("left", "top") || only(...GEOMETRY_KEYS, "keyframes")) {
+    return GEOMETRY_KEYS.slice(2).some((key) => changed.includes(key))
+      ? "resize"
+      : "move";
+  }
+  if (
+    changed.includes("durationInFrames") &&
+    only(
+      "from",
+      "durationInFrames",
+      "videoStartTime",
+      "startFromSound",
+      "captions",
+      "keyframes",
+      "transition"
+    )
+  ) {
+    return "trim";
+  }
+  return "edit";
+};
+
+/**
+ * Describes a set of changes for the history panel and decides which later
+ * changes it may absorb
+ */
+export const describeChanges = (
+  changes: OverlayChange[],
+  settingsAfter: Partial<HistorySettings>
+): { label: HistoryLabel; coalesceKey: string } => {
+  // A new frame rate also re-times every overlay
+  if (settingsAfter.fps !== undefined || settingsAfter.resolution !== undefined) {
+    return { label: { action: "projectSettings" }, coalesceKey: "projectSettings" };
+  }
+  // Opening another variant also lays the overlays out for its ratio
+  if (settingsAfter.variants !== undefined) {
+    return { label: { action: "variants" }, coalesceKey: "variants" };
+  }
+  if (settingsAfter.aspectRatio !== undefined) {
+    return { label: { action: "aspectRatio" }, coalesceKey: "aspectRatio" };
+  }
+  // Moving or removing a track also moves or removes its overlays
+  if (settingsAfter.tracks !== undefined) {
+    return { label: { action: "tracks" }, coalesceKey: "tracks" };
+  }
+  if (changes.length === 0 && settingsAfter.backgroundColor !== undefined) {
+    return { label: { action: "backgroundColor" }, coalesceKey: "backgroundColor" };
+  }
+
+  const added = changes.filter((change) => !change.before);
+  const removed = changes.filter((change) => !change.after);
+  const edited = changes.filter((change) => change.before && change.after);
+  const ids = changes.map((change) => change.id).sort((a, b) => a - b).join(",");
+
+  const subject = (overlays: Overlay[]): Omit<HistoryLabel, "action"> =>
+    overlays.length === 1
+      ? {
+          overlayType: overlays[0].type,
+          name: getOverlayDisplayName(overlays[0]),
+          count: 1,
+        }
+      : { count: overlays.length };
+
+  // A split shortens one overlay and adds the rest of it right after
+  if (edited.length === 1 && added.length === 1 && removed.length === 0) {
+    const original = edited[0].after!;
+    const piece = added[0].after!;
+    if (
+      original.type === piece.type &&
+      original.row === piece.row &&
+      piece.from === original.from + original.durationInFrames
+    ) {
+      return {
+        label: { action: "split", ...subject([edited[0].before!]) },
+        coalesceKey: `split:${ids}`,
+      };
+    }
+  }
+
+  if (added.length > 0 && removed.length === 0 && edited.length === 0) {
+    return {
+      label: { action: "add", ...subject(added.map((change) => change.after!)) },
+      coalesceKey: `add:${ids}`,
+    };
+  }
+
+  if (removed.length > 0 && added.length === 0) {
+    return {
+      label: { action: "delete", ...subject(removed.map((change) => change.before!)) },
+      coalesceKey: `delete:${ids}`,
+    };
+  }
+
+  const actions = new Set(
+    edited.map((change) => classifyEdit(change.before!, change.after!))
+  );
+  const action: HistoryAction =
+    added.length === 0 && actions.size === 1 ? Array.from(actions)[0] : "edit";
+
+  return {
+    label: { action, ...subject(changes.map((change) => (change.after ?? change.before)!)) },
+    coalesceKey: `${action}:${ids}`,
+  };
+};
+
+/**
+ * Folds `next` into `previous` so both become a single undo step
+ */
+export const mergeCommands = (
+  previous: HistoryCommand,
+  next: HistoryCommand
+): HistoryCommand => {
+  const changes = new Map(previous.overlayChanges.map((change) => [change.id, change]));
+  next.overlayChanges.forEach((change) => {
+    const earlier = changes.get(change.id);
+    changes.set(
+      change.id,
+      earlier ? { ...change, index: earlier.index, before: earlier.before } : change
+    );
+  });
+
+  return {
+    ...previous,
+    timestamp: next.timestamp,
+    overlayChanges: Array.from(changes.values()).filter(
+      (change) => change.before !== change.after
+    ),
+    settingsBefore: { ...next.settingsBefore, ...previous.settingsBefore },
+    settingsAfter: { ...previous.settingsAfter, ...next.settingsAfter },
+  };
+};
+
+const changedIds = (command: HistoryCommand) =>
+  command.overlayChanges
+    .map((change) => change.id)
+    .sort((a, b) => a - b)
+    .join(",");
+
+/**
+ * Whether `next` continues the gesture recorded by `previous`: a drag that
+ * has not been released yet, or repeated edits of the same kind in quick
+ * succession such as slider scrubbing
+ */
+export const shouldCoalesce = (
+  previous: HistoryCommand | undefined,
+  next: HistoryCommand,
+  windowMs: number
+): boolean => {
+  if (!previous) return false;
+
+  const gestureOpen = previous.overlayChanges.some(
+    (change) => change.after?.isDragging
+  );
+  if (gestureOpen) {
+    return changedIds(previous) === changedIds(next);
+  }
+
+  if (
+    previous.coalesceKey !== next.coalesceKey ||
+    previous.label.action === "add" ||
+    previous.label.action === "delete"
+  ) {
+    return false;
+  }
+  return next.timestamp - previous.timestamp <= windowMs;
+};
+
+/**
+ * Whether a change only flips the transient `isDragging` flag
+ */
+export const isDragFlagOnly = (change: OverlayChange): boolean => {
+  if (!change.before || !change.after) return false;
+  const before = change.before as Record<string, unknown>;
+  const after = change.after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).every(
+    (key) => key === "isDragging" || before[key] === after[key]
+  );
+};
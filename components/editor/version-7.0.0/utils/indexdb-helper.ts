@@ -1,13 +1,25 @@
 /**
  * IndexedDB Helper Utility
  * 
- * Provides functions to interact with IndexedDB for autosaving editor state.
+ * Provides functions to interact with IndexedDB for autosaving editor state
+ * and keeping the user's templates when the backend cannot be reached.
  */
 
+import { TemplateOverlay } from '../types';
+import { AutosaveState, readAutosave } from './project-schema';
+
 const DB_NAME = 'VideoEditorProDB';
-const DB_VERSION = 3; // Incrementado para forzar actualización
+const DB_VERSION = 4; // v4 adds the templates store
 const PROJECTS_STORE = 'projects';
 const AUTOSAVE_STORE = 'autosave';
+const TEMPLATES_STORE = 'templates';
+
+/** A record of the autosave store */
+type AutosaveRecord = {
+  id: string;
+  editorState: AutosaveState;
+  timestamp: number;
+};
 
 /**
  * Initialize the IndexedDB database
@@ -61,6 +73,12 @@ export const initDatabase = (): Promise<IDBDatabase> => {
           const autosaveStore = db.createObjectStore(AUTOSAVE_STORE, { keyPath: 'id' });
           autosaveStore.createIndex('timestamp', 'timestamp', { unique: false });
         }
+
+        // Create templates store
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          const templatesStore = db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+          templatesStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+        }
       } catch (error) {
         console.error('Error creating object stores:', error);
       }
@@ -74,13 +92,16 @@ export const initDatabase = (): Promise<IDBDatabase> => {
  * @param editorState Current state of the editor
  * @returns Promise that resolves when the save is complete
  */
-export const saveEditorState = async (projectId: string, editorState: any): Promise<void> => {
+export const saveEditorState = async (
+  projectId: string,
+  editorState: AutosaveState
+): Promise<void> => {
   try {
     const db = await initDatabase();
     const transaction = db.transaction([AUTOSAVE_STORE], 'readwrite');
     const store = transaction.objectStore(AUTOSAVE_STORE);
 
-    const autosaveData = {
+    const autosaveData: AutosaveRecord = {
       id: projectId,
       editorState,
       timestamp: new Date().getTime()
@@ -109,11 +130,12 @@ export const saveEditorState = async (projectId: string, editorState: any): Prom
 };
 
 /**
- * Load editor state from autosave store
+ * Load editor state from autosave store. Autosaves made by earlier versions
+ * of the editor are migrated to the current format.
  * @param projectId Unique identifier for the project
  * @returns Promise that resolves with the editor state or null if not found
  */
-export const loadEditorState = async (projectId: string): Promise<any | null> => {
+export const loadEditorState = async (projectId: string): Promise<AutosaveState | null> => {
   try {
     const db = await initDatabase();
     const transaction = db.transaction([AUTOSAVE_STORE], 'readonly');
@@ -123,8 +145,13 @@ export const loadEditorState = async (projectId: string): Promise<any | null> =>
       const request = store.get(projectId);
       
       request.onsuccess = () => {
-        const result = request.result;
-        resolve(result ? result.editorState : null);
+        const result: AutosaveRecord | undefined = request.result;
+        try {
+          resolve(result ? readAutosave(result.editorState) : null);
+        } catch (error) {
+          console.error('Autosave could not be read:', error);
+          reject(error);
+        }
       };
       
       request.onerror = (event) => {
@@ -208,3 +235,101 @@ export const hasAutosave = async (projectId: string): Promise<number | null> =>
     throw error;
   }
 };
+
+/**
+ * Save a user template to the templates store, replacing any earlier version
+ * @param template Template to keep on this device
+ * @returns Promise that resolves when the save is complete
+ */
+export const saveLocalTemplate = async (template: TemplateOverlay): Promise<void> => {
+  try {
+    const db = await initDatabase();
+    const transaction = db.transaction([TEMPLATES_STORE], 'readwrite');
+    const store = transaction.objectStore(TEMPLATES_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(template);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = (event) => {
+        console.error('Error saving template:', event);
+        reject('Error saving template');
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+      };
+    });
+  } catch (error) {
+    console.error('Failed to save template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load the user templates kept on this device
+ * @returns Promise that resolves with the templates, or an empty list if none were saved
+ */
+export const loadLocalTemplates = async (): Promise<TemplateOverlay[]> => {
+  try {
+    const db = await initDatabase();
+    const transaction = db.transaction([TEMPLATES_STORE], 'readonly');
+    const store = transaction.objectStore(TEMPLATES_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        resolve(request.result || []);
+      };
+
+      request.onerror = (event) => {
+        console.error('Error loading templates:', event);
+        reject('Error loading templates');
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+      };
+    });
+  } catch (error) {
+    console.error('Failed to load templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a user template kept on this device
+ * @param templateId Id of the template
+ * @returns Promise that resolves when the delete is complete
+ */
+export const deleteLocalTemplate = async (templateId: string): Promise<void> => {
+  try {
+    const db = await initDatabase();
+    const transaction = db.transaction([TEMPLATES_STORE], 'readwrite');
+    const store = transaction.objectStore(TEMPLATES_STORE);
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(templateId);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = (event) => {
+        console.error('Error deleting template:', event);
+        reject('Error deleting template');
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+      };
+    });
+  } catch (error) {
+    console.error('Failed to delete template:', error);
+    throw error;
+  }
+};
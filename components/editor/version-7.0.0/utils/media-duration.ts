@@ -0,0 +1,29 @@
+/**
+ * Reads the duration in seconds of a video or audio file from its metadata.
+ * Resolves undefined when it can't be read within five seconds.
+ */
+export const probeMediaDuration = (
+  url: string,
+  mediaType: "video" | "audio"
+): Promise<number | undefined> => {
+  return new Promise((resolve) => {
+    const el = document.createElement(mediaType === "video" ? "video" : "audio");
+    el.preload = "metadata";
+
+    const timeout = setTimeout(() => {
+      resolve(undefined);
+    }, 5000);
+
+    el.onloadedmetadata = () => {
+      clearTimeout(timeout);
+      const dur = isFinite(el.duration) ? el.duration : undefined;
+      resolve(dur);
+    };
+    el.onerror = () => {
+      clearTimeout(timeout);
+      resolve(undefined);
+    };
+
+    el.src = url;
+  });
+};
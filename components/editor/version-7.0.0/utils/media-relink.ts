@@ -0,0 +1,141 @@
+import { Overlay, OverlayType } from "../types";
+
+/** Kinds of media file an overlay can be linked to */
+export type LinkedMediaType = "video" | "image" | "audio";
+
+/** Media picked to stand in for a missing file */
+export type MediaReplacement = {
+  src: string;
+  /** Length of the new file in frames, for videos and sounds */
+  mediaDurationInFrames?: number;
+};
+
+/** A missing file and how many overlays use it */
+export type MissingMedia = {
+  src: string;
+  type: LinkedMediaType;
+  count: number;
+};
+
+/**
+ * The file an overlay plays or shows, or null for overlays drawn by the
+ * editor itself
+ */
+export const getOverlaySource = (overlay: Overlay): string | null => {
+  switch (overlay.type) {
+    case OverlayType.VIDEO:
+    case OverlayType.IMAGE:
+    case OverlayType.SOUND:
+      return overlay.src;
+    default:
+      return null;
+  }
+};
+
+export const getLinkedMediaType = (overlay: Overlay): LinkedMediaType | null => {
+  switch (overlay.type) {
+    case OverlayType.VIDEO:
+      return "video";
+    case OverlayType.IMAGE:
+      return "image";
+    case OverlayType.SOUND:
+      return "audio";
+    default:
+      return null;
+  }
+};
+
+/**
+ * File name of a media URL, for showing which file went missing
+ */
+export const getMediaName = (src: string): string => {
+  const path = src.split(/[?#]/)[0];
+  const name = path.substring(path.lastIndexOf("/") + 1);
+  try {
+    return decodeURIComponent(name) || src;
+  } catch {
+    return name || src;
+  }
+};
+
+/**
+ * Whether a remote media file can still be fetched. Only a definite 404 or
+ * 403, or a request that fails even without CORS, counts as missing; an
+ * opaque answer is taken as reachable to avoid false alarms.
+ */
+export const checkMediaUrl = async (src: string): Promise<boolean> => {
+  try {
+    const res = await fetch(src, { method: "HEAD", mode: "cors" });
+    return res.status !== 404 && res.status !== 403;
+  } catch {
+    // Network error or CORS — try HEAD with no-cors as fallback
+    try {
+      await fetch(src, { method: "HEAD", mode: "no-cors" });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+};
+
+/**
+ * Missing files still used in the project. Sources that were relinked or
+ * whose overlays were deleted drop out.
+ */
+export const getMissingMedia = (
+  overlays: Overlay[],
+  offlineSources: string[]
+): MissingMedia[] => {
+  const missing = new Map<string, MissingMedia>();
+  overlays.forEach((overlay) => {
+    const src = getOverlaySource(overlay);
+    const type = getLinkedMediaType(overlay);
+    if (!src || !type || !offlineSources.includes(src)) return;
+    const entry = missing.get(src);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      missing.set(src, { src, type, count: 1 });
+    }
+  });
+  return Array.from(missing.values());
+};
+
+/**
+ * Points every overlay using a missing file at its replacement. Timing,
+ * trims and styles are left as they were; only the file and its length
+ * change.
+ */
+export const relinkOverlays = (
+  overlays: Overlay[],
+  missingSrc: string,
+  replacement: MediaReplacement
+): Overlay[] =>
+  overlays.map((overlay) => {
+    if (getOverlaySource(overlay) !== missingSrc) return overlay;
+
+    switch (overlay.type) {
+      case OverlayType.VIDEO:
+        return {
+          ...overlay,
+          src: replacement.src,
+          // The thumbnail is the video itself unless it was set apart
+          content: overlay.content === missingSrc ? replacement.src : overlay.content,
+          mediaDurationInFrames: replacement.mediaDurationInFrames,
+        };
+      case OverlayType.IMAGE:
+        return {
+          ...overlay,
+          src: replacement.src,
+          content: overlay.content === missingSrc ? replacement.src : overlay.content,
+        };
+      case OverlayType.SOUND:
+        return {
+          ...overlay,
+          src: replacement.src,
+          mediaDurationInFrames: replacement.mediaDurationInFrames,
+        };
+      default:
+        return overlay;
+    }
+  });
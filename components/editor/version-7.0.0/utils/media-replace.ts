@@ -0,0 +1,182 @@
+import { Overlay, OverlayType } from "../types";
+import { getLinkedMediaType, LinkedMediaType } from "./media-relink";
+import { applyOverlayEdit, EditModeOptions, ripplesRow } from "./timeline-edit-modes";
+import { sanitizeTransitions } from "./clip-transitions";
+import { hasRowCollision } from "./timeline-edits";
+
+/** A media file picked in a panel or dialog, to add or to swap in */
+export type MediaChoice = {
+  type: LinkedMediaType;
+  src: string;
+  /** Thumbnail shown for a video on the timeline, when it has its own */
+  thumbnail?: string;
+  /** Length of the file, when the panel already knows it */
+  durationInSeconds?: number;
+};
+
+/**
+ * Drag data types of the media panels and the kind of media each carries
+ */
+export const MEDIA_DRAG_TYPES: Record<string, LinkedMediaType> = {
+  "application/reelmotion-video": "video",
+  "application/reelmotion-library-video": "video",
+  "application/reelmotion-library-image": "image",
+  "application/reelmotion-sound": "audio",
+  "application/reelmotion-local-video": "video",
+  "application/reelmotion-local-image": "image",
+  "application/reelmotion-local-audio": "audio",
+};
+
+/**
+ * Kind of media being dragged, read from the drag types alone since the
+ * data itself is only readable on drop
+ */
+export const getDraggedMediaType = (
+  types: ReadonlyArray<string>
+): LinkedMediaType | null => {
+  const type = types.find((item) => item in MEDIA_DRAG_TYPES);
+  return type ? MEDIA_DRAG_TYPES[type] : null;
+};
+
+/**
+ * The media file carried by a drag from one of the media panels, or null
+ * when the drag carries something else
+ */
+export const readDraggedMedia = (
+  dataTransfer: Pick<DataTransfer, "types" | "getData">
+): MediaChoice | null => {
+  const format = Array.from(dataTransfer.types).find((item) => item in MEDIA_DRAG_TYPES);
+  if (!format) return null;
+
+  try {
+    const data = JSON.parse(dataTransfer.getData(format));
+    const type = MEDIA_DRAG_TYPES[format];
+    switch (format) {
+      case "application/reelmotion-video":
+        return { type, src: data.video_url };
+      case "application/reelmotion-library-video":
+        return { type, src: data.src, thumbnail: data.image || undefined, durationInSeconds: data.duration };
+      case "application/reelmotion-library-image":
+        return { type, src: data.src };
+      case "application/reelmotion-sound":
+        return { type, src: data.file, durationInSeconds: data.duration };
+      default:
+        return { type, src: data.path, durationInSeconds: data.duration };
+    }
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Swaps the file of a video, image or sound overlay, keeping its place,
+ * crop, filters, animation and speed. By default the overlay takes the
+ * length of the new file; given a `durationInFrames` it keeps that length
+ * and moves its start in the new file only as far as needed to fit.
+ * Returns null when the media is not of the overlay's kind.
+ */
+export const replaceOverlayMedia = (
+  overlay: Overlay,
+  media: MediaChoice,
+  options: { fps: number; durationInFrames?: number }
+): Overlay | null => {
+  if (getLinkedMediaType(overlay) !== media.type) return null;
+
+  const mediaDurationInFrames = media.durationInSeconds
+    ? Math.round(media.durationInSeconds * options.fps)
+    : undefined;
+
+  /**
+   * Length on the timeline and start in the file, for media played at
+   * `speed` source frames per timeline frame
+   */
+  const fit = (startFrom: number, speed: number) => {
+    const keepDuration = options.durationInFrames !== undefined || !mediaDurationInFrames;
+    if (!keepDuration) {
+      return {
+        durationInFrames: Math.max(1, Math.round(mediaDurationInFrames! / speed)),
+        startFrom: 0,
+      };
+    }
+    const durationInFrames = options.durationInFrames ?? overlay.durationInFrames;
+    const latestStart = mediaDurationInFrames
+      ? Math.max(0, mediaDurationInFrames - Math.round(durationInFrames * speed))
+      : startFrom;
+    return { durationInFrames, startFrom: Math.min(startFrom, latestStart) };
+  };
+
+  switch (overlay.type) {
+    case OverlayType.VIDEO: {
+      const { durationInFrames, startFrom } = fit(
+        overlay.videoStartTime ?? 0,
+        overlay.speed ?? 1
+      );
+      return {
+        ...overlay,
+        src: media.src,
+        content: media.thumbnail ?? media.src,
+        durationInFrames,
+        videoStartTime: startFrom,
+        mediaDurationInFrames,
+      };
+    }
+    case OverlayType.SOUND: {
+      const { durationInFrames, startFrom } = fit(overlay.startFromSound ?? 0, 1);
+      return {
+        ...overlay,
+        src: media.src,
+        durationInFrames,
+        startFromSound: startFrom,
+        mediaDurationInFrames,
+      };
+    }
+    case OverlayType.IMAGE:
+      return { ...overlay, src: media.src, content: media.src };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Replaces the media of an overlay in the project. A change of length is
+ * applied like a trim of the overlay's end: rippling rows move up or back and
+ * push mode pushes the next items aside. Nothing is ever overwritten, so
+ * when the new length would run into the next item, or does not fit
+ * otherwise, the overlay keeps its current one. Returns null when the media
+ * is not of the overlay's kind or the overlay is fixed.
+ */
+export const applyMediaReplacement = (
+  overlays: Overlay[],
+  overlayId: number,
+  media: MediaChoice,
+  options: EditModeOptions & { fps: number; durationInFrames?: number }
+): Overlay[] | null => {
+  const current = overlays.find((overlay) => overlay.id === overlayId);
+  if (!current || options.fixedIds?.includes(overlayId)) return null;
+  const replaced = replaceOverlayMedia(current, media, options);
+  if (!replaced) return null;
+
+  // Swap the file first, then change the length as an edit of its end
+  const swapped = overlays.map((overlay) =>
+    overlay.id === overlayId
+      ? { ...replaced, durationInFrames: current.durationInFrames }
+      : overlay
+  );
+  if (replaced.durationInFrames === current.durationInFrames) return swapped;
+
+  let edited: Overlay[] | null;
+  if (options.mode === "push" || ripplesRow(options.mode, current.row)) {
+    edited = applyOverlayEdit(swapped, replaced, "resize-end", options);
+  } else {
+    edited = hasRowCollision(swapped, [replaced])
+      ? null
+      : swapped.map((overlay) => (overlay.id === overlayId ? replaced : overlay));
+  }
+  if (edited) return sanitizeTransitions(edited);
+
+  const kept = replaceOverlayMedia(current, media, {
+    fps: options.fps,
+    durationInFrames: current.durationInFrames,
+  })!;
+  return overlays.map((overlay) => (overlay.id === overlayId ? kept : overlay));
+};
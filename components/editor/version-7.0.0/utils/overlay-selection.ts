@@ -0,0 +1,314 @@
+import { Overlay, OverlayAlignment, OverlayType } from "../types";
+import {
+  commitAnimatedChange,
+  resolveAnimatedOverlay,
+} from "./animation-keyframes";
+import { sanitizeTransitions } from "./clip-transitions";
+
+/** Position and size of an overlay on the canvas */
+export type CanvasRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/** Area swept by a marquee on the timeline, in frames and rows */
+export type TimelineRange = {
+  fromFrame: number;
+  toFrame: number;
+  fromRow: number;
+  toRow: number;
+};
+
+export const OVERLAY_ALIGNMENTS: OverlayAlignment[] = [
+  "left",
+  "center",
+  "right",
+  "top",
+  "middle",
+  "bottom",
+];
+
+export const createGroupId = (): string =>
+  `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Adds the other members of every group touched by the selection. Ids of
+ * overlays that no longer exist are dropped.
+ */
+export const expandSelectionToGroups = (
+  ids: number[],
+  overlays: Overlay[]
+): number[] => {
+  const selected = new Set(ids);
+  const groupIds = new Set(
+    overlays
+      .filter((overlay) => selected.has(overlay.id) && overlay.groupId)
+      .map((overlay) => overlay.groupId)
+  );
+  const existing = new Set(overlays.map((overlay) => overlay.id));
+
+  return [
+    ...ids.filter((id) => existing.has(id)),
+    ...overlays
+      .filter(
+        (overlay) =>
+          !selected.has(overlay.id) &&
+          overlay.groupId &&
+          groupIds.has(overlay.groupId)
+      )
+      .map((overlay) => overlay.id),
+  ];
+};
+
+/**
+ * Shift/cmd-click behaviour: adds the overlay (and its group) to the
+ * selection, or removes it when it is already selected
+ */
+export const toggleOverlayInSelection = (
+  selectedIds: number[],
+  id: number,
+  overlays: Overlay[]
+): number[] => {
+  const members = expandSelectionToGroups([id], overlays);
+  const current = expandSelectionToGroups(selectedIds, overlays);
+
+  if (members.every((memberId) => current.includes(memberId))) {
+    return current.filter((selectedId) => !members.includes(selectedId));
+  }
+  return [...current, ...members.filter((memberId) => !current.includes(memberId))];
+};
+
+/**
+ * Overlays touched by a timeline marquee
+ */
+export const getOverlaysInRange = (
+  overlays: Overlay[],
+  range: TimelineRange
+): number[] =>
+  overlays
+    .filter(
+      (overlay) =>
+        overlay.row >= range.fromRow &&
+        overlay.row <= range.toRow &&
+        overlay.from < range.toFrame &&
+        overlay.from + overlay.durationInFrames > range.fromFrame
+    )
+    .map((overlay) => overlay.id);
+
+const isVisibleAt = (overlay: Overlay, frame: number) =>
+  frame >= overlay.from && frame < overlay.from + overlay.durationInFrames;
+
+const toRelativeFrame = (overlay: Overlay, frame: number) =>
+  Math.min(Math.max(frame - overlay.from, 0), Math.max(overlay.durationInFrames - 1, 0));
+
+/**
+ * Geometry of an overlay at a timeline frame, with keyframes applied
+ */
+export const getCanvasRect = (overlay: Overlay, frame: number): CanvasRect => {
+  const { left, top, width, height } = resolveAnimatedOverlay(
+    overlay,
+    toRelativeFrame(overlay, frame)
+  );
+  return { left, top, width, height };
+};
+
+/**
+ * Overlays drawn at `frame` whose box intersects a canvas marquee
+ */
+export const getOverlaysInRect = (
+  overlays: Overlay[],
+  rect: CanvasRect,
+  frame: number
+): number[] =>
+  overlays
+    .filter((overlay) => {
+      if (overlay.type === OverlayType.SOUND || !isVisibleAt(overlay, frame)) {
+        return false;
+      }
+      const box = getCanvasRect(overlay, frame);
+      return (
+        box.left < rect.left + rect.width &&
+        box.left + box.width > rect.left &&
+        box.top < rect.top + rect.height &&
+        box.top + box.height > rect.top
+      );
+    })
+    .map((overlay) => overlay.id);
+
+/**
+ * Smallest box containing all the given boxes
+ */
+export const getSelectionBounds = (rects: CanvasRect[]): CanvasRect | null => {
+  if (rects.length === 0) return null;
+  const left = Math.min(...rects.map((rect) => rect.left));
+  const top = Math.min(...rects.map((rect) => rect.top));
+  const right = Math.max(...rects.map((rect) => rect.left + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.top + rect.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Moves and scales `rect` the same way `from` was turned into `to`. Used to
+ * make every selected overlay follow the one being dragged or resized.
+ */
+export const mapRect = (
+  rect: CanvasRect,
+  from: CanvasRect,
+  to: CanvasRect
+): CanvasRect => {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  return {
+    left: Math.round(to.left + (rect.left - from.left) * scaleX),
+    top: Math.round(to.top + (rect.top - from.top) * scaleY),
+    width: Math.max(1, Math.round(rect.width * scaleX)),
+    height: Math.max(1, Math.round(rect.height * scaleY)),
+  };
+};
+
+/**
+ * Writes new canvas geometry at a timeline frame. Animated properties get a
+ * keyframe there, like edits made with the selection handles.
+ */
+const setCanvasRect = (
+  overlay: Overlay,
+  frame: number,
+  rect: Partial<CanvasRect>
+): Overlay => {
+  const relativeFrame = toRelativeFrame(overlay, frame);
+  return commitAnimatedChange(overlay, relativeFrame, {
+    ...resolveAnimatedOverlay(overlay, relativeFrame),
+    ...rect,
+  });
+};
+
+/**
+ * Moves the selected overlays on the canvas by a number of pixels
+ */
+export const nudgeOverlays = (
+  overlays: Overlay[],
+  ids: number[],
+  dx: number,
+  dy: number,
+  frame: number
+): Overlay[] =>
+  overlays.map((overlay) => {
+    if (!ids.includes(overlay.id) || overlay.type === OverlayType.SOUND) {
+      return overlay;
+    }
+    const { left, top } = getCanvasRect(overlay, frame);
+    return setCanvasRect(overlay, frame, { left: left + dx, top: top + dy });
+  });
+
+/**
+ * Lines up the selected overlays along an edge or center of their bounding
+ * box. A single overlay is aligned to the canvas instead.
+ */
+export const alignOverlays = (
+  overlays: Overlay[],
+  ids: number[],
+  alignment: OverlayAlignment,
+  canvas: { width: number; height: number },
+  frame: number
+): Overlay[] => {
+  const targets = overlays.filter(
+    (overlay) => ids.includes(overlay.id) && overlay.type !== OverlayType.SOUND
+  );
+  if (targets.length === 0) return overlays;
+
+  const bounds =
+    targets.length === 1
+      ? { left: 0, top: 0, width: canvas.width, height: canvas.height }
+      : getSelectionBounds(targets.map((overlay) => getCanvasRect(overlay, frame)))!;
+
+  return overlays.map((overlay) => {
+    if (!targets.includes(overlay)) return overlay;
+    const rect = getCanvasRect(overlay, frame);
+
+    switch (alignment) {
+      case "left":
+        return setCanvasRect(overlay, frame, { left: bounds.left });
+      case "center":
+        return setCanvasRect(overlay, frame, {
+          left: Math.round(bounds.left + (bounds.width - rect.width) / 2),
+        });
+      case "right":
+        return setCanvasRect(overlay, frame, {
+          left: bounds.left + bounds.width - rect.width,
+        });
+      case "top":
+        return setCanvasRect(overlay, frame, { top: bounds.top });
+      case "middle":
+        return setCanvasRect(overlay, frame, {
+          top: Math.round(bounds.top + (bounds.height - rect.height) / 2),
+        });
+      case "bottom":
+        return setCanvasRect(overlay, frame, {
+          top: bounds.top + bounds.height - rect.height,
+        });
+    }
+  });
+};
+
+/**
+ * Makes the overlays one group. Groups they belonged to before are replaced.
+ */
+export const groupOverlays = (overlays: Overlay[], ids: number[]): Overlay[] => {
+  if (ids.length < 2) return overlays;
+  const groupId = createGroupId();
+  return overlays.map((overlay) =>
+    ids.includes(overlay.id) ? { ...overlay, groupId } : overlay
+  );
+};
+
+/**
+ * Removes the overlays from their groups
+ */
+export const ungroupOverlays = (overlays: Overlay[], ids: number[]): Overlay[] =>
+  overlays.map((overlay) =>
+    ids.includes(overlay.id) && overlay.groupId
+      ? { ...overlay, groupId: undefined }
+      : overlay
+  );
+
+/**
+ * Copies the selected overlays as a block placed after everything on the rows
+ * they use, so the copies keep their relative timing. Copies of a group form
+ * a new group.
+ */
+export const duplicateOverlays = (
+  overlays: Overlay[],
+  ids: number[]
+): { overlays: Overlay[]; duplicatedIds: number[] } => {
+  const originals = overlays.filter((overlay) => ids.includes(overlay.id));
+  if (originals.length === 0) return { overlays, duplicatedIds: [] };
+
+  const rows = new Set(originals.map((overlay) => overlay.row));
+  const blockStart = Math.min(...originals.map((overlay) => overlay.from));
+  const rowsEnd = Math.max(
+    ...overlays
+      .filter((overlay) => rows.has(overlay.row))
+      .map((overlay) => overlay.from + overlay.durationInFrames)
+  );
+  const offset = rowsEnd - blockStart;
+
+  let nextId = Math.max(...overlays.map((overlay) => overlay.id)) + 1;
+  const groupCopies = new Map<string, string>();
+  const copies = originals.map((overlay) => {
+    const copy: Overlay = { ...overlay, id: nextId++, from: overlay.from + offset };
+    if (overlay.groupId) {
+      if (!groupCopies.has(overlay.groupId)) {
+        groupCopies.set(overlay.groupId, createGroupId());
+      }
+      copy.groupId = groupCopies.get(overlay.groupId);
+    }
+    return copy;
+  });
+
+  return {
+    overlays: sanitizeTransitions([...overlays, ...copies]),
+    duplicatedIds: copies.map((copy) => copy.id),
+  };
+};
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { FPS } from "../constants";
+import {
+  AspectRatio,
+  Overlay,
+  OverlaySchema,
+  ProjectVariants,
+  Resolution,
+  TimelineTrack,
+} from "../types";
+import { inferAspectRatioFromDimensions } from "./aspect-ratio-utils";
+import { normaliseFrameRate } from "./frame-rate";
+
+/**
+ * Version of the format of saved edits and autosaves. Whenever that format
+ * changes, bump it and add a migration below that brings older saves up to
+ * date.
+ */
+export const PROJECT_SCHEMA_VERSION = 2;
+
+/** The parts of a project that are restored when a save is opened */
+export type ProjectState = {
+  overlays: Overlay[];
+  aspectRatio?: AspectRatio; // Left as it is when the save has none
+  fps: number;
+  resolution: Resolution | null;
+  backgroundColor?: string;
+  tracks: TimelineTrack[];
+  variants: ProjectVariants | null;
+};
+
+/** The editor state kept in IndexedDB between sessions */
+export type AutosaveState = ProjectState & {
+  schemaVersion: number;
+  playerDimensions?: { width: number; height: number };
+};
+
+/** A save as read from storage, before it is migrated */
+type SavedDocument = Record<string, unknown>;
+
+/** Brings a save from the version before `version` up to `version` */
+type Migration = {
+  version: number;
+  up: (document: SavedDocument) => SavedDocument;
+};
+
+const isDocument = (value: unknown): value is SavedDocument =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Fills in base overlay fields that older saves could leave out, so every
+ * overlay has a rotation, a row and a styles object
+ */
+const upgradeOverlays = (overlays: unknown): unknown =>
+  Array.isArray(overlays)
+    ? overlays.map((overlay: unknown) =>
+        isDocument(overlay)
+          ? {
+              ...overlay,
+              row: overlay.row ?? 0,
+              rotation: overlay.rotation ?? 0,
+              isDragging: false,
+              styles: overlay.styles ?? {},
+            }
+          : overlay
+      )
+    : overlays;
+
+/** Settings added after the first saves get their defaults */
+const withSettingDefaults = (document: SavedDocument): SavedDocument => ({
+  ...document,
+  fps: document.fps ?? FPS,
+  resolution: document.resolution ?? null,
+  tracks: document.tracks ?? [],
+  variants: document.variants ?? null,
+});
+
+const EDIT_MIGRATIONS: Migration[] = [
+  {
+    // The first saved edits kept their settings in `inputProps` only, and
+    // the very first ones had no aspect ratio at all
+    version: 1,
+    up: (document) => {
+      const inputProps = isDocument(document.inputProps) ? document.inputProps : {};
+      return withSettingDefaults({
+        ...document,
+        aspectRatio:
+          document.aspectRatio ??
+          inputProps.aspectRatio ??
+          inferAspectRatioFromDimensions(inputProps.width, inputProps.height) ??
+          undefined,
+        fps: document.fps ?? inputProps.fps,
+        backgroundColor: document.backgroundColor ?? inputProps.backgroundColor,
+      });
+    },
+  },
+  {
+    version: 2,
+    up: (document) => {
+      const inputProps = isDocument(document.inputProps) ? document.inputProps : {};
+      return {
+        ...document,
+        inputProps: { ...inputProps, overlays: upgradeOverlays(inputProps.overlays ?? []) },
+      };
+    },
+  },
+];
+
+const AUTOSAVE_MIGRATIONS: Migration[] = [
+  { version: 1, up: withSettingDefaults },
+  {
+    version: 2,
+    up: (document) => ({ ...document, overlays: upgradeOverlays(document.overlays ?? []) }),
+  },
+];
+
+/**
+ * Runs the migrations a save has not been through yet, in order. Saves
+ * without a version predate versioning and go through all of them.
+ */
+const migrate = (
+  document: unknown,
+  migrations: Migration[],
+  kind: string
+): SavedDocument => {
+  if (!isDocument(document)) {
+    throw new Error(`The ${kind} is not a project`);
+  }
+  const version = typeof document.schemaVersion === "number" ? document.schemaVersion : 0;
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      `The ${kind} was saved by a newer version of the editor (format ${version})`
+    );
+  }
+
+  return migrations
+    .filter((migration) => migration.version > version)
+    .reduce<SavedDocument>(
+      (current, migration) => ({ ...migration.up(current), schemaVersion: migration.version }),
+      document
+    );
+};
+
+/**
+ * One line per problem, each starting with the path of the value at fault,
+ * e.g. `inputProps.overlays.3.styles.fontSize: Invalid input: expected
+ * string, received number`
+ */
+export const formatSchemaError = (
+  error: z.ZodError,
+  path: (string | number)[] = [],
+  maxIssues = 5
+): string => {
+  const lines = error.issues.slice(0, maxIssues).map((issue) => {
+    const at = [...path, ...issue.path].map(String).join(".");
+    return at ? `${at}: ${issue.message}` : issue.message;
+  });
+  const more = error.issues.length - maxIssues;
+  return more > 0 ? [...lines, `...and ${more} more`].join("\n") : lines.join("\n");
+};
+
+const parseOverlays = (overlays: unknown, path: string[]): Overlay[] => {
+  const result = z.array(OverlaySchema).safeParse(overlays);
+  if (!result.success) {
+    throw new Error(formatSchemaError(result.error, path));
+  }
+  return result.data;
+};
+
+/**
+ * The settings of a migrated save. Their shape is only checked loosely: a
+ * setting of the wrong kind is left out, as if the save had none.
+ */
+const readSettings = (document: SavedDocument): Omit<ProjectState, "overlays"> => ({
+  aspectRatio:
+    typeof document.aspectRatio === "string"
+      ? (document.aspectRatio as AspectRatio)
+      : undefined,
+  fps: normaliseFrameRate(document.fps, FPS),
+  resolution: isDocument(document.resolution)
+    ? (document.resolution as Resolution)
+    : null,
+  backgroundColor:
+    typeof document.backgroundColor === "string" ? document.backgroundColor : undefined,
+  tracks: Array.isArray(document.tracks) ? (document.tracks as TimelineTrack[]) : [],
+  variants: isDocument(document.variants)
+    ? (document.variants as ProjectVariants)
+    : null,
+});
+
+/**
+ * Reads the edition data of an edit saved to the backend, migrated to the
+ * current format
+ * @throws When the edit was saved by a newer editor or its overlays are malformed
+ */
+export const readSavedEdit = (editionData: unknown): ProjectState => {
+  const edit = migrate(editionData, EDIT_MIGRATIONS, "edit");
+  const inputProps = isDocument(edit.inputProps) ? edit.inputProps : {};
+  return {
+    overlays: parseOverlays(inputProps.overlays, ["inputProps", "overlays"]),
+    ...readSettings(edit),
+  };
+};
+
+/**
+ * Reads an autosave, migrated to the current format
+ * @throws When the autosave was made by a newer editor or its overlays are malformed
+ */
+export const readAutosave = (editorState: unknown): AutosaveState => {
+  const state = migrate(editorState, AUTOSAVE_MIGRATIONS, "autosave");
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    overlays: parseOverlays(state.overlays, ["overlays"]),
+    ...readSettings(state),
+    playerDimensions: isDocument(state.playerDimensions)
+      ? (state.playerDimensions as AutosaveState["playerDimensions"])
+      : undefined,
+  };
+};
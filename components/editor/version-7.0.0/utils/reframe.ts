@@ -0,0 +1,205 @@
+import {
+  FocalPoint,
+  KeyframeProperty,
+  Overlay,
+  OverlayKeyframes,
+  OverlayType,
+  Resolution,
+} from "../types";
+
+/** How photos and videos that fill the frame are fitted to the new canvas */
+export type ReframeMediaFit = "cover" | "contain";
+
+export type ReframeOptions = {
+  mediaFit: ReframeMediaFit;
+  safeMargin: number; // Space kept clear around text, as a fraction of the shorter side
+};
+
+export const DEFAULT_REFRAME_OPTIONS: ReframeOptions = {
+  mediaFit: "cover",
+  safeMargin: 0.05,
+};
+
+// Media covering at least this much of both sides of the canvas fills the frame
+const FILLS_FRAME = 0.9;
+
+/** Moves and scales an overlay's box: x' = x * scaleX + dx, w' = w * scaleX */
+type BoxTransform = {
+  scaleX: number;
+  scaleY: number;
+  dx: number;
+  dy: number;
+};
+
+const isMedia = (overlay: Overlay) =>
+  overlay.type === OverlayType.VIDEO || overlay.type === OverlayType.IMAGE;
+
+const isText = (overlay: Overlay) =>
+  overlay.type === OverlayType.TEXT || overlay.type === OverlayType.CAPTION;
+
+/**
+ * Whether a photo or video is used as a full-frame shot rather than placed
+ * somewhere on the canvas
+ */
+export const fillsFrame = (overlay: Overlay, canvas: Resolution): boolean =>
+  isMedia(overlay) &&
+  overlay.width >= canvas.width * FILLS_FRAME &&
+  overlay.height >= canvas.height * FILLS_FRAME;
+
+/**
+ * CSS object-position that keeps a focal point in view when media is cropped
+ */
+export const getFocalObjectPosition = (focalPoint?: FocalPoint): string | undefined =>
+  focalPoint
+    ? `${Math.round(focalPoint.x * 100)}% ${Math.round(focalPoint.y * 100)}%`
+    : undefined;
+
+/**
+ * The transform of an overlay placed on the canvas. Its center keeps the same
+ * relative position and it is scaled evenly, by the smaller of the two
+ * changes, so nothing is stretched and nothing grows off the canvas.
+ */
+const getPlacedTransform = (
+  overlay: Overlay,
+  from: Resolution,
+  to: Resolution
+): BoxTransform => {
+  const ratioX = to.width / from.width;
+  const ratioY = to.height / from.height;
+  const scale = Math.min(ratioX, ratioY);
+  const centerX = overlay.left + overlay.width / 2;
+  const centerY = overlay.top + overlay.height / 2;
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    dx: centerX * ratioX - centerX * scale,
+    dy: centerY * ratioY - centerY * scale,
+  };
+};
+
+/**
+ * Shrinks and then moves a transformed text box so it sits inside the safe
+ * area of the canvas. Text is sized from its box, so shrinking the box
+ * shrinks the text with it.
+ */
+const fitToSafeArea = (
+  overlay: Overlay,
+  transform: BoxTransform,
+  to: Resolution,
+  safeMargin: number
+): BoxTransform => {
+  const margin = Math.min(to.width, to.height) * safeMargin;
+  const width = overlay.width * transform.scaleX;
+  const height = overlay.height * transform.scaleY;
+  const left = overlay.left * transform.scaleX + transform.dx;
+  const top = overlay.top * transform.scaleY + transform.dy;
+
+  const fit = Math.min(
+    1,
+    (to.width - margin * 2) / width,
+    (to.height - margin * 2) / height
+  );
+  const fittedWidth = width * fit;
+  const fittedHeight = height * fit;
+  const fittedLeft = left + (width - fittedWidth) / 2;
+  const fittedTop = top + (height - fittedHeight) / 2;
+
+  const clamp = (value: number, size: number, canvasSize: number) =>
+    Math.min(Math.max(value, margin), canvasSize - margin - size);
+  const shiftX = clamp(fittedLeft, fittedWidth, to.width) - fittedLeft;
+  const shiftY = clamp(fittedTop, fittedHeight, to.height) - fittedTop;
+
+  return {
+    scaleX: transform.scaleX * fit,
+    scaleY: transform.scaleY * fit,
+    dx: transform.dx * fit + (left + width / 2) * (1 - fit) + shiftX,
+    dy: transform.dy * fit + (top + height / 2) * (1 - fit) + shiftY,
+  };
+};
+
+const transformValue = (
+  property: KeyframeProperty,
+  value: number,
+  transform: BoxTransform
+): number => {
+  switch (property) {
+    case "left":
+      return value * transform.scaleX + transform.dx;
+    case "top":
+      return value * transform.scaleY + transform.dy;
+    case "width":
+      return Math.max(1, value * transform.scaleX);
+    case "height":
+      return Math.max(1, value * transform.scaleY);
+    default:
+      return value;
+  }
+};
+
+const applyTransform = (overlay: Overlay, transform: BoxTransform): Overlay => {
+  const keyframes = overlay.keyframes
+    ? (Object.fromEntries(
+        Object.entries(overlay.keyframes).map(([property, frames]) => [
+          property,
+          frames?.map((keyframe) => ({
+            ...keyframe,
+            value: Math.round(
+              transformValue(property as KeyframeProperty, keyframe.value, transform)
+            ),
+          })),
+        ])
+      ) as OverlayKeyframes)
+    : undefined;
+
+  return {
+    ...overlay,
+    left: Math.round(transformValue("left", overlay.left, transform)),
+    top: Math.round(transformValue("top", overlay.top, transform)),
+    width: Math.round(transformValue("width", overlay.width, transform)),
+    height: Math.round(transformValue("height", overlay.height, transform)),
+    ...(keyframes && { keyframes }),
+  } as Overlay;
+};
+
+/**
+ * Lays overlays out again for a canvas of another shape:
+ * - photos and videos that fill the frame are stretched over the new canvas
+ *   and fitted to it with cover or contain, keeping their focal point in view
+ * - everything else keeps its relative position and is scaled evenly
+ * - text and captions are then kept inside the safe margins
+ *
+ * Keyframed positions and sizes are moved along with the overlay.
+ */
+export const reframeOverlays = (
+  overlays: Overlay[],
+  from: Resolution,
+  to: Resolution,
+  options: ReframeOptions = DEFAULT_REFRAME_OPTIONS
+): Overlay[] => {
+  if (from.width === to.width && from.height === to.height) return overlays;
+
+  return overlays.map((overlay) => {
+    if (overlay.type === OverlayType.SOUND) return overlay;
+
+    if (fillsFrame(overlay, from)) {
+      const reframed = applyTransform(overlay, {
+        scaleX: to.width / from.width,
+        scaleY: to.height / from.height,
+        dx: 0,
+        dy: 0,
+      });
+      return {
+        ...reframed,
+        styles: { ...reframed.styles, objectFit: options.mediaFit },
+      } as Overlay;
+    }
+
+    const transform = getPlacedTransform(overlay, from, to);
+    return applyTransform(
+      overlay,
+      isText(overlay)
+        ? fitToSafeArea(overlay, transform, to, options.safeMargin)
+        : transform
+    );
+  });
+};
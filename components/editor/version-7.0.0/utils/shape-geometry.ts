@@ -0,0 +1,299 @@
+import { ShapeKind } from "../types";
+
+export const SHAPE_KINDS: ShapeKind[] = [
+  "rectangle",
+  "ellipse",
+  "line",
+  "arrow",
+  "polygon",
+  "star",
+];
+
+/** Default sides of a polygon and points of a star */
+export const DEFAULT_SHAPE_SIDES: Record<"polygon" | "star", number> = {
+  polygon: 6,
+  star: 5,
+};
+
+export const DEFAULT_STAR_INNER_RADIUS = 0.5;
+
+export type GradientStop = {
+  offset: number; // 0 to 1
+  color: string;
+};
+
+export type ParsedGradient =
+  | {
+      kind: "linear";
+      // Start and end points relative to the bounding box (0 to 1)
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      stops: GradientStop[];
+    }
+  | {
+      kind: "radial";
+      stops: GradientStop[];
+    };
+
+/**
+ * Reads the shape kind stored in an overlay's content, falling back to a rectangle
+ */
+export const getShapeKind = (content: string | undefined): ShapeKind =>
+  SHAPE_KINDS.includes(content as ShapeKind)
+    ? (content as ShapeKind)
+    : "rectangle";
+
+const formatPoints = (points: Array<[number, number]>): string =>
+  points
+    .map(([x, y]) => `${Number(x.toFixed(2))},${Number(y.toFixed(2))}`)
+    .join(" ");
+
+/**
+ * Points of a regular polygon fitted to the box, first vertex pointing up
+ */
+export const getPolygonPoints = (
+  width: number,
+  height: number,
+  sides: number,
+  inset: number = 0
+): string => {
+  const count = Math.max(3, Math.round(sides));
+  const rx = Math.max(0, width / 2 - inset);
+  const ry = Math.max(0, height / 2 - inset);
+  const points: Array<[number, number]> = [];
+
+  for (let i = 0; i < count; i++) {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    points.push([width / 2 + rx * Math.cos(angle), height / 2 + ry * Math.sin(angle)]);
+  }
+
+  return formatPoints(points);
+};
+
+/**
+ * Points of a star fitted to the box, alternating outer and inner vertices
+ */
+export const getStarPoints = (
+  width: number,
+  height: number,
+  points: number,
+  innerRadius: number = DEFAULT_STAR_INNER_RADIUS,
+  inset: number = 0
+): string => {
+  const count = Math.max(3, Math.round(points));
+  const ratio = Math.min(1, Math.max(0.05, innerRadius));
+  const rx = Math.max(0, width / 2 - inset);
+  const ry = Math.max(0, height / 2 - inset);
+  const vertices: Array<[number, number]> = [];
+
+  for (let i = 0; i < count * 2; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / count;
+    const scale = i % 2 === 0 ? 1 : ratio;
+    vertices.push([
+      width / 2 + rx * scale * Math.cos(angle),
+      height / 2 + ry * scale * Math.sin(angle),
+    ]);
+  }
+
+  return formatPoints(vertices);
+};
+
+/**
+ * Block arrow pointing right: a shaft of half the height and a triangular head
+ */
+export const getArrowPoints = (
+  width: number,
+  height: number,
+  inset: number = 0
+): string => {
+  const left = inset;
+  const right = Math.max(left, width - inset);
+  const top = inset;
+  const bottom = Math.max(top, height - inset);
+  const middle = height / 2;
+  const shaftHalf = (bottom - top) / 4;
+  const headStart = Math.max(left, right - Math.min((right - left) * 0.4, bottom - top));
+
+  return formatPoints([
+    [left, middle - shaftHalf],
+    [headStart, middle - shaftHalf],
+    [headStart, top],
+    [right, middle],
+    [headStart, bottom],
+    [headStart, middle + shaftHalf],
+    [left, middle + shaftHalf],
+  ]);
+};
+
+/**
+ * Splits on commas that are not inside parentheses, e.g. inside rgba()
+ */
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+};
+
+const DIRECTION_ANGLES: Record<string, number> = {
+  "to top": 0,
+  "to top right": 45,
+  "to right top": 45,
+  "to right": 90,
+  "to bottom right": 135,
+  "to right bottom": 135,
+  "to bottom": 180,
+  "to bottom left": 225,
+  "to left bottom": 225,
+  "to left": 270,
+  "to top left": 315,
+  "to left top": 315,
+};
+
+const parseAngle = (value: string): number | null => {
+  const direction = DIRECTION_ANGLES[value.toLowerCase().replace(/\s+/g, " ")];
+  if (direction !== undefined) return direction;
+
+  const match = value.match(/^(-?[\d.]+)(deg|turn|rad)$/);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1]);
+  if (match[2] === "turn") return amount * 360;
+  if (match[2] === "rad") return (amount * 180) / Math.PI;
+  return amount;
+};
+
+/**
+ * Parses color stops; stops without a position are spread evenly between
+ * their neighbours like CSS does
+ */
+const parseStops = (parts: string[]): GradientStop[] => {
+  const raw = parts.map((part) => {
+    const match = part.match(/^(.*?)\s+(-?[\d.]+)%$/);
+    return match
+      ? { color: match[1].trim(), offset: parseFloat(match[2]) / 100 }
+      : { color: part, offset: null as number | null };
+  });
+
+  if (raw.length === 0) return [];
+  if (raw[0].offset === null) raw[0].offset = 0;
+  if (raw[raw.length - 1].offset === null) raw[raw.length - 1].offset = 1;
+
+  let lastKnown = 0;
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i].offset === null) continue;
+    const gap = i - lastKnown;
+    for (let j = lastKnown + 1; j < i; j++) {
+      raw[j].offset =
+        raw[lastKnown].offset! +
+        ((raw[i].offset! - raw[lastKnown].offset!) * (j - lastKnown)) / gap;
+    }
+    lastKnown = i;
+  }
+
+  return raw.map(({ color, offset }) => ({
+    color,
+    offset: Math.min(1, Math.max(0, offset!)),
+  }));
+};
+
+/**
+ * Converts a CSS linear-gradient() or radial-gradient() into values usable
+ * by an SVG gradient. Returns null for anything it can't read.
+ */
+export const parseGradient = (
+  gradient: string | undefined
+): ParsedGradient | null => {
+  if (!gradient) return null;
+
+  const match = gradient.trim().match(/^(linear|radial)-gradient\((.*)\)$/i);
+  if (!match) return null;
+
+  const parts = splitTopLevel(match[2]);
+  if (match[1].toLowerCase() === "radial") {
+    // Shape and position (e.g. "circle at center") are not colors
+    const stops = parseStops(
+      /^(circle|ellipse|closest|farthest|at\s)/i.test(parts[0] ?? "")
+        ? parts.slice(1)
+        : parts
+    );
+    return stops.length >= 2 ? { kind: "radial", stops } : null;
+  }
+
+  const angle = parseAngle(parts[0] ?? "");
+  const stops = parseStops(angle === null ? parts : parts.slice(1));
+  if (stops.length < 2) return null;
+
+  // CSS angles start at the top and turn clockwise; default is "to bottom"
+  const radians = (((angle ?? 180) % 360) * Math.PI) / 180;
+  const dx = Math.sin(radians) / 2;
+  const dy = -Math.cos(radians) / 2;
+
+  return {
+    kind: "linear",
+    x1: 0.5 - dx,
+    y1: 0.5 - dy,
+    x2: 0.5 + dx,
+    y2: 0.5 + dy,
+    stops,
+  };
+};
+
+/**
+ * Converts a CSS box-shadow into a drop-shadow() filter so the shadow
+ * follows the drawn outline instead of the overlay box. Inset shadows have
+ * no drop-shadow equivalent and are ignored.
+ */
+export const boxShadowToDropShadow = (
+  boxShadow: string | undefined
+): string | undefined => {
+  if (!boxShadow || boxShadow === "none") return undefined;
+
+  const filters = splitTopLevel(boxShadow)
+    .filter((shadow) => !/\binset\b/.test(shadow))
+    .map((shadow) => {
+      const tokens = shadow.match(/[^\s(]+(\([^)]*\))?/g) ?? [];
+      const lengths = tokens.filter((token) => /^-?[\d.]+(px)?$/.test(token));
+      const color = tokens.filter((token) => !lengths.includes(token)).join(" ");
+      const [x = "0", y = "0", blur = "0"] = lengths;
+      const px = (value: string) => (value.endsWith("px") ? value : `${value}px`);
+      return `drop-shadow(${px(x)} ${px(y)} ${px(blur)}${color ? ` ${color}` : ""})`;
+    });
+
+  return filters.length > 0 ? filters.join(" ") : undefined;
+};
+
+/**
+ * Builds a two-stop CSS linear gradient as edited in the shape style panel
+ */
+export const buildLinearGradient = (
+  angle: number,
+  from: string,
+  to: string
+): string => `linear-gradient(${Math.round(angle)}deg, ${from}, ${to})`;
+
+/**
+ * Reads back the CSS angle of a parsed linear gradient, in degrees from 0 to 359
+ */
+export const getGradientAngle = (gradient: ParsedGradient): number => {
+  if (gradient.kind !== "linear") return 180;
+  const degrees =
+    (Math.atan2(gradient.x2 - gradient.x1, gradient.y1 - gradient.y2) * 180) /
+    Math.PI;
+  return Math.round((degrees + 360) % 360);
+};
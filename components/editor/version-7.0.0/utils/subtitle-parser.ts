@@ -0,0 +1,272 @@
+import { Caption, CaptionWord } from "../types";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+/** Why a part of a subtitle file could not be read */
+export type SubtitleIssueCode =
+  | "empty"
+  | "missingHeader"
+  | "missingTiming"
+  | "invalidTimestamp"
+  | "endBeforeStart"
+  | "missingText";
+
+/** A problem found while parsing, with the 1-based line it was found on */
+export type SubtitleIssue = {
+  line: number;
+  code: SubtitleIssueCode;
+  text?: string;
+};
+
+export type SubtitleParseResult = {
+  format: SubtitleFormat;
+  captions: Caption[];
+  issues: SubtitleIssue[];
+};
+
+// hh:mm:ss,mmm for SRT, [hh:]mm:ss.mmm for WebVTT; both separators are accepted
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/;
+// Inline WebVTT timestamp tags used for karaoke-style word timing
+const INLINE_TIMESTAMP = /<((?:\d+:)?\d{1,2}:\d{1,2}[.,]\d{1,3})>/g;
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+/**
+ * Parses an SRT or WebVTT timestamp into milliseconds, or null when invalid
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+
+  const [, hours = "0", minutes, seconds, fraction] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  return (
+    Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, "0"))
+  );
+};
+
+/**
+ * Removes styling from cue text: HTML-like tags (<b>, <i>, <font>, <c.class>,
+ * <v Speaker>, inline timestamps), ASS override blocks such as {\an8}, and
+ * character entities
+ */
+export const stripSubtitleTags = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&[a-z]+;|&#\d+;/gi, (entity) => ENTITIES[entity] ?? entity);
+
+/**
+ * Splits a cue into words and gives each one a share of the cue duration
+ * proportional to its length, so long words stay on screen longer
+ */
+export const estimateWordTimings = (
+  text: string,
+  startMs: number,
+  endMs: number
+): CaptionWord[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const weights = words.map((word) => word.length + 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const duration = endMs - startMs;
+
+  let cursor = startMs;
+  return words.map((word, index) => {
+    const wordStart = cursor;
+    cursor =
+      index === words.length - 1
+        ? endMs
+        : cursor + (duration * weights[index]) / totalWeight;
+    return {
+      word,
+      startMs: Math.round(wordStart),
+      endMs: Math.round(cursor),
+      confidence: 1,
+    };
+  });
+};
+
+/**
+ * Uses WebVTT inline timestamps (`Hello <00:00:01.500>world`) as word start
+ * times. Returns null when the cue has none.
+ */
+const getInlineWordTimings = (
+  rawText: string,
+  startMs: number,
+  endMs: number
+): CaptionWord[] | null => {
+  const matches = Array.from(rawText.matchAll(INLINE_TIMESTAMP));
+  if (matches.length === 0) return null;
+
+  const segments: { text: string; startMs: number }[] = [];
+  let cursor = 0;
+  let segmentStart = startMs;
+  for (const match of matches) {
+    segments.push({ text: rawText.slice(cursor, match.index), startMs: segmentStart });
+    segmentStart = parseTimestamp(match[1]) ?? segmentStart;
+    cursor = (match.index ?? 0) + match[0].length;
+  }
+  segments.push({ text: rawText.slice(cursor), startMs: segmentStart });
+
+  const words: CaptionWord[] = [];
+  segments.forEach((segment, index) => {
+    const segmentEnd = segments[index + 1]?.startMs ?? endMs;
+    const text = stripSubtitleTags(segment.text).trim();
+    if (!text) return;
+    words.push(
+      ...estimateWordTimings(
+        text,
+        Math.max(startMs, segment.startMs),
+        Math.min(endMs, Math.max(segment.startMs, segmentEnd))
+      )
+    );
+  });
+
+  return words.length > 0 ? words : null;
+};
+
+/**
+ * Guesses the format from the file name, then from the WEBVTT header
+ */
+export const detectSubtitleFormat = (
+  content: string,
+  fileName?: string
+): SubtitleFormat => {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "vtt" || extension === "srt") return extension;
+  return content.replace(/^\uFEFF/, "").startsWith("WEBVTT") ? "vtt" : "srt";
+};
+
+type Block = { line: number; lines: string[] };
+
+/**
+ * Splits the file into blank-line separated blocks, keeping the line number
+ * where each block starts
+ */
+const splitBlocks = (lines: string[]): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  lines.forEach((text, index) => {
+    if (text.trim() === "") {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(text);
+  });
+
+  return blocks;
+};
+
+/**
+ * Parses SRT or WebVTT subtitles into captions with estimated per-word timings.
+ *
+ * Multi-line cues become a single caption. Styling tags are removed, and
+ * WebVTT inline timestamps are used for word timings when present. Every
+ * malformed cue is reported in `issues` with its line number; callers should
+ * not import a file that has issues.
+ */
+export const parseSubtitles = (
+  content: string,
+  fileName?: string
+): SubtitleParseResult => {
+  const format = detectSubtitleFormat(content, fileName);
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const issues: SubtitleIssue[] = [];
+  const captions: Caption[] = [];
+
+  let blocks = splitBlocks(lines);
+
+  if (format === "vtt") {
+    if (!lines[0]?.startsWith("WEBVTT")) {
+      issues.push({ line: 1, code: "missingHeader" });
+    }
+    // Header, comments and style/region definitions carry no cues
+    blocks = blocks.filter(
+      (block, index) =>
+        !(index === 0 && block.lines[0].startsWith("WEBVTT")) &&
+        !/^(NOTE|STYLE|REGION)(\s|$)/.test(block.lines[0])
+    );
+  }
+
+  for (const block of blocks) {
+    const timingIndex = block.lines.findIndex((text) => text.includes("-->"));
+    // Cue numbers (SRT) and identifiers (WebVTT) may only precede the timing line
+    if (timingIndex === -1 || timingIndex > 1) {
+      issues.push({ line: block.line, code: "missingTiming", text: block.lines[0] });
+      continue;
+    }
+
+    const timingLine = block.line + timingIndex;
+    const [startText, rest = ""] = block.lines[timingIndex].split("-->");
+    // WebVTT cue settings (align:start, position:10%...) follow the end time
+    const endText = rest.trim().split(/\s+/)[0] ?? "";
+    const startMs = parseTimestamp(startText);
+    const endMs = parseTimestamp(endText);
+
+    if (startMs === null || endMs === null) {
+      issues.push({
+        line: timingLine,
+        code: "invalidTimestamp",
+        text: block.lines[timingIndex].trim(),
+      });
+      continue;
+    }
+    if (endMs <= startMs) {
+      issues.push({
+        line: timingLine,
+        code: "endBeforeStart",
+        text: block.lines[timingIndex].trim(),
+      });
+      continue;
+    }
+
+    const rawText = block.lines.slice(timingIndex + 1).join(" ");
+    const text = stripSubtitleTags(rawText).replace(/\s+/g, " ").trim();
+    if (!text) {
+      issues.push({ line: timingLine, code: "missingText" });
+      continue;
+    }
+
+    const words =
+      (format === "vtt" && getInlineWordTimings(rawText, startMs, endMs)) ||
+      estimateWordTimings(text, startMs, endMs);
+
+    captions.push({
+      text,
+      startMs,
+      endMs,
+      timestampMs: null,
+      confidence: null,
+      words,
+    });
+  }
+
+  if (captions.length === 0 && issues.length === 0) {
+    issues.push({ line: 1, code: "empty" });
+  }
+
+  captions.sort((a, b) => a.startMs - b.startMs);
+
+  return { format, captions, issues };
+};
@@ -0,0 +1,623 @@
+import { Overlay, OverlayType, RippleScope, TimelineEditMode } from "../types";
+import { MAIN_TRACK_ROW } from "../constants";
+import { getStartTrimUpdates, hasRowCollision } from "./timeline-edits";
+
+const getEnd = (overlay: Overlay) => overlay.from + overlay.durationInFrames;
+
+/**
+ * How an edit treats the items around it
+ * @property mode - Push, overwrite, ripple or magnetic editing
+ * @property scope - Rows that ripple edits move
+ * @property fixedIds - Items that must stay where they are, such as those on locked tracks
+ */
+export type EditModeOptions = {
+  mode: TimelineEditMode;
+  scope: RippleScope;
+  fixedIds?: number[];
+  fps?: number; // Frame rate of the project, for trimming captions timed in ms
+};
+
+/**
+ * Whether edits on `row` move the items after them: every row in ripple
+ * mode, only the main track in magnetic mode
+ */
+export const ripplesRow = (mode: TimelineEditMode, row: number): boolean =>
+  mode === "ripple" || (mode === "magnetic" && row === MAIN_TRACK_ROW);
+
+/**
+ * Timeline frame where the media of an overlay starts. It moves with the clip
+ * but not when an edge is trimmed, which is what linked items follow.
+ */
+const getContentStart = (overlay: Overlay): number => {
+  if (overlay.type === OverlayType.VIDEO) {
+    return overlay.from - (overlay.videoStartTime || 0);
+  }
+  if (overlay.type === OverlayType.SOUND) {
+    return overlay.from - (overlay.startFromSound || 0);
+  }
+  return overlay.from;
+};
+
+/** Captions and sounds can be linked to a clip */
+export const canBeLinked = (overlay: Overlay): boolean =>
+  overlay.type === OverlayType.CAPTION || overlay.type === OverlayType.SOUND;
+
+/**
+ * Links captions and sounds to a clip so they move with it. The selection
+ * must hold exactly one video clip; the other items are linked to it.
+ */
+export const linkOverlays = (overlays: Overlay[], ids: number[]): Overlay[] => {
+  const clips = overlays.filter(
+    (overlay) => ids.includes(overlay.id) && overlay.type === OverlayType.VIDEO
+  );
+  if (clips.length !== 1) return overlays;
+
+  const clipId = clips[0].id;
+  return overlays.map((overlay) =>
+    ids.includes(overlay.id) && canBeLinked(overlay)
+      ? { ...overlay, linkedTo: clipId }
+      : overlay
+  );
+};
+
+/**
+ * Unlinks the overlays, and the items linked to them when they are clips
+ */
+export const unlinkOverlays = (overlays: Overlay[], ids: number[]): Overlay[] =>
+  overlays.map((overlay) => {
+    if (overlay.linkedTo === undefined) return overlay;
+    if (!ids.includes(overlay.id) && !ids.includes(overlay.linkedTo)) {
+      return overlay;
+    }
+    return { ...overlay, linkedTo: undefined };
+  });
+
+/**
+ * Moves linked captions and sounds along with their clip: items whose clip
+ * moved between `before` and `after` are shifted by the same number of
+ * frames. Items the edit already changed are left alone, and so are items
+ * that would overlap something at their new place.
+ */
+export const followLinkedOverlays = (
+  before: Overlay[],
+  after: Overlay[],
+  fixedIds: number[] = []
+): Overlay[] => {
+  const beforeById = new Map(before.map((overlay) => [overlay.id, overlay]));
+  const afterById = new Map(after.map((overlay) => [overlay.id, overlay]));
+
+  let result = after;
+  after.forEach((overlay, index) => {
+    if (overlay.linkedTo === undefined || fixedIds.includes(overlay.id)) return;
+    if (beforeById.get(overlay.id) !== overlay) return;
+
+    const clipBefore = beforeById.get(overlay.linkedTo);
+    const clipAfter = afterById.get(overlay.linkedTo);
+    if (!clipBefore || !clipAfter) return;
+
+    const delta = getContentStart(clipAfter) - getContentStart(clipBefore);
+    if (delta === 0 || overlay.from + delta < 0) return;
+
+    const moved = { ...overlay, from: overlay.from + delta };
+    if (hasRowCollision(result, [moved])) return;
+
+    result = result.map((o, i) => (i === index ? moved : o));
+  });
+
+  return result;
+};
+
+/**
+ * Whether a clip's audio can be detached: it plays at normal speed and has no
+ * detached audio yet
+ */
+export const canDetachAudio = (overlays: Overlay[], clip: Overlay): boolean =>
+  clip.type === OverlayType.VIDEO &&
+  (clip.speed ?? 1) === 1 &&
+  !overlays.some(
+    (overlay) =>
+      overlay.linkedTo === clip.id &&
+      overlay.type === OverlayType.SOUND &&
+      overlay.src === clip.src
+  );
+
+/**
+ * Moves the audio of a clip into a sound overlay linked to it, on the first
+ * free row below the clip that isn't in `unavailableRows`. The clip is muted
+ * and hands its volume, fades and envelope over to the sound, which plays the
+ * same part of the file. Returns null when the clip's audio can't be detached.
+ */
+export const detachAudio = (
+  overlays: Overlay[],
+  clipId: number,
+  newId: number,
+  unavailableRows: number[] = []
+): Overlay[] | null => {
+  const clip = overlays.find((overlay) => overlay.id === clipId);
+  if (!clip || clip.type !== OverlayType.VIDEO || !canDetachAudio(overlays, clip)) {
+    return null;
+  }
+
+  const { volume, fadeInFrames, fadeOutFrames, volumeEnvelope, ...clipStyles } =
+    clip.styles;
+  const sound: Overlay = {
+    id: newId,
+    type: OverlayType.SOUND,
+    content: clip.content,
+    src: clip.src,
+    from: clip.from,
+    durationInFrames: clip.durationInFrames,
+    startFromSound: clip.videoStartTime ?? 0,
+    mediaDurationInFrames: clip.mediaDurationInFrames,
+    row: clip.row + 1,
+    left: 0,
+    top: 0,
+    width: 0,
+    height: 0,
+    rotation: 0,
+    isDragging: false,
+    linkedTo: clip.id,
+    styles: { volume, fadeInFrames, fadeOutFrames, volumeEnvelope },
+  };
+  while (unavailableRows.includes(sound.row) || hasRowCollision(overlays, [sound])) {
+    sound.row++;
+  }
+
+  return [
+    ...overlays.map((overlay) =>
+      overlay.id === clip.id
+        ? ({ ...clip, styles: { ...clipStyles, volume: 0 } } as Overlay)
+        : overlay
+    ),
+    sound,
+  ];
+};
+
+/**
+ * Items linked to `id`, or the clip it is linked to, that play across
+ * `frame`: the ones a cut there could also split
+ */
+export const getLinkedPartners = (
+  overlays: Overlay[],
+  id: number,
+  frame: number
+): Overlay[] => {
+  const overlay = overlays.find((o) => o.id === id);
+  if (!overlay) return [];
+
+  return overlays.filter(
+    (other) =>
+      other.id !== id &&
+      (other.linkedTo === id || other.id === overlay.linkedTo) &&
+      other.from < frame &&
+      getEnd(other) > frame
+  );
+};
+
+/**
+ * After a clip was cut at `frame`, links the items after the cut, including
+ * parts of linked items cut there too, to the second part of the clip
+ */
+export const relinkAfterSplit = (overlays: Overlay[], frame: number): Overlay[] =>
+  overlays.map((overlay) => {
+    if (overlay.linkedTo === undefined || overlay.from < frame) return overlay;
+    const clip = overlays.find((o) => o.id === overlay.linkedTo);
+    if (!clip || getEnd(clip) !== frame) return overlay;
+
+    const secondPart = overlays.find(
+      (o) =>
+        o.type === OverlayType.VIDEO &&
+        clip.type === OverlayType.VIDEO &&
+        o.row === clip.row &&
+        o.src === clip.src &&
+        o.from === frame
+    );
+    return secondPart ? { ...overlay, linkedTo: secondPart.id } : overlay;
+  });
+
+/**
+ * Moves the clip an item is linked to by `delta` frames, with its other
+ * linked items, after the item itself was moved alone. Returns null when the
+ * clip doesn't fit there.
+ */
+export const moveLinkedClip = (
+  overlays: Overlay[],
+  itemId: number,
+  delta: number
+): Overlay[] | null => {
+  const item = overlays.find((overlay) => overlay.id === itemId);
+  const clip = overlays.find((overlay) => overlay.id === item?.linkedTo);
+  if (!clip || clip.from + delta < 0) return null;
+
+  const moved = { ...clip, from: clip.from + delta };
+  if (hasRowCollision(overlays, [moved])) return null;
+
+  return followLinkedOverlays(
+    overlays,
+    overlays.map((overlay) => (overlay.id === clip.id ? moved : overlay)),
+    [itemId]
+  );
+};
+
+/**
+ * Shifts every overlay on `rows` that starts at or after `at` by `delta`
+ * frames. Linked items are left to follow their clip and `excludeIds` stay
+ * where they are. Shifts to the left are shortened so nothing ends up
+ * overlapping an item that stays or starting before frame 0.
+ */
+export const shiftOverlaysAfter = (
+  overlays: Overlay[],
+  at: number,
+  delta: number,
+  rows: number[] | "all",
+  excludeIds: number[] = []
+): Overlay[] => {
+  const isShifted = (overlay: Overlay) =>
+    overlay.from >= at &&
+    overlay.linkedTo === undefined &&
+    !excludeIds.includes(overlay.id) &&
+    (rows === "all" || rows.includes(overlay.row));
+
+  let amount = delta;
+  if (delta < 0) {
+    overlays.filter(isShifted).forEach((overlay) => {
+      const previousEnd = overlays
+        .filter(
+          (other) =>
+            other.row === overlay.row &&
+            other.from < overlay.from &&
+            !isShifted(other)
+        )
+        .reduce((end, other) => Math.max(end, getEnd(other)), 0);
+      amount = Math.max(amount, previousEnd - overlay.from);
+    });
+  }
+  if (amount === 0) return overlays;
+
+  return overlays.map((overlay) =>
+    isShifted(overlay) ? { ...overlay, from: overlay.from + amount } : overlay
+  );
+};
+
+const getScopeRows = ({ scope }: EditModeOptions, row: number) =>
+  scope === "all" ? ("all" as const) : [row];
+
+/** Overlays the edit changed or added, compared by reference */
+const getChanged = (before: Overlay[], after: Overlay[]) => {
+  const unchanged = new Set(before);
+  return after.filter((overlay) => !unchanged.has(overlay));
+};
+
+/**
+ * Places an overlay at its `from` and `row` and moves the items from there on
+ * later by its length to make room. An insert point inside another item moves
+ * to that item's nearer edge. The overlay may be new or already on the
+ * timeline. Returns null when the result would overlap.
+ */
+export const rippleInsert = (
+  overlays: Overlay[],
+  overlay: Overlay,
+  options: EditModeOptions
+): Overlay[] | null => {
+  const hit = overlays.find(
+    (other) =>
+      other.id !== overlay.id &&
+      other.row === overlay.row &&
+      other.from < overlay.from &&
+      getEnd(other) > overlay.from
+  );
+  let at = overlay.from;
+  if (hit) {
+    at = overlay.from - hit.from < hit.durationInFrames / 2 ? hit.from : getEnd(hit);
+  }
+
+  const placed = { ...overlay, from: at } as Overlay;
+  const withPlaced = overlays.some((o) => o.id === overlay.id)
+    ? overlays.map((o) => (o.id === overlay.id ? placed : o))
+    : [...overlays, placed];
+
+  const result = shiftOverlaysAfter(
+    withPlaced,
+    at,
+    overlay.durationInFrames,
+    getScopeRows(options, overlay.row),
+    [overlay.id, ...(options.fixedIds ?? [])]
+  );
+  return hasRowCollision(result, getChanged(overlays, result)) ? null : result;
+};
+
+/**
+ * Changes the length of an overlay from one edge and moves the items after it
+ * by the same amount, so the space behind the clip stays the same. Trimming
+ * the start keeps the clip where it starts and skips into its media instead.
+ * Returns null when the result would overlap.
+ */
+export const rippleTrim = (
+  overlays: Overlay[],
+  id: number,
+  edge: "start" | "end",
+  newDuration: number,
+  options: EditModeOptions
+): Overlay[] | null => {
+  const overlay = overlays.find((o) => o.id === id);
+  if (!overlay || newDuration < 1) return null;
+
+  const lengthChange = newDuration - overlay.durationInFrames;
+  const trimmed = {
+    ...overlay,
+    ...(edge === "start"
+      ? getStartTrimUpdates(overlay, overlay.from, overlay.from - lengthChange, options.fps)
+      : {}),
+    durationInFrames: newDuration,
+  } as Overlay;
+
+  const result = shiftOverlaysAfter(
+    overlays.map((o) => (o.id === id ? trimmed : o)),
+    getEnd(overlay),
+    lengthChange,
+    getScopeRows(options, overlay.row),
+    [id, ...(options.fixedIds ?? [])]
+  );
+  return hasRowCollision(result, getChanged(overlays, result)) ? null : result;
+};
+
+/**
+ * Removes overlays. Where the mode ripples, the items after each removed one
+ * move back by its length, on its row or, with the "all" scope, on every row.
+ * Items linked to a removed clip are unlinked and stay.
+ */
+export const deleteOverlaysInMode = (
+  overlays: Overlay[],
+  ids: number[],
+  options: EditModeOptions
+): Overlay[] => {
+  const removed = overlays
+    .filter(
+      (overlay) => ids.includes(overlay.id) && ripplesRow(options.mode, overlay.row)
+    )
+    .sort((a, b) => b.from - a.from);
+
+  let result = unlinkOverlays(
+    overlays.filter((overlay) => !ids.includes(overlay.id)),
+    ids
+  );
+  removed.forEach((overlay) => {
+    result = shiftOverlaysAfter(
+      result,
+      getEnd(overlay),
+      -overlay.durationInFrames,
+      getScopeRows(options, overlay.row),
+      options.fixedIds
+    );
+  });
+  return options.mode === "magnetic" ? compactMainTrack(result, options) : result;
+};
+
+/**
+ * Places an overlay at its `from` and `row`, cutting away whatever it covers
+ * on that row: covered items are removed, partly covered ones are trimmed and
+ * an item it lands in the middle of is split around it.
+ */
+export const overwriteOverlay = (
+  overlays: Overlay[],
+  overlay: Overlay,
+  fps?: number
+): Overlay[] => {
+  const start = overlay.from;
+  const end = getEnd(overlay);
+  let nextId = Math.max(overlay.id, ...overlays.map((o) => o.id)) + 1;
+  const removedIds: number[] = [];
+  const result: Overlay[] = [];
+
+  overlays.forEach((other) => {
+    if (other.id === overlay.id) {
+      result.push(overlay);
+      return;
+    }
+    if (other.row !== overlay.row || other.from >= end || getEnd(other) <= start) {
+      result.push(other);
+      return;
+    }
+
+    const keepsHead = other.from < start;
+    const keepsTail = getEnd(other) > end;
+    if (!keepsHead && !keepsTail) {
+      removedIds.push(other.id);
+      return;
+    }
+
+    if (keepsHead) {
+      // The head no longer ends at the cut its transition belonged to
+      result.push({
+        ...other,
+        durationInFrames: start - other.from,
+        ...(other.type === OverlayType.VIDEO ? { transition: undefined } : {}),
+      } as Overlay);
+    }
+    if (keepsTail) {
+      result.push({
+        ...other,
+        ...getStartTrimUpdates(other, other.from, end, fps),
+        id: keepsHead ? nextId++ : other.id,
+        from: end,
+        durationInFrames: getEnd(other) - end,
+      } as Overlay);
+    }
+  });
+
+  if (!overlays.some((o) => o.id === overlay.id)) result.push(overlay);
+
+  return unlinkOverlays(result, removedIds);
+};
+
+/**
+ * Places an overlay at its `from` and `row` and pushes the items it runs into
+ * aside on that row, nothing more than needed: items from its start on move
+ * later, items before it move earlier, and each pushed item pushes the next.
+ * Returns null when an item would have to move before frame 0 or is fixed.
+ */
+export const pushOverlay = (
+  overlays: Overlay[],
+  overlay: Overlay,
+  fixedIds: number[] = []
+): Overlay[] | null => {
+  const onRow = overlays.filter(
+    (other) => other.id !== overlay.id && other.row === overlay.row
+  );
+  const pushedFrom = new Map<number, number>();
+
+  let cursor = getEnd(overlay);
+  for (const other of onRow
+    .filter((o) => o.from >= overlay.from)
+    .sort((a, b) => a.from - b.from)) {
+    if (other.from >= cursor) break;
+    pushedFrom.set(other.id, cursor);
+    cursor += other.durationInFrames;
+  }
+
+  cursor = overlay.from;
+  for (const other of onRow
+    .filter((o) => o.from < overlay.from)
+    .sort((a, b) => b.from - a.from)) {
+    if (getEnd(other) <= cursor) break;
+    cursor -= other.durationInFrames;
+    if (cursor < 0) return null;
+    pushedFrom.set(other.id, cursor);
+  }
+
+  if (fixedIds.some((id) => pushedFrom.has(id))) return null;
+
+  const result = overlays.map((other) => {
+    if (other.id === overlay.id) return overlay;
+    const from = pushedFrom.get(other.id);
+    return from === undefined ? other : { ...other, from };
+  });
+  return overlays.some((o) => o.id === overlay.id) ? result : [...result, overlay];
+};
+
+/**
+ * Closes the gaps on the given rows so their items play back to back from
+ * frame 0. Linked and fixed items are not packed; the other items skip past
+ * them.
+ */
+export const closeGaps = (
+  overlays: Overlay[],
+  rows: number[],
+  fixedIds: number[] = []
+): Overlay[] =>
+  rows.reduce((current, row) => {
+    const isPacked = (overlay: Overlay) =>
+      overlay.linkedTo === undefined && !fixedIds.includes(overlay.id);
+    const onRow = current
+      .filter((overlay) => overlay.row === row)
+      .sort((a, b) => a.from - b.from);
+    const obstacles = onRow.filter((overlay) => !isPacked(overlay));
+
+    const packed = new Map<number, number>();
+    let cursor = 0;
+    onRow.filter(isPacked).forEach((item) => {
+      let from = cursor;
+      obstacles.forEach((other) => {
+        if (from < getEnd(other) && from + item.durationInFrames > other.from) {
+          from = getEnd(other);
+        }
+      });
+      from = Math.min(from, item.from);
+      packed.set(item.id, from);
+      cursor = from + item.durationInFrames;
+    });
+
+    const next = current.map((overlay) => {
+      const from = packed.get(overlay.id);
+      return from === undefined || from === overlay.from
+        ? overlay
+        : { ...overlay, from };
+    });
+    return followLinkedOverlays(current, next, fixedIds);
+  }, overlays);
+
+/**
+ * Removes one gap on a row by moving the items after it back
+ */
+export const removeGap = (
+  overlays: Overlay[],
+  row: number,
+  gapStart: number,
+  gapEnd: number,
+  fixedIds: number[] = []
+): Overlay[] =>
+  followLinkedOverlays(
+    overlays,
+    shiftOverlaysAfter(overlays, gapEnd, gapStart - gapEnd, [row], fixedIds),
+    fixedIds
+  );
+
+/**
+ * Keeps the main track free of gaps, as magnetic mode does after every edit.
+ * With the "all" scope, items on the other rows move along with the main
+ * track as far as they can.
+ */
+export const compactMainTrack = (
+  overlays: Overlay[],
+  options: EditModeOptions
+): Overlay[] => {
+  const fixedIds = options.fixedIds ?? [];
+  let result = overlays;
+  if (options.scope === "all") {
+    const mainItems = overlays
+      .filter((overlay) => overlay.row === MAIN_TRACK_ROW)
+      .sort((a, b) => b.from - a.from);
+    // From the last gap back, so earlier gaps still start where they did
+    mainItems.forEach((item, index) => {
+      const previous = mainItems[index + 1];
+      const gap = item.from - (previous ? getEnd(previous) : 0);
+      if (gap > 0 && !fixedIds.includes(item.id)) {
+        result = followLinkedOverlays(
+          result,
+          shiftOverlaysAfter(result, item.from, -gap, "all", fixedIds),
+          fixedIds
+        );
+      }
+    });
+  }
+  return closeGaps(result, [MAIN_TRACK_ROW], fixedIds);
+};
+
+/**
+ * Applies a move or trim of one overlay in an editing mode. `edited` is the
+ * overlay at its new place and length; it may also be a new overlay being
+ * inserted with the "move" action. Push mode pushes aside what the overlay
+ * runs into, rows that ripple insert and trim with ripple edits, and other
+ * rows overwrite what the overlay covers. Linked items follow their clip and
+ * magnetic mode closes the main track up afterwards.
+ * Returns null when the edit does not fit.
+ */
+export const applyOverlayEdit = (
+  overlays: Overlay[],
+  edited: Overlay,
+  action: "move" | "resize-start" | "resize-end",
+  options: EditModeOptions
+): Overlay[] | null => {
+  const isExisting = overlays.some((overlay) => overlay.id === edited.id);
+
+  let result: Overlay[] | null;
+  if (options.mode === "push") {
+    result = pushOverlay(overlays, edited, options.fixedIds);
+  } else if (!ripplesRow(options.mode, edited.row)) {
+    result = overwriteOverlay(overlays, edited, options.fps);
+  } else if (action === "move" || !isExisting) {
+    result = rippleInsert(overlays, edited, options);
+  } else {
+    result = rippleTrim(
+      overlays,
+      edited.id,
+      action === "resize-start" ? "start" : "end",
+      edited.durationInFrames,
+      options
+    );
+  }
+  if (!result) return null;
+
+  result = followLinkedOverlays(overlays, result, options.fixedIds);
+  return options.mode === "magnetic" ? compactMainTrack(result, options) : result;
+};
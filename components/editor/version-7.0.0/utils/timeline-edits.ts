@@ -0,0 +1,154 @@
+import { Overlay, OverlayType } from "../types";
+import { FPS } from "../constants";
+import { shiftKeyframes } from "./animation-keyframes";
+import { isAudioOverlay, shiftVolumeEnvelope } from "./volume-envelope";
+
+/**
+ * Changes an overlay needs when its start edge is trimmed from
+ * `startPosition` to `newFrom`: media start offsets and caption timings
+ * skip the trimmed part, and keyframes and volume envelope points stay at
+ * the same timeline position.
+ */
+export const getStartTrimUpdates = (
+  overlay: Overlay,
+  startPosition: number,
+  newFrom: number,
+  fps: number = FPS
+): Partial<Overlay> => {
+  let updates: Partial<Overlay> = {};
+  const trimmedFrames = Math.max(0, newFrom - startPosition);
+  const trimmedMs = (trimmedFrames / fps) * 1000;
+
+  if (overlay.type === OverlayType.VIDEO) {
+    updates = {
+      videoStartTime: Math.max(0, (overlay.videoStartTime || 0) + trimmedFrames),
+    };
+  } else if (overlay.type === OverlayType.SOUND) {
+    updates = {
+      startFromSound: Math.max(0, (overlay.startFromSound || 0) + trimmedFrames),
+    };
+  } else if (overlay.type === OverlayType.CAPTION) {
+    const adjustTiming = (time: number) => Math.max(0, time - trimmedMs);
+    updates = {
+      captions: overlay.captions.map((caption) => ({
+        ...caption,
+        startMs: adjustTiming(caption.startMs),
+        endMs: adjustTiming(caption.endMs),
+        words: caption.words.map((word) => ({
+          ...word,
+          startMs: adjustTiming(word.startMs),
+          endMs: adjustTiming(word.endMs),
+        })),
+      })),
+    };
+  }
+
+  if (overlay.keyframes) {
+    updates = {
+      ...updates,
+      keyframes: shiftKeyframes(overlay.keyframes, startPosition - newFrom),
+    };
+  }
+
+  // Volume envelope points also stay where they are on the timeline
+  if (isAudioOverlay(overlay) && overlay.styles.volumeEnvelope) {
+    updates = {
+      ...updates,
+      styles: {
+        ...overlay.styles,
+        volumeEnvelope: shiftVolumeEnvelope(
+          overlay.styles.volumeEnvelope,
+          startPosition - newFrom
+        ),
+      },
+    } as Partial<Overlay>;
+  }
+
+  return updates;
+};
+
+const overlapsInRow = (a: Overlay, b: Overlay) =>
+  a.row === b.row &&
+  a.from < b.from + b.durationInFrames &&
+  b.from < a.from + a.durationInFrames;
+
+/**
+ * Whether any of the edited overlays overlaps another overlay on its row,
+ * including the other edited ones
+ */
+export const hasRowCollision = (overlays: Overlay[], edited: Overlay[]): boolean => {
+  const editedIds = new Set(edited.map((overlay) => overlay.id));
+  const others = overlays.filter((overlay) => !editedIds.has(overlay.id));
+
+  return edited.some(
+    (overlay, index) =>
+      others.some((other) => overlapsInRow(overlay, other)) ||
+      edited.slice(index + 1).some((other) => overlapsInRow(overlay, other))
+  );
+};
+
+/**
+ * Moves a set of overlays together on the timeline. Returns the moved
+ * overlays, or null when the move would leave the timeline or make them
+ * overlap other items.
+ */
+export const moveOverlaysInTime = (
+  overlays: Overlay[],
+  ids: number[],
+  deltaFrames: number,
+  deltaRows: number,
+  maxRows: number
+): Overlay[] | null => {
+  const moved = overlays
+    .filter((overlay) => ids.includes(overlay.id))
+    .map((overlay) => ({
+      ...overlay,
+      from: overlay.from + deltaFrames,
+      row: overlay.row + deltaRows,
+    }));
+
+  const outOfBounds = moved.some(
+    (overlay) => overlay.from < 0 || overlay.row < 0 || overlay.row >= maxRows
+  );
+  if (outOfBounds || hasRowCollision(overlays, moved)) return null;
+
+  return moved;
+};
+
+/**
+ * Trims or extends the same edge of every overlay in the set by the same
+ * number of frames. Returns null when an overlay would get shorter than one
+ * frame, start before zero or overlap another item.
+ */
+export const resizeOverlaysInTime = (
+  overlays: Overlay[],
+  ids: number[],
+  edge: "start" | "end",
+  deltaFrames: number,
+  fps: number = FPS
+): Overlay[] | null => {
+  const resized: Overlay[] = overlays
+    .filter((overlay) => ids.includes(overlay.id))
+    .map((overlay) => {
+      if (edge === "end") {
+        return {
+          ...overlay,
+          durationInFrames: overlay.durationInFrames + deltaFrames,
+        };
+      }
+      const newFrom = overlay.from + deltaFrames;
+      return {
+        ...overlay,
+        ...getStartTrimUpdates(overlay, overlay.from, newFrom, fps),
+        from: newFrom,
+        durationInFrames: overlay.durationInFrames - deltaFrames,
+      } as Overlay;
+    });
+
+  const invalid = resized.some(
+    (overlay) => overlay.from < 0 || overlay.durationInFrames < 1
+  );
+  if (invalid || hasRowCollision(overlays, resized)) return null;
+
+  return resized;
+};
@@ -0,0 +1,176 @@
+import { Overlay, OverlayType, TimelineTrack } from "../types";
+import { ROW_HEIGHT, TRACK_COLORS } from "../constants";
+
+/**
+ * New track for row `index`. The id only has to be unique among `existing`.
+ */
+export const createTrack = (
+  index: number,
+  existing: TimelineTrack[] = []
+): TimelineTrack => {
+  const ids = new Set(existing.map((track) => track.id));
+  let id = `track-${index + 1}`;
+  for (let n = 2; ids.has(id); n++) {
+    id = `track-${index + 1}-${n}`;
+  }
+
+  return {
+    id,
+    name: "",
+    color: TRACK_COLORS[index % TRACK_COLORS.length],
+    height: ROW_HEIGHT,
+    muted: false,
+    solo: false,
+    locked: false,
+    hidden: false,
+  };
+};
+
+/**
+ * Tracks for `rowCount` rows: the stored ones, followed by default tracks for
+ * rows that have none yet
+ */
+export const resolveTracks = (
+  tracks: TimelineTrack[],
+  rowCount: number
+): TimelineTrack[] => {
+  if (tracks.length >= rowCount) return tracks;
+
+  const resolved = [...tracks];
+  while (resolved.length < rowCount) {
+    resolved.push(createTrack(resolved.length, resolved));
+  }
+  return resolved;
+};
+
+/**
+ * Number of rows the timeline needs: one per track, at least enough for
+ * every overlay, and never fewer than `minRows`
+ */
+export const getRowCount = (
+  tracks: TimelineTrack[],
+  overlays: Overlay[],
+  minRows: number
+): number => {
+  const maxRow = overlays.reduce((max, overlay) => Math.max(max, overlay.row || 0), -1);
+  return Math.max(tracks.length, maxRow + 1, minRows);
+};
+
+/**
+ * Moves the track at `fromIndex` to `toIndex`, shifting the tracks in
+ * between, and moves the overlays along with their tracks
+ */
+export const moveTrack = (
+  tracks: TimelineTrack[],
+  overlays: Overlay[],
+  fromIndex: number,
+  toIndex: number
+): { tracks: TimelineTrack[]; overlays: Overlay[] } => {
+  if (
+    fromIndex === toIndex ||
+    fromIndex < 0 ||
+    toIndex < 0 ||
+    fromIndex >= tracks.length ||
+    toIndex >= tracks.length
+  ) {
+    return { tracks, overlays };
+  }
+
+  const nextTracks = [...tracks];
+  const [moved] = nextTracks.splice(fromIndex, 1);
+  nextTracks.splice(toIndex, 0, moved);
+
+  // Old row -> new row
+  const rowMap = new Map(
+    tracks.map((track, row) => [row, nextTracks.indexOf(track)])
+  );
+
+  const nextOverlays = overlays.map((overlay) => {
+    const row = rowMap.get(overlay.row);
+    return row === undefined || row === overlay.row ? overlay : { ...overlay, row };
+  });
+
+  return { tracks: nextTracks, overlays: nextOverlays };
+};
+
+/**
+ * Removes the track at `index` together with its overlays. Overlays on the
+ * tracks below move up one row.
+ */
+export const removeTrack = (
+  tracks: TimelineTrack[],
+  overlays: Overlay[],
+  index: number
+): { tracks: TimelineTrack[]; overlays: Overlay[] } => ({
+  tracks: tracks.filter((_, row) => row !== index),
+  overlays: overlays
+    .filter((overlay) => overlay.row !== index)
+    .map((overlay) =>
+      overlay.row > index ? { ...overlay, row: overlay.row - 1 } : overlay
+    ),
+});
+
+export const isRowLocked = (tracks: TimelineTrack[], row: number): boolean =>
+  !!tracks[row]?.locked;
+
+/**
+ * Whether the track is heard: not muted and, when any track is soloed,
+ * soloed itself
+ */
+export const isTrackAudible = (
+  tracks: TimelineTrack[],
+  row: number
+): boolean => {
+  const track = tracks[row];
+  if (!track) return true;
+  if (track.muted) return false;
+  return !tracks.some((other) => other.solo) || track.solo;
+};
+
+/**
+ * The overlays as they should play: overlays on hidden tracks are left out,
+ * sounds on silenced tracks are left out and videos on silenced tracks
+ * play without audio. Used for both the preview and the render input.
+ */
+export const getPlayableOverlays = (
+  overlays: Overlay[],
+  tracks: TimelineTrack[]
+): Overlay[] =>
+  overlays.flatMap((overlay) => {
+    if (tracks[overlay.row]?.hidden) return [];
+    if (isTrackAudible(tracks, overlay.row)) return [overlay];
+
+    if (overlay.type === OverlayType.SOUND) return [];
+    if (overlay.type === OverlayType.VIDEO) {
+      return [{ ...overlay, styles: { ...overlay.styles, volume: 0 } }];
+    }
+    return [overlay];
+  });
+
+/**
+ * Height in pixels of each of the first `rowCount` rows
+ */
+export const getTrackHeights = (
+  tracks: TimelineTrack[],
+  rowCount: number
+): number[] =>
+  Array.from({ length: rowCount }, (_, row) => tracks[row]?.height ?? ROW_HEIGHT);
+
+/**
+ * Row under a vertical offset (in pixels from the top of the first row),
+ * clamped to the existing rows
+ */
+export const getRowAtOffset = (heights: number[], offset: number): number => {
+  let top = 0;
+  for (let row = 0; row < heights.length; row++) {
+    top += heights[row];
+    if (offset < top) return row;
+  }
+  return Math.max(0, heights.length - 1);
+};
+
+/**
+ * Vertical offset in pixels of the top of `row`
+ */
+export const getRowTop = (heights: number[], row: number): number =>
+  heights.slice(0, row).reduce((sum, height) => sum + height, 0);
@@ -0,0 +1,249 @@
+import { Overlay, OverlayType } from "../types";
+import { FPS } from "../constants";
+import { getStartTrimUpdates } from "./timeline-edits";
+
+/**
+ * Length in frames of the source media an overlay plays, when it is known
+ */
+export type SourceDurationLookup = (overlay: Overlay) => number | undefined;
+
+/** Only video and sound clips play a part of their source */
+export const hasSourceMedia = (overlay: Overlay): boolean =>
+  overlay.type === OverlayType.VIDEO || overlay.type === OverlayType.SOUND;
+
+const getSpeed = (overlay: Overlay) =>
+  overlay.type === OverlayType.VIDEO ? overlay.speed ?? 1 : 1;
+
+const getEnd = (overlay: Overlay) => overlay.from + overlay.durationInFrames;
+
+/**
+ * Source frames a clip plays, from `start` up to (not including) `end`
+ */
+export const getSourceRange = (
+  overlay: Overlay
+): { start: number; end: number } => {
+  let start = 0;
+  if (overlay.type === OverlayType.VIDEO) start = overlay.videoStartTime ?? 0;
+  if (overlay.type === OverlayType.SOUND) start = overlay.startFromSound ?? 0;
+  return { start, end: start + overlay.durationInFrames * getSpeed(overlay) };
+};
+
+const withSourceStart = (overlay: Overlay, start: number): Overlay => {
+  if (overlay.type === OverlayType.VIDEO) return { ...overlay, videoStartTime: start };
+  if (overlay.type === OverlayType.SOUND) return { ...overlay, startFromSound: start };
+  return overlay;
+};
+
+/**
+ * Moves the start edge of an overlay to `newFrom`, keeping its end where it
+ * is. Clips skip into or back out of their source by the same amount.
+ */
+const moveStartEdge = (overlay: Overlay, newFrom: number, fps: number): Overlay => {
+  const moved = {
+    ...overlay,
+    ...getStartTrimUpdates(overlay, overlay.from, newFrom, fps),
+    from: newFrom,
+    durationInFrames: getEnd(overlay) - newFrom,
+  } as Overlay;
+  if (!hasSourceMedia(overlay)) return moved;
+
+  const { start } = getSourceRange(overlay);
+  return withSourceStart(
+    moved,
+    Math.max(0, start + (newFrom - overlay.from) * getSpeed(overlay))
+  );
+};
+
+/** The item on the same row that ends closest before `overlay` starts */
+const findPrevious = (overlays: Overlay[], overlay: Overlay) =>
+  overlays
+    .filter(
+      (other) =>
+        other.id !== overlay.id &&
+        other.row === overlay.row &&
+        getEnd(other) <= overlay.from
+    )
+    .sort((a, b) => getEnd(b) - getEnd(a))[0];
+
+/** The item on the same row that starts closest after `overlay` ends */
+const findNext = (overlays: Overlay[], overlay: Overlay) =>
+  overlays
+    .filter(
+      (other) =>
+        other.id !== overlay.id &&
+        other.row === overlay.row &&
+        other.from >= getEnd(overlay)
+    )
+    .sort((a, b) => a.from - b.from)[0];
+
+/**
+ * Limits on how far the end of `overlay` can move back or forward before the
+ * clip gets shorter than a frame or runs past the end of its source
+ */
+const getEndLimits = (overlay: Overlay, getSourceDuration: SourceDurationLookup) => {
+  const sourceDuration = hasSourceMedia(overlay) ? getSourceDuration(overlay) : undefined;
+  return {
+    min: 1 - overlay.durationInFrames,
+    max:
+      sourceDuration === undefined
+        ? Infinity
+        : (sourceDuration - getSourceRange(overlay).end) / getSpeed(overlay),
+  };
+};
+
+/**
+ * Limits on how far the start of `overlay` can move back or forward before
+ * the clip gets shorter than a frame or starts before its source does
+ */
+const getStartLimits = (overlay: Overlay) => ({
+  min: hasSourceMedia(overlay)
+    ? -getSourceRange(overlay).start / getSpeed(overlay)
+    : -Infinity,
+  max: overlay.durationInFrames - 1,
+});
+
+const clampDelta = (delta: number, min: number, max: number): number | null => {
+  const low = Math.ceil(min);
+  const high = Math.floor(max);
+  if (low > high) return null;
+  return Math.min(Math.max(delta, low), high);
+};
+
+const replaceOverlays = (overlays: Overlay[], changed: Overlay[]): Overlay[] => {
+  const byId = new Map(changed.map((overlay) => [overlay.id, overlay]));
+  return overlays.map((overlay) => byId.get(overlay.id) ?? overlay);
+};
+
+/**
+ * Slip: the clip stays where it is and plays an earlier or later part of its
+ * source. Dragging right by `deltaFrames` shows earlier material, as if the
+ * source were pulled along under the clip. Stops at either end of the source.
+ * Returns the changed clip, or null when it can't slip.
+ */
+export const slipClip = (
+  overlays: Overlay[],
+  id: number,
+  deltaFrames: number,
+  getSourceDuration: SourceDurationLookup
+): Overlay[] | null => {
+  const overlay = overlays.find((o) => o.id === id);
+  if (!overlay || !hasSourceMedia(overlay)) return null;
+
+  const { start, end } = getSourceRange(overlay);
+  const sourceDuration = getSourceDuration(overlay);
+  const shift = clampDelta(
+    -deltaFrames * getSpeed(overlay),
+    -start,
+    sourceDuration === undefined ? Infinity : sourceDuration - end
+  );
+  if (shift === null) return null;
+
+  return replaceOverlays(overlays, [withSourceStart(overlay, start + shift)]);
+};
+
+/**
+ * Slide: the clip keeps its source range and moves along its row. A
+ * neighbour it touches gives up or takes the frames it moves over: the
+ * previous item's end and the next item's start follow the clip. Against a
+ * gap the clip can move up to the next item. Returns the changed items, or
+ * null when the clip can't move.
+ */
+export const slideClip = (
+  overlays: Overlay[],
+  id: number,
+  deltaFrames: number,
+  getSourceDuration: SourceDurationLookup,
+  fps: number = FPS
+): Overlay[] | null => {
+  const overlay = overlays.find((o) => o.id === id);
+  if (!overlay) return null;
+
+  const previous = findPrevious(overlays, overlay);
+  const next = findNext(overlays, overlay);
+  const previousTouches = !!previous && getEnd(previous) === overlay.from;
+  const nextTouches = !!next && next.from === getEnd(overlay);
+
+  // A touching neighbour is trimmed along; otherwise the gap is the limit
+  const previousLimits = previousTouches
+    ? getEndLimits(previous!, getSourceDuration)
+    : { min: previous ? getEnd(previous) - overlay.from : -overlay.from, max: Infinity };
+  const nextLimits = nextTouches
+    ? getStartLimits(next!)
+    : { min: -Infinity, max: next ? next.from - getEnd(overlay) : Infinity };
+  const min = Math.max(previousLimits.min, nextLimits.min);
+  const max = Math.min(previousLimits.max, nextLimits.max);
+
+  const delta = clampDelta(deltaFrames, min, max);
+  if (delta === null) return null;
+
+  const changed: Overlay[] = [{ ...overlay, from: overlay.from + delta }];
+  if (previousTouches) {
+    changed.push({
+      ...previous!,
+      durationInFrames: previous!.durationInFrames + delta,
+    } as Overlay);
+  }
+  if (nextTouches) {
+    changed.push(moveStartEdge(next!, next!.from + delta, fps));
+  }
+  return replaceOverlays(overlays, changed);
+};
+
+/**
+ * The two clips meeting at one edge of a clip, when another item touches it
+ * there
+ */
+export const findCut = (
+  overlays: Overlay[],
+  id: number,
+  edge: "start" | "end"
+): { outgoing: Overlay; incoming: Overlay } | null => {
+  const overlay = overlays.find((o) => o.id === id);
+  if (!overlay) return null;
+
+  if (edge === "end") {
+    const next = findNext(overlays, overlay);
+    return next && next.from === getEnd(overlay)
+      ? { outgoing: overlay, incoming: next }
+      : null;
+  }
+  const previous = findPrevious(overlays, overlay);
+  return previous && getEnd(previous) === overlay.from
+    ? { outgoing: previous, incoming: overlay }
+    : null;
+};
+
+/**
+ * Roll: moves the cut at one edge of a clip by `deltaFrames`. The outgoing
+ * clip ends and the incoming clip starts at the new cut, so their combined
+ * length stays the same. Stops where either clip would lose its last frame or
+ * run out of source. Returns the changed clips, or null without a cut there.
+ */
+export const rollCut = (
+  overlays: Overlay[],
+  id: number,
+  edge: "start" | "end",
+  deltaFrames: number,
+  getSourceDuration: SourceDurationLookup,
+  fps: number = FPS
+): Overlay[] | null => {
+  const cut = findCut(overlays, id, edge);
+  if (!cut) return null;
+
+  const endLimits = getEndLimits(cut.outgoing, getSourceDuration);
+  const startLimits = getStartLimits(cut.incoming);
+  const delta = clampDelta(
+    deltaFrames,
+    Math.max(endLimits.min, startLimits.min),
+    Math.min(endLimits.max, startLimits.max)
+  );
+  if (delta === null) return null;
+
+  return replaceOverlays(overlays, [
+    {
+      ...cut.outgoing,
+      durationInFrames: cut.outgoing.durationInFrames + delta,
+    } as Overlay,
+    moveStartEdge(cut.incoming, cut.incoming.from + delta, fps),
+  ]);
+};
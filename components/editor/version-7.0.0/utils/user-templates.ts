@@ -0,0 +1,271 @@
+import Cookies from "js-cookie";
+import {
+  AspectRatio,
+  Overlay,
+  OverlayType,
+  TemplateCreator,
+  TemplateOverlay,
+  TemplatePlaceholder,
+} from "../types";
+import {
+  deleteLocalTemplate,
+  loadLocalTemplates,
+  saveLocalTemplate,
+} from "./indexdb-helper";
+import { getLinkedMediaType, getMediaName } from "./media-relink";
+import { createGroupId } from "./overlay-selection";
+
+/** Width of the thumbnail rendered for a new template */
+export const TEMPLATE_THUMBNAIL_WIDTH = 480;
+
+/**
+ * Overlays that can be marked as placeholders, with the kind of content the
+ * user would put in their place and a label to start from
+ */
+export const getPlaceholderCandidates = (
+  overlays: Overlay[]
+): TemplatePlaceholder[] =>
+  [...overlays]
+    .sort((a, b) => a.from - b.from || a.row - b.row)
+    .flatMap((overlay): TemplatePlaceholder[] => {
+      if (overlay.type === OverlayType.TEXT) {
+        return [{ overlayId: overlay.id, kind: "text", label: overlay.content.slice(0, 40) }];
+      }
+      const mediaType = getLinkedMediaType(overlay);
+      if (mediaType && "src" in overlay) {
+        return [{ overlayId: overlay.id, kind: "media", label: getMediaName(overlay.src) }];
+      }
+      return [];
+    });
+
+/**
+ * Builds a user template from the overlays of a project. Saving over an
+ * existing template keeps its id and creation date.
+ */
+export const buildUserTemplate = ({
+  id,
+  name,
+  description,
+  category,
+  tags,
+  overlays,
+  placeholders,
+  aspectRatio,
+  thumbnail,
+  createdBy,
+  existing,
+  now = new Date(),
+}: {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  tags: string[];
+  overlays: Overlay[];
+  placeholders: TemplatePlaceholder[];
+  aspectRatio?: AspectRatio;
+  thumbnail?: string;
+  createdBy: TemplateCreator;
+  existing?: TemplateOverlay | null;
+  now?: Date;
+}): TemplateOverlay => {
+  const overlayIds = new Set(overlays.map((overlay) => overlay.id));
+  return {
+    id: existing?.id ?? id,
+    name: name.trim(),
+    description: description.trim(),
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    updatedAt: now.toISOString(),
+    createdBy: existing?.createdBy ?? createdBy,
+    category: category.trim() || "Custom",
+    tags: Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean))),
+    thumbnail: thumbnail ?? existing?.thumbnail,
+    duration: overlays.reduce(
+      (end, overlay) => Math.max(end, overlay.from + overlay.durationInFrames),
+      0
+    ),
+    aspectRatio: aspectRatio ?? existing?.aspectRatio,
+    overlays: overlays.map((overlay) => ({ ...overlay, isDragging: false })),
+    // Placeholders of overlays that are no longer in the template are dropped
+    placeholders: placeholders.filter((placeholder) => overlayIds.has(placeholder.overlayId)),
+    isUserTemplate: true,
+  };
+};
+
+/**
+ * Overlays to put on the timeline for a template, each under a new id.
+ * Links, groups and the sound an audio visualiser follows are carried over
+ * to the new ids; links to overlays that are not in the template are
+ * dropped. Text placeholders take the text the user entered for them; media
+ * placeholders are returned under their new ids so they can be replaced.
+ */
+export const instantiateTemplate = (
+  template: TemplateOverlay,
+  texts: Record<number, string> = {}
+): { overlays: Overlay[]; mediaSlots: number[] } => {
+  const newIds = new Map<number, number>();
+  template.overlays.forEach((overlay, index) => {
+    // Generate new IDs for each overlay to avoid conflicts
+    newIds.set(overlay.id, Math.floor(Math.random() * 1000000) + index);
+  });
+  const newGroupIds = new Map<string, string>();
+
+  const overlays = template.overlays.map((overlay) => {
+    const placed = { ...overlay, id: newIds.get(overlay.id)! } as Overlay;
+    const text = texts[overlay.id];
+    if (placed.type === OverlayType.TEXT && text?.trim()) {
+      placed.content = text;
+    }
+    if (overlay.linkedTo !== undefined) {
+      placed.linkedTo = newIds.get(overlay.linkedTo);
+    }
+    if (overlay.groupId) {
+      if (!newGroupIds.has(overlay.groupId)) {
+        newGroupIds.set(overlay.groupId, createGroupId());
+      }
+      placed.groupId = newGroupIds.get(overlay.groupId);
+    }
+    if (placed.type === OverlayType.STICKER && typeof placed.visualiser?.source === "number") {
+      const source = newIds.get(placed.visualiser.source);
+      placed.visualiser = { ...placed.visualiser, source: source ?? "mix" };
+    }
+    return placed;
+  });
+
+  const mediaSlots = (template.placeholders ?? [])
+    .filter((placeholder) => placeholder.kind === "media" && newIds.has(placeholder.overlayId))
+    .map((placeholder) => newIds.get(placeholder.overlayId)!);
+
+  return { overlays, mediaSlots };
+};
+
+/** Reads an image as a data URL, so it can be stored with the template */
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/*
+ * Persistence. Templates are stored per user on the backend; when it cannot
+ * be reached they are kept in IndexedDB on this device instead, and listed
+ * alongside the backend ones.
+ */
+
+const templateListeners = new Set<() => void>();
+
+/**
+ * Calls `listener` whenever a user template is saved or deleted, so every
+ * list of templates stays current. Returns a function that unsubscribes.
+ */
+export const onUserTemplatesChange = (listener: () => void) => {
+  templateListeners.add(listener);
+  return () => {
+    templateListeners.delete(listener);
+  };
+};
+
+const notifyTemplateListeners = () => {
+  templateListeners.forEach((listener) => listener());
+};
+
+const backendRequest = async (path: string, init?: RequestInit) => {
+  const token = Cookies.get("token");
+  const backendUrl =
+    process.env.NEXT_PUBLIC_BACKEND_URL || "https://backend.reelmotion.ai";
+
+  const response = await fetch(`${backendUrl}/editor/${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: "Bearer " + token,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (data.code !== 200) {
+    throw new Error(data.message || "Template request failed");
+  }
+  return data;
+};
+
+/**
+ * The user's templates, from the backend and from this device. A template
+ * found in both places is taken from the backend.
+ */
+export const fetchUserTemplates = async (): Promise<TemplateOverlay[]> => {
+  const [remote, local] = await Promise.all([
+    backendRequest("get-templates")
+      .then((data) =>
+        (data.templates ?? []).map(
+          (item: { id: string; template_array: string }) =>
+            ({ ...JSON.parse(item.template_array), id: item.id }) as TemplateOverlay
+        )
+      )
+      .catch((error) => {
+        console.error("Error fetching templates from backend:", error);
+        return [] as TemplateOverlay[];
+      }),
+    loadLocalTemplates().catch(() => [] as TemplateOverlay[]),
+  ]);
+
+  const remoteIds = new Set(remote.map((template: TemplateOverlay) => template.id));
+  return [...remote, ...local.filter((template) => !remoteIds.has(template.id))]
+    .map((template) => ({ ...template, isUserTemplate: true }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Saves a user template to the backend, or to this device when the backend
+ * cannot be reached
+ * @returns Where the template ended up
+ */
+export const saveUserTemplate = async (
+  template: TemplateOverlay
+): Promise<{ storedLocally: boolean }> => {
+  let storedLocally = false;
+  try {
+    await backendRequest("save-template", {
+      method: "POST",
+      body: JSON.stringify({
+        template_id: template.id,
+        name: template.name,
+        template_array: JSON.stringify(template),
+      }),
+    });
+    // A copy kept while offline is superseded by the saved one
+    await deleteLocalTemplate(template.id).catch(() => undefined);
+  } catch (error) {
+    console.error("Error saving template to backend, keeping it locally:", error);
+    await saveLocalTemplate(template);
+    storedLocally = true;
+  }
+  notifyTemplateListeners();
+  return { storedLocally };
+};
+
+/**
+ * Deletes a user template from the backend and from this device. Fails only
+ * when the backend could not delete a template that is not kept locally.
+ */
+export const deleteUserTemplate = async (templateId: string): Promise<void> => {
+  const local = await loadLocalTemplates().catch(() => [] as TemplateOverlay[]);
+  const isLocal = local.some((template) => template.id === templateId);
+  try {
+    if (isLocal) await deleteLocalTemplate(templateId);
+    await backendRequest("delete-template", {
+      method: "POST",
+      body: JSON.stringify({ template_id: templateId }),
+    });
+  } catch (error) {
+    if (!isLocal) throw error;
+  } finally {
+    notifyTemplateListeners();
+  }
+};
@@ -0,0 +1,160 @@
+import {
+  AspectRatio,
+  KeyframeProperty,
+  Overlay,
+  OverlayKeyframes,
+  OverlayType,
+  ProjectVariant,
+  ProjectVariants,
+  Resolution,
+  VariantLayout,
+} from "../types";
+import { reframeOverlays } from "./reframe";
+
+/** Keyframed properties that belong to a variant rather than to the timeline */
+const LAYOUT_PROPERTIES: KeyframeProperty[] = ["left", "top", "width", "height", "rotation"];
+
+const isMedia = (overlay: Overlay) =>
+  overlay.type === OverlayType.VIDEO || overlay.type === OverlayType.IMAGE;
+
+export const createVariantId = (): string =>
+  `variant-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createVariant = (
+  aspectRatio: AspectRatio,
+  resolution: Resolution | null = null
+): ProjectVariant => ({
+  id: createVariantId(),
+  aspectRatio,
+  resolution,
+  layouts: {},
+});
+
+/** Canvas size of a variant: its custom resolution, or its ratio's preset size */
+export const getVariantDimensions = (
+  variant: ProjectVariant,
+  getDimensions: (aspectRatio: AspectRatio) => Resolution
+): Resolution => variant.resolution ?? getDimensions(variant.aspectRatio);
+
+const pickKeyframes = (
+  keyframes: OverlayKeyframes | undefined,
+  keep: (property: KeyframeProperty) => boolean
+): OverlayKeyframes | undefined => {
+  if (!keyframes) return undefined;
+  const picked = Object.fromEntries(
+    Object.entries(keyframes).filter(([property]) => keep(property as KeyframeProperty))
+  ) as OverlayKeyframes;
+  return Object.keys(picked).length > 0 ? picked : undefined;
+};
+
+/**
+ * Where an overlay sits on the canvas: position, size, rotation, their
+ * keyframes and, for photos and videos, the crop
+ */
+export const getOverlayLayout = (overlay: Overlay): VariantLayout => {
+  const layout: VariantLayout = {
+    left: overlay.left,
+    top: overlay.top,
+    width: overlay.width,
+    height: overlay.height,
+    rotation: overlay.rotation,
+  };
+  const keyframes = pickKeyframes(overlay.keyframes, (property) =>
+    LAYOUT_PROPERTIES.includes(property)
+  );
+  if (keyframes) layout.keyframes = keyframes;
+  if (overlay.type === OverlayType.VIDEO || overlay.type === OverlayType.IMAGE) {
+    if (overlay.styles.objectFit) layout.objectFit = overlay.styles.objectFit;
+    if (overlay.focalPoint) layout.focalPoint = overlay.focalPoint;
+  }
+  return layout;
+};
+
+/**
+ * Puts an overlay where a layout says. Keyframes of other properties, like
+ * opacity, are shared by all variants and kept.
+ */
+export const applyOverlayLayout = (overlay: Overlay, layout: VariantLayout): Overlay => {
+  const { keyframes: layoutKeyframes, objectFit, focalPoint, ...box } = layout;
+  const keyframes = {
+    ...pickKeyframes(overlay.keyframes, (property) => !LAYOUT_PROPERTIES.includes(property)),
+    ...layoutKeyframes,
+  };
+  const result = {
+    ...overlay,
+    ...box,
+    keyframes: Object.keys(keyframes).length > 0 ? keyframes : undefined,
+  } as Overlay;
+  if (!isMedia(result)) return result;
+
+  return {
+    ...result,
+    focalPoint,
+    styles: { ...result.styles, objectFit },
+  } as Overlay;
+};
+
+/**
+ * Layouts of every overlay shown on the canvas, by overlay id
+ */
+export const captureLayouts = (overlays: Overlay[]): Record<number, VariantLayout> =>
+  Object.fromEntries(
+    overlays
+      .filter((overlay) => overlay.type !== OverlayType.SOUND)
+      .map((overlay) => [overlay.id, getOverlayLayout(overlay)])
+  );
+
+/**
+ * The overlays as laid out in a variant. Overlays the variant has no layout
+ * for, such as ones added while another variant was open, are reframed from
+ * the canvas they were laid out on.
+ */
+export const layoutOverlaysForVariant = (
+  overlays: Overlay[],
+  from: Resolution,
+  variant: ProjectVariant,
+  to: Resolution
+): Overlay[] => {
+  const reframed = reframeOverlays(overlays, from, to);
+  return overlays.map((overlay, index) => {
+    const layout = variant.layouts[overlay.id];
+    return layout ? applyOverlayLayout(overlay, layout) : reframed[index];
+  });
+};
+
+/**
+ * Opens another variant: the layout and resolution of the open one are
+ * stored with it and the overlays are laid out for the canvas of the other
+ */
+export const switchVariant = (
+  state: ProjectVariants,
+  overlays: Overlay[],
+  current: { aspectRatio: AspectRatio; dimensions: Resolution; resolution?: Resolution | null },
+  targetId: string,
+  getDimensions: (aspectRatio: AspectRatio) => Resolution
+): { variants: ProjectVariants; overlays: Overlay[] } | null => {
+  const target = state.variants.find((variant) => variant.id === targetId);
+  if (!target || targetId === state.activeId) return null;
+
+  return {
+    variants: {
+      activeId: targetId,
+      variants: state.variants.map((variant) =>
+        variant.id === state.activeId
+          ? {
+              ...variant,
+              aspectRatio: current.aspectRatio,
+              resolution: current.resolution ?? null,
+              layouts: captureLayouts(overlays),
+            }
+          : variant
+      ),
+    },
+    overlays: layoutOverlaysForVariant(
+      overlays,
+      current.dimensions,
+      target,
+      getVariantDimensions(target, getDimensions)
+    ),
+  };
+};
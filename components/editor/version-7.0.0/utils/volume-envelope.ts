@@ -0,0 +1,189 @@
+import { ClipOverlay, Overlay, OverlayType, SoundOverlay, VolumePoint } from "../types";
+
+/** Overlays whose audio can be faded and shaped with an envelope */
+export type AudioOverlay = ClipOverlay | SoundOverlay;
+
+export const isAudioOverlay = (overlay: Overlay): overlay is AudioOverlay =>
+  overlay.type === OverlayType.VIDEO || overlay.type === OverlayType.SOUND;
+
+const clampGain = (gain: number) => Math.min(1, Math.max(0, gain));
+
+const sortPoints = (points: VolumePoint[]) =>
+  [...points].sort((a, b) => a.frame - b.frame);
+
+/**
+ * Gain of an envelope at `frame`, interpolated linearly between its points.
+ * Before the first point and after the last one the gain holds; an empty
+ * envelope leaves the volume as it is.
+ */
+export const getEnvelopeGain = (
+  points: VolumePoint[] | undefined,
+  frame: number
+): number => {
+  if (!points || points.length === 0) return 1;
+
+  const sorted = sortPoints(points);
+  if (frame <= sorted[0].frame) return clampGain(sorted[0].gain);
+
+  const last = sorted[sorted.length - 1];
+  if (frame >= last.frame) return clampGain(last.gain);
+
+  const nextIndex = sorted.findIndex((point) => point.frame > frame);
+  const previous = sorted[nextIndex - 1];
+  const next = sorted[nextIndex];
+  const progress = (frame - previous.frame) / (next.frame - previous.frame);
+  return clampGain(previous.gain + (next.gain - previous.gain) * progress);
+};
+
+/**
+ * Fade lengths that fit the overlay: when the two fades are longer than the
+ * overlay together, both are shortened in proportion
+ */
+export const getFadeFrames = (
+  styles: AudioOverlay["styles"],
+  durationInFrames: number
+): { fadeIn: number; fadeOut: number } => {
+  const fadeIn = Math.max(0, styles.fadeInFrames ?? 0);
+  const fadeOut = Math.max(0, styles.fadeOutFrames ?? 0);
+  const total = fadeIn + fadeOut;
+  if (total <= durationInFrames || total === 0) return { fadeIn, fadeOut };
+
+  const scale = durationInFrames / total;
+  return { fadeIn: fadeIn * scale, fadeOut: fadeOut * scale };
+};
+
+/**
+ * Gain of the fades at `frame`: rising from silence over the fade-in and
+ * falling back to silence over the fade-out. The fade-in starts after
+ * `fadeInDelayFrames`, silent when there is a fade-in.
+ */
+export const getFadeGain = (
+  styles: AudioOverlay["styles"],
+  durationInFrames: number,
+  frame: number
+): number => {
+  const delay = Math.max(0, styles.fadeInDelayFrames ?? 0);
+  const { fadeIn, fadeOut } = getFadeFrames(styles, durationInFrames - delay);
+  let gain = 1;
+  if (fadeIn > 0 && frame < delay + fadeIn) {
+    gain = Math.min(gain, (frame - delay) / fadeIn);
+  }
+  const untilEnd = durationInFrames - frame;
+  if (fadeOut > 0 && untilEnd < fadeOut) gain = Math.min(gain, untilEnd / fadeOut);
+  return clampGain(gain);
+};
+
+/**
+ * Whether the volume changes over time rather than staying at `volume`
+ */
+export const hasVolumeShaping = (overlay: AudioOverlay): boolean =>
+  (overlay.styles.fadeInFrames ?? 0) > 0 ||
+  (overlay.styles.fadeOutFrames ?? 0) > 0 ||
+  (overlay.styles.volumeEnvelope?.length ?? 0) > 0;
+
+/**
+ * Volume of an overlay at `frame` (relative to its start): its volume times
+ * the envelope and fade gains, and the ducking envelope when it has one.
+ * Used as Remotion's `volume` callback, so the preview and the renders play
+ * the same levels.
+ */
+export const getVolumeAtFrame = (
+  overlay: AudioOverlay,
+  frame: number,
+  duckingEnvelope?: VolumePoint[]
+): number =>
+  clampGain(
+    (overlay.styles.volume ?? 1) *
+      getEnvelopeGain(overlay.styles.volumeEnvelope, frame) *
+      getEnvelopeGain(duckingEnvelope, frame) *
+      getFadeGain(overlay.styles, overlay.durationInFrames, frame)
+  );
+
+/**
+ * The `volume` prop for a Remotion `<Audio>` or `<OffthreadVideo>`: a plain
+ * number when the volume is constant, a per-frame callback otherwise
+ */
+export const getVolumeProp = (
+  overlay: AudioOverlay,
+  duckingEnvelope?: VolumePoint[]
+): number | ((frame: number) => number) =>
+  hasVolumeShaping(overlay) || (duckingEnvelope?.length ?? 0) > 0
+    ? (frame: number) => getVolumeAtFrame(overlay, frame, duckingEnvelope)
+    : overlay.styles.volume ?? 1;
+
+/**
+ * Adds a point, replacing any point already on the same frame
+ */
+export const upsertVolumePoint = (
+  points: VolumePoint[] | undefined,
+  point: VolumePoint
+): VolumePoint[] =>
+  sortPoints([
+    ...(points ?? []).filter((existing) => existing.frame !== point.frame),
+    { frame: Math.round(point.frame), gain: clampGain(point.gain) },
+  ]);
+
+/**
+ * Moves the point at `index` (in frame order), keeping it between its
+ * neighbours so the points stay in order
+ */
+export const moveVolumePoint = (
+  points: VolumePoint[],
+  index: number,
+  point: VolumePoint
+): VolumePoint[] => {
+  const sorted = sortPoints(points);
+  const min = index > 0 ? sorted[index - 1].frame + 1 : -Infinity;
+  const max = index < sorted.length - 1 ? sorted[index + 1].frame - 1 : Infinity;
+  return sorted.map((existing, i) =>
+    i === index
+      ? {
+          frame: Math.min(max, Math.max(min, Math.round(point.frame))),
+          gain: clampGain(point.gain),
+        }
+      : existing
+  );
+};
+
+export const removeVolumePoint = (
+  points: VolumePoint[],
+  index: number
+): VolumePoint[] => sortPoints(points).filter((_, i) => i !== index);
+
+/**
+ * Moves every point by `delta` frames, as when the start of the overlay is
+ * trimmed. Points outside the overlay are kept so extending it again brings
+ * them back.
+ */
+export const shiftVolumeEnvelope = (
+  points: VolumePoint[] | undefined,
+  delta: number
+): VolumePoint[] | undefined =>
+  !points || delta === 0
+    ? points
+    : points.map((point) => ({ ...point, frame: point.frame + delta }));
+
+/**
+ * Splits an envelope at `splitOffset` (relative to the overlay start). Each
+ * half gets a point at the cut holding the gain there, so both halves play
+ * the same levels as the original.
+ */
+export const splitVolumeEnvelope = (
+  points: VolumePoint[] | undefined,
+  splitOffset: number
+): [VolumePoint[] | undefined, VolumePoint[] | undefined] => {
+  if (!points || points.length === 0) return [points, points];
+
+  const gainAtCut = getEnvelopeGain(points, splitOffset);
+  const first = upsertVolumePoint(
+    points.filter((point) => point.frame < splitOffset),
+    { frame: splitOffset, gain: gainAtCut }
+  );
+  const second = upsertVolumePoint(
+    points
+      .filter((point) => point.frame > splitOffset)
+      .map((point) => ({ ...point, frame: point.frame - splitOffset })),
+    { frame: 0, gain: gainAtCut }
+  );
+  return [first, second];
+};
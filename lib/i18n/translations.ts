@@ -25,6 +25,8 @@ export const translations: Record<Language, TranslationDictionary> = {
     "sidebar.uploads": "Uploads",
     "sidebar.stickers": "Stickers",
     "sidebar.template": "Template",
+    "sidebar.transitions": "Transitions",
+    "sidebar.shapes": "Shapes",
     "sidebar.unknown": "Unknown",
     "sidebar.return": "Return",
 
@@ -64,6 +66,42 @@ export const translations: Record<Language, TranslationDictionary> = {
     "header.starting": "Starting...",
     "header.rendering": "Rendering...",
     "header.renderingProgress": "Rendering",
+    "header.renderQueued": "Queued (#{position})",
+    "header.renderBatch": "{index}/{total} · {label}",
+    "header.cancelRender": "Cancel render",
+    "header.moreFormats": "More formats...",
+    "header.stillFrame": "Still frame",
+    "header.saveFramePng": "Save frame as PNG",
+    "header.saveFrameJpeg": "Save frame as JPEG",
+    "header.saveFrameFailed": "Could not render the frame",
+    "export.title": "Export",
+    "export.description": "Choose a format for your export. Presets can be fine-tuned below.",
+    "export.preset.mp4": "MP4",
+    "export.preset.mp4Description": "H.264, plays everywhere",
+    "export.preset.mp4High": "MP4 high quality",
+    "export.preset.mp4HighDescription": "H.264 with less compression",
+    "export.preset.prores": "ProRes master",
+    "export.preset.proresDescription": "ProRes 422 HQ .mov for editing",
+    "export.preset.webm": "WebM",
+    "export.preset.webmDescription": "VP9 for web embeds",
+    "export.preset.gif": "Looping GIF",
+    "export.preset.gifDescription": "Silent, loops forever",
+    "export.preset.mp3": "MP3",
+    "export.preset.mp3Description": "Audio only, 320 kbps",
+    "export.preset.wav": "WAV",
+    "export.preset.wavDescription": "Audio only, uncompressed",
+    "export.resolution": "Resolution",
+    "export.container": "Container",
+    "export.quality": "Quality (CRF)",
+    "export.qualityHint": "{min}-{max}, lower is better. Empty uses the default.",
+    "export.audioBitrate": "Audio bitrate",
+    "export.default": "Default",
+    "export.range": "Range",
+    "export.rangeAll": "Whole timeline",
+    "export.rangeInOut": "In/out points",
+    "export.rangeSelection": "Selected items",
+    "export.rangeReadout": "From {start} to {end}",
+    "export.rangeHint": "Mark in/out points with I and O on the timeline.",
     "header.recentRenders": "Recent Renders",
     "header.noRenders": "No renders yet",
     "header.renderFailed": "Render Failed",
@@ -82,6 +120,7 @@ export const translations: Record<Language, TranslationDictionary> = {
     "header.proQuality": "Pro Quality",
     "header.ultraHd4k": "Ultra HD (4K)",
     "header.eliteQuality": "Elite Quality",
+    "header.captionFiles": "Caption files",
     "header.renderFailedDefault": "Failed to render video. Please try again.",
     "header.back": "Back",
 
@@ -95,8 +134,9 @@ export const translations: Record<Language, TranslationDictionary> = {
     // Toasts (general)
     "toast.videoNameUpdated": "Video name updated successfully",
     "toast.videoNameUpdateFailed": "Failed to update video name",
-    "toast.removedMissingMedia.title": "Removed missing media",
-    "toast.removedMissingMedia.body": "{count} item(s) were removed from the timeline because their files no longer exist.",
+    "toast.offlineMedia.title": "Missing media",
+    "toast.offlineMedia.body": "{count} item(s) use files that no longer exist. They are kept on the timeline, marked offline, until you relink them.",
+    "toast.offlineMedia.leftOut": "{count} item(s) use files that no longer exist and are left out of this render. Relink them to include them.",
 
     // Video panel
     "videoPanel.searchPlaceholder": "Search videos...",
@@ -144,6 +184,17 @@ export const translations: Record<Language, TranslationDictionary> = {
     "soundPanel.stop": "Stop",
     "soundPanel.play": "Play",
     "soundPanel.projectVoice": "Project Voice",
+    "soundPanel.ducking.title": "Duck under",
+    "soundPanel.ducking.description": "Lower this sound while the selected voices speak",
+    "soundPanel.ducking.allVoices": "All voices",
+    "soundPanel.ducking.noSources": "Add a voiceover to the timeline to duck this sound under it",
+    "soundPanel.ducking.analysing": "Analysing...",
+    "soundPanel.ducking.failed": "Could not analyse",
+    "soundPanel.ducking.speechFound": "Lowered under {count} speech passage(s)",
+    "soundPanel.ducking.noSpeech": "No speech found in the selected voices",
+    "soundPanel.ducking.depth": "Depth",
+    "soundPanel.ducking.attack": "Attack",
+    "soundPanel.ducking.release": "Release",
     "soundPanel.addingToTimeline": "Adding to timeline...",
     "soundPanel.renamePlaceholder": "Rename audio...",
     "soundPanel.audioNameUpdated": "Audio name updated successfully",
@@ -163,7 +214,17 @@ export const translations: Record<Language, TranslationDictionary> = {
     "captionPanel.bannerBody": "We're actively improving captions support and would love your feedback!",
     "captionPanel.learnMore": "Learn more about captions",
     "captionPanel.uploadScriptFile": "Upload Script File",
-    "captionPanel.supportedFormats": "Supported formats: .json",
+    "captionPanel.supportedFormats": "Supported formats: .srt, .vtt, .json",
+    "captionPanel.subtitleImported": "Imported {count} captions",
+    "captionPanel.subtitleImportFailed": "Could not import {file}",
+    "captionPanel.subtitleIssueLine": "Line {line}: {reason}",
+    "captionPanel.subtitleIssueMore": "…and {count} more problems",
+    "captionPanel.subtitleIssue.empty": "the file has no subtitles",
+    "captionPanel.subtitleIssue.missingHeader": "WebVTT files must start with WEBVTT",
+    "captionPanel.subtitleIssue.missingTiming": "expected a timing line like 00:00:01,000 --> 00:00:02,000",
+    "captionPanel.subtitleIssue.invalidTimestamp": "invalid timestamp",
+    "captionPanel.subtitleIssue.endBeforeStart": "the cue ends before it starts",
+    "captionPanel.subtitleIssue.missingText": "the cue has no text",
     "captionPanel.scriptPlaceholder": "Type or paste your script here...",
     "captionPanel.clear": "Clear",
     "captionPanel.or": "or",
@@ -240,6 +301,33 @@ export const translations: Record<Language, TranslationDictionary> = {
     "templates.importTitle": "Import template",
     "templates.applyTitle": "Apply Template",
     "templates.applyConfirm": "Are you sure you want to add this template to your timeline? It will replace all existing overlays.",
+    "templates.saveTitle": "Save as template",
+    "templates.saveDescription": "Reuse this project as a starting point. Mark the texts and media to swap out each time it is applied.",
+    "templates.editTitle": "Edit template",
+    "templates.editDescription": "Change the details and placeholders of this template.",
+    "templates.nameLabel": "Name",
+    "templates.descriptionLabel": "Description",
+    "templates.categoryLabel": "Category",
+    "templates.tagsLabel": "Tags",
+    "templates.tagsPlaceholder": "promo, sale, story",
+    "templates.placeholdersLabel": "Placeholders",
+    "templates.placeholdersHint": "Checked items are filled in when the template is applied. Name them so you know what goes where.",
+    "templates.placeholderKind.text": "Text",
+    "templates.placeholderKind.media": "Media",
+    "templates.placeholderUntitled": "Placeholder",
+    "templates.save": "Save template",
+    "templates.update": "Update template",
+    "templates.saved": "Template \"{name}\" saved",
+    "templates.savedLocally": "Template \"{name}\" saved on this device only. It could not be uploaded to your account.",
+    "templates.saveFailed": "Could not save the template",
+    "templates.mine": "Mine",
+    "templates.edit": "Edit template",
+    "templates.delete": "Delete template",
+    "templates.deleteConfirm": "Delete \"{name}\"? This cannot be undone.",
+    "templates.deleted": "Template \"{name}\" deleted",
+    "templates.deleteFailed": "Could not delete the template",
+    "templates.fillPlaceholders": "Fill in the template's texts, or leave them empty to keep the originals:",
+    "templates.mediaSlots": "Choose media for the template's {count} media placeholders",
 
     // Timeline
     "timeline.empty": "Timeline is empty",
@@ -259,6 +347,54 @@ export const translations: Record<Language, TranslationDictionary> = {
     "timeline.unlock": "Unlock",
     "timeline.mute": "Mute",
     "timeline.unmute": "Unmute",
+    "timeline.track.defaultName": "Track {number}",
+    "timeline.track.solo": "Solo",
+    "timeline.track.hide": "Hide",
+    "timeline.track.show": "Show",
+    "timeline.track.rename": "Rename",
+    "timeline.track.color": "Color",
+    "timeline.track.height": "Height",
+    "timeline.track.height.small": "Small",
+    "timeline.track.height.medium": "Medium",
+    "timeline.track.height.large": "Large",
+    "timeline.track.delete": "Delete track",
+    "timeline.track.closeGaps": "Close gaps",
+    "timeline.link": "Link to clip",
+    "timeline.unlink": "Unlink",
+    "timeline.detachAudio": "Detach audio",
+    "timeline.linkedSplit.title": "Linked items not split",
+    "timeline.linkedSplit.body": "Items linked to this one play across the cut.",
+    "timeline.linkedSplit.action": "Split them too",
+    "timeline.linkedMove.title": "Moved apart from its clip",
+    "timeline.linkedMove.body": "The clip this item is linked to stayed where it was.",
+    "timeline.linkedMove.action": "Move clip too",
+    "timeline.editMode.title": "Editing mode",
+    "timeline.editMode.push": "Push",
+    "timeline.editMode.pushDescription": "Items move aside to make room, nothing is cut",
+    "timeline.editMode.overwrite": "Overwrite",
+    "timeline.editMode.overwriteDescription": "Items replace what they are placed over",
+    "timeline.editMode.ripple": "Insert / ripple",
+    "timeline.editMode.rippleDescription": "Later items move to make room or close up",
+    "timeline.editMode.magnetic": "Magnetic main track",
+    "timeline.editMode.magneticDescription": "Ripple edits, and the first track never has gaps",
+    "timeline.editMode.rippleAllRows": "Ripple all rows",
+    "timeline.editMode.closeAllGaps": "Close all gaps",
+    "timeline.trimTool.select": "Select",
+    "timeline.trimTool.selectDescription": "Move and trim clips",
+    "timeline.trimTool.slip": "Slip",
+    "timeline.trimTool.slipDescription": "Change which part of the source a clip plays",
+    "timeline.trimTool.slide": "Slide",
+    "timeline.trimTool.slideDescription": "Move a clip between its neighbours, trimming them",
+    "timeline.trimTool.roll": "Roll",
+    "timeline.trimTool.rollDescription": "Move the cut between two adjacent clips",
+    "timeline.trimTool.in": "IN",
+    "timeline.trimTool.out": "OUT",
+    "timeline.volume.fadeIn": "Fade in",
+    "timeline.volume.fadeOut": "Fade out",
+    "timeline.volume.point": "Volume point: drag to move, double-click to remove",
+    "timeline.volume.line": "Double-click to add a volume point",
+    "timeline.track.lockedTitle": "Track locked",
+    "timeline.track.lockedBody": "Items on locked tracks can't be deleted. Unlock the track first.",
     "timeline.bringForward": "Bring forward",
     "timeline.sendBackward": "Send backward",
     "timeline.undo": "Undo",
@@ -271,6 +407,152 @@ export const translations: Record<Language, TranslationDictionary> = {
     "timeline.aspectRatio": "Aspect Ratio",
     "timeline.backgroundColor": "Background Color",
     "timeline.resetTimeline": "Reset Timeline",
+    "projectSettings.title": "Project settings",
+    "projectSettings.description": "Frame rate and resolution of the video.",
+    "projectSettings.frameRate": "Frame rate",
+    "projectSettings.fps": "{fps} fps",
+    "projectSettings.retimeHint": "Every item is re-timed so it stays at the same time.",
+    "projectSettings.resolution": "Resolution",
+    "projectSettings.width": "Width",
+    "projectSettings.height": "Height",
+    "projectSettings.usePreset": "Use the {ratio} preset",
+    "projectSettings.presetHint": "Standard size for {ratio}. Type a width and height to use your own.",
+    "projectSettings.customHint": "Custom size, rounded to even numbers.",
+    "projectSettings.invalidSize": "Width and height must be between {min} and {max} pixels.",
+    "projectSettings.apply": "Apply",
+    "reframe.title": "Reframed for {ratio}",
+    "reframe.fit.cover": "Fill",
+    "reframe.fit.contain": "Fit",
+    "reframe.keepLayout": "Keep layout",
+    "reframe.apply": "Apply",
+    "relink.offline": "Offline",
+    "relink.action": "Relink",
+    "relink.menuItem": "Relink media…",
+    "relink.title": "Relink missing media",
+    "relink.description": "\"{name}\" is no longer available. Pick a replacement for the {count} item(s) using it; their timing and styles are kept.",
+    "mediaPicker.tab.uploads": "My uploads",
+    "mediaPicker.tab.reelmotion": "Reelmotion videos",
+    "mediaPicker.tab.upload": "Upload new",
+    "mediaPicker.searchVideos": "Search videos",
+    "mediaPicker.loadMore": "Load more",
+    "mediaPicker.noMedia": "No matching media",
+    "mediaPicker.uploadHint": "Upload a file to use in its place.",
+    "mediaPicker.wrongType": "Pick a file of the same kind",
+    "relink.done": "Relinked {count} item(s)",
+    "replaceMedia.menuItem": "Replace media…",
+    "replaceMedia.title": "Replace media",
+    "replaceMedia.description": "Pick a file to swap in. Position, crop, filters, animation and speed are kept. You can also drag media from a panel onto the item on the timeline or canvas; hold Alt to keep its length.",
+    "replaceMedia.keepDurationOption": "Keep the current length and adjust where it starts in the new file",
+    "replaceMedia.keepDuration": "Keep length",
+    "replaceMedia.done": "Media replaced",
+    "replaceMedia.adapted": "The item now lasts as long as the new file.",
+    "replaceMedia.wrongType": "Drop a file of the same kind to replace this media",
+    "replaceMedia.locked": "Media on locked tracks can't be replaced. Unlock the track first.",
+    // Data merge
+    "dataMerge.menuItem": "Batch render from data...",
+    "dataMerge.title": "Personalised batch render",
+    "dataMerge.description": "Type {{column}} into any text, or bind media to a column of URLs, then load a CSV or JSON file. Each row becomes its own video.",
+    "dataMerge.loadDataset": "Load CSV/JSON",
+    "dataMerge.noDataset": "No dataset loaded",
+    "dataMerge.datasetSummary": "{name}: {rows} rows, {columns} columns",
+    "dataMerge.removeDataset": "Remove dataset",
+    "dataMerge.parseFailed": "Could not read the dataset",
+    "dataMerge.variables": "Variables in the project",
+    "dataMerge.noVariables": "No variables yet. Type {{column}} into a text to use a column of the dataset.",
+    "dataMerge.missingColumn": "The dataset has no column with this name",
+    "dataMerge.missingColumns": "The dataset has no column for: {columns}",
+    "dataMerge.mediaBindings": "Media from the dataset",
+    "dataMerge.bindToColumn": "Bind to a column",
+    "dataMerge.rows": "Rows",
+    "dataMerge.rowInvalid": "Some media of this row can't be fetched",
+    "dataMerge.preview": "Preview in the player",
+    "dataMerge.validate": "Check media",
+    "dataMerge.issues": "{media} media URL(s) in {rows} row(s) can't be fetched. Those rows will be skipped.",
+    "dataMerge.allValid": "All media URLs can be fetched.",
+    "dataMerge.render": "Render {count} videos",
+    "dataMerge.rendering": "Rendering...",
+    "dataMerge.manifestCsv": "Manifest (CSV)",
+    "dataMerge.manifestJson": "Manifest (JSON)",
+    "dataMerge.previewRow": "Row {row} of {count}",
+    "dataMerge.previousRow": "Previous row",
+    "dataMerge.nextRow": "Next row",
+    "dataMerge.closePreview": "Back to the project",
+    "variants.title": "Variants",
+    "variants.description": "Versions of this video at other aspect ratios. They share the timeline and keep their own layout.",
+    "variants.add": "Add variant",
+    "variants.addRatio": "Add {ratio} variant",
+    "variants.open": "Open {ratio} variant",
+    "variants.remove": "Remove {ratio} variant",
+    "variants.export": "Variants to export",
+    "timeline.addKeyframe": "Add keyframe",
+    "timeline.clearKeyframes": "Clear keyframes",
+    "selection.count": "{count} selected",
+    "selection.align.left": "Align left",
+    "selection.align.center": "Align centers horizontally",
+    "selection.align.right": "Align right",
+    "selection.align.top": "Align top",
+    "selection.align.middle": "Align centers vertically",
+    "selection.align.bottom": "Align bottom",
+    "selection.group": "Group",
+    "selection.ungroup": "Ungroup",
+    "selection.duplicate": "Duplicate selection",
+    "selection.delete": "Delete selection",
+    "history.title": "History",
+    "history.start": "Start",
+    "history.empty": "No changes yet",
+    "history.action.add": "Add {subject}",
+    "history.action.delete": "Delete {subject}",
+    "history.action.move": "Move {subject}",
+    "history.action.resize": "Resize {subject}",
+    "history.action.rotate": "Rotate {subject}",
+    "history.action.trim": "Trim {subject}",
+    "history.action.slip": "Slip {subject}",
+    "history.action.split": "Split {subject}",
+    "history.action.keyframes": "Animate {subject}",
+    "history.action.group": "Group {subject}",
+    "history.action.ungroup": "Ungroup {subject}",
+    "history.action.edit": "Edit {subject}",
+    "history.action.aspectRatio": "Change aspect ratio",
+    "history.action.variants": "Edit variants",
+    "history.action.projectSettings": "Change project settings",
+    "history.action.backgroundColor": "Change background color",
+    "history.action.tracks": "Edit tracks",
+    "history.subject.item": "Item",
+    "history.subject.items": "{count} items",
+    "history.subject.text": "Text",
+    "history.subject.image": "Image",
+    "history.subject.shape": "Shape",
+    "history.subject.video": "Clip",
+    "history.subject.sound": "Sound",
+    "history.subject.caption": "Captions",
+    "history.subject.sticker": "Sticker",
+    "timeline.keyframe": "Keyframe",
+    "timeline.keyframeEasing": "Easing",
+    "timeline.deleteKeyframe": "Delete keyframe",
+    "keyframes.left": "X",
+    "keyframes.top": "Y",
+    "keyframes.width": "Width",
+    "keyframes.height": "Height",
+    "keyframes.rotation": "Rotation",
+    "keyframes.opacity": "Opacity",
+    "keyframes.scale": "Scale",
+    "keyframes.easing.linear": "Linear",
+    "keyframes.easing.ease-in": "Ease in",
+    "keyframes.easing.ease-out": "Ease out",
+    "keyframes.easing.ease-in-out": "Ease in-out",
+    "keyframes.easing.hold": "Hold",
+    "transitions.title": "Transition",
+    "transitions.add": "Add transition",
+    "transitions.remove": "Remove transition",
+    "transitions.duration": "Duration",
+    "transitions.crossfade": "Crossfade",
+    "transitions.dip-to-black": "Dip to black",
+    "transitions.wipe": "Wipe",
+    "transitions.slide": "Slide",
+    "transitions.zoom": "Zoom",
+    "transitions.panelHint": "Drag a transition onto the cut between two clips on the same row, or click one to apply it after the selected clip.",
+    "transitions.noCutAfterSelection": "The selected clip is not followed by another clip on its row.",
+    "transitions.noSpareMedia": "These clips have too little media beyond this cut to play during a transition. Trim one of them first.",
 
     // Player controls
     "player.play": "Play",
@@ -435,6 +717,9 @@ export const translations: Record<Language, TranslationDictionary> = {
     "mediaStyle.fitCover": "Cover",
     "mediaStyle.fitContain": "Contain",
     "mediaStyle.fitFill": "Fill",
+    "mediaStyle.focalPoint": "Focal point",
+    "mediaStyle.focalPointReset": "Reset",
+    "mediaStyle.focalPointHint": "Click the part that must stay in view when the media is cropped.",
     "mediaStyle.borderRadius": "Border Radius",
     "mediaStyle.brightness": "Brightness",
     "mediaStyle.padding": "Padding",
@@ -468,9 +753,44 @@ export const translations: Record<Language, TranslationDictionary> = {
     "captionSettings.modeSentence": "Sentence",
     "captionSettings.modeWord": "Word",
     "captionSettings.modeAll": "Full",
+    "captionSettings.export": "Export",
+    "captionSettings.export.srt": "SubRip (.srt)",
+    "captionSettings.export.vtt": "WebVTT (.vtt)",
+    "captionSettings.export.json": "Word timings (.json)",
 
     // Sticker details
     "stickerDetails.animations": "Sticker Animations",
+    "stickerDetails.visualiser.title": "Audio Visualiser",
+    "stickerDetails.visualiser.source": "Audio",
+    "stickerDetails.visualiser.mix": "Project mix",
+    "stickerDetails.visualiser.style": "Style",
+    "stickerDetails.visualiser.styles.bars": "Bars",
+    "stickerDetails.visualiser.styles.wave": "Wave",
+    "stickerDetails.visualiser.styles.circular": "Circular",
+    "stickerDetails.visualiser.styles.spectrum": "Spectrum",
+    "stickerDetails.visualiser.primaryColor": "Primary color",
+    "stickerDetails.visualiser.secondaryColor": "Secondary color",
+
+    // Shapes
+    "shapes.rectangle": "Rectangle",
+    "shapes.ellipse": "Ellipse",
+    "shapes.line": "Line",
+    "shapes.arrow": "Arrow",
+    "shapes.polygon": "Polygon",
+    "shapes.star": "Star",
+    "shapes.shape": "Shape",
+    "shapes.settings": "Settings",
+    "shapes.style": "Style",
+    "shapes.fill": "Fill",
+    "shapes.solid": "Solid",
+    "shapes.gradient": "Gradient",
+    "shapes.gradientAngle": "Gradient angle",
+    "shapes.stroke": "Stroke",
+    "shapes.thickness": "Thickness",
+    "shapes.sides": "Sides",
+    "shapes.points": "Points",
+    "shapes.innerRadius": "Inner radius",
+    "shapes.opacity": "Opacity",
   },
 
   es: {
@@ -484,6 +804,8 @@ export const translations: Record<Language, TranslationDictionary> = {
     "sidebar.uploads": "Cargas",
     "sidebar.stickers": "Stickers",
     "sidebar.template": "Plantilla",
+    "sidebar.transitions": "Transiciones",
+    "sidebar.shapes": "Formas",
     "sidebar.unknown": "Desconocido",
     "sidebar.return": "Volver",
 
@@ -523,6 +845,42 @@ export const translations: Record<Language, TranslationDictionary> = {
     "header.starting": "Iniciando...",
     "header.rendering": "Renderizando...",
     "header.renderingProgress": "Renderizando",
+    "header.renderQueued": "En cola (#{position})",
+    "header.renderBatch": "{index}/{total} · {label}",
+    "header.cancelRender": "Cancelar render",
+    "header.moreFormats": "Más formatos...",
+    "header.stillFrame": "Fotograma",
+    "header.saveFramePng": "Guardar fotograma como PNG",
+    "header.saveFrameJpeg": "Guardar fotograma como JPEG",
+    "header.saveFrameFailed": "No se pudo renderizar el fotograma",
+    "export.title": "Exportar",
+    "export.description": "Elige un formato para tu exportación. Los preajustes se pueden ajustar abajo.",
+    "export.preset.mp4": "MP4",
+    "export.preset.mp4Description": "H.264, se reproduce en todas partes",
+    "export.preset.mp4High": "MP4 alta calidad",
+    "export.preset.mp4HighDescription": "H.264 con menos compresión",
+    "export.preset.prores": "Máster ProRes",
+    "export.preset.proresDescription": "ProRes 422 HQ .mov para edición",
+    "export.preset.webm": "WebM",
+    "export.preset.webmDescription": "VP9 para insertar en la web",
+    "export.preset.gif": "GIF en bucle",
+    "export.preset.gifDescription": "Sin sonido, se repite sin fin",
+    "export.preset.mp3": "MP3",
+    "export.preset.mp3Description": "Solo audio, 320 kbps",
+    "export.preset.wav": "WAV",
+    "export.preset.wavDescription": "Solo audio, sin compresión",
+    "export.resolution": "Resolución",
+    "export.container": "Contenedor",
+    "export.quality": "Calidad (CRF)",
+    "export.qualityHint": "{min}-{max}, menor es mejor. Vacío usa el valor por defecto.",
+    "export.audioBitrate": "Bitrate de audio",
+    "export.default": "Por defecto",
+    "export.range": "Rango",
+    "export.rangeAll": "Toda la línea de tiempo",
+    "export.rangeInOut": "Puntos de entrada/salida",
+    "export.rangeSelection": "Elementos seleccionados",
+    "export.rangeReadout": "De {start} a {end}",
+    "export.rangeHint": "Marca la entrada y la salida con I y O en la línea de tiempo.",
     "header.recentRenders": "Renders recientes",
     "header.noRenders": "Aún no hay renders",
     "header.renderFailed": "Render fallido",
@@ -541,6 +899,7 @@ export const translations: Record<Language, TranslationDictionary> = {
     "header.proQuality": "Calidad Pro",
     "header.ultraHd4k": "Ultra HD (4K)",
     "header.eliteQuality": "Calidad Elite",
+    "header.captionFiles": "Archivos de subtítulos",
     "header.renderFailedDefault": "Error al renderizar el video. Por favor, inténtalo de nuevo.",
     "header.back": "Regresar",
 
@@ -554,8 +913,9 @@ export const translations: Record<Language, TranslationDictionary> = {
     // Toasts (general)
     "toast.videoNameUpdated": "Nombre del video actualizado correctamente",
     "toast.videoNameUpdateFailed": "Error al actualizar el nombre del video",
-    "toast.removedMissingMedia.title": "Multimedia faltante eliminada",
-    "toast.removedMissingMedia.body": "Se eliminaron {count} elemento(s) de la línea de tiempo porque sus archivos ya no existen.",
+    "toast.offlineMedia.title": "Multimedia faltante",
+    "toast.offlineMedia.body": "{count} elemento(s) usan archivos que ya no existen. Se conservan en la línea de tiempo, marcados sin conexión, hasta que los vuelvas a vincular.",
+    "toast.offlineMedia.leftOut": "{count} elemento(s) usan archivos que ya no existen y se omiten en este renderizado. Vuelve a vincularlos para incluirlos.",
 
     // Video panel
     "videoPanel.searchPlaceholder": "Buscar videos...",
@@ -603,6 +963,17 @@ export const translations: Record<Language, TranslationDictionary> = {
     "soundPanel.stop": "Detener",
     "soundPanel.play": "Reproducir",
     "soundPanel.projectVoice": "Voz del proyecto",
+    "soundPanel.ducking.title": "Atenuar bajo",
+    "soundPanel.ducking.description": "Baja este sonido mientras hablan las voces seleccionadas",
+    "soundPanel.ducking.allVoices": "Todas las voces",
+    "soundPanel.ducking.noSources": "Añade una voz en off a la línea de tiempo para atenuar este sonido bajo ella",
+    "soundPanel.ducking.analysing": "Analizando...",
+    "soundPanel.ducking.failed": "No se pudo analizar",
+    "soundPanel.ducking.speechFound": "Atenuado bajo {count} fragmento(s) de voz",
+    "soundPanel.ducking.noSpeech": "No se encontró voz en las pistas seleccionadas",
+    "soundPanel.ducking.depth": "Profundidad",
+    "soundPanel.ducking.attack": "Ataque",
+    "soundPanel.ducking.release": "Liberación",
     "soundPanel.addingToTimeline": "Agregando a la línea de tiempo...",
     "soundPanel.renamePlaceholder": "Renombrar audio...",
     "soundPanel.audioNameUpdated": "Nombre del audio actualizado correctamente",
@@ -622,7 +993,17 @@ export const translations: Record<Language, TranslationDictionary> = {
     "captionPanel.bannerBody": "Estamos mejorando activamente el soporte de subtítulos y nos encantaría tu opinión.",
     "captionPanel.learnMore": "Aprende más sobre subtítulos",
     "captionPanel.uploadScriptFile": "Subir archivo de guion",
-    "captionPanel.supportedFormats": "Formatos soportados: .json",
+    "captionPanel.supportedFormats": "Formatos soportados: .srt, .vtt, .json",
+    "captionPanel.subtitleImported": "Se importaron {count} subtítulos",
+    "captionPanel.subtitleImportFailed": "No se pudo importar {file}",
+    "captionPanel.subtitleIssueLine": "Línea {line}: {reason}",
+    "captionPanel.subtitleIssueMore": "…y {count} problemas más",
+    "captionPanel.subtitleIssue.empty": "el archivo no contiene subtítulos",
+    "captionPanel.subtitleIssue.missingHeader": "los archivos WebVTT deben empezar con WEBVTT",
+    "captionPanel.subtitleIssue.missingTiming": "se esperaba una línea de tiempo como 00:00:01,000 --> 00:00:02,000",
+    "captionPanel.subtitleIssue.invalidTimestamp": "marca de tiempo no válida",
+    "captionPanel.subtitleIssue.endBeforeStart": "el subtítulo termina antes de empezar",
+    "captionPanel.subtitleIssue.missingText": "el subtítulo no tiene texto",
     "captionPanel.scriptPlaceholder": "Escribe o pega tu guion aquí...",
     "captionPanel.clear": "Limpiar",
     "captionPanel.or": "o",
@@ -699,6 +1080,33 @@ export const translations: Record<Language, TranslationDictionary> = {
     "templates.importTitle": "Importar plantilla",
     "templates.applyTitle": "Aplicar plantilla",
     "templates.applyConfirm": "¿Seguro que quieres agregar esta plantilla a tu línea de tiempo? Reemplazará todos los elementos existentes.",
+    "templates.saveTitle": "Guardar como plantilla",
+    "templates.saveDescription": "Reutiliza este proyecto como punto de partida. Marca los textos y medios que se cambiarán cada vez que se aplique.",
+    "templates.editTitle": "Editar plantilla",
+    "templates.editDescription": "Cambia los datos y marcadores de esta plantilla.",
+    "templates.nameLabel": "Nombre",
+    "templates.descriptionLabel": "Descripción",
+    "templates.categoryLabel": "Categoría",
+    "templates.tagsLabel": "Etiquetas",
+    "templates.tagsPlaceholder": "promo, oferta, historia",
+    "templates.placeholdersLabel": "Marcadores",
+    "templates.placeholdersHint": "Los elementos marcados se rellenan al aplicar la plantilla. Ponles nombre para saber qué va en cada uno.",
+    "templates.placeholderKind.text": "Texto",
+    "templates.placeholderKind.media": "Medio",
+    "templates.placeholderUntitled": "Marcador",
+    "templates.save": "Guardar plantilla",
+    "templates.update": "Actualizar plantilla",
+    "templates.saved": "Plantilla \"{name}\" guardada",
+    "templates.savedLocally": "Plantilla \"{name}\" guardada solo en este dispositivo. No se pudo subir a tu cuenta.",
+    "templates.saveFailed": "No se pudo guardar la plantilla",
+    "templates.mine": "Mía",
+    "templates.edit": "Editar plantilla",
+    "templates.delete": "Eliminar plantilla",
+    "templates.deleteConfirm": "¿Eliminar \"{name}\"? Esta acción no se puede deshacer.",
+    "templates.deleted": "Plantilla \"{name}\" eliminada",
+    "templates.deleteFailed": "No se pudo eliminar la plantilla",
+    "templates.fillPlaceholders": "Rellena los textos de la plantilla, o déjalos vacíos para conservar los originales:",
+    "templates.mediaSlots": "Elige los medios para los {count} marcadores de medios de la plantilla",
 
     // Timeline
     "timeline.empty": "La línea de tiempo está vacía",
@@ -718,6 +1126,54 @@ export const translations: Record<Language, TranslationDictionary> = {
     "timeline.unlock": "Desbloquear",
     "timeline.mute": "Silenciar",
     "timeline.unmute": "Quitar silencio",
+    "timeline.track.defaultName": "Pista {number}",
+    "timeline.track.solo": "Solo",
+    "timeline.track.hide": "Ocultar",
+    "timeline.track.show": "Mostrar",
+    "timeline.track.rename": "Renombrar",
+    "timeline.track.color": "Color",
+    "timeline.track.height": "Altura",
+    "timeline.track.height.small": "Pequeña",
+    "timeline.track.height.medium": "Mediana",
+    "timeline.track.height.large": "Grande",
+    "timeline.track.delete": "Eliminar pista",
+    "timeline.track.closeGaps": "Cerrar huecos",
+    "timeline.link": "Vincular al clip",
+    "timeline.unlink": "Desvincular",
+    "timeline.detachAudio": "Separar audio",
+    "timeline.linkedSplit.title": "Elementos vinculados sin dividir",
+    "timeline.linkedSplit.body": "Hay elementos vinculados a este que cruzan el corte.",
+    "timeline.linkedSplit.action": "Dividirlos también",
+    "timeline.linkedMove.title": "Movido aparte de su clip",
+    "timeline.linkedMove.body": "El clip al que está vinculado este elemento se quedó donde estaba.",
+    "timeline.linkedMove.action": "Mover el clip también",
+    "timeline.editMode.title": "Modo de edición",
+    "timeline.editMode.push": "Empujar",
+    "timeline.editMode.pushDescription": "Los elementos se apartan para hacer sitio, nada se corta",
+    "timeline.editMode.overwrite": "Sobrescribir",
+    "timeline.editMode.overwriteDescription": "Los elementos reemplazan lo que cubren",
+    "timeline.editMode.ripple": "Insertar / rizado",
+    "timeline.editMode.rippleDescription": "Los elementos siguientes se desplazan para hacer sitio o cerrar huecos",
+    "timeline.editMode.magnetic": "Pista principal magnética",
+    "timeline.editMode.magneticDescription": "Edición con rizado y la primera pista nunca tiene huecos",
+    "timeline.editMode.rippleAllRows": "Desplazar todas las filas",
+    "timeline.editMode.closeAllGaps": "Cerrar todos los huecos",
+    "timeline.trimTool.select": "Seleccionar",
+    "timeline.trimTool.selectDescription": "Mover y recortar clips",
+    "timeline.trimTool.slip": "Deslizar fuente",
+    "timeline.trimTool.slipDescription": "Cambiar qué parte de la fuente reproduce un clip",
+    "timeline.trimTool.slide": "Desplazar",
+    "timeline.trimTool.slideDescription": "Mover un clip entre sus vecinos, recortándolos",
+    "timeline.trimTool.roll": "Rodar corte",
+    "timeline.trimTool.rollDescription": "Mover el corte entre dos clips contiguos",
+    "timeline.trimTool.in": "ENTRADA",
+    "timeline.trimTool.out": "SALIDA",
+    "timeline.volume.fadeIn": "Fundido de entrada",
+    "timeline.volume.fadeOut": "Fundido de salida",
+    "timeline.volume.point": "Punto de volumen: arrastra para moverlo, doble clic para quitarlo",
+    "timeline.volume.line": "Doble clic para añadir un punto de volumen",
+    "timeline.track.lockedTitle": "Pista bloqueada",
+    "timeline.track.lockedBody": "Los elementos de pistas bloqueadas no se pueden eliminar. Desbloquea la pista primero.",
     "timeline.bringForward": "Traer al frente",
     "timeline.sendBackward": "Enviar atrás",
     "timeline.undo": "Deshacer",
@@ -730,6 +1186,152 @@ export const translations: Record<Language, TranslationDictionary> = {
     "timeline.aspectRatio": "Relación de aspecto",
     "timeline.backgroundColor": "Color de fondo",
     "timeline.resetTimeline": "Restablecer línea de tiempo",
+    "projectSettings.title": "Ajustes del proyecto",
+    "projectSettings.description": "Velocidad de fotogramas y resolución del video.",
+    "projectSettings.frameRate": "Velocidad de fotogramas",
+    "projectSettings.fps": "{fps} fps",
+    "projectSettings.retimeHint": "Cada elemento se reajusta para que quede en el mismo momento.",
+    "projectSettings.resolution": "Resolución",
+    "projectSettings.width": "Ancho",
+    "projectSettings.height": "Alto",
+    "projectSettings.usePreset": "Usar el tamaño de {ratio}",
+    "projectSettings.presetHint": "Tamaño estándar de {ratio}. Escribe un ancho y un alto para usar el tuyo.",
+    "projectSettings.customHint": "Tamaño personalizado, redondeado a números pares.",
+    "projectSettings.invalidSize": "El ancho y el alto deben estar entre {min} y {max} píxeles.",
+    "projectSettings.apply": "Aplicar",
+    "reframe.title": "Reencuadrado para {ratio}",
+    "reframe.fit.cover": "Llenar",
+    "reframe.fit.contain": "Ajustar",
+    "reframe.keepLayout": "Mantener diseño",
+    "reframe.apply": "Aplicar",
+    "relink.offline": "Sin conexión",
+    "relink.action": "Vincular",
+    "relink.menuItem": "Volver a vincular…",
+    "relink.title": "Vincular multimedia faltante",
+    "relink.description": "\"{name}\" ya no está disponible. Elige un reemplazo para los {count} elemento(s) que lo usan; se conservan sus tiempos y estilos.",
+    "mediaPicker.tab.uploads": "Mis archivos",
+    "mediaPicker.tab.reelmotion": "Videos de Reelmotion",
+    "mediaPicker.tab.upload": "Subir nuevo",
+    "mediaPicker.searchVideos": "Buscar videos",
+    "mediaPicker.loadMore": "Cargar más",
+    "mediaPicker.noMedia": "No hay archivos que coincidan",
+    "mediaPicker.uploadHint": "Sube un archivo para usarlo en su lugar.",
+    "mediaPicker.wrongType": "Elige un archivo del mismo tipo",
+    "relink.done": "{count} elemento(s) vinculados de nuevo",
+    "replaceMedia.menuItem": "Reemplazar multimedia…",
+    "replaceMedia.title": "Reemplazar multimedia",
+    "replaceMedia.description": "Elige un archivo para sustituirlo. Se conservan la posición, el recorte, los filtros, la animación y la velocidad. También puedes arrastrar multimedia desde un panel sobre el elemento en la línea de tiempo o el lienzo; mantén Alt para conservar su duración.",
+    "replaceMedia.keepDurationOption": "Conservar la duración actual y ajustar dónde empieza en el nuevo archivo",
+    "replaceMedia.keepDuration": "Conservar duración",
+    "replaceMedia.done": "Multimedia reemplazada",
+    "replaceMedia.adapted": "El elemento ahora dura lo mismo que el nuevo archivo.",
+    "replaceMedia.wrongType": "Suelta un archivo del mismo tipo para reemplazar esta multimedia",
+    "replaceMedia.locked": "La multimedia de pistas bloqueadas no se puede reemplazar. Desbloquea la pista primero.",
+    // Data merge
+    "dataMerge.menuItem": "Renderizado por lotes desde datos...",
+    "dataMerge.title": "Renderizado personalizado por lotes",
+    "dataMerge.description": "Escribe {{columna}} en cualquier texto, o vincula medios a una columna de URLs, y carga un archivo CSV o JSON. Cada fila se convierte en su propio video.",
+    "dataMerge.loadDataset": "Cargar CSV/JSON",
+    "dataMerge.noDataset": "No hay datos cargados",
+    "dataMerge.datasetSummary": "{name}: {rows} filas, {columns} columnas",
+    "dataMerge.removeDataset": "Quitar datos",
+    "dataMerge.parseFailed": "No se pudieron leer los datos",
+    "dataMerge.variables": "Variables del proyecto",
+    "dataMerge.noVariables": "Aún no hay variables. Escribe {{columna}} en un texto para usar una columna de los datos.",
+    "dataMerge.missingColumn": "Los datos no tienen una columna con este nombre",
+    "dataMerge.missingColumns": "Los datos no tienen columna para: {columns}",
+    "dataMerge.mediaBindings": "Medios desde los datos",
+    "dataMerge.bindToColumn": "Vincular a una columna",
+    "dataMerge.rows": "Filas",
+    "dataMerge.rowInvalid": "Algunos medios de esta fila no se pueden obtener",
+    "dataMerge.preview": "Previsualizar en el reproductor",
+    "dataMerge.validate": "Comprobar medios",
+    "dataMerge.issues": "{media} URL(s) de medios en {rows} fila(s) no se pueden obtener. Esas filas se omitirán.",
+    "dataMerge.allValid": "Todas las URLs de medios se pueden obtener.",
+    "dataMerge.render": "Renderizar {count} videos",
+    "dataMerge.rendering": "Renderizando...",
+    "dataMerge.manifestCsv": "Manifiesto (CSV)",
+    "dataMerge.manifestJson": "Manifiesto (JSON)",
+    "dataMerge.previewRow": "Fila {row} de {count}",
+    "dataMerge.previousRow": "Fila anterior",
+    "dataMerge.nextRow": "Fila siguiente",
+    "dataMerge.closePreview": "Volver al proyecto",
+    "variants.title": "Variantes",
+    "variants.description": "Versiones de este video en otras relaciones de aspecto. Comparten la línea de tiempo y conservan su propia composición.",
+    "variants.add": "Añadir variante",
+    "variants.addRatio": "Añadir variante {ratio}",
+    "variants.open": "Abrir variante {ratio}",
+    "variants.remove": "Eliminar variante {ratio}",
+    "variants.export": "Variantes a exportar",
+    "timeline.addKeyframe": "Agregar fotograma clave",
+    "timeline.clearKeyframes": "Borrar fotogramas clave",
+    "selection.count": "{count} seleccionados",
+    "selection.align.left": "Alinear a la izquierda",
+    "selection.align.center": "Centrar horizontalmente",
+    "selection.align.right": "Alinear a la derecha",
+    "selection.align.top": "Alinear arriba",
+    "selection.align.middle": "Centrar verticalmente",
+    "selection.align.bottom": "Alinear abajo",
+    "selection.group": "Agrupar",
+    "selection.ungroup": "Desagrupar",
+    "selection.duplicate": "Duplicar selección",
+    "selection.delete": "Eliminar selección",
+    "history.title": "Historial",
+    "history.start": "Inicio",
+    "history.empty": "Aún no hay cambios",
+    "history.action.add": "Agregar {subject}",
+    "history.action.delete": "Eliminar {subject}",
+    "history.action.move": "Mover {subject}",
+    "history.action.resize": "Redimensionar {subject}",
+    "history.action.rotate": "Rotar {subject}",
+    "history.action.trim": "Recortar {subject}",
+    "history.action.slip": "Deslizar fuente de {subject}",
+    "history.action.split": "Dividir {subject}",
+    "history.action.keyframes": "Animar {subject}",
+    "history.action.group": "Agrupar {subject}",
+    "history.action.ungroup": "Desagrupar {subject}",
+    "history.action.edit": "Editar {subject}",
+    "history.action.aspectRatio": "Cambiar relación de aspecto",
+    "history.action.variants": "Editar variantes",
+    "history.action.projectSettings": "Cambiar ajustes del proyecto",
+    "history.action.backgroundColor": "Cambiar color de fondo",
+    "history.action.tracks": "Editar pistas",
+    "history.subject.item": "elemento",
+    "history.subject.items": "{count} elementos",
+    "history.subject.text": "texto",
+    "history.subject.image": "imagen",
+    "history.subject.shape": "forma",
+    "history.subject.video": "clip",
+    "history.subject.sound": "sonido",
+    "history.subject.caption": "subtítulos",
+    "history.subject.sticker": "sticker",
+    "timeline.keyframe": "Fotograma clave",
+    "timeline.keyframeEasing": "Suavizado",
+    "timeline.deleteKeyframe": "Eliminar fotograma clave",
+    "keyframes.left": "X",
+    "keyframes.top": "Y",
+    "keyframes.width": "Ancho",
+    "keyframes.height": "Alto",
+    "keyframes.rotation": "Rotación",
+    "keyframes.opacity": "Opacidad",
+    "keyframes.scale": "Escala",
+    "keyframes.easing.linear": "Lineal",
+    "keyframes.easing.ease-in": "Entrada suave",
+    "keyframes.easing.ease-out": "Salida suave",
+    "keyframes.easing.ease-in-out": "Entrada y salida suave",
+    "keyframes.easing.hold": "Mantener",
+    "transitions.title": "Transición",
+    "transitions.add": "Agregar transición",
+    "transitions.remove": "Quitar transición",
+    "transitions.duration": "Duración",
+    "transitions.crossfade": "Fundido cruzado",
+    "transitions.dip-to-black": "Fundido a negro",
+    "transitions.wipe": "Barrido",
+    "transitions.slide": "Deslizamiento",
+    "transitions.zoom": "Zoom",
+    "transitions.panelHint": "Arrastra una transición al corte entre dos clips de la misma fila, o haz clic en una para aplicarla después del clip seleccionado.",
+    "transitions.noCutAfterSelection": "El clip seleccionado no va seguido de otro clip en su fila.",
+    "transitions.noSpareMedia": "Estos clips tienen muy poco material más allá de este corte para reproducirse durante una transición. Recorta uno de ellos primero.",
 
     // Player controls
     "player.play": "Reproducir",
@@ -894,6 +1496,9 @@ export const translations: Record<Language, TranslationDictionary> = {
     "mediaStyle.fitCover": "Cubrir",
     "mediaStyle.fitContain": "Contener",
     "mediaStyle.fitFill": "Rellenar",
+    "mediaStyle.focalPoint": "Punto focal",
+    "mediaStyle.focalPointReset": "Restablecer",
+    "mediaStyle.focalPointHint": "Haz clic en la parte que debe quedar a la vista al recortar el medio.",
     "mediaStyle.borderRadius": "Radio de borde",
     "mediaStyle.brightness": "Brillo",
     "mediaStyle.padding": "Relleno",
@@ -927,9 +1532,44 @@ export const translations: Record<Language, TranslationDictionary> = {
     "captionSettings.modeSentence": "Frase",
     "captionSettings.modeWord": "Palabra",
     "captionSettings.modeAll": "Completo",
+    "captionSettings.export": "Exportar",
+    "captionSettings.export.srt": "SubRip (.srt)",
+    "captionSettings.export.vtt": "WebVTT (.vtt)",
+    "captionSettings.export.json": "Tiempos por palabra (.json)",
 
     // Sticker details
     "stickerDetails.animations": "Animaciones del sticker",
+    "stickerDetails.visualiser.title": "Visualizador de audio",
+    "stickerDetails.visualiser.source": "Audio",
+    "stickerDetails.visualiser.mix": "Mezcla del proyecto",
+    "stickerDetails.visualiser.style": "Estilo",
+    "stickerDetails.visualiser.styles.bars": "Barras",
+    "stickerDetails.visualiser.styles.wave": "Onda",
+    "stickerDetails.visualiser.styles.circular": "Circular",
+    "stickerDetails.visualiser.styles.spectrum": "Espectro",
+    "stickerDetails.visualiser.primaryColor": "Color principal",
+    "stickerDetails.visualiser.secondaryColor": "Color secundario",
+
+    // Shapes
+    "shapes.rectangle": "Rectángulo",
+    "shapes.ellipse": "Elipse",
+    "shapes.line": "Línea",
+    "shapes.arrow": "Flecha",
+    "shapes.polygon": "Polígono",
+    "shapes.star": "Estrella",
+    "shapes.shape": "Forma",
+    "shapes.settings": "Ajustes",
+    "shapes.style": "Estilo",
+    "shapes.fill": "Relleno",
+    "shapes.solid": "Sólido",
+    "shapes.gradient": "Degradado",
+    "shapes.gradientAngle": "Ángulo del degradado",
+    "shapes.stroke": "Contorno",
+    "shapes.thickness": "Grosor",
+    "shapes.sides": "Lados",
+    "shapes.points": "Puntas",
+    "shapes.innerRadius": "Radio interior",
+    "shapes.opacity": "Opacidad",
   },
 };
 
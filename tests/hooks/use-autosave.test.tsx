@@ -5,6 +5,10 @@ import {
   loadEditorState,
   hasAutosave,
 } from "../../components/editor/version-7.0.0/utils/indexdb-helper";
+import {
+  AutosaveState,
+  PROJECT_SCHEMA_VERSION,
+} from "../../components/editor/version-7.0.0/utils/project-schema";
 
 // Mock the indexdb helper functions
 jest.mock("../../components/editor/version-7.0.0/utils/indexdb-helper", () => ({
@@ -13,6 +17,17 @@ jest.mock("../../components/editor/version-7.0.0/utils/indexdb-helper", () => ({
   hasAutosave: jest.fn(),
 }));
 
+// Editor state told apart by its background color
+const editorState = (backgroundColor = "#000000"): AutosaveState => ({
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  overlays: [],
+  fps: 30,
+  resolution: null,
+  backgroundColor,
+  tracks: [],
+  variants: null,
+});
+
 describe("useAutosave", () => {
   let consoleErrorSpy: jest.SpyInstance;
   let consoleWarnSpy: jest.SpyInstance;
@@ -41,7 +56,7 @@ describe("useAutosave", () => {
     const onAutosaveDetected = jest.fn();
     (hasAutosave as jest.Mock).mockResolvedValue(mockTimestamp);
 
-    renderHook(() => useAutosave("test-project", {}, { onAutosaveDetected }));
+    renderHook(() => useAutosave("test-project", editorState(), { onAutosaveDetected }));
 
     // Wait for the effect to run
     await act(async () => {});
@@ -56,7 +71,7 @@ describe("useAutosave", () => {
     (hasAutosave as jest.Mock).mockResolvedValue(mockTimestamp);
 
     const { rerender } = renderHook(() =>
-      useAutosave("test-project", {}, { onAutosaveDetected })
+      useAutosave("test-project", editorState(), { onAutosaveDetected })
     );
 
     // Wait for the first effect to run
@@ -77,7 +92,7 @@ describe("useAutosave", () => {
     const mockTimestamp = Date.now();
     (hasAutosave as jest.Mock).mockResolvedValue(mockTimestamp);
 
-    renderHook(() => useAutosave("test-project", {}));
+    renderHook(() => useAutosave("test-project", editorState()));
 
     // Wait for the effect to run
     await act(async () => {});
@@ -90,7 +105,7 @@ describe("useAutosave", () => {
     const onAutosaveDetected = jest.fn();
     (hasAutosave as jest.Mock).mockRejectedValue(new Error("Check failed"));
 
-    renderHook(() => useAutosave("test-project", {}, { onAutosaveDetected }));
+    renderHook(() => useAutosave("test-project", editorState(), { onAutosaveDetected }));
 
     // Wait for the effect to run
     await act(async () => {});
@@ -103,7 +118,7 @@ describe("useAutosave", () => {
   });
 
   it("should cleanup interval timer on unmount", async () => {
-    const state = { data: "test" };
+    const state = editorState("test");
     const { unmount } = renderHook(() =>
       useAutosave("test-project", state, { interval: 1000 })
     );
@@ -128,7 +143,7 @@ describe("useAutosave", () => {
   });
 
   it("should autosave state at specified intervals when state changes", async () => {
-    const initialState = { data: "initial" };
+    const initialState = editorState("initial");
     const onSave = jest.fn();
 
     const { rerender } = renderHook(
@@ -149,7 +164,7 @@ describe("useAutosave", () => {
     expect(onSave).toHaveBeenCalled();
 
     // Update state
-    const newState = { data: "updated" };
+    const newState = editorState("updated");
     rerender({ state: newState });
 
     // Reset mock counts
@@ -166,7 +181,7 @@ describe("useAutosave", () => {
   });
 
   it("should not autosave if state has not changed", async () => {
-    const state = { data: "test" };
+    const state = editorState("test");
     const onSave = jest.fn();
 
     renderHook(() =>
@@ -190,8 +205,8 @@ describe("useAutosave", () => {
   });
 
   it("should handle manual save and load operations", async () => {
-    const state = { data: "test" };
-    const savedState = { data: "saved" };
+    const state = editorState("test");
+    const savedState = editorState("saved");
     const onLoad = jest.fn();
 
     (saveEditorState as jest.Mock).mockResolvedValue(true);
@@ -218,7 +233,7 @@ describe("useAutosave", () => {
   });
 
   it("should handle errors during save and load operations", async () => {
-    const state = { data: "test" };
+    const state = editorState("test");
     const saveError = new Error("Save failed");
     const loadError = new Error("Load failed");
 
@@ -253,7 +268,7 @@ describe("useAutosave", () => {
   });
 
   it("should not start autosave if projectId is not provided", async () => {
-    renderHook(() => useAutosave("", { data: "test" }, { interval: 1000 }));
+    renderHook(() => useAutosave("", editorState("test"), { interval: 1000 }));
 
     await act(async () => {
       jest.advanceTimersByTime(2000);
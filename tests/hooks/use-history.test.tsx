@@ -4,6 +4,7 @@ import {
   Overlay,
   OverlayType,
 } from "../../components/editor/version-7.0.0/types";
+import { HistorySettings } from "../../components/editor/version-7.0.0/utils/history-commands";
 
 describe("useHistory", () => {
   const createMockOverlay = (id: number): Overlay => ({
@@ -115,4 +116,92 @@ describe("useHistory", () => {
     // Future history should be cleared
     expect(result.current.canRedo).toBe(false);
   });
+
+  it("should merge a drag into a single step", () => {
+    const initialOverlays = [createMockOverlay(1)];
+    const setOverlays = jest.fn();
+
+    const { result, rerender } = renderHook(
+      ({ overlays }) => useHistory(overlays, setOverlays),
+      { initialProps: { overlays: initialOverlays } }
+    );
+
+    let current = initialOverlays;
+    [10, 20, 30].forEach((left) => {
+      current = [{ ...current[0], left, isDragging: true }];
+      rerender({ overlays: current });
+    });
+    current = [{ ...current[0], isDragging: false }];
+    rerender({ overlays: current });
+
+    expect(result.current.entries).toHaveLength(1);
+    expect(result.current.entries[0].label).toMatchObject({
+      action: "move",
+      overlayType: OverlayType.VIDEO,
+    });
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(setOverlays).toHaveBeenLastCalledWith(initialOverlays);
+  });
+
+  it("should drop the oldest steps beyond the maximum depth", () => {
+    const setOverlays = jest.fn();
+
+    const { result, rerender } = renderHook(
+      ({ overlays }) => useHistory(overlays, setOverlays, { maxDepth: 2 }),
+      { initialProps: { overlays: [] as Overlay[] } }
+    );
+
+    rerender({ overlays: [createMockOverlay(1)] });
+    rerender({ overlays: [createMockOverlay(1), createMockOverlay(2)] });
+    rerender({
+      overlays: [createMockOverlay(1), createMockOverlay(2), createMockOverlay(3)],
+    });
+
+    expect(result.current.entries).toHaveLength(2);
+    expect(result.current.currentIndex).toBe(1);
+  });
+
+  it("should restore editor settings and jump across several steps", () => {
+    const initialOverlays = [createMockOverlay(1)];
+    const setOverlays = jest.fn();
+    const setSettings = jest.fn();
+    const initialSettings: HistorySettings = {
+      aspectRatio: "16:9",
+      backgroundColor: "#000000",
+    };
+
+    const { result, rerender } = renderHook(
+      ({ overlays, settings }) =>
+        useHistory(overlays, setOverlays, { settings, setSettings }),
+      { initialProps: { overlays: initialOverlays, settings: initialSettings } }
+    );
+
+    rerender({
+      overlays: initialOverlays,
+      settings: { ...initialSettings, aspectRatio: "9:16" },
+    });
+    const withTwo = [...initialOverlays, createMockOverlay(2)];
+    rerender({
+      overlays: withTwo,
+      settings: { ...initialSettings, aspectRatio: "9:16" },
+    });
+
+    expect(result.current.entries.map((entry) => entry.label.action)).toEqual([
+      "aspectRatio",
+      "add",
+    ]);
+
+    act(() => {
+      result.current.jumpTo(-1);
+    });
+
+    expect(setOverlays).toHaveBeenLastCalledWith(initialOverlays);
+    expect(setSettings).toHaveBeenLastCalledWith(initialSettings);
+    expect(result.current.currentIndex).toBe(-1);
+    expect(result.current.canRedo).toBe(true);
+  });
 });
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { act, renderHook } from "@testing-library/react";
+import { useInOutPoints } from "../../components/editor/version-7.0.0/hooks/use-in-out-points";
+
+describe("useInOutPoints", () => {
+  it("starts without points", () => {
+    const { result } = renderHook(() =>
+      useInOutPoints({ currentFrame: 0, durationInFrames: 300 })
+    );
+
+    expect(result.current.inPoint).toBeNull();
+    expect(result.current.outPoint).toBeNull();
+  });
+
+  it("clamps points to the timeline", () => {
+    const { result } = renderHook(() =>
+      useInOutPoints({ currentFrame: 0, durationInFrames: 300 })
+    );
+
+    act(() => {
+      result.current.setInPoint(-10);
+      result.current.setOutPoint(500);
+    });
+
+    expect(result.current.inPoint).toBe(0);
+    expect(result.current.outPoint).toBe(299);
+  });
+
+  it("clears the out point when the in point moves past it", () => {
+    const { result } = renderHook(() =>
+      useInOutPoints({ currentFrame: 0, durationInFrames: 300 })
+    );
+
+    act(() => result.current.setOutPoint(100));
+    act(() => result.current.setInPoint(150));
+
+    expect(result.current.inPoint).toBe(150);
+    expect(result.current.outPoint).toBeNull();
+  });
+
+  it("sets points at the playhead with I and O", () => {
+    const { result, rerender } = renderHook(
+      ({ currentFrame }) => useInOutPoints({ currentFrame, durationInFrames: 300 }),
+      { initialProps: { currentFrame: 30 } }
+    );
+
+    act(() => {
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "i", code: "KeyI" }));
+    });
+    rerender({ currentFrame: 90 });
+    act(() => {
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "o", code: "KeyO" }));
+    });
+
+    expect(result.current.inPoint).toBe(30);
+    expect(result.current.outPoint).toBe(90);
+
+    act(() => result.current.clearInOutPoints());
+    expect(result.current.inPoint).toBeNull();
+    expect(result.current.outPoint).toBeNull();
+  });
+});
@@ -358,4 +358,54 @@ describe("useOverlays", () => {
       expect(result.current.selectedOverlayId).toBeNull();
     });
   });
+
+  describe("multi-selection", () => {
+    const groupedOverlays = [
+      { ...mockCaptionOverlay, groupId: "g1" },
+      { ...mockVideoOverlay, groupId: "g1" },
+      { ...mockVideoOverlay, id: 2, row: 2 },
+    ];
+
+    it("should select the whole group of a selected overlay", () => {
+      const { result } = renderHook(() => useOverlays(groupedOverlays));
+
+      act(() => {
+        result.current.setSelectedOverlayId(1);
+      });
+
+      expect(result.current.selectedOverlayId).toBe(1);
+      expect(result.current.selectedOverlayIds).toEqual([1, 0]);
+    });
+
+    it("should toggle overlays in and out of the selection", () => {
+      const { result } = renderHook(() => useOverlays(groupedOverlays));
+
+      act(() => {
+        result.current.setSelectedOverlayId(2);
+      });
+      act(() => {
+        result.current.toggleOverlaySelection(0);
+      });
+      expect([...result.current.selectedOverlayIds].sort()).toEqual([0, 1, 2]);
+
+      act(() => {
+        result.current.toggleOverlaySelection(2);
+      });
+      expect([...result.current.selectedOverlayIds].sort()).toEqual([0, 1]);
+    });
+
+    it("should delete every selected overlay and clear the selection", () => {
+      const { result } = renderHook(() => useOverlays(groupedOverlays));
+
+      act(() => {
+        result.current.selectOverlays([0, 2]);
+      });
+      act(() => {
+        result.current.deleteOverlays(result.current.selectedOverlayIds);
+      });
+
+      expect(result.current.overlays).toHaveLength(0);
+      expect(result.current.selectedOverlayIds).toEqual([]);
+    });
+  });
 });
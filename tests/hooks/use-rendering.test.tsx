@@ -1,6 +1,7 @@
 import { renderHook, act } from "@testing-library/react";
 import { useRendering } from "../../components/editor/version-7.0.0/hooks/use-rendering";
 import {
+  cancelRender as ssrCancelRender,
   getProgress as ssrGetProgress,
   renderVideo as ssrRenderVideo,
 } from "../../components/editor/version-7.0.0/ssr-helpers/api";
@@ -158,6 +159,53 @@ describe("useRendering", () => {
     });
   });
 
+  it("should report the queue position and cancel a queued SSR render", async () => {
+    const mockRenderId = "queued-render-id";
+
+    (ssrRenderVideo as jest.Mock).mockResolvedValueOnce({
+      renderId: mockRenderId,
+    });
+    (ssrGetProgress as jest.Mock).mockResolvedValue({
+      type: "queued",
+      position: 2,
+    });
+    (ssrCancelRender as jest.Mock).mockResolvedValueOnce({ cancelled: true });
+
+    const { result } = renderHook(() => useRendering(mockId, mockInputProps));
+
+    await act(async () => {
+      result.current.renderMedia();
+    });
+
+    await act(async () => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(result.current.state).toEqual({
+      status: "rendering",
+      progress: 0,
+      renderId: mockRenderId,
+      queuePosition: 2,
+    });
+
+    await act(async () => {
+      await result.current.cancelRender();
+    });
+
+    expect(ssrCancelRender).toHaveBeenCalledWith({ id: mockRenderId });
+    expect(result.current.state).toEqual({ status: "init" });
+
+    // Polling stops once the render is cancelled
+    const pollCount = (ssrGetProgress as jest.Mock).mock.calls.length;
+    await act(async () => {
+      jest.advanceTimersByTime(5000);
+    });
+    expect((ssrGetProgress as jest.Mock).mock.calls.length).toBeLessThanOrEqual(
+      pollCount + 1
+    );
+    expect(result.current.state).toEqual({ status: "init" });
+  });
+
   it("should reset state when undo is called", async () => {
     const { result } = renderHook(() => useRendering(mockId, mockInputProps));
 
@@ -59,6 +59,7 @@ describe("useTimelineDragAndDrop", () => {
     overlays: [createMockOverlay(1, 0, 100, 0)],
     durationInFrames: 300,
     onOverlayChange: jest.fn(),
+    onOverlaysChange: jest.fn(),
     updateGhostElement: jest.fn(),
     resetDragState: jest.fn(),
     timelineRef: createMockTimelineRef(),
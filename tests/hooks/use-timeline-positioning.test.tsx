@@ -4,6 +4,7 @@ import {
   Overlay,
   OverlayType,
 } from "../../components/editor/version-7.0.0/types";
+import { createTrack } from "../../components/editor/version-7.0.0/utils/timeline-tracks";
 
 describe("useTimelinePositioning", () => {
   const { result } = renderHook(() => useTimelinePositioning());
@@ -382,5 +383,21 @@ describe("useTimelinePositioning", () => {
       );
       expect(position).toEqual({ from: 21, row: 0 });
     });
+
+    it("skips rows whose track is locked", () => {
+      const tracks = [
+        { ...createTrack(0), locked: true },
+        createTrack(1),
+        { ...createTrack(2), locked: true },
+      ];
+
+      expect(result.current.findNextAvailablePosition([], 3, 100, 5, tracks)).toEqual({
+        from: 5,
+        row: 1,
+      });
+      expect(
+        result.current.findNextAvailablePosition([], 3, 100, 5, [tracks[0], tracks[2]])
+      ).toEqual({ from: 5, row: 2 });
+    });
   });
 });
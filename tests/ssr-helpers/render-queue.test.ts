@@ -0,0 +1,87 @@
+import {
+  createRenderQueue,
+  RenderJob,
+} from "../../components/editor/version-7.0.0/ssr-helpers/render-queue";
+
+const createJob = (id: string): RenderJob => ({
+  id,
+  compositionId: "TestComponent",
+  inputProps: {},
+  enqueuedAt: 0,
+});
+
+// Runner whose jobs only finish when the test resolves them
+const createControlledRunner = () => {
+  const running = new Map<string, { resolve: () => void; signal: AbortSignal }>();
+  const run = jest.fn(
+    (job: RenderJob, signal: AbortSignal) =>
+      new Promise<void>((resolve) => {
+        running.set(job.id, { resolve, signal });
+        signal.addEventListener("abort", () => resolve());
+      })
+  );
+  const finish = async (id: string) => {
+    running.get(id)!.resolve();
+    // Let the queue's finally handler start the next job
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return { run, running, finish };
+};
+
+describe("createRenderQueue", () => {
+  it("runs at most maxParallel jobs and starts the next when one finishes", async () => {
+    const { run, finish } = createControlledRunner();
+    const queue = createRenderQueue({ maxParallel: 2, run });
+
+    ["a", "b", "c"].forEach((id) => queue.enqueue(createJob(id)));
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(queue.getPosition("a")).toBe(0);
+    expect(queue.getPosition("c")).toBe(1);
+
+    await finish("a");
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(queue.getPosition("c")).toBe(0);
+    expect(queue.getPosition("a")).toBeNull();
+  });
+
+  it("reports the waiting order whenever it changes", async () => {
+    const { run, finish } = createControlledRunner();
+    const onQueueChange = jest.fn();
+    const queue = createRenderQueue({ maxParallel: 1, run, onQueueChange });
+
+    ["a", "b", "c"].forEach((id) => queue.enqueue(createJob(id)));
+    expect(onQueueChange).toHaveBeenLastCalledWith(["b", "c"]);
+
+    await finish("a");
+    expect(onQueueChange).toHaveBeenLastCalledWith(["c"]);
+  });
+
+  it("removes waiting jobs and aborts running ones on cancel", async () => {
+    const { run, running } = createControlledRunner();
+    const queue = createRenderQueue({ maxParallel: 1, run });
+
+    queue.enqueue(createJob("a"));
+    queue.enqueue(createJob("b"));
+
+    expect(queue.cancel("b")).toBe(true);
+    expect(queue.getPosition("b")).toBeNull();
+
+    expect(queue.cancel("a")).toBe(true);
+    expect(running.get("a")!.signal.aborted).toBe(true);
+
+    expect(queue.cancel("unknown")).toBe(false);
+  });
+
+  it("ignores jobs it already knows", () => {
+    const { run } = createControlledRunner();
+    const queue = createRenderQueue({ maxParallel: 1, run });
+
+    queue.enqueue(createJob("a"));
+    queue.enqueue(createJob("a"));
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(queue.waitingCount).toBe(0);
+  });
+});
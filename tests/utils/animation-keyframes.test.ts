@@ -0,0 +1,142 @@
+import {
+  addKeyframesAtFrame,
+  commitAnimatedChange,
+  getAnimatedValues,
+  interpolateKeyframes,
+  removeKeyframe,
+  shiftKeyframes,
+  splitKeyframes,
+  updateKeyframe,
+  upsertKeyframe,
+} from "../../components/editor/version-7.0.0/utils/animation-keyframes";
+import {
+  AnimationKeyframe,
+  Overlay,
+  OverlayType,
+} from "../../components/editor/version-7.0.0/types";
+
+const createOverlay = (overrides: Partial<Overlay> = {}): Overlay =>
+  ({
+    id: 1,
+    type: OverlayType.TEXT,
+    content: "Title",
+    from: 0,
+    durationInFrames: 100,
+    row: 0,
+    left: 10,
+    top: 20,
+    width: 200,
+    height: 100,
+    rotation: 0,
+    isDragging: false,
+    styles: {},
+    ...overrides,
+  } as Overlay);
+
+const keyframe = (
+  frame: number,
+  value: number,
+  easing: AnimationKeyframe["easing"] = "linear"
+): AnimationKeyframe => ({ id: `kf-${frame}`, frame, value, easing });
+
+describe("interpolateKeyframes", () => {
+  it("returns the fallback when there are no keyframes", () => {
+    expect(interpolateKeyframes(undefined, 10, 42)).toBe(42);
+    expect(interpolateKeyframes([], 10, 42)).toBe(42);
+  });
+
+  it("holds the first and last values outside the keyframe range", () => {
+    const track = [keyframe(10, 0), keyframe(20, 100)];
+    expect(interpolateKeyframes(track, 0, 0)).toBe(0);
+    expect(interpolateKeyframes(track, 50, 0)).toBe(100);
+  });
+
+  it("interpolates linearly between keyframes", () => {
+    const track = [keyframe(20, 100), keyframe(0, 0)];
+    expect(interpolateKeyframes(track, 10, 0)).toBe(50);
+  });
+
+  it("applies easing of the segment start and supports hold", () => {
+    const eased = [keyframe(0, 0, "ease-in"), keyframe(10, 100)];
+    expect(interpolateKeyframes(eased, 5, 0)).toBeLessThan(50);
+
+    const held = [keyframe(0, 0, "hold"), keyframe(10, 100)];
+    expect(interpolateKeyframes(held, 9, 0)).toBe(0);
+    expect(interpolateKeyframes(held, 10, 0)).toBe(100);
+  });
+});
+
+describe("getAnimatedValues", () => {
+  it("uses overlay geometry and neutral opacity/scale without keyframes", () => {
+    expect(getAnimatedValues(createOverlay(), 0)).toEqual({
+      left: 10,
+      top: 20,
+      width: 200,
+      height: 100,
+      rotation: 0,
+      opacity: 1,
+      scale: 1,
+    });
+  });
+});
+
+describe("keyframe editing", () => {
+  it("should upsert keyframes on the same frame", () => {
+    let overlay = upsertKeyframe(createOverlay(), "left", 5, 50);
+    overlay = upsertKeyframe(overlay, "left", 5, 80);
+    expect(overlay.keyframes?.left).toHaveLength(1);
+    expect(overlay.keyframes?.left?.[0].value).toBe(80);
+  });
+
+  it("should add keyframes for every property with current values", () => {
+    const overlay = addKeyframesAtFrame(createOverlay(), 0);
+    expect(overlay.keyframes?.width?.[0].value).toBe(200);
+    expect(overlay.keyframes?.opacity?.[0].value).toBe(1);
+  });
+
+  it("should move and remove keyframes, dropping empty tracks", () => {
+    const overlay = createOverlay({
+      keyframes: { left: [keyframe(0, 0), keyframe(10, 100)] },
+    });
+    const moved = updateKeyframe(overlay, "left", "kf-10", { frame: 500 });
+    expect(moved.keyframes?.left?.[1].frame).toBe(99);
+
+    const removed = removeKeyframe(
+      removeKeyframe(overlay, "left", "kf-0"),
+      "left",
+      "kf-10"
+    );
+    expect(removed.keyframes).toBeUndefined();
+  });
+
+  it("should write canvas edits to keyframed properties only", () => {
+    const overlay = createOverlay({
+      keyframes: { left: [keyframe(0, 0), keyframe(10, 100)] },
+    });
+    const result = commitAnimatedChange(overlay, 5, {
+      ...overlay,
+      left: 70,
+      top: 30,
+    });
+    expect(result.left).toBe(10);
+    expect(result.top).toBe(30);
+    expect(result.keyframes?.left).toHaveLength(3);
+    expect(interpolateKeyframes(result.keyframes?.left, 5, 0)).toBe(70);
+  });
+});
+
+describe("shiftKeyframes and splitKeyframes", () => {
+  it("should shift keyframes without dropping them", () => {
+    const shifted = shiftKeyframes({ left: [keyframe(0, 0)] }, -10);
+    expect(shifted?.left?.[0].frame).toBe(-10);
+  });
+
+  it("should keep motion continuous across a split", () => {
+    const track = [keyframe(0, 0), keyframe(100, 100)];
+    const [first, second] = splitKeyframes({ left: track }, 40);
+
+    expect(interpolateKeyframes(first?.left, 39, 0)).toBeCloseTo(39);
+    expect(interpolateKeyframes(second?.left, 0, 0)).toBeCloseTo(40);
+    expect(interpolateKeyframes(second?.left, 60, 0)).toBeCloseTo(100);
+  });
+});
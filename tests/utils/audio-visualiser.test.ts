@@ -0,0 +1,117 @@
+import {
+  Overlay,
+  OverlayType,
+  SoundOverlay,
+  StickerOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  getSourceFrame,
+  getSourceGain,
+  mixLevels,
+  resolveVisualiserSources,
+} from "../../components/editor/version-7.0.0/utils/audio-visualiser";
+
+const sound = (id: number, from: number, extra: Partial<SoundOverlay> = {}) =>
+  ({
+    id,
+    row: id,
+    from,
+    durationInFrames: 100,
+    type: OverlayType.SOUND,
+    src: `sound-${id}.mp3`,
+    content: `sound-${id}.mp3`,
+    startFromSound: 0,
+    styles: {},
+    ...extra,
+  } as SoundOverlay);
+
+const visualiser = (from: number, visualiser?: StickerOverlay["visualiser"]) =>
+  ({
+    id: 10,
+    row: 0,
+    from,
+    durationInFrames: 200,
+    type: OverlayType.STICKER,
+    content: "audio-visualiser",
+    category: "Default",
+    styles: {},
+    visualiser,
+  } as unknown as StickerOverlay);
+
+describe("resolveVisualiserSources", () => {
+  it("follows every audible sound in the mix", () => {
+    const overlays: Overlay[] = [
+      visualiser(0),
+      sound(1, 0),
+      sound(2, 0, { styles: { volume: 0 } }),
+    ];
+
+    const sources = resolveVisualiserSources(overlays).get(10);
+    expect(sources?.map((source) => source.overlay.id)).toEqual([1]);
+  });
+
+  it("follows only the picked sound", () => {
+    const overlays: Overlay[] = [
+      visualiser(20, { source: 2, style: "wave", primaryColor: "#fff", secondaryColor: "#000" }),
+      sound(1, 0),
+      sound(2, 50),
+    ];
+
+    expect(resolveVisualiserSources(overlays).get(10)).toEqual([
+      { overlay: overlays[2], offset: 30 },
+    ]);
+  });
+
+  it("keeps following a picked sound after it is split", () => {
+    const overlays: Overlay[] = [
+      visualiser(0, { source: 2, style: "bars", primaryColor: "#fff", secondaryColor: "#000" }),
+      sound(2, 0, { durationInFrames: 40 }),
+      sound(3, 40, { durationInFrames: 60, startFromSound: 40, src: "sound-2.mp3" }),
+      sound(4, 0),
+    ];
+
+    const sources = resolveVisualiserSources(overlays).get(10);
+    expect(sources?.map((source) => source.overlay.id)).toEqual([2, 3]);
+  });
+});
+
+describe("getSourceFrame", () => {
+  it("maps sticker frames onto the file while the sound plays", () => {
+    const source = { overlay: sound(1, 50, { startFromSound: 15 }), offset: 30 };
+
+    expect(getSourceFrame(source, 10)).toBeNull();
+    expect(getSourceFrame(source, 30)).toBe(15);
+    expect(getSourceFrame(source, 80)).toBe(65);
+    expect(getSourceFrame(source, 130)).toBeNull();
+  });
+
+  it("follows the speed of a video clip", () => {
+    const clip = {
+      ...sound(1, 0),
+      type: OverlayType.VIDEO,
+      videoStartTime: 10,
+      speed: 2,
+    } as unknown as Overlay;
+
+    expect(
+      getSourceFrame({ overlay: clip as SoundOverlay, offset: 0 }, 20)
+    ).toBe(50);
+  });
+});
+
+describe("mixing", () => {
+  it("weights each source by its volume at the frame", () => {
+    const source = { overlay: sound(1, 0, { styles: { fadeInFrames: 10 } }), offset: 0 };
+
+    expect(getSourceGain(source, 5)).toBeCloseTo(0.5);
+    expect(
+      mixLevels(
+        [
+          { values: [0.4, 0.8], gain: 0.5 },
+          { values: [0.4, 0.8], gain: 1 },
+        ],
+        2
+      )
+    ).toEqual([expect.closeTo(0.6), 1]);
+  });
+});
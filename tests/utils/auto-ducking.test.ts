@@ -0,0 +1,110 @@
+import { Overlay, OverlayType, SoundOverlay } from "../../components/editor/version-7.0.0/types";
+import {
+  buildDuckingEnvelope,
+  detectSpeechSpans,
+  getDuckedSpans,
+  resolveDucking,
+} from "../../components/editor/version-7.0.0/utils/auto-ducking";
+import { getVolumeAtFrame } from "../../components/editor/version-7.0.0/utils/volume-envelope";
+
+const sound = (
+  id: number,
+  src: string,
+  from: number,
+  durationInFrames: number,
+  extra: Partial<SoundOverlay> = {}
+) =>
+  ({
+    id,
+    row: id,
+    from,
+    durationInFrames,
+    type: OverlayType.SOUND,
+    src,
+    content: src,
+    startFromSound: 0,
+    styles: {},
+    ...extra,
+  } as SoundOverlay);
+
+const settings = { depth: 0.75, attackFrames: 5, releaseFrames: 10 };
+
+describe("detectSpeechSpans", () => {
+  it("bridges short pauses and drops short blips", () => {
+    const levels = [
+      ...Array(10).fill(0.8),
+      ...Array(5).fill(0),
+      ...Array(10).fill(0.8),
+      ...Array(30).fill(0),
+      ...Array(2).fill(0.9),
+    ];
+
+    expect(detectSpeechSpans(levels)).toEqual([{ start: 0, end: 25 }]);
+  });
+});
+
+describe("getDuckedSpans", () => {
+  it("places the speech of each voice relative to the music", () => {
+    const music = sound(1, "music.mp3", 10, 300, {
+      ducking: { ...settings, sources: [{ src: "voice.mp3", speech: [{ start: 20, end: 60 }] }] },
+    });
+    // The voice skips its first 30 source frames and starts at frame 100
+    const voice = sound(2, "voice.mp3", 100, 100, { startFromSound: 30 });
+
+    expect(getDuckedSpans(music, [music, voice])).toEqual([{ start: 90, end: 120 }]);
+  });
+
+  it("ignores voices that aren't picked", () => {
+    const music = sound(1, "music.mp3", 0, 300, {
+      ducking: { ...settings, sources: [{ src: "voice.mp3", speech: [{ start: 0, end: 30 }] }] },
+    });
+
+    expect(getDuckedSpans(music, [music, sound(2, "other.mp3", 0, 100)])).toEqual([]);
+  });
+
+  it("ignores voices that can't be heard", () => {
+    const music = sound(1, "music.mp3", 0, 300, {
+      ducking: { ...settings, sources: [{ src: "voice.mp3", speech: [{ start: 0, end: 30 }] }] },
+    });
+    const muted = sound(2, "voice.mp3", 0, 100, { styles: { volume: 0 } });
+
+    expect(getDuckedSpans(music, [music, muted])).toEqual([]);
+  });
+});
+
+describe("buildDuckingEnvelope", () => {
+  it("ramps down before speech and back up after it", () => {
+    expect(buildDuckingEnvelope([{ start: 20, end: 50 }], settings)).toEqual([
+      { frame: 15, gain: 1 },
+      { frame: 20, gain: 0.25 },
+      { frame: 50, gain: 0.25 },
+      { frame: 60, gain: 1 },
+    ]);
+  });
+
+  it("merges phrases closer than the attack and release", () => {
+    const envelope = buildDuckingEnvelope(
+      [
+        { start: 20, end: 50 },
+        { start: 60, end: 80 },
+      ],
+      settings
+    );
+
+    expect(envelope.map((point) => point.frame)).toEqual([15, 20, 80, 90]);
+  });
+});
+
+describe("resolveDucking", () => {
+  it("lowers the music while the voice speaks", () => {
+    const music = sound(1, "music.mp3", 0, 300, {
+      ducking: { ...settings, sources: [{ src: "voice.mp3", speech: [{ start: 0, end: 40 }] }] },
+    });
+    const overlays: Overlay[] = [music, sound(2, "voice.mp3", 100, 100)];
+    const envelope = resolveDucking(overlays).get(1);
+
+    expect(getVolumeAtFrame(music, 50, envelope)).toBe(1);
+    expect(getVolumeAtFrame(music, 120, envelope)).toBeCloseTo(0.25);
+    expect(getVolumeAtFrame(music, 200, envelope)).toBe(1);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  buildStretchedCaptions,
+  collectTimelineCaptions,
+  formatTimestamp,
+  getTimelineCaptions,
+  toSrt,
+  toVtt,
+  toWordJson,
+} from "../../components/editor/version-7.0.0/utils/caption-export";
+import { parseSubtitles } from "../../components/editor/version-7.0.0/utils/subtitle-parser";
+import {
+  Caption,
+  CaptionOverlay,
+  OverlayType,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+
+const caption = (text: string, startMs: number, endMs: number): Caption => {
+  const words = text.split(" ");
+  const step = (endMs - startMs) / words.length;
+  return {
+    text,
+    startMs,
+    endMs,
+    timestampMs: null,
+    confidence: null,
+    words: words.map((word, index) => ({
+      word,
+      startMs: startMs + index * step,
+      endMs: startMs + (index + 1) * step,
+      confidence: 0.9,
+    })),
+  };
+};
+
+const makeOverlay = (overrides: Partial<CaptionOverlay> = {}): CaptionOverlay => ({
+  id: 1,
+  type: OverlayType.CAPTION,
+  from: 60,
+  durationInFrames: 120,
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  isDragging: false,
+  captions: [caption("Hello world", 500, 1500), caption("Second line", 2000, 2500)],
+  ...overrides,
+});
+
+const title: TextOverlay = {
+  id: 3,
+  type: OverlayType.TEXT,
+  content: "Title",
+  from: 0,
+  durationInFrames: 90,
+  row: 1,
+  left: 0,
+  top: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  isDragging: false,
+  styles: {
+    fontSize: "3rem",
+    fontWeight: "700",
+    color: "#ffffff",
+    backgroundColor: "",
+    fontFamily: "Inter",
+    fontStyle: "normal",
+    textDecoration: "none",
+  },
+};
+
+describe("buildStretchedCaptions", () => {
+  it("spans the overlay duration without gaps", () => {
+    const stretched = buildStretchedCaptions(makeOverlay().captions, 4000);
+    expect(stretched[0].startMs).toBe(0);
+    expect(stretched[0].endMs).toBe(stretched[1].startMs);
+    expect(stretched[1].endMs).toBe(4000);
+    expect(stretched[0].words[1].endMs).toBe(stretched[0].endMs);
+  });
+});
+
+describe("getTimelineCaptions", () => {
+  it("offsets the stretched timings by the overlay start", () => {
+    // from 60 = 2s, 120 frames = 4s at 30fps
+    const captions = getTimelineCaptions(makeOverlay());
+    expect(captions[0].startMs).toBe(2000);
+    expect(captions[0].words[0].startMs).toBe(2000);
+    expect(captions[1].endMs).toBe(6000);
+  });
+
+  it("uses the given frame rate", () => {
+    const captions = getTimelineCaptions(makeOverlay({ from: 25 }), 25);
+    expect(captions[0].startMs).toBe(1000);
+    expect(captions[1].endMs).toBe(5800);
+  });
+});
+
+describe("collectTimelineCaptions", () => {
+  it("merges caption overlays in playback order and ignores other overlays", () => {
+    const captions = collectTimelineCaptions([
+      makeOverlay({ id: 2, from: 300, captions: [caption("Later", 0, 1000)] }),
+      title,
+      makeOverlay({ id: 1, from: 0 }),
+    ]);
+    expect(captions.map((c) => c.text)).toEqual(["Hello world", "Second line", "Later"]);
+  });
+});
+
+describe("serializers", () => {
+  const captions = getTimelineCaptions(makeOverlay());
+
+  it("formats SRT and WebVTT timestamps", () => {
+    expect(formatTimestamp(3_723_004, "srt")).toBe("01:02:03,004");
+    expect(formatTimestamp(61_500, "vtt")).toBe("00:01:01.500");
+  });
+
+  it("writes numbered SRT cues", () => {
+    expect(toSrt(captions).split("\n").slice(0, 4)).toEqual([
+      "1",
+      "00:00:02,000 --> 00:00:05,000",
+      "Hello world",
+      "",
+    ]);
+  });
+
+  it("writes WebVTT that the importer reads back with the same timings", () => {
+    const vtt = toVtt(captions);
+    expect(vtt.startsWith("WEBVTT\n\n")).toBe(true);
+
+    const parsed = parseSubtitles(vtt, "export.vtt");
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.captions.map((c) => [c.text, c.startMs, c.endMs])).toEqual(
+      captions.map((c) => [c.text, c.startMs, c.endMs])
+    );
+    expect(parsed.captions[0].words[1].startMs).toBe(captions[0].words[1].startMs);
+  });
+
+  it("writes word timings in seconds alongside the caption groups", () => {
+    const json = JSON.parse(toWordJson(captions));
+    expect(json.words[0]).toEqual({
+      word: "Hello",
+      start: 2,
+      end: captions[0].words[0].endMs / 1000,
+      confidence: 0.9,
+    });
+    expect(json.captions).toHaveLength(2);
+    expect(json.captions[1].words[1].endMs).toBe(6000);
+  });
+});
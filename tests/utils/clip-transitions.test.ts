@@ -0,0 +1,211 @@
+import {
+  applyTransition,
+  buildTransitionLayers,
+  findBoundaryNear,
+  getClipBoundaries,
+  getMaxTransitionDuration,
+  getTransitionStyleAtFrame,
+  sanitizeTransitions,
+} from "../../components/editor/version-7.0.0/utils/clip-transitions";
+import { getVolumeAtFrame } from "../../components/editor/version-7.0.0/utils/volume-envelope";
+import {
+  ClipOverlay,
+  Overlay,
+  OverlayType,
+} from "../../components/editor/version-7.0.0/types";
+
+const createClip = (overrides: Partial<ClipOverlay> = {}): ClipOverlay => ({
+  id: 1,
+  type: OverlayType.VIDEO,
+  content: "clip.mp4",
+  src: "clip.mp4",
+  from: 0,
+  durationInFrames: 60,
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1280,
+  height: 720,
+  rotation: 0,
+  isDragging: false,
+  videoStartTime: 0,
+  styles: {},
+  ...overrides,
+});
+
+const createPair = (): Overlay[] => [
+  createClip({
+    id: 1,
+    transition: { type: "crossfade", durationInFrames: 10 },
+  }),
+  createClip({ id: 2, from: 60, videoStartTime: 30 }),
+];
+
+describe("getClipBoundaries", () => {
+  it("finds cuts between touching clips on the same row only", () => {
+    const overlays = [
+      createClip({ id: 1 }),
+      createClip({ id: 2, from: 60 }),
+      createClip({ id: 3, from: 60, row: 1 }),
+      createClip({ id: 4, from: 130 }),
+    ];
+    const boundaries = getClipBoundaries(overlays);
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0].outgoing.id).toBe(1);
+    expect(boundaries[0].incoming.id).toBe(2);
+    expect(boundaries[0].frame).toBe(60);
+  });
+
+  it("finds the cut closest to a drop position", () => {
+    const overlays = createPair();
+    expect(findBoundaryNear(overlays, 0, 57, 5)?.frame).toBe(60);
+    expect(findBoundaryNear(overlays, 0, 40, 5)).toBeUndefined();
+    expect(findBoundaryNear(overlays, 1, 60, 5)).toBeUndefined();
+  });
+});
+
+describe("applyTransition and sanitizeTransitions", () => {
+  it("clamps the duration to the shorter clip", () => {
+    const overlays = [
+      createClip({ id: 1 }),
+      createClip({ id: 2, from: 60, durationInFrames: 20 }),
+    ];
+    const result = applyTransition(overlays, 1, {
+      type: "wipe",
+      durationInFrames: 90,
+    });
+    expect((result[0] as ClipOverlay).transition).toEqual({
+      type: "wipe",
+      durationInFrames: 20,
+    });
+  });
+
+  it("refuses a transition on a cut without media to overlap", () => {
+    const overlays = [
+      createClip({ id: 1, mediaDurationInFrames: 60 }),
+      createClip({ id: 2, from: 60 }),
+    ];
+    expect(getMaxTransitionDuration(overlays[0], overlays[1])).toBe(0);
+    expect(applyTransition(overlays, 1, { type: "wipe", durationInFrames: 10 })[0]).toBe(
+      overlays[0]
+    );
+
+    const result = sanitizeTransitions([
+      { ...overlays[0], transition: { type: "wipe", durationInFrames: 10 } },
+      overlays[1],
+    ]);
+    expect((result[0] as ClipOverlay).transition).toBeUndefined();
+  });
+
+  it("removes a transition when undefined is passed", () => {
+    const result = applyTransition(createPair(), 1, undefined);
+    expect((result[0] as ClipOverlay).transition).toBeUndefined();
+  });
+
+  it("drops transitions whose cut no longer exists", () => {
+    const overlays = createPair();
+    const moved = [overlays[0], { ...overlays[1], from: 80 }];
+    const result = sanitizeTransitions(moved);
+    expect((result[0] as ClipOverlay).transition).toBeUndefined();
+  });
+
+  it("returns the same array when nothing changed", () => {
+    const overlays = createPair();
+    expect(sanitizeTransitions(overlays)).toBe(overlays);
+  });
+});
+
+describe("buildTransitionLayers", () => {
+  it("overlaps both clips around the cut", () => {
+    const { overlays, windows } = buildTransitionLayers(createPair());
+    const [outgoing, incoming] = overlays as ClipOverlay[];
+
+    expect(outgoing.from).toBe(0);
+    expect(outgoing.durationInFrames).toBe(65);
+    expect(incoming.from).toBe(55);
+    expect(incoming.durationInFrames).toBe(65);
+    expect(incoming.videoStartTime).toBe(25);
+
+    expect(windows.get(1)).toEqual([
+      { type: "crossfade", role: "out", startFrame: 55, durationInFrames: 10 },
+    ]);
+    expect(windows.get(2)).toEqual([
+      { type: "crossfade", role: "in", startFrame: 0, durationInFrames: 10 },
+    ]);
+  });
+
+  it("keeps the volume envelope and fade-in on the same source frames", () => {
+    const [outgoing, original] = createPair() as ClipOverlay[];
+    original.styles = {
+      fadeInFrames: 10,
+      volumeEnvelope: [
+        { frame: 10, gain: 1 },
+        { frame: 20, gain: 0.5 },
+      ],
+    };
+    const incoming = buildTransitionLayers([outgoing, original])
+      .overlays[1] as ClipOverlay;
+
+    // Extended by 5 frames at its head, so its source frame 20 is now frame 25
+    expect(incoming.styles.volumeEnvelope).toEqual([
+      { frame: 15, gain: 1 },
+      { frame: 25, gain: 0.5 },
+    ]);
+    [0, 5, 15, 20, 30].forEach((frame) => {
+      expect(getVolumeAtFrame(incoming, frame + 5)).toBeCloseTo(
+        getVolumeAtFrame(original, frame)
+      );
+    });
+    expect(getVolumeAtFrame(incoming, 2)).toBe(0);
+  });
+
+  it("keeps an untrimmed incoming clip at its start", () => {
+    const { overlays, windows } = buildTransitionLayers([
+      createPair()[0],
+      createClip({ id: 2, from: 60 }),
+    ]);
+    const [outgoing, incoming] = overlays as ClipOverlay[];
+
+    expect(outgoing.durationInFrames).toBe(70);
+    expect(incoming).toMatchObject({ from: 60, durationInFrames: 60, videoStartTime: 0 });
+    expect(windows.get(1)![0].startFrame).toBe(60);
+  });
+
+  it("does not extend an outgoing clip past the end of its media", () => {
+    const { overlays } = buildTransitionLayers([
+      { ...createPair()[0], mediaDurationInFrames: 64 } as ClipOverlay,
+      createPair()[1],
+    ]);
+    const [outgoing, incoming] = overlays as ClipOverlay[];
+
+    expect(outgoing.durationInFrames).toBe(64);
+    expect(incoming).toMatchObject({ from: 54, durationInFrames: 66, videoStartTime: 24 });
+  });
+
+  it("leaves overlays untouched without transitions", () => {
+    const overlays = [createClip({ id: 1 }), createClip({ id: 2, from: 60 })];
+    expect(buildTransitionLayers(overlays).overlays).toBe(overlays);
+  });
+});
+
+describe("getTransitionStyleAtFrame", () => {
+  const windows = [
+    {
+      type: "crossfade" as const,
+      role: "in" as const,
+      startFrame: 0,
+      durationInFrames: 9,
+    },
+  ];
+
+  it("fades the incoming clip in above the outgoing one", () => {
+    const style = getTransitionStyleAtFrame(windows, 4, 10);
+    expect(style?.opacity).toBeCloseTo(0.5);
+    expect(style?.zIndex).toBe(11);
+  });
+
+  it("returns null outside the transition", () => {
+    expect(getTransitionStyleAtFrame(windows, 9, 10)).toBeNull();
+    expect(getTransitionStyleAtFrame(undefined, 0, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  ClipOverlay,
+  ImageOverlay,
+  Overlay,
+  OverlayType,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  buildMergeManifest,
+  getMergeVariables,
+  mergeOverlays,
+  parseMergeDataset,
+  validateMergeRows,
+} from "../../components/editor/version-7.0.0/utils/data-merge";
+
+const base = {
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1080,
+  height: 1920,
+  rotation: 0,
+  isDragging: false,
+};
+
+const greeting = {
+  ...base,
+  id: 1,
+  from: 0,
+  durationInFrames: 90,
+  type: OverlayType.TEXT,
+  content: "Hi {{ name }}, welcome to {{city}}!",
+  styles: {},
+} as unknown as TextOverlay;
+
+const background = {
+  ...base,
+  id: 2,
+  from: 0,
+  durationInFrames: 90,
+  type: OverlayType.VIDEO,
+  content: "{{clip}}",
+  src: "{{clip}}",
+  styles: {},
+} as ClipOverlay;
+
+const logo = {
+  ...base,
+  id: 3,
+  from: 0,
+  durationInFrames: 90,
+  type: OverlayType.IMAGE,
+  content: "https://cdn.example.com/logo.png",
+  src: "https://cdn.example.com/logo.png",
+  styles: {},
+} as ImageOverlay;
+
+const overlays: Overlay[] = [greeting, background, logo];
+
+describe("parseMergeDataset", () => {
+  it("reads a CSV file with quoted fields", () => {
+    const dataset = parseMergeDataset(
+      '\uFEFFname,city,clip\n"Ana, Jr.",Lima,https://cdn.example.com/a.mp4\nBo,"The ""Big"" Apple",\n\n',
+      "people.csv"
+    );
+
+    expect(dataset.columns).toEqual(["name", "city", "clip"]);
+    expect(dataset.rows).toEqual([
+      { name: "Ana, Jr.", city: "Lima", clip: "https://cdn.example.com/a.mp4" },
+      { name: "Bo", city: 'The "Big" Apple', clip: "" },
+    ]);
+  });
+
+  it("detects a semicolon delimiter", () => {
+    const dataset = parseMergeDataset("name;city\r\nAna;Lima", "people.csv");
+    expect(dataset.rows).toEqual([{ name: "Ana", city: "Lima" }]);
+  });
+
+  it("reads a JSON array of objects, filling absent fields", () => {
+    const dataset = parseMergeDataset(
+      JSON.stringify([{ name: "Ana", age: 30 }, { name: "Bo", city: null }]),
+      "people.json"
+    );
+
+    expect(dataset.columns).toEqual(["name", "age", "city"]);
+    expect(dataset.rows[1]).toEqual({ name: "Bo", age: "", city: "" });
+  });
+
+  it("rejects files without rows", () => {
+    expect(() => parseMergeDataset("name,city", "empty.csv")).toThrow();
+    expect(() => parseMergeDataset('{"name":"Ana"}', "one.json")).toThrow();
+  });
+});
+
+describe("getMergeVariables", () => {
+  it("lists each variable of texts and media once", () => {
+    expect(getMergeVariables(overlays)).toEqual(["name", "city", "clip"]);
+  });
+});
+
+describe("mergeOverlays", () => {
+  it("fills texts and bound media for a row", () => {
+    const [text, video, image] = mergeOverlays(overlays, {
+      name: "Ana",
+      clip: "https://cdn.example.com/a.mp4",
+    }) as [TextOverlay, ClipOverlay, ImageOverlay];
+
+    expect(text.content).toBe("Hi Ana, welcome to !");
+    expect(video.src).toBe("https://cdn.example.com/a.mp4");
+    expect(video.content).toBe("https://cdn.example.com/a.mp4");
+    expect(image).toBe(logo);
+  });
+});
+
+describe("validateMergeRows", () => {
+  it("reports empty and unreachable media, checking each URL once", async () => {
+    const checkUrl = jest.fn(async (url: string) => !url.includes("broken"));
+    const issues = await validateMergeRows(
+      overlays,
+      [
+        { clip: "https://cdn.example.com/a.mp4" },
+        { clip: "" },
+        { clip: "https://cdn.example.com/broken.mp4" },
+        { clip: "https://cdn.example.com/broken.mp4" },
+      ],
+      checkUrl
+    );
+
+    expect(checkUrl).toHaveBeenCalledTimes(2);
+    expect(issues).toEqual([
+      { rowIndex: 1, overlayId: 2, url: "", reason: "empty" },
+      {
+        rowIndex: 2,
+        overlayId: 2,
+        url: "https://cdn.example.com/broken.mp4",
+        reason: "unreachable",
+      },
+      {
+        rowIndex: 3,
+        overlayId: 2,
+        url: "https://cdn.example.com/broken.mp4",
+        reason: "unreachable",
+      },
+    ]);
+  });
+});
+
+describe("buildMergeManifest", () => {
+  const dataset = {
+    name: "people.csv",
+    columns: ["name"],
+    rows: [{ name: "Ana" }, { name: "Bo, Jr." }, { name: "Cy" }],
+  };
+  const results = [
+    { rowIndex: 0, status: "done" as const, url: "https://cdn.example.com/0.mp4" },
+    { rowIndex: 1, status: "error" as const, error: "Render failed" },
+  ];
+
+  it("lists every row as CSV, rows without a result as skipped", () => {
+    expect(buildMergeManifest(dataset, results, "csv").split("\n")).toEqual([
+      "row,status,url,error,name",
+      "1,done,https://cdn.example.com/0.mp4,,Ana",
+      '2,error,,Render failed,"Bo, Jr."',
+      "3,skipped,,,Cy",
+    ]);
+  });
+
+  it("lists every row as JSON with its data", () => {
+    const manifest = JSON.parse(buildMergeManifest(dataset, results, "json"));
+    expect(manifest[0]).toEqual({
+      row: 1,
+      status: "done",
+      url: "https://cdn.example.com/0.mp4",
+      error: "",
+      data: { name: "Ana" },
+    });
+    expect(manifest[2].status).toBe("skipped");
+  });
+});
@@ -0,0 +1,117 @@
+import { Overlay } from "../../components/editor/version-7.0.0/types";
+import {
+  EXPORT_PRESETS,
+  getEncodingOptions,
+  getExportContainer,
+  getInOutFrameRange,
+  getSelectionFrameRange,
+  validateExportSettings,
+} from "../../components/editor/version-7.0.0/utils/export-formats";
+
+const defaults = { crf: 28, x264Preset: "ultrafast" as const, durationInFrames: 300 };
+
+describe("validateExportSettings", () => {
+  it("accepts every preset", () => {
+    EXPORT_PRESETS.forEach((preset) => {
+      expect(validateExportSettings(preset.settings)).toBeNull();
+    });
+  });
+
+  it("rejects containers the codec cannot be written to", () => {
+    expect(validateExportSettings({ codec: "vp9", container: "mp4" })).toMatch(/vp9/);
+    expect(validateExportSettings({ container: "webm" })).toMatch(/h264/);
+  });
+
+  it("checks the CRF against the codec", () => {
+    expect(validateExportSettings({ codec: "prores", crf: 20 })).toMatch(/CRF/);
+    expect(validateExportSettings({ codec: "h264", crf: 60 })).toMatch(/between 1 and 51/);
+    expect(validateExportSettings({ codec: "vp9", crf: 60 })).toBeNull();
+  });
+
+  it("rejects an audio bitrate for GIF and WAV", () => {
+    expect(validateExportSettings({ codec: "gif", audioBitrate: "128k" })).not.toBeNull();
+    expect(validateExportSettings({ codec: "mp3", audioBitrate: "128k" })).toBeNull();
+  });
+});
+
+describe("getEncodingOptions", () => {
+  it("keeps the render path's h264 defaults when nothing is chosen", () => {
+    expect(getEncodingOptions({}, defaults)).toMatchObject({
+      codec: "h264",
+      container: "mp4",
+      fileName: "video.mp4",
+      crf: 28,
+      x264Preset: "ultrafast",
+      imageFormat: "jpeg",
+      everyNthFrame: 1,
+      numberOfGifLoops: undefined,
+    });
+  });
+
+  it("drops options the codec does not support", () => {
+    const prores = getEncodingOptions({ codec: "prores" }, defaults);
+    expect(prores).toMatchObject({
+      container: "mov",
+      crf: undefined,
+      x264Preset: undefined,
+      proResProfile: "hq",
+      imageFormat: "png",
+    });
+
+    const gif = getEncodingOptions({ codec: "gif" }, defaults);
+    expect(gif).toMatchObject({ everyNthFrame: 2, numberOfGifLoops: 0, crf: undefined });
+
+    expect(getEncodingOptions({ codec: "vp9" }, defaults).crf).toBeUndefined();
+  });
+
+  it("cuts frame ranges at the last frame and rejects ranges after it", () => {
+    expect(getEncodingOptions({ frameRange: [30, 1000] }, defaults).frameRange).toEqual([
+      30, 299,
+    ]);
+    expect(() => getEncodingOptions({ frameRange: [400, 500] }, defaults)).toThrow(
+      /after the last frame/
+    );
+  });
+
+  it("throws for settings that do not fit together", () => {
+    expect(() => getEncodingOptions({ codec: "mp3", container: "mp4" }, defaults)).toThrow();
+  });
+});
+
+describe("getExportContainer", () => {
+  it("falls back to the codec's default container", () => {
+    expect(getExportContainer({ codec: "vp9" })).toBe("webm");
+    expect(getExportContainer({ codec: "h264", container: "mov" })).toBe("mov");
+  });
+});
+
+describe("getInOutFrameRange", () => {
+  it("has no range without points", () => {
+    expect(getInOutFrameRange(null, null, 300)).toBeNull();
+  });
+
+  it("runs to the ends of the timeline when a point is missing", () => {
+    expect(getInOutFrameRange(60, null, 300)).toEqual([60, 299]);
+    expect(getInOutFrameRange(null, 90, 300)).toEqual([0, 90]);
+  });
+
+  it("cuts the range at the last frame", () => {
+    expect(getInOutFrameRange(60, 400, 300)).toEqual([60, 299]);
+  });
+});
+
+describe("getSelectionFrameRange", () => {
+  const overlays = [
+    { id: 1, from: 30, durationInFrames: 60 },
+    { id: 2, from: 120, durationInFrames: 30 },
+    { id: 3, from: 0, durationInFrames: 300 },
+  ] as Overlay[];
+
+  it("spans the selected overlays", () => {
+    expect(getSelectionFrameRange(overlays, [1, 2])).toEqual([30, 149]);
+  });
+
+  it("has no range without a selection", () => {
+    expect(getSelectionFrameRange(overlays, [])).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  Overlay,
+  OverlayType,
+  SoundOverlay,
+  TextOverlay,
+  ClipOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  formatFrameRate,
+  normaliseFrameRate,
+  retimeOverlay,
+  retimeOverlays,
+} from "../../components/editor/version-7.0.0/utils/frame-rate";
+
+const text = (id: number, from: number, durationInFrames: number) =>
+  ({
+    id,
+    row: 0,
+    from,
+    durationInFrames,
+    type: OverlayType.TEXT,
+    content: "Hello",
+    styles: {},
+  } as unknown as TextOverlay);
+
+describe("normaliseFrameRate", () => {
+  it("reads rounded rates back as the supported rate", () => {
+    expect(normaliseFrameRate(23.976, 30)).toBe(24000 / 1001);
+    expect(normaliseFrameRate("25", 30)).toBe(25);
+    expect(formatFrameRate(24000 / 1001)).toBe("23.976");
+  });
+
+  it("falls back for missing or unsupported rates", () => {
+    expect(normaliseFrameRate(undefined, 30)).toBe(30);
+    expect(normaliseFrameRate(0, 30)).toBe(30);
+    expect(normaliseFrameRate(48, 30)).toBe(30);
+  });
+});
+
+describe("retimeOverlays", () => {
+  it("keeps clips that touched touching", () => {
+    const overlays: Overlay[] = [text(1, 0, 31), text(2, 31, 31), text(3, 62, 31)];
+
+    const retimed = retimeOverlays(overlays, 30, 24000 / 1001);
+    retimed.slice(1).forEach((overlay, i) => {
+      expect(overlay.from).toBe(retimed[i].from + retimed[i].durationInFrames);
+    });
+  });
+
+  it("keeps items at the same time", () => {
+    const [retimed] = retimeOverlays([text(1, 60, 90)], 30, 60);
+    expect(retimed).toMatchObject({ from: 120, durationInFrames: 180 });
+  });
+
+  it("leaves overlays alone when the rate does not change", () => {
+    const overlays: Overlay[] = [text(1, 0, 30)];
+    expect(retimeOverlays(overlays, 30, 30)).toBe(overlays);
+  });
+});
+
+describe("retimeOverlay", () => {
+  it("converts media offsets, fades and keyframes", () => {
+    const clip = {
+      ...text(1, 30, 60),
+      type: OverlayType.VIDEO,
+      src: "clip.mp4",
+      videoStartTime: 15,
+      styles: { fadeInFrames: 10, volumeEnvelope: [{ frame: 30, volume: 0.5 }] },
+      keyframes: { opacity: [{ frame: 6, value: 1 }] },
+      transition: { type: "fade", durationInFrames: 15 },
+    } as unknown as ClipOverlay;
+
+    expect(retimeOverlay(clip, 30, 60)).toMatchObject({
+      from: 60,
+      durationInFrames: 120,
+      videoStartTime: 30,
+      styles: { fadeInFrames: 20, volumeEnvelope: [{ frame: 60, volume: 0.5 }] },
+      keyframes: { opacity: [{ frame: 12, value: 1 }] },
+      transition: { durationInFrames: 30 },
+    });
+  });
+
+  it("converts where a sound starts and the speech it ducks under", () => {
+    const sound = {
+      ...text(1, 0, 50),
+      type: OverlayType.SOUND,
+      src: "music.mp3",
+      startFromSound: 50,
+      ducking: {
+        depth: 0.5,
+        attackFrames: 10,
+        releaseFrames: 20,
+        sources: [{ src: "voice.mp3", speech: [{ start: 5, end: 25 }] }],
+      },
+    } as unknown as SoundOverlay;
+
+    expect(retimeOverlay(sound, 50, 25)).toMatchObject({
+      startFromSound: 25,
+      ducking: {
+        attackFrames: 5,
+        releaseFrames: 10,
+        sources: [{ speech: [{ start: 3, end: 13 }] }],
+      },
+    });
+  });
+});
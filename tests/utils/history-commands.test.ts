@@ -0,0 +1,149 @@
+import {
+  applyOverlayChanges,
+  describeChanges,
+  diffOverlays,
+  isDragFlagOnly,
+  mergeCommands,
+  shouldCoalesce,
+  HistoryCommand,
+} from "../../components/editor/version-7.0.0/utils/history-commands";
+import {
+  Overlay,
+  OverlayType,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+
+const createText = (overrides: Partial<TextOverlay> = {}): TextOverlay => ({
+  id: 1,
+  type: OverlayType.TEXT,
+  content: "Title",
+  from: 0,
+  durationInFrames: 60,
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 200,
+  height: 50,
+  rotation: 0,
+  isDragging: false,
+  styles: {} as TextOverlay["styles"],
+  ...overrides,
+});
+
+const createCommand = (
+  prev: Overlay[],
+  next: Overlay[],
+  timestamp = 0
+): HistoryCommand => {
+  const overlayChanges = diffOverlays(prev, next);
+  return {
+    id: `cmd-${timestamp}`,
+    timestamp,
+    overlayChanges,
+    settingsBefore: {},
+    settingsAfter: {},
+    ...describeChanges(overlayChanges, {}),
+  };
+};
+
+describe("diffOverlays / applyOverlayChanges", () => {
+  it("undoes and redoes additions, edits and deletions in place", () => {
+    const a = createText({ id: 1 });
+    const b = createText({ id: 2 });
+    const c = createText({ id: 3 });
+    const before = [a, b, c];
+    const after = [{ ...a, left: 40 }, c, createText({ id: 4 })];
+
+    const changes = diffOverlays(before, after);
+    expect(changes).toHaveLength(3);
+
+    expect(applyOverlayChanges(after, changes, "undo")).toEqual(before);
+    expect(applyOverlayChanges(before, changes, "redo")).toEqual(after);
+  });
+});
+
+describe("describeChanges", () => {
+  const title = createText({ id: 1 });
+
+  it("names the overlay and the kind of edit", () => {
+    const { label } = describeChanges(
+      diffOverlays([title], [{ ...title, left: 10, top: 5 }]),
+      {}
+    );
+    expect(label).toEqual({
+      action: "move",
+      overlayType: OverlayType.TEXT,
+      name: "Title",
+      count: 1,
+    });
+
+    expect(
+      describeChanges(diffOverlays([title], [{ ...title, width: 300 }]), {}).label
+        .action
+    ).toBe("resize");
+    expect(
+      describeChanges(diffOverlays([title], [{ ...title, from: 30, row: 1 }]), {})
+        .label.action
+    ).toBe("move");
+  });
+
+  it("recognises splits and settings changes", () => {
+    const split = [
+      { ...title, durationInFrames: 20 },
+      createText({ id: 2, from: 20, durationInFrames: 40 }),
+    ];
+    expect(describeChanges(diffOverlays([title], split), {}).label.action).toBe(
+      "split"
+    );
+    expect(describeChanges([], { aspectRatio: "9:16" }).label.action).toBe(
+      "aspectRatio"
+    );
+    // Switching variants changes the ratio too but reads as a variant edit
+    expect(
+      describeChanges([], { variants: null, aspectRatio: "9:16" }).label.action
+    ).toBe("variants");
+  });
+
+  it("counts several overlays", () => {
+    const { label } = describeChanges(
+      diffOverlays([title, createText({ id: 2 })], []),
+      {}
+    );
+    expect(label).toEqual({ action: "delete", count: 2 });
+  });
+});
+
+describe("coalescing", () => {
+  const title = createText({ id: 1 });
+
+  it("keeps a drag open until it is released", () => {
+    const step1 = [{ ...title, left: 5, isDragging: true }];
+    const step2 = [{ ...step1[0], left: 9 }];
+    const released = [{ ...step2[0], isDragging: false }];
+
+    const first = createCommand([title], step1, 0);
+    const second = createCommand(step1, step2, 5000);
+    expect(shouldCoalesce(first, second, 600)).toBe(true);
+
+    const merged = mergeCommands(first, second);
+    const release = createCommand(step2, released, 6000);
+    expect(isDragFlagOnly(release.overlayChanges[0])).toBe(true);
+    expect(shouldCoalesce(merged, release, 600)).toBe(true);
+
+    const done = mergeCommands(merged, release);
+    expect(done.overlayChanges[0].before).toBe(title);
+    expect(done.overlayChanges[0].after).toBe(released[0]);
+  });
+
+  it("merges repeated edits only inside the time window", () => {
+    const a = [{ ...title, rotation: 10 }];
+    const b = [{ ...title, rotation: 20 }];
+    const first = createCommand([title], a, 0);
+
+    expect(shouldCoalesce(first, createCommand(a, b, 300), 600)).toBe(true);
+    expect(shouldCoalesce(first, createCommand(a, b, 2000), 600)).toBe(false);
+    expect(
+      shouldCoalesce(first, createCommand(a, [{ ...title, left: 3 }], 300), 600)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  ClipOverlay,
+  Overlay,
+  OverlayType,
+  SoundOverlay,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  getMediaName,
+  getMissingMedia,
+  relinkOverlays,
+} from "../../components/editor/version-7.0.0/utils/media-relink";
+
+const MISSING = "https://cdn.example.com/media/beach%20clip.mp4?signature=expired";
+
+const base = {
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1280,
+  height: 720,
+  rotation: 0,
+  isDragging: false,
+};
+
+const clip = (extra: Partial<ClipOverlay> = {}) =>
+  ({
+    ...base,
+    id: 1,
+    from: 0,
+    durationInFrames: 90,
+    type: OverlayType.VIDEO,
+    content: MISSING,
+    src: MISSING,
+    videoStartTime: 30,
+    mediaDurationInFrames: 300,
+    styles: { objectFit: "cover", opacity: 0.8 },
+    ...extra,
+  } as ClipOverlay);
+
+const music = (extra: Partial<SoundOverlay> = {}) =>
+  ({
+    ...base,
+    id: 3,
+    from: 0,
+    durationInFrames: 300,
+    type: OverlayType.SOUND,
+    content: "Music",
+    src: "https://cdn.example.com/media/song.mp3",
+    styles: { volume: 1 },
+    ...extra,
+  } as SoundOverlay);
+
+const title = {
+  ...base,
+  id: 4,
+  from: 0,
+  durationInFrames: 60,
+  type: OverlayType.TEXT,
+  content: "Title",
+  styles: {},
+} as unknown as TextOverlay;
+
+describe("relinkOverlays", () => {
+  it("relinks every overlay using the missing file and keeps timing and styles", () => {
+    const overlays: Overlay[] = [
+      clip(),
+      clip({ id: 2, from: 90, videoStartTime: 120 }),
+      music(),
+    ];
+    const relinked = relinkOverlays(overlays, MISSING, {
+      src: "https://cdn.example.com/uploads/beach.mp4",
+      mediaDurationInFrames: 450,
+    }) as ClipOverlay[];
+
+    expect(relinked[0]).toMatchObject({
+      src: "https://cdn.example.com/uploads/beach.mp4",
+      content: "https://cdn.example.com/uploads/beach.mp4",
+      from: 0,
+      durationInFrames: 90,
+      videoStartTime: 30,
+      mediaDurationInFrames: 450,
+      styles: { objectFit: "cover", opacity: 0.8 },
+    });
+    expect(relinked[1]).toMatchObject({ from: 90, videoStartTime: 120 });
+    expect(relinked[2]).toBe(overlays[2]);
+  });
+
+  it("keeps a thumbnail that is not the missing file", () => {
+    const [relinked] = relinkOverlays(
+      [clip({ content: "https://cdn.example.com/thumbs/beach.jpg" })],
+      MISSING,
+      { src: "https://cdn.example.com/uploads/beach.mp4" }
+    ) as ClipOverlay[];
+    expect(relinked.content).toBe("https://cdn.example.com/thumbs/beach.jpg");
+  });
+});
+
+describe("getMissingMedia", () => {
+  it("counts the overlays of each missing file still in the project", () => {
+    const overlays: Overlay[] = [clip(), clip({ id: 2 }), music(), title];
+    expect(
+      getMissingMedia(overlays, [MISSING, "https://cdn.example.com/gone.png"])
+    ).toEqual([{ src: MISSING, type: "video", count: 2 }]);
+  });
+});
+
+describe("getMediaName", () => {
+  it("reads the file name from a signed URL", () => {
+    expect(getMediaName(MISSING)).toBe("beach clip.mp4");
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  ClipOverlay,
+  ImageOverlay,
+  Overlay,
+  OverlayType,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  applyMediaReplacement,
+  readDraggedMedia,
+  replaceOverlayMedia,
+} from "../../components/editor/version-7.0.0/utils/media-replace";
+
+const FPS = 30;
+
+const base = {
+  row: 0,
+  left: 40,
+  top: 20,
+  width: 640,
+  height: 360,
+  rotation: 5,
+  isDragging: false,
+};
+
+const clip = (extra: Partial<ClipOverlay> = {}) =>
+  ({
+    ...base,
+    id: 1,
+    from: 0,
+    durationInFrames: 90,
+    type: OverlayType.VIDEO,
+    content: "old.mp4",
+    src: "old.mp4",
+    videoStartTime: 60,
+    speed: 1,
+    styles: { objectFit: "cover", filter: "grayscale(1)" },
+    ...extra,
+  } as ClipOverlay);
+
+const photo = {
+  ...base,
+  id: 3,
+  from: 0,
+  durationInFrames: 60,
+  type: OverlayType.IMAGE,
+  content: "old.jpg",
+  src: "old.jpg",
+  styles: { objectFit: "cover" },
+} as ImageOverlay;
+
+const newVideo = { type: "video" as const, src: "new.mp4", durationInSeconds: 5 };
+
+describe("replaceOverlayMedia", () => {
+  it("takes the length of the new file and keeps place and styles", () => {
+    const replaced = replaceOverlayMedia(clip(), newVideo, { fps: FPS }) as ClipOverlay;
+
+    expect(replaced).toMatchObject({
+      src: "new.mp4",
+      content: "new.mp4",
+      durationInFrames: 150,
+      videoStartTime: 0,
+      mediaDurationInFrames: 150,
+      left: 40,
+      rotation: 5,
+      styles: { filter: "grayscale(1)" },
+    });
+  });
+
+  it("accounts for the clip's speed", () => {
+    const replaced = replaceOverlayMedia(clip({ speed: 2 }), newVideo, { fps: FPS });
+    expect(replaced!.durationInFrames).toBe(75);
+  });
+
+  it("keeps the length and moves the start back only as far as needed", () => {
+    const kept = replaceOverlayMedia(clip({ videoStartTime: 100 }), newVideo, {
+      fps: FPS,
+      durationInFrames: 90,
+    }) as ClipOverlay;
+    expect(kept).toMatchObject({ durationInFrames: 90, videoStartTime: 60 });
+
+    const fits = replaceOverlayMedia(clip({ videoStartTime: 30 }), newVideo, {
+      fps: FPS,
+      durationInFrames: 90,
+    }) as ClipOverlay;
+    expect(fits.videoStartTime).toBe(30);
+  });
+
+  it("only swaps media of the same kind", () => {
+    expect(replaceOverlayMedia(photo, newVideo, { fps: FPS })).toBeNull();
+    expect(
+      replaceOverlayMedia(photo, { type: "image", src: "new.jpg" }, { fps: FPS })
+    ).toMatchObject({ src: "new.jpg", content: "new.jpg", durationInFrames: 60 });
+  });
+});
+
+describe("applyMediaReplacement", () => {
+  it("moves the following clips when the row ripples", () => {
+    const overlays: Overlay[] = [clip(), clip({ id: 2, from: 90 })];
+    const result = applyMediaReplacement(overlays, 1, newVideo, {
+      mode: "ripple",
+      scope: "row",
+      fps: FPS,
+    })!;
+
+    expect(result.find((o) => o.id === 1)!.durationInFrames).toBe(150);
+    expect(result.find((o) => o.id === 2)!.from).toBe(150);
+  });
+
+  it("keeps the current length rather than overwrite the next clip", () => {
+    const overlays: Overlay[] = [clip(), clip({ id: 2, from: 90 })];
+    const result = applyMediaReplacement(overlays, 1, newVideo, {
+      mode: "overwrite",
+      scope: "row",
+      fps: FPS,
+    })!;
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ src: "new.mp4", durationInFrames: 90 });
+    expect(result[1]).toBe(overlays[1]);
+  });
+
+  it("leaves items on locked tracks alone", () => {
+    expect(
+      applyMediaReplacement([clip()], 1, newVideo, {
+        mode: "push",
+        scope: "row",
+        fixedIds: [1],
+        fps: FPS,
+      })
+    ).toBeNull();
+  });
+});
+
+describe("readDraggedMedia", () => {
+  const transfer = (format: string, data: object) => ({
+    types: [format],
+    getData: (type: string) => (type === format ? JSON.stringify(data) : ""),
+  });
+
+  it("reads media dragged from the panels", () => {
+    expect(
+      readDraggedMedia(
+        transfer("application/reelmotion-library-video", {
+          src: "stock.mp4",
+          image: "stock.jpg",
+          duration: 12,
+        })
+      )
+    ).toEqual({ type: "video", src: "stock.mp4", thumbnail: "stock.jpg", durationInSeconds: 12 });
+    expect(
+      readDraggedMedia(transfer("application/reelmotion-local-audio", { path: "voice.mp3", duration: 3 }))
+    ).toEqual({ type: "audio", src: "voice.mp3", durationInSeconds: 3 });
+  });
+
+  it("ignores drags that carry no media", () => {
+    expect(readDraggedMedia(transfer("application/reelmotion-text", { content: "Hi" }))).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  alignOverlays,
+  duplicateOverlays,
+  expandSelectionToGroups,
+  getOverlaysInRange,
+  getOverlaysInRect,
+  groupOverlays,
+  mapRect,
+  nudgeOverlays,
+  toggleOverlayInSelection,
+  ungroupOverlays,
+} from "../../components/editor/version-7.0.0/utils/overlay-selection";
+import {
+  ImageOverlay,
+  Overlay,
+  OverlayType,
+} from "../../components/editor/version-7.0.0/types";
+
+const createImage = (overrides: Partial<ImageOverlay> = {}): ImageOverlay => ({
+  id: 1,
+  type: OverlayType.IMAGE,
+  src: "image.png",
+  from: 0,
+  durationInFrames: 60,
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 100,
+  height: 100,
+  rotation: 0,
+  isDragging: false,
+  styles: {},
+  ...overrides,
+});
+
+const byId = (overlays: Overlay[], id: number) =>
+  overlays.find((overlay) => overlay.id === id)!;
+
+describe("selection with groups", () => {
+  const overlays = [
+    createImage({ id: 1, groupId: "g1" }),
+    createImage({ id: 2, groupId: "g1", row: 1 }),
+    createImage({ id: 3, row: 2 }),
+  ];
+
+  it("expands a selection to whole groups and drops unknown ids", () => {
+    expect(expandSelectionToGroups([1, 99], overlays)).toEqual([1, 2]);
+    expect(expandSelectionToGroups([3], overlays)).toEqual([3]);
+  });
+
+  it("toggles grouped overlays in and out together", () => {
+    const added = toggleOverlayInSelection([3], 2, overlays);
+    expect(added.sort()).toEqual([1, 2, 3]);
+    expect(toggleOverlayInSelection(added, 1, overlays)).toEqual([3]);
+  });
+
+  it("groups at least two overlays and ungroups them", () => {
+    expect(groupOverlays(overlays, [3])).toBe(overlays);
+
+    const grouped = groupOverlays(overlays, [1, 3]);
+    expect(byId(grouped, 1).groupId).toBe(byId(grouped, 3).groupId);
+    expect(byId(grouped, 1).groupId).not.toBe("g1");
+    expect(byId(grouped, 2).groupId).toBe("g1");
+
+    const ungrouped = ungroupOverlays(grouped, [1, 3]);
+    expect(byId(ungrouped, 1).groupId).toBeUndefined();
+  });
+});
+
+describe("marquee hit testing", () => {
+  const overlays: Overlay[] = [
+    createImage({ id: 1, from: 0, durationInFrames: 30, row: 0 }),
+    createImage({ id: 2, from: 40, durationInFrames: 30, row: 0, left: 300 }),
+    createImage({ id: 3, from: 10, durationInFrames: 30, row: 2 }),
+    {
+      ...createImage({ id: 4, row: 3 }),
+      type: OverlayType.SOUND,
+    } as unknown as Overlay,
+  ];
+
+  it("finds timeline items touched by a frame and row range", () => {
+    expect(
+      getOverlaysInRange(overlays, { fromFrame: 20, toFrame: 45, fromRow: 0, toRow: 1 })
+    ).toEqual([1, 2]);
+    expect(
+      getOverlaysInRange(overlays, { fromFrame: 30, toFrame: 35, fromRow: 0, toRow: 2 })
+    ).toEqual([3]);
+  });
+
+  it("finds canvas boxes visible at the frame and skips sounds", () => {
+    const rect = { left: 50, top: 50, width: 400, height: 10 };
+    expect(getOverlaysInRect(overlays, rect, 15)).toEqual([1, 3]);
+    expect(getOverlaysInRect(overlays, rect, 45)).toEqual([2]);
+  });
+});
+
+describe("canvas edits", () => {
+  it("maps a rect through the move and scale of another", () => {
+    const from = { left: 0, top: 0, width: 100, height: 100 };
+    const to = { left: 10, top: 20, width: 200, height: 50 };
+    expect(mapRect({ left: 100, top: 100, width: 50, height: 50 }, from, to)).toEqual({
+      left: 210,
+      top: 70,
+      width: 100,
+      height: 25,
+    });
+  });
+
+  it("nudges only the selected overlays", () => {
+    const nudged = nudgeOverlays(
+      [createImage({ id: 1 }), createImage({ id: 2, left: 50 })],
+      [2],
+      -10,
+      5,
+      0
+    );
+    expect(byId(nudged, 1).left).toBe(0);
+    expect(byId(nudged, 2)).toMatchObject({ left: 40, top: 5 });
+  });
+
+  it("keeps nudges on animated overlays as keyframes", () => {
+    const animated = createImage({
+      id: 1,
+      from: 10,
+      keyframes: {
+        left: [
+          { id: "a", frame: 0, value: 0, easing: "linear" },
+          { id: "b", frame: 20, value: 100, easing: "linear" },
+        ],
+      },
+    });
+    const [nudged] = nudgeOverlays([animated], [1], 5, 0, 30);
+    expect(nudged.keyframes?.left?.find((kf) => kf.frame === 20)?.value).toBe(105);
+    expect(nudged.left).toBe(0);
+  });
+
+  it("aligns a selection to its bounds and a single overlay to the canvas", () => {
+    const overlays = [
+      createImage({ id: 1, left: 10, top: 0, width: 100 }),
+      createImage({ id: 2, left: 200, top: 50, width: 50 }),
+    ];
+    const right = alignOverlays(overlays, [1, 2], "right", { width: 1000, height: 500 }, 0);
+    expect(byId(right, 1).left).toBe(150);
+    expect(byId(right, 2).left).toBe(200);
+
+    const middle = alignOverlays(overlays, [2], "middle", { width: 1000, height: 500 }, 0);
+    expect(byId(middle, 2).top).toBe(200);
+    expect(byId(middle, 1).top).toBe(0);
+  });
+});
+
+describe("duplicateOverlays", () => {
+  it("copies the selection after everything on its rows and regroups the copies", () => {
+    const overlays = [
+      createImage({ id: 1, from: 0, durationInFrames: 30, row: 0, groupId: "g1" }),
+      createImage({ id: 2, from: 10, durationInFrames: 30, row: 1, groupId: "g1" }),
+      createImage({ id: 3, from: 50, durationInFrames: 20, row: 1 }),
+    ];
+
+    const result = duplicateOverlays(overlays, [1, 2]);
+    expect(result.duplicatedIds).toEqual([4, 5]);
+
+    const [first, second] = result.duplicatedIds.map((id) => byId(result.overlays, id));
+    expect(first.from).toBe(70);
+    expect(second.from).toBe(80);
+    expect(first.groupId).toBeDefined();
+    expect(first.groupId).toBe(second.groupId);
+    expect(first.groupId).not.toBe("g1");
+  });
+});
@@ -0,0 +1,157 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  OverlaySchema,
+  OverlayType,
+  RenderRequest,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import { textOverlayTemplates } from "../../components/editor/version-7.0.0/templates/text-overlay-templates";
+import { templateFiles } from "../../components/editor/version-7.0.0/templates/full-templates/index";
+import {
+  formatSchemaError,
+  PROJECT_SCHEMA_VERSION,
+  readAutosave,
+  readSavedEdit,
+} from "../../components/editor/version-7.0.0/utils/project-schema";
+
+const base = {
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1080,
+  height: 1920,
+  rotation: 0,
+  isDragging: false,
+};
+
+const title = {
+  ...base,
+  id: 1,
+  from: 0,
+  durationInFrames: 90,
+  type: OverlayType.TEXT,
+  content: "Hello",
+  styles: textOverlayTemplates.modern.styles,
+} as unknown as TextOverlay;
+
+describe("OverlaySchema", () => {
+  it("accepts the overlays of every shipped template", () => {
+    const templatesDir = join(
+      __dirname,
+      "../../components/editor/version-7.0.0/templates/full-templates"
+    );
+    templateFiles.forEach((file) => {
+      const template = JSON.parse(readFileSync(join(templatesDir, file), "utf-8"));
+      template.overlays.forEach((overlay: unknown) => {
+        expect(OverlaySchema.safeParse(overlay).success).toBe(true);
+      });
+    });
+  });
+
+  it("accepts every text style preset", () => {
+    Object.values(textOverlayTemplates).forEach((template) => {
+      expect(OverlaySchema.safeParse({ ...title, styles: template.styles }).success).toBe(true);
+    });
+  });
+
+  it("keeps style properties it does not list", () => {
+    const parsed = OverlaySchema.parse({
+      ...title,
+      styles: { ...title.styles, textTransform: "uppercase" },
+    }) as TextOverlay & { styles: { textTransform: string } };
+    expect(parsed.styles.textTransform).toBe("uppercase");
+  });
+});
+
+describe("RenderRequest", () => {
+  it("points at the malformed overlay", () => {
+    const result = RenderRequest.safeParse({
+      id: "TestComponent",
+      inputProps: {
+        overlays: [title, { ...title, id: 2, styles: { ...title.styles, fontSize: 48 } }],
+        durationInFrames: 90,
+        fps: 30,
+        width: 1080,
+        height: 1920,
+        src: "",
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(formatSchemaError(result.error!)).toMatch(
+      /^inputProps\.overlays\.1\.styles\.fontSize: /
+    );
+  });
+});
+
+describe("readSavedEdit", () => {
+  it("migrates an edit that kept its settings in inputProps only", () => {
+    const { rotation, isDragging, ...legacyTitle } = title;
+    const project = readSavedEdit({
+      id: "TestComponent",
+      inputProps: {
+        overlays: [legacyTitle],
+        durationInFrames: 90,
+        fps: 25,
+        width: 1920,
+        height: 1080,
+        backgroundColor: "#ffffff",
+        src: "",
+      },
+    });
+
+    expect(project).toEqual({
+      overlays: [title],
+      aspectRatio: "16:9",
+      fps: 25,
+      resolution: null,
+      backgroundColor: "#ffffff",
+      tracks: [],
+      variants: null,
+    });
+  });
+
+  it("rejects edits from a newer editor and malformed overlays", () => {
+    expect(() =>
+      readSavedEdit({ schemaVersion: PROJECT_SCHEMA_VERSION + 1, inputProps: { overlays: [] } })
+    ).toThrow("newer version");
+    expect(() =>
+      readSavedEdit({
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        inputProps: { overlays: [{ ...title, type: "hologram" }] },
+      })
+    ).toThrow(/^inputProps\.overlays\.0\.type: /);
+  });
+});
+
+describe("readAutosave", () => {
+  it("fills in settings and overlay fields that older autosaves lack", () => {
+    const { rotation, ...legacyTitle } = title;
+    const state = readAutosave({ overlays: [legacyTitle], aspectRatio: "9:16" });
+
+    expect(state).toMatchObject({
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      overlays: [title],
+      aspectRatio: "9:16",
+      fps: 30,
+      tracks: [],
+      variants: null,
+    });
+  });
+
+  it("reads a current autosave as it was saved", () => {
+    const saved = {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      overlays: [title],
+      aspectRatio: "1:1" as const,
+      fps: 24,
+      resolution: { width: 1080, height: 1080 },
+      playerDimensions: { width: 640, height: 640 },
+      backgroundColor: "#000000",
+      tracks: [],
+      variants: null,
+    };
+    expect(readAutosave(saved)).toEqual(saved);
+  });
+});
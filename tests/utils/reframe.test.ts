@@ -0,0 +1,113 @@
+import {
+  ClipOverlay,
+  Overlay,
+  OverlayType,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  getFocalObjectPosition,
+  reframeOverlays,
+} from "../../components/editor/version-7.0.0/utils/reframe";
+
+const LANDSCAPE = { width: 1280, height: 720 };
+const PORTRAIT = { width: 1080, height: 1920 };
+
+const base = {
+  row: 0,
+  from: 0,
+  durationInFrames: 90,
+  rotation: 0,
+  isDragging: false,
+};
+
+const clip = (extra: Partial<ClipOverlay> = {}) =>
+  ({
+    ...base,
+    id: 1,
+    type: OverlayType.VIDEO,
+    content: "clip.jpg",
+    src: "clip.mp4",
+    left: 0,
+    top: 0,
+    width: 1280,
+    height: 720,
+    styles: { objectFit: "contain" },
+    ...extra,
+  } as ClipOverlay);
+
+const title = (extra: Partial<TextOverlay> = {}) =>
+  ({
+    ...base,
+    id: 2,
+    type: OverlayType.TEXT,
+    content: "Title",
+    left: 140,
+    top: 60,
+    width: 1000,
+    height: 200,
+    styles: {},
+    ...extra,
+  } as unknown as TextOverlay);
+
+describe("reframeOverlays", () => {
+  it("stretches full-frame media over the new canvas and fits it", () => {
+    const [reframed] = reframeOverlays([clip()], LANDSCAPE, PORTRAIT, {
+      mediaFit: "cover",
+      safeMargin: 0.05,
+    });
+
+    expect(reframed).toMatchObject({ left: 0, top: 0, width: 1080, height: 1920 });
+    expect((reframed as ClipOverlay).styles.objectFit).toBe("cover");
+  });
+
+  it("keeps placed overlays at the same relative position without stretching", () => {
+    const logo = clip({ left: 1120, top: 40, width: 120, height: 120 });
+    const [reframed] = reframeOverlays([logo], LANDSCAPE, PORTRAIT);
+
+    // Centered at 92% across and 14% down before and after
+    expect(reframed.width).toBe(reframed.height);
+    expect((reframed.left + reframed.width / 2) / PORTRAIT.width).toBeCloseTo(0.922, 2);
+    expect((reframed.top + reframed.height / 2) / PORTRAIT.height).toBeCloseTo(0.139, 2);
+  });
+
+  it("keeps text inside the safe margins", () => {
+    const banner = title({ left: 0, top: 0, width: 1280, height: 200 });
+    const [reframed] = reframeOverlays([banner], LANDSCAPE, PORTRAIT, {
+      mediaFit: "cover",
+      safeMargin: 0.1,
+    });
+
+    expect(reframed.left).toBeGreaterThanOrEqual(108);
+    expect(reframed.top).toBeGreaterThanOrEqual(108);
+    expect(reframed.left + reframed.width).toBeLessThanOrEqual(1080 - 108);
+  });
+
+  it("moves keyframed positions with the overlay", () => {
+    const animated = title({
+      keyframes: {
+        left: [
+          { id: "a", frame: 0, value: 140, easing: "linear" },
+          { id: "b", frame: 30, value: 240, easing: "linear" },
+        ],
+      },
+    });
+    const [reframed] = reframeOverlays([animated], LANDSCAPE, PORTRAIT);
+    const [start, end] = reframed.keyframes!.left!;
+
+    expect(start.value).toBe(reframed.left);
+    // 100px of travel scaled by 1080/1280, give or take rounding
+    expect(Math.abs(end.value - start.value - 84.4)).toBeLessThanOrEqual(1);
+  });
+
+  it("leaves overlays alone when the canvas keeps its size", () => {
+    const overlays = [title()] as Overlay[];
+    expect(reframeOverlays(overlays, LANDSCAPE, LANDSCAPE)).toBe(overlays);
+  });
+});
+
+describe("getFocalObjectPosition", () => {
+  it("turns a focal point into an object position", () => {
+    expect(getFocalObjectPosition({ x: 0.25, y: 0.8 })).toBe("25% 80%");
+    expect(getFocalObjectPosition()).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  boxShadowToDropShadow,
+  buildLinearGradient,
+  getArrowPoints,
+  getGradientAngle,
+  getPolygonPoints,
+  getShapeKind,
+  getStarPoints,
+  parseGradient,
+} from "../../components/editor/version-7.0.0/utils/shape-geometry";
+
+const toPoints = (points: string) =>
+  points.split(" ").map((pair) => pair.split(",").map(Number));
+
+describe("getShapeKind", () => {
+  it("reads known shapes and falls back to a rectangle", () => {
+    expect(getShapeKind("star")).toBe("star");
+    expect(getShapeKind("hexagon")).toBe("rectangle");
+    expect(getShapeKind(undefined)).toBe("rectangle");
+  });
+});
+
+describe("shape points", () => {
+  it("fits a polygon in its box with the first vertex at the top", () => {
+    const points = toPoints(getPolygonPoints(200, 100, 4));
+    expect(points).toHaveLength(4);
+    expect(points[0]).toEqual([100, 0]);
+    expect(points[1]).toEqual([200, 50]);
+  });
+
+  it("never draws fewer than three sides", () => {
+    expect(toPoints(getPolygonPoints(100, 100, 1))).toHaveLength(3);
+  });
+
+  it("alternates outer and inner star vertices", () => {
+    const points = toPoints(getStarPoints(100, 100, 5, 0.4));
+    expect(points).toHaveLength(10);
+    expect(points[0]).toEqual([50, 0]);
+    const inner = Math.hypot(points[1][0] - 50, points[1][1] - 50);
+    expect(inner).toBeCloseTo(20);
+  });
+
+  it("keeps the arrow inside the inset box", () => {
+    const points = toPoints(getArrowPoints(400, 160, 5));
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    expect(Math.min(...xs)).toBe(5);
+    expect(Math.max(...xs)).toBe(395);
+    expect(Math.min(...ys)).toBe(5);
+    expect(Math.max(...ys)).toBe(155);
+  });
+});
+
+describe("parseGradient", () => {
+  it("converts a linear gradient angle into start and end points", () => {
+    const gradient = parseGradient("linear-gradient(90deg, #ff0000, #0000ff)");
+    expect(gradient).toMatchObject({ kind: "linear" });
+    if (gradient?.kind !== "linear") return;
+    expect(gradient.x1).toBeCloseTo(0);
+    expect(gradient.x2).toBeCloseTo(1);
+    expect(gradient.y1).toBeCloseTo(0.5);
+    expect(gradient.stops).toEqual([
+      { color: "#ff0000", offset: 0 },
+      { color: "#0000ff", offset: 1 },
+    ]);
+  });
+
+  it("reads direction keywords, rgba colors and missing stop positions", () => {
+    const gradient = parseGradient(
+      "linear-gradient(to bottom, rgba(0, 0, 0, 0.5), #fff 25%, red, blue)"
+    );
+    expect(gradient?.stops.map((stop) => stop.color)).toEqual([
+      "rgba(0, 0, 0, 0.5)",
+      "#fff",
+      "red",
+      "blue",
+    ]);
+    expect(gradient?.stops[2].offset).toBeCloseTo(0.625);
+    if (gradient?.kind === "linear") {
+      expect(getGradientAngle(gradient)).toBe(180);
+    }
+  });
+
+  it("skips the shape of radial gradients", () => {
+    expect(
+      parseGradient("radial-gradient(circle at center, #fff, #000)")
+    ).toEqual({
+      kind: "radial",
+      stops: [
+        { color: "#fff", offset: 0 },
+        { color: "#000", offset: 1 },
+      ],
+    });
+  });
+
+  it("returns null for unsupported values", () => {
+    expect(parseGradient(undefined)).toBeNull();
+    expect(parseGradient("#ff0000")).toBeNull();
+    expect(parseGradient("linear-gradient(90deg, #ff0000)")).toBeNull();
+  });
+
+  it("round-trips gradients built by the style panel", () => {
+    const gradient = parseGradient(buildLinearGradient(45, "#111111", "#eeeeee"));
+    expect(gradient && getGradientAngle(gradient)).toBe(45);
+  });
+});
+
+describe("boxShadowToDropShadow", () => {
+  it("converts outer shadows and drops inset ones", () => {
+    expect(boxShadowToDropShadow("0 4px 8px rgba(0, 0, 0, 0.3)")).toBe(
+      "drop-shadow(0px 4px 8px rgba(0, 0, 0, 0.3))"
+    );
+    expect(boxShadowToDropShadow("inset 0 0 4px #000")).toBeUndefined();
+    expect(boxShadowToDropShadow("none")).toBeUndefined();
+  });
+});
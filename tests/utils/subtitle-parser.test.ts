@@ -0,0 +1,140 @@
+import {
+  detectSubtitleFormat,
+  estimateWordTimings,
+  parseSubtitles,
+  parseTimestamp,
+  stripSubtitleTags,
+} from "../../components/editor/version-7.0.0/utils/subtitle-parser";
+
+describe("parseTimestamp", () => {
+  it("reads SRT and WebVTT timestamps", () => {
+    expect(parseTimestamp("00:01:02,500")).toBe(62500);
+    expect(parseTimestamp("01:00:00.001")).toBe(3600001);
+    expect(parseTimestamp("02:03.250")).toBe(123250);
+  });
+
+  it("rejects malformed timestamps", () => {
+    expect(parseTimestamp("00:61:00,000")).toBeNull();
+    expect(parseTimestamp("1.5")).toBeNull();
+    expect(parseTimestamp("")).toBeNull();
+  });
+});
+
+describe("stripSubtitleTags", () => {
+  it("removes HTML, WebVTT and ASS styling", () => {
+    expect(
+      stripSubtitleTags(
+        '{\\an8}<font color="#fff"><b>Hi</b></font> <v Ana>there</v> &amp; <c.yellow>you</c>'
+      )
+    ).toBe("Hi there & you");
+  });
+});
+
+describe("estimateWordTimings", () => {
+  it("covers the whole cue, giving longer words more time", () => {
+    const words = estimateWordTimings("a wonderful day", 1000, 2000);
+    expect(words[0].startMs).toBe(1000);
+    expect(words[2].endMs).toBe(2000);
+    expect(words[1].endMs - words[1].startMs).toBeGreaterThan(
+      words[0].endMs - words[0].startMs
+    );
+    expect(words[1].startMs).toBe(words[0].endMs);
+  });
+});
+
+describe("parseSubtitles", () => {
+  it("parses SRT cues with multiple lines and tags", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:03,000",
+      "<i>Hello</i>",
+      "world",
+      "",
+      "2",
+      "00:00:04,000 --> 00:00:05,500",
+      "Second line",
+      "",
+    ].join("\r\n");
+
+    const { format, captions, issues } = parseSubtitles(srt, "vendor.srt");
+    expect(format).toBe("srt");
+    expect(issues).toEqual([]);
+    expect(captions).toHaveLength(2);
+    expect(captions[0]).toMatchObject({
+      text: "Hello world",
+      startMs: 1000,
+      endMs: 3000,
+    });
+    expect(captions[0].words.map((w) => w.word)).toEqual(["Hello", "world"]);
+    expect(captions[1].endMs).toBe(5500);
+  });
+
+  it("skips WebVTT header, notes and cue settings", () => {
+    const vtt = [
+      "WEBVTT",
+      "Kind: captions",
+      "",
+      "NOTE produced by vendor",
+      "",
+      "intro",
+      "00:01.000 --> 00:02.000 align:start position:10%",
+      "<v Speaker>Hi there</v>",
+    ].join("\n");
+
+    const { format, captions, issues } = parseSubtitles(vtt);
+    expect(format).toBe("vtt");
+    expect(issues).toEqual([]);
+    expect(captions).toHaveLength(1);
+    expect(captions[0].text).toBe("Hi there");
+  });
+
+  it("uses WebVTT inline timestamps as word timings", () => {
+    const vtt = [
+      "WEBVTT",
+      "",
+      "00:00:01.000 --> 00:00:03.000",
+      "Never <00:00:02.000>again",
+    ].join("\n");
+
+    const [caption] = parseSubtitles(vtt).captions;
+    expect(caption.words).toEqual([
+      { word: "Never", startMs: 1000, endMs: 2000, confidence: 1 },
+      { word: "again", startMs: 2000, endMs: 3000, confidence: 1 },
+    ]);
+  });
+
+  it("reports malformed cues with line numbers", () => {
+    const srt = [
+      "1",
+      "00:00:01,000 --> 00:00:xx,000",
+      "Broken",
+      "",
+      "2",
+      "00:00:05,000 --> 00:00:04,000",
+      "Backwards",
+      "",
+      "just some text",
+    ].join("\n");
+
+    const { issues } = parseSubtitles(srt, "bad.srt");
+    expect(issues).toEqual([
+      expect.objectContaining({ line: 2, code: "invalidTimestamp" }),
+      expect.objectContaining({ line: 6, code: "endBeforeStart" }),
+      expect.objectContaining({ line: 9, code: "missingTiming" }),
+    ]);
+  });
+
+  it("reports empty files and WebVTT files without a header", () => {
+    expect(parseSubtitles("\n\n", "empty.srt").issues).toEqual([
+      { line: 1, code: "empty" },
+    ]);
+    expect(
+      parseSubtitles("00:01.000 --> 00:02.000\nHi", "no-header.vtt").issues
+    ).toEqual([{ line: 1, code: "missingHeader" }]);
+  });
+
+  it("detects the format from the content when there is no extension", () => {
+    expect(detectSubtitleFormat("\uFEFFWEBVTT\n")).toBe("vtt");
+    expect(detectSubtitleFormat("1\n00:00:01,000 --> 00:00:02,000")).toBe("srt");
+  });
+});
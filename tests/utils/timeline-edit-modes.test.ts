@@ -0,0 +1,307 @@
+import { Overlay, OverlayType } from "../../components/editor/version-7.0.0/types";
+import {
+  applyOverlayEdit,
+  closeGaps,
+  compactMainTrack,
+  deleteOverlaysInMode,
+  detachAudio,
+  followLinkedOverlays,
+  getLinkedPartners,
+  linkOverlays,
+  moveLinkedClip,
+  overwriteOverlay,
+  pushOverlay,
+  relinkAfterSplit,
+  removeGap,
+  rippleInsert,
+  rippleTrim,
+  unlinkOverlays,
+} from "../../components/editor/version-7.0.0/utils/timeline-edit-modes";
+
+const item = (
+  id: number,
+  row: number,
+  from: number,
+  durationInFrames: number,
+  changes: Partial<Overlay> = {}
+) =>
+  ({
+    id,
+    row,
+    from,
+    durationInFrames,
+    type: OverlayType.TEXT,
+    styles: {},
+    ...changes,
+  } as unknown as Overlay);
+
+const clip = (id: number, row: number, from: number, durationInFrames: number) =>
+  item(id, row, from, durationInFrames, {
+    type: OverlayType.VIDEO,
+    videoStartTime: 0,
+  } as Partial<Overlay>);
+
+const positions = (overlays: Overlay[]) =>
+  Object.fromEntries(overlays.map((o) => [o.id, [o.row, o.from, o.durationInFrames]]));
+
+const RIPPLE_ROW = { mode: "ripple" as const, scope: "row" as const };
+const RIPPLE_ALL = { mode: "ripple" as const, scope: "all" as const };
+
+describe("overwriteOverlay", () => {
+  it("removes covered items and trims partly covered ones", () => {
+    const result = overwriteOverlay(
+      [item(1, 0, 0, 40), item(2, 0, 50, 20), item(3, 0, 90, 40)],
+      item(4, 0, 30, 70)
+    );
+
+    expect(positions(result)).toEqual({
+      1: [0, 0, 30],
+      3: [0, 100, 30],
+      4: [0, 30, 70],
+    });
+  });
+
+  it("splits an item it lands in the middle of", () => {
+    const result = overwriteOverlay([clip(1, 0, 0, 100)], item(2, 0, 40, 20));
+
+    expect(result).toHaveLength(3);
+    const tail = result.find((o) => o.id !== 1 && o.id !== 2)!;
+    expect(tail).toMatchObject({ from: 60, durationInFrames: 40 });
+    expect((tail as { videoStartTime?: number }).videoStartTime).toBe(60);
+    expect(result.find((o) => o.id === 1)!.durationInFrames).toBe(40);
+  });
+});
+
+describe("pushOverlay", () => {
+  it("pushes the items it runs into aside and leaves the rest", () => {
+    const result = pushOverlay(
+      [
+        item(1, 0, 10, 20),
+        item(2, 0, 40, 20),
+        item(3, 0, 60, 10),
+        item(4, 0, 100, 10),
+        item(5, 1, 45, 10),
+      ],
+      item(6, 0, 20, 30)
+    )!;
+
+    expect(positions(result)).toEqual({
+      1: [0, 0, 20],
+      2: [0, 50, 20],
+      3: [0, 70, 10],
+      4: [0, 100, 10],
+      5: [1, 45, 10],
+      6: [0, 20, 30],
+    });
+  });
+
+  it("refuses a push past frame 0 or into a fixed item", () => {
+    const overlays = [item(1, 0, 0, 30), item(2, 0, 40, 20)];
+
+    expect(pushOverlay(overlays, item(3, 0, 20, 10))).toBeNull();
+    expect(pushOverlay(overlays, item(3, 0, 35, 10), [2])).toBeNull();
+  });
+
+  it("is what edits do in push mode", () => {
+    const result = applyOverlayEdit(
+      [item(1, 0, 0, 30), item(2, 0, 30, 30)],
+      item(1, 0, 0, 40),
+      "resize-end",
+      { mode: "push", scope: "row" }
+    )!;
+
+    expect(positions(result)).toEqual({ 1: [0, 0, 40], 2: [0, 40, 30] });
+  });
+});
+
+describe("ripple edits", () => {
+  it("inserts and moves the rest of the row later", () => {
+    const result = rippleInsert(
+      [item(1, 0, 0, 30), item(2, 0, 30, 30), item(3, 1, 40, 10)],
+      item(4, 0, 30, 15),
+      RIPPLE_ROW
+    )!;
+
+    expect(positions(result)).toMatchObject({ 2: [0, 45, 30], 3: [1, 40, 10], 4: [0, 30, 15] });
+  });
+
+  it("snaps an insert inside an item to its nearer edge and can move every row", () => {
+    const result = rippleInsert(
+      [item(1, 0, 0, 30), item(2, 1, 40, 10)],
+      item(3, 0, 25, 10),
+      RIPPLE_ALL
+    )!;
+
+    expect(positions(result)).toMatchObject({ 1: [0, 0, 30], 2: [1, 50, 10], 3: [0, 30, 10] });
+  });
+
+  it("keeps the space behind a trimmed item", () => {
+    const result = rippleTrim(
+      [item(1, 0, 0, 30), item(2, 0, 40, 30)],
+      1,
+      "end",
+      20,
+      RIPPLE_ROW
+    )!;
+
+    expect(positions(result)).toEqual({ 1: [0, 0, 20], 2: [0, 30, 30] });
+  });
+
+  it("trims the start of a clip into its media", () => {
+    const result = rippleTrim([clip(1, 0, 10, 30), item(2, 0, 40, 30)], 1, "start", 20, RIPPLE_ROW)!;
+
+    expect(result[0]).toMatchObject({ from: 10, durationInFrames: 20, videoStartTime: 10 });
+    expect(result[1].from).toBe(30);
+  });
+
+  it("refuses an edit that runs into a fixed item", () => {
+    const overlays = [item(1, 0, 0, 30), item(2, 0, 30, 10), item(3, 0, 40, 10)];
+
+    expect(rippleInsert(overlays, item(4, 0, 30, 5), { ...RIPPLE_ROW, fixedIds: [3] })).toBeNull();
+  });
+});
+
+describe("deleteOverlaysInMode", () => {
+  const overlays = [item(1, 0, 0, 30), item(2, 0, 30, 30), item(3, 1, 60, 10)];
+
+  it("leaves a gap when overwriting", () => {
+    const result = deleteOverlaysInMode(overlays, [1], { mode: "overwrite", scope: "row" });
+    expect(positions(result)).toEqual({ 2: [0, 30, 30], 3: [1, 60, 10] });
+  });
+
+  it("closes up the row, or every row", () => {
+    expect(positions(deleteOverlaysInMode(overlays, [1], RIPPLE_ROW))).toEqual({
+      2: [0, 0, 30],
+      3: [1, 60, 10],
+    });
+    expect(positions(deleteOverlaysInMode(overlays, [1], RIPPLE_ALL))).toEqual({
+      2: [0, 0, 30],
+      3: [1, 30, 10],
+    });
+  });
+
+  it("keeps the main track free of gaps in magnetic mode", () => {
+    const result = deleteOverlaysInMode(
+      [item(1, 0, 0, 30), item(2, 0, 50, 30), item(3, 1, 100, 10)],
+      [3],
+      { mode: "magnetic", scope: "row" }
+    );
+    expect(positions(result)).toEqual({ 1: [0, 0, 30], 2: [0, 30, 30] });
+  });
+});
+
+describe("linked items", () => {
+  it("links captions and sounds to the one clip in the selection", () => {
+    const overlays = [clip(1, 0, 0, 60), item(2, 1, 10, 20, { type: OverlayType.CAPTION })];
+
+    expect(linkOverlays(overlays, [1, 2])[1].linkedTo).toBe(1);
+    expect(linkOverlays([...overlays, clip(3, 2, 0, 10)], [1, 2, 3])[1].linkedTo).toBeUndefined();
+    expect(unlinkOverlays(linkOverlays(overlays, [1, 2]), [1])[1].linkedTo).toBeUndefined();
+  });
+
+  it("moves linked items along with their clip", () => {
+    const before = [clip(1, 0, 0, 60), item(2, 1, 10, 20, { linkedTo: 1 })];
+    const after = [{ ...before[0], from: 30 }, before[1]];
+
+    expect(followLinkedOverlays(before, after)[1].from).toBe(40);
+  });
+
+  it("leaves linked items where they are when the clip is trimmed at its start", () => {
+    const overlays = [clip(1, 0, 0, 60), item(2, 1, 10, 20, { linkedTo: 1 })];
+    const result = applyOverlayEdit(
+      overlays,
+      { ...overlays[0], from: 20, durationInFrames: 40, videoStartTime: 20 } as Overlay,
+      "resize-start",
+      { mode: "overwrite", scope: "row" }
+    )!;
+
+    expect(result[1].from).toBe(10);
+  });
+
+  it("packs rows around linked and fixed items", () => {
+    const overlays = [
+      item(1, 0, 10, 10, { linkedTo: 9 }),
+      item(2, 0, 30, 15),
+      item(3, 0, 60, 10),
+    ];
+
+    expect(positions(closeGaps(overlays, [0]))).toEqual({
+      1: [0, 10, 10],
+      2: [0, 20, 15],
+      3: [0, 35, 10],
+    });
+    expect(positions(closeGaps(overlays, [0], [2]))).toMatchObject({ 2: [0, 30, 15], 3: [0, 0, 10] });
+    expect(positions(removeGap(overlays, 0, 45, 60))).toMatchObject({ 3: [0, 45, 10] });
+  });
+});
+
+describe("detached audio", () => {
+  const video = (id: number, row: number, from: number, durationInFrames: number) =>
+    item(id, row, from, durationInFrames, {
+      type: OverlayType.VIDEO,
+      src: "clip.mp4",
+      videoStartTime: 45,
+      styles: { volume: 0.8, fadeInFrames: 10 },
+    } as Partial<Overlay>);
+
+  it("mutes the clip and adds a linked sound on a free row", () => {
+    const overlays = [video(1, 0, 30, 60), item(2, 1, 40, 10)];
+    const result = detachAudio(overlays, 1, 3)!;
+
+    expect(result[0].styles).toEqual({ volume: 0 });
+    expect(result[2]).toMatchObject({
+      id: 3,
+      type: OverlayType.SOUND,
+      src: "clip.mp4",
+      from: 30,
+      durationInFrames: 60,
+      startFromSound: 45,
+      row: 2,
+      linkedTo: 1,
+      styles: { volume: 0.8, fadeInFrames: 10 },
+    });
+    expect(detachAudio(result, 1, 4)).toBeNull();
+    expect(detachAudio(overlays, 1, 3, [1, 2])![2].row).toBe(3);
+  });
+
+  it("offers the linked parts at a cut and relinks them after splitting", () => {
+    const overlays = [video(1, 0, 0, 60), item(2, 1, 0, 60, { linkedTo: 1 })];
+
+    expect(getLinkedPartners(overlays, 2, 30).map((o) => o.id)).toEqual([1]);
+    expect(getLinkedPartners(overlays, 1, 60)).toEqual([]);
+
+    const split = [
+      { ...overlays[0], durationInFrames: 30 },
+      { ...overlays[1], durationInFrames: 30 },
+      { ...overlays[0], id: 3, from: 30, durationInFrames: 30 },
+      { ...overlays[1], id: 4, from: 30, durationInFrames: 30 },
+    ] as Overlay[];
+    expect(relinkAfterSplit(split, 30).map((o) => o.linkedTo)).toEqual([
+      undefined,
+      1,
+      undefined,
+      3,
+    ]);
+  });
+
+  it("moves the clip after its linked audio", () => {
+    const overlays = [video(1, 0, 0, 60), item(2, 1, 20, 60, { linkedTo: 1 })];
+
+    expect(positions(moveLinkedClip(overlays, 2, 20)!)).toEqual({
+      1: [0, 20, 60],
+      2: [1, 20, 60],
+    });
+    expect(moveLinkedClip(overlays, 2, -10)).toBeNull();
+  });
+});
+
+describe("compactMainTrack", () => {
+  it("moves the other rows along with the main track for the all scope", () => {
+    const result = compactMainTrack(
+      [item(1, 0, 0, 30), item(2, 0, 50, 30), item(3, 1, 60, 10)],
+      { mode: "magnetic", scope: "all" }
+    );
+
+    expect(positions(result)).toEqual({ 1: [0, 0, 30], 2: [0, 30, 30], 3: [1, 40, 10] });
+  });
+});
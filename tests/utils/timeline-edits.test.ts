@@ -0,0 +1,113 @@
+import {
+  getStartTrimUpdates,
+  hasRowCollision,
+  moveOverlaysInTime,
+  resizeOverlaysInTime,
+} from "../../components/editor/version-7.0.0/utils/timeline-edits";
+import {
+  CaptionOverlay,
+  ClipOverlay,
+  Overlay,
+  OverlayType,
+} from "../../components/editor/version-7.0.0/types";
+
+const createClip = (overrides: Partial<ClipOverlay> = {}): ClipOverlay => ({
+  id: 1,
+  type: OverlayType.VIDEO,
+  content: "clip.mp4",
+  src: "clip.mp4",
+  from: 0,
+  durationInFrames: 60,
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1280,
+  height: 720,
+  rotation: 0,
+  isDragging: false,
+  videoStartTime: 0,
+  styles: {},
+  ...overrides,
+});
+
+describe("getStartTrimUpdates", () => {
+  it("skips into the media and keeps keyframes in place", () => {
+    const clip = createClip({
+      from: 10,
+      videoStartTime: 5,
+      keyframes: {
+        opacity: [{ id: "k", frame: 20, value: 0.5, easing: "linear" }],
+      },
+    });
+    const updates = getStartTrimUpdates(clip, 10, 16) as Partial<ClipOverlay>;
+    expect(updates.videoStartTime).toBe(11);
+    expect(updates.keyframes?.opacity?.[0].frame).toBe(14);
+  });
+});
+
+describe("group timeline edits", () => {
+  const overlays: Overlay[] = [
+    createClip({ id: 1, from: 0, durationInFrames: 30, row: 0 }),
+    createClip({ id: 2, from: 0, durationInFrames: 30, row: 1 }),
+    createClip({ id: 3, from: 60, durationInFrames: 30, row: 1 }),
+  ];
+
+  it("detects overlaps between edited items and the rest of the row", () => {
+    expect(hasRowCollision(overlays, [{ ...overlays[1], from: 40 }])).toBe(true);
+    expect(hasRowCollision(overlays, [{ ...overlays[1], from: 30 }])).toBe(false);
+  });
+
+  it("moves a selection together", () => {
+    const moved = moveOverlaysInTime(overlays, [1, 2], 25, 0, 3);
+    expect(moved?.map((overlay) => overlay.from)).toEqual([25, 25]);
+  });
+
+  it("rejects moves that collide or leave the timeline", () => {
+    expect(moveOverlaysInTime(overlays, [1, 2], 40, 0, 3)).toBeNull();
+    expect(moveOverlaysInTime(overlays, [1, 2], -5, 0, 3)).toBeNull();
+    expect(moveOverlaysInTime(overlays, [1, 2], 0, 2, 3)).toBeNull();
+  });
+
+  it("trims the same edge of every selected item", () => {
+    const trimmed = resizeOverlaysInTime(overlays, [1, 2], "start", 10);
+    expect(trimmed?.map((overlay) => [overlay.from, overlay.durationInFrames])).toEqual([
+      [10, 20],
+      [10, 20],
+    ]);
+    expect((trimmed?.[0] as ClipOverlay).videoStartTime).toBe(10);
+
+    expect(resizeOverlaysInTime(overlays, [1, 2], "end", 40)).toBeNull();
+    expect(resizeOverlaysInTime(overlays, [1, 2], "end", -30)).toBeNull();
+  });
+
+  it("re-times captions at the project frame rate when trimming their start", () => {
+    const captions: CaptionOverlay = {
+      id: 4,
+      type: OverlayType.CAPTION,
+      from: 0,
+      durationInFrames: 60,
+      row: 2,
+      left: 0,
+      top: 0,
+      width: 1280,
+      height: 720,
+      rotation: 0,
+      isDragging: false,
+      captions: [
+        {
+          text: "Hello",
+          startMs: 1000,
+          endMs: 2000,
+          timestampMs: null,
+          confidence: null,
+          words: [{ word: "Hello", startMs: 1000, endMs: 2000, confidence: 1 }],
+        },
+      ],
+    };
+
+    const trimmed = resizeOverlaysInTime([...overlays, captions], [1, 4], "start", 10, 25);
+    const [caption] = (trimmed?.[1] as CaptionOverlay).captions;
+    expect([caption.startMs, caption.endMs]).toEqual([600, 1600]);
+    expect([caption.words[0].startMs, caption.words[0].endMs]).toEqual([600, 1600]);
+  });
+});
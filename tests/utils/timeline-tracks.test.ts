@@ -0,0 +1,108 @@
+import {
+  Overlay,
+  OverlayType,
+  TimelineTrack,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  createTrack,
+  getPlayableOverlays,
+  getRowAtOffset,
+  getRowCount,
+  isTrackAudible,
+  moveTrack,
+  removeTrack,
+  resolveTracks,
+} from "../../components/editor/version-7.0.0/utils/timeline-tracks";
+
+const overlay = (id: number, row: number, type = OverlayType.TEXT) =>
+  ({ id, row, type, from: 0, durationInFrames: 30, styles: {} } as unknown as Overlay);
+
+const track = (index: number, changes: Partial<TimelineTrack> = {}) => ({
+  ...createTrack(index),
+  ...changes,
+});
+
+describe("resolveTracks", () => {
+  it("adds default tracks for rows without one", () => {
+    const named = track(0, { name: "Music" });
+    const resolved = resolveTracks([named], 3);
+
+    expect(resolved).toHaveLength(3);
+    expect(resolved[0]).toBe(named);
+    expect(new Set(resolved.map((t) => t.id)).size).toBe(3);
+  });
+
+  it("covers every overlay row", () => {
+    expect(getRowCount([], [overlay(1, 4)], 3)).toBe(5);
+    expect(getRowCount([], [], 3)).toBe(3);
+  });
+});
+
+describe("moveTrack", () => {
+  it("moves the overlays along with their track", () => {
+    const tracks = [track(0), track(1), track(2)];
+    const overlays = [overlay(1, 0), overlay(2, 1), overlay(3, 2)];
+
+    const result = moveTrack(tracks, overlays, 0, 2);
+
+    expect(result.tracks.map((t) => t.id)).toEqual([
+      tracks[1].id,
+      tracks[2].id,
+      tracks[0].id,
+    ]);
+    expect(result.overlays.map((o) => o.row)).toEqual([2, 0, 1]);
+  });
+});
+
+describe("removeTrack", () => {
+  it("removes the track's overlays and moves the rows below up", () => {
+    const result = removeTrack(
+      [track(0), track(1), track(2)],
+      [overlay(1, 0), overlay(2, 1), overlay(3, 2)],
+      1
+    );
+
+    expect(result.tracks).toHaveLength(2);
+    expect(result.overlays.map((o) => [o.id, o.row])).toEqual([
+      [1, 0],
+      [3, 1],
+    ]);
+  });
+});
+
+describe("getPlayableOverlays", () => {
+  it("leaves out overlays on hidden tracks", () => {
+    const tracks = [track(0), track(1, { hidden: true })];
+    const playable = getPlayableOverlays([overlay(1, 0), overlay(2, 1)], tracks);
+
+    expect(playable.map((o) => o.id)).toEqual([1]);
+  });
+
+  it("silences muted tracks and the tracks that are not soloed", () => {
+    const tracks = [track(0, { muted: true }), track(1, { solo: true }), track(2)];
+    const overlays = [
+      overlay(1, 0, OverlayType.SOUND),
+      overlay(2, 1, OverlayType.SOUND),
+      overlay(3, 2, OverlayType.VIDEO),
+    ];
+
+    const playable = getPlayableOverlays(overlays, tracks);
+
+    expect(playable.map((o) => o.id)).toEqual([2, 3]);
+    expect(playable[1]).toMatchObject({ styles: { volume: 0 } });
+    expect(isTrackAudible(tracks, 1)).toBe(true);
+    expect(isTrackAudible(tracks, 2)).toBe(false);
+  });
+});
+
+describe("getRowAtOffset", () => {
+  it("finds rows of different heights", () => {
+    const heights = [32, 64, 44];
+
+    expect(getRowAtOffset(heights, 10)).toBe(0);
+    expect(getRowAtOffset(heights, 40)).toBe(1);
+    expect(getRowAtOffset(heights, 100)).toBe(2);
+    expect(getRowAtOffset(heights, 500)).toBe(2);
+    expect(getRowAtOffset(heights, -5)).toBe(0);
+  });
+});
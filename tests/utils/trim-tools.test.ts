@@ -0,0 +1,130 @@
+import { Overlay, OverlayType } from "../../components/editor/version-7.0.0/types";
+import {
+  findCut,
+  getSourceRange,
+  rollCut,
+  slideClip,
+  slipClip,
+} from "../../components/editor/version-7.0.0/utils/trim-tools";
+import { formatTimecode } from "../../components/editor/version-7.0.0/utils/format-utils";
+
+const clip = (
+  id: number,
+  from: number,
+  durationInFrames: number,
+  videoStartTime = 0,
+  mediaDurationInFrames?: number
+) =>
+  ({
+    id,
+    row: 0,
+    from,
+    durationInFrames,
+    type: OverlayType.VIDEO,
+    src: `clip-${id}.mp4`,
+    videoStartTime,
+    mediaDurationInFrames,
+    styles: {},
+  } as unknown as Overlay);
+
+const sourceDuration = (overlay: Overlay) =>
+  overlay.type === OverlayType.VIDEO ? overlay.mediaDurationInFrames : undefined;
+
+const byId = (overlays: Overlay[] | null, id: number) =>
+  overlays!.find((overlay) => overlay.id === id)!;
+
+describe("slipClip", () => {
+  it("shifts the source without moving the clip", () => {
+    const result = slipClip([clip(1, 30, 60, 40, 200)], 1, 10, sourceDuration);
+
+    expect(byId(result, 1)).toMatchObject({ from: 30, durationInFrames: 60 });
+    expect(getSourceRange(byId(result, 1))).toEqual({ start: 30, end: 90 });
+  });
+
+  it("stops at both ends of the source", () => {
+    const overlays = [clip(1, 30, 60, 40, 120)];
+
+    expect(getSourceRange(byId(slipClip(overlays, 1, 100, sourceDuration), 1)).start).toBe(0);
+    expect(getSourceRange(byId(slipClip(overlays, 1, -100, sourceDuration), 1)).end).toBe(120);
+  });
+
+  it("accounts for playback speed", () => {
+    const fast = { ...clip(1, 0, 50, 100, 400), speed: 2 } as Overlay;
+
+    expect(getSourceRange(byId(slipClip([fast], 1, -10, sourceDuration), 1))).toEqual({
+      start: 120,
+      end: 220,
+    });
+  });
+
+  it("only applies to video and sound clips", () => {
+    const text = { ...clip(1, 0, 30), type: OverlayType.TEXT } as Overlay;
+    expect(slipClip([text], 1, 5, sourceDuration)).toBeNull();
+  });
+});
+
+describe("slideClip", () => {
+  const overlays = [clip(1, 0, 30, 0, 100), clip(2, 30, 20, 50), clip(3, 50, 30, 10)];
+
+  it("trims the neighbours it touches", () => {
+    const result = slideClip(overlays, 2, 5, sourceDuration);
+
+    expect(byId(result, 1).durationInFrames).toBe(35);
+    expect(byId(result, 2)).toMatchObject({ from: 35, videoStartTime: 50 });
+    expect(byId(result, 3)).toMatchObject({ from: 55, durationInFrames: 25, videoStartTime: 15 });
+  });
+
+  it("stops where the next clip runs out of source", () => {
+    const result = slideClip(overlays, 2, -20, sourceDuration);
+
+    expect(byId(result, 2).from).toBe(20);
+    expect(byId(result, 3)).toMatchObject({ from: 40, videoStartTime: 0 });
+  });
+
+  it("stops where the previous clip runs out of source", () => {
+    const result = slideClip(overlays, 2, 100, sourceDuration);
+    expect(byId(result, 1).durationInFrames).toBe(59);
+    expect(byId(result, 3).durationInFrames).toBe(1);
+
+    const short = [clip(1, 0, 30, 0, 40), clip(2, 30, 20), clip(3, 50, 30, 10)];
+    expect(byId(slideClip(short, 2, 100, sourceDuration), 1).durationInFrames).toBe(40);
+  });
+
+  it("moves within a gap up to the next item", () => {
+    const result = slideClip([clip(1, 0, 30), clip(2, 40, 20), clip(3, 70, 30)], 2, 50, sourceDuration);
+
+    expect(byId(result, 2).from).toBe(50);
+    expect(byId(result, 3).from).toBe(70);
+  });
+});
+
+describe("rollCut", () => {
+  const overlays = [clip(1, 0, 30, 0, 50), clip(2, 30, 30, 5)];
+
+  it("moves the cut between two adjacent clips", () => {
+    const result = rollCut(overlays, 1, "end", 4, sourceDuration);
+
+    expect(byId(result, 1).durationInFrames).toBe(34);
+    expect(byId(result, 2)).toMatchObject({ from: 34, durationInFrames: 26, videoStartTime: 9 });
+  });
+
+  it("respects the source of both clips", () => {
+    expect(byId(rollCut(overlays, 2, "start", -20, sourceDuration), 2)).toMatchObject({
+      from: 25,
+      videoStartTime: 0,
+    });
+    expect(byId(rollCut(overlays, 2, "start", 40, sourceDuration), 1).durationInFrames).toBe(50);
+  });
+
+  it("needs a cut at the edge", () => {
+    expect(findCut(overlays, 1, "start")).toBeNull();
+    expect(rollCut(overlays, 2, "end", 5, sourceDuration)).toBeNull();
+  });
+});
+
+describe("formatTimecode", () => {
+  it("formats frames as hours, minutes, seconds and frames", () => {
+    expect(formatTimecode(0, 30)).toBe("00:00:00:00");
+    expect(formatTimecode(30 * 3661 + 12, 30)).toBe("01:01:01:12");
+  });
+});
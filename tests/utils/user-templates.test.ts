@@ -0,0 +1,180 @@
+import {
+  ClipOverlay,
+  Overlay,
+  OverlayType,
+  SoundOverlay,
+  StickerOverlay,
+  TemplateOverlay,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  buildUserTemplate,
+  getPlaceholderCandidates,
+  instantiateTemplate,
+} from "../../components/editor/version-7.0.0/utils/user-templates";
+
+const base = {
+  row: 0,
+  left: 0,
+  top: 0,
+  width: 1080,
+  height: 1920,
+  rotation: 0,
+  isDragging: false,
+};
+
+const clip = {
+  ...base,
+  id: 1,
+  from: 0,
+  durationInFrames: 120,
+  type: OverlayType.VIDEO,
+  content: "https://cdn.example.com/beach.mp4",
+  src: "https://cdn.example.com/beach.mp4",
+  styles: {},
+} as ClipOverlay;
+
+const title = {
+  ...base,
+  id: 2,
+  row: 1,
+  from: 30,
+  durationInFrames: 150,
+  type: OverlayType.TEXT,
+  content: "Summer sale",
+  styles: { fontSize: "3rem", fontWeight: "700", color: "#fff" },
+} as unknown as TextOverlay;
+
+const overlays: Overlay[] = [title, clip];
+
+const template = (extra: Partial<TemplateOverlay> = {}) =>
+  buildUserTemplate({
+    id: "user-1",
+    name: "  Promo ",
+    description: "",
+    category: "",
+    tags: ["sale", " promo", "", "sale"],
+    overlays,
+    placeholders: [
+      { overlayId: 2, kind: "text", label: "Headline" },
+      { overlayId: 1, kind: "media", label: "Background" },
+      { overlayId: 99, kind: "media", label: "Gone" },
+    ],
+    aspectRatio: "9:16",
+    createdBy: { id: "u", name: "User" },
+    now: new Date("2026-01-01T00:00:00.000Z"),
+    ...extra,
+  });
+
+describe("getPlaceholderCandidates", () => {
+  it("offers texts and media in timeline order", () => {
+    expect(getPlaceholderCandidates(overlays)).toEqual([
+      { overlayId: 1, kind: "media", label: "beach.mp4" },
+      { overlayId: 2, kind: "text", label: "Summer sale" },
+    ]);
+  });
+});
+
+describe("buildUserTemplate", () => {
+  it("fills in the metadata from the project", () => {
+    expect(template()).toMatchObject({
+      id: "user-1",
+      name: "Promo",
+      category: "Custom",
+      tags: ["sale", "promo"],
+      duration: 180,
+      aspectRatio: "9:16",
+      isUserTemplate: true,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(template().placeholders!.map((p) => p.overlayId)).toEqual([2, 1]);
+  });
+
+  it("keeps the id, creation date and thumbnail of the template being edited", () => {
+    const existing = { ...template(), thumbnail: "data:image/jpeg;base64,AA" };
+    const edited = buildUserTemplate({
+      ...existing,
+      id: "user-2",
+      placeholders: [],
+      existing,
+      now: new Date("2026-02-01T00:00:00.000Z"),
+    });
+
+    expect(edited).toMatchObject({
+      id: "user-1",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-02-01T00:00:00.000Z",
+      thumbnail: "data:image/jpeg;base64,AA",
+      placeholders: [],
+    });
+  });
+});
+
+describe("instantiateTemplate", () => {
+  it("fills text placeholders and returns media placeholders under their new ids", () => {
+    const { overlays: placed, mediaSlots } = instantiateTemplate(template(), {
+      2: "Winter sale",
+    });
+
+    const text = placed.find((overlay) => overlay.type === OverlayType.TEXT) as TextOverlay;
+    const video = placed.find((overlay) => overlay.type === OverlayType.VIDEO)!;
+    expect(text.content).toBe("Winter sale");
+    expect(mediaSlots).toEqual([video.id]);
+    expect(new Set(placed.map((overlay) => overlay.id)).size).toBe(2);
+  });
+
+  it("carries links, groups and visualiser sources over to the new ids", () => {
+    const voice = {
+      ...base,
+      id: 3,
+      row: 2,
+      from: 0,
+      durationInFrames: 120,
+      type: OverlayType.SOUND,
+      content: "Voice",
+      src: "https://cdn.example.com/voice.mp3",
+      linkedTo: 1,
+      groupId: "group-a",
+      styles: {},
+    } as SoundOverlay;
+    const bars = {
+      ...base,
+      id: 4,
+      row: 3,
+      from: 0,
+      durationInFrames: 120,
+      type: OverlayType.STICKER,
+      content: "audio-visualiser",
+      category: "Default",
+      visualiser: { source: 3, style: "bars", primaryColor: "#fff", secondaryColor: "#000" },
+      groupId: "group-a",
+      styles: {},
+    } as StickerOverlay;
+    const { overlays: placed } = instantiateTemplate(
+      template({
+        overlays: [
+          { ...clip, groupId: "group-a" },
+          voice,
+          bars,
+          { ...bars, id: 5, visualiser: { ...bars.visualiser!, source: 99 } },
+          { ...title, linkedTo: 99 },
+        ],
+      })
+    );
+    const [newClip, newVoice, newBars, orphanBars, newTitle] = placed;
+
+    expect(newVoice.linkedTo).toBe(newClip.id);
+    expect((newBars as StickerOverlay).visualiser!.source).toBe(newVoice.id);
+    expect((orphanBars as StickerOverlay).visualiser!.source).toBe("mix");
+    expect(newTitle.linkedTo).toBeUndefined();
+    expect(newClip.groupId).not.toBe("group-a");
+    expect(newVoice.groupId).toBe(newClip.groupId);
+    expect(newBars.groupId).toBe(newClip.groupId);
+  });
+
+  it("keeps the original text when none was entered", () => {
+    const { overlays: placed } = instantiateTemplate(template(), { 2: "  " });
+    const text = placed.find((overlay) => overlay.type === OverlayType.TEXT) as TextOverlay;
+    expect(text.content).toBe("Summer sale");
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  ClipOverlay,
+  OverlayType,
+  ProjectVariants,
+  TextOverlay,
+} from "../../components/editor/version-7.0.0/types";
+import {
+  applyOverlayLayout,
+  getOverlayLayout,
+  switchVariant,
+} from "../../components/editor/version-7.0.0/utils/variants";
+
+const LANDSCAPE = { width: 1280, height: 720 };
+const PORTRAIT = { width: 1080, height: 1920 };
+
+const base = {
+  row: 0,
+  from: 0,
+  durationInFrames: 90,
+  rotation: 0,
+  isDragging: false,
+};
+
+const clip = (extra: Partial<ClipOverlay> = {}) =>
+  ({
+    ...base,
+    id: 1,
+    type: OverlayType.VIDEO,
+    content: "clip.jpg",
+    src: "clip.mp4",
+    left: 0,
+    top: 0,
+    width: 1280,
+    height: 720,
+    styles: { objectFit: "contain" },
+    ...extra,
+  } as ClipOverlay);
+
+const title = (extra: Partial<TextOverlay> = {}) =>
+  ({
+    ...base,
+    id: 2,
+    type: OverlayType.TEXT,
+    content: "Title",
+    left: 140,
+    top: 60,
+    width: 1000,
+    height: 200,
+    styles: {},
+    ...extra,
+  } as unknown as TextOverlay);
+
+const variants = (): ProjectVariants => ({
+  activeId: "wide",
+  variants: [
+    { id: "wide", aspectRatio: "16:9", layouts: {} },
+    {
+      id: "tall",
+      aspectRatio: "9:16",
+      layouts: {
+        1: {
+          left: 0,
+          top: 420,
+          width: 1080,
+          height: 1080,
+          rotation: 0,
+          objectFit: "cover",
+          focalPoint: { x: 0.3, y: 0.5 },
+        },
+      },
+    },
+  ],
+});
+
+describe("overlay layouts", () => {
+  it("moves layout keyframes with the layout and keeps the others", () => {
+    const animated = title({
+      keyframes: {
+        left: [{ id: "a", frame: 0, value: 140, easing: "linear" }],
+        opacity: [{ id: "b", frame: 0, value: 0, easing: "linear" }],
+      },
+    });
+    const layout = getOverlayLayout(animated);
+    expect(Object.keys(layout.keyframes!)).toEqual(["left"]);
+
+    const moved = applyOverlayLayout(title({ keyframes: animated.keyframes, left: 0 }), {
+      ...layout,
+      keyframes: undefined,
+    });
+    expect(moved.left).toBe(140);
+    expect(Object.keys(moved.keyframes!)).toEqual(["opacity"]);
+  });
+
+  it("carries the crop of photos and videos", () => {
+    const layout = getOverlayLayout(clip({ focalPoint: { x: 0.2, y: 0.4 } }));
+    expect(layout).toMatchObject({ objectFit: "contain", focalPoint: { x: 0.2, y: 0.4 } });
+
+    const restored = applyOverlayLayout(clip(), { ...layout, objectFit: "cover" }) as ClipOverlay;
+    expect(restored.styles.objectFit).toBe("cover");
+    expect(restored.focalPoint).toEqual({ x: 0.2, y: 0.4 });
+  });
+});
+
+describe("switchVariant", () => {
+  it("stores the open layout and applies the other variant's", () => {
+    const overlays = [clip({ from: 30 }), title()];
+    const result = switchVariant(
+      variants(),
+      overlays,
+      { aspectRatio: "16:9", dimensions: LANDSCAPE },
+      "tall",
+      () => PORTRAIT
+    )!;
+
+    expect(result.variants.activeId).toBe("tall");
+    expect(result.variants.variants[0].layouts[2]).toMatchObject({ left: 140, top: 60 });
+    // Laid out from the stored layout, timing untouched
+    expect(result.overlays[0]).toMatchObject({ from: 30, top: 420, width: 1080 });
+    expect((result.overlays[0] as ClipOverlay).styles.objectFit).toBe("cover");
+    // No stored layout: reframed onto the portrait canvas
+    expect(result.overlays[1].left + result.overlays[1].width).toBeLessThanOrEqual(
+      PORTRAIT.width
+    );
+  });
+
+  it("keeps the custom resolution of each variant", () => {
+    const state = variants();
+    state.variants[1].resolution = { width: 720, height: 1280 };
+    const result = switchVariant(
+      state,
+      [title()],
+      {
+        aspectRatio: "16:9",
+        dimensions: { width: 2560, height: 1440 },
+        resolution: { width: 2560, height: 1440 },
+      },
+      "tall",
+      () => PORTRAIT
+    )!;
+
+    expect(result.variants.variants[0].resolution).toEqual({ width: 2560, height: 1440 });
+    // Reframed onto the 720x1280 canvas rather than the preset portrait size
+    expect(result.overlays[0]).toMatchObject({ left: 39, width: 281 });
+  });
+
+  it("does nothing for the open variant or an unknown one", () => {
+    const current = { aspectRatio: "16:9" as const, dimensions: LANDSCAPE };
+    expect(switchVariant(variants(), [], current, "wide", () => PORTRAIT)).toBeNull();
+    expect(switchVariant(variants(), [], current, "square", () => PORTRAIT)).toBeNull();
+  });
+});
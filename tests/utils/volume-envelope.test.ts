@@ -0,0 +1,127 @@
+import { Overlay, OverlayType } from "../../components/editor/version-7.0.0/types";
+import {
+  AudioOverlay,
+  getEnvelopeGain,
+  getFadeGain,
+  getVolumeAtFrame,
+  getVolumeProp,
+  moveVolumePoint,
+  splitVolumeEnvelope,
+  upsertVolumePoint,
+} from "../../components/editor/version-7.0.0/utils/volume-envelope";
+import { getStartTrimUpdates } from "../../components/editor/version-7.0.0/utils/timeline-edits";
+
+const sound = (styles: AudioOverlay["styles"], durationInFrames = 100) =>
+  ({
+    id: 1,
+    row: 0,
+    from: 0,
+    durationInFrames,
+    type: OverlayType.SOUND,
+    src: "sound.mp3",
+    content: "sound.mp3",
+    styles,
+  } as unknown as AudioOverlay);
+
+describe("getEnvelopeGain", () => {
+  const points = [
+    { frame: 10, gain: 1 },
+    { frame: 30, gain: 0 },
+  ];
+
+  it("interpolates between points and holds past the ends", () => {
+    expect(getEnvelopeGain(points, 0)).toBe(1);
+    expect(getEnvelopeGain(points, 20)).toBeCloseTo(0.5);
+    expect(getEnvelopeGain(points, 50)).toBe(0);
+  });
+
+  it("leaves the volume alone without points", () => {
+    expect(getEnvelopeGain(undefined, 12)).toBe(1);
+    expect(getEnvelopeGain([], 12)).toBe(1);
+  });
+});
+
+describe("getFadeGain", () => {
+  it("ramps up over the fade-in and down over the fade-out", () => {
+    const styles = { fadeInFrames: 10, fadeOutFrames: 20 };
+
+    expect(getFadeGain(styles, 100, 0)).toBe(0);
+    expect(getFadeGain(styles, 100, 5)).toBeCloseTo(0.5);
+    expect(getFadeGain(styles, 100, 50)).toBe(1);
+    expect(getFadeGain(styles, 100, 90)).toBeCloseTo(0.5);
+  });
+
+  it("shortens fades that don't fit the overlay", () => {
+    const styles = { fadeInFrames: 60, fadeOutFrames: 60 };
+    // Both fades are scaled to 25 frames
+    expect(getFadeGain(styles, 50, 25)).toBe(1);
+    expect(getFadeGain(styles, 50, 10)).toBeCloseTo(0.4);
+  });
+});
+
+describe("getVolumeAtFrame", () => {
+  it("combines the volume, envelope and fades", () => {
+    const overlay = sound({
+      volume: 0.8,
+      fadeInFrames: 10,
+      volumeEnvelope: [
+        { frame: 0, gain: 0.5 },
+        { frame: 100, gain: 0.5 },
+      ],
+    });
+
+    expect(getVolumeAtFrame(overlay, 5)).toBeCloseTo(0.2);
+    expect(getVolumeAtFrame(overlay, 50)).toBeCloseTo(0.4);
+  });
+
+  it("uses a plain volume when nothing changes over time", () => {
+    expect(getVolumeProp(sound({ volume: 0.7 }))).toBe(0.7);
+    expect(typeof getVolumeProp(sound({ fadeOutFrames: 5 }))).toBe("function");
+  });
+});
+
+describe("envelope editing", () => {
+  it("replaces a point on the same frame and clamps the gain", () => {
+    const points = upsertVolumePoint([{ frame: 10, gain: 0.2 }], { frame: 10, gain: 2 });
+    expect(points).toEqual([{ frame: 10, gain: 1 }]);
+  });
+
+  it("keeps a moved point between its neighbours", () => {
+    const points = [
+      { frame: 0, gain: 1 },
+      { frame: 20, gain: 1 },
+      { frame: 40, gain: 1 },
+    ];
+
+    expect(moveVolumePoint(points, 1, { frame: 60, gain: 0.5 })[1]).toEqual({
+      frame: 39,
+      gain: 0.5,
+    });
+  });
+
+  it("splits into two halves that keep the level at the cut", () => {
+    const [first, second] = splitVolumeEnvelope(
+      [
+        { frame: 0, gain: 0 },
+        { frame: 40, gain: 1 },
+      ],
+      20
+    );
+
+    expect(first).toEqual([
+      { frame: 0, gain: 0 },
+      { frame: 20, gain: 0.5 },
+    ]);
+    expect(second).toEqual([
+      { frame: 0, gain: 0.5 },
+      { frame: 20, gain: 1 },
+    ]);
+  });
+
+  it("keeps envelope points in place when the start is trimmed", () => {
+    const overlay = sound({ volumeEnvelope: [{ frame: 30, gain: 0.5 }] }) as Overlay;
+    const updates = getStartTrimUpdates(overlay, 0, 10) as Partial<AudioOverlay>;
+
+    expect(updates.styles?.volumeEnvelope).toEqual([{ frame: 20, gain: 0.5 }]);
+  });
+});